@@ -1,6 +1,7 @@
 import type { NextConfig } from 'next';
 import bundleAnalyzer from '@next/bundle-analyzer';
 import withSerwistInit from '@serwist/next';
+import { randomUUID } from 'node:crypto';
 
 const withBundleAnalyzer = bundleAnalyzer({
   enabled: process.env.ANALYZE === 'true',
@@ -10,6 +11,8 @@ const withSerwist = withSerwistInit({
   swSrc: 'src/sw.ts',
   swDest: 'public/sw.js',
   disable: process.env.NODE_ENV === 'development',
+  // Offline fallback page (see `fallbacks` in src/sw.ts)
+  additionalPrecacheEntries: [{ url: '/offline', revision: randomUUID() }],
 });
 
 const nextConfig: NextConfig = {
@@ -1,39 +1,63 @@
 'use client';
 
 import * as React from 'react';
-import { useRouter, useParams } from 'next/navigation';
-import { ArrowLeft, FileText } from 'lucide-react';
+import { Suspense } from 'react';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
+import { ArrowLeft, FileText, MailOpen, Mail } from 'lucide-react';
 import { Breadcrumb } from '@/components/common/Breadcrumb';
 import { ArticleHeader } from '@/components/articles/ArticleHeader';
 import { AISummaryCard } from '@/components/articles/AISummaryCard';
+import { ArticleNavigation } from '@/components/articles/ArticleNavigation';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { EmptyState } from '@/components/common/EmptyState';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { useArticle } from '@/hooks/useArticle';
+import { useArticleNeighbors } from '@/hooks/useArticleNeighbors';
+import { useMarkArticleRead, useReadState } from '@/hooks/useReadState';
+import { usePinArticleOffline } from '@/hooks/useOfflineArticles';
+import { getArticleListHref, parseArticleListContext } from '@/utils/articleListContext';
 
 /**
- * Article Detail Page
+ * Article Detail Page Content
  *
- * Protected page that displays the full article with AI summary.
- * Requires authentication - unauthenticated users will be redirected by middleware.
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
  */
-export default function ArticleDetailPage() {
+function ArticleDetailPageContent() {
   const router = useRouter();
   const params = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
   const articleId = parseInt(params.id || '0', 10);
 
+  // List context (search filters and page) the article was opened from
+  const hasListContext = searchParams.toString() !== '';
+  const listContext = React.useMemo(
+    () => parseArticleListContext(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const listHref = hasListContext ? getArticleListHref(listContext) : '/articles';
+
   // Fetch article data
   const { article, isLoading, error, refetch } = useArticle(articleId);
 
-  // Handle back navigation
+  // Previous/next articles in the list, prefetched so moving between them is instant
+  const { previous, next } = useArticleNeighbors(articleId, listContext);
+  useArticle(previous?.article.id ?? 0);
+  useArticle(next?.article.id ?? 0);
+
+  // Opening an article marks it as read and keeps it available offline
+  useMarkArticleRead(article?.id ?? null);
+  usePinArticleOffline(article);
+  const { isRead, toggleRead } = useReadState();
+
+  // Handle back navigation (to the list the article was opened from)
   const handleBack = () => {
-    router.back();
+    router.push(listHref);
   };
 
   // Breadcrumb items
   const breadcrumbItems = [
-    { label: 'Articles', href: '/articles' },
+    { label: 'Articles', href: listHref },
     { label: article?.title || 'Loading...', href: undefined },
   ];
 
@@ -92,15 +116,55 @@ export default function ArticleDetailPage() {
           {/* AI Summary Section */}
           <AISummaryCard summary={article.summary} />
 
-          {/* Back Button */}
-          <div className="pt-4">
+          {/* Back Button and Read State Toggle */}
+          <div className="flex flex-wrap items-center justify-between gap-2 pt-4">
             <Button onClick={handleBack} variant="ghost" className="gap-2">
               <ArrowLeft className="h-4 w-4" />
               Back to Articles
             </Button>
+            <Button onClick={() => toggleRead(article.id)} variant="outline" className="gap-2">
+              {isRead(article.id) ? (
+                <>
+                  <Mail className="h-4 w-4" />
+                  Mark as unread
+                </>
+              ) : (
+                <>
+                  <MailOpen className="h-4 w-4" />
+                  Mark as read
+                </>
+              )}
+            </Button>
           </div>
+
+          {/* Previous / Next Articles */}
+          <ArticleNavigation previous={previous} next={next} />
         </div>
       )}
     </div>
   );
 }
+
+/**
+ * Article Detail Page
+ *
+ * Protected page that displays the full article with AI summary.
+ * Requires authentication - unauthenticated users will be redirected by middleware.
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
+ */
+export default function ArticleDetailPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container py-8">
+          <div className="mx-auto max-w-3xl space-y-6">
+            <Skeleton className="h-10 w-3/4" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        </div>
+      }
+    >
+      <ArticleDetailPageContent />
+    </Suspense>
+  );
+}
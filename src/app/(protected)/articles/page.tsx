@@ -3,15 +3,23 @@
 import * as React from 'react';
 import { Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { FileText, Search } from 'lucide-react';
+import { CheckCheck, FileText, Search } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { Pagination } from '@/components/common/Pagination';
 import { ArticleCard } from '@/components/articles/ArticleCard';
+import { ArticleListModeToggle } from '@/components/articles/ArticleListModeToggle';
+import { LoadMoreTrigger } from '@/components/common/LoadMoreTrigger';
+import { SavedSearches } from '@/components/search/SavedSearches';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { EmptyState } from '@/components/common/EmptyState';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useArticles } from '@/hooks/useArticles';
 import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { useInfiniteArticles } from '@/hooks/useInfiniteArticles';
+import { useArticleListMode, type ArticleListMode } from '@/hooks/useArticleListMode';
+import { useScrollRestoration } from '@/hooks/useScrollRestoration';
+import { useReadState } from '@/hooks/useReadState';
+import { useSearchQuery } from '@/hooks/useSearchQuery';
 import {
   ArticleSearch,
   type ArticleSearchState,
@@ -20,6 +28,11 @@ import {
 } from '@/components/articles/ArticleSearch';
 import { PAGINATION_CONFIG } from '@/lib/constants/pagination';
 import { validatePaginationParams } from '@/lib/api/utils/pagination';
+import {
+  getArticleDetailHref,
+  getArticleListHref,
+  parseArticleListContext,
+} from '@/utils/articleListContext';
 
 /**
  * Articles List Page Content
@@ -50,40 +63,136 @@ function ArticlesPageContent() {
     toDate,
   });
 
+  // Unread-only filter (client-side, applied to the current page)
+  const [unreadOnly, setUnreadOnly] = React.useState(searchParams.get('unread') === 'true');
+  const { isRead } = useReadState();
+
+  // List mode (numbered pages or continuous scrolling), persisted per browser
+  const [listMode, setListMode] = useArticleListMode();
+  const isContinuous = listMode === 'continuous';
+
+  // In continuous mode, pages 1..N are loaded to restore a URL with page=N
+  const restorePageRef = React.useRef(page);
+
   // Determine if we're in search mode
   const isSearchMode = hasActiveFilters(searchState);
 
+  // Advanced query syntax: backend parameters plus a client-side filter
+  const searchQuery = useSearchQuery(toSearchParams(searchState));
+
   // Fetch articles - conditionally enable based on mode to prevent duplicate API calls
   const listResult = useArticles(
     {
       page,
       limit,
     },
-    { enabled: !isSearchMode }
+    { enabled: !isSearchMode && !isContinuous }
   );
 
   const searchResult = useArticleSearch(
     {
-      ...toSearchParams(searchState),
+      ...searchQuery.params,
       page,
       limit,
     },
-    { enabled: isSearchMode }
+    { enabled: isSearchMode && !isContinuous }
+  );
+
+  const infiniteResult = useInfiniteArticles(
+    {
+      ...searchQuery.params,
+      limit,
+    },
+    { enabled: isContinuous, search: isSearchMode }
   );
 
   // Use appropriate result based on mode
-  const { articles, pagination, isLoading, error, refetch } = isSearchMode
-    ? searchResult
-    : listResult;
+  const { articles, pagination, isLoading, error, refetch } = isContinuous
+    ? infiniteResult
+    : isSearchMode
+      ? searchResult
+      : listResult;
+  const { loadedPages, hasNextPage, isFetchingNextPage, fetchNextPage } = infiniteResult;
+  const isRestoringPages = isContinuous && hasNextPage && loadedPages < restorePageRef.current;
+
+  // Phrases, exclusions and OR groups are applied to the loaded articles
+  const { matches: matchesQuery } = searchQuery;
+  const matchingArticles = React.useMemo(
+    () => articles.filter(matchesQuery),
+    [articles, matchesQuery]
+  );
+
+  const visibleArticles = React.useMemo(
+    () =>
+      unreadOnly ? matchingArticles.filter((article) => !isRead(article.id)) : matchingArticles,
+    [matchingArticles, unreadOnly, isRead]
+  );
+
+  // List context carried to the detail page for previous/next navigation
+  const listContext = React.useMemo(
+    () => parseArticleListContext(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  // Detail links; in continuous mode each article keeps the page it was loaded from
+  const articleHrefs = React.useMemo(() => {
+    const hrefs = new Map<number, string>();
+    articles.forEach((article, index) => {
+      const articlePage = isContinuous ? Math.floor(index / limit) + 1 : listContext.page;
+      hrefs.set(
+        article.id,
+        getArticleDetailHref(article.id, { ...listContext, page: articlePage })
+      );
+    });
+    return hrefs;
+  }, [articles, isContinuous, limit, listContext]);
+
+  // Restore scroll position when coming back from an article
+  const { saveScrollPosition } = useScrollRestoration(
+    getArticleListHref(listContext),
+    !isLoading && !isRestoringPages
+  );
+
+  const handleListClick = (event: React.MouseEvent) => {
+    if ((event.target as Element).closest('a[href^="/articles/"]')) {
+      saveScrollPosition();
+    }
+  };
 
   // Redirect if page exceeds total pages
   React.useEffect(() => {
-    if (!isLoading && pagination.totalPages > 0 && pagination.page > pagination.totalPages) {
+    if (
+      !isContinuous &&
+      !isLoading &&
+      pagination.totalPages > 0 &&
+      pagination.page > pagination.totalPages
+    ) {
       const params = new URLSearchParams(searchParams.toString());
       params.set('page', pagination.totalPages.toString());
       router.replace(`/articles?${params.toString()}`);
     }
-  }, [pagination.page, pagination.totalPages, isLoading, searchParams, router]);
+  }, [isContinuous, pagination.page, pagination.totalPages, isLoading, searchParams, router]);
+
+  // Continuous mode: load pages up to the one in the URL (reload, back-navigation)
+  React.useEffect(() => {
+    if (isRestoringPages && loadedPages > 0 && !isFetchingNextPage && !error) {
+      fetchNextPage();
+    }
+  }, [isRestoringPages, loadedPages, isFetchingNextPage, error, fetchNextPage]);
+
+  // Continuous mode: keep the URL in sync with the deepest loaded page
+  React.useEffect(() => {
+    if (!isContinuous || loadedPages === 0 || isRestoringPages || loadedPages === page) {
+      return;
+    }
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('page', loadedPages.toString());
+    router.replace(`/articles?${params.toString()}`, { scroll: false });
+  }, [isContinuous, loadedPages, isRestoringPages, page, searchParams, router]);
+
+  // Latest URL params, read by the filter sync effect without re-running it
+  const searchParamsRef = React.useRef(searchParams);
+  searchParamsRef.current = searchParams;
 
   // Update URL when search state changes
   React.useEffect(() => {
@@ -101,11 +210,24 @@ function ArticlesPageContent() {
     if (searchState.toDate) {
       params.set('to', searchState.toDate);
     }
+    if (unreadOnly) {
+      params.set('unread', 'true');
+    }
+
+    // Keep the current page when the URL already reflects the filters
+    // (initial render, back-navigation)
+    const current = searchParamsRef.current;
+    const filterKeys = ['keyword', 'source_id', 'from', 'to', 'unread'];
+    if (filterKeys.every((key) => (current.get(key) ?? '') === (params.get(key) ?? ''))) {
+      return;
+    }
+
+    restorePageRef.current = 1;
     params.set('page', '1'); // Reset to page 1 when filters change
     params.set('limit', limit.toString());
 
     router.push(`/articles?${params.toString()}`);
-  }, [searchState, limit, router]);
+  }, [searchState, unreadOnly, limit, router]);
 
   // Handle page change
   const handlePageChange = (newPage: number) => {
@@ -122,18 +244,40 @@ function ArticlesPageContent() {
     router.push(`/articles?${params.toString()}`);
   };
 
+  // Handle list mode change - both modes start again from the first page
+  const handleListModeChange = (mode: ArticleListMode) => {
+    if (mode === listMode) {
+      return;
+    }
+    setListMode(mode);
+    restorePageRef.current = 1;
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('page', '1');
+    router.replace(`/articles?${params.toString()}`);
+  };
+
   return (
     <div className="container py-8">
       {/* Page Header */}
       <PageHeader title="Articles" description="Browse all articles from your sources" />
 
+      {/* Saved Searches */}
+      <SavedSearches searchState={searchState} onApply={setSearchState} />
+
       {/* Search and Filter Panel */}
       <ArticleSearch
         searchState={searchState}
         onSearchChange={setSearchState}
         isLoading={isLoading}
+        unreadOnly={unreadOnly}
+        onUnreadOnlyChange={setUnreadOnly}
       />
 
+      {/* List Mode */}
+      <div className="mb-4 flex justify-end">
+        <ArticleListModeToggle mode={listMode} onModeChange={handleListModeChange} />
+      </div>
+
       {/* Error State */}
       {error && (
         <div className="mb-6">
@@ -169,17 +313,57 @@ function ArticlesPageContent() {
         />
       )}
 
+      {/* No Match State - the client-side query parts left nothing on this page */}
+      {!isLoading && !error && articles.length > 0 && matchingArticles.length === 0 && (
+        <EmptyState
+          title="No matching articles on this page"
+          description="Phrases, exclusions and OR are applied to the loaded articles. Try another page or adjust your search."
+          icon={<Search className="h-12 w-12" />}
+        />
+      )}
+
+      {/* All Read State - every loaded article has been read; other pages may have
+          unread articles, so the pagination below stays available */}
+      {!isLoading && !error && matchingArticles.length > 0 && visibleArticles.length === 0 && (
+        <EmptyState
+          title="No unread articles on this page"
+          description={
+            isContinuous
+              ? 'Every article loaded so far has been read. Load more to look for unread articles.'
+              : 'Every article on this page has been read. Unread articles may be on other pages.'
+          }
+          icon={<CheckCheck className="h-12 w-12" />}
+        />
+      )}
+
       {/* Success State - Articles List */}
       {!isLoading && !error && articles.length > 0 && (
         <>
-          <div className="space-y-4">
-            {articles.map((article) => (
-              <ArticleCard key={article.id} article={article} />
+          <div className="space-y-4" onClick={handleListClick}>
+            {visibleArticles.map((article) => (
+              <ArticleCard
+                key={article.id}
+                article={article}
+                href={articleHrefs.get(article.id)}
+                highlightTerms={searchQuery.highlightTerms}
+              />
             ))}
           </div>
 
+          {/* Continuous Mode - Load More */}
+          {isContinuous && (
+            <LoadMoreTrigger
+              className="mt-4"
+              onLoadMore={fetchNextPage}
+              hasMore={hasNextPage}
+              isLoading={isFetchingNextPage}
+              loadedItems={articles.length}
+              totalItems={pagination.total}
+            />
+          )}
+
           {/* Pagination */}
-          {pagination.totalPages > 1 && (
+          {!isContinuous && pagination.totalPages > 1 && (
             <div className="mt-8">
               <Pagination
                 currentPage={pagination.page}
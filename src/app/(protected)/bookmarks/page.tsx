@@ -0,0 +1,203 @@
+'use client';
+
+import * as React from 'react';
+import { Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { Bookmark, Search } from 'lucide-react';
+import { PageHeader } from '@/components/common/PageHeader';
+import { Pagination } from '@/components/common/Pagination';
+import { ArticleCard } from '@/components/articles/ArticleCard';
+import { EmptyState } from '@/components/common/EmptyState';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { useSearchQuery } from '@/hooks/useSearchQuery';
+import {
+  ArticleSearch,
+  type ArticleSearchState,
+  toSearchParams,
+} from '@/components/articles/ArticleSearch';
+import { matchesArticleSearch } from '@/utils/article';
+import { PAGINATION_CONFIG } from '@/lib/constants/pagination';
+import { validatePaginationParams } from '@/lib/api/utils/pagination';
+
+/**
+ * Build the bookmarks URL for a search state and pagination
+ */
+function buildBookmarksUrl(state: ArticleSearchState, page: number, limit: number): string {
+  const params = new URLSearchParams();
+
+  if (state.keyword) {
+    params.set('keyword', state.keyword);
+  }
+  if (state.sourceId) {
+    params.set('source_id', state.sourceId.toString());
+  }
+  if (state.fromDate) {
+    params.set('from', state.fromDate);
+  }
+  if (state.toDate) {
+    params.set('to', state.toDate);
+  }
+  params.set('page', page.toString());
+  params.set('limit', limit.toString());
+
+  return `/bookmarks?${params.toString()}`;
+}
+
+/**
+ * Loading skeleton for the bookmarks list
+ */
+function BookmarksSkeleton() {
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <div key={i} className="rounded-lg border bg-card p-6">
+          <Skeleton className="mb-2 h-6 w-3/4" />
+          <Skeleton className="mb-4 h-4 w-full" />
+          <Skeleton className="h-4 w-1/2" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Bookmarks Page Content
+ *
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
+ */
+function BookmarksPageContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  // Get pagination parameters from URL with validation
+  const validatedParams = validatePaginationParams(new URLSearchParams(searchParams.toString()));
+  const { page, limit } = validatedParams;
+
+  // Search state (initialized from URL)
+  const [searchState, setSearchState] = React.useState<ArticleSearchState>(() => ({
+    keyword: searchParams.get('keyword') || '',
+    sourceId: searchParams.get('source_id') ? parseInt(searchParams.get('source_id')!, 10) : null,
+    fromDate: searchParams.get('from') || null,
+    toDate: searchParams.get('to') || null,
+  }));
+
+  const { bookmarks, isLoading } = useBookmarks();
+
+  const {
+    params,
+    matches: matchesQuery,
+    highlightTerms,
+  } = useSearchQuery(toSearchParams(searchState));
+
+  // Bookmarks are held locally, so filtering and pagination happen client-side
+  const filteredArticles = React.useMemo(
+    () =>
+      bookmarks
+        .map((bookmark) => bookmark.article)
+        .filter((article) => matchesArticleSearch(article, params) && matchesQuery(article)),
+    [bookmarks, params, matchesQuery]
+  );
+
+  const totalPages = Math.ceil(filteredArticles.length / limit);
+  const currentPage = Math.min(page, Math.max(totalPages, 1));
+  const pageArticles = filteredArticles.slice((currentPage - 1) * limit, currentPage * limit);
+
+  // Handle search change - reset to page 1
+  const handleSearchChange = (state: ArticleSearchState) => {
+    setSearchState(state);
+    router.replace(buildBookmarksUrl(state, 1, limit));
+  };
+
+  // Handle page change
+  const handlePageChange = (newPage: number) => {
+    router.push(buildBookmarksUrl(searchState, newPage, limit));
+  };
+
+  // Handle items per page change
+  const handleItemsPerPageChange = (newLimit: number) => {
+    router.push(buildBookmarksUrl(searchState, 1, newLimit));
+  };
+
+  return (
+    <div className="container py-8">
+      {/* Page Header */}
+      <PageHeader title="Bookmarks" description="Articles you saved to read later" />
+
+      {/* Search and Filter Panel */}
+      {bookmarks.length > 0 && (
+        <ArticleSearch searchState={searchState} onSearchChange={handleSearchChange} />
+      )}
+
+      {/* Loading State */}
+      {isLoading && <BookmarksSkeleton />}
+
+      {/* Empty State - nothing bookmarked yet */}
+      {!isLoading && bookmarks.length === 0 && (
+        <EmptyState
+          title="No bookmarks yet"
+          description='Use the "Read later" button on any article to save it here.'
+          icon={<Bookmark className="h-12 w-12" />}
+        />
+      )}
+
+      {/* Empty State - no bookmark matches the filters */}
+      {!isLoading && bookmarks.length > 0 && filteredArticles.length === 0 && (
+        <EmptyState
+          title="No bookmarks found"
+          description="Try adjusting your search keywords or filters."
+          icon={<Search className="h-12 w-12" />}
+        />
+      )}
+
+      {/* Success State - Bookmarked Articles */}
+      {!isLoading && pageArticles.length > 0 && (
+        <>
+          <div className="space-y-4">
+            {pageArticles.map((article) => (
+              <ArticleCard key={article.id} article={article} highlightTerms={highlightTerms} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={handlePageChange}
+                totalItems={filteredArticles.length}
+                itemsPerPage={limit}
+                onItemsPerPageChange={handleItemsPerPageChange}
+                availablePageSizes={PAGINATION_CONFIG.AVAILABLE_PAGE_SIZES}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Bookmarks Page
+ *
+ * Protected page listing the current user's "Read later" collection.
+ * Bookmarks are stored locally in IndexedDB, per user.
+ *
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
+ */
+export default function BookmarksPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container py-8">
+          <PageHeader title="Bookmarks" description="Articles you saved to read later" />
+          <BookmarksSkeleton />
+        </div>
+      }
+    >
+      <BookmarksPageContent />
+    </Suspense>
+  );
+}
@@ -1,21 +1,20 @@
 'use client';
 
-import * as React from 'react';
-import { FileText, Rss } from 'lucide-react';
-import { StatisticsCard } from '@/components/dashboard/StatisticsCard';
-import { RecentArticlesList } from '@/components/dashboard/RecentArticlesList';
-import { ErrorMessage } from '@/components/common/ErrorMessage';
-import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { DashboardWidgets } from '@/components/dashboard/DashboardWidgets';
+import { useUserRole } from '@/hooks/useCan';
 
 /**
  * Dashboard Page
  *
- * Protected page that displays user statistics and recent articles.
+ * Protected page made of customizable widgets (statistics, saved searches,
+ * ingestion analytics, recent articles and, for admins, stale sources). Each user
+ * picks and orders their own widgets; the layout is kept per user.
  * Features cyber/tech theme matching the brand.
  * Requires authentication - unauthenticated users will be redirected by middleware.
  */
 export default function DashboardPage() {
-  const { stats, isLoading, error } = useDashboardStats();
+  // User role (read after mount; the token lives in localStorage)
+  const userRole = useUserRole();
 
   return (
     <div className="container py-8">
@@ -25,31 +24,8 @@ export default function DashboardPage() {
         <p className="mt-2 text-muted-foreground">Your personalized news feed overview</p>
       </div>
 
-      {/* Error State */}
-      {error && (
-        <div className="mb-6">
-          <ErrorMessage error={error} onRetry={() => window.location.reload()} />
-        </div>
-      )}
-
-      {/* Statistics Cards */}
-      <div className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-2">
-        <StatisticsCard
-          title="Total Articles"
-          value={stats.totalArticles}
-          icon={<FileText className="h-4 w-4" />}
-          isLoading={isLoading}
-        />
-        <StatisticsCard
-          title="Total Sources"
-          value={stats.totalSources}
-          icon={<Rss className="h-4 w-4" />}
-          isLoading={isLoading}
-        />
-      </div>
-
-      {/* Recent Articles List */}
-      <RecentArticlesList articles={stats.recentArticles} isLoading={isLoading} />
+      {/* Widgets */}
+      <DashboardWidgets role={userRole} />
     </div>
   );
 }
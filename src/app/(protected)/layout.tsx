@@ -2,14 +2,21 @@
 
 import * as React from 'react';
 import { Header } from '@/components/layout/Header';
+import { KeyboardShortcuts } from '@/components/common/KeyboardShortcuts';
+import { SessionExpiryDialog } from '@/components/auth/SessionExpiryDialog';
 import { useAuth } from '@/hooks/useAuth';
+import { useCrossTabLogout } from '@/hooks/useCrossTabLogout';
+import { useTokenRefreshScheduler } from '@/hooks/useTokenRefreshScheduler';
+import { useReadStateSync } from '@/hooks/useReadState';
+import { useOfflineBookmarkSync } from '@/hooks/useOfflineArticles';
 
 /**
  * Protected Layout
  *
  * Layout for protected pages (dashboard, articles, sources)
  * Features cyber/tech theme matching the brand.
- * Includes header navigation and logout functionality
+ * Includes header navigation, logout functionality, global keyboard shortcuts
+ * and the background session refresh
  */
 export default function ProtectedLayout({
   children,
@@ -18,6 +25,18 @@ export default function ProtectedLayout({
 }>) {
   const { logout } = useAuth();
 
+  // Sign out together with the other tabs
+  useCrossTabLogout();
+
+  // Refresh the session before it expires (one leader tab)
+  useTokenRefreshScheduler();
+
+  // Flush locally recorded read state to the backend (no-op unless enabled)
+  useReadStateSync();
+
+  // Keep bookmarked articles available for offline reading
+  useOfflineBookmarkSync();
+
   return (
     <div className="relative min-h-screen bg-background">
       {/* Background Effects */}
@@ -28,6 +47,8 @@ export default function ProtectedLayout({
       <div className="relative">
         <Header onLogout={logout} />
         <main className="px-4 pb-8 sm:px-6 lg:px-8">{children}</main>
+        <KeyboardShortcuts />
+        <SessionExpiryDialog onSignOut={logout} />
       </div>
     </div>
   );
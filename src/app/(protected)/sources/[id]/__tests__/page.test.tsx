@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import SourceDetailPage from '../page';
+import { Toaster } from '@/components/common/Toaster';
+import { ToastManager } from '@/lib/toast/ToastManager';
+import * as roleUtils from '@/lib/auth/role';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import * as useSourceModule from '@/hooks/useSource';
+import * as useArticlesModule from '@/hooks/useArticles';
+import { createMockArticles } from '@/__test__/factories/articleFactory';
+import type { Source } from '@/types/api';
+
+// Mock dependencies
+vi.mock('@/lib/auth/role');
+vi.mock('@/lib/api/endpoints/sources');
+vi.mock('@/hooks/useSource');
+vi.mock('@/hooks/useArticles');
+
+// Send deferred (undoable) requests immediately
+vi.mock('@/config/sourceConfig', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/config/sourceConfig')>();
+  return {
+    SOURCE_CONFIG: { ...actual.SOURCE_CONFIG, UNDO_GRACE_PERIOD_MS: 0 },
+  };
+});
+
+// Mock next/navigation
+const navigation = vi.hoisted(() => ({
+  push: vi.fn(),
+  searchParams: new URLSearchParams(),
+}));
+vi.mock('next/navigation', () => ({
+  useParams: () => ({ id: '1' }),
+  useSearchParams: () => navigation.searchParams,
+  useRouter: () => ({
+    push: navigation.push,
+    replace: vi.fn(),
+  }),
+  usePathname: () => '/sources/1',
+}));
+
+describe('SourceDetailPage', () => {
+  let queryClient: QueryClient;
+
+  const mockSource: Source = {
+    id: 1,
+    name: 'Tech Blog',
+    feed_url: 'https://example.com/tech.xml',
+    active: true,
+    last_crawled_at: new Date().toISOString(),
+  };
+
+  const mockSourceResult = (overrides: Partial<ReturnType<typeof useSourceModule.useSource>>) => {
+    vi.mocked(useSourceModule.useSource).mockReturnValue({
+      source: mockSource,
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+      ...overrides,
+    });
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+    ToastManager.resetInstance();
+    navigation.searchParams = new URLSearchParams();
+
+    vi.mocked(roleUtils.getUserRole).mockReturnValue('user');
+    mockSourceResult({});
+    vi.mocked(useArticlesModule.useArticles).mockReturnValue({
+      articles: createMockArticles(3),
+      pagination: { page: 1, limit: 10, total: 23, totalPages: 3 },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderWithClient = () => {
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <SourceDetailPage />
+        <Toaster />
+      </QueryClientProvider>
+    );
+  };
+
+  it('should show the source metadata', () => {
+    renderWithClient();
+
+    expect(useSourceModule.useSource).toHaveBeenCalledWith(1);
+    expect(screen.getByRole('heading', { level: 1, name: 'Tech Blog' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'https://example.com/tech.xml' })).toHaveAttribute(
+      'href',
+      'https://example.com/tech.xml'
+    );
+    expect(screen.getByLabelText('Type: RSS')).toBeInTheDocument();
+    expect(screen.getByText('Just now')).toBeInTheDocument();
+  });
+
+  it('should list the source articles with pagination', () => {
+    navigation.searchParams = new URLSearchParams('page=2');
+
+    renderWithClient();
+
+    expect(useArticlesModule.useArticles).toHaveBeenCalledWith(
+      { source_id: 1, page: 2, limit: 10 },
+      { enabled: true }
+    );
+    const articleLinks = screen.getAllByRole('link', { name: /^Article:/ });
+    expect(articleLinks).toHaveLength(3);
+    // Previous/next navigation on the article page stays within this source
+    expect(articleLinks[0]).toHaveAttribute('href', '/articles/1?source_id=1&page=1&limit=10');
+    expect(screen.getByText('(23)')).toBeInTheDocument();
+    expect(screen.getByRole('navigation', { name: /pagination/i })).toBeInTheDocument();
+  });
+
+  it('should change the articles page in the URL', async () => {
+    const user = userEvent.setup();
+    renderWithClient();
+
+    await user.click(screen.getByRole('button', { name: 'Go to page 2' }));
+
+    expect(navigation.push).toHaveBeenCalledWith('/sources/1?page=2');
+  });
+
+  it('should show an empty state when the source has no articles', () => {
+    vi.mocked(useArticlesModule.useArticles).mockReturnValue({
+      articles: [],
+      pagination: { page: 1, limit: 10, total: 0, totalPages: 0 },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+
+    renderWithClient();
+
+    expect(screen.getByText('No articles yet')).toBeInTheDocument();
+  });
+
+  it('should show a read-only status badge to non-admin users', async () => {
+    renderWithClient();
+
+    await waitFor(() => {
+      expect(roleUtils.getUserRole).toHaveBeenCalled();
+    });
+    expect(screen.getByText('Active')).toBeInTheDocument();
+    expect(screen.queryByRole('switch')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+  });
+
+  it('should show a not found state', () => {
+    mockSourceResult({ source: null });
+
+    renderWithClient();
+
+    expect(screen.getByText('Source not found')).toBeInTheDocument();
+  });
+
+  it('should show the source error', () => {
+    mockSourceResult({ source: null, error: new Error('Server error') });
+
+    renderWithClient();
+
+    expect(screen.getByText('Server error')).toBeInTheDocument();
+    expect(screen.queryByText('Source not found')).not.toBeInTheDocument();
+  });
+
+  describe('Admin Actions', () => {
+    beforeEach(() => {
+      vi.mocked(roleUtils.getUserRole).mockReturnValue('admin');
+    });
+
+    it('should toggle the source active status', async () => {
+      const user = userEvent.setup();
+      vi.mocked(sourcesApi.updateSourceActive).mockResolvedValue({
+        ...mockSource,
+        active: false,
+      });
+      renderWithClient();
+
+      await user.click(await screen.findByRole('switch'));
+
+      await waitFor(() => {
+        expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(1, false);
+      });
+    });
+
+    it('should open the edit dialog', async () => {
+      const user = userEvent.setup();
+      renderWithClient();
+
+      await user.click(await screen.findByRole('button', { name: 'Edit' }));
+
+      expect(await screen.findByRole('dialog', { name: 'Edit Source' })).toBeInTheDocument();
+    });
+
+    it('should return to the sources list once the source is deleted', async () => {
+      const user = userEvent.setup();
+      vi.mocked(sourcesApi.deleteSource).mockResolvedValue(undefined);
+      renderWithClient();
+
+      await user.click(await screen.findByRole('button', { name: 'Delete' }));
+      await user.click(await screen.findByRole('button', { name: /confirm delete/i }));
+
+      await waitFor(() => {
+        expect(sourcesApi.deleteSource).toHaveBeenCalledWith(1);
+        expect(navigation.push).toHaveBeenCalledWith('/sources');
+      });
+    });
+  });
+});
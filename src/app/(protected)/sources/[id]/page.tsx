@@ -0,0 +1,327 @@
+'use client';
+
+import * as React from 'react';
+import { Suspense } from 'react';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, Pencil, Rss, Trash2 } from 'lucide-react';
+import { Breadcrumb } from '@/components/common/Breadcrumb';
+import { PageHeader } from '@/components/common/PageHeader';
+import { Pagination } from '@/components/common/Pagination';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { EmptyState } from '@/components/common/EmptyState';
+import { ArticleCard } from '@/components/articles/ArticleCard';
+import { StatusBadge } from '@/components/sources/StatusBadge';
+import { SourceTypeBadge } from '@/components/sources/SourceTypeBadge';
+import { ActiveToggle } from '@/components/sources/ActiveToggle';
+import { EditSourceDialog } from '@/components/sources/EditSourceDialog';
+import { DeleteSourceDialog } from '@/components/sources/DeleteSourceDialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { useSource } from '@/hooks/useSource';
+import { useArticles } from '@/hooks/useArticles';
+import { useUpdateSourceActive } from '@/hooks/useUpdateSourceActive';
+import { useCan } from '@/hooks/useCan';
+import { formatRelativeTime } from '@/lib/utils/formatDate';
+import { validatePaginationParams } from '@/lib/api/utils/pagination';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import { getArticleDetailHref, getArticleListHref } from '@/utils/articleListContext';
+
+/**
+ * Source Detail Page Content
+ *
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
+ */
+function SourceDetailPageContent() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const sourceId = parseInt(params.id || '0', 10);
+
+  // Articles pagination from URL with validation
+  const { page, limit } = validatePaginationParams(new URLSearchParams(searchParams.toString()));
+
+  // Permissions of the current user
+  const canUpdate = useCan('source:update');
+  const canDelete = useCan('source:delete');
+
+  // Edit and Delete Source Dialog state
+  const [editDialogOpen, setEditDialogOpen] = React.useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
+
+  // Fetch source and its articles
+  const { source, isLoading, error, refetch } = useSource(sourceId);
+  const articlesResult = useArticles(
+    { source_id: sourceId, page, limit },
+    { enabled: sourceId > 0 }
+  );
+  const { articles, pagination } = articlesResult;
+
+  // Source active status updates; deactivation waits behind an "Undo" toast
+  const { mutateAsync: updateActive } = useUpdateSourceActive({
+    undoGracePeriodMs: SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS,
+  });
+
+  const handleToggle = React.useCallback(
+    async (id: number, active: boolean) => {
+      await updateActive({ id, active, name: source?.name });
+    },
+    [updateActive, source?.name]
+  );
+
+  // Handle articles page change
+  const handlePageChange = (newPage: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('page', newPage.toString());
+    router.push(`/sources/${sourceId}?${params.toString()}`);
+  };
+
+  // Breadcrumb items
+  const breadcrumbItems = [
+    { label: 'Sources', href: '/sources' },
+    { label: source?.name || 'Loading...', href: undefined },
+  ];
+
+  const lastCrawled = source?.last_crawled_at
+    ? formatRelativeTime(source.last_crawled_at)
+    : 'Never crawled';
+
+  return (
+    <div className="container py-8">
+      {/* Breadcrumb */}
+      <div className="mb-6">
+        <Breadcrumb items={breadcrumbItems} />
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-6">
+          <ErrorMessage error={error} onRetry={refetch} />
+        </div>
+      )}
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="space-y-6">
+          <div>
+            <Skeleton className="mb-2 h-9 w-1/2" />
+            <Skeleton className="h-5 w-2/3" />
+          </div>
+          <Skeleton className="h-24 w-full" />
+        </div>
+      )}
+
+      {/* Not Found State */}
+      {!isLoading && !error && !source && (
+        <EmptyState
+          title="Source not found"
+          description="The source you're looking for doesn't exist or has been removed."
+          icon={<Rss className="h-12 w-12" />}
+          action={
+            <Button onClick={() => router.push('/sources')} variant="outline">
+              Back to Sources
+            </Button>
+          }
+        />
+      )}
+
+      {/* Success State - Source Detail */}
+      {!isLoading && !error && source && (
+        <>
+          <PageHeader
+            title={source.name}
+            description="Source details and collected articles"
+            action={
+              (canUpdate || canDelete) && (
+                <div className="flex gap-2">
+                  {canUpdate && (
+                    <Button variant="outline" onClick={() => setEditDialogOpen(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button variant="destructive" onClick={() => setDeleteDialogOpen(true)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              )
+            }
+          />
+
+          {/* Source Metadata */}
+          <Card className="mb-8">
+            <CardContent className="p-6">
+              <dl className="grid gap-4 text-sm sm:grid-cols-2 lg:grid-cols-4">
+                <div className="min-w-0">
+                  <dt className="mb-1 text-muted-foreground">Feed URL</dt>
+                  <dd className="truncate">
+                    <a
+                      href={source.feed_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="transition-colors hover:text-primary"
+                      title={source.feed_url}
+                    >
+                      {source.feed_url}
+                    </a>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="mb-1 text-muted-foreground">Status</dt>
+                  <dd>
+                    {canUpdate ? (
+                      <ActiveToggle
+                        sourceId={source.id}
+                        sourceName={source.name}
+                        initialActive={source.active}
+                        onToggle={handleToggle}
+                      />
+                    ) : (
+                      <StatusBadge active={source.active} />
+                    )}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="mb-1 text-muted-foreground">Type</dt>
+                  <dd>
+                    <SourceTypeBadge source={source} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="mb-1 text-muted-foreground">Last crawled</dt>
+                  <dd>
+                    <time dateTime={source.last_crawled_at || undefined}>{lastCrawled}</time>
+                  </dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+
+          {/* Articles */}
+          <section aria-labelledby="source-articles-heading">
+            <div className="mb-4 flex items-baseline justify-between gap-4">
+              <h2 id="source-articles-heading" className="text-xl font-semibold">
+                Articles
+                {pagination.total > 0 && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    ({pagination.total})
+                  </span>
+                )}
+              </h2>
+              <Link
+                href={getArticleListHref({ source_id: source.id, page: 1, limit })}
+                className="text-sm text-primary underline-offset-4 hover:underline"
+              >
+                Search these articles
+              </Link>
+            </div>
+
+            {articlesResult.error && (
+              <div className="mb-6">
+                <ErrorMessage error={articlesResult.error} onRetry={articlesResult.refetch} />
+              </div>
+            )}
+
+            {articlesResult.isLoading && (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div key={i} className="rounded-lg border bg-card p-6">
+                    <Skeleton className="mb-2 h-6 w-3/4" />
+                    <Skeleton className="mb-4 h-4 w-full" />
+                    <Skeleton className="h-4 w-1/2" />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!articlesResult.isLoading && !articlesResult.error && articles.length === 0 && (
+              <EmptyState
+                title="No articles yet"
+                description="Articles from this source will appear here once it has been crawled."
+                icon={<FileText className="h-12 w-12" />}
+              />
+            )}
+
+            {!articlesResult.isLoading && !articlesResult.error && articles.length > 0 && (
+              <>
+                <div className="space-y-4">
+                  {articles.map((article) => (
+                    <ArticleCard
+                      key={article.id}
+                      article={article}
+                      href={getArticleDetailHref(article.id, {
+                        source_id: source.id,
+                        page: pagination.page,
+                        limit: pagination.limit,
+                      })}
+                    />
+                  ))}
+                </div>
+
+                {pagination.totalPages > 1 && (
+                  <div className="mt-8">
+                    <Pagination
+                      currentPage={pagination.page}
+                      totalPages={pagination.totalPages}
+                      onPageChange={handlePageChange}
+                      totalItems={pagination.total}
+                      itemsPerPage={pagination.limit}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+
+          {/* Edit Source Dialog */}
+          {canUpdate && (
+            <EditSourceDialog
+              isOpen={editDialogOpen}
+              onClose={() => setEditDialogOpen(false)}
+              source={source}
+              onSuccess={refetch}
+            />
+          )}
+
+          {/* Delete Source Dialog - leaves the page once the deletion went through */}
+          {canDelete && (
+            <DeleteSourceDialog
+              isOpen={deleteDialogOpen}
+              onClose={() => setDeleteDialogOpen(false)}
+              source={source}
+              onSuccess={() => router.push('/sources')}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Source Detail Page
+ *
+ * Protected page that displays a source's metadata and its articles, paginated.
+ * Users with the source permissions (admins) can toggle the source active status,
+ * edit it and delete it.
+ * Requires authentication - unauthenticated users will be redirected by middleware.
+ * Wrapped in Suspense boundary for useSearchParams compatibility.
+ */
+export default function SourceDetailPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container py-8">
+          <Skeleton className="mb-6 h-9 w-1/2" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      }
+    >
+      <SourceDetailPageContent />
+    </Suspense>
+  );
+}
@@ -3,6 +3,8 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import SourcesPage from '../page';
+import { Toaster } from '@/components/common/Toaster';
+import { ToastManager } from '@/lib/toast/ToastManager';
 import * as roleUtils from '@/lib/auth/role';
 import * as sourcesApi from '@/lib/api/endpoints/sources';
 import * as useSources from '@/hooks/useSources';
@@ -16,6 +18,20 @@ vi.mock('@/lib/api/endpoints/sources');
 vi.mock('@/hooks/useSources');
 vi.mock('@/hooks/useSourceSearch');
 
+// Undo grace period, adjustable per test (0 sends requests immediately)
+const sourceConfig = vi.hoisted(() => ({ undoGracePeriodMs: 0 }));
+vi.mock('@/config/sourceConfig', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/config/sourceConfig')>();
+  return {
+    SOURCE_CONFIG: {
+      ...actual.SOURCE_CONFIG,
+      get UNDO_GRACE_PERIOD_MS() {
+        return sourceConfig.undoGracePeriodMs;
+      },
+    },
+  };
+});
+
 // Mock next/navigation
 vi.mock('next/navigation', () => ({
   useSearchParams: () => new URLSearchParams(),
@@ -68,6 +84,8 @@ describe('SourcesPage', () => {
 
     // Reset all mocks
     vi.clearAllMocks();
+    ToastManager.resetInstance();
+    sourceConfig.undoGracePeriodMs = 0;
 
     // Setup default mock implementations
     vi.mocked(useSources.useSources).mockReturnValue({
@@ -98,7 +116,12 @@ describe('SourcesPage', () => {
   });
 
   const renderWithClient = (component: React.ReactElement) => {
-    return render(<QueryClientProvider client={queryClient}>{component}</QueryClientProvider>);
+    return render(
+      <QueryClientProvider client={queryClient}>
+        {component}
+        <Toaster />
+      </QueryClientProvider>
+    );
   };
 
   describe('Role Detection', () => {
@@ -147,6 +170,17 @@ describe('SourcesPage', () => {
       vi.mocked(roleUtils.getUserRole).mockReturnValue('admin');
     });
 
+    it('should link to the source health page', async () => {
+      // Act
+      renderWithClient(<SourcesPage />);
+
+      // Assert
+      expect(await screen.findByRole('link', { name: 'Health' })).toHaveAttribute(
+        'href',
+        '/sources/health'
+      );
+    });
+
     it('should display ActiveToggle on all source cards for admin', async () => {
       // Act
       renderWithClient(<SourcesPage />);
@@ -189,6 +223,40 @@ describe('SourcesPage', () => {
         expect(toggles[2]).toBeChecked();
       });
     });
+
+    it('should display selection checkboxes and the bulk actions toolbar', async () => {
+      // Act
+      renderWithClient(<SourcesPage />);
+
+      // Assert
+      await waitFor(() => {
+        expect(screen.getAllByRole('checkbox')).toHaveLength(3);
+        expect(screen.getByRole('toolbar', { name: 'Bulk source actions' })).toBeInTheDocument();
+      });
+    });
+
+    it('should deactivate the selected sources in bulk', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      renderWithClient(<SourcesPage />);
+      await waitFor(() => {
+        expect(screen.getAllByRole('checkbox')).toHaveLength(3);
+      });
+
+      // Act
+      const checkboxes = screen.getAllByRole('checkbox');
+      await user.click(checkboxes[0]!);
+      await user.click(checkboxes[2]!);
+      expect(screen.getByText('2 selected')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Deactivate' }));
+
+      // Assert
+      await waitFor(() => {
+        expect(sourcesApi.updateSourceActive).toHaveBeenCalledTimes(2);
+      });
+      expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(mockSources[0]!.id, false);
+      expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(mockSources[2]!.id, false);
+    });
   });
 
   describe('Non-Admin User View', () => {
@@ -220,6 +288,18 @@ describe('SourcesPage', () => {
         expect(screen.queryByRole('switch')).not.toBeInTheDocument();
       });
     });
+
+    it('should not offer bulk selection to non-admin users', async () => {
+      // Act
+      renderWithClient(<SourcesPage />);
+
+      // Assert
+      await waitFor(() => {
+        expect(screen.getAllByText('Active')).toHaveLength(2);
+      });
+      expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+      expect(screen.queryByRole('toolbar')).not.toBeInTheDocument();
+    });
   });
 
   describe('Toggle Interaction', () => {
@@ -247,6 +327,32 @@ describe('SourcesPage', () => {
       });
     });
 
+    it('should defer deactivation and revert it when undone', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      sourceConfig.undoGracePeriodMs = 5000;
+      renderWithClient(<SourcesPage />);
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('switch')).toHaveLength(3);
+      });
+
+      // Act
+      const toggle = screen.getAllByRole('switch')[0]!;
+      await user.click(toggle);
+      expect(await screen.findByText('Deactivated "Tech Blog"')).toBeInTheDocument();
+      expect(toggle).not.toBeChecked();
+
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+      // Assert
+      await waitFor(() => {
+        expect(toggle).toBeChecked();
+      });
+      expect(sourcesApi.updateSourceActive).not.toHaveBeenCalled();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
     it('should update cache optimistically', async () => {
       // Arrange
       const user = userEvent.setup();
@@ -0,0 +1,94 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Activity, AlertTriangle, CircleDashed } from 'lucide-react';
+import { Breadcrumb } from '@/components/common/Breadcrumb';
+import { PageHeader } from '@/components/common/PageHeader';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { EmptyState } from '@/components/common/EmptyState';
+import { StatisticsCard } from '@/components/dashboard/StatisticsCard';
+import { SourceHealthTable } from '@/components/sources/SourceHealthTable';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { useSourceHealth } from '@/hooks/useSourceHealth';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+
+/**
+ * Source Health Page
+ *
+ * Protected page that lists every source with its health status
+ * (healthy, stale or never crawled), article count and latest article date,
+ * so admins can spot dead feeds. Sources needing attention come first.
+ */
+export default function SourceHealthPage() {
+  const { entries, counts, isLoading, error, refetch } = useSourceHealth();
+
+  return (
+    <div className="container py-8">
+      <Breadcrumb items={[{ label: 'Sources', href: '/sources' }, { label: 'Health' }]} />
+
+      <PageHeader
+        title="Source Health"
+        description={`Sources are stale when not crawled for ${SOURCE_CONFIG.HEALTH_STALE_CRAWL_HOURS} hours or without articles for ${SOURCE_CONFIG.HEALTH_STALE_ARTICLE_DAYS} days`}
+        action={
+          <Button variant="outline" onClick={refetch}>
+            Refresh
+          </Button>
+        }
+      />
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-6">
+          <ErrorMessage error={error} onRetry={refetch} />
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="mb-8 grid gap-4 md:grid-cols-3">
+        <StatisticsCard
+          title="Healthy"
+          value={counts.healthy}
+          icon={<Activity className="h-4 w-4" />}
+          isLoading={isLoading}
+        />
+        <StatisticsCard
+          title="Stale"
+          value={counts.stale}
+          icon={<AlertTriangle className="h-4 w-4" />}
+          isLoading={isLoading}
+        />
+        <StatisticsCard
+          title="Never Crawled"
+          value={counts['never-crawled']}
+          icon={<CircleDashed className="h-4 w-4" />}
+          isLoading={isLoading}
+        />
+      </div>
+
+      {/* Source Health Table */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : entries.length > 0 ? (
+        <SourceHealthTable entries={entries} />
+      ) : (
+        !error && (
+          <EmptyState
+            title="No sources"
+            description="Add sources to start tracking their health."
+            action={
+              <Button asChild variant="outline">
+                <Link href="/sources">Go to sources</Link>
+              </Button>
+            }
+          />
+        )
+      )}
+    </div>
+  );
+}
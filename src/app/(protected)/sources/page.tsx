@@ -3,8 +3,8 @@
 import * as React from 'react';
 import { Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { Plus, Rss, Search } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import Link from 'next/link';
+import { Activity, FileUp, Plus, Rss, Search } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { SourceCard } from '@/components/sources/SourceCard';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
@@ -14,17 +14,22 @@ import { Button } from '@/components/ui/button';
 import { AddSourceDialog } from '@/components/sources/AddSourceDialog';
 import { EditSourceDialog } from '@/components/sources/EditSourceDialog';
 import { DeleteSourceDialog } from '@/components/sources/DeleteSourceDialog';
+import { ImportOpmlDialog } from '@/components/sources/ImportOpmlDialog';
+import { ExportOpmlButton } from '@/components/sources/ExportOpmlButton';
+import { SourceBulkActionsBar } from '@/components/sources/SourceBulkActionsBar';
 import { useSources } from '@/hooks/useSources';
 import { useSourceSearch } from '@/hooks/useSourceSearch';
-import { getUserRole } from '@/lib/auth/role';
-import { updateSourceActive } from '@/lib/api/endpoints/sources';
+import { useUpdateSourceActive } from '@/hooks/useUpdateSourceActive';
+import { useCan } from '@/hooks/useCan';
+import { Can } from '@/components/auth/Can';
+import { isSourceType } from '@/utils/sourceType';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
 import {
   SourceSearch,
   type SourceSearchState,
   toSearchParams,
   hasActiveFilters,
 } from '@/components/sources/SourceSearch';
-import type { UserRole } from '@/lib/auth/role';
 import type { Source } from '@/types/api';
 
 /**
@@ -36,12 +41,16 @@ function SourcesPageContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
 
-  // User role state
-  const [userRole, setUserRole] = React.useState<UserRole>(null);
+  // Permissions
+  const canUpdate = useCan('source:update');
+  const canImport = useCan('source:import');
 
   // Add Source Dialog state
   const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false);
 
+  // Import OPML Dialog state
+  const [isImportDialogOpen, setIsImportDialogOpen] = React.useState(false);
+
   // Edit Source Dialog state
   const [editDialogOpen, setEditDialogOpen] = React.useState(false);
   const [selectedSource, setSelectedSource] = React.useState<Source | null>(null);
@@ -50,9 +59,13 @@ function SourcesPageContent() {
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [sourceToDelete, setSourceToDelete] = React.useState<Source | null>(null);
 
+  // Bulk selection state (requires 'source:update')
+  const [selectedIds, setSelectedIds] = React.useState<Set<number>>(new Set());
+
   // Get search parameters from URL
   const keyword = searchParams.get('keyword') || '';
-  const sourceType = searchParams.get('source_type') || null;
+  const sourceTypeParam = searchParams.get('source_type');
+  const sourceType = isSourceType(sourceTypeParam) ? sourceTypeParam : null;
   const activeParam = searchParams.get('active');
   const active = activeParam === null ? null : activeParam === 'true';
 
@@ -92,45 +105,9 @@ function SourcesPageContent() {
     router.push(queryString ? `/sources?${queryString}` : '/sources');
   }, [searchState, router]);
 
-  // Query client for cache manipulation
-  const queryClient = useQueryClient();
-
-  // Detect user role on component mount
-  React.useEffect(() => {
-    setUserRole(getUserRole());
-  }, []);
-
-  // Mutation for updating source active status with optimistic updates
-  const mutation = useMutation({
-    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
-      return updateSourceActive(id, active);
-    },
-    onMutate: async ({ id, active }) => {
-      // Cancel outgoing refetches to avoid overwriting optimistic update
-      await queryClient.cancelQueries({ queryKey: ['sources'] });
-
-      // Snapshot previous value for rollback
-      const previousSources = queryClient.getQueryData<Source[]>(['sources']);
-
-      // Optimistically update cache
-      queryClient.setQueryData<Source[]>(['sources'], (old) => {
-        if (!old) return old;
-        return old.map((source) => (source.id === id ? { ...source, active } : source));
-      });
-
-      // Return context with previous value
-      return { previousSources };
-    },
-    onError: (err, variables, context) => {
-      // Rollback to previous value on error
-      if (context?.previousSources) {
-        queryClient.setQueryData(['sources'], context.previousSources);
-      }
-    },
-    onSettled: () => {
-      // Always refetch to ensure consistency with backend
-      queryClient.invalidateQueries({ queryKey: ['sources'] });
-    },
+  // Source active status updates; deactivation waits behind an "Undo" toast
+  const { mutateAsync: updateActive } = useUpdateSourceActive({
+    undoGracePeriodMs: SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS,
   });
 
   /**
@@ -139,9 +116,10 @@ function SourcesPageContent() {
    */
   const handleUpdateActive = React.useCallback(
     async (sourceId: number, active: boolean) => {
-      await mutation.mutateAsync({ id: sourceId, active });
+      const name = sources.find((source) => source.id === sourceId)?.name ?? 'source';
+      await updateActive({ id: sourceId, active, name });
     },
-    [mutation]
+    [updateActive, sources]
   );
 
   /**
@@ -171,6 +149,21 @@ function SourcesPageContent() {
     setDeleteDialogOpen(true);
   }, []);
 
+  /**
+   * Handle bulk selection checkbox change
+   */
+  const handleSelectChange = React.useCallback((source: Source, selected: boolean) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (selected) {
+        next.add(source.id);
+      } else {
+        next.delete(source.id);
+      }
+      return next;
+    });
+  }, []);
+
   /**
    * Handle delete dialog close
    * Resets the source to delete and closes the dialog
@@ -195,13 +188,31 @@ function SourcesPageContent() {
       <div className="mb-6 flex items-start justify-between gap-4">
         <PageHeader title="Sources" description="RSS/Atom feeds being tracked" />
 
-        {/* Admin-only Add Source button */}
-        {userRole === 'admin' && (
-          <Button onClick={() => setIsAddDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Source
-          </Button>
-        )}
+        <div className="flex flex-wrap items-start justify-end gap-2">
+          <ExportOpmlButton />
+
+          {/* Health, Import and Add Source buttons (admin permissions) */}
+          <Can permission="source:view-health">
+            <Button variant="outline" asChild>
+              <Link href="/sources/health">
+                <Activity className="mr-2 h-4 w-4" />
+                Health
+              </Link>
+            </Button>
+          </Can>
+          <Can permission="source:import">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <FileUp className="mr-2 h-4 w-4" />
+              Import OPML
+            </Button>
+          </Can>
+          <Can permission="source:create">
+            <Button onClick={() => setIsAddDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Source
+            </Button>
+          </Can>
+        </div>
       </div>
 
       {/* Search and Filter Panel */}
@@ -255,15 +266,25 @@ function SourcesPageContent() {
       {/* Success State - Sources Grid */}
       {!isLoading && !error && sources.length > 0 && (
         <>
+          {/* Bulk actions */}
+          {canUpdate && (
+            <SourceBulkActionsBar
+              sources={sources}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+            />
+          )}
+
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {sources.map((source) => (
               <SourceCard
                 key={source.id}
                 source={source}
-                userRole={userRole}
                 onUpdateActive={handleUpdateActive}
                 onEdit={handleEditSource}
                 onDelete={handleDeleteSource}
+                selected={selectedIds.has(source.id)}
+                onSelectChange={handleSelectChange}
               />
             ))}
           </div>
@@ -282,6 +303,14 @@ function SourcesPageContent() {
         onSuccess={() => setIsAddDialogOpen(false)}
       />
 
+      {/* Import OPML Dialog */}
+      {canImport && (
+        <ImportOpmlDialog
+          isOpen={isImportDialogOpen}
+          onClose={() => setIsImportDialogOpen(false)}
+        />
+      )}
+
       {/* Edit Source Dialog */}
       {selectedSource && (
         <EditSourceDialog
@@ -308,7 +337,8 @@ function SourcesPageContent() {
  * Sources List Page
  *
  * Protected page that displays a grid of RSS/Atom feed sources.
- * Admin users can toggle source active status.
+ * Admin users can toggle source active status and select several sources
+ * for bulk activate/deactivate/delete.
  * Non-admin users see read-only status badges.
  * Requires authentication - unauthenticated users will be redirected by middleware.
  *
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { Article, PaginatedArticlesResponse } from '@/types/api';
+import { getDateRangeBoundTime } from '@/lib/search/dateRange';
 
 /**
  * Generate a datetime string for a specific day and hour
@@ -189,15 +190,13 @@ function filterArticles(
 
   // Filter by date range
   if (params.from) {
-    const fromDate = new Date(params.from);
-    fromDate.setHours(0, 0, 0, 0);
-    filtered = filtered.filter((article) => new Date(article.published_at) >= fromDate);
+    const fromTime = getDateRangeBoundTime(params.from, 'from');
+    filtered = filtered.filter((article) => new Date(article.published_at).getTime() >= fromTime);
   }
 
   if (params.to) {
-    const toDate = new Date(params.to);
-    toDate.setHours(23, 59, 59, 999);
-    filtered = filtered.filter((article) => new Date(article.published_at) <= toDate);
+    const toTime = getDateRangeBoundTime(params.to, 'to');
+    filtered = filtered.filter((article) => new Date(article.published_at).getTime() <= toTime);
   }
 
   return filtered;
@@ -0,0 +1,117 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { appConfig } from '@/config/app.config';
+
+function jwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.signature`;
+}
+
+function login(body: unknown, headers: Record<string, string> = {}) {
+  return POST(
+    new NextRequest('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'http://localhost:3000', ...headers },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('POST /api/auth/login', () => {
+  const exp = Math.floor(Date.now() / 1000) + 900;
+  const accessToken = jwt({ sub: 'user-1', role: 'admin', email: 'admin@example.com', exp });
+  const refreshToken = jwt({ sub: 'user-1', exp: exp + 86400 });
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    appConfig.auth.sessionMode = 'cookie';
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    appConfig.auth.sessionMode = 'token';
+    vi.unstubAllGlobals();
+  });
+
+  it('should log in with the backend and keep the tokens in HttpOnly cookies', async () => {
+    fetchMock.mockResolvedValue(Response.json({ token: accessToken, refresh_token: refreshToken }));
+
+    const response = await login({ email: 'admin@example.com', password: 'secret' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      sub: 'user-1',
+      role: 'admin',
+      email: 'admin@example.com',
+      exp,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${appConfig.api.baseUrl}/auth/token`,
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+      })
+    );
+
+    const access = response.cookies.get('catchup_feed_auth_token');
+    expect(access).toMatchObject({ value: accessToken, httpOnly: true, sameSite: 'strict' });
+    expect(access?.maxAge).toBeGreaterThan(890);
+    expect(response.cookies.get('catchup_feed_refresh_token')).toMatchObject({
+      value: refreshToken,
+      httpOnly: true,
+      path: '/api/auth',
+    });
+    const session = response.cookies.get('catchup_feed_session');
+    expect(session?.httpOnly).toBe(false);
+    expect(JSON.parse(session!.value)).toMatchObject({ sub: 'user-1', role: 'admin' });
+  });
+
+  it('should pass login failures through without setting cookies', async () => {
+    fetchMock.mockResolvedValue(Response.json({ message: 'Invalid credentials' }, { status: 401 }));
+
+    const response = await login({ email: 'admin@example.com', password: 'wrong' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ message: 'Invalid credentials' });
+    expect(response.cookies.get('catchup_feed_auth_token')).toBeUndefined();
+  });
+
+  it('should return 400 without credentials', async () => {
+    const response = await login({ email: 'admin@example.com' });
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject cross-origin requests', async () => {
+    const response = await login(
+      { email: 'admin@example.com', password: 'secret' },
+      { Origin: 'https://evil.example.com' }
+    );
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when the backend cannot be reached', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await login({ email: 'admin@example.com', password: 'secret' });
+
+    expect(response.status).toBe(502);
+  });
+
+  it('should return 404 when cookie sessions are disabled', async () => {
+    appConfig.auth.sessionMode = 'token';
+
+    const response = await login({ email: 'admin@example.com', password: 'secret' });
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCookieSession, type SessionClaims } from '@/lib/auth/session';
+import {
+  backendUnavailableResponse,
+  fetchBackend,
+  forwardErrorResponse,
+  getSessionClaimsFromToken,
+  isSameOriginRequest,
+  sessionErrorResponse,
+  sessionModeDisabledResponse,
+  setSessionCookies,
+} from '@/lib/auth/serverSession';
+import type { LoginRequest, LoginResponse } from '@/types/api';
+
+/**
+ * Session login endpoint (cookie session mode)
+ *
+ * Logs in with the backend and keeps the issued tokens in HttpOnly cookies,
+ * so they never reach the browser's scripts.
+ *
+ * @route POST /api/auth/login
+ * @body email, password
+ * @returns Session claims (200) with the session cookies set, or an error
+ *   (400 missing credentials, 403 cross-origin request, 404 cookie sessions
+ *   disabled, backend status on login failure, 502 backend unreachable)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isCookieSession()) {
+    return sessionModeDisabledResponse();
+  }
+  if (!isSameOriginRequest(request)) {
+    return sessionErrorResponse(403, 'Forbidden', 'Cross-origin requests are not allowed');
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<LoginRequest> | null;
+  if (!body?.email || !body.password) {
+    return sessionErrorResponse(400, 'Bad request', 'Email and password are required');
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetchBackend('/auth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: body.email, password: body.password } satisfies LoginRequest),
+    });
+  } catch (error) {
+    return backendUnavailableResponse(error, '/auth/token');
+  }
+
+  if (!upstream.ok) {
+    return forwardErrorResponse(upstream);
+  }
+
+  const tokens = (await upstream.json()) as LoginResponse;
+  return setSessionCookies(
+    NextResponse.json<SessionClaims>(getSessionClaimsFromToken(tokens.token)),
+    tokens
+  );
+}
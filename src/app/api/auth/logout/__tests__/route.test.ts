@@ -0,0 +1,77 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { appConfig } from '@/config/app.config';
+
+function logout(refreshToken?: string, headers?: HeadersInit) {
+  const request = new NextRequest('http://localhost:3000/api/auth/logout', {
+    method: 'POST',
+    headers,
+  });
+  if (refreshToken) {
+    request.cookies.set('catchup_feed_refresh_token', refreshToken);
+  }
+  return POST(request);
+}
+
+describe('POST /api/auth/logout', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    appConfig.auth.sessionMode = 'cookie';
+    appConfig.auth.revokeEndpoint = '/auth/revoke';
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    appConfig.auth.sessionMode = 'token';
+    appConfig.auth.revokeEndpoint = null;
+    vi.unstubAllGlobals();
+  });
+
+  it('should revoke the refresh token and clear the session cookies', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const response = await logout('current');
+
+    expect(response.status).toBe(204);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${appConfig.api.baseUrl}/auth/revoke`,
+      expect.objectContaining({ body: JSON.stringify({ refresh_token: 'current' }) })
+    );
+    expect(response.cookies.get('catchup_feed_auth_token')).toMatchObject({ value: '', maxAge: 0 });
+    expect(response.cookies.get('catchup_feed_refresh_token')).toMatchObject({
+      value: '',
+      maxAge: 0,
+    });
+  });
+
+  it('should clear the session cookies when revocation fails', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await logout('current');
+
+    expect(response.status).toBe(204);
+    expect(response.cookies.get('catchup_feed_session')).toMatchObject({ value: '', maxAge: 0 });
+  });
+
+  it('should not call the backend without a revoke endpoint', async () => {
+    appConfig.auth.revokeEndpoint = null;
+
+    const response = await logout('current');
+
+    expect(response.status).toBe(204);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject cross-origin requests', async () => {
+    const response = await logout('current', { Origin: 'https://evil.example.com' });
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
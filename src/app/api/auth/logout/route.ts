@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { appConfig } from '@/config/app.config';
+import { logger } from '@/lib/logger';
+import { isCookieSession } from '@/lib/auth/session';
+import {
+  clearSessionCookies,
+  fetchBackend,
+  getRefreshTokenCookie,
+  isSameOriginRequest,
+  sessionErrorResponse,
+  sessionModeDisabledResponse,
+} from '@/lib/auth/serverSession';
+import type { RevokeTokenRequest } from '@/types/api';
+
+/**
+ * Revoke the refresh token on the backend
+ *
+ * Failures are logged only: the cookies are cleared either way.
+ */
+async function revokeRefreshToken(endpoint: string, refreshToken: string): Promise<void> {
+  try {
+    const upstream = await fetchBackend(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken } satisfies RevokeTokenRequest),
+    });
+    if (!upstream.ok) {
+      logger.warn('Token revocation rejected', { status: upstream.status });
+    }
+  } catch (error) {
+    logger.warn('Token revocation failed', { error });
+  }
+}
+
+/**
+ * Session logout endpoint (cookie session mode)
+ *
+ * Revokes the refresh token on the backend when `appConfig.auth.revokeEndpoint`
+ * is set, then clears the session cookies, which scripts cannot do for
+ * HttpOnly cookies.
+ *
+ * @route POST /api/auth/logout
+ * @returns 204 with the session cookies cleared, or an error
+ *   (403 cross-origin request, 404 cookie sessions disabled)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isCookieSession()) {
+    return sessionModeDisabledResponse();
+  }
+  if (!isSameOriginRequest(request)) {
+    return sessionErrorResponse(403, 'Forbidden', 'Cross-origin requests are not allowed');
+  }
+
+  const refreshToken = getRefreshTokenCookie(request);
+  if (refreshToken && appConfig.auth.revokeEndpoint) {
+    await revokeRefreshToken(appConfig.auth.revokeEndpoint, refreshToken);
+  }
+
+  return clearSessionCookies(new NextResponse(null, { status: 204 }));
+}
@@ -0,0 +1,89 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { appConfig } from '@/config/app.config';
+
+function jwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.signature`;
+}
+
+function refresh(refreshToken?: string) {
+  const request = new NextRequest('http://localhost:3000/api/auth/refresh', { method: 'POST' });
+  if (refreshToken) {
+    request.cookies.set('catchup_feed_refresh_token', refreshToken);
+  }
+  return POST(request);
+}
+
+describe('POST /api/auth/refresh', () => {
+  const exp = Math.floor(Date.now() / 1000) + 900;
+  const accessToken = jwt({ sub: 'user-1', role: 'user', exp });
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    appConfig.auth.sessionMode = 'cookie';
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    appConfig.auth.sessionMode = 'token';
+    vi.unstubAllGlobals();
+  });
+
+  it('should exchange the refresh token cookie for new session cookies', async () => {
+    fetchMock.mockResolvedValue(Response.json({ token: accessToken, refresh_token: 'rotated' }));
+
+    const response = await refresh('current');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ sub: 'user-1', role: 'user', exp });
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${appConfig.api.baseUrl}/auth/refresh`,
+      expect.objectContaining({ body: JSON.stringify({ refresh_token: 'current' }) })
+    );
+    expect(response.cookies.get('catchup_feed_auth_token')?.value).toBe(accessToken);
+    expect(response.cookies.get('catchup_feed_refresh_token')?.value).toBe('rotated');
+  });
+
+  it('should keep the refresh token when the backend does not rotate it', async () => {
+    fetchMock.mockResolvedValue(Response.json({ token: accessToken }));
+
+    const response = await refresh('current');
+
+    expect(response.cookies.get('catchup_feed_refresh_token')).toMatchObject({
+      value: 'current',
+      maxAge: appConfig.auth.sessionMaxAge,
+    });
+  });
+
+  it('should clear the session cookies when the refresh token is rejected', async () => {
+    fetchMock.mockResolvedValue(Response.json({ message: 'Token revoked' }, { status: 401 }));
+
+    const response = await refresh('revoked');
+
+    expect(response.status).toBe(401);
+    expect(response.cookies.get('catchup_feed_auth_token')).toMatchObject({ value: '', maxAge: 0 });
+    expect(response.cookies.get('catchup_feed_session')).toMatchObject({ value: '', maxAge: 0 });
+  });
+
+  it('should keep the session cookies on server errors', async () => {
+    fetchMock.mockResolvedValue(Response.json({ message: 'Unavailable' }, { status: 503 }));
+
+    const response = await refresh('current');
+
+    expect(response.status).toBe(503);
+    expect(response.cookies.get('catchup_feed_auth_token')).toBeUndefined();
+  });
+
+  it('should return 401 without a refresh token cookie', async () => {
+    const response = await refresh();
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
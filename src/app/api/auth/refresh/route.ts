@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCookieSession, type SessionClaims } from '@/lib/auth/session';
+import {
+  backendUnavailableResponse,
+  clearSessionCookies,
+  fetchBackend,
+  forwardErrorResponse,
+  getRefreshTokenCookie,
+  getSessionClaimsFromToken,
+  isSameOriginRequest,
+  sessionErrorResponse,
+  sessionModeDisabledResponse,
+  setSessionCookies,
+} from '@/lib/auth/serverSession';
+import type { RefreshTokenRequest, RefreshTokenResponse } from '@/types/api';
+
+/**
+ * Session refresh endpoint (cookie session mode)
+ *
+ * Exchanges the refresh token cookie for new tokens and updates the session
+ * cookies. The session cookies are cleared when the backend rejects the
+ * refresh token.
+ *
+ * @route POST /api/auth/refresh
+ * @returns Session claims (200) with the session cookies updated, or an error
+ *   (401 no or rejected refresh token, 403 cross-origin request, 404 cookie
+ *   sessions disabled, 502 backend unreachable)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isCookieSession()) {
+    return sessionModeDisabledResponse();
+  }
+  if (!isSameOriginRequest(request)) {
+    return sessionErrorResponse(403, 'Forbidden', 'Cross-origin requests are not allowed');
+  }
+
+  const refreshToken = getRefreshTokenCookie(request);
+  if (!refreshToken) {
+    return clearSessionCookies(sessionErrorResponse(401, 'Unauthorized', 'No session to refresh'));
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetchBackend('/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken } satisfies RefreshTokenRequest),
+    });
+  } catch (error) {
+    return backendUnavailableResponse(error, '/auth/refresh');
+  }
+
+  if (!upstream.ok) {
+    const response = await forwardErrorResponse(upstream);
+    return upstream.status === 401 ? clearSessionCookies(response) : response;
+  }
+
+  const tokens = (await upstream.json()) as RefreshTokenResponse;
+  return setSessionCookies(
+    NextResponse.json<SessionClaims>(getSessionClaimsFromToken(tokens.token)),
+    {
+      token: tokens.token,
+      // Keep the current refresh token when the backend does not rotate it
+      refresh_token: tokens.refresh_token || refreshToken,
+    }
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import { appConfig } from '@/config/app.config';
+
+function bffRequest(path: string, init: { method?: string; body?: string; token?: string } = {}) {
+  const request = new NextRequest(`http://localhost:3000/api/bff${path}`, {
+    method: init.method ?? 'GET',
+    headers: { 'Content-Type': 'application/json', 'X-Request-ID': 'req-1', Cookie: 'other=1' },
+    body: init.body,
+  });
+  if (init.token) {
+    request.cookies.set('catchup_feed_auth_token', init.token);
+  }
+  return request;
+}
+
+describe('/api/bff/*', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    appConfig.auth.sessionMode = 'cookie';
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    appConfig.auth.sessionMode = 'token';
+    vi.unstubAllGlobals();
+  });
+
+  it('should forward requests with the session token as bearer token', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ data: [] }, { headers: { 'Set-Cookie': 'backend=1', ETag: '"v1"' } })
+    );
+
+    const response = await GET(bffRequest('/articles?page=2', { token: 'access-token' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ data: [] });
+    expect(response.headers.get('etag')).toBe('"v1"');
+    expect(response.headers.get('set-cookie')).toBeNull();
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe(`${appConfig.api.baseUrl}/articles?page=2`);
+    const headers = init.headers as Headers;
+    expect(headers.get('authorization')).toBe('Bearer access-token');
+    expect(headers.get('x-request-id')).toBe('req-1');
+    expect(headers.get('cookie')).toBeNull();
+  });
+
+  it('should forward the request body and the backend status', async () => {
+    fetchMock.mockResolvedValue(Response.json({ id: 3 }, { status: 201 }));
+
+    const response = await POST(
+      bffRequest('/sources', { method: 'POST', body: '{"name":"Blog"}', token: 'access-token' })
+    );
+
+    expect(response.status).toBe(201);
+    const [, init] = fetchMock.mock.calls[0]!;
+    expect(init.method).toBe('POST');
+    expect(new TextDecoder().decode(init.body as ArrayBuffer)).toBe('{"name":"Blog"}');
+  });
+
+  it.each(['/..%2fadmin', '/%2e%2e%2Fadmin', '/articles/%2E%2E%2F%2E%2E%2Fadmin', '/%E0%A4%A'])(
+    'should reject paths that could leave the API base path (%s)',
+    async (path) => {
+      const response = await GET(bffRequest(path, { token: 'access-token' }));
+
+      expect(response.status).toBe(400);
+      expect(fetchMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should forward encoded characters within a segment', async () => {
+    fetchMock.mockResolvedValue(Response.json({ data: [] }));
+
+    await GET(bffRequest('/sources/Tech%20Blog%3F', { token: 'access-token' }));
+
+    const [url] = fetchMock.mock.calls[0]!;
+    expect(url).toBe(`${appConfig.api.baseUrl}/sources/Tech%20Blog%3F`);
+  });
+
+  it('should return 401 without a session', async () => {
+    const response = await GET(bffRequest('/articles'));
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when the backend cannot be reached', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await GET(bffRequest('/articles', { token: 'access-token' }));
+
+    expect(response.status).toBe(502);
+  });
+
+  it('should return 404 when cookie sessions are disabled', async () => {
+    appConfig.auth.sessionMode = 'token';
+
+    const response = await GET(bffRequest('/articles', { token: 'access-token' }));
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
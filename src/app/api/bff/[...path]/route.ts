@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BFF_PATH, isCookieSession } from '@/lib/auth/session';
+import {
+  backendUnavailableResponse,
+  fetchBackend,
+  getAccessTokenCookie,
+  sessionErrorResponse,
+  sessionModeDisabledResponse,
+} from '@/lib/auth/serverSession';
+
+/**
+ * Request headers passed to the backend
+ */
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'accept-language',
+  'content-type',
+  'x-request-id',
+  'x-trace-id',
+  'sentry-trace',
+  'baggage',
+];
+
+/**
+ * Response headers passed back to the browser
+ *
+ * `X-CSRF-Token` is left out: the proxy sets the CSRF token for this origin.
+ */
+const FORWARDED_RESPONSE_HEADERS = [
+  'cache-control',
+  'content-type',
+  'etag',
+  'last-modified',
+  'location',
+];
+
+function pickHeaders(headers: Headers, names: string[]): Headers {
+  const picked = new Headers();
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null) {
+      picked.set(name, value);
+    }
+  }
+  return picked;
+}
+
+/**
+ * Backend path for a BFF request path
+ *
+ * Segments are decoded and re-encoded, so encoded dot segments or slashes
+ * (`%2e%2e`, `..%2f`) cannot climb out of the API base path.
+ *
+ * @param pathname - Request pathname below the BFF path (e.g. `/articles/1`)
+ * @returns Backend path, or null when a segment is invalid
+ */
+function toBackendPath(pathname: string): string | null {
+  const segments: string[] = [];
+  for (const rawSegment of pathname.split('/').slice(1)) {
+    let segment: string;
+    try {
+      segment = decodeURIComponent(rawSegment);
+    } catch {
+      return null;
+    }
+    if (segment === '.' || segment === '..' || /[/\\]/.test(segment)) {
+      return null;
+    }
+    segments.push(encodeURIComponent(segment));
+  }
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Backend-for-frontend endpoint (cookie session mode)
+ *
+ * Forwards API requests to the backend with the access token from the
+ * HttpOnly session cookie as bearer token, so the browser never handles it.
+ * `/api/bff/articles?page=2` is forwarded to `<API URL>/articles?page=2`.
+ * State-changing requests are CSRF-checked by the proxy before they get here.
+ *
+ * @route GET|POST|PUT|PATCH|DELETE /api/bff/*
+ * @returns The backend response, or an error (400 invalid path, 401 no session,
+ *   404 cookie sessions disabled, 502 backend unreachable)
+ */
+async function forward(request: NextRequest): Promise<NextResponse> {
+  if (!isCookieSession()) {
+    return sessionModeDisabledResponse();
+  }
+
+  const token = getAccessTokenCookie(request);
+  if (!token) {
+    return sessionErrorResponse(401, 'Unauthorized', 'Authentication required');
+  }
+
+  const backendPath = toBackendPath(request.nextUrl.pathname.slice(BFF_PATH.length));
+  if (backendPath === null) {
+    return sessionErrorResponse(400, 'Bad request', 'Invalid API path');
+  }
+
+  const path = `${backendPath}${request.nextUrl.search}`;
+  const headers = pickHeaders(request.headers, FORWARDED_REQUEST_HEADERS);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  let upstream: Response;
+  try {
+    upstream = await fetchBackend(path, {
+      method: request.method,
+      headers,
+      body: ['GET', 'HEAD'].includes(request.method) ? undefined : await request.arrayBuffer(),
+    });
+  } catch (error) {
+    return backendUnavailableResponse(error, path);
+  }
+
+  return new NextResponse(upstream.status === 204 ? null : upstream.body, {
+    status: upstream.status,
+    headers: pickHeaders(upstream.headers, FORWARDED_RESPONSE_HEADERS),
+  });
+}
+
+export const GET = forward;
+export const POST = forward;
+export const PUT = forward;
+export const PATCH = forward;
+export const DELETE = forward;
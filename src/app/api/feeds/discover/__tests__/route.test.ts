@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { appConfig } from '@/config/app.config';
+
+// Tokens are "<role>-token"
+vi.mock('@/lib/auth/jwtVerifier', () => ({
+  verifyAccessToken: vi.fn(async (token: string) =>
+    token.endsWith('-token') ? { sub: '1', role: token.replace(/-token$/, '') } : null
+  ),
+}));
+
+const ATOM_FEED = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Fixture Atom</title>
+  <entry><updated>2026-10-10T00:00:00Z</updated></entry>
+</feed>`;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/atom.xml') {
+      response.writeHead(200, { 'Content-Type': 'application/atom+xml' }).end(ATOM_FEED);
+    } else {
+      response.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function discover(url?: string, token: string | null = 'admin-token') {
+  const query = url === undefined ? '' : `?url=${encodeURIComponent(url)}`;
+  return GET(
+    new NextRequest(`http://localhost:3000/api/feeds/discover${query}`, {
+      headers: token ? { Cookie: `${appConfig.auth.accessTokenKey}=${token}` } : {},
+    })
+  );
+}
+
+describe('GET /api/feeds/discover', () => {
+  beforeEach(() => {
+    appConfig.feedDiscovery.allowPrivateHosts = true;
+  });
+
+  afterEach(() => {
+    appConfig.feedDiscovery.allowPrivateHosts = false;
+  });
+
+  it('should return a preview of the feed', async () => {
+    const response = await discover(`${baseUrl}/atom.xml`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      feedURL: `${baseUrl}/atom.xml`,
+      format: 'atom',
+      title: 'Fixture Atom',
+      itemCount: 1,
+      latestItemDate: '2026-10-10T00:00:00.000Z',
+      discovered: false,
+    });
+  });
+
+  it('should return 400 without a valid url', async () => {
+    expect((await discover()).status).toBe(400);
+
+    const response = await discover('javascript:alert(1)');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_URL' });
+  });
+
+  it('should return 422 when the page is not a feed', async () => {
+    const response = await discover(`${baseUrl}/`);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      code: 'NOT_A_FEED',
+      message: 'This page does not link to an RSS, Atom or JSON feed',
+    });
+  });
+
+  it('should return 401 without a valid session', async () => {
+    expect((await discover(`${baseUrl}/atom.xml`, null)).status).toBe(401);
+
+    const response = await discover(`${baseUrl}/atom.xml`, 'forged');
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should return 403 for roles that cannot add sources', async () => {
+    const response = await discover(`${baseUrl}/atom.xml`, 'user-token');
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should refuse private hosts unless explicitly allowed', async () => {
+    appConfig.feedDiscovery.allowPrivateHosts = false;
+
+    const response = await discover(`${baseUrl}/atom.xml`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'FORBIDDEN_HOST' });
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { appConfig } from '@/config/app.config';
+import { verifyAccessToken } from '@/lib/auth/jwtVerifier';
+import { getRoleFromClaims, hasPermission } from '@/lib/auth/permissions';
+import { getAccessTokenCookie } from '@/lib/auth/serverSession';
+import {
+  discoverFeed,
+  FeedDiscoveryError,
+  type FeedDiscoveryErrorCode,
+} from '@/lib/feeds/discoverFeed';
+import type { FeedPreview } from '@/lib/feeds/feedParser';
+import { logger } from '@/lib/logger';
+
+interface FeedDiscoveryErrorResponse {
+  code: FeedDiscoveryErrorCode | 'UNAUTHORIZED' | 'FORBIDDEN';
+  message: string;
+}
+
+const ERROR_STATUS: Record<FeedDiscoveryErrorCode, number> = {
+  INVALID_URL: 400,
+  FORBIDDEN_HOST: 400,
+  NOT_A_FEED: 422,
+  FETCH_FAILED: 502,
+};
+
+/**
+ * Feed discovery endpoint
+ *
+ * Fetches a candidate URL and reports whether it is an RSS, Atom or JSON Feed.
+ * HTML pages are searched for `<link rel="alternate">` feeds.
+ *
+ * The server fetches the URL on the caller's behalf, so only signed-in users
+ * allowed to add sources (`source:create`) may use it: the access token cookie
+ * (set in both session modes) is verified like in the proxy.
+ *
+ * Private and loopback hosts are refused unless
+ * `FEED_DISCOVERY_ALLOW_PRIVATE_HOSTS` is set (local development only).
+ *
+ * @route GET /api/feeds/discover
+ * @query url - Candidate feed or page URL
+ * @returns Feed preview (200), or an error code and message
+ *   (400 invalid or forbidden URL, 401 no session, 403 no permission,
+ *   422 not a feed, 502 upstream failure)
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<FeedPreview | FeedDiscoveryErrorResponse>> {
+  const token = getAccessTokenCookie(request);
+  const payload = token ? await verifyAccessToken(token) : null;
+  if (!payload) {
+    return NextResponse.json(
+      { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+  if (!hasPermission(getRoleFromClaims(payload), 'source:create')) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'You do not have permission to add sources' },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const url = searchParams.get('url');
+
+  if (!url) {
+    return NextResponse.json(
+      { code: 'INVALID_URL', message: 'The url query parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const preview = await discoverFeed(url, {
+      allowPrivateHosts: appConfig.feedDiscovery.allowPrivateHosts,
+    });
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof FeedDiscoveryError) {
+      return NextResponse.json(
+        { code: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+
+    logger.error('Feed discovery failed', error as Error, { url });
+    return NextResponse.json(
+      { code: 'FETCH_FAILED', message: 'The feed could not be checked' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+
+export const metadata: Metadata = {
+  title: 'Access Denied',
+};
+
+/**
+ * Forbidden Page (403)
+ *
+ * Served by the proxy in place of pages the user's role has no permission for.
+ */
+export default function ForbiddenPage() {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
+      <div className="mx-auto max-w-md text-center">
+        {/* 403 Icon */}
+        <div className="mb-6 flex justify-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted text-muted-foreground">
+            <ShieldAlert className="h-8 w-8" />
+          </div>
+        </div>
+
+        {/* Error Code */}
+        <div className="mb-2 text-6xl font-bold text-muted-foreground">403</div>
+
+        {/* Error Message */}
+        <h1 className="mb-2 text-2xl font-bold">Access Denied</h1>
+        <p className="mb-6 text-muted-foreground">
+          You don&apos;t have permission to view this page. Ask an administrator if you need
+          access.
+        </p>
+
+        {/* Action Button */}
+        <Button asChild>
+          <Link href="/dashboard">Go to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { ThemeProvider } from '@/providers/ThemeProvider';
 import { PWAInstallPrompt } from '@/components/common/PWAInstallPrompt';
 import { PWAUpdateNotification } from '@/components/common/PWAUpdateNotification';
 import { FeatureGate } from '@/components/common/FeatureGate';
+import { Toaster } from '@/components/common/Toaster';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
 
@@ -76,6 +77,7 @@ export default function RootLayout({
               <PWAInstallPrompt />
               <PWAUpdateNotification />
             </FeatureGate>
+            <Toaster />
           </QueryProvider>
         </ThemeProvider>
       </body>
@@ -0,0 +1,68 @@
+'use client';
+
+import { FileText, RefreshCw, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useOfflineArticles } from '@/hooks/useOfflineArticles';
+import { getArticleDetailPath } from '@/lib/offline/articleCache';
+
+/**
+ * Offline Page
+ *
+ * Precached by the service worker and shown for navigations that fail while
+ * offline. Lists articles pinned for offline reading (bookmarked and
+ * recently viewed). Links are plain anchors so the service worker, not the
+ * client router, serves the pinned detail pages.
+ */
+export default function OfflinePage() {
+  const offlineArticles = useOfflineArticles();
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
+      <div className="mx-auto w-full max-w-md text-center">
+        {/* Offline Icon */}
+        <div className="mb-6 flex justify-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted text-muted-foreground">
+            <WifiOff className="h-8 w-8" />
+          </div>
+        </div>
+
+        {/* Message */}
+        <h1 className="mb-2 text-2xl font-bold">You&apos;re offline</h1>
+        <p className="mb-6 text-muted-foreground">
+          This page isn&apos;t available without a connection. Check your network and try again.
+        </p>
+
+        {/* Action Button */}
+        <Button onClick={() => window.location.reload()}>
+          <RefreshCw className="h-4 w-4" />
+          Try Again
+        </Button>
+
+        {/* Articles available offline */}
+        {offlineArticles.length > 0 && (
+          <section className="mt-10 text-left" aria-labelledby="offline-articles-heading">
+            <h2 id="offline-articles-heading" className="mb-3 text-lg font-semibold">
+              Available offline
+            </h2>
+            <ul className="space-y-2">
+              {offlineArticles.map((entry) => (
+                <li key={entry.articleId}>
+                  <a
+                    href={getArticleDetailPath(entry.articleId)}
+                    className="flex items-start gap-2 rounded-md border bg-card p-3 text-sm transition-colors hover:border-primary/50 hover:text-primary"
+                  >
+                    <FileText
+                      className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground"
+                      aria-hidden="true"
+                    />
+                    {entry.title || 'Untitled Article'}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
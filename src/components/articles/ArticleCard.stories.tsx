@@ -22,6 +22,10 @@ const meta = {
       control: 'text',
       description: 'Optional source name override',
     },
+    highlightTerms: {
+      control: 'object',
+      description: 'Search terms to highlight in the title and summary',
+    },
     className: {
       control: 'text',
       description: 'Additional CSS classes',
@@ -102,6 +106,20 @@ export const LongSummary: Story = {
   },
 };
 
+/**
+ * Search result: matches highlighted, summary snippet around the first match
+ */
+export const SearchHighlight: Story = {
+  args: {
+    article: {
+      ...mockArticle,
+      summary:
+        'This article walks through the history of rendering on the web before getting to the point: server components let you fetch data on the server and stream the result, which keeps client bundles small.',
+    },
+    highlightTerms: ['server components', 'bundles'],
+  },
+};
+
 /**
  * Article with recent timestamp
  */
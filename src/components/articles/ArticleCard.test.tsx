@@ -3,6 +3,8 @@ import { render, screen } from '@testing-library/react';
 import { ArticleCard } from './ArticleCard';
 import type { Article } from '@/types/api';
 import { createMockArticle } from '@/__test__/factories/articleFactory';
+import { ReadStateManager, getReadStateManager } from '@/lib/reading/ReadStateManager';
+import { OfflineArticleStore, getOfflineIndexStorageKey } from '@/lib/offline/OfflineArticleStore';
 
 // Mock Next.js Link component
 vi.mock('next/link', () => ({
@@ -16,6 +18,9 @@ vi.mock('next/link', () => ({
 describe('ArticleCard', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
+    ReadStateManager.resetInstance();
+    OfflineArticleStore.resetInstance();
   });
 
   describe('Rendering', () => {
@@ -75,6 +80,13 @@ describe('ArticleCard', () => {
       expect(link).toHaveAttribute('href', '/articles/42');
     });
 
+    it('should use a custom href carrying the list context', () => {
+      const article = createMockArticle({ id: 42 });
+      render(<ArticleCard article={article} href="/articles/42?keyword=ai&page=2&limit=10" />);
+      const link = screen.getByRole('link');
+      expect(link).toHaveAttribute('href', '/articles/42?keyword=ai&page=2&limit=10');
+    });
+
     it('should have aria-label with article title', () => {
       const article = createMockArticle({ title: 'Test Article' });
       render(<ArticleCard article={article} />);
@@ -83,6 +95,71 @@ describe('ArticleCard', () => {
     });
   });
 
+  describe('Read State', () => {
+    it('should show unread indicator for unread articles', () => {
+      const article = createMockArticle({ id: 10 });
+      render(<ArticleCard article={article} />);
+      expect(screen.getByTestId('article-unread-indicator')).toBeInTheDocument();
+      expect(screen.getByRole('link')).toHaveAttribute('data-read', 'false');
+    });
+
+    it('should hide unread indicator and mute title for read articles', () => {
+      getReadStateManager().markRead(10);
+      const article = createMockArticle({ id: 10, title: 'Read Article' });
+      render(<ArticleCard article={article} />);
+      expect(screen.queryByTestId('article-unread-indicator')).not.toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 2 })).toHaveClass('text-muted-foreground');
+      expect(screen.getByRole('link')).toHaveAttribute(
+        'aria-label',
+        'Article: Read Article (read)'
+      );
+    });
+  });
+
+  describe('Bookmark', () => {
+    it('should render a bookmark toggle outside the link', () => {
+      const article = createMockArticle();
+      render(<ArticleCard article={article} />);
+      const button = screen.getByRole('button', { name: 'Save for read later' });
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('link')).not.toContainElement(button);
+    });
+
+    it('should hide the bookmark toggle when showBookmark is false', () => {
+      const article = createMockArticle();
+      render(<ArticleCard article={article} showBookmark={false} />);
+      expect(screen.queryByTestId('bookmark-button')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Offline Availability', () => {
+    it('should not show the offline indicator by default', () => {
+      const article = createMockArticle({ id: 10 });
+      render(<ArticleCard article={article} />);
+      expect(screen.queryByTestId('article-offline-indicator')).not.toBeInTheDocument();
+    });
+
+    it('should show the offline indicator for pinned articles', () => {
+      localStorage.setItem(
+        getOfflineIndexStorageKey(null),
+        JSON.stringify({
+          version: 1,
+          entries: [{ articleId: 10, title: 'Pinned', reason: 'recent', pinnedAt: 1 }],
+        })
+      );
+      OfflineArticleStore.resetInstance();
+      const article = createMockArticle({ id: 10, title: 'Pinned' });
+      render(<ArticleCard article={article} />);
+      expect(screen.getByTestId('article-offline-indicator')).toHaveTextContent(
+        'Available offline'
+      );
+      expect(screen.getByRole('link')).toHaveAttribute(
+        'aria-label',
+        'Article: Pinned (available offline)'
+      );
+    });
+  });
+
   describe('Summary Truncation', () => {
     it('should truncate long summaries', () => {
       const longSummary = 'A'.repeat(200);
@@ -103,6 +180,57 @@ describe('ArticleCard', () => {
     });
   });
 
+  describe('Search Highlighting', () => {
+    const marks = () =>
+      Array.from(screen.getByRole('article').querySelectorAll('mark')).map(
+        (mark) => mark.textContent
+      );
+
+    it('should highlight search terms in the title and summary', () => {
+      const article = createMockArticle({
+        title: 'React Server Components',
+        summary: 'How server components change React apps.',
+      });
+      render(<ArticleCard article={article} highlightTerms={['react', 'server components']} />);
+
+      expect(marks()).toEqual(['React', 'Server Components', 'server components', 'React']);
+      expect(
+        screen.getByRole('heading', { level: 2, name: 'React Server Components' })
+      ).toBeInTheDocument();
+    });
+
+    it('should show the summary around the first match', () => {
+      const summary = `${'Unrelated introduction text. '.repeat(10)}Finally the keyword shows up here.`;
+      render(<ArticleCard article={createMockArticle({ summary })} highlightTerms={['keyword']} />);
+
+      const paragraph = screen.getByRole('article').querySelector('p');
+      expect(paragraph?.textContent).toMatch(/^\.\.\..*keyword shows up here\.$/);
+      expect(marks()).toEqual(['keyword']);
+    });
+
+    it('should render markup in matched text as plain text', () => {
+      const article = createMockArticle({
+        title: '<img src=x onerror="alert(1)"> React',
+        summary: '<b>React</b> tips',
+      });
+      render(<ArticleCard article={article} highlightTerms={['react', 'img']} />);
+
+      const card = screen.getByRole('article');
+      expect(card.querySelector('img')).toBeNull();
+      expect(card.querySelector('b')).toBeNull();
+      expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent(
+        '<img src=x onerror="alert(1)"> React'
+      );
+      expect(marks()).toEqual(['img', 'React', 'React']);
+    });
+
+    it('should not highlight without search terms', () => {
+      render(<ArticleCard article={createMockArticle({ title: 'React' })} />);
+
+      expect(marks()).toEqual([]);
+    });
+  });
+
   describe('Styling', () => {
     it('should apply custom className', () => {
       const article = createMockArticle();
@@ -1,28 +1,50 @@
+'use client';
+
 import * as React from 'react';
 import Link from 'next/link';
+import { CloudDownload } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { formatRelativeTime } from '@/lib/utils/formatDate';
 import { truncateText } from '@/lib/utils/truncate';
+import { extractSnippet } from '@/lib/utils/highlight';
 import { normalizeSourceName } from '@/utils/article';
+import { useIsArticleRead } from '@/hooks/useReadState';
+import { useIsArticleAvailableOffline } from '@/hooks/useOfflineArticles';
+import { BookmarkButton } from '@/components/articles/BookmarkButton';
+import { HighlightedText } from '@/components/common/HighlightedText';
 import type { Article } from '@/types/api';
 
 interface ArticleCardProps {
   article: Article;
   sourceName?: string;
+  /** Detail page URL (default: /articles/[id]); used to carry the list context */
+  href?: string;
+  /** Show the "Read later" bookmark toggle (default: true) */
+  showBookmark?: boolean;
+  /** Search terms to highlight; the summary then shows a snippet around the first match */
+  highlightTerms?: readonly string[];
   className?: string;
 }
 
+const SUMMARY_MAX_LENGTH = 150;
+const NO_HIGHLIGHT_TERMS: readonly string[] = [];
+
 /**
  * ArticleCard Component
  *
  * Displays an article in list view with:
  * - Title (bold, larger font)
- * - Summary (2-line truncated, muted)
+ * - Summary (2-line truncated, muted), or a snippet around the first search match
+ * - Search term highlighting in title and summary (text nodes only)
  * - Metadata: Source badge, Published date
+ * - Read state: unread dot indicator, muted title once read
+ * - "Available offline" indicator for articles pinned for offline reading
+ * - Bookmark toggle ("Read later"), rendered next to the link rather than inside it
+ * - `data-article-card` wrapper, used by j/k keyboard navigation
  * - Hover effects for interactivity (cyber/glow theme)
  *
- * Links to article detail page (/articles/[id])
+ * Links to article detail page (/articles/[id], or the given href)
  *
  * Memoized to prevent unnecessary re-renders in lists.
  *
@@ -32,6 +54,9 @@ interface ArticleCardProps {
 export const ArticleCard = React.memo(function ArticleCard({
   article,
   sourceName,
+  href,
+  showBookmark = true,
+  highlightTerms = NO_HIGHLIGHT_TERMS,
   className,
 }: ArticleCardProps) {
   // Safe field access with fallbacks
@@ -39,49 +64,88 @@ export const ArticleCard = React.memo(function ArticleCard({
   const summary = article.summary?.trim() || '';
   const publishedDate = article.published_at;
   const displaySourceName = normalizeSourceName(sourceName ?? article.source_name);
+  const isRead = useIsArticleRead(article.id);
+  const isAvailableOffline = useIsArticleAvailableOffline(article.id);
+  const summaryText =
+    highlightTerms.length > 0
+      ? extractSnippet(summary, highlightTerms, SUMMARY_MAX_LENGTH)
+      : truncateText(summary, SUMMARY_MAX_LENGTH);
 
   return (
-    <Link
-      href={`/articles/${article.id}`}
-      className={cn(
-        'group block rounded-lg border bg-card p-6 shadow-sm transition-all duration-300',
-        'hover:border-primary/50 hover:shadow-glow-sm',
-        'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
-        className
-      )}
-      aria-label={`Article: ${title}`}
-    >
-      <article className="flex flex-col space-y-3">
-        {/* Article Title */}
-        <h2 className="text-xl font-bold leading-tight text-foreground transition-colors group-hover:text-primary">
-          {title}
-        </h2>
-
-        {/* Article Summary */}
-        {summary && (
-          <p className="text-sm leading-relaxed text-muted-foreground line-clamp-2">
-            {truncateText(summary, 150)}
-          </p>
+    <div className="relative" data-article-card={article.id}>
+      <Link
+        href={href ?? `/articles/${article.id}`}
+        className={cn(
+          'group block rounded-lg border bg-card p-6 shadow-sm transition-all duration-300',
+          'hover:border-primary/50 hover:shadow-glow-sm',
+          'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+          isRead && 'bg-card/60',
+          className
         )}
+        aria-label={`Article: ${title}${isRead ? ' (read)' : ''}${isAvailableOffline ? ' (available offline)' : ''}`}
+        data-read={isRead}
+      >
+        <article className="flex flex-col space-y-3">
+          {/* Article Title */}
+          <h2
+            className={cn(
+              'flex items-start gap-2 text-xl leading-tight',
+              showBookmark && 'pr-8',
+              'transition-colors group-hover:text-primary',
+              isRead ? 'font-semibold text-muted-foreground' : 'font-bold text-foreground'
+            )}
+          >
+            {!isRead && (
+              <span
+                className="mt-2 h-2 w-2 shrink-0 rounded-full bg-primary shadow-glow-sm"
+                data-testid="article-unread-indicator"
+                aria-hidden="true"
+              />
+            )}
+            <span>
+              <HighlightedText text={title} terms={highlightTerms} />
+            </span>
+          </h2>
 
-        {/* Metadata Row */}
-        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
-          {/* Source Badge */}
-          <Badge variant="secondary" className="font-normal">
-            {displaySourceName}
-          </Badge>
-
-          {/* Published Date */}
-          {publishedDate && (
-            <>
-              <span className="text-muted-foreground/50">·</span>
-              <time dateTime={publishedDate} className="tabular-nums">
-                {formatRelativeTime(publishedDate)}
-              </time>
-            </>
+          {/* Article Summary */}
+          {summary && (
+            <p className="text-sm leading-relaxed text-muted-foreground line-clamp-2">
+              <HighlightedText text={summaryText} terms={highlightTerms} />
+            </p>
           )}
-        </div>
-      </article>
-    </Link>
+
+          {/* Metadata Row */}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {/* Source Badge */}
+            <Badge variant="secondary" className="font-normal">
+              {displaySourceName}
+            </Badge>
+
+            {/* Published Date */}
+            {publishedDate && (
+              <>
+                <span className="text-muted-foreground/50">·</span>
+                <time dateTime={publishedDate} className="tabular-nums">
+                  {formatRelativeTime(publishedDate)}
+                </time>
+              </>
+            )}
+
+            {/* Offline Availability */}
+            {isAvailableOffline && (
+              <span
+                className="inline-flex items-center gap-1 text-primary"
+                data-testid="article-offline-indicator"
+              >
+                <CloudDownload className="h-3 w-3" aria-hidden="true" />
+                Available offline
+              </span>
+            )}
+          </div>
+        </article>
+      </Link>
+
+      {showBookmark && <BookmarkButton article={article} className="absolute right-3 top-3" />}
+    </div>
   );
 });
@@ -26,6 +26,12 @@ describe('ArticleHeader', () => {
       expect(screen.getByText('Tech Blog')).toBeInTheDocument();
     });
 
+    it('should link the source badge to the source detail page', () => {
+      const article = createMockArticle({ source_id: 7 });
+      render(<ArticleHeader article={article} sourceName="Tech Blog" />);
+      expect(screen.getByRole('link', { name: 'Tech Blog' })).toHaveAttribute('href', '/sources/7');
+    });
+
     it('should not render source badge when sourceName not provided and source_name is null', () => {
       const article = createMockArticle({ source_name: null as unknown as string });
       render(<ArticleHeader article={article} />);
@@ -1,10 +1,12 @@
 import * as React from 'react';
+import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ExternalLink } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatRelativeTime } from '@/lib/utils/formatDate';
 import { normalizeSourceName } from '@/utils/article';
+import { BookmarkButton } from '@/components/articles/BookmarkButton';
 import type { Article } from '@/types/api';
 
 interface ArticleHeaderProps {
@@ -18,8 +20,9 @@ interface ArticleHeaderProps {
  *
  * Displays article header for detail page with:
  * - Title (h1, large, bold)
- * - Metadata: Source badge, Published date
+ * - Metadata: Source badge (linking to the source page), Published date
  * - "Read Original Article" button with external link icon
+ * - "Read later" bookmark toggle
  *
  * Used in article detail page (/articles/[id])
  *
@@ -44,11 +47,16 @@ export function ArticleHeader({ article, sourceName, className }: ArticleHeaderP
 
       {/* Metadata Row */}
       <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
-        {/* Source Badge */}
+        {/* Source Badge (links to the source detail page) */}
         {displaySourceName && displaySourceName !== 'Unknown Source' && (
-          <Badge variant="secondary" className="font-normal">
-            {displaySourceName}
-          </Badge>
+          <Link
+            href={`/sources/${article.source_id}`}
+            className="rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            <Badge variant="secondary" className="font-normal hover:bg-secondary/60">
+              {displaySourceName}
+            </Badge>
+          </Link>
         )}
 
         {/* Published Date */}
@@ -64,8 +72,8 @@ export function ArticleHeader({ article, sourceName, className }: ArticleHeaderP
         )}
       </div>
 
-      {/* Read Original Article Button */}
-      <div>
+      {/* Actions: Read Original Article, Read later */}
+      <div className="flex flex-col gap-3 sm:flex-row">
         <Button
           asChild
           variant="default"
@@ -78,6 +86,13 @@ export function ArticleHeader({ article, sourceName, className }: ArticleHeaderP
             Read Original Article
           </a>
         </Button>
+        <BookmarkButton
+          article={article}
+          showLabel
+          variant="outline"
+          size="lg"
+          className="w-full sm:w-auto"
+        />
       </div>
     </header>
   );
@@ -0,0 +1,57 @@
+'use client';
+
+import * as React from 'react';
+import { ListOrdered, Rows3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ArticleListMode } from '@/hooks/useArticleListMode';
+
+interface ArticleListModeToggleProps {
+  mode: ArticleListMode;
+  onModeChange: (mode: ArticleListMode) => void;
+  className?: string;
+}
+
+const MODES: { value: ArticleListMode; label: string; icon: typeof ListOrdered }[] = [
+  { value: 'paged', label: 'Pages', icon: ListOrdered },
+  { value: 'continuous', label: 'Continuous', icon: Rows3 },
+];
+
+/**
+ * ArticleListModeToggle Component
+ *
+ * Segmented control for switching the articles list between numbered
+ * pagination and continuous scrolling.
+ *
+ * @example
+ * const [mode, setMode] = useArticleListMode();
+ * <ArticleListModeToggle mode={mode} onModeChange={setMode} />
+ */
+export function ArticleListModeToggle({
+  mode,
+  onModeChange,
+  className,
+}: ArticleListModeToggleProps) {
+  return (
+    <div
+      role="group"
+      aria-label="List mode"
+      className={cn('inline-flex rounded-md border bg-card p-0.5', className)}
+    >
+      {MODES.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          type="button"
+          variant={mode === value ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-8"
+          aria-pressed={mode === value}
+          onClick={() => onModeChange(value)}
+        >
+          <Icon className="h-4 w-4" aria-hidden="true" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ArticleNeighbor } from '@/hooks/useArticleNeighbors';
+
+interface ArticleNavigationProps {
+  previous: ArticleNeighbor | null;
+  next: ArticleNeighbor | null;
+  className?: string;
+}
+
+const linkClassName = cn(
+  'group flex min-w-0 flex-1 flex-col gap-1 rounded-lg border bg-card p-4 transition-all duration-300',
+  'hover:border-primary/50 hover:shadow-glow-sm',
+  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+);
+
+/**
+ * ArticleNavigation Component
+ *
+ * Previous/next links between articles of the list the user came from.
+ * Each link shows the neighbour's title; missing neighbours leave an empty slot
+ * so the remaining link keeps its side.
+ *
+ * @example
+ * const { previous, next } = useArticleNeighbors(article.id, listContext);
+ * <ArticleNavigation previous={previous} next={next} />
+ */
+export function ArticleNavigation({ previous, next, className }: ArticleNavigationProps) {
+  if (!previous && !next) {
+    return null;
+  }
+
+  return (
+    <nav aria-label="Article navigation" className={cn('flex gap-4', className)}>
+      {previous ? (
+        <Link href={previous.href} className={linkClassName} rel="prev">
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <ChevronLeft className="h-3 w-3" aria-hidden="true" />
+            Previous
+          </span>
+          <span className="truncate text-sm font-medium transition-colors group-hover:text-primary">
+            {previous.article.title}
+          </span>
+        </Link>
+      ) : (
+        <div className="flex-1" />
+      )}
+
+      {next ? (
+        <Link href={next.href} className={cn(linkClassName, 'items-end text-right')} rel="next">
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            Next
+            <ChevronRight className="h-3 w-3" aria-hidden="true" />
+          </span>
+          <span className="w-full truncate text-sm font-medium transition-colors group-hover:text-primary">
+            {next.article.title}
+          </span>
+        </Link>
+      ) : (
+        <div className="flex-1" />
+      )}
+    </nav>
+  );
+}
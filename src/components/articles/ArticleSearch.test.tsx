@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import {
   ArticleSearch,
@@ -8,12 +8,27 @@ import {
   hasActiveFilters,
 } from './ArticleSearch';
 import * as useSourcesModule from '@/hooks/useSources';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import { getRecentSearchesStorageKey } from '@/lib/search/recentSearches';
 
-// Mock useSources hook (used by SourceFilter)
+// Mock useSources hook (used by SourceFilter and the suggestions)
 vi.mock('@/hooks/useSources', () => ({
   useSources: vi.fn(),
 }));
 
+// Mock useArticleSearch hook (article title suggestions)
+vi.mock('@/hooks/useArticleSearch', () => ({
+  useArticleSearch: vi.fn(),
+}));
+
+const mockPush = vi.fn();
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+  }),
+}));
+
 describe('ArticleSearch', () => {
   const defaultSearchState: ArticleSearchState = {
     keyword: '',
@@ -24,6 +39,14 @@ describe('ArticleSearch', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(useArticleSearch).mockReturnValue({
+      articles: [],
+      pagination: { page: 1, limit: 5, total: 0, totalPages: 0 },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
     vi.mocked(useSourcesModule.useSources).mockReturnValue({
       sources: [
         {
@@ -73,6 +96,20 @@ describe('ArticleSearch', () => {
       expect(screen.getByLabelText('To')).toBeInTheDocument();
     });
 
+    it('should note that the unread-only filter applies to this page', () => {
+      render(
+        <ArticleSearch
+          searchState={defaultSearchState}
+          onSearchChange={vi.fn()}
+          onUnreadOnlyChange={vi.fn()}
+        />
+      );
+
+      expect(
+        screen.getByRole('switch', { name: 'Show unread articles only' })
+      ).toHaveAccessibleDescription('(on this page)');
+    });
+
     it('should not show Clear All Filters button when no filters active', () => {
       render(<ArticleSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
 
@@ -202,6 +239,119 @@ describe('ArticleSearch', () => {
       expect(screen.getByRole('button', { name: 'Clear All Filters' })).toBeInTheDocument();
     });
   });
+
+  describe('Advanced Query Syntax', () => {
+    it('should show how the query was understood', () => {
+      const searchState = { ...defaultSearchState, keyword: 'react OR vue source:"Tech Blog"' };
+      render(<ArticleSearch searchState={searchState} onSearchChange={vi.fn()} />);
+
+      expect(screen.getByRole('list', { name: 'Search terms' })).toHaveTextContent(
+        'react or vueSource: Tech Blog'
+      );
+      expect(
+        screen.getByRole('combobox', { name: 'Search by title or summary...' })
+      ).not.toHaveAttribute('aria-invalid');
+    });
+
+    it('should flag malformed queries on the search input', () => {
+      const searchState = { ...defaultSearchState, keyword: 'source:"Daily Bugle"' };
+      render(<ArticleSearch searchState={searchState} onSearchChange={vi.fn()} />);
+
+      const input = screen.getByRole('combobox', { name: 'Search by title or summary...' });
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+      expect(input).toHaveAccessibleDescription(
+        'source:"Daily Bugle": No source is named "Daily Bugle"'
+      );
+    });
+  });
+
+  describe('Suggestions', () => {
+    const recentKey = getRecentSearchesStorageKey('articles', null);
+
+    it('should offer recent searches and apply the chosen one', async () => {
+      const user = userEvent.setup();
+      const onSearchChange = vi.fn();
+      localStorage.setItem(recentKey, JSON.stringify(['react hooks', 'vue']));
+      render(<ArticleSearch searchState={defaultSearchState} onSearchChange={onSearchChange} />);
+
+      await user.click(screen.getByRole('combobox', { name: 'Search by title or summary...' }));
+      await user.click(screen.getByRole('option', { name: 'vue' }));
+
+      expect(onSearchChange).toHaveBeenCalledWith({ ...defaultSearchState, keyword: 'vue' });
+      expect(JSON.parse(localStorage.getItem(recentKey)!)).toEqual(['vue', 'react hooks']);
+    });
+
+    it('should clear the recent searches', async () => {
+      const user = userEvent.setup();
+      localStorage.setItem(recentKey, JSON.stringify(['react']));
+      render(<ArticleSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
+
+      await user.click(screen.getByRole('combobox', { name: 'Search by title or summary...' }));
+      await user.click(screen.getByRole('option', { name: 'Clear recent searches' }));
+
+      expect(localStorage.getItem(recentKey)).toBeNull();
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('should remember searches confirmed with Enter', async () => {
+      const user = userEvent.setup();
+      render(<ArticleSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
+
+      await user.type(
+        screen.getByRole('combobox', { name: 'Search by title or summary...' }),
+        'typescript{Enter}'
+      );
+
+      expect(JSON.parse(localStorage.getItem(recentKey)!)).toEqual(['typescript']);
+    });
+
+    it('should filter by a suggested source', async () => {
+      const user = userEvent.setup();
+      const onSearchChange = vi.fn();
+      render(<ArticleSearch searchState={defaultSearchState} onSearchChange={onSearchChange} />);
+
+      await user.type(
+        screen.getByRole('combobox', { name: 'Search by title or summary...' }),
+        'tech'
+      );
+      await user.click(
+        within(screen.getByRole('listbox')).getByRole('option', { name: 'Tech Blog' })
+      );
+
+      expect(onSearchChange).toHaveBeenCalledWith({ ...defaultSearchState, sourceId: 1 });
+    });
+
+    it('should open a suggested article', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useArticleSearch).mockReturnValue({
+        articles: [createMockArticle({ id: 42, title: 'Server Components', source_name: 'Go' })],
+        pagination: { page: 1, limit: 5, total: 1, totalPages: 1 },
+        isLoading: false,
+        error: null,
+        refetch: vi.fn(),
+      });
+      render(<ArticleSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
+
+      await user.type(
+        screen.getByRole('combobox', { name: 'Search by title or summary...' }),
+        'server'
+      );
+      await user.click(await screen.findByRole('option', { name: /Server Components/ }));
+
+      expect(mockPush).toHaveBeenCalledWith('/articles/42');
+      expect(useArticleSearch).toHaveBeenLastCalledWith(
+        {
+          keyword: 'server',
+          source_id: undefined,
+          from: undefined,
+          to: undefined,
+          page: 1,
+          limit: 5,
+        },
+        { enabled: true }
+      );
+    });
+  });
 });
 
 describe('toSearchParams', () => {
@@ -1,18 +1,24 @@
 /**
  * ArticleSearch Component
  *
- * Search and filter panel for articles with keyword search,
- * source filter, and date range picker.
+ * Search and filter panel for articles with keyword search (supporting the
+ * advanced query syntax), source filter, and date range picker.
  */
 
 'use client';
 
 import * as React from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { SearchInput } from '@/components/search/SearchInput';
 import { SourceFilter } from '@/components/search/SourceFilter';
 import { DateRangePicker } from '@/components/search/DateRangePicker';
+import { SearchQuerySummary } from '@/components/search/SearchQuerySummary';
+import { useSearchQuery } from '@/hooks/useSearchQuery';
+import { useSearchSuggestions, type SearchSuggestion } from '@/hooks/useSearchSuggestions';
 import { cn } from '@/lib/utils';
 import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
 
@@ -30,6 +36,10 @@ export interface ArticleSearchProps {
   onSearchChange: (state: ArticleSearchState) => void;
   /** Whether search is in progress */
   isLoading?: boolean;
+  /** Whether only unread articles are shown (client-side filter of the loaded articles) */
+  unreadOnly?: boolean;
+  /** Callback when the unread-only filter changes (hides the toggle when omitted) */
+  onUnreadOnlyChange?: (unreadOnly: boolean) => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -76,8 +86,43 @@ export function ArticleSearch({
   searchState,
   onSearchChange,
   isLoading = false,
+  unreadOnly = false,
+  onUnreadOnlyChange,
   className,
 }: ArticleSearchProps) {
+  const router = useRouter();
+  const { query, errors } = useSearchQuery(toSearchParams(searchState));
+
+  // Autocomplete follows the text as typed, before the keyword is debounced
+  const [typedKeyword, setTypedKeyword] = React.useState(searchState.keyword);
+  const { groups, addRecentSearch, clearRecentSearches } = useSearchSuggestions(typedKeyword, {
+    scope: 'articles',
+    includeArticles: true,
+  });
+
+  const handleSuggestionSelect = React.useCallback(
+    (suggestion: SearchSuggestion) => {
+      switch (suggestion.kind) {
+        case 'recent':
+          addRecentSearch(suggestion.query);
+          onSearchChange({ ...searchState, keyword: suggestion.query });
+          break;
+        case 'clear-recent':
+          clearRecentSearches();
+          break;
+        case 'source':
+          // The typed text was the source name: filter by the source instead
+          onSearchChange({ ...searchState, keyword: '', sourceId: suggestion.source.id });
+          break;
+        case 'article':
+          addRecentSearch(typedKeyword);
+          router.push(`/articles/${suggestion.article.id}`);
+          break;
+      }
+    },
+    [searchState, onSearchChange, addRecentSearch, clearRecentSearches, typedKeyword, router]
+  );
+
   const handleKeywordChange = React.useCallback(
     (keyword: string) => {
       onSearchChange({ ...searchState, keyword });
@@ -106,9 +151,13 @@ export function ArticleSearch({
       fromDate: null,
       toDate: null,
     });
-  }, [onSearchChange]);
+    onUnreadOnlyChange?.(false);
+  }, [onSearchChange, onUnreadOnlyChange]);
 
-  const showClearButton = React.useMemo(() => hasActiveFilters(searchState), [searchState]);
+  const showClearButton = React.useMemo(
+    () => hasActiveFilters(searchState) || unreadOnly,
+    [searchState, unreadOnly]
+  );
 
   return (
     <Card className={cn('mb-6', className)}>
@@ -122,6 +171,18 @@ export function ArticleSearch({
           onChange={handleKeywordChange}
           placeholder="Search by title or summary..."
           isLoading={isLoading}
+          invalid={errors.length > 0}
+          describedBy={errors.length > 0 ? 'article-search-query-errors' : undefined}
+          suggestions={groups}
+          onSuggestionSelect={handleSuggestionSelect}
+          onInputValueChange={setTypedKeyword}
+          onCommit={addRecentSearch}
+        />
+        <SearchQuerySummary
+          text={searchState.keyword}
+          query={query}
+          errors={errors}
+          errorsId="article-search-query-errors"
         />
 
         {/* Filters */}
@@ -139,6 +200,25 @@ export function ArticleSearch({
           </div>
         </div>
 
+        {/* Unread Only Toggle - read state is local, so it filters the loaded articles */}
+        {onUnreadOnlyChange && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="unread-only-filter"
+              checked={unreadOnly}
+              onCheckedChange={onUnreadOnlyChange}
+              aria-label="Show unread articles only"
+              aria-describedby="unread-only-filter-hint"
+            />
+            <Label htmlFor="unread-only-filter" className="text-sm font-medium">
+              Unread only
+            </Label>
+            <span id="unread-only-filter-hint" className="text-xs text-muted-foreground">
+              (on this page)
+            </span>
+          </div>
+        )}
+
         {/* Clear All Button */}
         {showClearButton && (
           <div className="flex justify-end">
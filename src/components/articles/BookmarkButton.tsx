@@ -0,0 +1,57 @@
+'use client';
+
+import * as React from 'react';
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useArticleBookmark } from '@/hooks/useBookmarks';
+import type { Article } from '@/types/api';
+
+interface BookmarkButtonProps {
+  article: Article;
+  /** Show a text label next to the icon */
+  showLabel?: boolean;
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+  className?: string;
+}
+
+/**
+ * BookmarkButton Component
+ *
+ * Toggles an article in the user's "Read later" collection.
+ * Exposes its state through aria-pressed for assistive technologies.
+ *
+ * @example
+ * <BookmarkButton article={article} />
+ * <BookmarkButton article={article} showLabel variant="outline" size="lg" />
+ */
+export function BookmarkButton({
+  article,
+  showLabel = false,
+  variant = 'ghost',
+  size,
+  className,
+}: BookmarkButtonProps) {
+  const { isBookmarked, toggle } = useArticleBookmark(article);
+  const Icon = isBookmarked ? BookmarkCheck : Bookmark;
+  const label = isBookmarked ? 'Remove from read later' : 'Save for read later';
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size={size ?? (showLabel ? 'default' : 'icon')}
+      className={cn(isBookmarked && 'text-primary', className)}
+      onClick={toggle}
+      aria-pressed={isBookmarked}
+      aria-label={showLabel ? undefined : label}
+      title={label}
+      data-testid="bookmark-button"
+      data-bookmark-toggle
+    >
+      <Icon className={cn('h-4 w-4', isBookmarked && 'fill-current')} aria-hidden="true" />
+      {showLabel && (isBookmarked ? 'Saved' : 'Read later')}
+    </Button>
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { Can } from './Can';
+import { getUserRole } from '@/lib/auth/role';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserRole: vi.fn(),
+}));
+
+describe('Can', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render children when the user has the permission', () => {
+    vi.mocked(getUserRole).mockReturnValue('admin');
+
+    render(
+      <Can permission="source:create">
+        <button>Add Source</button>
+      </Can>
+    );
+
+    expect(screen.getByRole('button', { name: 'Add Source' })).toBeInTheDocument();
+  });
+
+  it('should render nothing when the user lacks the permission', () => {
+    vi.mocked(getUserRole).mockReturnValue('user');
+
+    render(
+      <Can permission="source:create">
+        <button>Add Source</button>
+      </Can>
+    );
+
+    expect(screen.queryByRole('button', { name: 'Add Source' })).not.toBeInTheDocument();
+  });
+
+  it('should render the fallback when the user lacks the permission', () => {
+    vi.mocked(getUserRole).mockReturnValue(null);
+
+    render(
+      <Can permission="source:delete" fallback={<span>Read only</span>}>
+        <button>Delete</button>
+      </Can>
+    );
+
+    expect(screen.getByText('Read only')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+  });
+});
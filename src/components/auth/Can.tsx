@@ -0,0 +1,34 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useCan } from '@/hooks/useCan';
+import type { Permission } from '@/lib/auth/permissions';
+
+/**
+ * Props for Can component
+ */
+interface CanProps {
+  /** Permission the current user needs */
+  permission: Permission;
+  /** Children to render if the user has the permission */
+  children: ReactNode;
+  /** Optional fallback to render otherwise */
+  fallback?: ReactNode;
+}
+
+/**
+ * Permission Gate Component
+ *
+ * Conditionally renders children based on the current user's permissions.
+ * For UI convenience only: the backend enforces authorization.
+ *
+ * @example
+ * ```tsx
+ * <Can permission="source:create">
+ *   <Button onClick={openAddDialog}>Add Source</Button>
+ * </Can>
+ * ```
+ */
+export function Can({ permission, children, fallback = null }: CanProps): ReactNode {
+  return useCan(permission) ? children : fallback;
+}
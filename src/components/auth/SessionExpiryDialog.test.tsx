@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SessionExpiryDialog } from './SessionExpiryDialog';
+import { TokenRefreshScheduler, type TokenRefreshState } from '@/lib/auth/TokenRefreshScheduler';
+
+vi.mock('@/lib/api/endpoints/auth', () => ({
+  refreshToken: vi.fn(),
+  refreshSession: vi.fn(),
+}));
+
+describe('SessionExpiryDialog', () => {
+  let scheduler: TokenRefreshScheduler;
+  let state: TokenRefreshState;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: TokenRefreshState) => {
+    act(() => {
+      state = next;
+      listeners.forEach((listener) => listener());
+    });
+  };
+
+  beforeEach(() => {
+    TokenRefreshScheduler.resetInstance();
+    listeners.clear();
+    scheduler = TokenRefreshScheduler.getInstance();
+    state = { status: 'idle', expiresAt: null };
+    vi.spyOn(scheduler, 'subscribe').mockImplementation((listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    });
+    vi.spyOn(scheduler, 'getSnapshot').mockImplementation(() => state);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stay hidden while refreshes succeed', () => {
+    render(<SessionExpiryDialog onSignOut={vi.fn()} />);
+    setState({ status: 'refreshing', expiresAt: Math.floor(Date.now() / 1000) + 300 });
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should warn with a countdown when a refresh fails', () => {
+    render(<SessionExpiryDialog onSignOut={vi.fn()} />);
+    setState({ status: 'failed', expiresAt: Math.floor(Date.now() / 1000) + 125 });
+
+    expect(screen.getByRole('dialog')).toHaveTextContent('Your session is about to expire');
+    expect(screen.getByRole('dialog')).toHaveTextContent(/signed out in 2:0[45]/);
+  });
+
+  it('should retry the refresh and close on success', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(scheduler, 'refresh').mockImplementation(async () => {
+      setState({ status: 'idle', expiresAt: Math.floor(Date.now() / 1000) + 900 });
+      return true;
+    });
+    render(<SessionExpiryDialog onSignOut={vi.fn()} />);
+    setState({ status: 'failed', expiresAt: Math.floor(Date.now() / 1000) + 120 });
+
+    await user.click(screen.getByRole('button', { name: 'Stay signed in' }));
+
+    expect(scheduler.refresh).toHaveBeenCalled();
+    await waitFor(() => {
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should sign out', async () => {
+    const user = userEvent.setup();
+    const onSignOut = vi.fn();
+    render(<SessionExpiryDialog onSignOut={onSignOut} />);
+    setState({ status: 'failed', expiresAt: Math.floor(Date.now() / 1000) + 120 });
+
+    await user.click(screen.getByRole('button', { name: 'Sign out' }));
+
+    expect(onSignOut).toHaveBeenCalled();
+  });
+
+  it('should only offer to sign in again once the session has expired', () => {
+    render(<SessionExpiryDialog onSignOut={vi.fn()} />);
+    setState({ status: 'failed', expiresAt: Math.floor(Date.now() / 1000) - 10 });
+
+    expect(screen.getByRole('dialog')).toHaveTextContent('Your session has expired');
+    expect(screen.getByRole('button', { name: 'Sign in again' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Stay signed in' })).not.toBeInTheDocument();
+  });
+
+  it('should dismiss the failure when closed', async () => {
+    const user = userEvent.setup();
+    const dismissFailure = vi.spyOn(scheduler, 'dismissFailure');
+    render(<SessionExpiryDialog onSignOut={vi.fn()} />);
+    setState({ status: 'failed', expiresAt: Math.floor(Date.now() / 1000) + 120 });
+
+    await user.keyboard('{Escape}');
+
+    expect(dismissFailure).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { getTokenRefreshScheduler } from '@/lib/auth/TokenRefreshScheduler';
+
+/**
+ * SessionExpiryDialog Component Props
+ */
+export interface SessionExpiryDialogProps {
+  /** Callback to sign out (or sign in again once the session has expired) */
+  onSignOut: () => void;
+}
+
+/**
+ * Format the seconds left as m:ss
+ */
+function formatTimeLeft(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * SessionExpiryDialog Component
+ *
+ * Warns that the session is about to expire when a background token refresh
+ * fails (see `TokenRefreshScheduler`), with a countdown to the expiry.
+ *
+ * Features:
+ * - "Stay signed in" retries the refresh; the dialog closes on success
+ * - "Sign out" ends the session right away
+ * - Once the session has expired, only offers to sign in again
+ * - Closing the dialog hides the warning until the next failed refresh
+ *
+ * @example
+ * ```tsx
+ * const { logout } = useAuth();
+ * <SessionExpiryDialog onSignOut={logout} />
+ * ```
+ */
+export function SessionExpiryDialog({ onSignOut }: SessionExpiryDialogProps) {
+  const scheduler = getTokenRefreshScheduler();
+  const { status, expiresAt } = React.useSyncExternalStore(
+    scheduler.subscribe,
+    scheduler.getSnapshot,
+    scheduler.getSnapshot
+  );
+  const [now, setNow] = React.useState(() => Date.now());
+  const [isRetrying, setIsRetrying] = React.useState(false);
+
+  // Tick the countdown while a refresh has failed
+  React.useEffect(() => {
+    if (status !== 'failed') {
+      return;
+    }
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // Background refreshes only show the dialog after a failure
+  if (status !== 'failed' && !isRetrying) {
+    return null;
+  }
+
+  const secondsLeft = expiresAt === null ? null : Math.max(0, expiresAt - Math.floor(now / 1000));
+  const isExpired = secondsLeft === 0;
+  const isRefreshing = status === 'refreshing';
+
+  const handleStaySignedIn = async () => {
+    setIsRetrying(true);
+    await scheduler.refresh();
+    setIsRetrying(false);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      scheduler.dismissFailure();
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isExpired ? 'Your session has expired' : 'Your session is about to expire'}
+          </DialogTitle>
+          <DialogDescription>
+            {isExpired
+              ? 'Sign in again to continue.'
+              : secondsLeft === null
+                ? 'We could not renew your session.'
+                : `We could not renew your session. You will be signed out in ${formatTimeLeft(secondsLeft)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          {isExpired ? (
+            <Button type="button" onClick={onSignOut}>
+              Sign in again
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={onSignOut} disabled={isRefreshing}>
+                Sign out
+              </Button>
+              <Button
+                type="button"
+                onClick={() => void handleStaySignedIn()}
+                disabled={isRefreshing}
+              >
+                {isRefreshing ? 'Renewing...' : 'Stay signed in'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { BarChart } from './BarChart';
+
+const data = [
+  { label: 'Oct 17', value: 4 },
+  { label: 'Oct 18', value: 0 },
+  { label: 'Oct 19', value: 8 },
+];
+
+describe('BarChart', () => {
+  it('should render a captioned figure', () => {
+    render(
+      <BarChart data={data} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    expect(screen.getByRole('figure', { name: 'Articles per day' })).toBeInTheDocument();
+  });
+
+  it('should summarize the chart for screen readers', () => {
+    render(
+      <BarChart data={data} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    expect(
+      screen.getByRole('img', {
+        name: 'Articles per day, Oct 17 to Oct 19: 12 articles in total, peak of 8 on Oct 19',
+      })
+    ).toBeInTheDocument();
+  });
+
+  it('should expose every value in a data table', () => {
+    render(
+      <BarChart data={data} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    const table = screen.getByRole('table', { name: 'Articles per day' });
+    expect(within(table).getByRole('columnheader', { name: 'Day' })).toBeInTheDocument();
+    expect(within(table).getByRole('columnheader', { name: 'Articles' })).toBeInTheDocument();
+
+    const rows = within(table).getAllByRole('row').slice(1);
+    expect(rows.map((row) => row.textContent)).toEqual(['Oct 174', 'Oct 180', 'Oct 198']);
+  });
+
+  it('should scale bars to the largest value', () => {
+    render(
+      <BarChart data={data} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    expect(screen.getByTitle('Oct 17: 4')).toHaveStyle({ height: '50%' });
+    expect(screen.getByTitle('Oct 19: 8')).toHaveStyle({ height: '100%' });
+    expect(screen.getByTitle('Oct 18: 0')).toHaveClass('bg-muted-foreground/20');
+  });
+
+  it('should use theme color tokens for the bars', () => {
+    render(
+      <BarChart data={data} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    expect(screen.getByTitle('Oct 19: 8')).toHaveClass('bg-primary/70');
+  });
+
+  it('should describe an empty chart', () => {
+    render(
+      <BarChart data={[]} title="Articles per day" labelHeader="Day" valueHeader="Articles" />
+    );
+
+    expect(screen.getByRole('img', { name: 'Articles per day: no data' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,99 @@
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+/**
+ * A single bar of the chart
+ */
+export interface BarChartDatum {
+  /** Label of the bar (e.g. "Oct 19") */
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  /** Data to plot, in display order */
+  data: BarChartDatum[];
+  /** Chart title, used as the figure caption and table caption */
+  title: string;
+  /** Header of the label column in the data table (e.g. "Day") */
+  labelHeader: string;
+  /** Header of the value column in the data table (e.g. "Articles") */
+  valueHeader: string;
+  className?: string;
+}
+
+/**
+ * Summary announced for the chart image
+ */
+function describeChart(data: BarChartDatum[], title: string, valueHeader: string): string {
+  if (data.length === 0) {
+    return `${title}: no data`;
+  }
+
+  const total = data.reduce((sum, { value }) => sum + value, 0);
+  const peak = data.reduce((max, datum) => (datum.value > max.value ? datum : max));
+  const range = `${data[0]?.label} to ${data[data.length - 1]?.label}`;
+
+  return `${title}, ${range}: ${total} ${valueHeader.toLowerCase()} in total, peak of ${peak.value} on ${peak.label}`;
+}
+
+/**
+ * BarChart Component
+ *
+ * Dependency-free vertical bar chart. Bars are drawn with theme color tokens
+ * (primary on muted), so they follow ThemeProvider's light and dark modes.
+ * Screen readers get a summary of the chart and a visually hidden table
+ * with every value.
+ */
+export function BarChart({ data, title, labelHeader, valueHeader, className }: BarChartProps) {
+  const captionId = React.useId();
+  const max = Math.max(0, ...data.map(({ value }) => value));
+
+  return (
+    <figure aria-labelledby={captionId} className={cn('space-y-2', className)}>
+      <figcaption id={captionId} className="text-sm font-medium">
+        {title}
+      </figcaption>
+      <div
+        role="img"
+        aria-label={describeChart(data, title, valueHeader)}
+        className="flex h-40 items-end gap-px rounded-md border border-border bg-muted/40 p-2"
+      >
+        {data.map(({ label, value }) => (
+          <div
+            key={label}
+            title={`${label}: ${value}`}
+            className={cn(
+              'min-h-px flex-1 rounded-t-sm transition-colors',
+              value > 0 ? 'bg-primary/70 hover:bg-primary' : 'bg-muted-foreground/20'
+            )}
+            style={{ height: max > 0 ? `${(value / max) * 100}%` : '1px' }}
+          />
+        ))}
+      </div>
+      {data.length > 0 && (
+        <div className="flex justify-between text-xs text-muted-foreground" aria-hidden="true">
+          <span>{data[0]?.label}</span>
+          <span>{data[data.length - 1]?.label}</span>
+        </div>
+      )}
+      <table className="sr-only">
+        <caption>{title}</caption>
+        <thead>
+          <tr>
+            <th scope="col">{labelHeader}</th>
+            <th scope="col">{valueHeader}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map(({ label, value }) => (
+            <tr key={label}>
+              <th scope="row">{label}</th>
+              <td>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
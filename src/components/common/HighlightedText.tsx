@@ -0,0 +1,42 @@
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import { splitHighlights } from '@/lib/utils/highlight';
+
+interface HighlightedTextProps {
+  /** Plain text to display */
+  text: string;
+  /** Words or phrases to highlight (case-insensitive) */
+  terms: readonly string[];
+  /** Additional CSS classes for the highlight marks */
+  markClassName?: string;
+}
+
+/**
+ * HighlightedText Component
+ *
+ * Renders plain text with search terms wrapped in `<mark>`. The text is only
+ * ever rendered as text nodes, so HTML in it is shown literally.
+ *
+ * @example
+ * <HighlightedText text={article.title} terms={['react', 'server components']} />
+ */
+export function HighlightedText({ text, terms, markClassName }: HighlightedTextProps) {
+  const segments = React.useMemo(() => splitHighlights(text, terms), [text, terms]);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className={cn('rounded-sm bg-primary/20 px-0.5 text-inherit', markClassName)}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
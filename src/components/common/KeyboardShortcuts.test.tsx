@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { KeyboardShortcuts } from './KeyboardShortcuts';
+
+const mockPush = vi.fn();
+let mockPathname = '/articles';
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+  }),
+  usePathname: () => mockPathname,
+}));
+
+function ArticleList() {
+  return (
+    <>
+      <input aria-label="Search articles" data-search-input />
+      {[1, 2, 3].map((id) => (
+        <div key={id} data-article-card={id}>
+          <a href={`/articles/${id}`}>Article {id}</a>
+          <button type="button" data-bookmark-toggle>
+            Bookmark {id}
+          </button>
+        </div>
+      ))}
+    </>
+  );
+}
+
+const press = (key: string, target: Element | Document = document.body) =>
+  fireEvent.keyDown(target, { key });
+
+describe('KeyboardShortcuts', () => {
+  beforeEach(() => {
+    mockPush.mockClear();
+    mockPathname = '/articles';
+    localStorage.clear();
+  });
+
+  describe('Article navigation', () => {
+    it('should move focus between articles with j and k', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+
+      press('j');
+      expect(screen.getByText('Article 1')).toHaveFocus();
+
+      press('j', document.activeElement!);
+      expect(screen.getByText('Article 2')).toHaveFocus();
+
+      press('k', document.activeElement!);
+      expect(screen.getByText('Article 1')).toHaveFocus();
+    });
+
+    it('should stay on the last article at the end of the list', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+
+      screen.getByText('Article 3').focus();
+      press('j', document.activeElement!);
+
+      expect(screen.getByText('Article 3')).toHaveFocus();
+    });
+
+    it('should open the focused article with o', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+      const link = screen.getByText('Article 2');
+      const onClick = vi.fn((event: MouseEvent) => event.preventDefault());
+      link.addEventListener('click', onClick);
+
+      link.focus();
+      press('o', link);
+
+      expect(onClick).toHaveBeenCalled();
+    });
+
+    it('should toggle the bookmark of the focused article with b', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+      const onClick = vi.fn();
+      screen.getByText('Bookmark 2').addEventListener('click', onClick);
+
+      screen.getByText('Article 2').focus();
+      press('b', document.activeElement!);
+
+      expect(onClick).toHaveBeenCalled();
+    });
+  });
+
+  describe('Page actions', () => {
+    it('should focus the search input with /', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+
+      press('/');
+
+      expect(screen.getByLabelText('Search articles')).toHaveFocus();
+    });
+
+    it('should go back to the list with u on an article page', () => {
+      mockPathname = '/articles/42';
+      render(<KeyboardShortcuts />);
+
+      press('u');
+
+      expect(mockPush).toHaveBeenCalledWith('/articles');
+    });
+
+    it('should ignore u outside article pages', () => {
+      render(<KeyboardShortcuts />);
+
+      press('u');
+
+      expect(mockPush).not.toHaveBeenCalled();
+    });
+
+    it('should show the cheat sheet with ?', () => {
+      render(<KeyboardShortcuts />);
+
+      press('?');
+
+      expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument();
+      expect(screen.getByText('Next article')).toBeInTheDocument();
+    });
+  });
+
+  describe('Suppression', () => {
+    it('should ignore shortcuts while typing in a form field', () => {
+      render(
+        <>
+          <ArticleList />
+          <KeyboardShortcuts />
+        </>
+      );
+      const input = screen.getByLabelText('Search articles');
+      input.focus();
+
+      press('j', input);
+      press('?', input);
+
+      expect(input).toHaveFocus();
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should use custom bindings from props', () => {
+      mockPathname = '/articles/42';
+      render(<KeyboardShortcuts bindings={{ backToList: ['Escape'] }} />);
+
+      press('u');
+      expect(mockPush).not.toHaveBeenCalled();
+
+      press('Escape');
+      expect(mockPush).toHaveBeenCalledWith('/articles');
+    });
+
+    it('should use bindings stored in localStorage', () => {
+      localStorage.setItem('catchup_feed_shortcut_bindings', JSON.stringify({ showHelp: ['h'] }));
+      render(<KeyboardShortcuts />);
+
+      press('h');
+
+      expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+'use client';
+
+import * as React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { KeyboardShortcutsDialog } from '@/components/common/KeyboardShortcutsDialog';
+import { useKeyboardShortcuts, type ShortcutHandler } from '@/hooks/useKeyboardShortcuts';
+import {
+  loadShortcutBindings,
+  resolveShortcutBindings,
+  SHORTCUT_TARGETS,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/lib/keyboard/shortcuts';
+import { getArticleListHref, parseArticleListContext } from '@/utils/articleListContext';
+
+interface KeyboardShortcutsProps {
+  /** Binding overrides, applied on top of the user's stored bindings */
+  bindings?: Partial<ShortcutBindings>;
+}
+
+const ARTICLE_DETAIL_PATH = /^\/articles\/[^/]+\/?$/;
+
+function getArticleCards(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(`[${SHORTCUT_TARGETS.articleCard}]`));
+}
+
+function getCurrentArticleCard(): HTMLElement | null {
+  return document.activeElement?.closest<HTMLElement>(`[${SHORTCUT_TARGETS.articleCard}]`) ?? null;
+}
+
+function focusArticleCard(card: HTMLElement | undefined): boolean {
+  const link = card?.querySelector<HTMLAnchorElement>('a[href]');
+  if (!link) {
+    return false;
+  }
+  link.focus();
+  link.scrollIntoView?.({ block: 'nearest' });
+  return true;
+}
+
+/**
+ * KeyboardShortcuts Component
+ *
+ * Global keyboard navigation for reading views:
+ * - j / k: focus the next / previous ArticleCard
+ * - o / Enter: open the focused article
+ * - u: go back to the articles list from an article
+ * - b: toggle "Read later" on the focused (or currently open) article
+ * - /: focus the search field
+ * - ?: show the cheat sheet
+ *
+ * Targets are located through data attributes (see SHORTCUT_TARGETS), so pages
+ * only need to render the regular components. Renders nothing but the dialog.
+ *
+ * @example
+ * <KeyboardShortcuts />
+ * <KeyboardShortcuts bindings={{ backToList: ['Escape'] }} />
+ */
+export function KeyboardShortcuts({ bindings }: KeyboardShortcutsProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [helpOpen, setHelpOpen] = React.useState(false);
+  const [storedBindings, setStoredBindings] = React.useState<Partial<ShortcutBindings> | null>(
+    null
+  );
+
+  // Stored overrides are read after mount (localStorage is client-only)
+  React.useEffect(() => {
+    setStoredBindings(loadShortcutBindings());
+  }, []);
+
+  const activeBindings = React.useMemo(
+    () => resolveShortcutBindings(storedBindings, bindings),
+    [storedBindings, bindings]
+  );
+
+  const handlers = React.useMemo<Partial<Record<ShortcutAction, ShortcutHandler>>>(
+    () => ({
+      nextArticle: () => {
+        const cards = getArticleCards();
+        const current = getCurrentArticleCard();
+        const index = current ? cards.indexOf(current) : -1;
+        return focusArticleCard(cards[Math.min(index + 1, cards.length - 1)]);
+      },
+      previousArticle: () => {
+        const cards = getArticleCards();
+        const current = getCurrentArticleCard();
+        const index = current ? cards.indexOf(current) : -1;
+        return focusArticleCard(cards[Math.max(index - 1, 0)]);
+      },
+      openArticle: (event) => {
+        const link = getCurrentArticleCard()?.querySelector<HTMLAnchorElement>('a[href]');
+        // Enter keeps its native meaning on focused links and buttons
+        const isNativeActivation =
+          event.key === 'Enter' &&
+          event.target instanceof Element &&
+          event.target.closest('a[href], button, [role="button"]') !== null;
+        if (!link || isNativeActivation) {
+          return false;
+        }
+        link.click();
+      },
+      backToList: () => {
+        if (!pathname || !ARTICLE_DETAIL_PATH.test(pathname)) {
+          return false;
+        }
+        // Return to the list the article was opened from
+        const params = new URLSearchParams(window.location.search);
+        router.push(
+          params.toString() ? getArticleListHref(parseArticleListContext(params)) : '/articles'
+        );
+      },
+      toggleBookmark: () => {
+        const card = getCurrentArticleCard();
+        // Outside a list (article detail), use the page's only bookmark toggle
+        const scope = card ?? (getArticleCards().length === 0 ? document : null);
+        const button = scope?.querySelector<HTMLElement>(`[${SHORTCUT_TARGETS.bookmarkToggle}]`);
+        if (!button) {
+          return false;
+        }
+        button.click();
+      },
+      focusSearch: () => {
+        const input = document.querySelector<HTMLElement>(`[${SHORTCUT_TARGETS.searchInput}]`);
+        if (!input) {
+          return false;
+        }
+        input.focus();
+      },
+      showHelp: () => {
+        setHelpOpen(true);
+      },
+    }),
+    [pathname, router]
+  );
+
+  useKeyboardShortcuts(handlers, { bindings: activeBindings });
+
+  return (
+    <KeyboardShortcutsDialog open={helpOpen} onOpenChange={setHelpOpen} bindings={activeBindings} />
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  SHORTCUT_DESCRIPTIONS,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/lib/keyboard/shortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Active key bindings */
+  bindings: ShortcutBindings;
+}
+
+/**
+ * KeyboardShortcutsDialog Component
+ *
+ * Cheat sheet listing every keyboard shortcut with its current binding.
+ * Opened with `?` from anywhere in the protected area.
+ *
+ * @example
+ * <KeyboardShortcutsDialog open={open} onOpenChange={setOpen} bindings={bindings} />
+ */
+export function KeyboardShortcutsDialog({
+  open,
+  onOpenChange,
+  bindings,
+}: KeyboardShortcutsDialogProps) {
+  const actions = Object.keys(SHORTCUT_DESCRIPTIONS) as ShortcutAction[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts are disabled while typing in a text field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="divide-y divide-border text-sm">
+          {actions.map((action) => (
+            <div key={action} className="flex items-center justify-between gap-4 py-2">
+              <dt className="text-muted-foreground">{SHORTCUT_DESCRIPTIONS[action]}</dt>
+              <dd className="flex shrink-0 items-center gap-1">
+                {bindings[action].length === 0 ? (
+                  <span className="text-xs text-muted-foreground">Not set</span>
+                ) : (
+                  bindings[action].map((key) => (
+                    <kbd
+                      key={key}
+                      className="min-w-[1.75rem] rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+                    >
+                      {key}
+                    </kbd>
+                  ))
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </DialogContent>
+    </Dialog>
+  );
+}
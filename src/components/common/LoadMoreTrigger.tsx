@@ -0,0 +1,103 @@
+/**
+ * LoadMoreTrigger Component
+ *
+ * Footer for continuously loaded lists with:
+ * - Automatic loading when scrolled into view (IntersectionObserver)
+ * - "Load more" button as a manual and accessible fallback
+ * - Loaded items counter (e.g., "Showing 40 of 120 items")
+ * - End-of-list message once everything is loaded
+ */
+'use client';
+
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Props for the LoadMoreTrigger component
+ */
+interface LoadMoreTriggerProps {
+  /** Callback to load the next page */
+  onLoadMore: () => void;
+  /** Whether more items are available */
+  hasMore: boolean;
+  /** Whether the next page is being loaded */
+  isLoading: boolean;
+  /** Number of items loaded so far */
+  loadedItems?: number;
+  /** Total number of items */
+  totalItems?: number;
+  /** Distance from the viewport at which loading starts (default: '400px') */
+  rootMargin?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+export function LoadMoreTrigger({
+  onLoadMore,
+  hasMore,
+  isLoading,
+  loadedItems,
+  totalItems,
+  rootMargin = '400px',
+  className,
+}: LoadMoreTriggerProps) {
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+
+  // Keep the latest callback without re-creating the observer
+  const onLoadMoreRef = React.useRef(onLoadMore);
+  React.useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, rootMargin]);
+
+  const showCount = loadedItems !== undefined && totalItems !== undefined && totalItems > 0;
+
+  return (
+    <div
+      ref={sentinelRef}
+      className={cn('flex flex-col items-center gap-3 py-6', className)}
+      data-testid="load-more-trigger"
+    >
+      {showCount && (
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          Showing {Math.min(loadedItems, totalItems)} of {totalItems} items
+        </p>
+      )}
+
+      {hasMore ? (
+        <Button variant="outline" onClick={onLoadMore} disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Loading...
+            </>
+          ) : (
+            'Load more'
+          )}
+        </Button>
+      ) : (
+        <p className="text-sm text-muted-foreground">You&apos;ve reached the end.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Toaster } from './Toaster';
+import { ToastManager, toast } from '@/lib/toast/ToastManager';
+
+describe('Toaster', () => {
+  beforeEach(() => {
+    ToastManager.resetInstance();
+  });
+
+  it('should render a notifications region', () => {
+    render(<Toaster />);
+    expect(screen.getByRole('region', { name: 'Notifications' })).toBeInTheDocument();
+  });
+
+  it('should render error toasts as alerts and others as status', () => {
+    render(<Toaster />);
+
+    act(() => {
+      toast.error('Failed to delete', { id: 'error-1', description: 'Server error' });
+      toast.success('Source created');
+    });
+
+    const alert = screen.getByRole('alert');
+    expect(alert).toHaveAttribute('id', 'error-1');
+    expect(alert).toHaveTextContent('Failed to delete');
+    expect(alert).toHaveTextContent('Server error');
+    expect(screen.getByRole('status')).toHaveTextContent('Source created');
+  });
+
+  it('should run the toast action', async () => {
+    const user = userEvent.setup();
+    const onClick = vi.fn();
+    render(<Toaster />);
+
+    act(() => {
+      toast.show({ title: 'Deleted "Tech Blog"', action: { label: 'Undo', onClick } });
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dismiss a toast with the dismiss button', async () => {
+    const user = userEvent.setup();
+    render(<Toaster />);
+
+    act(() => {
+      toast.show({ title: 'Saved' });
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+  });
+});
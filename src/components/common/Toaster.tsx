@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Toaster Component
+ *
+ * Renders the toasts held by ToastManager in a fixed region at the bottom
+ * right of the viewport. Mounted once in the root layout.
+ *
+ * Features:
+ * - Error toasts use role="alert", others role="status"
+ * - Optional action button (e.g. "Undo") and a dismiss button
+ * - Each toast element uses the toast ID as its DOM id, so controls can
+ *   reference it with aria-describedby
+ *
+ * @module components/common/Toaster
+ */
+
+import { useSyncExternalStore } from 'react';
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ToastManager, type Toast, type ToastVariant } from '@/lib/toast/ToastManager';
+
+const EMPTY_TOASTS: readonly Toast[] = [];
+
+const VARIANT_STYLES: Record<ToastVariant, string> = {
+  default: 'border-border',
+  success: 'border-primary/50',
+  error: 'border-destructive/50 text-destructive',
+};
+
+const VARIANT_ICONS: Record<ToastVariant, typeof Info> = {
+  default: Info,
+  success: CheckCircle2,
+  error: AlertCircle,
+};
+
+/**
+ * Toaster Component
+ *
+ * @example
+ * ```tsx
+ * <body>
+ *   {children}
+ *   <Toaster />
+ * </body>
+ * ```
+ */
+export function Toaster() {
+  const manager = ToastManager.getInstance();
+  const toasts = useSyncExternalStore(manager.subscribe, manager.getSnapshot, () => EMPTY_TOASTS);
+
+  return (
+    <section
+      aria-label="Notifications"
+      className="pointer-events-none fixed bottom-4 right-4 z-[100] flex w-full max-w-sm flex-col gap-2"
+    >
+      {toasts.map((toast) => {
+        const Icon = VARIANT_ICONS[toast.variant];
+        return (
+          <div
+            key={toast.id}
+            id={toast.id}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+            className={cn(
+              'pointer-events-auto flex items-start gap-3 rounded-lg border bg-card p-4 text-sm shadow-lg',
+              VARIANT_STYLES[toast.variant]
+            )}
+          >
+            <Icon className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium">{toast.title}</p>
+              {toast.description && (
+                <p className="mt-1 whitespace-pre-line text-xs text-muted-foreground">
+                  {toast.description}
+                </p>
+              )}
+            </div>
+            {toast.action && (
+              <Button variant="outline" size="sm" onClick={toast.action.onClick}>
+                {toast.action.label}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={() => manager.dismiss(toast.id)}
+              aria-label="Dismiss notification"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </section>
+  );
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { HighlightedText } from '../HighlightedText';
+
+describe('HighlightedText', () => {
+  it('should wrap matches in mark elements', () => {
+    const { container } = render(<HighlightedText text="React and Vue" terms={['vue']} />);
+
+    expect(container).toHaveTextContent('React and Vue');
+    expect(container.querySelector('mark')).toHaveTextContent('Vue');
+  });
+
+  it('should render HTML in the text as text', () => {
+    const { container } = render(
+      <HighlightedText text={'<script>alert("x")</script> news'} terms={['script', 'news']} />
+    );
+
+    expect(container.querySelector('script')).toBeNull();
+    expect(container).toHaveTextContent('<script>alert("x")</script> news');
+    expect(container.querySelectorAll('mark')).toHaveLength(3);
+  });
+
+  it('should render plain text without terms', () => {
+    const { container } = render(<HighlightedText text="React" terms={[]} />);
+
+    expect(container.innerHTML).toBe('React');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ArticleAnalyticsSection } from './ArticleAnalyticsSection';
+import * as useArticleAnalyticsModule from '@/hooks/useArticleAnalytics';
+import type { SourceArticleCount } from '@/utils/articleAnalytics';
+import type { Source } from '@/types/api';
+
+vi.mock('@/hooks/useArticleAnalytics', () => ({
+  useArticleAnalytics: vi.fn(),
+}));
+
+const quietSource: Source = {
+  id: 9,
+  name: 'Dead Feed',
+  feed_url: 'https://example.com/dead.xml',
+  active: true,
+};
+
+const createSourceCounts = (count: number): SourceArticleCount[] =>
+  Array.from({ length: count }, (_, index) => ({
+    sourceId: index + 1,
+    sourceName: `Source ${index + 1}`,
+    count: 20 - index,
+  }));
+
+type AnalyticsReturn = ReturnType<typeof useArticleAnalyticsModule.useArticleAnalytics>;
+
+function mockAnalytics(overrides: Partial<AnalyticsReturn> = {}) {
+  vi.mocked(useArticleAnalyticsModule.useArticleAnalytics).mockReturnValue({
+    dailyCounts: [
+      { date: '2026-10-18', count: 3 },
+      { date: '2026-10-19', count: 5 },
+    ],
+    sourceCounts: createSourceCounts(2),
+    quietSources: [quietSource],
+    totalArticles: 8,
+    analyzedArticles: 8,
+    isTruncated: false,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides,
+  });
+}
+
+describe('ArticleAnalyticsSection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAnalytics();
+  });
+
+  it('should show the last 7 days by default', () => {
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.getByRole('region', { name: 'Ingestion Analytics' })).toBeInTheDocument();
+    expect(useArticleAnalyticsModule.useArticleAnalytics).toHaveBeenCalledWith(7);
+    expect(screen.getByRole('button', { name: '7 days' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('8 articles in the last 7 days')).toBeInTheDocument();
+  });
+
+  it('should switch the range', async () => {
+    const user = userEvent.setup();
+    render(<ArticleAnalyticsSection />);
+
+    await user.click(screen.getByRole('button', { name: '90 days' }));
+
+    expect(useArticleAnalyticsModule.useArticleAnalytics).toHaveBeenLastCalledWith(90);
+    expect(screen.getByRole('button', { name: '90 days' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: '7 days' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('should chart the articles per day with day labels', () => {
+    render(<ArticleAnalyticsSection />);
+
+    expect(
+      screen.getByRole('img', {
+        name: 'Articles per day, Oct 18 to Oct 19: 8 articles in total, peak of 5 on Oct 19',
+      })
+    ).toBeInTheDocument();
+  });
+
+  it('should list the top sources and expand to every source', async () => {
+    const user = userEvent.setup();
+    mockAnalytics({ sourceCounts: createSourceCounts(7) });
+    render(<ArticleAnalyticsSection />);
+
+    const list = screen.getByRole('list', { name: 'Articles by source' });
+    expect(within(list).getAllByRole('listitem')).toHaveLength(5);
+    expect(within(list).getByRole('link', { name: 'Source 1' })).toHaveAttribute(
+      'href',
+      '/sources/1'
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Show all 7 sources' }));
+
+    expect(within(list).getAllByRole('listitem')).toHaveLength(7);
+    expect(screen.getByRole('button', { name: 'Show top 5 only' })).toHaveAttribute(
+      'aria-expanded',
+      'true'
+    );
+  });
+
+  it('should not offer to expand a short breakdown', () => {
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.queryByRole('button', { name: /Show all/ })).not.toBeInTheDocument();
+  });
+
+  it('should list the sources without recent articles', () => {
+    render(<ArticleAnalyticsSection />);
+
+    const list = screen.getByRole('list', { name: 'Sources without recent articles' });
+    expect(within(list).getByRole('link', { name: 'Dead Feed' })).toHaveAttribute(
+      'href',
+      '/sources/9'
+    );
+  });
+
+  it('should show empty states', () => {
+    mockAnalytics({ sourceCounts: [], quietSources: [], totalArticles: 0 });
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.getByText('No articles in the last 7 days')).toBeInTheDocument();
+    expect(
+      screen.getByText('Every active source has articles in the last 7 days')
+    ).toBeInTheDocument();
+  });
+
+  it('should note a truncated range', () => {
+    mockAnalytics({ totalArticles: 1200, analyzedArticles: 500, isTruncated: true });
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Based on the latest 500 of 1200 articles in the range.'
+    );
+  });
+
+  it('should not note a complete range', () => {
+    mockAnalytics();
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should show skeletons while loading', () => {
+    mockAnalytics({ isLoading: true });
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('should show errors with a retry', async () => {
+    const user = userEvent.setup();
+    const refetch = vi.fn();
+    mockAnalytics({ error: new Error('Search failed'), refetch });
+    render(<ArticleAnalyticsSection />);
+
+    expect(screen.getByText('Search failed')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /retry/i }));
+    expect(refetch).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BarChart } from '@/components/common/BarChart';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { useArticleAnalytics } from '@/hooks/useArticleAnalytics';
+import { ANALYTICS_RANGE_DAYS, type AnalyticsRangeDays } from '@/utils/articleAnalytics';
+import { cn } from '@/lib/utils';
+
+interface ArticleAnalyticsSectionProps {
+  /** Number of sources in the top sources list (default: 5) */
+  topSourcesCount?: number;
+  className?: string;
+}
+
+const dayLabelFormat = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC',
+});
+
+/**
+ * Label of a UTC calendar day (YYYY-MM-DD), e.g. "Oct 19"
+ */
+function formatDayLabel(date: string): string {
+  return dayLabelFormat.format(new Date(`${date}T00:00:00Z`));
+}
+
+/**
+ * ArticleAnalyticsSection Component
+ *
+ * Dashboard section with article ingestion analytics over a selectable
+ * 7, 30 or 90 day range: articles ingested per day, top sources by volume
+ * with the full per-source breakdown, and active sources that ingested
+ * nothing in the range.
+ */
+export function ArticleAnalyticsSection({
+  topSourcesCount = 5,
+  className,
+}: ArticleAnalyticsSectionProps) {
+  const [rangeDays, setRangeDays] = React.useState<AnalyticsRangeDays>(7);
+  const [showAllSources, setShowAllSources] = React.useState(false);
+  const {
+    dailyCounts,
+    sourceCounts,
+    quietSources,
+    totalArticles,
+    analyzedArticles,
+    isTruncated,
+    isLoading,
+    error,
+    refetch,
+  } = useArticleAnalytics(rangeDays);
+
+  const listedSources = showAllSources ? sourceCounts : sourceCounts.slice(0, topSourcesCount);
+  const maxSourceCount = sourceCounts[0]?.count ?? 0;
+
+  return (
+    <section aria-labelledby="article-analytics-heading" className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 id="article-analytics-heading" className="text-xl font-semibold tracking-tight">
+          Ingestion Analytics
+        </h2>
+        <div
+          role="group"
+          aria-label="Analytics range"
+          className="inline-flex rounded-md border bg-card p-0.5"
+        >
+          {ANALYTICS_RANGE_DAYS.map((days) => (
+            <Button
+              key={days}
+              type="button"
+              variant={rangeDays === days ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8"
+              aria-pressed={rangeDays === days}
+              onClick={() => setRangeDays(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <ErrorMessage error={error} onRetry={refetch} />}
+
+      {!isLoading && isTruncated && (
+        <p role="status" className="rounded-md border bg-muted/50 px-3 py-2 text-sm">
+          Based on the latest {analyzedArticles} of {totalArticles} articles in the range. Older
+          articles are not counted, and quiet sources may have articles earlier in the range.
+        </p>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        {/* Articles per day */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Articles Ingested</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? 'Loading...'
+                : `${totalArticles} article${totalArticles !== 1 ? 's' : ''} in the last ${rangeDays} days`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <BarChart
+                data={dailyCounts.map(({ date, count }) => ({
+                  label: formatDayLabel(date),
+                  value: count,
+                }))}
+                title="Articles per day"
+                labelHeader="Day"
+                valueHeader="Articles"
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sources without recent articles */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Quiet Sources</CardTitle>
+            <CardDescription>Active sources with no articles in the range</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <Skeleton key={index} className="h-5 w-full" />
+                ))}
+              </div>
+            ) : quietSources.length > 0 ? (
+              <ul className="space-y-1 text-sm" aria-label="Sources without recent articles">
+                {quietSources.map((source) => (
+                  <li key={source.id}>
+                    <Link
+                      href={`/sources/${source.id}`}
+                      className="underline-offset-4 hover:text-primary hover:underline"
+                    >
+                      {source.name}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Every active source has articles in the last {rangeDays} days
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-source breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{showAllSources ? 'Articles by Source' : 'Top Sources'}</CardTitle>
+          <CardDescription>Sources by number of articles in the range</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-6 w-full" />
+              ))}
+            </div>
+          ) : sourceCounts.length > 0 ? (
+            <>
+              <ol className="space-y-2" aria-label="Articles by source">
+                {listedSources.map(({ sourceId, sourceName, count }) => (
+                  <li key={sourceId} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <Link
+                        href={`/sources/${sourceId}`}
+                        className="truncate underline-offset-4 hover:text-primary hover:underline"
+                      >
+                        {sourceName}
+                      </Link>
+                      <span className="tabular-nums text-muted-foreground">{count}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted" aria-hidden="true">
+                      <div
+                        className="h-full rounded-full bg-primary/70"
+                        style={{ width: `${(count / maxSourceCount) * 100}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ol>
+              {sourceCounts.length > topSourcesCount && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="mt-2 px-0"
+                  aria-expanded={showAllSources}
+                  onClick={() => setShowAllSources((value) => !value)}
+                >
+                  {showAllSources
+                    ? `Show top ${topSourcesCount} only`
+                    : `Show all ${sourceCounts.length} sources`}
+                </Button>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No articles in the last {rangeDays} days
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DashboardWidgetFrame } from './DashboardWidgetFrame';
+import type { DashboardWidgetDefinition } from './widgetRegistry';
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const widget: DashboardWidgetDefinition = {
+  id: 'clock',
+  title: 'Clock',
+  description: 'Current time',
+  component: () => <div>Clock content</div>,
+};
+
+const failingWidget: DashboardWidgetDefinition = {
+  id: 'broken',
+  title: 'Broken',
+  description: 'Always fails',
+  component: () => {
+    throw new Error('Query failed');
+  },
+};
+
+function renderFrame(props: Partial<React.ComponentProps<typeof DashboardWidgetFrame>> = {}) {
+  const onMove = vi.fn();
+  const onRemove = vi.fn();
+  const result = render(
+    <DashboardWidgetFrame
+      widget={widget}
+      position={1}
+      count={3}
+      isEditing={false}
+      onMove={onMove}
+      onRemove={onRemove}
+      {...props}
+    />
+  );
+  return { ...result, onMove, onRemove };
+}
+
+describe('DashboardWidgetFrame', () => {
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should render the widget without edit controls', () => {
+    renderFrame();
+
+    expect(screen.getByText('Clock content')).toBeInTheDocument();
+    expect(screen.queryByRole('group', { name: 'Clock widget' })).not.toBeInTheDocument();
+  });
+
+  it('should contain widget errors', () => {
+    render(
+      <>
+        <DashboardWidgetFrame
+          widget={failingWidget}
+          position={0}
+          count={2}
+          isEditing={false}
+          onMove={vi.fn()}
+          onRemove={vi.fn()}
+        />
+        <DashboardWidgetFrame
+          widget={widget}
+          position={1}
+          count={2}
+          isEditing={false}
+          onMove={vi.fn()}
+          onRemove={vi.fn()}
+        />
+      </>
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Broken could not be displayed.');
+    expect(screen.getByText('Clock content')).toBeInTheDocument();
+  });
+
+  it('should move and remove the widget while editing', async () => {
+    const user = userEvent.setup();
+    const { onMove, onRemove } = renderFrame({ isEditing: true });
+
+    await user.click(screen.getByRole('button', { name: 'Move Clock up' }));
+    expect(onMove).toHaveBeenLastCalledWith(-1);
+
+    await user.click(screen.getByRole('button', { name: 'Move Clock down' }));
+    expect(onMove).toHaveBeenLastCalledWith(1);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Clock' }));
+    expect(onRemove).toHaveBeenCalled();
+  });
+
+  it('should disable moves past the ends of the layout', () => {
+    const { rerender } = renderFrame({ isEditing: true, position: 0 });
+
+    expect(screen.getByRole('button', { name: 'Move Clock up' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Move Clock down' })).toBeEnabled();
+
+    rerender(
+      <DashboardWidgetFrame
+        widget={widget}
+        position={2}
+        count={3}
+        isEditing
+        onMove={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Move Clock up' })).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Move Clock down' })).toBeDisabled();
+  });
+
+  it('should focus the requested move control', () => {
+    renderFrame({ isEditing: true, focusTarget: 'down' });
+
+    expect(screen.getByRole('button', { name: 'Move Clock down' })).toHaveFocus();
+  });
+
+  it('should focus the other move control at an end of the layout', () => {
+    renderFrame({ isEditing: true, position: 0, focusTarget: 'up' });
+
+    expect(screen.getByRole('button', { name: 'Move Clock down' })).toHaveFocus();
+  });
+});
@@ -0,0 +1,136 @@
+'use client';
+
+import * as React from 'react';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { FeatureErrorBoundary } from '@/components/errors';
+import { cn } from '@/lib/utils';
+import type { DashboardWidgetDefinition } from './widgetRegistry';
+
+/**
+ * Edit control that should receive focus after a layout change
+ */
+export type WidgetFocusTarget = 'up' | 'down';
+
+interface DashboardWidgetFrameProps {
+  widget: DashboardWidgetDefinition;
+  /** Zero-based position of the widget in the layout */
+  position: number;
+  /** Number of widgets in the layout */
+  count: number;
+  /** Whether the edit controls are shown */
+  isEditing: boolean;
+  /** Move the widget by offset positions */
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+  /** Edit control to focus, e.g. after the widget was moved */
+  focusTarget?: WidgetFocusTarget | null;
+}
+
+/**
+ * Fallback shown when a widget throws while rendering
+ */
+function WidgetErrorFallback({ title }: { title: string }) {
+  return (
+    <Card role="alert">
+      <CardContent className="py-6 text-sm text-muted-foreground">
+        {title} could not be displayed. Reload the page to try again.
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * DashboardWidgetFrame Component
+ *
+ * Places a registered widget on the dashboard grid inside its own
+ * FeatureErrorBoundary, so one failing widget does not blank the page.
+ * While editing, adds keyboard-accessible controls to move the widget
+ * up or down and remove it.
+ */
+export function DashboardWidgetFrame({
+  widget,
+  position,
+  count,
+  isEditing,
+  onMove,
+  onRemove,
+  focusTarget,
+}: DashboardWidgetFrameProps) {
+  const upRef = React.useRef<HTMLButtonElement>(null);
+  const downRef = React.useRef<HTMLButtonElement>(null);
+  const { id, title, fullWidth, component: Widget } = widget;
+  const isFirst = position === 0;
+  const isLast = position === count - 1;
+
+  // Keep focus on the move controls as the widget changes place; when it
+  // reaches an end of the layout, focus the control that can still move it
+  React.useEffect(() => {
+    if (!focusTarget) {
+      return;
+    }
+    const preferred = focusTarget === 'up' ? upRef.current : downRef.current;
+    const other = focusTarget === 'up' ? downRef.current : upRef.current;
+    (preferred && !preferred.disabled ? preferred : other)?.focus();
+  }, [focusTarget, position]);
+
+  return (
+    <div
+      className={cn('space-y-2', fullWidth && 'md:col-span-2 lg:col-span-3')}
+      data-widget-id={id}
+    >
+      {isEditing && (
+        <div
+          role="group"
+          aria-label={`${title} widget`}
+          className="flex items-center justify-between gap-2 rounded-md border border-dashed border-primary/50 px-3 py-1.5"
+        >
+          <span className="truncate text-sm font-medium">{title}</span>
+          <div className="flex items-center gap-1">
+            <Button
+              ref={upRef}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              aria-label={`Move ${title} up`}
+              disabled={isFirst}
+              onClick={() => onMove(-1)}
+            >
+              <ArrowUp className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <Button
+              ref={downRef}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              aria-label={`Move ${title} down`}
+              disabled={isLast}
+              onClick={() => onMove(1)}
+            >
+              <ArrowDown className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              aria-label={`Remove ${title}`}
+              onClick={onRemove}
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </div>
+        </div>
+      )}
+      <FeatureErrorBoundary
+        featureName={`Dashboard widget: ${title}`}
+        fallback={<WidgetErrorFallback title={title} />}
+      >
+        <Widget />
+      </FeatureErrorBoundary>
+    </div>
+  );
+}
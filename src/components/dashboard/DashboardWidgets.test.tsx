@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DashboardWidgets } from './DashboardWidgets';
+import { getUserId } from '@/lib/auth/role';
+import { getLayoutStorageKey } from '@/lib/dashboard/widgetLayout';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+// Replace the real widgets (which fetch data) with static ones
+vi.mock('./widgetRegistry', () => {
+  const widgets = [
+    { id: 'alpha', title: 'Alpha', description: 'First widget' },
+    { id: 'beta', title: 'Beta', description: 'Second widget' },
+    { id: 'gamma', title: 'Gamma', description: 'Third widget' },
+    {
+      id: 'admin',
+      title: 'Admin Panel',
+      description: 'Admins only',
+      permission: 'source:view-health',
+    },
+  ].map((widget) => ({ ...widget, component: () => <p>{widget.title} content</p> }));
+
+  const getAvailableWidgets = (role: string | null) =>
+    widgets.filter((widget) => !widget.permission || role === 'admin');
+
+  return {
+    DASHBOARD_WIDGETS: widgets,
+    DASHBOARD_WIDGET_IDS: widgets.map(({ id }) => id),
+    getAvailableWidgets,
+    getDefaultDashboardLayout: () => ['alpha', 'beta', 'admin'],
+  };
+});
+
+const storageKey = getLayoutStorageKey('user-1');
+
+/**
+ * IDs of the widgets on the dashboard, in order
+ */
+const shownWidgets = () =>
+  Array.from(document.querySelectorAll('[data-widget-id]')).map((element) =>
+    element.getAttribute('data-widget-id')
+  );
+
+describe('DashboardWidgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  it('should show the default layout', async () => {
+    render(<DashboardWidgets role="user" />);
+
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    });
+    expect(screen.getByText('Alpha content')).toBeInTheDocument();
+  });
+
+  it('should show admin-only widgets to admins only', async () => {
+    const { rerender } = render(<DashboardWidgets role="admin" />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta', 'admin']);
+    });
+
+    rerender(<DashboardWidgets role="user" />);
+    expect(shownWidgets()).toEqual(['alpha', 'beta']);
+  });
+
+  it('should keep widgets the role cannot see yet in the saved layout', async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(storageKey, JSON.stringify(['admin', 'alpha', 'beta']));
+
+    // The role is still loading: admin-only widgets are not shown
+    const { rerender } = render(<DashboardWidgets role={null} />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    await user.click(screen.getByRole('button', { name: 'Move Beta up' }));
+    await user.click(screen.getByRole('button', { name: 'Add Gamma' }));
+
+    expect(localStorage.getItem(storageKey)).toBe('["admin","beta","alpha","gamma"]');
+    expect(screen.getByRole('status')).toHaveTextContent('Gamma added');
+
+    rerender(<DashboardWidgets role="admin" />);
+    expect(shownWidgets()).toEqual(['admin', 'beta', 'alpha', 'gamma']);
+  });
+
+  it('should keep admin-only widgets in the default layout before the role is known', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<DashboardWidgets role={null} />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    await user.click(screen.getByRole('button', { name: 'Move Beta up' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Beta moved to position 1 of 2');
+    rerender(<DashboardWidgets role="admin" />);
+    expect(shownWidgets()).toEqual(['beta', 'alpha', 'admin']);
+  });
+
+  it("should show the user's saved layout", async () => {
+    localStorage.setItem(storageKey, JSON.stringify(['gamma', 'alpha']));
+
+    render(<DashboardWidgets role="user" />);
+
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['gamma', 'alpha']);
+    });
+  });
+
+  it('should reorder widgets from the keyboard and keep focus on the moved widget', async () => {
+    const user = userEvent.setup();
+    render(<DashboardWidgets role="user" />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    screen.getByRole('button', { name: 'Move Beta up' }).focus();
+    await user.keyboard('{Enter}');
+
+    expect(shownWidgets()).toEqual(['beta', 'alpha']);
+    expect(localStorage.getItem(storageKey)).toBe('["beta","alpha","admin"]');
+    expect(screen.getByRole('button', { name: 'Move Beta down' })).toHaveFocus();
+    expect(screen.getByRole('status')).toHaveTextContent('Beta moved to position 1 of 2');
+  });
+
+  it('should add and remove widgets', async () => {
+    const user = userEvent.setup();
+    render(<DashboardWidgets role="user" />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    expect(screen.queryByRole('button', { name: 'Add Alpha' })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Add Gamma' }));
+    expect(shownWidgets()).toEqual(['alpha', 'beta', 'gamma']);
+    expect(screen.getByText('Every widget is on your dashboard.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Remove Alpha' }));
+    expect(shownWidgets()).toEqual(['beta', 'gamma']);
+    expect(screen.getByRole('status')).toHaveTextContent('Alpha removed');
+    expect(screen.getByRole('button', { name: 'Add Alpha' })).toBeInTheDocument();
+    expect(localStorage.getItem(storageKey)).toBe('["beta","admin","gamma"]');
+  });
+
+  it('should reset a customized layout', async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(storageKey, JSON.stringify(['gamma']));
+    render(<DashboardWidgets role="user" />);
+    await waitFor(() => {
+      expect(shownWidgets()).toEqual(['gamma']);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    await user.click(screen.getByRole('button', { name: 'Reset layout' }));
+
+    expect(shownWidgets()).toEqual(['alpha', 'beta']);
+    expect(localStorage.getItem(storageKey)).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Reset layout' })).not.toBeInTheDocument();
+  });
+
+  it('should hide the edit controls when done', async () => {
+    const user = userEvent.setup();
+    render(<DashboardWidgets role="user" />);
+
+    await user.click(screen.getByRole('button', { name: 'Customize' }));
+    expect(screen.getByRole('button', { name: 'Done' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('group', { name: 'Alpha widget' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(screen.queryByRole('group', { name: 'Alpha widget' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Add widgets')).not.toBeInTheDocument();
+  });
+
+  it('should explain an empty dashboard', async () => {
+    localStorage.setItem(storageKey, JSON.stringify([]));
+
+    render(<DashboardWidgets role="user" />);
+
+    expect(
+      await screen.findByText('Your dashboard is empty. Use Customize to add widgets.')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,172 @@
+'use client';
+
+import * as React from 'react';
+import { Plus, RotateCcw, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardWidgetFrame, type WidgetFocusTarget } from './DashboardWidgetFrame';
+import {
+  DASHBOARD_WIDGET_IDS,
+  getAvailableWidgets,
+  getDefaultDashboardLayout,
+} from './widgetRegistry';
+import { useDashboardLayout } from '@/hooks/useDashboardLayout';
+import { addWidget, moveWidget, removeWidget } from '@/lib/dashboard/widgetLayout';
+import type { UserRole } from '@/lib/auth/role';
+
+interface DashboardWidgetsProps {
+  /** Current user role; admin-only widgets are hidden from other roles */
+  role: UserRole;
+}
+
+/**
+ * DashboardWidgets Component
+ *
+ * Renders the current user's dashboard layout and the controls to customize
+ * it: add widgets that are not shown, remove and reorder the ones that are,
+ * or go back to the default layout. Every control is a button, so the layout
+ * can be changed from the keyboard, and changes are announced to screen
+ * readers.
+ */
+export function DashboardWidgets({ role }: DashboardWidgetsProps) {
+  const availableWidgets = getAvailableWidgets(role);
+  const { layout, isLoaded, isCustomized, setLayout, resetLayout } = useDashboardLayout(
+    DASHBOARD_WIDGET_IDS,
+    getDefaultDashboardLayout()
+  );
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [announcement, setAnnouncement] = React.useState('');
+  const [focusRequest, setFocusRequest] = React.useState<{
+    id: string;
+    target: WidgetFocusTarget;
+  } | null>(null);
+  const customizeButtonRef = React.useRef<HTMLButtonElement>(null);
+
+  // Widgets the role cannot see (or cannot see yet, while the role is loading)
+  // are left out here but kept in the saved layout
+  const shownWidgets = layout.flatMap((id) => {
+    const widget = availableWidgets.find((available) => available.id === id);
+    return widget ? [widget] : [];
+  });
+  const shownLayout = shownWidgets.map(({ id }) => id);
+  const hiddenWidgets = availableWidgets.filter(({ id }) => !shownLayout.includes(id));
+
+  const handleMove = (id: string, title: string, offset: number) => {
+    const next = moveWidget(layout, id, offset, shownLayout);
+    const position = next.filter((widgetId) => shownLayout.includes(widgetId)).indexOf(id);
+    setLayout(next);
+    setFocusRequest({ id, target: offset < 0 ? 'up' : 'down' });
+    setAnnouncement(`${title} moved to position ${position + 1} of ${shownLayout.length}`);
+  };
+
+  const handleRemove = (id: string, title: string) => {
+    setLayout(removeWidget(layout, id));
+    setAnnouncement(`${title} removed`);
+    customizeButtonRef.current?.focus();
+  };
+
+  const handleAdd = (id: string, title: string) => {
+    setLayout(addWidget(layout, id));
+    setAnnouncement(`${title} added`);
+  };
+
+  const handleReset = () => {
+    resetLayout();
+    setAnnouncement('Dashboard layout reset');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isEditing && isCustomized && (
+          <Button type="button" variant="ghost" size="sm" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+            Reset layout
+          </Button>
+        )}
+        <Button
+          ref={customizeButtonRef}
+          type="button"
+          variant={isEditing ? 'default' : 'outline'}
+          size="sm"
+          aria-pressed={isEditing}
+          onClick={() => {
+            setIsEditing((value) => !value);
+            setFocusRequest(null);
+          }}
+        >
+          <Settings2 className="h-4 w-4" aria-hidden="true" />
+          {isEditing ? 'Done' : 'Customize'}
+        </Button>
+      </div>
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {isEditing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add widgets</CardTitle>
+            <CardDescription>
+              Use the controls above each widget to move or remove it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {hiddenWidgets.length > 0 ? (
+              <ul className="grid gap-2 md:grid-cols-2" aria-label="Available widgets">
+                {hiddenWidgets.map(({ id, title, description }) => (
+                  <li
+                    key={id}
+                    className="flex items-center justify-between gap-2 rounded-md border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{title}</p>
+                      <p className="text-xs text-muted-foreground">{description}</p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      aria-label={`Add ${title}`}
+                      onClick={() => handleAdd(id, title)}
+                    >
+                      <Plus className="h-4 w-4" aria-hidden="true" />
+                      Add
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Every widget is on your dashboard.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoaded &&
+        (shownWidgets.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {shownWidgets.map((widget, index) => (
+              <DashboardWidgetFrame
+                key={widget.id}
+                widget={widget}
+                position={index}
+                count={shownWidgets.length}
+                isEditing={isEditing}
+                onMove={(offset) => handleMove(widget.id, widget.title, offset)}
+                onRemove={() => handleRemove(widget.id, widget.title)}
+                focusTarget={focusRequest?.id === widget.id ? focusRequest.target : null}
+              />
+            ))}
+          </div>
+        ) : (
+          !isEditing && (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              Your dashboard is empty. Use Customize to add widgets.
+            </p>
+          )
+        ))}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
+'use client';
+
 import * as React from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { useReadState } from '@/hooks/useReadState';
 import type { Article } from '@/types/api';
 
 interface RecentArticlesListProps {
@@ -65,6 +68,8 @@ export function RecentArticlesList({
   isLoading = false,
   className,
 }: RecentArticlesListProps) {
+  const { isRead } = useReadState();
+
   return (
     <Card className={cn('', className)}>
       <CardHeader>
@@ -82,27 +87,43 @@ export function RecentArticlesList({
           <EmptyState />
         ) : (
           <div className="space-y-4">
-            {articles.map((article) => (
-              <Link
-                key={article.id}
-                href={`/articles/${article.id}`}
-                className="group block rounded-lg border p-4 transition-colors hover:border-primary hover:bg-accent"
-              >
-                <h3 className="mb-1 font-semibold text-foreground group-hover:text-primary">
-                  {article.title}
-                </h3>
-                {article.summary && (
-                  <p className="mb-2 text-sm text-muted-foreground">
-                    {truncateText(article.summary, 150)}
-                  </p>
-                )}
-                <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                  <time dateTime={article.published_at}>
-                    {formatRelativeTime(article.published_at)}
-                  </time>
-                </div>
-              </Link>
-            ))}
+            {articles.map((article) => {
+              const read = isRead(article.id);
+              return (
+                <Link
+                  key={article.id}
+                  href={`/articles/${article.id}`}
+                  className="group block rounded-lg border p-4 transition-colors hover:border-primary hover:bg-accent"
+                  data-read={read}
+                >
+                  <h3
+                    className={cn(
+                      'mb-1 flex items-start gap-2 font-semibold group-hover:text-primary',
+                      read ? 'text-muted-foreground' : 'text-foreground'
+                    )}
+                  >
+                    {!read && (
+                      <span
+                        className="mt-2 h-2 w-2 shrink-0 rounded-full bg-primary"
+                        role="img"
+                        aria-label="Unread"
+                      />
+                    )}
+                    {article.title}
+                  </h3>
+                  {article.summary && (
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      {truncateText(article.summary, 150)}
+                    </p>
+                  )}
+                  <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                    <time dateTime={article.published_at}>
+                      {formatRelativeTime(article.published_at)}
+                    </time>
+                  </div>
+                </Link>
+              );
+            })}
           </div>
         )}
       </CardContent>
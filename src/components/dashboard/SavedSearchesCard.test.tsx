@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SavedSearchesCard } from './SavedSearchesCard';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { getUserId } from '@/lib/auth/role';
+import { getSavedSearchesStorageKey, type SavedSearch } from '@/lib/search/savedSearches';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+vi.mock('@/hooks/useArticleSearch', () => ({
+  useArticleSearch: vi.fn(),
+}));
+
+const search: SavedSearch = {
+  id: 'a',
+  name: 'React news',
+  state: { keyword: 'react', sourceId: 2, fromDate: null, toDate: null },
+  createdAt: '2026-10-01T00:00:00.000Z',
+  lastViewedAt: '2026-10-18T08:30:00.000Z',
+};
+
+describe('SavedSearchesCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+    vi.mocked(useArticleSearch).mockReturnValue({
+      articles: [],
+      pagination: { page: 1, limit: 1, total: 1, totalPages: 1 },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+  });
+
+  it('should link to each saved search with its new article count', () => {
+    localStorage.setItem(getSavedSearchesStorageKey('user-1'), JSON.stringify([search]));
+
+    render(<SavedSearchesCard />);
+
+    const list = screen.getByRole('list', { name: 'Saved searches' });
+    expect(within(list).getByRole('link', { name: 'React news' })).toHaveAttribute(
+      'href',
+      '/articles?keyword=react&source_id=2'
+    );
+    expect(within(list).getByLabelText('1 new article since last visit')).toBeInTheDocument();
+  });
+
+  it('should mark a search viewed when it is opened', async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(getSavedSearchesStorageKey('user-1'), JSON.stringify([search]));
+    render(<SavedSearchesCard />);
+
+    const link = screen.getByRole('link', { name: 'React news' });
+    link.addEventListener('click', (event) => event.preventDefault());
+    await user.click(link);
+
+    const [stored] = JSON.parse(localStorage.getItem(getSavedSearchesStorageKey('user-1'))!);
+    expect(stored.lastViewedAt).not.toBe(search.lastViewedAt);
+  });
+
+  it('should point to the articles page when nothing is saved', () => {
+    render(<SavedSearchesCard />);
+
+    expect(screen.getByText(/No saved searches yet/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Search articles' })).toHaveAttribute(
+      'href',
+      '/articles'
+    );
+  });
+});
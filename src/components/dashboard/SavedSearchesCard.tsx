@@ -0,0 +1,58 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SavedSearchNewCount } from '@/components/search/SavedSearchNewCount';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { getSavedSearchHref } from '@/lib/search/savedSearches';
+import { cn } from '@/lib/utils';
+
+interface SavedSearchesCardProps {
+  className?: string;
+}
+
+/**
+ * SavedSearchesCard Component
+ *
+ * Dashboard card listing the user's saved searches with the number of
+ * articles new since each was last viewed. Opening a search marks it viewed.
+ */
+export function SavedSearchesCard({ className }: SavedSearchesCardProps) {
+  const { savedSearches, markViewed } = useSavedSearches();
+
+  return (
+    <Card className={cn('', className)}>
+      <CardHeader>
+        <CardTitle>Saved Searches</CardTitle>
+        <CardDescription>New articles since your last visit</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {savedSearches.length > 0 ? (
+          <ul className="space-y-2 text-sm" aria-label="Saved searches">
+            {savedSearches.map((search) => (
+              <li key={search.id} className="flex items-center justify-between gap-2">
+                <Link
+                  href={getSavedSearchHref(search.state)}
+                  className="truncate underline-offset-4 hover:text-primary hover:underline"
+                  onClick={() => markViewed(search.id)}
+                >
+                  {search.name}
+                </Link>
+                <SavedSearchNewCount search={search} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No saved searches yet.{' '}
+            <Link href="/articles" className="text-primary underline-offset-4 hover:underline">
+              Search articles
+            </Link>{' '}
+            and save the ones you run often.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
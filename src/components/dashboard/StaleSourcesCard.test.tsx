@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { StaleSourcesCard } from './StaleSourcesCard';
+import * as useSourceHealthModule from '@/hooks/useSourceHealth';
+import type { SourceHealthEntry } from '@/hooks/useSourceHealth';
+import type { SourceHealthStatus } from '@/utils/sourceHealth';
+
+vi.mock('@/hooks/useSourceHealth', () => ({
+  useSourceHealth: vi.fn(),
+}));
+
+const createEntry = (id: number, name: string, status: SourceHealthStatus): SourceHealthEntry => ({
+  source: { id, name, feed_url: `https://example.com/${id}`, active: true },
+  health: { status, staleReasons: status === 'stale' ? ['crawl'] : [] },
+  activity: null,
+  isLoadingActivity: false,
+});
+
+function mockHealth(entries: SourceHealthEntry[], isLoading = false) {
+  vi.mocked(useSourceHealthModule.useSourceHealth).mockReturnValue({
+    entries,
+    counts: { healthy: 0, stale: 0, 'never-crawled': 0 },
+    isLoading,
+    isLoadingActivity: false,
+    error: null,
+    refetch: vi.fn(),
+  });
+}
+
+describe('StaleSourcesCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should count and list sources needing attention', () => {
+    mockHealth([
+      createEntry(1, 'New Source', 'never-crawled'),
+      createEntry(2, 'Dead Feed', 'stale'),
+      createEntry(3, 'Old Blog', 'stale'),
+      createEntry(4, 'Quiet Site', 'stale'),
+      createEntry(5, 'Healthy Blog', 'healthy'),
+    ]);
+
+    render(<StaleSourcesCard />);
+
+    expect(screen.getByText('Stale Sources')).toBeInTheDocument();
+    expect(screen.getByText('4')).toBeInTheDocument();
+
+    const items = within(
+      screen.getByRole('list', { name: 'Sources needing attention' })
+    ).getAllByRole('listitem');
+    expect(items.map((item) => item.textContent)).toEqual([
+      'New SourceNever crawled',
+      'Dead FeedStale',
+      'Old BlogStale',
+    ]);
+    expect(screen.getByRole('link', { name: 'View source health' })).toHaveAttribute(
+      'href',
+      '/sources/health'
+    );
+  });
+
+  it('should report when every source is healthy', () => {
+    mockHealth([createEntry(1, 'Healthy Blog', 'healthy')]);
+
+    render(<StaleSourcesCard />);
+
+    expect(screen.getByText('0')).toBeInTheDocument();
+    expect(screen.getByText('All sources are healthy')).toBeInTheDocument();
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('should show a skeleton while loading', () => {
+    mockHealth([], true);
+
+    const { container } = render(<StaleSourcesCard />);
+
+    expect(container.querySelector('.animate-pulse')).toBeInTheDocument();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,65 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SourceHealthBadge } from '@/components/sources/SourceHealthBadge';
+import { useSourceHealth } from '@/hooks/useSourceHealth';
+import { cn } from '@/lib/utils';
+
+interface StaleSourcesCardProps {
+  /** Maximum number of sources listed (default: 3) */
+  maxListed?: number;
+  className?: string;
+}
+
+/**
+ * StaleSourcesCard Component
+ *
+ * Dashboard card counting stale and never-crawled sources, listing the ones
+ * needing attention first and linking to the source health page.
+ */
+export function StaleSourcesCard({ maxListed = 3, className }: StaleSourcesCardProps) {
+  const { entries, isLoading } = useSourceHealth();
+  const unhealthy = entries.filter(({ health }) => health.status !== 'healthy');
+
+  return (
+    <Card className={cn('', className)}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Stale Sources</CardTitle>
+        <div className="flex h-8 w-8 items-center justify-center rounded-lg border border-primary/30 bg-primary/10 text-primary">
+          <AlertTriangle className="h-4 w-4" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-8 w-24" />
+        ) : (
+          <>
+            <div className="text-glow-sm text-2xl font-bold text-primary">{unhealthy.length}</div>
+            {unhealthy.length > 0 ? (
+              <ul className="mt-3 space-y-1 text-sm" aria-label="Sources needing attention">
+                {unhealthy.slice(0, maxListed).map(({ source, health }) => (
+                  <li key={source.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{source.name}</span>
+                    <SourceHealthBadge status={health.status} />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-3 text-sm text-muted-foreground">All sources are healthy</p>
+            )}
+            <Link
+              href="/sources/health"
+              className="mt-3 inline-block text-sm text-primary underline-offset-4 hover:underline"
+            >
+              View source health
+            </Link>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_IDS,
+  getAvailableWidgets,
+  getDefaultDashboardLayout,
+} from './widgetRegistry';
+
+describe('widgetRegistry', () => {
+  it('should register every widget once', () => {
+    expect(new Set(DASHBOARD_WIDGET_IDS).size).toBe(DASHBOARD_WIDGETS.length);
+    expect(DASHBOARD_WIDGET_IDS).toEqual(
+      expect.arrayContaining([
+        'total-articles',
+        'total-sources',
+        'source-health',
+        'saved-searches',
+        'ingestion-analytics',
+        'recent-articles',
+      ])
+    );
+  });
+
+  it('should offer the source health widget to admins only', () => {
+    expect(getAvailableWidgets('admin').map(({ id }) => id)).toContain('source-health');
+    expect(getAvailableWidgets('user').map(({ id }) => id)).not.toContain('source-health');
+    expect(getAvailableWidgets(null).map(({ id }) => id)).not.toContain('source-health');
+  });
+
+  it('should list every widget in the default layout', () => {
+    expect(getDefaultDashboardLayout()).toEqual(DASHBOARD_WIDGET_IDS);
+  });
+});
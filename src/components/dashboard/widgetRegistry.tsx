@@ -0,0 +1,140 @@
+'use client';
+
+import * as React from 'react';
+import { FileText, Rss } from 'lucide-react';
+import { StatisticsCard } from './StatisticsCard';
+import { RecentArticlesList } from './RecentArticlesList';
+import { StaleSourcesCard } from './StaleSourcesCard';
+import { ArticleAnalyticsSection } from './ArticleAnalyticsSection';
+import { SavedSearchesCard } from './SavedSearchesCard';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
+import type { DashboardLayout } from '@/lib/dashboard/widgetLayout';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
+import type { UserRole } from '@/lib/auth/role';
+
+/**
+ * A widget that can be placed on the dashboard
+ */
+export interface DashboardWidgetDefinition {
+  /** Stable ID, persisted in user layouts */
+  id: string;
+  /** Name shown in the customization controls */
+  title: string;
+  /** Short description shown when adding the widget */
+  description: string;
+  /** Whether the widget takes a full row instead of a grid cell */
+  fullWidth?: boolean;
+  /** Permission needed to add and see the widget */
+  permission?: Permission;
+  /** Widget content; fetches its own data */
+  component: React.ComponentType;
+}
+
+function TotalArticlesWidget() {
+  const { stats, isLoading, error } = useDashboardStats();
+  return (
+    <StatisticsCard
+      title="Total Articles"
+      value={error ? '—' : stats.totalArticles}
+      icon={<FileText className="h-4 w-4" />}
+      isLoading={isLoading}
+    />
+  );
+}
+
+function TotalSourcesWidget() {
+  const { stats, isLoading, error } = useDashboardStats();
+  return (
+    <StatisticsCard
+      title="Total Sources"
+      value={error ? '—' : stats.totalSources}
+      icon={<Rss className="h-4 w-4" />}
+      isLoading={isLoading}
+    />
+  );
+}
+
+function RecentArticlesWidget() {
+  const { stats, isLoading, error } = useDashboardStats();
+  return (
+    <div className="space-y-4">
+      {error && <ErrorMessage error={error} onRetry={() => window.location.reload()} />}
+      <RecentArticlesList articles={stats.recentArticles} isLoading={isLoading} />
+    </div>
+  );
+}
+
+/**
+ * Registered dashboard widgets, in default layout order
+ */
+export const DASHBOARD_WIDGETS: readonly DashboardWidgetDefinition[] = [
+  {
+    id: 'total-articles',
+    title: 'Total Articles',
+    description: 'Number of articles across all sources',
+    component: TotalArticlesWidget,
+  },
+  {
+    id: 'total-sources',
+    title: 'Total Sources',
+    description: 'Number of registered sources',
+    component: TotalSourcesWidget,
+  },
+  {
+    id: 'source-health',
+    title: 'Stale Sources',
+    description: 'Sources that stopped crawling or publishing',
+    permission: 'source:view-health',
+    component: StaleSourcesCard,
+  },
+  {
+    id: 'saved-searches',
+    title: 'Saved Searches',
+    description: 'Saved searches with their new articles since your last visit',
+    component: SavedSearchesCard,
+  },
+  {
+    id: 'ingestion-analytics',
+    title: 'Ingestion Analytics',
+    description: 'Articles per day and per source over 7, 30 or 90 days',
+    fullWidth: true,
+    component: ArticleAnalyticsSection,
+  },
+  {
+    id: 'recent-articles',
+    title: 'Recent Articles',
+    description: 'Latest articles from your sources',
+    fullWidth: true,
+    component: RecentArticlesWidget,
+  },
+];
+
+/**
+ * IDs of every registered widget
+ */
+export const DASHBOARD_WIDGET_IDS: readonly string[] = DASHBOARD_WIDGETS.map(({ id }) => id);
+
+/**
+ * Get the widgets available to a role
+ *
+ * @param role - Current user role
+ * @returns Widgets the role can add and see, in registry order
+ */
+export function getAvailableWidgets(role: UserRole): DashboardWidgetDefinition[] {
+  return DASHBOARD_WIDGETS.filter(
+    (widget) => !widget.permission || hasPermission(role, widget.permission)
+  );
+}
+
+/**
+ * Get the layout shown until a user customizes the dashboard
+ *
+ * Lists every registered widget; widgets the role cannot see are filtered out
+ * when rendering, so the layout does not depend on the role being known.
+ *
+ * @returns Every registered widget
+ */
+export function getDefaultDashboardLayout(): DashboardLayout {
+  return DASHBOARD_WIDGET_IDS;
+}
@@ -18,6 +18,7 @@ interface HeaderProps {
 const mainNavigation = [
   { name: 'Dashboard', href: '/dashboard' },
   { name: 'Articles', href: '/articles' },
+  { name: 'Bookmarks', href: '/bookmarks' },
   { name: 'Sources', href: '/sources' },
 ];
 
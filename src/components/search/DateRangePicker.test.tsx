@@ -30,13 +30,13 @@ describe('DateRangePicker', () => {
       expect(screen.getByLabelText('To')).toBeInTheDocument();
     });
 
-    it('should render quick range buttons', () => {
+    it('should render preset buttons', () => {
       render(<DateRangePicker fromDate={null} toDate={null} onChange={vi.fn()} />);
 
-      expect(screen.getByRole('button', { name: 'Last 7 Days' })).toBeInTheDocument();
-      expect(screen.getByRole('button', { name: 'Last 30 Days' })).toBeInTheDocument();
-      expect(screen.getByRole('button', { name: 'This Year' })).toBeInTheDocument();
-      expect(screen.queryByRole('button', { name: 'Today' })).not.toBeInTheDocument();
+      const presets = screen.getByRole('group', { name: 'Date range presets' });
+      expect(
+        Array.from(presets.querySelectorAll('button'), (button) => button.textContent)
+      ).toEqual(['Today', 'Since Yesterday', 'Last 7 Days', 'This Month', 'Custom']);
     });
 
     it('should show Clear button when dates are set', () => {
@@ -101,32 +101,53 @@ describe('DateRangePicker', () => {
     });
   });
 
-  describe('Quick Range Buttons', () => {
-    it('should set Last 7 Days range', () => {
+  describe('Presets', () => {
+    it.each([
+      ['Today', 'today', 'today'],
+      ['Since Yesterday', '-1d', 'today'],
+      ['Last 7 Days', '-7d', 'today'],
+      ['This Month', 'month-start', 'today'],
+    ])('should set the %s range as relative dates', (name, from, to) => {
       const onChange = vi.fn();
       render(<DateRangePicker fromDate={null} toDate={null} onChange={onChange} />);
 
-      fireEvent.click(screen.getByRole('button', { name: 'Last 7 Days' }));
+      fireEvent.click(screen.getByRole('button', { name }));
 
-      expect(onChange).toHaveBeenCalledWith('2025-01-08', '2025-01-15');
+      expect(onChange).toHaveBeenCalledWith(from, to);
     });
 
-    it('should set Last 30 Days range', () => {
-      const onChange = vi.fn();
-      render(<DateRangePicker fromDate={null} toDate={null} onChange={onChange} />);
+    it('should mark the active preset and show its dates', () => {
+      render(<DateRangePicker fromDate="-7d" toDate="today" onChange={vi.fn()} />);
 
-      fireEvent.click(screen.getByRole('button', { name: 'Last 30 Days' }));
+      expect(screen.getByRole('button', { name: 'Last 7 Days' })).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+      expect(screen.getByRole('button', { name: 'Custom' })).toHaveAttribute(
+        'aria-pressed',
+        'false'
+      );
+      expect(screen.getByLabelText('From')).toHaveValue('2025-01-08');
+      expect(screen.getByLabelText('To')).toHaveValue('2025-01-15');
+    });
 
-      expect(onChange).toHaveBeenCalledWith('2024-12-16', '2025-01-15');
+    it('should mark absolute ranges as custom', () => {
+      render(<DateRangePicker fromDate="2025-01-01" toDate={null} onChange={vi.fn()} />);
+
+      expect(screen.getByRole('button', { name: 'Custom' })).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
     });
 
-    it('should set This Year range', () => {
+    it('should pin a preset to its dates when switching to Custom', () => {
       const onChange = vi.fn();
-      render(<DateRangePicker fromDate={null} toDate={null} onChange={onChange} />);
+      render(<DateRangePicker fromDate="month-start" toDate="today" onChange={onChange} />);
 
-      fireEvent.click(screen.getByRole('button', { name: 'This Year' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Custom' }));
 
-      expect(onChange).toHaveBeenCalledWith('2024-01-15', '2025-01-15');
+      expect(onChange).toHaveBeenCalledWith('2025-01-01', '2025-01-15');
+      expect(screen.getByLabelText('From')).toHaveFocus();
     });
   });
 
@@ -185,6 +206,30 @@ describe('DateRangePicker', () => {
       expect(onChange).toHaveBeenCalledWith('2025-01-15', '2025-01-15');
     });
 
+    it('should show error for future dates', () => {
+      const onChange = vi.fn();
+      render(<DateRangePicker fromDate={null} toDate={null} onChange={onChange} />);
+
+      changeDateInput('To', '2025-01-16');
+
+      expect(screen.getByRole('alert')).toHaveTextContent('End date cannot be in the future');
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should show error for invalid ranges from the URL', () => {
+      render(<DateRangePicker fromDate="2025-02-01" toDate={null} onChange={vi.fn()} />);
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Start date cannot be in the future');
+      expect(screen.getByLabelText('From')).toHaveAttribute('aria-invalid', 'true');
+    });
+
+    it('should not allow picking future dates', () => {
+      render(<DateRangePicker fromDate={null} toDate={null} onChange={vi.fn()} />);
+
+      expect(screen.getByLabelText('From')).toHaveAttribute('max', '2025-01-15');
+      expect(screen.getByLabelText('To')).toHaveAttribute('max', '2025-01-15');
+    });
+
     it('should clear error when setting valid dates via quick range', () => {
       const onChange = vi.fn();
       render(<DateRangePicker fromDate="2025-01-15" toDate={null} onChange={onChange} />);
@@ -217,9 +262,9 @@ describe('DateRangePicker', () => {
         />
       );
 
+      expect(screen.getByRole('button', { name: 'Today' })).toBeDisabled();
       expect(screen.getByRole('button', { name: 'Last 7 Days' })).toBeDisabled();
-      expect(screen.getByRole('button', { name: 'Last 30 Days' })).toBeDisabled();
-      expect(screen.getByRole('button', { name: 'This Year' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Custom' })).toBeDisabled();
       expect(screen.getByRole('button', { name: 'Clear' })).toBeDisabled();
     });
 
@@ -1,7 +1,8 @@
 /**
  * DateRangePicker Component
  *
- * Date range selection with from/to inputs and quick range presets.
+ * Date range selection with from/to inputs and range presets.
+ * Presets are kept as relative tokens (e.g. `-7d`), resolved when searching.
  * Used for filtering articles by date range.
  */
 
@@ -12,11 +13,20 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import {
+  DATE_RANGE_PRESETS,
+  formatDateToISO,
+  getDateRangePreset,
+  isRelativeDateValue,
+  resolveDateRangeValue,
+  validateDateRange,
+  type DateRangePreset,
+} from '@/lib/search/dateRange';
 
 export interface DateRangePickerProps {
-  /** Start date (YYYY-MM-DD) */
+  /** Start date (YYYY-MM-DD) or relative token (e.g. '-7d') */
   fromDate: string | null;
-  /** End date (YYYY-MM-DD) */
+  /** End date (YYYY-MM-DD) or relative token (e.g. 'today') */
   toDate: string | null;
   /** Callback when date range changes */
   onChange: (fromDate: string | null, toDate: string | null) => void;
@@ -26,47 +36,6 @@ export interface DateRangePickerProps {
   disabled?: boolean;
 }
 
-/**
- * Quick range preset type
- */
-type QuickRange = 'week' | 'month' | 'year';
-
-/**
- * Calculate quick range dates
- */
-function formatDateToISO(date: Date): string {
-  return date.toISOString().split('T')[0] ?? '';
-}
-
-function getQuickRangeDates(range: QuickRange): { from: string; to: string } {
-  const today = new Date();
-  const to = formatDateToISO(today);
-  let from: string;
-
-  switch (range) {
-    case 'week': {
-      const weekAgo = new Date(today);
-      weekAgo.setDate(today.getDate() - 7);
-      from = formatDateToISO(weekAgo);
-      break;
-    }
-    case 'month': {
-      const monthAgo = new Date(today);
-      monthAgo.setDate(today.getDate() - 30);
-      from = formatDateToISO(monthAgo);
-      break;
-    }
-    case 'year': {
-      const yearAgo = new Date(today);
-      yearAgo.setFullYear(today.getFullYear() - 1);
-      from = formatDateToISO(yearAgo);
-      break;
-    }
-  }
-
-  return { from, to };
-}
-
 /**
  * DateRangePicker component
  *
@@ -92,69 +61,120 @@ export function DateRangePicker({
   className,
   disabled = false,
 }: DateRangePickerProps) {
-  const [error, setError] = React.useState<string | null>(null);
-
-  const validateDateRange = React.useCallback((from: string | null, to: string | null): boolean => {
-    if (from && to) {
-      const fromTime = new Date(from).getTime();
-      const toTime = new Date(to).getTime();
-      if (toTime < fromTime) {
-        setError('End date must be after start date');
-        return false;
+  const fromInputRef = React.useRef<HTMLInputElement>(null);
+  // Error of an edit that was rejected (the range itself is left unchanged)
+  const [inputError, setInputError] = React.useState<string | null>(null);
+
+  const now = new Date();
+  const today = formatDateToISO(now);
+  const activePreset = getDateRangePreset(fromDate, toDate);
+  const isCustom = activePreset === null && !!(fromDate || toDate);
+  // Ranges from the URL are validated too
+  const error = inputError ?? validateDateRange(fromDate, toDate, now);
+
+  const toInputValue = (value: string | null) =>
+    value && isRelativeDateValue(value) ? resolveDateRangeValue(value, now) : value;
+
+  const changeRange = React.useCallback(
+    (from: string | null, to: string | null) => {
+      const rangeError = validateDateRange(from, to);
+      setInputError(rangeError);
+      if (!rangeError) {
+        onChange(from, to);
       }
-    }
-    setError(null);
-    return true;
-  }, []);
+    },
+    [onChange]
+  );
 
   const handleFromChange = React.useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const newFrom = e.target.value || null;
-      if (validateDateRange(newFrom, toDate)) {
-        onChange(newFrom, toDate);
-      }
+      changeRange(e.target.value || null, toDate);
     },
-    [toDate, onChange, validateDateRange]
+    [toDate, changeRange]
   );
 
   const handleToChange = React.useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const newTo = e.target.value || null;
-      if (validateDateRange(fromDate, newTo)) {
-        onChange(fromDate, newTo);
-      }
+      changeRange(fromDate, e.target.value || null);
     },
-    [fromDate, onChange, validateDateRange]
+    [fromDate, changeRange]
   );
 
-  const handleQuickRange = React.useCallback(
-    (range: QuickRange) => {
-      const { from, to } = getQuickRangeDates(range);
-      setError(null);
+  const handlePreset = React.useCallback(
+    (preset: DateRangePreset) => {
+      const { from, to } = DATE_RANGE_PRESETS[preset];
+      setInputError(null);
       onChange(from, to);
     },
     [onChange]
   );
 
+  const handleCustom = React.useCallback(() => {
+    // Pin a relative range to its current dates so it can be edited
+    if (activePreset) {
+      const current = new Date();
+      setInputError(null);
+      onChange(
+        fromDate && resolveDateRangeValue(fromDate, current),
+        toDate && resolveDateRangeValue(toDate, current)
+      );
+    }
+    fromInputRef.current?.focus();
+  }, [activePreset, fromDate, toDate, onChange]);
+
   const handleClear = React.useCallback(() => {
-    setError(null);
+    setInputError(null);
     onChange(null, null);
   }, [onChange]);
 
   return (
     <div className={cn('space-y-3', className)}>
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Date range presets">
+        {(Object.keys(DATE_RANGE_PRESETS) as DateRangePreset[]).map((preset) => (
+          <Button
+            key={preset}
+            type="button"
+            variant={activePreset === preset ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handlePreset(preset)}
+            disabled={disabled}
+            aria-pressed={activePreset === preset}
+          >
+            {DATE_RANGE_PRESETS[preset].label}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          variant={isCustom ? 'default' : 'outline'}
+          size="sm"
+          onClick={handleCustom}
+          disabled={disabled}
+          aria-pressed={isCustom}
+        >
+          Custom
+        </Button>
+        {(fromDate || toDate) && (
+          <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled}>
+            Clear
+          </Button>
+        )}
+      </div>
+
       <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
         <div className="flex-1 space-y-1.5">
           <Label htmlFor="from-date" className="text-sm font-medium">
             From
           </Label>
           <Input
+            ref={fromInputRef}
             id="from-date"
             type="date"
-            value={fromDate || ''}
+            value={toInputValue(fromDate) || ''}
+            max={today}
             onChange={handleFromChange}
             disabled={disabled}
             className="w-full"
+            aria-invalid={!!error || undefined}
             aria-describedby={error ? 'date-error' : undefined}
           />
         </div>
@@ -165,10 +185,12 @@ export function DateRangePicker({
           <Input
             id="to-date"
             type="date"
-            value={toDate || ''}
+            value={toInputValue(toDate) || ''}
+            max={today}
             onChange={handleToChange}
             disabled={disabled}
             className="w-full"
+            aria-invalid={!!error || undefined}
             aria-describedby={error ? 'date-error' : undefined}
           />
         </div>
@@ -179,41 +201,6 @@ export function DateRangePicker({
           {error}
         </p>
       )}
-
-      <div className="flex flex-wrap gap-2">
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => handleQuickRange('week')}
-          disabled={disabled}
-        >
-          Last 7 Days
-        </Button>
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => handleQuickRange('month')}
-          disabled={disabled}
-        >
-          Last 30 Days
-        </Button>
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => handleQuickRange('year')}
-          disabled={disabled}
-        >
-          This Year
-        </Button>
-        {(fromDate || toDate) && (
-          <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled}>
-            Clear
-          </Button>
-        )}
-      </div>
     </div>
   );
 }
@@ -0,0 +1,47 @@
+/**
+ * SavedSearchNewCount Component
+ *
+ * Badge with the number of articles matching a saved search that are new
+ * since it was last viewed. Counted with a single-result searchArticles
+ * request whose `from` is the last-viewed timestamp.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { getNewSinceLastViewParams, type SavedSearch } from '@/lib/search/savedSearches';
+import { cn } from '@/lib/utils';
+
+interface SavedSearchNewCountProps {
+  search: SavedSearch;
+  className?: string;
+}
+
+/**
+ * SavedSearchNewCount displays "N new" for a saved search.
+ * Nothing is shown while counting, on errors, or when there is nothing new.
+ *
+ * @example
+ * ```tsx
+ * <SavedSearchNewCount search={savedSearch} />  // Shows "3 new"
+ * ```
+ */
+export function SavedSearchNewCount({ search, className }: SavedSearchNewCountProps) {
+  const { pagination, isLoading, error } = useArticleSearch(getNewSinceLastViewParams(search));
+
+  if (isLoading || error || pagination.total === 0) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn('whitespace-nowrap', className)}
+      aria-label={`${pagination.total} new article${pagination.total !== 1 ? 's' : ''} since last visit`}
+    >
+      {pagination.total} new
+    </Badge>
+  );
+}
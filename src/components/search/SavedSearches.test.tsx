@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SavedSearches } from './SavedSearches';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { getUserId } from '@/lib/auth/role';
+import { getSavedSearchesStorageKey, type SavedSearch } from '@/lib/search/savedSearches';
+import type { ArticleSearchState } from '@/components/articles/ArticleSearch';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+vi.mock('@/hooks/useArticleSearch', () => ({
+  useArticleSearch: vi.fn(),
+}));
+
+const emptyState: ArticleSearchState = {
+  keyword: '',
+  sourceId: null,
+  fromDate: null,
+  toDate: null,
+};
+
+const reactState: ArticleSearchState = { ...emptyState, keyword: 'react', sourceId: 2 };
+
+const createSearch = (id: string, name: string, state = reactState): SavedSearch => ({
+  id,
+  name,
+  state,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  lastViewedAt: '2026-10-18T08:30:00.000Z',
+});
+
+function storeSearches(searches: SavedSearch[]) {
+  localStorage.setItem(getSavedSearchesStorageKey('user-1'), JSON.stringify(searches));
+}
+
+function mockNewCount(total: number) {
+  vi.mocked(useArticleSearch).mockReturnValue({
+    articles: [],
+    pagination: { page: 1, limit: 1, total, totalPages: total },
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+  });
+}
+
+const savedNames = () =>
+  within(screen.getByRole('list', { name: 'Saved searches' }))
+    .getAllByRole('listitem')
+    .map((item) => within(item).getAllByRole('button')[0]?.textContent);
+
+describe('SavedSearches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+    mockNewCount(0);
+  });
+
+  it('should explain saved searches when there are none', () => {
+    render(<SavedSearches searchState={emptyState} onApply={vi.fn()} />);
+
+    expect(screen.getByText('Save a search to run it again with one click.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save search' })).toBeDisabled();
+  });
+
+  it('should save the current search under a name', async () => {
+    const user = userEvent.setup();
+    render(<SavedSearches searchState={reactState} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Save search' }));
+    const input = screen.getByLabelText('Name this search');
+    expect(input).toHaveValue('react');
+
+    await user.clear(input);
+    await user.type(input, 'React news{Enter}');
+
+    expect(savedNames()).toEqual(['React news']);
+    expect(screen.queryByLabelText('Name this search')).not.toBeInTheDocument();
+    // The current search is saved already
+    expect(screen.getByRole('button', { name: 'Save search' })).toBeDisabled();
+  });
+
+  it('should require a name', async () => {
+    const user = userEvent.setup();
+    render(<SavedSearches searchState={reactState} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Save search' }));
+    await user.clear(screen.getByLabelText('Name this search'));
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter a name of up to 100 characters');
+    expect(screen.getByLabelText('Name this search')).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('should cancel saving', async () => {
+    const user = userEvent.setup();
+    render(<SavedSearches searchState={reactState} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Save search' }));
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByLabelText('Name this search')).not.toBeInTheDocument();
+  });
+
+  it('should apply a saved search and mark it viewed', async () => {
+    const user = userEvent.setup();
+    const onApply = vi.fn();
+    storeSearches([createSearch('a', 'React news')]);
+    render(<SavedSearches searchState={emptyState} onApply={onApply} />);
+
+    await user.click(screen.getByRole('button', { name: 'React news' }));
+
+    expect(onApply).toHaveBeenCalledWith(reactState);
+    const [stored] = JSON.parse(localStorage.getItem(getSavedSearchesStorageKey('user-1'))!);
+    expect(stored.lastViewedAt).not.toBe('2026-10-18T08:30:00.000Z');
+  });
+
+  it('should mark the saved search matching the current filters', () => {
+    storeSearches([
+      createSearch('a', 'React news'),
+      createSearch('b', 'Vue news', { ...emptyState, keyword: 'vue' }),
+    ]);
+    render(<SavedSearches searchState={reactState} onApply={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'React news' })).toHaveAttribute(
+      'aria-current',
+      'true'
+    );
+    expect(screen.getByRole('button', { name: 'Vue news' })).not.toHaveAttribute('aria-current');
+  });
+
+  it('should show the articles new since the last visit', () => {
+    mockNewCount(3);
+    storeSearches([createSearch('a', 'React news')]);
+    render(<SavedSearches searchState={emptyState} onApply={vi.fn()} />);
+
+    expect(screen.getByLabelText('3 new articles since last visit')).toHaveTextContent('3 new');
+    expect(useArticleSearch).toHaveBeenCalledWith({
+      keyword: 'react',
+      source_id: 2,
+      from: '2026-10-18T08:30:00.000Z',
+      to: undefined,
+      page: 1,
+      limit: 1,
+    });
+  });
+
+  it('should rename a saved search', async () => {
+    const user = userEvent.setup();
+    storeSearches([createSearch('a', 'React news')]);
+    render(<SavedSearches searchState={emptyState} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Rename "React news"' }));
+    const input = screen.getByLabelText('Rename "React news"');
+    await user.clear(input);
+    await user.type(input, 'Frontend{Enter}');
+
+    expect(savedNames()).toEqual(['Frontend']);
+  });
+
+  it('should reorder saved searches', async () => {
+    const user = userEvent.setup();
+    storeSearches([createSearch('a', 'First'), createSearch('b', 'Second')]);
+    render(<SavedSearches searchState={emptyState} onApply={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Move "First" up' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Move "Second" down' })).toBeDisabled();
+
+    await user.click(screen.getByRole('button', { name: 'Move "Second" up' }));
+
+    expect(savedNames()).toEqual(['Second', 'First']);
+  });
+
+  it('should delete a saved search', async () => {
+    const user = userEvent.setup();
+    storeSearches([createSearch('a', 'First'), createSearch('b', 'Second')]);
+    render(<SavedSearches searchState={emptyState} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Delete "First"' }));
+
+    expect(savedNames()).toEqual(['Second']);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * SavedSearches Component
+ *
+ * Panel listing the user's saved article searches. The current search can be
+ * saved under a name; saved searches can be applied, renamed, reordered and
+ * deleted. Each one shows how many articles are new since it was last viewed.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { ArrowDown, ArrowUp, Bookmark, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SavedSearchNewCount } from '@/components/search/SavedSearchNewCount';
+import { hasActiveFilters, type ArticleSearchState } from '@/components/articles/ArticleSearch';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import {
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  matchesSavedSearch,
+  type SavedSearch,
+} from '@/lib/search/savedSearches';
+import { cn } from '@/lib/utils';
+
+export interface SavedSearchesProps {
+  /** Current search state (saved by "Save search") */
+  searchState: ArticleSearchState;
+  /** Callback when a saved search is applied */
+  onApply: (state: ArticleSearchState) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const NAME_ERROR = `Enter a name of up to ${SAVED_SEARCH_NAME_MAX_LENGTH} characters`;
+
+interface NameFormProps {
+  id: string;
+  label: string;
+  initialName: string;
+  submitLabel: string;
+  onSubmit: (name: string) => boolean;
+  onCancel: () => void;
+}
+
+/**
+ * Inline form for naming or renaming a saved search
+ */
+function NameForm({ id, label, initialName, submitLabel, onSubmit, onCancel }: NameFormProps) {
+  const [name, setName] = React.useState(initialName);
+  const [error, setError] = React.useState<string | null>(null);
+  const errorId = `${id}-error`;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!onSubmit(name)) {
+      setError(NAME_ERROR);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Label htmlFor={id} className="text-sm">
+        {label}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={name}
+          onChange={(event) => {
+            setName(event.target.value);
+            setError(null);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') {
+              onCancel();
+            }
+          }}
+          maxLength={SAVED_SEARCH_NAME_MAX_LENGTH}
+          aria-invalid={!!error}
+          aria-describedby={error ? errorId : undefined}
+          autoFocus
+        />
+        <Button type="submit" size="sm" className="h-10">
+          {submitLabel}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" className="h-10" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      {error && (
+        <p id={errorId} className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
+
+/**
+ * SavedSearches component
+ *
+ * @example
+ * ```tsx
+ * <SavedSearches searchState={searchState} onApply={setSearchState} />
+ * ```
+ */
+export function SavedSearches({ searchState, onApply, className }: SavedSearchesProps) {
+  const { savedSearches, saveSearch, renameSearch, moveSearch, deleteSearch, markViewed } =
+    useSavedSearches();
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [renamingId, setRenamingId] = React.useState<string | null>(null);
+
+  const currentSearch = savedSearches.find((search) => matchesSavedSearch(search, searchState));
+  const canSave = hasActiveFilters(searchState) && !currentSearch;
+
+  const handleApply = (search: SavedSearch) => {
+    markViewed(search.id);
+    onApply(search.state);
+  };
+
+  return (
+    <Card className={cn('mb-6', className)}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="text-lg">Saved Searches</CardTitle>
+        {!isSaving && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={!canSave}
+            onClick={() => setIsSaving(true)}
+          >
+            <Bookmark className="h-4 w-4" aria-hidden="true" />
+            Save search
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSaving && (
+          <NameForm
+            id="saved-search-name"
+            label="Name this search"
+            initialName={searchState.keyword}
+            submitLabel="Save"
+            onSubmit={(name) => {
+              const saved = saveSearch(name, searchState);
+              if (saved) {
+                setIsSaving(false);
+              }
+              return !!saved;
+            }}
+            onCancel={() => setIsSaving(false)}
+          />
+        )}
+
+        {savedSearches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save a search to run it again with one click.
+          </p>
+        ) : (
+          <ul className="space-y-2" aria-label="Saved searches">
+            {savedSearches.map((search, index) => (
+              <li key={search.id} className="rounded-md border p-2">
+                {renamingId === search.id ? (
+                  <NameForm
+                    id={`saved-search-rename-${search.id}`}
+                    label={`Rename "${search.name}"`}
+                    initialName={search.name}
+                    submitLabel="Rename"
+                    onSubmit={(name) => {
+                      const renamed = renameSearch(search.id, name);
+                      if (renamed) {
+                        setRenamingId(null);
+                      }
+                      return renamed;
+                    }}
+                    onCancel={() => setRenamingId(null)}
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="min-w-0 flex-1 justify-start"
+                      aria-current={search === currentSearch ? 'true' : undefined}
+                      onClick={() => handleApply(search)}
+                    >
+                      <span className="truncate">{search.name}</span>
+                    </Button>
+                    <SavedSearchNewCount search={search} />
+                    <div className="flex shrink-0 items-center">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label={`Move "${search.name}" up`}
+                        disabled={index === 0}
+                        onClick={() => moveSearch(search.id, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label={`Move "${search.name}" down`}
+                        disabled={index === savedSearches.length - 1}
+                        onClick={() => moveSearch(search.id, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label={`Rename "${search.name}"`}
+                        onClick={() => setRenamingId(search.id)}
+                      >
+                        <Pencil className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        aria-label={`Delete "${search.name}"`}
+                        onClick={() => deleteSearch(search.id)}
+                      >
+                        <Trash2 className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
  * SearchInput Component
  *
  * Reusable search input with debounce, loading indicator, and clear button.
+ * With suggestions it becomes an ARIA combobox with an autocomplete dropdown.
  * Used in ArticleSearch and SourceSearch components.
  */
 
@@ -11,8 +12,10 @@ import * as React from 'react';
 import { Search, X, Loader2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { HighlightedText } from '@/components/common/HighlightedText';
 import { cn } from '@/lib/utils';
 import { useDebounce } from '@/hooks/useDebounce';
+import type { SearchSuggestion, SearchSuggestionGroup } from '@/hooks/useSearchSuggestions';
 
 export interface SearchInputProps {
   /** Current search value */
@@ -29,6 +32,18 @@ export interface SearchInputProps {
   className?: string;
   /** Disable the input */
   disabled?: boolean;
+  /** Whether the value is malformed (sets aria-invalid) */
+  invalid?: boolean;
+  /** ID of the element describing the value's problems (aria-describedby) */
+  describedBy?: string;
+  /** Autocomplete suggestions; when set, the input is a combobox */
+  suggestions?: SearchSuggestionGroup[];
+  /** Callback when a suggestion is chosen */
+  onSuggestionSelect?: (suggestion: SearchSuggestion) => void;
+  /** Callback on every keystroke (not debounced), e.g. to update suggestions */
+  onInputValueChange?: (value: string) => void;
+  /** Callback when the user settles on a search (Enter, or leaving the input) */
+  onCommit?: (value: string) => void;
 }
 
 /**
@@ -45,6 +60,22 @@ export interface SearchInputProps {
  *   isLoading={isSearching}
  * />
  * ```
+ *
+ * @example
+ * ```tsx
+ * // With autocomplete
+ * const [typed, setTyped] = useState(searchTerm);
+ * const { groups, addRecentSearch } = useSearchSuggestions(typed, { scope: 'articles' });
+ *
+ * <SearchInput
+ *   value={searchTerm}
+ *   onChange={setSearchTerm}
+ *   suggestions={groups}
+ *   onSuggestionSelect={handleSuggestion}
+ *   onInputValueChange={setTyped}
+ *   onCommit={addRecentSearch}
+ * />
+ * ```
  */
 export function SearchInput({
   value,
@@ -54,26 +85,109 @@ export function SearchInput({
   debounceDelay = 300,
   className,
   disabled = false,
+  invalid = false,
+  describedBy,
+  suggestions,
+  onSuggestionSelect,
+  onInputValueChange,
+  onCommit,
 }: SearchInputProps) {
   const [inputValue, setInputValue] = React.useState(value);
   const debouncedValue = useDebounce(inputValue, debounceDelay);
 
-  // Sync with external value changes
-  React.useEffect(() => {
+  // Sync with external value changes during render, so a pending debounced
+  // value is never sent after the value was replaced from outside
+  const [syncedValue, setSyncedValue] = React.useState(value);
+  if (value !== syncedValue) {
+    setSyncedValue(value);
     setInputValue(value);
-  }, [value]);
+  }
 
-  // Notify parent when debounced value changes
+  // Notify parent when the debounced value settles on what was typed
   React.useEffect(() => {
-    if (debouncedValue !== value) {
+    if (debouncedValue === inputValue && debouncedValue !== value) {
       onChange(debouncedValue);
     }
-  }, [debouncedValue, onChange, value]);
+  }, [debouncedValue, inputValue, onChange, value]);
+
+  React.useEffect(() => {
+    onInputValueChange?.(inputValue);
+  }, [inputValue, onInputValueChange]);
+
+  // Autocomplete
+  const listboxId = React.useId();
+  const isCombobox = suggestions !== undefined;
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+
+  const options = React.useMemo(
+    () => (suggestions ?? []).flatMap((group) => group.suggestions),
+    [suggestions]
+  );
+  const isExpanded = isCombobox && isOpen && options.length > 0;
+  const activeOption = isExpanded ? options[activeIndex] : undefined;
+  const getOptionId = (suggestion: SearchSuggestion) => `${listboxId}-${suggestion.id}`;
+
+  const closeSuggestions = React.useCallback(() => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  }, []);
+
+  const selectSuggestion = React.useCallback(
+    (suggestion: SearchSuggestion) => {
+      closeSuggestions();
+      onSuggestionSelect?.(suggestion);
+    },
+    [closeSuggestions, onSuggestionSelect]
+  );
 
   const handleInputChange = React.useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
   }, []);
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!isCombobox) {
+        return;
+      }
+      e.preventDefault();
+      if (!isExpanded) {
+        setIsOpen(true);
+        setActiveIndex(e.key === 'ArrowDown' ? 0 : options.length - 1);
+        return;
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) =>
+        index === -1 && step === -1
+          ? options.length - 1
+          : (index + step + options.length) % options.length
+      );
+    } else if (e.key === 'Enter') {
+      if (activeOption) {
+        e.preventDefault();
+        selectSuggestion(activeOption);
+        return;
+      }
+      // Search right away instead of waiting for the debounce
+      if (inputValue !== value) {
+        onChange(inputValue);
+      }
+      closeSuggestions();
+      onCommit?.(inputValue);
+    } else if (e.key === 'Escape' && isExpanded) {
+      e.preventDefault();
+      e.stopPropagation();
+      closeSuggestions();
+    }
+  };
+
+  const handleBlur = React.useCallback(() => {
+    closeSuggestions();
+    onCommit?.(inputValue);
+  }, [closeSuggestions, onCommit, inputValue]);
+
   const handleClear = React.useCallback(() => {
     setInputValue('');
     onChange('');
@@ -97,10 +211,22 @@ export function SearchInput({
         type="text"
         value={inputValue}
         onChange={handleInputChange}
+        onKeyDown={handleKeyDown}
+        onFocus={isCombobox ? () => setIsOpen(true) : undefined}
+        onBlur={isCombobox || onCommit ? handleBlur : undefined}
         placeholder={placeholder}
         disabled={disabled}
         className="pl-10 pr-10"
         aria-label={placeholder}
+        aria-invalid={invalid || undefined}
+        aria-describedby={describedBy}
+        role={isCombobox ? 'combobox' : undefined}
+        aria-autocomplete={isCombobox ? 'list' : undefined}
+        aria-expanded={isCombobox ? isExpanded : undefined}
+        aria-controls={isExpanded ? listboxId : undefined}
+        aria-activedescendant={activeOption ? getOptionId(activeOption) : undefined}
+        autoComplete={isCombobox ? 'off' : undefined}
+        data-search-input
       />
       {showClearButton && (
         <Button
@@ -114,6 +240,61 @@ export function SearchInput({
           <X className="h-4 w-4" />
         </Button>
       )}
+      {isExpanded && (
+        <div
+          id={listboxId}
+          role="listbox"
+          aria-label="Search suggestions"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-80 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions!
+            .filter((group) => group.suggestions.length > 0)
+            .map((group) => (
+              <div key={group.id} role="group" aria-labelledby={`${listboxId}-group-${group.id}`}>
+                <div
+                  id={`${listboxId}-group-${group.id}`}
+                  className="px-2 py-1.5 text-xs font-semibold text-muted-foreground"
+                >
+                  {group.label}
+                </div>
+                {group.suggestions.map((suggestion) => {
+                  const index = options.indexOf(suggestion);
+                  const isActive = index === activeIndex;
+                  return (
+                    <div
+                      key={suggestion.id}
+                      id={getOptionId(suggestion)}
+                      role="option"
+                      aria-selected={isActive}
+                      // Keep focus in the input
+                      onMouseDown={(e) => e.preventDefault()}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => selectSuggestion(suggestion)}
+                      className={cn(
+                        'flex cursor-pointer items-baseline justify-between gap-2 rounded-sm px-2 py-1.5 text-sm',
+                        isActive && 'bg-accent text-accent-foreground',
+                        suggestion.kind === 'clear-recent' && 'text-muted-foreground'
+                      )}
+                    >
+                      <span className="truncate">
+                        {suggestion.kind === 'clear-recent' ? (
+                          suggestion.label
+                        ) : (
+                          <HighlightedText text={suggestion.label} terms={[inputValue]} />
+                        )}
+                      </span>
+                      {suggestion.kind === 'article' && (
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {suggestion.description}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { SearchQuerySummary } from './SearchQuerySummary';
+import { parseSearchQuery } from '@/lib/search/queryParser';
+
+function renderSummary(text: string) {
+  const query = parseSearchQuery(text);
+  return render(
+    <SearchQuerySummary text={text} query={query} errors={query.errors} errorsId="query-errors" />
+  );
+}
+
+describe('SearchQuerySummary', () => {
+  it('should show a chip for each part of the query', () => {
+    renderSummary('"server components" react OR vue -jquery source:"Tech News" after:2025-01-01');
+
+    const chips = within(screen.getByRole('list', { name: 'Search terms' })).getAllByRole(
+      'listitem'
+    );
+    expect(chips.map((chip) => chip.textContent)).toEqual([
+      '"server components"',
+      'react or vue',
+      'not jquery',
+      'Source: Tech News',
+      'From 2025-01-01',
+    ]);
+  });
+
+  it('should explain that client-side parts only filter the loaded articles', () => {
+    renderSummary('react -vue');
+
+    expect(screen.getByText(/applied to the loaded articles/)).toBeInTheDocument();
+  });
+
+  it('should not show chips or notes for an empty query', () => {
+    renderSummary('');
+
+    expect(screen.queryByRole('list', { name: 'Search terms' })).not.toBeInTheDocument();
+    expect(screen.queryByText(/applied to the loaded articles/)).not.toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should point out the malformed parts of the query', () => {
+    renderSummary('react before:soon');
+
+    const alert = screen.getByRole('alert');
+    expect(alert).toHaveAttribute('id', 'query-errors');
+    expect(alert).toHaveTextContent(
+      'before:soon: before: needs a date in YYYY-MM-DD form, e.g. before:2025-01-01'
+    );
+  });
+
+  it('should offer a syntax reference', () => {
+    renderSummary('');
+
+    expect(screen.getByText('Search syntax')).toBeInTheDocument();
+    expect(screen.getByText('source:"Tech News"')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * SearchQuerySummary Component
+ *
+ * Shows how an advanced search query was understood: one chip per clause,
+ * exclusion and filter, plus messages for malformed parts and a short
+ * syntax reference.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+  hasClientOnlyFilters,
+  type ParsedSearchQuery,
+  type SearchQueryError,
+} from '@/lib/search/queryParser';
+
+export interface SearchQuerySummaryProps {
+  /** Query as typed */
+  text: string;
+  /** Parsed query */
+  query: ParsedSearchQuery;
+  /** Malformed parts of the query */
+  errors: SearchQueryError[];
+  /** ID of the error list, for aria-describedby on the search input */
+  errorsId?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+interface QueryChip {
+  key: string;
+  label: string;
+  variant: BadgeProps['variant'];
+}
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+function getQueryChips(query: ParsedSearchQuery): QueryChip[] {
+  const chips: QueryChip[] = query.clauses.map((clause, index) => ({
+    key: `clause-${index}`,
+    label: clause.map(quote).join(' or '),
+    variant: clause.length > 1 ? 'default' : 'outline',
+  }));
+
+  query.excluded.forEach((value, index) => {
+    chips.push({ key: `excluded-${index}`, label: `not ${quote(value)}`, variant: 'destructive' });
+  });
+
+  if (query.source) {
+    chips.push({ key: 'source', label: `Source: ${query.source.value}`, variant: 'secondary' });
+  }
+  if (query.after) {
+    chips.push({ key: 'after', label: `From ${query.after.value}`, variant: 'secondary' });
+  }
+  if (query.before) {
+    chips.push({ key: 'before', label: `Until ${query.before.value}`, variant: 'secondary' });
+  }
+
+  return chips;
+}
+
+/**
+ * SearchQuerySummary component
+ *
+ * @example
+ * ```tsx
+ * const { query, errors } = useSearchQuery(toSearchParams(searchState));
+ *
+ * <SearchQuerySummary text={searchState.keyword} query={query} errors={errors} />
+ * ```
+ */
+export function SearchQuerySummary({
+  text,
+  query,
+  errors,
+  errorsId,
+  className,
+}: SearchQuerySummaryProps) {
+  const chips = React.useMemo(() => getQueryChips(query), [query]);
+
+  return (
+    <div className={cn('space-y-2 text-sm', className)}>
+      {chips.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Search terms">
+          {chips.map((chip) => (
+            <li key={chip.key}>
+              <Badge variant={chip.variant} className="font-medium">
+                {chip.label}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasClientOnlyFilters(query) && (
+        <p className="text-xs text-muted-foreground">
+          Phrases, exclusions and OR are applied to the loaded articles, so a page may show fewer
+          results.
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <ul id={errorsId} role="alert" className="space-y-1 text-destructive">
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.message}`} className="flex items-start gap-1.5">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+              <span>
+                <code className="rounded bg-destructive/10 px-1">
+                  {text.slice(error.start, error.end)}
+                </code>
+                : {error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="text-muted-foreground">
+        <summary className="cursor-pointer select-none">Search syntax</summary>
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          <dt>
+            <code>&quot;exact phrase&quot;</code>
+          </dt>
+          <dd>Match the words in this order</dd>
+          <dt>
+            <code>-word</code>
+          </dt>
+          <dd>Leave out articles containing the word or phrase</dd>
+          <dt>
+            <code>react OR vue</code>
+          </dt>
+          <dd>Match either word</dd>
+          <dt>
+            <code>source:&quot;Tech News&quot;</code>
+          </dt>
+          <dd>Articles from this source</dd>
+          <dt>
+            <code>after:2025-01-01</code>
+          </dt>
+          <dd>Published on or after the date</dd>
+          <dt>
+            <code>before:2025-12-31</code>
+          </dt>
+          <dd>Published on or before the date</dd>
+        </dl>
+      </details>
+    </div>
+  );
+}
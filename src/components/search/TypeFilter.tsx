@@ -9,11 +9,9 @@
 import * as React from 'react';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
+import { SOURCE_TYPES } from '@/constants/source';
 
-/** Available source types */
-const SOURCE_TYPES = ['RSS', 'Webflow', 'NextJS', 'Remix'] as const;
-
-export type SourceType = (typeof SOURCE_TYPES)[number];
+export type { SourceType } from '@/types/api';
 
 export interface TypeFilterProps {
   /** Currently selected source type */
@@ -2,7 +2,7 @@
  * ActiveToggle Component
  *
  * Interactive toggle control for admin users to enable/disable sources.
- * Includes loading states, error handling, and accessibility features.
+ * Includes loading states, error toasts, and accessibility features.
  */
 
 import * as React from 'react';
@@ -10,6 +10,7 @@ import { Switch } from '@/components/ui/switch';
 import { Loader2 } from 'lucide-react';
 import { ApiError } from '@/lib/api/errors';
 import { NetworkError } from '@/lib/api/errors';
+import { ActionUndoneError, toast } from '@/lib/toast/ToastManager';
 
 /**
  * Props for the ActiveToggle component
@@ -21,7 +22,7 @@ interface ActiveToggleProps {
   sourceName: string;
   /** Initial active status */
   initialActive: boolean;
-  /** Callback when toggle is changed */
+  /** Callback when toggle is changed (rejecting with ActionUndoneError reverts silently) */
   onToggle: (sourceId: number, newActive: boolean) => Promise<void>;
   /** Additional CSS classes */
   className?: string;
@@ -77,12 +78,13 @@ export const ActiveToggle = React.memo(function ActiveToggle({
   className,
 }: ActiveToggleProps) {
   const [isToggling, setIsToggling] = React.useState(false);
-  const [error, setError] = React.useState<string | null>(null);
+  const [hasError, setHasError] = React.useState(false);
   const [currentActive, setCurrentActive] = React.useState(initialActive);
+  const errorToastId = `error-${sourceId}`;
 
   /**
    * Handle toggle change
-   * Implements optimistic update with rollback on error
+   * Implements optimistic update with rollback on error or undo
    */
   const handleToggle = async (checked: boolean) => {
     // Store previous state for rollback
@@ -91,29 +93,25 @@ export const ActiveToggle = React.memo(function ActiveToggle({
     // Optimistic update
     setCurrentActive(checked);
     setIsToggling(true);
-    setError(null);
+    toast.dismiss(errorToastId);
 
     try {
       await onToggle(sourceId, checked);
     } catch (err) {
-      // Revert to previous state on error
+      // Revert to previous state on error or undo
       setCurrentActive(previousActive);
-      setError(getErrorMessage(err));
+      if (!(err instanceof ActionUndoneError)) {
+        setHasError(true);
+        toast.error(getErrorMessage(err), {
+          id: errorToastId,
+          onDismiss: () => setHasError(false),
+        });
+      }
     } finally {
       setIsToggling(false);
     }
   };
 
-  /**
-   * Auto-dismiss error message after 5 seconds
-   */
-  React.useEffect(() => {
-    if (error) {
-      const timeout = setTimeout(() => setError(null), 5000);
-      return () => clearTimeout(timeout);
-    }
-  }, [error]);
-
   return (
     <div className={className}>
       <div className="flex items-center gap-2">
@@ -122,17 +120,11 @@ export const ActiveToggle = React.memo(function ActiveToggle({
           onCheckedChange={handleToggle}
           disabled={isToggling}
           aria-label={`Toggle ${sourceName} active status`}
-          aria-describedby={error ? `error-${sourceId}` : undefined}
+          aria-describedby={hasError ? errorToastId : undefined}
           className="data-[state=checked]:bg-[#a0ffff] data-[state=checked]:shadow-[0_0_12px_#00ffff,0_0_24px_#00ffff,0_0_36px_#00ffff50] data-[state=unchecked]:bg-gray-600"
         />
         {isToggling && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
       </div>
-
-      {error && (
-        <p id={`error-${sourceId}`} className="mt-1 text-xs text-destructive" role="alert">
-          {error}
-        </p>
-      )}
     </div>
   );
 });
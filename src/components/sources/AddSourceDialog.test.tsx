@@ -6,12 +6,18 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { AddSourceDialog } from './AddSourceDialog';
 import * as useCreateSourceModule from '@/hooks/useCreateSource';
+import { ToastManager } from '@/lib/toast/ToastManager';
 
 // Mock the useCreateSource hook
 vi.mock('@/hooks/useCreateSource', () => ({
   useCreateSource: vi.fn(),
 }));
 
+// No feed preview (covered by the SourceForm tests)
+vi.mock('@/hooks/useFeedDiscovery', () => ({
+  useFeedDiscovery: () => ({ preview: null, isChecking: false, error: null }),
+}));
+
 describe('AddSourceDialog', () => {
   const defaultProps = {
     isOpen: true,
@@ -24,6 +30,7 @@ describe('AddSourceDialog', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    ToastManager.resetInstance();
 
     vi.mocked(useCreateSourceModule.useCreateSource).mockReturnValue({
       createSource: vi.fn(),
@@ -84,6 +91,7 @@ describe('AddSourceDialog', () => {
         expect(mockMutateAsync).toHaveBeenCalledWith({
           name: 'Tech Blog',
           feedURL: 'https://example.com/feed.xml',
+          sourceType: 'RSS',
         });
       });
     });
@@ -119,6 +127,23 @@ describe('AddSourceDialog', () => {
       });
     });
 
+    it('shows a success toast after successful submission', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockResolvedValueOnce(undefined);
+
+      render(<AddSourceDialog {...defaultProps} />);
+
+      await user.type(screen.getByLabelText(/name/i), 'Tech Blog');
+      await user.type(screen.getByLabelText(/feed url/i), 'https://example.com/feed.xml');
+      await user.click(screen.getByRole('button', { name: /add source/i }));
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toEqual([
+          expect.objectContaining({ title: 'Added "Tech Blog"', variant: 'success' }),
+        ]);
+      });
+    });
+
     it('calls onClose after successful submission', async () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
@@ -222,20 +247,42 @@ describe('AddSourceDialog', () => {
   });
 
   describe('Error Handling', () => {
-    it('passes error to form', () => {
-      const error = new Error('Failed to create source');
-      vi.mocked(useCreateSourceModule.useCreateSource).mockReturnValue({
-        createSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error,
-        reset: mockReset,
-        isSuccess: false,
+    it('shows an error toast when submission fails', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockRejectedValueOnce(new Error('Failed to create source'));
+
+      render(<AddSourceDialog {...defaultProps} />);
+
+      await user.type(screen.getByLabelText(/name/i), 'Tech Blog');
+      await user.type(screen.getByLabelText(/feed url/i), 'https://example.com/feed.xml');
+      await user.click(screen.getByRole('button', { name: /add source/i }));
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toEqual([
+          expect.objectContaining({
+            title: 'Failed to add "Tech Blog"',
+            description: 'Failed to create source',
+            variant: 'error',
+          }),
+        ]);
       });
+    });
+
+    it('shows a default toast description when error has no message', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockRejectedValueOnce(new Error(''));
 
       render(<AddSourceDialog {...defaultProps} />);
 
-      expect(screen.getByText('Failed to create source')).toBeInTheDocument();
+      await user.type(screen.getByLabelText(/name/i), 'Tech Blog');
+      await user.type(screen.getByLabelText(/feed url/i), 'https://example.com/feed.xml');
+      await user.click(screen.getByRole('button', { name: /add source/i }));
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toEqual([
+          expect.objectContaining({ description: 'Please try again.' }),
+        ]);
+      });
     });
 
     it('does not close dialog when submission fails', async () => {
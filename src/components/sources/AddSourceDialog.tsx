@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dialog';
 import { SourceForm } from './SourceForm';
 import { useCreateSource } from '@/hooks/useCreateSource';
+import { toast } from '@/lib/toast/ToastManager';
 import type { CreateSourceInput } from '@/types/api';
 
 /**
@@ -49,20 +50,24 @@ interface AddSourceDialogProps {
  * ```
  */
 export function AddSourceDialog({ isOpen, onClose, onSuccess }: AddSourceDialogProps) {
-  const { mutateAsync, isPending, error, reset } = useCreateSource();
+  const { mutateAsync, isPending, reset } = useCreateSource();
 
   /**
    * Handle form submission
+   * Reports the outcome with a toast; the dialog stays open on failure so the
+   * input can be corrected and resubmitted
    */
   const handleSubmit = async (data: CreateSourceInput) => {
     try {
       await mutateAsync(data);
       reset();
+      toast.success(`Added "${data.name}"`);
       onSuccess?.();
       onClose();
-    } catch {
-      // Error is handled by the mutation's error state
-      // and displayed via the error prop in SourceForm
+    } catch (error) {
+      toast.error(`Failed to add "${data.name}"`, {
+        description: (error as Error).message || 'Please try again.',
+      });
     }
   };
 
@@ -95,7 +100,6 @@ export function AddSourceDialog({ isOpen, onClose, onSuccess }: AddSourceDialogP
           mode="create"
           onSubmit={handleSubmit}
           isLoading={isPending}
-          error={error}
           onCancel={handleClose}
         />
       </DialogContent>
@@ -5,7 +5,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { DeleteSourceDialog } from './DeleteSourceDialog';
+import { Toaster } from '@/components/common/Toaster';
 import * as useDeleteSourceModule from '@/hooks/useDeleteSource';
+import { ActionUndoneError, ToastManager } from '@/lib/toast/ToastManager';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
 import type { Source } from '@/types/api';
 
 // Mock the useDeleteSource hook
@@ -54,6 +57,7 @@ describe('DeleteSourceDialog', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    ToastManager.resetInstance();
 
     vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
       deleteSource: vi.fn(),
@@ -84,7 +88,7 @@ describe('DeleteSourceDialog', () => {
       expect(screen.getByText(/Tech Blog/)).toBeInTheDocument();
       expect(
         screen.getByText(
-          /Are you sure you want to delete 'Tech Blog'\? This action cannot be undone\./
+          /Are you sure you want to delete 'Tech Blog'\? You can undo this for a few seconds/
         )
       ).toBeInTheDocument();
     });
@@ -157,11 +161,19 @@ describe('DeleteSourceDialog', () => {
       await user.click(screen.getByRole('button', { name: /delete/i }));
 
       await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 1 });
+        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 1, name: 'Tech Blog' });
         expect(mockMutateAsync).toHaveBeenCalledTimes(1);
       });
     });
 
+    it('defers the deletion for the undo grace period', () => {
+      render(<DeleteSourceDialog {...defaultProps} />);
+
+      expect(useDeleteSourceModule.useDeleteSource).toHaveBeenCalledWith({
+        undoGracePeriodMs: SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS,
+      });
+    });
+
     it('calls reset after successful deletion', async () => {
       const user = userEvent.setup();
       mockMutateAsync.mockResolvedValueOnce(undefined);
@@ -218,48 +230,41 @@ describe('DeleteSourceDialog', () => {
       await user.click(screen.getByRole('button', { name: /delete/i }));
 
       await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 42 });
+        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 42, name: 'Custom Blog' });
       });
     });
   });
 
   describe('Error Handling', () => {
-    it('displays error message when mutation fails', async () => {
-      const apiError = new Error('Failed to delete source');
+    it('shows an error toast when the deletion fails', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockRejectedValueOnce(new Error('Failed to delete source'));
 
-      vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
-        deleteSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: apiError,
-        reset: mockReset,
-        isSuccess: false,
-      });
+      render(
+        <>
+          <DeleteSourceDialog {...defaultProps} isOpen={true} />
+          <Toaster />
+        </>
+      );
 
-      render(<DeleteSourceDialog {...defaultProps} />);
+      await user.click(screen.getByRole('button', { name: /delete/i }));
 
+      await waitFor(() => {
+        expect(screen.getByText('Failed to delete "Tech Blog"')).toBeInTheDocument();
+      });
       expect(screen.getByText('Failed to delete source')).toBeInTheDocument();
-      expect(screen.getByRole('alert')).toBeInTheDocument();
     });
 
-    it('does not close dialog when API call fails', async () => {
+    it('closes the dialog before the deferred deletion completes', async () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
-      mockMutateAsync.mockRejectedValueOnce(new Error('Network error'));
+      mockMutateAsync.mockReturnValueOnce(new Promise(() => {}));
 
       render(<DeleteSourceDialog {...defaultProps} onClose={onClose} />);
 
       await user.click(screen.getByRole('button', { name: /delete/i }));
 
-      // Wait and verify onClose was not called when submission fails
-      await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalled();
-      });
-
-      // Give some time to ensure onClose is not called
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      expect(onClose).not.toHaveBeenCalled();
+      expect(onClose).toHaveBeenCalledTimes(1);
     });
 
     it('does not call onSuccess when API call fails', async () => {
@@ -281,21 +286,45 @@ describe('DeleteSourceDialog', () => {
       expect(onSuccess).not.toHaveBeenCalled();
     });
 
-    it('displays default error message when error has no message', async () => {
-      const apiError = new Error('');
+    it('shows a default toast description when error has no message', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockRejectedValueOnce(new Error(''));
 
-      vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
-        deleteSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: apiError,
-        reset: mockReset,
-        isSuccess: false,
+      render(
+        <>
+          <DeleteSourceDialog {...defaultProps} />
+          <Toaster />
+        </>
+      );
+
+      await user.click(screen.getByRole('button', { name: /delete/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Please try again.')).toBeInTheDocument();
       });
+    });
 
-      render(<DeleteSourceDialog {...defaultProps} />);
+    it('does not show an error toast when the deletion is undone', async () => {
+      const user = userEvent.setup();
+      const onSuccess = vi.fn();
+      mockMutateAsync.mockRejectedValueOnce(new ActionUndoneError());
 
-      expect(screen.getByText('Failed to delete source. Please try again.')).toBeInTheDocument();
+      render(
+        <>
+          <DeleteSourceDialog {...defaultProps} onSuccess={onSuccess} />
+          <Toaster />
+        </>
+      );
+
+      await user.click(screen.getByRole('button', { name: /delete/i }));
+
+      await waitFor(() => {
+        expect(mockMutateAsync).toHaveBeenCalled();
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(ToastManager.getInstance().getSnapshot()).toHaveLength(0);
+      expect(onSuccess).not.toHaveBeenCalled();
     });
   });
 
@@ -411,23 +440,30 @@ describe('DeleteSourceDialog', () => {
       expect(cancelButton).toBeInTheDocument();
     });
 
-    it('error message has role alert', () => {
-      const apiError = new Error('Test error');
+    it('error toast has role alert', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockRejectedValueOnce(new Error('Test error'));
 
-      vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
-        deleteSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: apiError,
-        reset: mockReset,
-        isSuccess: false,
-      });
+      const { rerender } = render(
+        <>
+          <DeleteSourceDialog {...defaultProps} />
+          <Toaster />
+        </>
+      );
 
-      render(<DeleteSourceDialog {...defaultProps} />);
+      await user.click(screen.getByRole('button', { name: /delete/i }));
+
+      // Close the dialog so the toast region is no longer hidden by the modal
+      rerender(
+        <>
+          <DeleteSourceDialog {...defaultProps} isOpen={false} />
+          <Toaster />
+        </>
+      );
 
-      const alert = screen.getByRole('alert');
-      expect(alert).toBeInTheDocument();
-      expect(alert).toHaveTextContent('Test error');
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Test error');
+      });
     });
 
     it('dialog has proper heading structure', () => {
@@ -517,42 +553,42 @@ describe('DeleteSourceDialog', () => {
 
       // Wait for mutation to complete
       await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 1 });
+        expect(mockMutateAsync).toHaveBeenCalledWith({ id: 1, name: 'Tech Blog' });
         expect(mockReset).toHaveBeenCalled();
         expect(onSuccess).toHaveBeenCalled();
         expect(onClose).toHaveBeenCalled();
       });
     });
 
-    it('error flow: click Delete → error → stay open', async () => {
+    it('error flow: click Delete → close → error toast', async () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
       mockMutateAsync.mockRejectedValueOnce(new Error('API Error'));
 
-      render(<DeleteSourceDialog {...defaultProps} onClose={onClose} />);
+      render(
+        <>
+          <DeleteSourceDialog {...defaultProps} onClose={onClose} />
+          <Toaster />
+        </>
+      );
 
       // Click delete
       await user.click(screen.getByRole('button', { name: /delete/i }));
 
-      // Wait for mutation to fail
+      // Dialog closes right away, the failure is reported with a toast
+      expect(onClose).toHaveBeenCalledTimes(1);
       await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalled();
+        expect(screen.getByText('API Error')).toBeInTheDocument();
       });
-
-      // Give time for handlers to run
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      // Dialog should remain open
-      expect(onClose).not.toHaveBeenCalled();
     });
 
-    it('multiple delete attempts with reset between', async () => {
+    it('multiple delete attempts', async () => {
       const user = userEvent.setup();
       mockMutateAsync
         .mockRejectedValueOnce(new Error('First attempt failed'))
         .mockResolvedValueOnce(undefined);
 
-      const { rerender } = render(<DeleteSourceDialog {...defaultProps} />);
+      render(<DeleteSourceDialog {...defaultProps} />);
 
       // First attempt - fails
       await user.click(screen.getByRole('button', { name: /delete/i }));
@@ -561,33 +597,6 @@ describe('DeleteSourceDialog', () => {
         expect(mockMutateAsync).toHaveBeenCalledTimes(1);
       });
 
-      // Re-render with error state
-      vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
-        deleteSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: new Error('First attempt failed'),
-        reset: mockReset,
-        isSuccess: false,
-      });
-
-      rerender(<DeleteSourceDialog {...defaultProps} />);
-
-      // Error should be visible
-      expect(screen.getByText('First attempt failed')).toBeInTheDocument();
-
-      // Reset state
-      vi.mocked(useDeleteSourceModule.useDeleteSource).mockReturnValue({
-        deleteSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: null,
-        reset: mockReset,
-        isSuccess: false,
-      });
-
-      rerender(<DeleteSourceDialog {...defaultProps} />);
-
       // Second attempt - succeeds
       await user.click(screen.getByRole('button', { name: /delete/i }));
 
@@ -12,6 +12,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { useDeleteSource } from '@/hooks/useDeleteSource';
 import { SOURCE_TEST_IDS, SOURCE_ARIA_LABELS } from '@/constants/source';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import { ActionUndoneError, toast } from '@/lib/toast/ToastManager';
 import { metrics } from '@/lib/observability/metrics';
 import { addBreadcrumb } from '@/lib/observability/tracing';
 import type { Source } from '@/types/api';
@@ -38,8 +40,10 @@ export interface DeleteSourceDialogProps {
  *
  * Features:
  * - Shows source name in confirmation message
- * - Displays error messages when deletion fails
- * - Optimistic updates with rollback on error
+ * - Closes on confirm; the deletion is deferred behind an "Undo" toast
+ *   for SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS
+ * - Reports failures with an error toast
+ * - Optimistic updates with rollback on error or undo
  * - Automatic cache invalidation on success
  * - Focus management (focus moves to dialog on open, returns to trigger on close)
  * - Accessible dialog with ARIA labels
@@ -70,7 +74,9 @@ export function DeleteSourceDialog({
   source,
   onSuccess,
 }: DeleteSourceDialogProps) {
-  const { mutateAsync, isPending, error, reset } = useDeleteSource();
+  const { mutateAsync, isPending, reset } = useDeleteSource({
+    undoGracePeriodMs: SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS,
+  });
 
   // Track dialog open
   React.useEffect(() => {
@@ -85,7 +91,8 @@ export function DeleteSourceDialog({
 
   /**
    * Handle delete confirmation
-   * Performs the delete mutation and closes dialog on success
+   * Closes the dialog right away (the undo toast is not reachable behind the
+   * modal) and reports the outcome of the deferred mutation with a toast
    */
   const handleDelete = async () => {
     // Track confirm action
@@ -95,15 +102,19 @@ export function DeleteSourceDialog({
       sourceName: source.name,
     });
 
+    onClose();
+
     try {
-      await mutateAsync({ id: source.id });
+      await mutateAsync({ id: source.id, name: source.name });
       reset();
       onSuccess?.();
-      onClose();
-    } catch {
-      // Error is handled by the mutation's error state
-      // and displayed via the error message below
-      // Error tracking is handled in useDeleteSource hook
+    } catch (error) {
+      // Undo already restored the source; error tracking is handled in useDeleteSource
+      if (!(error instanceof ActionUndoneError)) {
+        toast.error(`Failed to delete "${source.name}"`, {
+          description: (error as Error).message || 'Please try again.',
+        });
+      }
     }
   };
 
@@ -138,20 +149,11 @@ export function DeleteSourceDialog({
         <DialogHeader>
           <DialogTitle>Delete Source</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete &apos;{source.name}&apos;? This action cannot be undone.
+            Are you sure you want to delete &apos;{source.name}&apos;? You can undo this for a few
+            seconds after confirming.
           </DialogDescription>
         </DialogHeader>
 
-        {error && (
-          <div
-            role="alert"
-            data-testid={SOURCE_TEST_IDS.DELETE_ERROR}
-            className="rounded-md bg-destructive/15 p-3 text-sm text-destructive"
-          >
-            {error.message || 'Failed to delete source. Please try again.'}
-          </div>
-        )}
-
         <DialogFooter>
           <Button
             type="button"
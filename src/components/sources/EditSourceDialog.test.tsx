@@ -6,6 +6,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { EditSourceDialog } from './EditSourceDialog';
 import * as useUpdateSourceModule from '@/hooks/useUpdateSource';
+import { ToastManager } from '@/lib/toast/ToastManager';
 import type { Source } from '@/types/api';
 
 // Mock the useUpdateSource hook
@@ -13,6 +14,11 @@ vi.mock('@/hooks/useUpdateSource', () => ({
   useUpdateSource: vi.fn(),
 }));
 
+// No feed preview (covered by the SourceForm tests)
+vi.mock('@/hooks/useFeedDiscovery', () => ({
+  useFeedDiscovery: () => ({ preview: null, isChecking: false, error: null }),
+}));
+
 describe('EditSourceDialog', () => {
   const mockSource: Source = {
     id: 1,
@@ -33,6 +39,7 @@ describe('EditSourceDialog', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    ToastManager.resetInstance();
 
     vi.mocked(useUpdateSourceModule.useUpdateSource).mockReturnValue({
       updateSource: vi.fn(),
@@ -114,6 +121,7 @@ describe('EditSourceDialog', () => {
             name: 'Updated Tech Blog',
             feedURL: 'https://example.com/feed.xml',
             active: true,
+            sourceType: 'RSS',
           },
         });
       });
@@ -140,6 +148,7 @@ describe('EditSourceDialog', () => {
             name: 'Tech Blog',
             feedURL: 'https://newsite.com/feed.xml',
             active: true,
+            sourceType: 'RSS',
           },
         });
       });
@@ -169,6 +178,7 @@ describe('EditSourceDialog', () => {
             name: 'New Name',
             feedURL: 'https://newurl.com/feed.xml',
             active: true,
+            sourceType: 'RSS',
           },
         });
       });
@@ -207,6 +217,24 @@ describe('EditSourceDialog', () => {
       });
     });
 
+    it('shows a success toast after successful submission', async () => {
+      const user = userEvent.setup();
+      mockMutateAsync.mockResolvedValueOnce(undefined);
+
+      render(<EditSourceDialog {...defaultProps} />);
+
+      const nameInput = screen.getByLabelText(/name/i);
+      await user.clear(nameInput);
+      await user.type(nameInput, 'Updated Name');
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toEqual([
+          expect.objectContaining({ title: 'Saved "Updated Name"', variant: 'success' }),
+        ]);
+      });
+    });
+
     it('calls onClose after successful submission', async () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
@@ -353,22 +381,26 @@ describe('EditSourceDialog', () => {
   });
 
   describe('API Error Tests', () => {
-    it('displays error message when API returns 500 error', async () => {
+    it('shows an error toast when API returns 500 error', async () => {
       const user = userEvent.setup();
-      const apiError = new Error('Internal Server Error');
-
-      vi.mocked(useUpdateSourceModule.useUpdateSource).mockReturnValue({
-        updateSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: apiError,
-        reset: mockReset,
-        isSuccess: false,
-      });
+      mockMutateAsync.mockRejectedValueOnce(new Error('Internal Server Error'));
 
       render(<EditSourceDialog {...defaultProps} />);
 
-      expect(screen.getByText('Internal Server Error')).toBeInTheDocument();
+      const nameInput = screen.getByLabelText(/name/i);
+      await user.clear(nameInput);
+      await user.type(nameInput, 'Updated Name');
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toEqual([
+          expect.objectContaining({
+            title: 'Failed to save "Tech Blog"',
+            description: 'Internal Server Error',
+            variant: 'error',
+          }),
+        ]);
+      });
     });
 
     it('does not close dialog when API call fails', async () => {
@@ -416,7 +448,7 @@ describe('EditSourceDialog', () => {
       expect(onSuccess).not.toHaveBeenCalled();
     });
 
-    it('displays error in dialog after failed submission', async () => {
+    it('keeps the entered values after failed submission', async () => {
       const user = userEvent.setup();
       mockMutateAsync.mockRejectedValueOnce(new Error('API Error'));
 
@@ -428,23 +460,9 @@ describe('EditSourceDialog', () => {
       await user.click(screen.getByRole('button', { name: /save changes/i }));
 
       await waitFor(() => {
-        expect(mockMutateAsync).toHaveBeenCalled();
-      });
-
-      // Re-render with error state
-      vi.mocked(useUpdateSourceModule.useUpdateSource).mockReturnValue({
-        updateSource: vi.fn(),
-        mutateAsync: mockMutateAsync,
-        isPending: false,
-        error: new Error('API Error'),
-        reset: mockReset,
-        isSuccess: false,
+        expect(ToastManager.getInstance().getSnapshot()).toHaveLength(1);
       });
-
-      const { rerender } = render(<EditSourceDialog {...defaultProps} />);
-      rerender(<EditSourceDialog {...defaultProps} />);
-
-      expect(screen.getByText('API Error')).toBeInTheDocument();
+      expect(nameInput).toHaveValue('Updated Name');
     });
   });
 
@@ -12,6 +12,7 @@ import { SourceForm } from './SourceForm';
 import { useUpdateSource } from '@/hooks/useUpdateSource';
 import { sourceToFormData, formDataToUpdateInput } from '@/utils/sourceTransformers';
 import { SOURCE_TEST_IDS } from '@/constants/source';
+import { toast } from '@/lib/toast/ToastManager';
 import type { Source, SourceFormData } from '@/types/api';
 
 /**
@@ -38,6 +39,7 @@ export interface EditSourceDialogProps {
  * - Pre-populates form with current source data
  * - Optimistic updates with rollback on error
  * - Automatic cache invalidation on success
+ * - Success and failure reported with toasts
  * - Focus management (focus moves to dialog on open, returns to trigger on close)
  * - Accessible dialog with ARIA labels
  *
@@ -61,22 +63,25 @@ export interface EditSourceDialogProps {
  * ```
  */
 export function EditSourceDialog({ isOpen, onClose, source, onSuccess }: EditSourceDialogProps) {
-  const { mutateAsync, isPending, error, reset } = useUpdateSource();
+  const { mutateAsync, isPending, reset } = useUpdateSource();
 
   /**
    * Handle form submission
-   * Converts form data to API format and performs the update mutation
+   * Converts form data to API format, performs the update mutation and reports
+   * the outcome with a toast; the dialog stays open on failure
    */
   const handleSubmit = async (data: SourceFormData) => {
     try {
       const updateInput = formDataToUpdateInput(data, source.active);
       await mutateAsync({ id: source.id, data: updateInput });
       reset();
+      toast.success(`Saved "${updateInput.name}"`);
       onSuccess?.();
       onClose();
-    } catch {
-      // Error is handled by the mutation's error state
-      // and displayed via the error prop in SourceForm
+    } catch (error) {
+      toast.error(`Failed to save "${source.name}"`, {
+        description: (error as Error).message || 'Please try again.',
+      });
     }
   };
 
@@ -112,7 +117,6 @@ export function EditSourceDialog({ isOpen, onClose, source, onSuccess }: EditSou
           initialData={sourceToFormData(source)}
           onSubmit={handleSubmit}
           isLoading={isPending}
-          error={error}
           onCancel={handleClose}
         />
       </DialogContent>
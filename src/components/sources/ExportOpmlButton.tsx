@@ -0,0 +1,74 @@
+'use client';
+
+import * as React from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { getSources } from '@/lib/api/endpoints/sources';
+import { logger } from '@/lib/logger';
+import { serializeOpml } from '@/utils/opml';
+
+interface ExportOpmlButtonProps {
+  variant?: ButtonProps['variant'];
+  className?: string;
+}
+
+/**
+ * Trigger a browser download of a text file
+ */
+function downloadFile(content: string, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * ExportOpmlButton Component
+ *
+ * Downloads every source (including inactive ones) as an OPML 2.0 file.
+ * Fetches a fresh list via getSources so filters on the page do not apply.
+ *
+ * @example
+ * <ExportOpmlButton variant="outline" />
+ */
+export function ExportOpmlButton({ variant = 'outline', className }: ExportOpmlButtonProps) {
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const sources = await getSources();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(serializeOpml(sources), `catchup-feed-sources-${date}.opml`, 'text/x-opml');
+    } catch (err) {
+      logger.error('Failed to export sources as OPML', err as Error);
+      setError('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant={variant} onClick={handleExport} disabled={isExporting} className={className}>
+        {isExporting ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+        )}
+        Export OPML
+      </Button>
+      {error && (
+        <p className="text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
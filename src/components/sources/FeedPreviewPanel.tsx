@@ -0,0 +1,122 @@
+'use client';
+
+import * as React from 'react';
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { SOURCE_TEST_IDS } from '@/constants/source';
+import { formatRelativeTime } from '@/lib/utils/formatDate';
+import type { FeedFormat, FeedPreview } from '@/lib/feeds/feedParser';
+
+/**
+ * FeedPreviewPanel Component Props
+ */
+interface FeedPreviewPanelProps {
+  /** Preview of the feed at the entered URL, or null */
+  preview: FeedPreview | null;
+  /** Whether the URL is being checked */
+  isChecking: boolean;
+  /** Error from checking the URL, or null */
+  error: Error | null;
+  /** Feed URL currently entered in the form */
+  feedURL: string;
+  /** Callback to replace the entered URL with the previewed feed URL */
+  onUseFeedURL: (feedURL: string) => void;
+}
+
+const FORMAT_LABELS: Record<FeedFormat, string> = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+};
+
+/**
+ * FeedPreviewPanel Component
+ *
+ * Shows the result of checking a feed URL in the source form:
+ * - "Checking feed…" while the URL is checked
+ * - Format, title, item count and latest item date of a valid feed
+ * - A button to use the feed URL found on an HTML page (or after redirects)
+ * - The reason a URL is not a usable feed
+ *
+ * Renders nothing when there is nothing to report. The panel is a polite
+ * live region so screen readers announce the result.
+ *
+ * @example
+ * ```tsx
+ * <FeedPreviewPanel
+ *   preview={preview}
+ *   isChecking={isChecking}
+ *   error={error}
+ *   feedURL={formData.feedURL}
+ *   onUseFeedURL={(url) => handleChange('feedURL', url)}
+ * />
+ * ```
+ */
+export function FeedPreviewPanel({
+  preview,
+  isChecking,
+  error,
+  feedURL,
+  onUseFeedURL,
+}: FeedPreviewPanelProps) {
+  let content: React.ReactNode = null;
+
+  if (isChecking) {
+    content = (
+      <p className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+        Checking feed…
+      </p>
+    );
+  } else if (preview) {
+    const itemLabel = `${preview.itemCount} item${preview.itemCount !== 1 ? 's' : ''}`;
+    const showUseButton = preview.feedURL !== feedURL.trim();
+
+    content = (
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 font-medium">
+          <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" aria-hidden="true" />
+          {preview.discovered ? 'Feed found on this page' : 'Valid feed'}
+          <Badge variant="secondary">{FORMAT_LABELS[preview.format]}</Badge>
+        </div>
+        {preview.title && <p className="break-words">{preview.title}</p>}
+        <p className="text-muted-foreground">
+          {itemLabel}
+          {preview.latestItemDate &&
+            ` · latest ${formatRelativeTime(preview.latestItemDate).toLowerCase()}`}
+        </p>
+        {showUseButton && (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <span className="break-all text-muted-foreground">{preview.feedURL}</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onUseFeedURL(preview.feedURL)}
+            >
+              Use this feed URL
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  } else if (error) {
+    content = (
+      <p className="flex items-center gap-2 text-amber-700 dark:text-amber-400">
+        <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+        {error.message}
+      </p>
+    );
+  }
+
+  return (
+    <div
+      data-testid={SOURCE_TEST_IDS.FEED_PREVIEW}
+      aria-live="polite"
+      className={content ? 'rounded-md border bg-muted/40 p-3 text-sm' : undefined}
+    >
+      {content}
+    </div>
+  );
+}
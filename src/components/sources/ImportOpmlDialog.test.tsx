@@ -0,0 +1,126 @@
+/**
+ * ImportOpmlDialog Component Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ImportOpmlDialog } from './ImportOpmlDialog';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import * as useSourcesModule from '@/hooks/useSources';
+
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  createSource: vi.fn(),
+  getSources: vi.fn(),
+  updateSourceActive: vi.fn(),
+}));
+
+vi.mock('@/hooks/useSources', () => ({
+  useSources: vi.fn(),
+}));
+
+const OPML = `<?xml version="1.0"?>
+<opml version="2.0">
+  <head><title>Export</title></head>
+  <body>
+    <outline text="Fresh Feed" xmlUrl="https://fresh.example.com/feed"/>
+    <outline text="Known Feed" xmlUrl="https://known.example.com/feed"/>
+    <outline text="Broken Feed" xmlUrl="ftp://broken.example.com/feed"/>
+    <outline text="Another Feed" xmlUrl="https://another.example.com/feed"/>
+  </body>
+</opml>`;
+
+describe('ImportOpmlDialog', () => {
+  let queryClient: QueryClient;
+  const onClose = vi.fn();
+
+  const renderDialog = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <ImportOpmlDialog isOpen onClose={onClose} />
+      </QueryClientProvider>
+    );
+
+  const uploadOpml = async (content: string) => {
+    const user = userEvent.setup();
+    const file = new File([content], 'feeds.opml', { type: 'text/x-opml' });
+    await user.upload(screen.getByLabelText('OPML file'), file);
+    return user;
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    vi.clearAllMocks();
+    vi.mocked(useSourcesModule.useSources).mockReturnValue({
+      sources: [
+        { id: 1, name: 'Known Feed', feed_url: 'https://known.example.com/feed', active: true },
+      ],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+    vi.mocked(sourcesApi.createSource).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should preview feeds with duplicates and invalid entries flagged', async () => {
+    renderDialog();
+
+    await uploadOpml(OPML);
+
+    expect(await screen.findByText('2 new · 1 duplicate · 1 invalid')).toBeInTheDocument();
+    expect(screen.getByText('Already tracked as "Known Feed"')).toBeInTheDocument();
+    expect(screen.getByText('Please enter a valid URL')).toBeInTheDocument();
+    expect(screen.getByLabelText('Fresh Feed')).toBeChecked();
+    expect(screen.getByLabelText('Known Feed')).toBeDisabled();
+    expect(screen.getByLabelText('Broken Feed')).not.toBeChecked();
+    expect(screen.getByRole('button', { name: /Import 2 sources/ })).toBeEnabled();
+  });
+
+  it('should create only the selected feeds and show per-row progress', async () => {
+    vi.mocked(sourcesApi.createSource)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Feed unreachable'));
+    renderDialog();
+
+    const user = await uploadOpml(OPML);
+    await screen.findByText('2 new · 1 duplicate · 1 invalid');
+    await user.click(screen.getByRole('button', { name: /Import 2 sources/ }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Processed 2 of 2 · 1 failed')).toBeInTheDocument();
+    });
+    expect(sourcesApi.createSource).toHaveBeenCalledTimes(2);
+    expect(sourcesApi.createSource).toHaveBeenCalledWith({
+      name: 'Fresh Feed',
+      feedURL: 'https://fresh.example.com/feed',
+    });
+
+    const failedRow = screen.getByText('Another Feed').closest('li')!;
+    expect(within(failedRow).getByRole('alert')).toHaveTextContent('Feed unreachable');
+    expect(screen.queryByRole('button', { name: /Import \d/ })).not.toBeInTheDocument();
+  });
+
+  it('should let the user deselect feeds', async () => {
+    renderDialog();
+
+    const user = await uploadOpml(OPML);
+    await user.click(await screen.findByLabelText('Fresh Feed'));
+
+    expect(screen.getByRole('button', { name: /Import 1 source$/ })).toBeInTheDocument();
+  });
+
+  it('should show an error for files that are not OPML', async () => {
+    renderDialog();
+
+    await uploadOpml('<html><body>Not a feed list</body></html>');
+
+    expect(
+      await screen.findByText('The file is missing the OPML <opml> or <body> element')
+    ).toBeInTheDocument();
+    expect(sourcesApi.createSource).not.toHaveBeenCalled();
+  });
+});
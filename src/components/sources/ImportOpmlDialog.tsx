@@ -0,0 +1,320 @@
+'use client';
+
+import * as React from 'react';
+import { AlertCircle, Check, Loader2, Upload, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { useImportSources, type SourceImportResult } from '@/hooks/useImportSources';
+import { useSources } from '@/hooks/useSources';
+import {
+  buildOpmlImportPreview,
+  OpmlParseError,
+  parseOpml,
+  type OpmlImportRow,
+  type OpmlImportStatus,
+} from '@/utils/opml';
+
+/**
+ * ImportOpmlDialog Component Props
+ */
+interface ImportOpmlDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Callback when the dialog should close */
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<OpmlImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const STATUS_VARIANTS: Record<OpmlImportStatus, 'default' | 'secondary' | 'destructive'> = {
+  new: 'default',
+  duplicate: 'secondary',
+  invalid: 'destructive',
+};
+
+/**
+ * Describe why a row cannot be imported
+ */
+function getRowProblem(row: OpmlImportRow): string | null {
+  if (row.status === 'duplicate') {
+    return `Already tracked as "${row.duplicateOf}"`;
+  }
+  if (row.status === 'invalid') {
+    return [row.errors.name, row.errors.feedURL].filter(Boolean).join(' · ');
+  }
+  return null;
+}
+
+/**
+ * Read an uploaded file as text (FileReader also covers browsers without Blob.text)
+ */
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Import progress indicator for a row
+ */
+function ImportResultIndicator({ result }: { result: SourceImportResult }) {
+  switch (result.state) {
+    case 'pending':
+      return <span className="text-xs text-muted-foreground">Waiting</span>;
+    case 'importing':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" aria-hidden="true" />
+          Importing
+        </span>
+      );
+    case 'imported':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-primary">
+          <Check className="h-3 w-3" aria-hidden="true" />
+          Imported
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-destructive">
+          <X className="h-3 w-3" aria-hidden="true" />
+          Failed
+        </span>
+      );
+  }
+}
+
+/**
+ * ImportOpmlDialog Component
+ *
+ * Imports sources from an OPML file in three steps:
+ * 1. Select a file, which is parsed and validated in the browser
+ * 2. Preview every feed with duplicates (by feed URL) and invalid entries flagged;
+ *    new feeds are selected by default
+ * 3. Create the selected feeds one by one with per-row progress and errors
+ *
+ * @example
+ * ```tsx
+ * <ImportOpmlDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+ * ```
+ */
+export function ImportOpmlDialog({ isOpen, onClose }: ImportOpmlDialogProps) {
+  // Full source list for duplicate detection (the page may show a filtered one)
+  const { sources: existingSources, isLoading: isLoadingSources } = useSources({
+    enabled: isOpen,
+  });
+  const [rows, setRows] = React.useState<OpmlImportRow[] | null>(null);
+  const [selected, setSelected] = React.useState<Set<number>>(new Set());
+  const [parseError, setParseError] = React.useState<string | null>(null);
+  const { results, isImporting, completed, total, importSources, reset } = useImportSources();
+
+  const hasStarted = total > 0;
+  const isDone = hasStarted && !isImporting;
+  const failedCount = Array.from(results.values()).filter(
+    (result) => result.state === 'failed'
+  ).length;
+
+  /**
+   * Parse the selected file and build the preview
+   */
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const preview = buildOpmlImportPreview(
+        parseOpml(await readFileAsText(file)),
+        existingSources
+      );
+      setRows(preview);
+      setSelected(new Set(preview.filter((row) => row.status === 'new').map((row) => row.index)));
+      setParseError(preview.length === 0 ? 'The file does not contain any feeds.' : null);
+    } catch (error) {
+      setRows(null);
+      setParseError(
+        error instanceof OpmlParseError ? error.message : 'The file could not be read.'
+      );
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    await importSources(rows.filter((row) => selected.has(row.index)));
+  };
+
+  /**
+   * Handle dialog close (ignored while an import is running)
+   */
+  const handleClose = () => {
+    if (isImporting) {
+      return;
+    }
+    setRows(null);
+    setSelected(new Set());
+    setParseError(null);
+    reset();
+    onClose();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      handleClose();
+    }
+  };
+
+  const counts = {
+    new: rows?.filter((row) => row.status === 'new').length ?? 0,
+    duplicate: rows?.filter((row) => row.status === 'duplicate').length ?? 0,
+    invalid: rows?.filter((row) => row.status === 'invalid').length ?? 0,
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Sources from OPML</DialogTitle>
+          <DialogDescription>
+            Upload an OPML file exported from another feed reader.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* File Selection */}
+        {!hasStarted && (
+          <div className="space-y-2">
+            <Label htmlFor="opml-file">OPML file</Label>
+            <Input
+              id="opml-file"
+              type="file"
+              accept=".opml,.xml,text/x-opml,application/xml,text/xml"
+              onChange={handleFileChange}
+              disabled={isLoadingSources}
+            />
+          </div>
+        )}
+
+        {parseError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{parseError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Preview / Progress */}
+        {rows && rows.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground" aria-live="polite">
+              {hasStarted
+                ? `Processed ${completed} of ${total}${failedCount > 0 ? ` · ${failedCount} failed` : ''}`
+                : `${counts.new} new · ${counts.duplicate} duplicate · ${counts.invalid} invalid`}
+            </p>
+
+            <ul className="max-h-80 divide-y divide-border overflow-y-auto rounded-md border">
+              {rows.map((row) => {
+                const result = results.get(row.index);
+                const problem = getRowProblem(row);
+                const checkboxId = `opml-row-${row.index}`;
+
+                return (
+                  <li
+                    key={row.index}
+                    className={cn(
+                      'flex items-start gap-3 p-3 text-sm',
+                      row.status !== 'new' && 'bg-muted/40'
+                    )}
+                  >
+                    <input
+                      id={checkboxId}
+                      type="checkbox"
+                      className="mt-1 h-4 w-4 accent-primary"
+                      checked={selected.has(row.index)}
+                      disabled={row.status !== 'new' || hasStarted}
+                      onChange={() => toggleRow(row.index)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <label htmlFor={checkboxId} className="block truncate font-medium">
+                        {row.name || 'Untitled feed'}
+                      </label>
+                      <p className="truncate text-xs text-muted-foreground">{row.feedURL}</p>
+                      {problem && <p className="mt-1 text-xs text-muted-foreground">{problem}</p>}
+                      {result?.error && (
+                        <p className="mt-1 text-xs text-destructive" role="alert">
+                          {result.error}
+                        </p>
+                      )}
+                      {result?.warning && (
+                        <p className="mt-1 text-xs text-muted-foreground">{result.warning}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-1">
+                      <Badge variant={STATUS_VARIANTS[row.status]}>
+                        {STATUS_LABELS[row.status]}
+                      </Badge>
+                      {!row.active && (
+                        <span className="text-xs text-muted-foreground">Inactive</span>
+                      )}
+                      {result && <ImportResultIndicator result={result} />}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isDone ? (
+            <Button onClick={handleClose}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || selected.size === 0}>
+                {isImporting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" aria-hidden="true" />
+                )}
+                Import {selected.size} source{selected.size !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SourceBulkActionsBar } from './SourceBulkActionsBar';
+import { Toaster } from '@/components/common/Toaster';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import { ApiError } from '@/lib/api/errors';
+import { ToastManager } from '@/lib/toast/ToastManager';
+import { getUserRole } from '@/lib/auth/role';
+import type { Source } from '@/types/api';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserRole: vi.fn(),
+}));
+
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  deleteSource: vi.fn(),
+  updateSourceActive: vi.fn(),
+}));
+
+// Undo grace period, adjustable per test (0 sends requests immediately)
+const sourceConfig = vi.hoisted(() => ({ undoGracePeriodMs: 0 }));
+vi.mock('@/config/sourceConfig', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/config/sourceConfig')>();
+  return {
+    SOURCE_CONFIG: {
+      ...actual.SOURCE_CONFIG,
+      get UNDO_GRACE_PERIOD_MS() {
+        return sourceConfig.undoGracePeriodMs;
+      },
+    },
+  };
+});
+
+const sources: Source[] = [
+  { id: 1, name: 'Tech Blog', feed_url: 'https://tech.example.com/feed.xml', active: true },
+  { id: 2, name: 'News Site', feed_url: 'https://news.example.com/feed.xml', active: false },
+];
+
+function renderBar(selectedIds: Set<number>, onSelectionChange = vi.fn()) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <SourceBulkActionsBar
+        sources={sources}
+        selectedIds={selectedIds}
+        onSelectionChange={onSelectionChange}
+      />
+      <Toaster />
+    </QueryClientProvider>
+  );
+  return { onSelectionChange };
+}
+
+describe('SourceBulkActionsBar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ToastManager.resetInstance();
+    sourceConfig.undoGracePeriodMs = 0;
+    vi.mocked(getUserRole).mockReturnValue('admin');
+    vi.mocked(sourcesApi.deleteSource).mockResolvedValue(undefined);
+    vi.mocked(sourcesApi.updateSourceActive).mockImplementation(async (id, active) => ({
+      ...sources.find((source) => source.id === id)!,
+      active,
+    }));
+  });
+
+  it('should disable the actions when nothing is selected', () => {
+    renderBar(new Set());
+    expect(screen.getByText('0 selected')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Activate' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Deactivate' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+  });
+
+  it('should hide Delete without the delete permission', () => {
+    vi.mocked(getUserRole).mockReturnValue('user');
+    renderBar(new Set([1]));
+    expect(screen.getByRole('button', { name: 'Activate' })).toBeEnabled();
+    expect(screen.queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+  });
+
+  it('should select every visible source, then clear the selection', async () => {
+    const user = userEvent.setup();
+    const { onSelectionChange } = renderBar(new Set());
+    await user.click(screen.getByRole('button', { name: 'Select all' }));
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set([1, 2]));
+  });
+
+  it('should offer to clear the selection when everything is selected', async () => {
+    const user = userEvent.setup();
+    const { onSelectionChange } = renderBar(new Set([1, 2]));
+    await user.click(screen.getByRole('button', { name: 'Clear selection' }));
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set());
+  });
+
+  it('should activate the selection and clear it on success', async () => {
+    const user = userEvent.setup();
+    const { onSelectionChange } = renderBar(new Set([2]));
+
+    await user.click(screen.getByRole('button', { name: 'Activate' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Activated 1 source')).toBeInTheDocument();
+    });
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(2, true);
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set());
+  });
+
+  it('should ask for confirmation before deleting', async () => {
+    const user = userEvent.setup();
+    renderBar(new Set([1, 2]));
+
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(screen.getByRole('dialog')).toHaveTextContent('Tech Blog');
+    expect(sourcesApi.deleteSource).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Delete 2 sources' }));
+
+    await waitFor(() => {
+      expect(sourcesApi.deleteSource).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should defer deletion and restore the selection when undone', async () => {
+    const user = userEvent.setup();
+    sourceConfig.undoGracePeriodMs = 5000;
+    const { onSelectionChange } = renderBar(new Set([1, 2]));
+
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+    await user.click(screen.getByRole('button', { name: 'Delete 2 sources' }));
+
+    expect(await screen.findByText('Deleted 2 sources')).toBeInTheDocument();
+    expect(screen.getByText('Processing 0 of 2…')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('2 selected')).toBeInTheDocument();
+    });
+    expect(sourcesApi.deleteSource).not.toHaveBeenCalled();
+    expect(onSelectionChange).not.toHaveBeenCalled();
+  });
+
+  it('should report failures per source and keep failed sources selected', async () => {
+    const user = userEvent.setup();
+    vi.mocked(sourcesApi.updateSourceActive)
+      .mockResolvedValueOnce({ ...sources[0]!, active: false })
+      .mockRejectedValueOnce(new ApiError('Forbidden', 403));
+    const { onSelectionChange } = renderBar(new Set([1, 2]));
+
+    await user.click(screen.getByRole('button', { name: 'Deactivate' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Deactivated 1 source, 1 failed');
+    });
+    expect(screen.getByRole('alert')).toHaveTextContent('News Site:');
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set([2]));
+
+    await user.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,213 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2, Power, PowerOff, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
+import {
+  useBulkSourceActions,
+  type BulkSourceAction,
+  type BulkSourceActionResult,
+} from '@/hooks/useBulkSourceActions';
+import { SOURCE_TEST_IDS } from '@/constants/source';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import { ActionUndoneError, toast } from '@/lib/toast/ToastManager';
+import type { Source } from '@/types/api';
+
+/**
+ * SourceBulkActionsBar Component Props
+ */
+interface SourceBulkActionsBarProps {
+  /** Sources currently shown on the page */
+  sources: Source[];
+  /** IDs of the selected sources */
+  selectedIds: ReadonlySet<number>;
+  /** Callback when the selection should change */
+  onSelectionChange: (selectedIds: Set<number>) => void;
+}
+
+const ACTION_PAST_TENSE: Record<BulkSourceAction, string> = {
+  activate: 'Activated',
+  deactivate: 'Deactivated',
+  delete: 'Deleted',
+};
+
+function pluralizeSources(count: number): string {
+  return `${count} source${count !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Report a finished batch with a toast
+ *
+ * Deactivate/delete batches were already announced by the undo toast,
+ * so only their failures and aborts are reported.
+ */
+function showResultToast(result: BulkSourceActionResult): void {
+  const processed = result.succeeded.length + result.failed.length;
+  const summary = `${ACTION_PAST_TENSE[result.action]} ${pluralizeSources(result.succeeded.length)}`;
+
+  if (result.aborted) {
+    toast.error(`Aborted after ${processed} of ${processed + result.skipped.length} sources`, {
+      description: 'The list has been reloaded from the server.',
+    });
+  } else if (result.failed.length > 0) {
+    // Kept until dismissed so every failure can be read
+    toast.error(`${summary}, ${result.failed.length} failed`, {
+      description: result.failed.map(({ source, error }) => `${source.name}: ${error}`).join('\n'),
+      durationMs: 0,
+    });
+  } else if (result.action === 'activate') {
+    toast.success(summary);
+  }
+}
+
+/**
+ * SourceBulkActionsBar Component
+ *
+ * Toolbar for acting on several sources at once (requires 'source:update'):
+ * - Select all visible sources / clear the selection
+ * - Activate, deactivate or delete the selection (delete requires 'source:delete'
+ *   and asks for confirmation)
+ * - Deactivate/delete wait behind an "Undo" toast for SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS
+ * - Progress while the batch runs, with an Abort button
+ * - Toast listing failures per source; failed and skipped sources stay selected
+ *   so the action can be retried
+ *
+ * @example
+ * ```tsx
+ * <SourceBulkActionsBar
+ *   sources={sources}
+ *   selectedIds={selectedIds}
+ *   onSelectionChange={setSelectedIds}
+ * />
+ * ```
+ */
+export function SourceBulkActionsBar({
+  sources,
+  selectedIds,
+  onSelectionChange,
+}: SourceBulkActionsBarProps) {
+  const { runBulkAction, abort, isPending, completed, total, reset } = useBulkSourceActions({
+    undoGracePeriodMs: SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS,
+  });
+  const [isConfirmOpen, setIsConfirmOpen] = React.useState(false);
+
+  const selectedSources = sources.filter((source) => selectedIds.has(source.id));
+  const allSelected = sources.length > 0 && selectedSources.length === sources.length;
+  const hasSelection = selectedSources.length > 0;
+
+  const handleToggleAll = () => {
+    onSelectionChange(allSelected ? new Set() : new Set(sources.map((source) => source.id)));
+  };
+
+  const handleRun = async (action: BulkSourceAction) => {
+    setIsConfirmOpen(false);
+    reset();
+    try {
+      const outcome = await runBulkAction(action, selectedSources);
+      onSelectionChange(
+        new Set([...outcome.failed.map(({ source }) => source.id), ...outcome.skipped])
+      );
+      showResultToast(outcome);
+    } catch (error) {
+      // Undo keeps the selection; the cache is already restored
+      if (!(error instanceof ActionUndoneError)) {
+        toast.error('Bulk action failed', { description: (error as Error).message });
+      }
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-3" data-testid={SOURCE_TEST_IDS.BULK_ACTIONS}>
+      <div
+        className="flex flex-wrap items-center gap-2 rounded-lg border bg-card p-3"
+        role="toolbar"
+        aria-label="Bulk source actions"
+      >
+        <Button variant="ghost" size="sm" onClick={handleToggleAll} disabled={isPending}>
+          {allSelected ? 'Clear selection' : 'Select all'}
+        </Button>
+        <span className="text-sm text-muted-foreground" aria-live="polite">
+          {isPending
+            ? `Processing ${completed} of ${total}…`
+            : `${selectedSources.length} selected`}
+        </span>
+
+        <div className="ml-auto flex flex-wrap gap-2">
+          {isPending ? (
+            <Button variant="outline" size="sm" onClick={abort}>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+              Abort
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRun('activate')}
+                disabled={!hasSelection}
+              >
+                <Power className="mr-2 h-4 w-4" aria-hidden="true" />
+                Activate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRun('deactivate')}
+                disabled={!hasSelection}
+              >
+                <PowerOff className="mr-2 h-4 w-4" aria-hidden="true" />
+                Deactivate
+              </Button>
+              <Can permission="source:delete">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setIsConfirmOpen(true)}
+                  disabled={!hasSelection}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Delete
+                </Button>
+              </Can>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Delete confirmation */}
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {pluralizeSources(selectedSources.length)}</DialogTitle>
+            <DialogDescription>
+              This deletes the selected sources. You can undo this for a few seconds after
+              confirming.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-48 list-inside list-disc overflow-y-auto text-sm">
+            {selectedSources.map((source) => (
+              <li key={source.id}>{source.name}</li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => handleRun('delete')}>
+              Delete {pluralizeSources(selectedSources.length)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { act, render, screen, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { SourceCard } from './SourceCard';
 import type { Source } from '@/types/api';
+import { getUserRole } from '@/lib/auth/role';
+import { getUserRoleStore } from '@/lib/auth/UserRoleStore';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserRole: vi.fn(),
+}));
 
 describe('SourceCard', () => {
   const NOW = new Date('2025-01-15T12:00:00Z');
@@ -10,6 +16,7 @@ describe('SourceCard', () => {
   beforeEach(() => {
     vi.useFakeTimers();
     vi.setSystemTime(NOW);
+    vi.mocked(getUserRole).mockReturnValue('user');
   });
 
   afterEach(() => {
@@ -28,13 +35,19 @@ describe('SourceCard', () => {
   describe('Rendering', () => {
     it('should render source name', () => {
       const source = createMockSource({ name: 'Tech Blog' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByRole('heading', { level: 3, name: 'Tech Blog' })).toBeInTheDocument();
     });
 
+    it('should link the source name to the source detail page', () => {
+      const source = createMockSource({ id: 7, name: 'Tech Blog' });
+      render(<SourceCard source={source} />);
+      expect(screen.getByRole('link', { name: 'Tech Blog' })).toHaveAttribute('href', '/sources/7');
+    });
+
     it('should render RSS icon', () => {
       const source = createMockSource();
-      const { container } = render(<SourceCard source={source} userRole="user" />);
+      const { container } = render(<SourceCard source={source} />);
       const icon = container.querySelector('svg');
       expect(icon).toBeInTheDocument();
       expect(icon).toHaveClass('text-primary');
@@ -42,7 +55,7 @@ describe('SourceCard', () => {
 
     it('should render status badge', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Active')).toBeInTheDocument();
     });
 
@@ -50,27 +63,38 @@ describe('SourceCard', () => {
       const source = createMockSource({
         last_crawled_at: new Date(NOW.getTime() - 2 * 60 * 60 * 1000).toISOString(),
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('2 hours ago')).toBeInTheDocument();
     });
 
     it('should render "Never crawled" when last_crawled_at is null', () => {
       const source = createMockSource({ last_crawled_at: null });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Never crawled')).toBeInTheDocument();
     });
+
+    it('should render the source type badge', () => {
+      const source = createMockSource({ source_type: 'Webflow' });
+      render(<SourceCard source={source} />);
+      expect(screen.getByLabelText('Type: Webflow')).toHaveTextContent('Webflow');
+    });
+
+    it('should show sources without a type as RSS', () => {
+      render(<SourceCard source={createMockSource()} />);
+      expect(screen.getByLabelText('Type: RSS')).toBeInTheDocument();
+    });
   });
 
   describe('Active Status', () => {
     it('should show Active badge for active source', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Active')).toBeInTheDocument();
     });
 
     it('should show Inactive badge for inactive source', () => {
       const source = createMockSource({ active: false });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Inactive')).toBeInTheDocument();
     });
   });
@@ -78,29 +102,27 @@ describe('SourceCard', () => {
   describe('Styling', () => {
     it('should apply custom className', () => {
       const source = createMockSource();
-      const { container } = render(
-        <SourceCard source={source} className="custom-class" userRole="user" />
-      );
+      const { container } = render(<SourceCard source={source} className="custom-class" />);
       expect(container.firstChild).toHaveClass('custom-class');
     });
 
     it('should have flex column layout', () => {
       const source = createMockSource();
-      const { container } = render(<SourceCard source={source} userRole="user" />);
+      const { container } = render(<SourceCard source={source} />);
       expect(container.firstChild).toHaveClass('flex');
       expect(container.firstChild).toHaveClass('flex-col');
     });
 
     it('should truncate long source name', () => {
       const source = createMockSource({ name: 'A'.repeat(100) });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       const heading = screen.getByRole('heading', { level: 3 });
       expect(heading).toHaveClass('truncate');
     });
 
     it('should truncate long feed URL', () => {
       const source = createMockSource({ feed_url: 'https://example.com/' + 'a'.repeat(100) });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveClass('truncate');
     });
@@ -109,33 +131,33 @@ describe('SourceCard', () => {
   describe('Accessibility', () => {
     it('should have role listitem', () => {
       const source = createMockSource();
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByRole('listitem')).toBeInTheDocument();
     });
 
     it('should have aria-label with source name', () => {
       const source = createMockSource({ name: 'Tech Blog' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByRole('listitem')).toHaveAttribute('aria-label', 'Source: Tech Blog');
     });
 
     it('should hide RSS icon from screen readers', () => {
       const source = createMockSource();
-      const { container } = render(<SourceCard source={source} userRole="user" />);
+      const { container } = render(<SourceCard source={source} />);
       const icon = container.querySelector('svg');
       expect(icon).toHaveAttribute('aria-hidden', 'true');
     });
 
     it('should have accessible feed URL with aria-label', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByLabelText('Visit feed: https://example.com/feed')).toBeInTheDocument();
     });
 
     it('should have time element for last crawled', () => {
       const lastCrawledAt = new Date(NOW.getTime() - 1 * 60 * 60 * 1000).toISOString();
       const source = createMockSource({ last_crawled_at: lastCrawledAt });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       const timeElement = screen.getByRole('time');
       expect(timeElement).toHaveAttribute('datetime', lastCrawledAt);
     });
@@ -143,7 +165,7 @@ describe('SourceCard', () => {
     it('should have proper title attribute for truncated URL', () => {
       const longUrl = 'https://example.com/' + 'a'.repeat(100);
       const source = createMockSource({ feed_url: longUrl });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveAttribute('title', longUrl);
     });
@@ -152,7 +174,7 @@ describe('SourceCard', () => {
   describe('Feed URL Link', () => {
     it('should render feed URL as clickable link', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toBeInTheDocument();
@@ -161,7 +183,7 @@ describe('SourceCard', () => {
 
     it('should open link in new tab', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveAttribute('target', '_blank');
@@ -169,7 +191,7 @@ describe('SourceCard', () => {
 
     it('should include security attributes', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveAttribute('rel', 'noopener noreferrer');
@@ -177,7 +199,7 @@ describe('SourceCard', () => {
 
     it('should have correct accessibility label', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveAttribute('aria-label', 'Visit feed: https://example.com/feed.xml');
@@ -185,7 +207,7 @@ describe('SourceCard', () => {
 
     it('should show tooltip with full URL', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveAttribute('title', 'https://example.com/feed.xml');
@@ -193,7 +215,7 @@ describe('SourceCard', () => {
 
     it('should truncate long URLs visually', () => {
       const source = createMockSource({ feed_url: 'https://example.com/' + 'a'.repeat(100) });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveClass('truncate');
@@ -201,7 +223,7 @@ describe('SourceCard', () => {
 
     it('should be keyboard accessible', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
 
@@ -215,7 +237,7 @@ describe('SourceCard', () => {
 
     it('should have hover and focus styles', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveClass('hover:text-primary');
@@ -225,7 +247,7 @@ describe('SourceCard', () => {
 
     it('should maintain block-level layout', () => {
       const source = createMockSource({ feed_url: 'https://example.com/feed.xml' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveClass('block');
@@ -238,7 +260,7 @@ describe('SourceCard', () => {
       const source = createMockSource({
         last_crawled_at: new Date(NOW.getTime() - 30 * 1000).toISOString(), // 30 seconds ago
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Just now')).toBeInTheDocument();
     });
 
@@ -246,7 +268,7 @@ describe('SourceCard', () => {
       const source = createMockSource({
         last_crawled_at: new Date(NOW.getTime() - 45 * 60 * 1000).toISOString(),
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('45 minutes ago')).toBeInTheDocument();
     });
 
@@ -254,7 +276,7 @@ describe('SourceCard', () => {
       const source = createMockSource({
         last_crawled_at: new Date(NOW.getTime() - 5 * 60 * 60 * 1000).toISOString(),
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('5 hours ago')).toBeInTheDocument();
     });
 
@@ -262,7 +284,7 @@ describe('SourceCard', () => {
       const source = createMockSource({
         last_crawled_at: new Date(NOW.getTime() - 3 * 24 * 60 * 60 * 1000).toISOString(),
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('3 days ago')).toBeInTheDocument();
     });
   });
@@ -274,7 +296,7 @@ describe('SourceCard', () => {
         feed_url: 'https://min.com',
         last_crawled_at: null,
       });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Minimal')).toBeInTheDocument();
       const link = screen.getByRole('link', { name: /visit feed:/i });
       expect(link).toHaveTextContent('https://min.com');
@@ -283,7 +305,7 @@ describe('SourceCard', () => {
 
     it('should handle special characters in source name', () => {
       const source = createMockSource({ name: '<script>alert("xss")</script>' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByRole('heading', { level: 3 })).toHaveTextContent(
         '<script>alert("xss")</script>'
       );
@@ -291,14 +313,14 @@ describe('SourceCard', () => {
 
     it('should handle unicode in source name', () => {
       const source = createMockSource({ name: '日本語のソース名 🎉' });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('日本語のソース名 🎉')).toBeInTheDocument();
     });
 
     it('should handle undefined last_crawled_at', () => {
       const source = createMockSource();
       source.last_crawled_at = undefined as unknown as string | null;
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
       expect(screen.getByText('Never crawled')).toBeInTheDocument();
     });
   });
@@ -311,31 +333,34 @@ describe('SourceCard', () => {
     });
 
     describe('Visibility', () => {
-      it('should show edit button when userRole is admin and onEdit is provided', () => {
+      it('should show edit button for an admin and onEdit is provided', () => {
         const source = createMockSource({ name: 'Tech Blog' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toBeInTheDocument();
       });
 
-      it('should NOT show edit button when userRole is user', () => {
+      it('should NOT show edit button for a user', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="user" onEdit={mockOnEdit} />);
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         expect(screen.queryByTestId('source-edit-button')).not.toBeInTheDocument();
       });
 
-      it('should NOT show edit button when userRole is null', () => {
+      it('should NOT show edit button when signed out', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole={null} onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue(null);
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         expect(screen.queryByTestId('source-edit-button')).not.toBeInTheDocument();
       });
 
       it('should NOT show edit button when onEdit is not provided (even for admin)', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} />);
 
         expect(screen.queryByTestId('source-edit-button')).not.toBeInTheDocument();
       });
@@ -344,15 +369,17 @@ describe('SourceCard', () => {
         const source = createMockSource();
 
         // Admin without onEdit - no button
-        const { rerender } = render(<SourceCard source={source} userRole="admin" />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        const { rerender } = render(<SourceCard source={source} />);
         expect(screen.queryByTestId('source-edit-button')).not.toBeInTheDocument();
 
         // Admin with onEdit - button appears
-        rerender(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        rerender(<SourceCard source={source} onEdit={mockOnEdit} />);
         expect(screen.getByTestId('source-edit-button')).toBeInTheDocument();
 
         // User with onEdit - no button
-        rerender(<SourceCard source={source} userRole="user" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('user');
+        act(() => getUserRoleStore().refresh());
         expect(screen.queryByTestId('source-edit-button')).not.toBeInTheDocument();
       });
     });
@@ -366,7 +393,8 @@ describe('SourceCard', () => {
           active: true,
         });
 
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         fireEvent.click(editButton);
@@ -378,7 +406,8 @@ describe('SourceCard', () => {
       it('should handle multiple clicks correctly', () => {
         const source = createMockSource({ id: 1, name: 'Test Source' });
 
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
 
@@ -402,7 +431,8 @@ describe('SourceCard', () => {
           last_crawled_at: '2025-01-10T10:00:00Z',
         });
 
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         fireEvent.click(editButton);
@@ -420,7 +450,8 @@ describe('SourceCard', () => {
     describe('Accessibility', () => {
       it('should have correct aria-label containing source name', () => {
         const source = createMockSource({ name: 'Tech Blog' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveAttribute('aria-label', 'Edit source: Tech Blog');
@@ -428,7 +459,8 @@ describe('SourceCard', () => {
 
       it('should have correct aria-label for different source names', () => {
         const source = createMockSource({ name: 'News Feed 123' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveAttribute('aria-label', 'Edit source: News Feed 123');
@@ -436,7 +468,8 @@ describe('SourceCard', () => {
 
       it('should have correct data-testid', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.queryByTestId('source-edit-button');
         expect(editButton).toBeInTheDocument();
@@ -444,7 +477,8 @@ describe('SourceCard', () => {
 
       it('should be keyboard accessible and focusable', () => {
         const source = createMockSource({ name: 'Test Source' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
 
@@ -458,7 +492,8 @@ describe('SourceCard', () => {
 
       it('should have proper button role', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         // Button element should have role="button" (implicit)
@@ -467,9 +502,8 @@ describe('SourceCard', () => {
 
       it('should render Pencil icon for visual indication', () => {
         const source = createMockSource();
-        const { container } = render(
-          <SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />
-        );
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        const { container } = render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         const icon = editButton.querySelector('svg');
@@ -480,7 +514,8 @@ describe('SourceCard', () => {
     describe('Styling', () => {
       it('should have ghost variant and icon size', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveClass('h-8');
@@ -489,7 +524,8 @@ describe('SourceCard', () => {
 
       it('should not shrink in flex layout', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveClass('shrink-0');
@@ -501,13 +537,9 @@ describe('SourceCard', () => {
         const mockOnUpdateActive = vi.fn();
         const source = createMockSource({ active: true });
 
+        vi.mocked(getUserRole).mockReturnValue('admin');
         render(
-          <SourceCard
-            source={source}
-            userRole="admin"
-            onEdit={mockOnEdit}
-            onUpdateActive={mockOnUpdateActive}
-          />
+          <SourceCard source={source} onEdit={mockOnEdit} onUpdateActive={mockOnUpdateActive} />
         );
 
         // Both edit button and toggle should be present
@@ -518,7 +550,7 @@ describe('SourceCard', () => {
       it('should not interfere with status badge for non-admin', () => {
         const source = createMockSource({ active: true });
 
-        render(<SourceCard source={source} userRole="user" onEdit={mockOnEdit} />);
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         // Badge should be visible, edit button should not
         expect(screen.getByText('Active')).toBeInTheDocument();
@@ -533,7 +565,8 @@ describe('SourceCard', () => {
           last_crawled_at: new Date(NOW.getTime() - 1 * 60 * 60 * 1000).toISOString(),
         });
 
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         // All elements should be present
         expect(screen.getByRole('heading', { name: 'Tech Blog' })).toBeInTheDocument();
@@ -546,7 +579,8 @@ describe('SourceCard', () => {
     describe('Edge Cases', () => {
       it('should handle source with special characters in name', () => {
         const source = createMockSource({ name: '<script>XSS</script>' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveAttribute('aria-label', 'Edit source: <script>XSS</script>');
@@ -557,7 +591,8 @@ describe('SourceCard', () => {
 
       it('should handle source with unicode characters in name', () => {
         const source = createMockSource({ name: '日本語ソース 🎉' });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveAttribute('aria-label', 'Edit source: 日本語ソース 🎉');
@@ -569,7 +604,8 @@ describe('SourceCard', () => {
       it('should handle very long source names', () => {
         const longName = 'A'.repeat(200);
         const source = createMockSource({ name: longName });
-        render(<SourceCard source={source} userRole="admin" onEdit={mockOnEdit} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} />);
 
         const editButton = screen.getByTestId('source-edit-button');
         expect(editButton).toHaveAttribute('aria-label', `Edit source: ${longName}`);
@@ -587,7 +623,8 @@ describe('SourceCard', () => {
     describe('Visibility', () => {
       it('shows delete button for admin users when onDelete prop provided', () => {
         const source = createMockSource({ name: 'Tech Blog' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toBeInTheDocument();
@@ -595,21 +632,23 @@ describe('SourceCard', () => {
 
       it('hides delete button for non-admin users', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="user" onDelete={mockOnDelete} />);
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         expect(screen.queryByTestId('source-delete-button')).not.toBeInTheDocument();
       });
 
       it('hides delete button when onDelete prop not provided', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} />);
 
         expect(screen.queryByTestId('source-delete-button')).not.toBeInTheDocument();
       });
 
-      it('hides delete button when userRole is null', () => {
+      it('hides delete button when signed out', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole={null} onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue(null);
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         expect(screen.queryByTestId('source-delete-button')).not.toBeInTheDocument();
       });
@@ -618,15 +657,17 @@ describe('SourceCard', () => {
         const source = createMockSource();
 
         // Admin without onDelete - no button
-        const { rerender } = render(<SourceCard source={source} userRole="admin" />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        const { rerender } = render(<SourceCard source={source} />);
         expect(screen.queryByTestId('source-delete-button')).not.toBeInTheDocument();
 
         // Admin with onDelete - button appears
-        rerender(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        rerender(<SourceCard source={source} onDelete={mockOnDelete} />);
         expect(screen.getByTestId('source-delete-button')).toBeInTheDocument();
 
         // User with onDelete - no button
-        rerender(<SourceCard source={source} userRole="user" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('user');
+        act(() => getUserRoleStore().refresh());
         expect(screen.queryByTestId('source-delete-button')).not.toBeInTheDocument();
       });
     });
@@ -640,7 +681,8 @@ describe('SourceCard', () => {
           active: true,
         });
 
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         fireEvent.click(deleteButton);
@@ -652,7 +694,8 @@ describe('SourceCard', () => {
       it('handles multiple clicks correctly', () => {
         const source = createMockSource({ id: 1, name: 'Test Source' });
 
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
 
@@ -676,7 +719,8 @@ describe('SourceCard', () => {
           last_crawled_at: '2025-01-10T10:00:00Z',
         });
 
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         fireEvent.click(deleteButton);
@@ -694,7 +738,8 @@ describe('SourceCard', () => {
     describe('Accessibility', () => {
       it('delete button has correct ARIA label', () => {
         const source = createMockSource({ name: 'Tech Blog' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveAttribute('aria-label', 'Delete source: Tech Blog');
@@ -702,7 +747,8 @@ describe('SourceCard', () => {
 
       it('delete button has correct aria-label for different source names', () => {
         const source = createMockSource({ name: 'News Feed 123' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveAttribute('aria-label', 'Delete source: News Feed 123');
@@ -710,7 +756,8 @@ describe('SourceCard', () => {
 
       it('delete button has correct data-testid', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.queryByTestId('source-delete-button');
         expect(deleteButton).toBeInTheDocument();
@@ -718,7 +765,8 @@ describe('SourceCard', () => {
 
       it('delete button is keyboard accessible and focusable', () => {
         const source = createMockSource({ name: 'Test Source' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
 
@@ -732,7 +780,8 @@ describe('SourceCard', () => {
 
       it('delete button has proper button role', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         // Button element should have role="button" (implicit)
@@ -741,7 +790,8 @@ describe('SourceCard', () => {
 
       it('delete button renders Trash2 icon for visual indication', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         const icon = deleteButton.querySelector('svg');
@@ -752,7 +802,8 @@ describe('SourceCard', () => {
     describe('Styling', () => {
       it('delete button has ghost variant and icon size', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveClass('h-8');
@@ -761,7 +812,8 @@ describe('SourceCard', () => {
 
       it('delete button does not shrink in flex layout', () => {
         const source = createMockSource();
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveClass('shrink-0');
@@ -773,14 +825,8 @@ describe('SourceCard', () => {
         const mockOnEdit = vi.fn();
         const source = createMockSource({ active: true });
 
-        render(
-          <SourceCard
-            source={source}
-            userRole="admin"
-            onEdit={mockOnEdit}
-            onDelete={mockOnDelete}
-          />
-        );
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onEdit={mockOnEdit} onDelete={mockOnDelete} />);
 
         // Both edit and delete buttons should be present
         expect(screen.getByTestId('source-edit-button')).toBeInTheDocument();
@@ -791,13 +837,9 @@ describe('SourceCard', () => {
         const mockOnUpdateActive = vi.fn();
         const source = createMockSource({ active: true });
 
+        vi.mocked(getUserRole).mockReturnValue('admin');
         render(
-          <SourceCard
-            source={source}
-            userRole="admin"
-            onDelete={mockOnDelete}
-            onUpdateActive={mockOnUpdateActive}
-          />
+          <SourceCard source={source} onDelete={mockOnDelete} onUpdateActive={mockOnUpdateActive} />
         );
 
         // Both delete button and toggle should be present
@@ -808,7 +850,7 @@ describe('SourceCard', () => {
       it('does not interfere with status badge for non-admin', () => {
         const source = createMockSource({ active: true });
 
-        render(<SourceCard source={source} userRole="user" onDelete={mockOnDelete} />);
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         // Badge should be visible, delete button should not
         expect(screen.getByText('Active')).toBeInTheDocument();
@@ -823,7 +865,8 @@ describe('SourceCard', () => {
           last_crawled_at: new Date(NOW.getTime() - 1 * 60 * 60 * 1000).toISOString(),
         });
 
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         // All elements should be present
         expect(screen.getByRole('heading', { name: 'Tech Blog' })).toBeInTheDocument();
@@ -836,7 +879,8 @@ describe('SourceCard', () => {
     describe('Edge Cases', () => {
       it('handles source with special characters in name', () => {
         const source = createMockSource({ name: '<script>XSS</script>' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveAttribute('aria-label', 'Delete source: <script>XSS</script>');
@@ -847,7 +891,8 @@ describe('SourceCard', () => {
 
       it('handles source with unicode characters in name', () => {
         const source = createMockSource({ name: '日本語ソース 🎉' });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveAttribute('aria-label', 'Delete source: 日本語ソース 🎉');
@@ -859,7 +904,8 @@ describe('SourceCard', () => {
       it('handles very long source names', () => {
         const longName = 'A'.repeat(200);
         const source = createMockSource({ name: longName });
-        render(<SourceCard source={source} userRole="admin" onDelete={mockOnDelete} />);
+        vi.mocked(getUserRole).mockReturnValue('admin');
+        render(<SourceCard source={source} onDelete={mockOnDelete} />);
 
         const deleteButton = screen.getByTestId('source-delete-button');
         expect(deleteButton).toHaveAttribute('aria-label', `Delete source: ${longName}`);
@@ -874,9 +920,9 @@ describe('SourceCard', () => {
       vi.clearAllMocks();
     });
 
-    it('should render StatusBadge when userRole is "user"', () => {
+    it('should render StatusBadge for a user', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       // Should show badge
       expect(screen.getByText('Active')).toBeInTheDocument();
@@ -885,9 +931,10 @@ describe('SourceCard', () => {
       expect(screen.queryByRole('switch')).not.toBeInTheDocument();
     });
 
-    it('should render StatusBadge when userRole is null', () => {
+    it('should render StatusBadge when signed out', () => {
       const source = createMockSource({ active: false });
-      render(<SourceCard source={source} userRole={null} />);
+      vi.mocked(getUserRole).mockReturnValue(null);
+      render(<SourceCard source={source} />);
 
       // Should show badge
       expect(screen.getByText('Inactive')).toBeInTheDocument();
@@ -896,9 +943,10 @@ describe('SourceCard', () => {
       expect(screen.queryByRole('switch')).not.toBeInTheDocument();
     });
 
-    it('should render ActiveToggle when userRole is "admin" with onUpdateActive', () => {
+    it('should render ActiveToggle for an admin with onUpdateActive', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       // Should show toggle
       expect(screen.getByRole('switch')).toBeInTheDocument();
@@ -907,9 +955,10 @@ describe('SourceCard', () => {
       expect(screen.queryByText('Active')).not.toBeInTheDocument();
     });
 
-    it('should render StatusBadge when userRole is "admin" but no onUpdateActive', () => {
+    it('should render StatusBadge for an admin but no onUpdateActive', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="admin" />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} />);
 
       // Should show badge (fallback when no callback provided)
       expect(screen.getByText('Active')).toBeInTheDocument();
@@ -925,7 +974,8 @@ describe('SourceCard', () => {
         active: false,
       });
 
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -941,7 +991,7 @@ describe('SourceCard', () => {
 
     it('should pass correct props to StatusBadge for active source', () => {
       const source = createMockSource({ active: true });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       expect(screen.getByText('Active')).toBeInTheDocument();
       expect(screen.getByLabelText('Status: Active')).toBeInTheDocument();
@@ -949,7 +999,7 @@ describe('SourceCard', () => {
 
     it('should pass correct props to StatusBadge for inactive source', () => {
       const source = createMockSource({ active: false });
-      render(<SourceCard source={source} userRole="user" />);
+      render(<SourceCard source={source} />);
 
       expect(screen.getByText('Inactive')).toBeInTheDocument();
       expect(screen.getByLabelText('Status: Inactive')).toBeInTheDocument();
@@ -958,7 +1008,8 @@ describe('SourceCard', () => {
     it('should pass onUpdateActive callback to ActiveToggle', () => {
       const source = createMockSource({ id: 5, active: true });
 
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       // Verify toggle is rendered (ActiveToggle receives the callback)
       const toggle = screen.getByRole('switch');
@@ -969,7 +1020,8 @@ describe('SourceCard', () => {
     it('should render ActiveToggle with correct initial state for inactive source', () => {
       const source = createMockSource({ active: false });
 
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).toBeInTheDocument();
@@ -979,12 +1031,13 @@ describe('SourceCard', () => {
     it('should memoize handleToggle callback', () => {
       const source = createMockSource();
 
+      vi.mocked(getUserRole).mockReturnValue('admin');
       const { rerender } = render(
-        <SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />
+        <SourceCard source={source} onUpdateActive={mockOnUpdateActive} />
       );
 
       // Re-render with same onUpdateActive
-      rerender(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      rerender(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       // Should not cause unnecessary re-renders
       expect(screen.getByRole('switch')).toBeInTheDocument();
@@ -993,14 +1046,16 @@ describe('SourceCard', () => {
     it('should handle switching between admin and non-admin roles', () => {
       const source = createMockSource({ active: true });
 
-      const { rerender } = render(<SourceCard source={source} userRole="user" />);
+      const { rerender } = render(<SourceCard source={source} />);
 
       // Initial: non-admin - should show badge
       expect(screen.getByText('Active')).toBeInTheDocument();
       expect(screen.queryByRole('switch')).not.toBeInTheDocument();
 
       // Re-render as admin
-      rerender(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      act(() => getUserRoleStore().refresh());
+      rerender(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       // Should now show toggle
       expect(screen.queryByText('Active')).not.toBeInTheDocument();
@@ -1010,7 +1065,8 @@ describe('SourceCard', () => {
     it('should render correctly for admin with active source', () => {
       const source = createMockSource({ active: true });
 
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).toBeChecked();
@@ -1019,10 +1075,37 @@ describe('SourceCard', () => {
     it('should render correctly for admin with inactive source', () => {
       const source = createMockSource({ active: false });
 
-      render(<SourceCard source={source} userRole="admin" onUpdateActive={mockOnUpdateActive} />);
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onUpdateActive={mockOnUpdateActive} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).not.toBeChecked();
     });
   });
+
+  describe('Bulk Selection', () => {
+    it('should render a selection checkbox for admin when onSelectChange is provided', () => {
+      const source = createMockSource({ name: 'Tech Blog' });
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} selected onSelectChange={vi.fn()} />);
+      expect(screen.getByRole('checkbox', { name: 'Select source: Tech Blog' })).toBeChecked();
+    });
+
+    it('should call onSelectChange with the source and the new state', () => {
+      const source = createMockSource();
+      const onSelectChange = vi.fn();
+      vi.mocked(getUserRole).mockReturnValue('admin');
+      render(<SourceCard source={source} onSelectChange={onSelectChange} />);
+
+      fireEvent.click(screen.getByRole('checkbox'));
+
+      expect(onSelectChange).toHaveBeenCalledWith(source, true);
+    });
+
+    it('should not render a selection checkbox for non-admin users', () => {
+      const source = createMockSource();
+      render(<SourceCard source={source} onSelectChange={vi.fn()} />);
+      expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -2,24 +2,28 @@
  * SourceCard Component
  *
  * Displays a source (RSS feed) in a card format with:
- * - Source name and RSS icon
- * - Edit button (admin only, when onEdit provided)
- * - Delete button (admin only, when onDelete provided)
+ * - Source name (linking to the source detail page) and RSS icon
+ * - Selection checkbox for bulk actions ('source:update', when onSelectChange provided)
+ * - Edit button ('source:update', when onEdit provided)
+ * - Delete button ('source:delete', when onDelete provided)
  * - Feed URL (truncated with tooltip)
- * - Active/Inactive status badge (non-admin) or toggle (admin)
+ * - Active/Inactive status badge, or toggle with 'source:update'
+ * - Source type badge
  * - Last crawled timestamp
  * - Cyber/glow theme styling
  */
 import * as React from 'react';
+import Link from 'next/link';
 import { Rss, Pencil, Trash2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { formatRelativeTime } from '@/lib/utils/formatDate';
 import type { Source } from '@/types/api';
-import type { UserRole } from '@/lib/auth/role';
+import { useCan } from '@/hooks/useCan';
 import { StatusBadge } from './StatusBadge';
 import { ActiveToggle } from './ActiveToggle';
+import { SourceTypeBadge } from './SourceTypeBadge';
 import { SOURCE_TEST_IDS, SOURCE_ARIA_LABELS } from '@/constants/source';
 
 /**
@@ -30,14 +34,16 @@ interface SourceCardProps {
   source: Source;
   /** Additional CSS classes */
   className?: string;
-  /** User role for conditional rendering */
-  userRole: UserRole;
-  /** Callback when active status is updated (admin only) */
+  /** Callback when active status is updated (requires 'source:update') */
   onUpdateActive?: (sourceId: number, active: boolean) => Promise<void>;
-  /** Callback when edit button is clicked (admin only) */
+  /** Callback when edit button is clicked (requires 'source:update') */
   onEdit?: (source: Source) => void;
-  /** Callback when delete button is clicked (admin only) */
+  /** Callback when delete button is clicked (requires 'source:delete') */
   onDelete?: (source: Source) => void;
+  /** Whether the source is selected for bulk actions */
+  selected?: boolean;
+  /** Callback when the selection checkbox changes (requires 'source:update') */
+  onSelectChange?: (source: Source, selected: boolean) => void;
 }
 
 /**
@@ -49,7 +55,6 @@ interface SourceCardProps {
  * ```tsx
  * <SourceCard
  *   source={source}
- *   userRole={userRole}
  *   onUpdateActive={handleUpdateActive}
  *   onEdit={handleEdit}
  *   onDelete={handleDelete}
@@ -59,16 +64,18 @@ interface SourceCardProps {
 export const SourceCard = React.memo(function SourceCard({
   source,
   className,
-  userRole,
   onUpdateActive,
   onEdit,
   onDelete,
+  selected = false,
+  onSelectChange,
 }: SourceCardProps) {
   const lastCrawled = source.last_crawled_at
     ? formatRelativeTime(source.last_crawled_at)
     : 'Never crawled';
 
-  const isAdmin = userRole === 'admin';
+  const canUpdate = useCan('source:update');
+  const canDelete = useCan('source:delete');
 
   /**
    * Handle toggle callback
@@ -85,20 +92,37 @@ export const SourceCard = React.memo(function SourceCard({
 
   return (
     <Card
-      className={cn('flex flex-col', className)}
+      className={cn('flex flex-col', selected && 'border-primary/60 shadow-glow-sm', className)}
       role="listitem"
       aria-label={`Source: ${source.name}`}
     >
       <CardContent className="flex flex-col gap-4 p-6">
         {/* Icon and Name */}
         <div className="flex items-start gap-3">
+          {canUpdate && onSelectChange && (
+            <input
+              type="checkbox"
+              className="mt-3 h-4 w-4 shrink-0 accent-primary"
+              checked={selected}
+              onChange={(event) => onSelectChange(source, event.target.checked)}
+              data-testid={SOURCE_TEST_IDS.SELECT_CHECKBOX}
+              aria-label={SOURCE_ARIA_LABELS.SELECT_CHECKBOX(source.name)}
+            />
+          )}
           <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border border-primary/30 bg-primary/10 transition-all duration-300 group-hover:border-primary/50 group-hover:shadow-glow-sm">
             <Rss className="h-5 w-5 text-primary" aria-hidden="true" />
           </div>
           <div className="min-w-0 flex-1">
             <div className="flex items-center gap-2">
-              <h3 className="truncate text-lg font-semibold text-foreground">{source.name}</h3>
-              {isAdmin && onEdit && (
+              <h3 className="truncate text-lg font-semibold text-foreground">
+                <Link
+                  href={`/sources/${source.id}`}
+                  className="transition-colors hover:text-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  {source.name}
+                </Link>
+              </h3>
+              {canUpdate && onEdit && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -110,7 +134,7 @@ export const SourceCard = React.memo(function SourceCard({
                   <Pencil className="h-4 w-4" />
                 </Button>
               )}
-              {isAdmin && onDelete && (
+              {canDelete && onDelete && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -142,17 +166,20 @@ export const SourceCard = React.memo(function SourceCard({
 
         {/* Status and Last Crawled */}
         <div className="flex items-center justify-between gap-2 pt-2">
-          {/* Conditional rendering: Toggle for admin, Badge for non-admin */}
-          {isAdmin && onUpdateActive ? (
-            <ActiveToggle
-              sourceId={source.id}
-              sourceName={source.name}
-              initialActive={source.active}
-              onToggle={handleToggle}
-            />
-          ) : (
-            <StatusBadge active={source.active} />
-          )}
+          <div className="flex items-center gap-2">
+            {/* Conditional rendering: Toggle with 'source:update', Badge otherwise */}
+            {canUpdate && onUpdateActive ? (
+              <ActiveToggle
+                sourceId={source.id}
+                sourceName={source.name}
+                initialActive={source.active}
+                onToggle={handleToggle}
+              />
+            ) : (
+              <StatusBadge active={source.active} />
+            )}
+            <SourceTypeBadge source={source} />
+          </div>
           <time
             className="text-xs text-muted-foreground"
             dateTime={source.last_crawled_at || undefined}
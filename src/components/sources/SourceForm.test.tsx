@@ -3,6 +3,23 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { SourceForm } from './SourceForm';
 import type { SourceFormData } from '@/utils/validation/sourceValidation';
+import type { FeedPreview } from '@/lib/feeds/feedParser';
+
+// Feed discovery result, adjustable per test
+const feedDiscovery = vi.hoisted(() => ({
+  current: {
+    preview: null as FeedPreview | null,
+    isChecking: false,
+    error: null as Error | null,
+  },
+  calls: [] as Array<[string, { enabled?: boolean } | undefined]>,
+}));
+vi.mock('@/hooks/useFeedDiscovery', () => ({
+  useFeedDiscovery: (url: string, options?: { enabled?: boolean }) => {
+    feedDiscovery.calls.push([url, options]);
+    return feedDiscovery.current;
+  },
+}));
 
 describe('SourceForm', () => {
   const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
@@ -10,6 +27,8 @@ describe('SourceForm', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    feedDiscovery.current = { preview: null, isChecking: false, error: null };
+    feedDiscovery.calls = [];
   });
 
   describe('Edit Mode Tests', () => {
@@ -25,7 +44,6 @@ describe('SourceForm', () => {
           initialData={initialData}
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -44,7 +62,6 @@ describe('SourceForm', () => {
           initialData={initialData}
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -61,7 +78,6 @@ describe('SourceForm', () => {
           initialData={initialData}
           onSubmit={mockOnSubmit}
           isLoading={true}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -80,7 +96,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -98,7 +113,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -114,7 +128,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={true}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -134,7 +147,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -157,7 +169,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -180,7 +191,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -203,7 +213,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -234,7 +243,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -266,7 +274,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -292,7 +299,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -310,6 +316,7 @@ describe('SourceForm', () => {
         expect(mockOnSubmit).toHaveBeenCalledWith({
           name: 'Tech Blog',
           feedURL: 'https://example.com/feed.xml',
+          sourceType: 'RSS',
         });
       });
     });
@@ -327,7 +334,6 @@ describe('SourceForm', () => {
           initialData={initialData}
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -344,6 +350,7 @@ describe('SourceForm', () => {
         expect(mockOnSubmit).toHaveBeenCalledWith({
           name: 'New Name',
           feedURL: 'https://old-url.com/feed',
+          sourceType: 'RSS',
         });
       });
     });
@@ -354,7 +361,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={true}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -377,7 +383,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -397,59 +402,6 @@ describe('SourceForm', () => {
     });
   });
 
-  describe('Error Display Tests', () => {
-    it('should display API error alert when error prop is set', () => {
-      const error = new Error('Failed to save source');
-
-      render(
-        <SourceForm
-          mode="create"
-          onSubmit={mockOnSubmit}
-          isLoading={false}
-          error={error}
-          onCancel={mockOnCancel}
-        />
-      );
-
-      expect(screen.getByText('Failed to save source')).toBeInTheDocument();
-    });
-
-    it('should error alert have role="alert" for accessibility', () => {
-      const error = new Error('Network error');
-
-      render(
-        <SourceForm
-          mode="create"
-          onSubmit={mockOnSubmit}
-          isLoading={false}
-          error={error}
-          onCancel={mockOnCancel}
-        />
-      );
-
-      const alert = screen.getByRole('alert');
-      expect(alert).toBeInTheDocument();
-      expect(alert).toHaveTextContent('Network error');
-    });
-
-    it('should not display error alert when error prop is null', () => {
-      render(
-        <SourceForm
-          mode="create"
-          onSubmit={mockOnSubmit}
-          isLoading={false}
-          error={null}
-          onCancel={mockOnCancel}
-        />
-      );
-
-      // ErrorAlert doesn't render when error is null, so no alert should exist
-      // before any form interaction
-      const alerts = screen.queryAllByRole('alert');
-      expect(alerts).toHaveLength(0);
-    });
-  });
-
   describe('Cancel Button Tests', () => {
     it('should call onCancel when Cancel clicked', async () => {
       const user = userEvent.setup();
@@ -458,7 +410,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -475,7 +426,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={true}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -491,7 +441,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -519,7 +468,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -540,7 +488,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -563,7 +510,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -585,7 +531,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -608,7 +553,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={slowOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -630,7 +574,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={slowOnSubmit}
           isLoading={true}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -650,7 +593,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -676,7 +618,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -697,7 +638,6 @@ describe('SourceForm', () => {
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -722,16 +662,14 @@ describe('SourceForm', () => {
       });
     });
 
-    it('should preserve form data when error occurs', async () => {
+    it('should preserve form data after submission', async () => {
       const user = userEvent.setup();
-      const error = new Error('Save failed');
 
-      const { rerender } = render(
+      render(
         <SourceForm
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={null}
           onCancel={mockOnCancel}
         />
       );
@@ -739,25 +677,194 @@ describe('SourceForm', () => {
       const nameInput = screen.getByLabelText('Source name');
       const urlInput = screen.getByLabelText('Feed URL');
 
-      // Enter data
+      // Enter data and submit; the parent keeps the form open when saving fails
       await user.type(nameInput, 'Test Source');
       await user.type(urlInput, 'https://example.com/feed');
+      await user.click(screen.getByRole('button', { name: /add source/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalled();
+      });
+
+      // Form data should be preserved
+      expect(nameInput).toHaveValue('Test Source');
+      expect(urlInput).toHaveValue('https://example.com/feed');
+    });
+  });
+
+  describe('Feed Preview', () => {
+    const preview: FeedPreview = {
+      feedURL: 'https://example.com/feed.xml',
+      format: 'atom',
+      title: 'Example Blog',
+      itemCount: 12,
+      latestItemDate: new Date().toISOString(),
+      discovered: false,
+    };
+
+    const renderCreateForm = () =>
+      render(
+        <SourceForm
+          mode="create"
+          onSubmit={mockOnSubmit}
+          isLoading={false}
+          onCancel={mockOnCancel}
+        />
+      );
+
+    it('should show the checking state', () => {
+      feedDiscovery.current = { preview: null, isChecking: true, error: null };
+      renderCreateForm();
 
-      // Simulate error from parent
+      expect(screen.getByTestId('source-feed-preview')).toHaveTextContent('Checking feed…');
+    });
+
+    it('should show the format, title, item count and latest item date', () => {
+      feedDiscovery.current = { preview, isChecking: false, error: null };
+      renderCreateForm();
+
+      const panel = screen.getByTestId('source-feed-preview');
+      expect(panel).toHaveTextContent('Valid feed');
+      expect(panel).toHaveTextContent('Atom');
+      expect(panel).toHaveTextContent('Example Blog');
+      expect(panel).toHaveTextContent('12 items · latest just now');
+    });
+
+    it('should show why the URL is not a feed', () => {
+      feedDiscovery.current = {
+        preview: null,
+        isChecking: false,
+        error: new Error('This page does not link to an RSS, Atom or JSON feed'),
+      };
+      renderCreateForm();
+
+      expect(screen.getByTestId('source-feed-preview')).toHaveTextContent(
+        'This page does not link to an RSS, Atom or JSON feed'
+      );
+    });
+
+    it('should prefill an empty name with the feed title', async () => {
+      feedDiscovery.current = { preview, isChecking: false, error: null };
+      renderCreateForm();
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Source name')).toHaveValue('Example Blog');
+      });
+    });
+
+    it('should not replace a name entered by the user', async () => {
+      const user = userEvent.setup();
+      const { rerender } = renderCreateForm();
+
+      await user.type(screen.getByLabelText('Source name'), 'My Name');
+
+      feedDiscovery.current = { preview, isChecking: false, error: null };
       rerender(
         <SourceForm
           mode="create"
           onSubmit={mockOnSubmit}
           isLoading={false}
-          error={error}
           onCancel={mockOnCancel}
         />
       );
 
-      // Form data should be preserved
-      expect(nameInput).toHaveValue('Test Source');
-      expect(urlInput).toHaveValue('https://example.com/feed');
-      expect(screen.getByText('Save failed')).toBeInTheDocument();
+      expect(screen.getByLabelText('Source name')).toHaveValue('My Name');
+    });
+
+    it('should offer the feed URL discovered on an HTML page', async () => {
+      const user = userEvent.setup();
+      feedDiscovery.current = {
+        preview: { ...preview, discovered: true },
+        isChecking: false,
+        error: null,
+      };
+      renderCreateForm();
+
+      await user.type(screen.getByLabelText('Feed URL'), 'https://example.com/blog');
+      expect(screen.getByTestId('source-feed-preview')).toHaveTextContent(
+        'Feed found on this page'
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Use this feed URL' }));
+
+      expect(screen.getByLabelText('Feed URL')).toHaveValue('https://example.com/feed.xml');
+      expect(screen.queryByRole('button', { name: 'Use this feed URL' })).not.toBeInTheDocument();
+    });
+
+    it('should not check an unchanged feed URL in edit mode', () => {
+      render(
+        <SourceForm
+          mode="edit"
+          initialData={{ name: 'Tech Blog', feedURL: 'https://example.com/feed.xml' }}
+          onSubmit={mockOnSubmit}
+          isLoading={false}
+          onCancel={mockOnCancel}
+        />
+      );
+
+      expect(feedDiscovery.calls[0]).toEqual(['https://example.com/feed.xml', { enabled: false }]);
+    });
+
+    it('should not check the URL of sources that are not RSS', async () => {
+      const user = userEvent.setup();
+      renderCreateForm();
+
+      await user.selectOptions(screen.getByLabelText('Source type'), 'Webflow');
+      await user.type(screen.getByLabelText('Feed URL'), 'https://example.com');
+
+      expect(feedDiscovery.calls.at(-1)).toEqual(['https://example.com', { enabled: false }]);
+    });
+  });
+
+  describe('Source Type', () => {
+    it('should default to RSS in create mode', () => {
+      render(
+        <SourceForm
+          mode="create"
+          onSubmit={mockOnSubmit}
+          isLoading={false}
+          onCancel={mockOnCancel}
+        />
+      );
+
+      const select = screen.getByLabelText('Source type');
+      expect(select).toHaveValue('RSS');
+      expect(Array.from(select.querySelectorAll('option')).map((option) => option.value)).toEqual([
+        'RSS',
+        'Webflow',
+        'NextJS',
+        'Remix',
+      ]);
+    });
+
+    it('should submit the selected type', async () => {
+      const user = userEvent.setup();
+      render(
+        <SourceForm
+          mode="edit"
+          initialData={{
+            name: 'Docs',
+            feedURL: 'https://docs.example.com',
+            sourceType: 'NextJS',
+          }}
+          onSubmit={mockOnSubmit}
+          isLoading={false}
+          onCancel={mockOnCancel}
+        />
+      );
+
+      expect(screen.getByLabelText('Source type')).toHaveValue('NextJS');
+
+      await user.selectOptions(screen.getByLabelText('Source type'), 'Remix');
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          name: 'Docs',
+          feedURL: 'https://docs.example.com',
+          sourceType: 'Remix',
+        });
+      });
     });
   });
 });
@@ -4,9 +4,14 @@ import * as React from 'react';
 import { Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ErrorAlert } from '@/components/common/ErrorAlert';
 import { FormField } from '@/components/common/FormField';
-import { SOURCE_TEST_IDS, SOURCE_ARIA_LABELS } from '@/constants/source';
+import { FeedPreviewPanel } from '@/components/sources/FeedPreviewPanel';
+import {
+  DEFAULT_SOURCE_TYPE,
+  SOURCE_ARIA_LABELS,
+  SOURCE_TEST_IDS,
+  SOURCE_TYPES,
+} from '@/constants/source';
 import {
   validateSourceName,
   validateSourceFeedURL,
@@ -14,6 +19,8 @@ import {
   type SourceFormErrors,
 } from '@/utils/validation/sourceValidation';
 import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import { useFeedDiscovery } from '@/hooks/useFeedDiscovery';
+import { isSourceType } from '@/utils/sourceType';
 
 /**
  * SourceForm Component Props
@@ -27,8 +34,6 @@ export interface SourceFormProps {
   onSubmit: (data: SourceFormData) => Promise<void>;
   /** Whether a submission is in progress */
   isLoading: boolean;
-  /** API error to display */
-  error: Error | null;
   /** Callback when cancel button is clicked */
   onCancel: () => void;
 }
@@ -39,6 +44,7 @@ export interface SourceFormProps {
 const defaultFormData: SourceFormData = {
   name: '',
   feedURL: '',
+  sourceType: DEFAULT_SOURCE_TYPE,
 };
 
 /**
@@ -49,9 +55,12 @@ const defaultFormData: SourceFormData = {
  *
  * Features:
  * - Client-side validation with real-time feedback
+ * - Source type selector (RSS, Webflow, NextJS, Remix)
+ * - Live feed preview for RSS sources (format, title, item count, latest item date) while the
+ *   URL is typed, with feeds discovered from HTML pages
+ * - Name prefilled from the feed title until the user edits it
  * - Accessible form controls with ARIA labels
  * - Loading states during submission
- * - Error display for API errors
  * - Input trimming before submission
  *
  * @example
@@ -61,7 +70,6 @@ const defaultFormData: SourceFormData = {
  *   mode="create"
  *   onSubmit={async (data) => await createSource(data)}
  *   isLoading={isPending}
- *   error={error}
  *   onCancel={() => setIsOpen(false)}
  * />
  *
@@ -71,26 +79,43 @@ const defaultFormData: SourceFormData = {
  *   initialData={{ name: 'Tech Blog', feedURL: 'https://example.com/feed' }}
  *   onSubmit={async (data) => await updateSource(data)}
  *   isLoading={isPending}
- *   error={error}
  *   onCancel={() => setIsOpen(false)}
  * />
  * ```
  */
-export function SourceForm({
-  mode,
-  initialData,
-  onSubmit,
-  isLoading,
-  error,
-  onCancel,
-}: SourceFormProps) {
+export function SourceForm({ mode, initialData, onSubmit, isLoading, onCancel }: SourceFormProps) {
   const [formData, setFormData] = React.useState<SourceFormData>(initialData || defaultFormData);
   const [errors, setErrors] = React.useState<SourceFormErrors>({});
+  // Whether the user has entered a name; until then it follows the feed title
+  const isNameEditedRef = React.useRef(Boolean(initialData?.name));
+
+  const sourceType = formData.sourceType ?? DEFAULT_SOURCE_TYPE;
+
+  // Check the feed URL as it is typed (an unchanged URL in edit mode is not re-checked);
+  // other source types are scraped from the site, which has no feed to check
+  const feedDiscovery = useFeedDiscovery(formData.feedURL, {
+    enabled: sourceType === 'RSS' && formData.feedURL.trim() !== (initialData?.feedURL ?? ''),
+  });
+  const previewTitle = feedDiscovery.preview?.title ?? null;
+
+  /**
+   * Prefill the name with the feed title
+   */
+  React.useEffect(() => {
+    if (!previewTitle || isNameEditedRef.current) {
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      name: previewTitle.slice(0, SOURCE_CONFIG.NAME_MAX_LENGTH),
+    }));
+    setErrors((prev) => ({ ...prev, name: undefined }));
+  }, [previewTitle]);
 
   /**
    * Validate a single field
    */
-  const validateField = (field: keyof SourceFormData, value: string): string | undefined => {
+  const validateField = (field: 'name' | 'feedURL', value: string): string | undefined => {
     if (field === 'name') {
       return validateSourceName(value);
     }
@@ -105,19 +130,32 @@ export function SourceForm({
   /**
    * Handle field value change
    */
-  const handleChange = (field: keyof SourceFormData, value: string) => {
+  const handleChange = (field: 'name' | 'feedURL', value: string) => {
+    if (field === 'name') {
+      // Clearing the name hands it back to the feed title
+      isNameEditedRef.current = value.trim() !== '';
+    }
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
   /**
    * Handle field blur for validation
    */
-  const handleBlur = (field: keyof SourceFormData) => {
+  const handleBlur = (field: 'name' | 'feedURL') => {
     const fieldValue = formData[field];
     const error = validateField(field, fieldValue);
     setErrors((prev) => ({ ...prev, [field]: error }));
   };
 
+  /**
+   * Handle source type change
+   */
+  const handleTypeChange = (value: string) => {
+    if (isSourceType(value)) {
+      setFormData((prev) => ({ ...prev, sourceType: value }));
+    }
+  };
+
   /**
    * Handle form submission
    */
@@ -141,6 +179,7 @@ export function SourceForm({
     await onSubmit({
       name: formData.name.trim(),
       feedURL: formData.feedURL.trim(),
+      sourceType,
     });
   };
 
@@ -150,9 +189,6 @@ export function SourceForm({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      {/* API Error Alert */}
-      <ErrorAlert error={error} />
-
       {/* Name Field */}
       <FormField label="Name" required htmlFor="source-name" error={errors.name}>
         <Input
@@ -171,6 +207,25 @@ export function SourceForm({
         />
       </FormField>
 
+      {/* Source Type Field */}
+      <FormField label="Type" htmlFor="source-type">
+        <select
+          id="source-type"
+          data-testid={SOURCE_TEST_IDS.TYPE_SELECT}
+          aria-label={SOURCE_ARIA_LABELS.TYPE_SELECT}
+          value={sourceType}
+          onChange={(e) => handleTypeChange(e.target.value)}
+          disabled={isLoading}
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {SOURCE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </FormField>
+
       {/* Feed URL Field */}
       <FormField label="Feed URL" required htmlFor="source-feedURL" error={errors.feedURL}>
         <Input
@@ -190,6 +245,15 @@ export function SourceForm({
         />
       </FormField>
 
+      {/* Feed Preview */}
+      <FeedPreviewPanel
+        preview={feedDiscovery.preview}
+        isChecking={feedDiscovery.isChecking}
+        error={feedDiscovery.error}
+        feedURL={formData.feedURL}
+        onUseFeedURL={(feedURL) => handleChange('feedURL', feedURL)}
+      />
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-2 pt-4">
         <Button
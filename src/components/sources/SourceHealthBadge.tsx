@@ -0,0 +1,47 @@
+/**
+ * SourceHealthBadge Component
+ *
+ * Displays a Healthy/Stale/Never crawled badge for a source.
+ * Uses success variant for healthy, destructive for stale and secondary
+ * for never-crawled sources.
+ */
+import * as React from 'react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { SOURCE_HEALTH_LABELS, type SourceHealthStatus } from '@/utils/sourceHealth';
+
+/**
+ * Props for the SourceHealthBadge component
+ */
+interface SourceHealthBadgeProps {
+  /** Health status of the source */
+  status: SourceHealthStatus;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const HEALTH_VARIANTS: Record<SourceHealthStatus, BadgeProps['variant']> = {
+  healthy: 'success',
+  stale: 'destructive',
+  'never-crawled': 'secondary',
+};
+
+/**
+ * SourceHealthBadge displays the health status of a source.
+ *
+ * @example
+ * ```tsx
+ * <SourceHealthBadge status="stale" />  // Shows "Stale" with red styling
+ * ```
+ */
+export function SourceHealthBadge({ status, className }: SourceHealthBadgeProps) {
+  return (
+    <Badge
+      variant={HEALTH_VARIANTS[status]}
+      className={cn('whitespace-nowrap', className)}
+      aria-label={`Health: ${SOURCE_HEALTH_LABELS[status]}`}
+    >
+      {SOURCE_HEALTH_LABELS[status]}
+    </Badge>
+  );
+}
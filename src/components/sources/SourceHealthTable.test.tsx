@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { SourceHealthTable } from './SourceHealthTable';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import type { SourceHealthEntry } from '@/hooks/useSourceHealth';
+
+const entries: SourceHealthEntry[] = [
+  {
+    source: { id: 1, name: 'New Source', feed_url: 'https://a.example.com/feed', active: false },
+    health: { status: 'never-crawled', staleReasons: [] },
+    activity: null,
+    isLoadingActivity: true,
+  },
+  {
+    source: {
+      id: 2,
+      name: 'Dead Feed',
+      feed_url: 'https://b.example.com/feed',
+      active: true,
+      last_crawled_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+    },
+    health: { status: 'stale', staleReasons: ['crawl', 'articles'] },
+    activity: { articleCount: 0, lastArticleDate: null },
+    isLoadingActivity: false,
+  },
+  {
+    source: {
+      id: 3,
+      name: 'Healthy Blog',
+      feed_url: 'https://c.example.com/feed',
+      active: true,
+      last_crawled_at: new Date().toISOString(),
+    },
+    health: { status: 'healthy', staleReasons: [] },
+    activity: { articleCount: 42, lastArticleDate: new Date().toISOString() },
+    isLoadingActivity: false,
+  },
+];
+
+describe('SourceHealthTable', () => {
+  it('should render a row per source', () => {
+    render(<SourceHealthTable entries={entries} />);
+
+    const rows = screen.getAllByRole('row');
+    // Header row plus one row per source
+    expect(rows).toHaveLength(4);
+    expect(within(rows[1]!).getByRole('rowheader')).toHaveTextContent('New Source');
+    expect(within(rows[1]!).getByLabelText('Health: Never crawled')).toBeInTheDocument();
+    expect(rows[1]).toHaveTextContent('Never');
+  });
+
+  it('should list why a source is stale', () => {
+    render(<SourceHealthTable entries={entries} />);
+
+    const row = screen.getAllByRole('row')[2]!;
+    expect(within(row).getByLabelText('Health: Stale')).toBeInTheDocument();
+    expect(row).toHaveTextContent(`Not crawled in ${SOURCE_CONFIG.HEALTH_STALE_CRAWL_HOURS} hours`);
+    expect(row).toHaveTextContent(`No articles in ${SOURCE_CONFIG.HEALTH_STALE_ARTICLE_DAYS} days`);
+    expect(row).toHaveTextContent('3 days ago');
+    expect(row).toHaveTextContent('None');
+  });
+
+  it('should show article count and latest article date', () => {
+    render(<SourceHealthTable entries={entries} />);
+
+    const cells = within(screen.getAllByRole('row')[3]!).getAllByRole('cell');
+    expect(cells.map((cell) => cell.textContent)).toEqual([
+      'Healthy',
+      'Just now',
+      '42',
+      'Just now',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+'use client';
+
+import * as React from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { formatRelativeTime } from '@/lib/utils/formatDate';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import type { SourceHealthEntry } from '@/hooks/useSourceHealth';
+import type { SourceStaleReason } from '@/utils/sourceHealth';
+import { SourceHealthBadge } from './SourceHealthBadge';
+import { StatusBadge } from './StatusBadge';
+
+/**
+ * SourceHealthTable Component Props
+ */
+interface SourceHealthTableProps {
+  /** Sources with their health, in display order */
+  entries: SourceHealthEntry[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const STALE_REASON_LABELS: Record<SourceStaleReason, string> = {
+  crawl: `Not crawled in ${SOURCE_CONFIG.HEALTH_STALE_CRAWL_HOURS} hours`,
+  articles: `No articles in ${SOURCE_CONFIG.HEALTH_STALE_ARTICLE_DAYS} days`,
+};
+
+/**
+ * SourceHealthTable Component
+ *
+ * Table of sources with their health status, active state, last crawl,
+ * article count and latest article date. Stale rows list why they are stale;
+ * article columns show a skeleton while that source's activity loads.
+ *
+ * @example
+ * ```tsx
+ * const { entries } = useSourceHealth();
+ * <SourceHealthTable entries={entries} />
+ * ```
+ */
+export function SourceHealthTable({ entries, className }: SourceHealthTableProps) {
+  return (
+    <div className={cn('overflow-x-auto rounded-lg border', className)}>
+      <table className="w-full text-left text-sm">
+        <caption className="sr-only">Source health</caption>
+        <thead className="border-b bg-muted/40 text-muted-foreground">
+          <tr>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Source
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Health
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Last crawled
+            </th>
+            <th scope="col" className="px-4 py-3 text-right font-medium">
+              Articles
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Latest article
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(({ source, health, activity, isLoadingActivity }) => (
+            <tr key={source.id} className="border-b last:border-b-0">
+              <th scope="row" className="px-4 py-3 font-medium">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="break-words">{source.name}</span>
+                  <StatusBadge active={source.active} />
+                </div>
+                <div className="mt-1 break-all text-xs font-normal text-muted-foreground">
+                  {source.feed_url}
+                </div>
+              </th>
+              <td className="px-4 py-3">
+                <SourceHealthBadge status={health.status} />
+                {health.staleReasons.length > 0 && (
+                  <ul className="mt-1 text-xs text-muted-foreground">
+                    {health.staleReasons.map((reason) => (
+                      <li key={reason}>{STALE_REASON_LABELS[reason]}</li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+              <td className="whitespace-nowrap px-4 py-3">
+                {source.last_crawled_at ? (
+                  <time dateTime={source.last_crawled_at}>
+                    {formatRelativeTime(source.last_crawled_at)}
+                  </time>
+                ) : (
+                  'Never'
+                )}
+              </td>
+              {activity ? (
+                <>
+                  <td className="px-4 py-3 text-right tabular-nums">{activity.articleCount}</td>
+                  <td className="whitespace-nowrap px-4 py-3">
+                    {activity.lastArticleDate ? (
+                      <time dateTime={activity.lastArticleDate}>
+                        {formatRelativeTime(activity.lastArticleDate)}
+                      </time>
+                    ) : (
+                      'None'
+                    )}
+                  </td>
+                </>
+              ) : isLoadingActivity ? (
+                <>
+                  <td className="px-4 py-3">
+                    <Skeleton className="ml-auto h-4 w-8" />
+                  </td>
+                  <td className="px-4 py-3">
+                    <Skeleton className="h-4 w-20" />
+                  </td>
+                </>
+              ) : (
+                <>
+                  <td className="px-4 py-3 text-right text-muted-foreground">—</td>
+                  <td className="px-4 py-3 text-muted-foreground">Unavailable</td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,7 +1,26 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { SourceSearch, SourceSearchState, toSearchParams, hasActiveFilters } from './SourceSearch';
+import { useSources } from '@/hooks/useSources';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { getRecentSearchesStorageKey } from '@/lib/search/recentSearches';
+
+// Mock the data hooks used by the suggestions
+vi.mock('@/hooks/useSources', () => ({
+  useSources: vi.fn(),
+}));
+
+vi.mock('@/hooks/useArticleSearch', () => ({
+  useArticleSearch: vi.fn(),
+}));
+
+const mockPush = vi.fn();
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+  }),
+}));
 
 describe('SourceSearch', () => {
   const defaultSearchState: SourceSearchState = {
@@ -10,6 +29,32 @@ describe('SourceSearch', () => {
     active: null,
   };
 
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(useSources).mockReturnValue({
+      sources: [
+        {
+          id: 7,
+          name: 'Tech Blog',
+          feed_url: 'https://example.com/feed',
+          active: true,
+          last_crawled_at: null,
+        },
+      ],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+    vi.mocked(useArticleSearch).mockReturnValue({
+      articles: [],
+      pagination: { page: 1, limit: 5, total: 0, totalPages: 0 },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+  });
+
   describe('Rendering', () => {
     it('should render with title', () => {
       render(<SourceSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
@@ -175,6 +220,39 @@ describe('SourceSearch', () => {
       expect(screen.getByRole('button', { name: 'Clear All Filters' })).toBeInTheDocument();
     });
   });
+
+  describe('Suggestions', () => {
+    it('should keep a recent search history of its own', async () => {
+      const user = userEvent.setup();
+      const onSearchChange = vi.fn();
+      localStorage.setItem(
+        getRecentSearchesStorageKey('sources', null),
+        JSON.stringify(['rss feeds'])
+      );
+      localStorage.setItem(
+        getRecentSearchesStorageKey('articles', null),
+        JSON.stringify(['react'])
+      );
+      render(<SourceSearch searchState={defaultSearchState} onSearchChange={onSearchChange} />);
+
+      await user.click(screen.getByRole('combobox', { name: 'Search by name or URL...' }));
+      expect(screen.queryByRole('option', { name: 'react' })).not.toBeInTheDocument();
+      await user.click(screen.getByRole('option', { name: 'rss feeds' }));
+
+      expect(onSearchChange).toHaveBeenCalledWith({ ...defaultSearchState, keyword: 'rss feeds' });
+    });
+
+    it('should open a suggested source without looking up articles', async () => {
+      const user = userEvent.setup();
+      render(<SourceSearch searchState={defaultSearchState} onSearchChange={vi.fn()} />);
+
+      await user.type(screen.getByRole('combobox', { name: 'Search by name or URL...' }), 'blog');
+      await user.click(screen.getByRole('option', { name: 'Tech Blog' }));
+
+      expect(mockPush).toHaveBeenCalledWith('/sources/7');
+      expect(useArticleSearch).not.toHaveBeenCalledWith(expect.anything(), { enabled: true });
+    });
+  });
 });
 
 describe('toSearchParams', () => {
@@ -1,18 +1,20 @@
 /**
  * SourceSearch Component
  *
- * Search and filter panel for sources with keyword search,
- * type filter, and active status filter.
+ * Search and filter panel for sources with keyword search (with recent
+ * searches and source name suggestions), type filter, and active status filter.
  */
 
 'use client';
 
 import * as React from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { SearchInput } from '@/components/search/SearchInput';
 import { TypeFilter } from '@/components/search/TypeFilter';
 import { ActiveFilter } from '@/components/search/ActiveFilter';
+import { useSearchSuggestions, type SearchSuggestion } from '@/hooks/useSearchSuggestions';
 import { cn } from '@/lib/utils';
 import type { SourceSearchParams } from '@/lib/api/endpoints/sources';
 
@@ -75,6 +77,33 @@ export function SourceSearch({
   isLoading = false,
   className,
 }: SourceSearchProps) {
+  const router = useRouter();
+
+  // Autocomplete follows the text as typed, before the keyword is debounced
+  const [typedKeyword, setTypedKeyword] = React.useState(searchState.keyword);
+  const { groups, addRecentSearch, clearRecentSearches } = useSearchSuggestions(typedKeyword, {
+    scope: 'sources',
+  });
+
+  const handleSuggestionSelect = React.useCallback(
+    (suggestion: SearchSuggestion) => {
+      switch (suggestion.kind) {
+        case 'recent':
+          addRecentSearch(suggestion.query);
+          onSearchChange({ ...searchState, keyword: suggestion.query });
+          break;
+        case 'clear-recent':
+          clearRecentSearches();
+          break;
+        case 'source':
+          addRecentSearch(typedKeyword);
+          router.push(`/sources/${suggestion.source.id}`);
+          break;
+      }
+    },
+    [searchState, onSearchChange, addRecentSearch, clearRecentSearches, typedKeyword, router]
+  );
+
   const handleKeywordChange = React.useCallback(
     (keyword: string) => {
       onSearchChange({ ...searchState, keyword });
@@ -118,6 +147,10 @@ export function SourceSearch({
           onChange={handleKeywordChange}
           placeholder="Search by name or URL..."
           isLoading={isLoading}
+          suggestions={groups}
+          onSuggestionSelect={handleSuggestionSelect}
+          onInputValueChange={setTypedKeyword}
+          onCommit={addRecentSearch}
         />
 
         {/* Filters */}
@@ -0,0 +1,43 @@
+/**
+ * SourceTypeBadge Component
+ *
+ * Displays the type of a source (RSS, Webflow, NextJS, Remix) as an
+ * outline badge. Sources without a type are shown as RSS.
+ */
+import * as React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getSourceType } from '@/utils/sourceType';
+import type { Source } from '@/types/api';
+
+/**
+ * Props for the SourceTypeBadge component
+ */
+interface SourceTypeBadgeProps {
+  /** Source whose type is displayed */
+  source: Pick<Source, 'source_type'>;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * SourceTypeBadge displays the type of a source.
+ *
+ * @example
+ * ```tsx
+ * <SourceTypeBadge source={source} />  // Shows "Webflow"
+ * ```
+ */
+export function SourceTypeBadge({ source, className }: SourceTypeBadgeProps) {
+  const type = getSourceType(source);
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('whitespace-nowrap font-normal', className)}
+      aria-label={`Type: ${type}`}
+    >
+      {type}
+    </Badge>
+  );
+}
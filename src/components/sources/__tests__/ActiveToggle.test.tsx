@@ -2,13 +2,25 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ActiveToggle } from '../ActiveToggle';
+import { Toaster } from '@/components/common/Toaster';
 import { ApiError, NetworkError } from '@/lib/api/errors';
+import { ActionUndoneError, ToastManager } from '@/lib/toast/ToastManager';
+
+// Errors are reported with toasts, so render the toast region alongside
+const renderWithToaster = (ui: React.ReactElement) =>
+  render(
+    <>
+      {ui}
+      <Toaster />
+    </>
+  );
 
 describe('ActiveToggle', () => {
   const mockOnToggle = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
+    ToastManager.resetInstance();
   });
 
   afterEach(() => {
@@ -24,7 +36,7 @@ describe('ActiveToggle', () => {
 
   describe('Rendering', () => {
     it('should render toggle in active state when initialActive is true', () => {
-      render(<ActiveToggle {...defaultProps} initialActive={true} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={true} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).toBeInTheDocument();
@@ -32,7 +44,7 @@ describe('ActiveToggle', () => {
     });
 
     it('should render toggle in inactive state when initialActive is false', () => {
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).toBeInTheDocument();
@@ -40,28 +52,30 @@ describe('ActiveToggle', () => {
     });
 
     it('should have proper aria-label for accessibility', () => {
-      render(<ActiveToggle {...defaultProps} sourceName="Tech Blog" />);
+      renderWithToaster(<ActiveToggle {...defaultProps} sourceName="Tech Blog" />);
 
       const toggle = screen.getByLabelText('Toggle Tech Blog active status');
       expect(toggle).toBeInTheDocument();
     });
 
     it('should not show loading indicator initially', () => {
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const loader = screen.queryByRole('img', { hidden: true });
       expect(loader).not.toBeInTheDocument();
     });
 
     it('should not show error message initially', () => {
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const error = screen.queryByRole('alert');
       expect(error).not.toBeInTheDocument();
     });
 
     it('should apply custom className', () => {
-      const { container } = render(<ActiveToggle {...defaultProps} className="custom-class" />);
+      const { container } = renderWithToaster(
+        <ActiveToggle {...defaultProps} className="custom-class" />
+      );
 
       expect(container.firstChild).toHaveClass('custom-class');
     });
@@ -72,7 +86,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={true} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={true} />);
 
       const toggle = screen.getByRole('switch');
       await user.click(toggle);
@@ -85,7 +99,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={true} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={true} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).toBeChecked();
@@ -101,7 +115,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
       expect(toggle).not.toBeChecked();
@@ -121,7 +135,7 @@ describe('ActiveToggle', () => {
       });
       mockOnToggle.mockReturnValue(togglePromise);
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
       await user.click(toggle);
@@ -146,7 +160,7 @@ describe('ActiveToggle', () => {
       });
       mockOnToggle.mockReturnValue(togglePromise);
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const toggle = screen.getByRole('switch');
       await user.click(toggle);
@@ -173,7 +187,7 @@ describe('ActiveToggle', () => {
       });
       mockOnToggle.mockReturnValue(togglePromise);
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const toggle = screen.getByRole('switch');
       await user.click(toggle);
@@ -196,7 +210,7 @@ describe('ActiveToggle', () => {
       });
       mockOnToggle.mockReturnValue(togglePromise);
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -221,7 +235,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new Error('Network error'));
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
       await user.click(toggle);
@@ -237,7 +251,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new Error('API error'));
 
-      render(<ActiveToggle {...defaultProps} initialActive={true} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={true} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -259,7 +273,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new ApiError('Forbidden', 403));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -274,7 +288,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new ApiError('Not Found', 404));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -287,7 +301,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new ApiError('Internal Server Error', 500));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -300,7 +314,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new NetworkError('Connection failed'));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -315,7 +329,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new Error('Unknown error'));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -328,11 +342,11 @@ describe('ActiveToggle', () => {
 
     it('should auto-dismiss error message after 5 seconds', async () => {
       // Note: This test documents that errors auto-dismiss after 5 seconds
-      // Testing with real timers would take too long, so we verify the useEffect is set up correctly
+      // Testing with real timers would take too long; the error toast uses the default duration
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new Error('Test error'));
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -351,7 +365,7 @@ describe('ActiveToggle', () => {
       // First attempt fails
       mockOnToggle.mockRejectedValueOnce(new Error('First error'));
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -377,7 +391,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockRejectedValue(new Error('Test error'));
 
-      render(<ActiveToggle {...defaultProps} sourceId={42} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} sourceId={42} />);
 
       await user.click(screen.getByRole('switch'));
 
@@ -391,12 +405,31 @@ describe('ActiveToggle', () => {
     });
   });
 
+  describe('Undo', () => {
+    it('should revert without an error when the change is undone', async () => {
+      const user = userEvent.setup();
+      mockOnToggle.mockRejectedValue(new ActionUndoneError());
+
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={true} />);
+
+      const toggle = screen.getByRole('switch');
+      await user.click(toggle);
+
+      await waitFor(() => {
+        expect(toggle).toBeChecked();
+        expect(toggle).not.toBeDisabled();
+      });
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(toggle).not.toHaveAttribute('aria-describedby');
+    });
+  });
+
   describe('Keyboard Accessibility', () => {
     it('should be accessible via keyboard with Space key', async () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -411,7 +444,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -425,7 +458,7 @@ describe('ActiveToggle', () => {
     it('should have visible focus indicator', async () => {
       const user = userEvent.setup();
 
-      render(<ActiveToggle {...defaultProps} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -476,7 +509,7 @@ describe('ActiveToggle', () => {
       const mockOnToggle1 = vi.fn().mockRejectedValue(new Error('Error 1'));
       const mockOnToggle2 = vi.fn().mockResolvedValue(undefined);
 
-      render(
+      renderWithToaster(
         <>
           <ActiveToggle
             sourceId={1}
@@ -531,7 +564,7 @@ describe('ActiveToggle', () => {
       const user = userEvent.setup();
       mockOnToggle.mockResolvedValue(undefined);
 
-      render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      renderWithToaster(<ActiveToggle {...defaultProps} initialActive={false} />);
 
       const toggle = screen.getByRole('switch');
 
@@ -552,7 +585,9 @@ describe('ActiveToggle', () => {
     });
 
     it('should maintain state across re-renders', async () => {
-      const { rerender } = render(<ActiveToggle {...defaultProps} initialActive={false} />);
+      const { rerender } = renderWithToaster(
+        <ActiveToggle {...defaultProps} initialActive={false} />
+      );
 
       const toggle = screen.getByRole('switch');
       expect(toggle).not.toBeChecked();
@@ -6,9 +6,16 @@
 
 export { SourceCard } from './SourceCard';
 export { SourceForm } from './SourceForm';
+export { FeedPreviewPanel } from './FeedPreviewPanel';
 export { SourceSearch } from './SourceSearch';
 export { StatusBadge } from './StatusBadge';
+export { SourceTypeBadge } from './SourceTypeBadge';
+export { SourceHealthBadge } from './SourceHealthBadge';
+export { SourceHealthTable } from './SourceHealthTable';
 export { ActiveToggle } from './ActiveToggle';
 export { AddSourceDialog } from './AddSourceDialog';
 export { EditSourceDialog } from './EditSourceDialog';
 export { DeleteSourceDialog } from './DeleteSourceDialog';
+export { ImportOpmlDialog } from './ImportOpmlDialog';
+export { ExportOpmlButton } from './ExportOpmlButton';
+export { SourceBulkActionsBar } from './SourceBulkActionsBar';
@@ -0,0 +1,50 @@
+/**
+ * Application Configuration Tests
+ *
+ * The browser bundle has no environment: Next replaces literal
+ * `process.env.NEXT_PUBLIC_*` expressions with their build-time values and
+ * leaves an empty `process.env`. These tests compile the config module the
+ * same way and evaluate it as the client would.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import type { AppConfig } from '../app.config';
+
+/**
+ * Evaluate app.config.ts as compiled into the browser bundle
+ *
+ * @param env - NEXT_PUBLIC_* values at build time
+ */
+function loadClientConfig(env: Record<string, string>): AppConfig {
+  const source = readFileSync(path.resolve(__dirname, '../app.config.ts'), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+
+  // Same replacement as Next's DefinePlugin: literal member expressions only
+  const inlined = outputText.replace(/process\.env\.(NEXT_PUBLIC_\w+)/g, (_match, name: string) =>
+    name in env ? JSON.stringify(env[name]) : 'undefined'
+  );
+
+  const exports: { appConfig?: AppConfig } = {};
+  new Function('exports', 'process', inlined)(exports, { env: {} });
+  return exports.appConfig!;
+}
+
+describe('appConfig in the browser bundle', () => {
+  it('should use the cookie session mode set at build time', () => {
+    const config = loadClientConfig({ NEXT_PUBLIC_AUTH_SESSION_MODE: 'cookie' });
+
+    expect(config.auth.sessionMode).toBe('cookie');
+  });
+
+  it('should default to the token session mode', () => {
+    expect(loadClientConfig({}).auth.sessionMode).toBe('token');
+    expect(loadClientConfig({ NEXT_PUBLIC_AUTH_SESSION_MODE: 'other' }).auth.sessionMode).toBe(
+      'token'
+    );
+  });
+});
@@ -35,18 +35,76 @@ export interface ApiConfig {
   retryDelay: number;
 }
 
+/**
+ * JWT Verification Configuration
+ *
+ * Keys used by the proxy to verify access token signatures. Server-only:
+ * none of these are exposed to the browser.
+ */
+export interface JwtVerificationConfig {
+  /** Shared secret for HS256 tokens */
+  secret: string | null;
+  /** JSON Web Key Set (JSON) with the public keys for RS256/ES256 tokens */
+  jwks: string | null;
+  /** URL of a remote JSON Web Key Set with the public keys for RS256/ES256 tokens */
+  jwksUrl: string | null;
+  /** How long a fetched remote key set is used before it is fetched again, in milliseconds */
+  jwksCacheMaxAge: number;
+  /** Minimum time between fetches for unknown key IDs (key rotation), in milliseconds */
+  jwksCooldown: number;
+  /** Accepted signature algorithms (default: HS256 with a secret, RS256 and ES256 with a key set) */
+  algorithms: string[];
+  /** Expected `iss` claim (not checked when null) */
+  issuer: string | null;
+  /** Expected `aud` claim, any of the listed audiences (not checked when empty) */
+  audience: string[];
+  /** Allowed clock skew for `exp` and `nbf` in seconds */
+  clockTolerance: number;
+  /** Accept tokens by expiry only when no key is configured (local development) */
+  allowUnverified: boolean;
+}
+
+/**
+ * Session mode
+ *
+ * - 'token': Tokens are kept in localStorage and sent to the backend directly
+ * - 'cookie': Tokens are kept in HttpOnly cookies set by the Next.js session routes,
+ *   and API requests go through the BFF route, which attaches the bearer token
+ */
+export type SessionMode = 'token' | 'cookie';
+
 /**
  * Authentication Configuration
  */
 export interface AuthConfig {
+  /** Where tokens are kept and how API requests are authenticated */
+  sessionMode: SessionMode;
   /** Token refresh threshold in seconds (refresh token when less than this time remains) */
   tokenRefreshThreshold: number;
   /** localStorage key for access token */
   accessTokenKey: string;
   /** localStorage key for refresh token */
   refreshTokenKey: string;
+  /** Cookie with the readable session claims (cookie session mode) */
+  sessionKey: string;
+  /** Session cookie lifetime in seconds when the refresh token has no expiry (cookie session mode) */
+  sessionMaxAge: number;
   /** Grace period in seconds after token expiry to attempt refresh */
   gracePeriod: number;
+  /** Backend endpoint that revokes a refresh token on logout (null when the backend has none) */
+  revokeEndpoint: string | null;
+  /** Access token signature verification in the proxy */
+  jwt: JwtVerificationConfig;
+}
+
+/**
+ * Feed Discovery Configuration
+ *
+ * Server-only settings of the feed discovery route.
+ */
+export interface FeedDiscoveryConfig {
+  /** Allow fetching hosts that resolve to private/loopback addresses (local development only) */
+  allowPrivateHosts: boolean;
 }
 
 /**
@@ -61,6 +119,8 @@ export interface FeatureFlags {
   aiSummary: boolean;
   /** Enable automatic token refresh */
   tokenRefresh: boolean;
+  /** Sync article read state to the backend (requires POST /articles/read-state) */
+  readStateSync: boolean;
 }
 
 /**
@@ -98,6 +158,7 @@ export interface AppConfig {
   app: AppIdentity;
   api: ApiConfig;
   auth: AuthConfig;
+  feedDiscovery: FeedDiscoveryConfig;
   features: FeatureFlags;
   observability: ObservabilityConfig;
   env: EnvironmentConfig;
@@ -130,6 +191,18 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Get comma-separated list environment variable
+ */
+function getEnvList(key: string, defaultValue: string[]): string[] {
+  const value = getEnvVar(key, '');
+  const items = value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : defaultValue;
+}
+
 /**
  * Get application base URL with fallback chain
  */
@@ -149,6 +222,16 @@ function getAppBaseUrl(): string {
  */
 const nodeEnv = getEnvVar('NODE_ENV', 'development');
 
+/**
+ * Session mode
+ *
+ * Read with a literal `process.env.NAME` expression: Next only inlines
+ * NEXT_PUBLIC_* values written that way into the browser bundle, and the
+ * client must run in the same mode as the route handlers and the proxy.
+ */
+const sessionMode: SessionMode =
+  process.env.NEXT_PUBLIC_AUTH_SESSION_MODE === 'cookie' ? 'cookie' : 'token';
+
 /**
  * Application Configuration Object
  */
@@ -171,10 +254,30 @@ export const appConfig: AppConfig = {
   },
 
   auth: {
+    sessionMode,
     tokenRefreshThreshold: getEnvNumber('NEXT_PUBLIC_TOKEN_REFRESH_THRESHOLD', 300), // 5 minutes
     accessTokenKey: 'catchup_feed_auth_token',
     refreshTokenKey: 'catchup_feed_refresh_token',
+    sessionKey: 'catchup_feed_session',
+    sessionMaxAge: getEnvNumber('AUTH_SESSION_MAX_AGE', 604800), // 7 days
     gracePeriod: getEnvNumber('NEXT_PUBLIC_TOKEN_GRACE_PERIOD', 60), // 60 seconds
+    revokeEndpoint: getEnvVar('NEXT_PUBLIC_AUTH_REVOKE_ENDPOINT', '') || null,
+    jwt: {
+      secret: getEnvVar('AUTH_JWT_SECRET', '') || null,
+      jwks: getEnvVar('AUTH_JWKS', '') || null,
+      jwksUrl: getEnvVar('AUTH_JWKS_URL', '') || null,
+      jwksCacheMaxAge: getEnvNumber('AUTH_JWKS_CACHE_MAX_AGE', 600000), // 10 minutes
+      jwksCooldown: getEnvNumber('AUTH_JWKS_COOLDOWN', 30000), // 30 seconds
+      algorithms: getEnvList('AUTH_JWT_ALGORITHMS', []),
+      issuer: getEnvVar('AUTH_JWT_ISSUER', '') || null,
+      audience: getEnvList('AUTH_JWT_AUDIENCE', []),
+      clockTolerance: getEnvNumber('AUTH_JWT_CLOCK_TOLERANCE', 30), // 30 seconds
+      allowUnverified: getEnvBool('AUTH_JWT_ALLOW_UNVERIFIED', nodeEnv === 'development'),
+    },
+  },
+
+  feedDiscovery: {
+    allowPrivateHosts: getEnvBool('FEED_DISCOVERY_ALLOW_PRIVATE_HOSTS', false),
   },
 
   features: {
@@ -182,6 +285,7 @@ export const appConfig: AppConfig = {
     darkMode: getEnvBool('NEXT_PUBLIC_FEATURE_DARK_MODE', true),
     aiSummary: getEnvBool('NEXT_PUBLIC_FEATURE_AI_SUMMARY', false),
     tokenRefresh: getEnvBool('NEXT_PUBLIC_FEATURE_TOKEN_REFRESH', true),
+    readStateSync: getEnvBool('NEXT_PUBLIC_FEATURE_READ_STATE_SYNC', false),
   },
 
   observability: {
@@ -15,6 +15,8 @@ export {
   type AppIdentity,
   type ApiConfig,
   type AuthConfig,
+  type SessionMode,
+  type JwtVerificationConfig,
   type FeatureFlags,
   type ObservabilityConfig,
   type EnvironmentConfig,
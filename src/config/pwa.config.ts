@@ -47,6 +47,20 @@ export interface PWAShortcutConfig {
   icons?: PWAIconConfig[];
 }
 
+/**
+ * PWA Offline Reading Configuration
+ */
+export interface PWAOfflineConfig {
+  /** Dedicated cache for pinned article payloads and detail pages */
+  cacheName: string;
+  /** Precached page shown for navigations that fail while offline */
+  fallbackUrl: string;
+  /** Maximum number of pinned articles (bookmarked + recently viewed) */
+  maxArticles: number;
+  /** Maximum number of recently viewed articles kept offline */
+  maxRecentArticles: number;
+}
+
 /**
  * Complete PWA Configuration
  */
@@ -67,6 +81,10 @@ export interface PWAConfig {
   icons: PWAIconConfig[];
   /** App shortcuts */
   shortcuts: PWAShortcutConfig[];
+  /** Offline reading */
+  offline: PWAOfflineConfig;
+  /** Runtime cache for API responses (user-specific, purged on logout) */
+  apiCacheName: string;
 }
 
 /**
@@ -191,4 +209,13 @@ export const pwaConfig: PWAConfig = {
       ],
     },
   ],
+
+  offline: {
+    cacheName: 'offline-articles',
+    fallbackUrl: '/offline',
+    maxArticles: 100,
+    maxRecentArticles: 20,
+  },
+
+  apiCacheName: 'api-cache',
 };
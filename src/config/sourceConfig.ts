@@ -43,6 +43,25 @@ export const SOURCE_CONFIG = {
    * When true, UI updates immediately before server confirmation
    */
   OPTIMISTIC_UPDATES_ENABLED: true,
+
+  /**
+   * Grace period before destructive source operations are sent (milliseconds)
+   * Deletion and deactivation can be undone from a toast during this time
+   */
+  UNDO_GRACE_PERIOD_MS: 5000,
+
+  /**
+   * Hours since the last crawl after which a source is reported as stale
+   * Crawls normally run several times a day, so a day without one means the
+   * crawler is skipping or failing on the source
+   */
+  HEALTH_STALE_CRAWL_HOURS: 24,
+
+  /**
+   * Days since the latest article after which a source is reported as stale
+   * Catches dead feeds that are still crawled but no longer publish
+   */
+  HEALTH_STALE_ARTICLE_DAYS: 14,
 } as const;
 
 /**
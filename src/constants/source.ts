@@ -2,6 +2,8 @@
  * Source-related constants for validation and testing
  */
 
+import type { SourceType } from '@/types/api';
+
 /**
  * Validation limits for source fields
  */
@@ -12,6 +14,16 @@ export const SOURCE_LIMITS = {
   URL_MAX_LENGTH: 2048,
 } as const;
 
+/**
+ * Source types, in the order they are offered in selectors and filters
+ */
+export const SOURCE_TYPES: readonly SourceType[] = ['RSS', 'Webflow', 'NextJS', 'Remix'];
+
+/**
+ * Type of sources that have none (created before source types existed)
+ */
+export const DEFAULT_SOURCE_TYPE: SourceType = 'RSS';
+
 /**
  * Test IDs for source-related components
  * Used for automated testing and accessibility
@@ -39,8 +51,14 @@ export const SOURCE_TEST_IDS = {
   DELETE_CONFIRM_BUTTON: 'source-delete-confirm-button',
   /** Cancel delete button */
   DELETE_CANCEL_BUTTON: 'source-delete-cancel-button',
-  /** Delete error message */
-  DELETE_ERROR: 'source-delete-error',
+  /** Bulk selection checkbox on a source card */
+  SELECT_CHECKBOX: 'source-select-checkbox',
+  /** Bulk actions toolbar */
+  BULK_ACTIONS: 'source-bulk-actions',
+  /** Feed preview in the source form */
+  FEED_PREVIEW: 'source-feed-preview',
+  /** Source type select in the source form */
+  TYPE_SELECT: 'source-type-select',
 } as const;
 
 /**
@@ -54,6 +72,8 @@ export const SOURCE_ARIA_LABELS = {
   NAME_INPUT: 'Source name',
   /** ARIA label for URL input */
   URL_INPUT: 'Feed URL',
+  /** ARIA label for source type select */
+  TYPE_SELECT: 'Source type',
   /** ARIA label for save button */
   SAVE_BUTTON: 'Save changes',
   /** ARIA label for cancel button */
@@ -64,4 +84,6 @@ export const SOURCE_ARIA_LABELS = {
   DELETE_CONFIRM_BUTTON: (name: string) => `Confirm delete ${name}`,
   /** ARIA label for delete cancel button */
   DELETE_CANCEL_BUTTON: 'Cancel deletion',
+  /** Generate ARIA label for bulk selection checkbox */
+  SELECT_CHECKBOX: (name: string) => `Select source: ${name}`,
 } as const;
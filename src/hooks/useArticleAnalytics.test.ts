@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useArticleAnalytics } from './useArticleAnalytics';
+import * as sourceApi from '@/lib/api/endpoints/sources';
+import * as articleApi from '@/lib/api/endpoints/articles';
+import { createMockArticles } from '@/__test__/factories/articleFactory';
+import { PAGINATION_CONFIG } from '@/lib/constants/pagination';
+import { getRangeStartDate } from '@/utils/articleAnalytics';
+import type { Article, PaginatedArticlesResponse, Source } from '@/types/api';
+
+// Mock the sources and articles API
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  getSources: vi.fn(),
+}));
+vi.mock('@/lib/api/endpoints/articles', () => ({
+  searchArticles: vi.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const sources: Source[] = [
+  { id: 1, name: 'Tech Blog', feed_url: 'https://a.example.com/feed', active: true },
+  { id: 2, name: 'Dev News', feed_url: 'https://b.example.com/feed', active: true },
+  { id: 3, name: 'Quiet Blog', feed_url: 'https://c.example.com/feed', active: true },
+];
+
+function searchResponse(
+  data: Article[],
+  page: number,
+  total: number,
+  totalPages: number
+): PaginatedArticlesResponse {
+  return {
+    data,
+    pagination: { page, limit: PAGINATION_CONFIG.MAX_LIMIT, total, total_pages: totalPages },
+  };
+}
+
+describe('useArticleAnalytics', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, gcTime: 0 } },
+    });
+    vi.mocked(sourceApi.getSources).mockResolvedValue(sources);
+    vi.mocked(articleApi.searchArticles).mockResolvedValue(
+      searchResponse(
+        createMockArticles(3, [
+          { source_id: 1, source_name: 'Tech Blog', created_at: daysAgo(0) },
+          { source_id: 2, source_name: 'Dev News', created_at: daysAgo(1) },
+          { source_id: 2, source_name: 'Dev News', created_at: daysAgo(1) },
+        ]),
+        1,
+        3,
+        1
+      )
+    );
+  });
+
+  it('should search the articles ingested in the range', async () => {
+    renderHook(() => useArticleAnalytics(7), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(articleApi.searchArticles).toHaveBeenCalledTimes(1);
+    });
+    expect(articleApi.searchArticles).toHaveBeenCalledWith({
+      from: getRangeStartDate(7),
+      page: 1,
+      limit: PAGINATION_CONFIG.MAX_LIMIT,
+    });
+  });
+
+  it('should aggregate the articles per day and per source', async () => {
+    const { result } = renderHook(() => useArticleAnalytics(7), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.totalArticles).toBe(3);
+    expect(result.current.isTruncated).toBe(false);
+    expect(result.current.dailyCounts).toHaveLength(7);
+    expect(result.current.dailyCounts.map(({ count }) => count).slice(-2)).toEqual([2, 1]);
+    expect(result.current.sourceCounts).toEqual([
+      { sourceId: 2, sourceName: 'Dev News', count: 2 },
+      { sourceId: 1, sourceName: 'Tech Blog', count: 1 },
+    ]);
+    expect(result.current.quietSources.map(({ name }) => name)).toEqual(['Quiet Blog']);
+  });
+
+  it('should fetch every page of the range', async () => {
+    vi.mocked(articleApi.searchArticles).mockImplementation(async (params) => {
+      const page = params?.page ?? 1;
+      return searchResponse(
+        createMockArticles(1, [{ id: page, source_id: page, created_at: daysAgo(0) }]),
+        page,
+        3,
+        3
+      );
+    });
+
+    const { result } = renderHook(() => useArticleAnalytics(30), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(articleApi.searchArticles).toHaveBeenCalledTimes(3);
+    expect(articleApi.searchArticles).toHaveBeenLastCalledWith(
+      expect.objectContaining({ page: 3 })
+    );
+    expect(result.current.sourceCounts).toHaveLength(3);
+    expect(result.current.quietSources).toEqual([]);
+  });
+
+  it('should report a truncated range when not every article was fetched', async () => {
+    vi.mocked(articleApi.searchArticles).mockImplementation(async (params) =>
+      searchResponse(
+        createMockArticles(1, [{ created_at: daysAgo(0) }]),
+        params?.page ?? 1,
+        5000,
+        50
+      )
+    );
+
+    const { result } = renderHook(() => useArticleAnalytics(90), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(articleApi.searchArticles).toHaveBeenCalledTimes(5);
+    expect(result.current.totalArticles).toBe(5000);
+    expect(result.current.analyzedArticles).toBe(5);
+    expect(result.current.isTruncated).toBe(true);
+  });
+
+  it('should return the articles error', async () => {
+    vi.mocked(articleApi.searchArticles).mockRejectedValue(new Error('Search failed'));
+
+    const { result } = renderHook(() => useArticleAnalytics(7), { wrapper: createWrapper() });
+
+    // The articles query retries once before failing
+    await waitFor(
+      () => {
+        expect(result.current.error).toEqual(new Error('Search failed'));
+      },
+      { timeout: 5000 }
+    );
+    expect(result.current.quietSources).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useArticleListMode, ARTICLE_LIST_MODE_STORAGE_KEY } from './useArticleListMode';
+
+describe('useArticleListMode', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to paged mode', () => {
+    const { result } = renderHook(() => useArticleListMode());
+
+    expect(result.current[0]).toBe('paged');
+  });
+
+  it('should read the persisted mode', () => {
+    localStorage.setItem(ARTICLE_LIST_MODE_STORAGE_KEY, 'continuous');
+
+    const { result } = renderHook(() => useArticleListMode());
+
+    expect(result.current[0]).toBe('continuous');
+  });
+
+  it('should persist the mode and update every consumer', () => {
+    const first = renderHook(() => useArticleListMode());
+    const second = renderHook(() => useArticleListMode());
+
+    act(() => {
+      first.result.current[1]('continuous');
+    });
+
+    expect(localStorage.getItem(ARTICLE_LIST_MODE_STORAGE_KEY)).toBe('continuous');
+    expect(first.result.current[0]).toBe('continuous');
+    expect(second.result.current[0]).toBe('continuous');
+  });
+
+  it('should ignore unknown stored values', () => {
+    localStorage.setItem(ARTICLE_LIST_MODE_STORAGE_KEY, 'grid');
+
+    const { result } = renderHook(() => useArticleListMode());
+
+    expect(result.current[0]).toBe('paged');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * useArticleListMode Hook
+ *
+ * Custom React hook for the articles list display mode (numbered pages or
+ * continuous scrolling). The choice is persisted in localStorage and shared
+ * across tabs via the storage event.
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { logger } from '@/lib/logger';
+
+/**
+ * Articles list display mode
+ * - 'paged': numbered pagination
+ * - 'continuous': infinite scroll with "Load more"
+ */
+export type ArticleListMode = 'paged' | 'continuous';
+
+/**
+ * localStorage key for the persisted mode
+ */
+export const ARTICLE_LIST_MODE_STORAGE_KEY = 'catchup_feed_article_list_mode';
+
+/**
+ * Mode used when nothing is persisted (and during server rendering)
+ */
+const DEFAULT_MODE: ArticleListMode = 'paged';
+
+/**
+ * In-tab listeners (the storage event only fires in other tabs)
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * In-memory fallback when localStorage is blocked
+ */
+let memoryMode: ArticleListMode | null = null;
+
+function readMode(): ArticleListMode {
+  if (memoryMode) {
+    return memoryMode;
+  }
+
+  try {
+    const stored = localStorage.getItem(ARTICLE_LIST_MODE_STORAGE_KEY);
+    return stored === 'continuous' ? 'continuous' : DEFAULT_MODE;
+  } catch {
+    return DEFAULT_MODE;
+  }
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ARTICLE_LIST_MODE_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Custom hook for reading and changing the articles list mode
+ *
+ * @returns Current mode and a setter that persists the choice
+ *
+ * @example
+ * ```typescript
+ * const [mode, setMode] = useArticleListMode();
+ * <button onClick={() => setMode('continuous')}>Continuous</button>
+ * ```
+ */
+export function useArticleListMode(): [ArticleListMode, (mode: ArticleListMode) => void] {
+  const mode = useSyncExternalStore(subscribe, readMode, () => DEFAULT_MODE);
+
+  const setMode = useCallback((next: ArticleListMode) => {
+    try {
+      localStorage.setItem(ARTICLE_LIST_MODE_STORAGE_KEY, next);
+    } catch (error) {
+      logger.warn('Failed to persist article list mode', { error });
+      memoryMode = next;
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [mode, setMode];
+}
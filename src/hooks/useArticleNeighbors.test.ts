@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useArticleNeighbors } from './useArticleNeighbors';
+import * as articleApi from '@/lib/api/endpoints/articles';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import type { Article } from '@/types/api';
+
+// Mock the articles API
+vi.mock('@/lib/api/endpoints/articles', () => ({
+  getArticles: vi.fn(),
+  searchArticles: vi.fn(),
+}));
+
+// Three pages of two articles: [1, 2] [3, 4] [5, 6]
+const PAGES: Record<number, Article[]> = {
+  1: [createMockArticle({ id: 1 }), createMockArticle({ id: 2 })],
+  2: [createMockArticle({ id: 3 }), createMockArticle({ id: 4 })],
+  3: [createMockArticle({ id: 5 }), createMockArticle({ id: 6 })],
+};
+
+const respond = async (query?: { page?: number }) => ({
+  data: PAGES[query?.page ?? 1] ?? [],
+  pagination: { page: query?.page ?? 1, limit: 2, total: 6, total_pages: 3 },
+});
+
+describe('useArticleNeighbors', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    });
+    vi.clearAllMocks();
+    vi.mocked(articleApi.getArticles).mockImplementation(respond);
+    vi.mocked(articleApi.searchArticles).mockImplementation(respond);
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should resolve neighbours within the same page', async () => {
+    const { result } = renderHook(() => useArticleNeighbors(4, { page: 2, limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.previous?.article.id).toBe(3);
+    });
+
+    expect(result.current.previous?.href).toBe('/articles/3?page=2&limit=2');
+  });
+
+  it('should resolve neighbours across page boundaries', async () => {
+    const { result } = renderHook(() => useArticleNeighbors(3, { page: 2, limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.previous?.article.id).toBe(2);
+    });
+
+    expect(result.current.previous?.href).toBe('/articles/2?page=1&limit=2');
+    expect(result.current.next?.article.id).toBe(4);
+    expect(articleApi.getArticles).toHaveBeenCalledWith({ page: 1, limit: 2 });
+  });
+
+  it('should load the next page for the last article of a page', async () => {
+    const { result } = renderHook(() => useArticleNeighbors(4, { page: 2, limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.next?.article.id).toBe(5);
+    });
+
+    expect(result.current.next?.context.page).toBe(3);
+  });
+
+  it('should have no previous article at the start of the list', async () => {
+    const { result } = renderHook(() => useArticleNeighbors(1, { page: 1, limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.next?.article.id).toBe(2);
+    });
+
+    expect(result.current.previous).toBeNull();
+  });
+
+  it('should find an article that shifted to an adjacent page', async () => {
+    const { result } = renderHook(() => useArticleNeighbors(5, { page: 2, limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.previous?.article.id).toBe(4);
+    });
+
+    expect(result.current.next?.article.id).toBe(6);
+  });
+
+  it('should use searchArticles and keep the filters when the context has filters', async () => {
+    const { result } = renderHook(
+      () => useArticleNeighbors(1, { keyword: 'react', source_id: 2, page: 1, limit: 2 }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.next?.article.id).toBe(2);
+    });
+
+    expect(articleApi.searchArticles).toHaveBeenCalledWith(
+      expect.objectContaining({ keyword: 'react', source_id: 2, page: 1, limit: 2 })
+    );
+    expect(articleApi.getArticles).not.toHaveBeenCalled();
+    expect(result.current.next?.href).toBe('/articles/2?keyword=react&source_id=2&page=1&limit=2');
+  });
+});
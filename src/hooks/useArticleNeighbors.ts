@@ -0,0 +1,143 @@
+/**
+ * useArticleNeighbors Hook
+ *
+ * Custom React hook for finding the previous and next articles of an article
+ * within the list it was opened from (see ArticleListContext). Reuses the
+ * useArticles / useArticleSearch queries of the list page, so neighbours are
+ * usually resolved from cache, and loads the adjacent page when the article
+ * sits at a page boundary.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useArticles } from '@/hooks/useArticles';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import {
+  getArticleDetailHref,
+  getArticleListFilters,
+  hasArticleListFilters,
+  type ArticleListContext,
+} from '@/utils/articleListContext';
+import type { Article } from '@/types/api';
+
+/**
+ * A neighbouring article and the link to it (carrying its own page)
+ */
+export interface ArticleNeighbor {
+  article: Article;
+  /** List context of the neighbour (page may differ from the current one) */
+  context: ArticleListContext;
+  /** Detail page URL of the neighbour */
+  href: string;
+}
+
+/**
+ * Article neighbours hook return type
+ */
+interface UseArticleNeighborsReturn {
+  /** Previous article in the list, or null at the start / when unknown */
+  previous: ArticleNeighbor | null;
+  /** Next article in the list, or null at the end / when unknown */
+  next: ArticleNeighbor | null;
+  /** Whether list pages are being fetched */
+  isLoading: boolean;
+}
+
+/**
+ * Fetch one page of the list described by the context
+ */
+function useContextPage(context: ArticleListContext, page: number, enabled: boolean) {
+  const search = hasArticleListFilters(context);
+
+  const listResult = useArticles({ page, limit: context.limit }, { enabled: enabled && !search });
+
+  const searchResult = useArticleSearch(
+    { ...getArticleListFilters(context), page, limit: context.limit },
+    { enabled: enabled && search }
+  );
+
+  return search ? searchResult : listResult;
+}
+
+/**
+ * Custom hook for resolving an article's neighbours in its list
+ *
+ * @param articleId - ID of the article being viewed
+ * @param context - List context the article was opened from
+ * @returns Previous and next neighbours with links, and loading state
+ *
+ * @example
+ * ```typescript
+ * const context = parseArticleListContext(searchParams);
+ * const { previous, next } = useArticleNeighbors(articleId, context);
+ *
+ * {next && <Link href={next.href}>{next.article.title}</Link>}
+ * ```
+ */
+export function useArticleNeighbors(
+  articleId: number,
+  context: ArticleListContext
+): UseArticleNeighborsReturn {
+  const current = useContextPage(context, context.page, articleId > 0);
+
+  const index = current.articles.findIndex((article) => article.id === articleId);
+  const isCurrentLoaded = !current.isLoading && !current.error && current.articles.length > 0;
+
+  // Articles shift between pages as new ones arrive, so look at both adjacent
+  // pages when the article is no longer on its page
+  const needsPreviousPage = isCurrentLoaded && context.page > 1 && index <= 0;
+  const needsNextPage =
+    isCurrentLoaded &&
+    context.page < current.pagination.totalPages &&
+    (index === -1 || index === current.articles.length - 1);
+
+  const previousPage = useContextPage(context, Math.max(context.page - 1, 1), needsPreviousPage);
+  const nextPage = useContextPage(context, context.page + 1, needsNextPage);
+
+  const previousArticles = needsPreviousPage ? previousPage.articles : null;
+  const nextArticles = needsNextPage ? nextPage.articles : null;
+
+  const neighbors = useMemo(() => {
+    const entries: { article: Article; page: number }[] = [];
+    const seen = new Set<number>();
+    const append = (articles: Article[] | null, page: number) => {
+      for (const article of articles ?? []) {
+        if (!seen.has(article.id)) {
+          seen.add(article.id);
+          entries.push({ article, page });
+        }
+      }
+    };
+
+    append(previousArticles, context.page - 1);
+    append(current.articles, context.page);
+    append(nextArticles, context.page + 1);
+
+    const position = entries.findIndex((entry) => entry.article.id === articleId);
+    const toNeighbor = (entry: (typeof entries)[number] | undefined): ArticleNeighbor | null => {
+      if (position === -1 || !entry) {
+        return null;
+      }
+      const neighborContext = { ...context, page: entry.page };
+      return {
+        article: entry.article,
+        context: neighborContext,
+        href: getArticleDetailHref(entry.article.id, neighborContext),
+      };
+    };
+
+    return {
+      previous: toNeighbor(entries[position - 1]),
+      next: toNeighbor(entries[position + 1]),
+    };
+  }, [articleId, context, current.articles, previousArticles, nextArticles]);
+
+  return {
+    ...neighbors,
+    isLoading:
+      current.isLoading ||
+      (needsPreviousPage && previousPage.isLoading) ||
+      (needsNextPage && nextPage.isLoading),
+  };
+}
@@ -3,22 +3,28 @@
  *
  * Custom React hook for authentication state management using React Query.
  * Provides login, logout, and authentication status.
+ *
+ * In the cookie session mode, login and logout go through the session routes,
+ * which keep the tokens in HttpOnly cookies; `token` is then always null.
+ * Logout runs the full flow of `logout()` in `@/lib/api/endpoints/auth`.
  */
 
 'use client';
 
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import { useState, useEffect } from 'react';
-import { login as loginApi } from '@/lib/api/endpoints/auth';
+import { login as loginApi, loginSession, logout as logoutApi } from '@/lib/api/endpoints/auth';
 import {
   getAuthToken,
   setAuthToken,
+  setAuthTokenCookie,
   setRefreshToken,
   clearAllTokens,
   isTokenExpired,
 } from '@/lib/auth/TokenManager';
-import { metrics, setUserContext, clearUserContext } from '@/lib/observability';
+import { getSessionClaims, isCookieSession } from '@/lib/auth/session';
+import { metrics, setUserContext } from '@/lib/observability';
 
 /**
  * Authentication hook return type
@@ -30,8 +36,8 @@ interface UseAuthReturn {
   token: string | null;
   /** Function to log in with email and password */
   login: (email: string, password: string) => Promise<void>;
-  /** Function to log out (clears token and redirects) */
-  logout: () => void;
+  /** Function to log out (revokes the session, clears it in every tab and redirects) */
+  logout: () => Promise<void>;
   /** Whether a login request is in progress */
   isLoading: boolean;
   /** Error from the last login attempt, or null */
@@ -70,19 +76,24 @@ interface UseAuthReturn {
  */
 export function useAuth(): UseAuthReturn {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [token, setToken] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
 
   // Initialize auth state on mount
   useEffect(() => {
+    if (isCookieSession()) {
+      // The session cookies are HttpOnly; the claims cookie tells whether one exists
+      setIsAuthenticated(getSessionClaims() !== null);
+      return;
+    }
+
     const currentToken = getAuthToken();
     if (currentToken && !isTokenExpired()) {
       setToken(currentToken);
       setIsAuthenticated(true);
       // Set cookie for middleware
-      if (typeof document !== 'undefined') {
-        document.cookie = `catchup_feed_auth_token=${currentToken}; path=/; max-age=86400; SameSite=Strict`;
-      }
+      setAuthTokenCookie(currentToken);
     } else {
       setToken(null);
       setIsAuthenticated(false);
@@ -96,11 +107,25 @@ export function useAuth(): UseAuthReturn {
   // Login mutation
   const loginMutation = useMutation({
     mutationFn: async ({ email, password }: { email: string; password: string }) => {
+      if (isCookieSession()) {
+        return loginSession(email, password);
+      }
       const response = await loginApi(email, password);
       return response;
     },
     onSuccess: (response) => {
-      // Store access token in TokenManager
+      if (!('token' in response)) {
+        // Cookie session: the session route has set the tokens as HttpOnly cookies
+        setIsAuthenticated(true);
+        if (response.sub) {
+          setUserContext({ id: response.sub, email: response.email });
+        }
+        metrics.login.success();
+        router.push('/dashboard');
+        return;
+      }
+
+      // Store access token in TokenManager (and the cookie for middleware)
       setAuthToken(response.token);
       setToken(response.token);
       setIsAuthenticated(true);
@@ -110,11 +135,6 @@ export function useAuth(): UseAuthReturn {
         setRefreshToken(response.refresh_token);
       }
 
-      // Set cookie for middleware (expires in 24 hours)
-      if (typeof document !== 'undefined') {
-        document.cookie = `catchup_feed_auth_token=${response.token}; path=/; max-age=86400; SameSite=Strict`;
-      }
-
       // Set user context for error tracking
       // Note: We could decode the JWT token to get user info,
       // but for now we'll set a basic context with the token presence
@@ -171,27 +191,13 @@ export function useAuth(): UseAuthReturn {
   };
 
   /**
-   * Logout (clear all tokens and redirect to login page)
+   * Logout (revoke the session, clear all session state in every tab and
+   * redirect to the login page)
    */
-  const logout = (): void => {
-    // Clear all tokens from TokenManager
-    clearAllTokens();
+  const logout = async (): Promise<void> => {
     setToken(null);
     setIsAuthenticated(false);
-
-    // Clear cookie
-    if (typeof document !== 'undefined') {
-      document.cookie = 'catchup_feed_auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
-    }
-
-    // Clear user context from error tracking
-    clearUserContext();
-
-    // Track logout metric
-    metrics.login.logout();
-
-    // Redirect to login page
-    router.push('/login');
+    await logoutApi(queryClient);
   };
 
   return {
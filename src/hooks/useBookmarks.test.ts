@@ -0,0 +1,86 @@
+/**
+ * useBookmarks Hook Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useBookmarks, useArticleBookmark } from './useBookmarks';
+import { BookmarkStore } from '@/lib/reading/BookmarkStore';
+import { getUserId } from '@/lib/auth/role';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+describe('useBookmarks', () => {
+  beforeEach(() => {
+    BookmarkStore.resetInstance();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  afterEach(() => {
+    BookmarkStore.resetInstance();
+  });
+
+  it('should load bookmarks for the current user', async () => {
+    const { result } = renderHook(() => useBookmarks());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.bookmarks).toEqual([]);
+  });
+
+  it('should add and remove bookmarks', async () => {
+    const { result } = renderHook(() => useBookmarks());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const article = createMockArticle({ id: 1 });
+
+    act(() => {
+      result.current.addBookmark(article);
+    });
+    expect(result.current.isBookmarked(1)).toBe(true);
+
+    act(() => {
+      result.current.removeBookmark(1);
+    });
+    expect(result.current.isBookmarked(1)).toBe(false);
+  });
+
+  it('should list the most recently bookmarked article first', async () => {
+    const now = vi.spyOn(Date, 'now');
+    const { result } = renderHook(() => useBookmarks());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      now.mockReturnValue(1000);
+      result.current.addBookmark(createMockArticle({ id: 1 }));
+      now.mockReturnValue(2000);
+      result.current.addBookmark(createMockArticle({ id: 2 }));
+    });
+
+    expect(result.current.bookmarks.map((b) => b.article.id)).toEqual([2, 1]);
+    now.mockRestore();
+  });
+});
+
+describe('useArticleBookmark', () => {
+  beforeEach(() => {
+    BookmarkStore.resetInstance();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  it('should toggle the bookmark for an article', async () => {
+    const article = createMockArticle({ id: 5 });
+    const { result } = renderHook(() => useArticleBookmark(article));
+    await waitFor(() => expect(BookmarkStore.getInstance().isLoaded()).toBe(true));
+
+    act(() => {
+      result.current.toggle();
+    });
+    expect(result.current.isBookmarked).toBe(true);
+
+    act(() => {
+      result.current.toggle();
+    });
+    expect(result.current.isBookmarked).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * useBookmarks Hook
+ *
+ * Custom React hooks for the "Read later" bookmark collection.
+ * Backed by BookmarkStore (IndexedDB + BroadcastChannel) and scoped to the
+ * user in the current auth token.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  getBookmarkStore,
+  type Bookmark,
+  type BookmarkSnapshot,
+} from '@/lib/reading/BookmarkStore';
+import { getUserId } from '@/lib/auth/role';
+import type { Article } from '@/types/api';
+
+/**
+ * Empty snapshot used during server rendering
+ */
+const EMPTY_SNAPSHOT: BookmarkSnapshot = new Map();
+
+/**
+ * Bookmarks hook return type
+ */
+interface UseBookmarksReturn {
+  /** Bookmarks, most recently bookmarked first */
+  bookmarks: Bookmark[];
+  /** Whether bookmarks are still loading from storage */
+  isLoading: boolean;
+  /** Check whether an article is bookmarked */
+  isBookmarked: (articleId: number) => boolean;
+  /** Bookmark an article */
+  addBookmark: (article: Article) => void;
+  /** Remove a bookmark */
+  removeBookmark: (articleId: number) => void;
+  /** Toggle the bookmark for an article */
+  toggleBookmark: (article: Article) => void;
+}
+
+/**
+ * Subscribe to the bookmark snapshot, loading the current user's bookmarks
+ */
+function useBookmarkSnapshot(): BookmarkSnapshot {
+  const store = getBookmarkStore();
+
+  useEffect(() => {
+    void store.setUser(getUserId());
+  }, [store]);
+
+  return useSyncExternalStore(
+    useCallback((listener) => store.subscribe(listener), [store]),
+    () => store.getSnapshot(),
+    () => EMPTY_SNAPSHOT
+  );
+}
+
+/**
+ * Custom hook for reading and updating the current user's bookmarks
+ *
+ * @returns Bookmarks and functions to update them
+ *
+ * @example
+ * ```typescript
+ * function BookmarkList() {
+ *   const { bookmarks, removeBookmark } = useBookmarks();
+ *
+ *   return bookmarks.map(({ article }) => (
+ *     <div key={article.id}>
+ *       {article.title}
+ *       <button onClick={() => removeBookmark(article.id)}>Remove</button>
+ *     </div>
+ *   ));
+ * }
+ * ```
+ */
+export function useBookmarks(): UseBookmarksReturn {
+  const snapshot = useBookmarkSnapshot();
+  const store = getBookmarkStore();
+
+  const bookmarks = useMemo(
+    () => Array.from(snapshot.values()).sort((a, b) => b.bookmarkedAt - a.bookmarkedAt),
+    [snapshot]
+  );
+
+  const isBookmarked = useCallback((articleId: number) => snapshot.has(articleId), [snapshot]);
+
+  const addBookmark = useCallback((article: Article) => void store.add(article), [store]);
+
+  const removeBookmark = useCallback((articleId: number) => void store.remove(articleId), [store]);
+
+  const toggleBookmark = useCallback((article: Article) => void store.toggle(article), [store]);
+
+  return {
+    bookmarks,
+    isLoading: !store.isLoaded(),
+    isBookmarked,
+    addBookmark,
+    removeBookmark,
+    toggleBookmark,
+  };
+}
+
+/**
+ * Custom hook for checking and toggling the bookmark of a single article
+ *
+ * @param article - Article
+ * @returns Whether the article is bookmarked and a toggle function
+ *
+ * @example
+ * ```typescript
+ * const { isBookmarked, toggle } = useArticleBookmark(article);
+ * ```
+ */
+export function useArticleBookmark(article: Article): {
+  isBookmarked: boolean;
+  toggle: () => void;
+} {
+  const isBookmarked = useBookmarkSnapshot().has(article.id);
+  const store = getBookmarkStore();
+
+  const toggle = useCallback(() => void store.toggle(article), [store, article]);
+
+  return { isBookmarked, toggle };
+}
@@ -0,0 +1,235 @@
+/**
+ * useBulkSourceActions Hook Tests
+ *
+ * Tests for the useBulkSourceActions hook including:
+ * - One request per source for each action
+ * - Optimistic cache updates
+ * - Partial failures (only failed sources restored)
+ * - Abort (single rollback, remaining sources skipped)
+ * - Progress counters and reset
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { useBulkSourceActions } from './useBulkSourceActions';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import { ApiError } from '@/lib/api/errors';
+import type { Source, SourcesResponse } from '@/types/api';
+
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  deleteSource: vi.fn(),
+  updateSourceActive: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const mockSources: SourcesResponse = [
+  { id: 1, name: 'Tech Blog', feed_url: 'https://tech.example.com/feed.xml', active: true },
+  { id: 2, name: 'News Site', feed_url: 'https://news.example.com/feed.xml', active: true },
+  { id: 3, name: 'Dev Notes', feed_url: 'https://dev.example.com/feed.xml', active: false },
+];
+
+const createWrapper = (queryClient: QueryClient) => {
+  const Wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+  Wrapper.displayName = 'TestQueryClientProvider';
+  return Wrapper;
+};
+
+const createQueryClient = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  queryClient.setQueryData(['sources'], mockSources);
+  // Keep the cache as set by the hook (no refetch in tests)
+  vi.spyOn(queryClient, 'invalidateQueries').mockResolvedValue();
+  return queryClient;
+};
+
+const sourceAt = (index: number): Source => mockSources[index]!;
+
+describe('useBulkSourceActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sourcesApi.updateSourceActive).mockImplementation(async (id, active) => ({
+      ...mockSources.find((source) => source.id === id)!,
+      active,
+    }));
+    vi.mocked(sourcesApi.deleteSource).mockResolvedValue(undefined);
+  });
+
+  it('returns initial state correctly', () => {
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(createQueryClient()),
+    });
+
+    expect(result.current.isPending).toBe(false);
+    expect(result.current.result).toBeNull();
+    expect(result.current.completed).toBe(0);
+    expect(result.current.total).toBe(0);
+  });
+
+  it('deactivates every source and keeps the optimistic update', async () => {
+    const queryClient = createQueryClient();
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.runBulkAction('deactivate', [sourceAt(0), sourceAt(1)]);
+    });
+
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(1, false);
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(2, false);
+    expect(outcome).toEqual({
+      action: 'deactivate',
+      succeeded: [1, 2],
+      failed: [],
+      skipped: [],
+      aborted: false,
+    });
+    expect(
+      queryClient.getQueryData<SourcesResponse>(['sources'])?.map((source) => source.active)
+    ).toEqual([false, false, false]);
+    expect(result.current.completed).toBe(2);
+    expect(result.current.total).toBe(2);
+    expect(queryClient.invalidateQueries).toHaveBeenCalledWith({ queryKey: ['sources'] });
+  });
+
+  it('removes deleted sources from the cache before the requests finish', async () => {
+    const queryClient = createQueryClient();
+    let resolveDelete: () => void = () => {};
+    vi.mocked(sourcesApi.deleteSource).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (resolveDelete = resolve))
+    );
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    let pending: Promise<unknown> = Promise.resolve();
+    act(() => {
+      pending = result.current.runBulkAction('delete', [sourceAt(0), sourceAt(2)]);
+    });
+
+    await waitFor(() => {
+      expect(
+        queryClient.getQueryData<SourcesResponse>(['sources'])?.map((source) => source.id)
+      ).toEqual([2]);
+    });
+    expect(result.current.isPending).toBe(true);
+
+    await act(async () => {
+      resolveDelete();
+      await pending;
+    });
+    expect(sourcesApi.deleteSource).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failures per source and restores only the failed sources', async () => {
+    const queryClient = createQueryClient();
+    vi.mocked(sourcesApi.deleteSource)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new ApiError('Source not found', 404))
+      .mockResolvedValueOnce(undefined);
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    await act(async () => {
+      await result.current.runBulkAction('delete', [...mockSources]);
+    });
+
+    expect(result.current.result?.succeeded).toEqual([1, 3]);
+    expect(result.current.result?.failed).toHaveLength(1);
+    expect(result.current.result?.failed[0]?.source.id).toBe(2);
+    expect(result.current.result?.failed[0]?.error).toBeTruthy();
+    expect(queryClient.getQueryData<SourcesResponse>(['sources'])).toEqual([sourceAt(1)]);
+  });
+
+  it('restores the active state of failed sources', async () => {
+    const queryClient = createQueryClient();
+    vi.mocked(sourcesApi.updateSourceActive).mockRejectedValueOnce(new Error('Network error'));
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    await act(async () => {
+      await result.current.runBulkAction('deactivate', [sourceAt(0), sourceAt(1)]);
+    });
+
+    expect(result.current.result?.failed).toEqual([
+      { source: sourceAt(0), error: 'Network error' },
+    ]);
+    expect(
+      queryClient.getQueryData<SourcesResponse>(['sources'])?.map((source) => source.active)
+    ).toEqual([true, false, false]);
+  });
+
+  it('skips remaining sources and rolls the cache back once when aborted', async () => {
+    const queryClient = createQueryClient();
+    const setQueryData = vi.spyOn(queryClient, 'setQueryData');
+    let resolveFirst: () => void = () => {};
+    vi.mocked(sourcesApi.deleteSource).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (resolveFirst = resolve))
+    );
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    let pending: Promise<unknown> = Promise.resolve();
+    act(() => {
+      pending = result.current.runBulkAction('delete', [...mockSources]);
+    });
+    await waitFor(() => {
+      expect(sourcesApi.deleteSource).toHaveBeenCalledTimes(1);
+    });
+
+    await act(async () => {
+      result.current.abort();
+      resolveFirst();
+      await pending;
+    });
+
+    expect(sourcesApi.deleteSource).toHaveBeenCalledTimes(1);
+    expect(result.current.result).toMatchObject({
+      succeeded: [1],
+      skipped: [2, 3],
+      aborted: true,
+    });
+    expect(queryClient.getQueryData(['sources'])).toEqual(mockSources);
+    // One optimistic update and one rollback
+    expect(setQueryData).toHaveBeenCalledTimes(2);
+  });
+
+  it('clears the outcome on reset', async () => {
+    const { result } = renderHook(() => useBulkSourceActions(), {
+      wrapper: createWrapper(createQueryClient()),
+    });
+
+    await act(async () => {
+      await result.current.runBulkAction('activate', [sourceAt(2)]);
+    });
+    expect(result.current.result).not.toBeNull();
+
+    act(() => {
+      result.current.reset();
+    });
+
+    await waitFor(() => {
+      expect(result.current.result).toBeNull();
+    });
+    expect(result.current.total).toBe(0);
+  });
+});
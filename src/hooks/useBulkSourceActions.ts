@@ -0,0 +1,314 @@
+/**
+ * useBulkSourceActions Hook
+ *
+ * Custom React hook for activating, deactivating or deleting several sources at once.
+ * Uses a single React Query mutation for the whole batch:
+ *
+ * - One optimistic cache update for every selected source
+ * - Requests sent one at a time via updateSourceActive / deleteSource,
+ *   with the outcome recorded per source
+ * - Partial failures: only the failed sources are restored in the cache
+ * - Abort: remaining sources are skipped and the cache snapshot is restored once
+ * - Optional undo grace period for deactivate/delete: the batch waits behind an
+ *   "Undo" toast, and undoing restores the snapshot without sending any request
+ */
+
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { deleteSource, updateSourceActive } from '@/lib/api/endpoints/sources';
+import { ApiError } from '@/lib/api/errors';
+import { logger } from '@/lib/logger';
+import { ActionUndoneError, waitForUndo } from '@/lib/toast/ToastManager';
+import { getApiErrorMessage } from '@/utils/errorMessages';
+import type { Source, SourcesResponse } from '@/types/api';
+
+/**
+ * Action applied to every source in a batch
+ */
+export type BulkSourceAction = 'activate' | 'deactivate' | 'delete';
+
+/**
+ * A source the action failed for
+ */
+export interface BulkSourceFailure {
+  source: Source;
+  /** User-facing error message */
+  error: string;
+}
+
+/**
+ * Outcome of a batch
+ */
+export interface BulkSourceActionResult {
+  action: BulkSourceAction;
+  /** IDs of sources the action succeeded for */
+  succeeded: number[];
+  /** Sources the action failed for, in batch order */
+  failed: BulkSourceFailure[];
+  /** IDs of sources not processed because the batch was aborted */
+  skipped: number[];
+  /** Whether the batch was aborted before every source was processed */
+  aborted: boolean;
+}
+
+/**
+ * Bulk source actions hook options
+ */
+interface UseBulkSourceActionsOptions {
+  /**
+   * Defer deactivate/delete batches behind an "Undo" toast for this many
+   * milliseconds (0, the default, starts immediately). Undoing rejects with
+   * ActionUndoneError.
+   */
+  undoGracePeriodMs?: number;
+}
+
+/**
+ * Bulk source actions hook return type
+ */
+interface UseBulkSourceActionsReturn {
+  /** Run an action for each source (resolves with the per-source outcome) */
+  runBulkAction: (action: BulkSourceAction, sources: Source[]) => Promise<BulkSourceActionResult>;
+  /** Stop the running batch after the in-flight request */
+  abort: () => void;
+  /** Whether a batch is in progress */
+  isPending: boolean;
+  /** Number of sources processed so far */
+  completed: number;
+  /** Number of sources in the current batch */
+  total: number;
+  /** Outcome of the last batch, or null */
+  result: BulkSourceActionResult | null;
+  /** Undo (ActionUndoneError) or unexpected error from the last batch, or null */
+  error: Error | null;
+  /** Clear the outcome and progress */
+  reset: () => void;
+}
+
+const UNDO_TITLES: Record<Exclude<BulkSourceAction, 'activate'>, string> = {
+  deactivate: 'Deactivated',
+  delete: 'Deleted',
+};
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    return getApiErrorMessage(error.status, error.message);
+  }
+  return error instanceof Error ? error.message : 'Request failed';
+}
+
+/**
+ * Apply an action to the cached sources
+ */
+function applyBulkAction(
+  sources: SourcesResponse,
+  action: BulkSourceAction,
+  ids: ReadonlySet<number>
+): SourcesResponse {
+  if (action === 'delete') {
+    return sources.filter((source) => !ids.has(source.id));
+  }
+  const active = action === 'activate';
+  return sources.map((source) => (ids.has(source.id) ? { ...source, active } : source));
+}
+
+/**
+ * Put failed sources back to their snapshot state, in snapshot order,
+ * keeping the optimistic state of every other source
+ */
+function restoreFailedSources(
+  current: SourcesResponse,
+  previous: SourcesResponse,
+  failedIds: ReadonlySet<number>
+): SourcesResponse {
+  const currentById = new Map(current.map((source) => [source.id, source]));
+  return previous.flatMap((source) => {
+    if (failedIds.has(source.id)) {
+      return [source];
+    }
+    const currentSource = currentById.get(source.id);
+    return currentSource ? [currentSource] : [];
+  });
+}
+
+/**
+ * Custom hook for bulk source actions
+ *
+ * @param options - Optional undo grace period
+ * @returns Batch runner, abort function, progress counters and the last outcome
+ *
+ * @example
+ * ```typescript
+ * const { runBulkAction, abort, completed, total } = useBulkSourceActions();
+ *
+ * const result = await runBulkAction('deactivate', selectedSources);
+ * result.failed.forEach(({ source, error }) => console.log(source.name, error));
+ * ```
+ */
+export function useBulkSourceActions(
+  options: UseBulkSourceActionsOptions = {}
+): UseBulkSourceActionsReturn {
+  const { undoGracePeriodMs = 0 } = options;
+  const queryClient = useQueryClient();
+  const abortRequestedRef = useRef(false);
+  const [completed, setCompleted] = useState(0);
+  const [total, setTotal] = useState(0);
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      action,
+      sources,
+    }: {
+      action: BulkSourceAction;
+      sources: Source[];
+    }): Promise<BulkSourceActionResult> => {
+      const result: BulkSourceActionResult = {
+        action,
+        succeeded: [],
+        failed: [],
+        skipped: [],
+        aborted: false,
+      };
+
+      // Wait for the undo grace period (throws ActionUndoneError when undone)
+      if (action !== 'activate') {
+        const count = `${sources.length} source${sources.length !== 1 ? 's' : ''}`;
+        await waitForUndo(`${UNDO_TITLES[action]} ${count}`, undoGracePeriodMs);
+      }
+
+      for (const source of sources) {
+        if (abortRequestedRef.current) {
+          result.aborted = true;
+          result.skipped.push(source.id);
+          continue;
+        }
+
+        try {
+          if (action === 'delete') {
+            await deleteSource(source.id);
+          } else {
+            await updateSourceActive(source.id, action === 'activate');
+          }
+          result.succeeded.push(source.id);
+        } catch (error) {
+          logger.warn('Bulk source action failed for source', {
+            sourceId: source.id,
+            action,
+            error,
+          });
+          result.failed.push({ source, error: getErrorMessage(error) });
+        }
+        setCompleted((count) => count + 1);
+      }
+
+      logger.info('Bulk source action finished', {
+        action,
+        succeeded: result.succeeded.length,
+        failed: result.failed.length,
+        skipped: result.skipped.length,
+        aborted: result.aborted,
+        operation: 'bulk_source_action',
+      });
+
+      return result;
+    },
+    onMutate: async ({ action, sources }) => {
+      // Cancel outgoing queries to avoid race conditions
+      await queryClient.cancelQueries({ queryKey: ['sources'] });
+
+      // Snapshot the current sources cache
+      const previousSources = queryClient.getQueryData<SourcesResponse>(['sources']);
+
+      // Optimistically apply the action to every selected source
+      if (previousSources) {
+        const ids = new Set(sources.map((source) => source.id));
+        queryClient.setQueryData<SourcesResponse>(
+          ['sources'],
+          applyBulkAction(previousSources, action, ids)
+        );
+      }
+
+      // Return snapshot for rollback
+      return { previousSources };
+    },
+    onSuccess: (result, _variables, context) => {
+      const previousSources = context?.previousSources;
+      if (!previousSources) {
+        return;
+      }
+
+      if (result.aborted) {
+        // Single rollback for the whole batch; the refetch below brings back
+        // whatever was already applied on the server
+        queryClient.setQueryData(['sources'], previousSources);
+        logger.warn('Bulk source action aborted, cache rolled back', {
+          action: result.action,
+          processed: result.succeeded.length + result.failed.length,
+          skipped: result.skipped.length,
+          operation: 'bulk_source_action',
+        });
+        return;
+      }
+
+      if (result.failed.length > 0) {
+        const failedIds = new Set(result.failed.map(({ source }) => source.id));
+        queryClient.setQueryData<SourcesResponse>(['sources'], (current) =>
+          current ? restoreFailedSources(current, previousSources, failedIds) : previousSources
+        );
+      }
+    },
+    onError: (error, { action }, context) => {
+      // Roll back to the previous state on undo or unexpected errors
+      if (context?.previousSources) {
+        queryClient.setQueryData(['sources'], context.previousSources);
+      }
+      if (error instanceof ActionUndoneError) {
+        logger.info('Bulk source action undone', { action, operation: 'bulk_source_action' });
+        return;
+      }
+      logger.error('Bulk source action failed', error as Error, {
+        action,
+        operation: 'bulk_source_action',
+      });
+    },
+    onSettled: () => {
+      // Always refetch to ensure consistency with backend
+      queryClient.invalidateQueries({ queryKey: ['sources'] });
+    },
+  });
+
+  const { mutateAsync, reset: resetMutation } = mutation;
+
+  const runBulkAction = useCallback(
+    (action: BulkSourceAction, sources: Source[]) => {
+      abortRequestedRef.current = false;
+      setCompleted(0);
+      setTotal(sources.length);
+      return mutateAsync({ action, sources });
+    },
+    [mutateAsync]
+  );
+
+  const abort = useCallback(() => {
+    abortRequestedRef.current = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    resetMutation();
+    setCompleted(0);
+    setTotal(0);
+  }, [resetMutation]);
+
+  return {
+    runBulkAction,
+    abort,
+    isPending: mutation.isPending,
+    completed,
+    total,
+    result: mutation.data ?? null,
+    error: mutation.error as Error | null,
+    reset,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useCan, useUserRole } from './useCan';
+import { getUserRole } from '@/lib/auth/role';
+import { UserRoleStore } from '@/lib/auth/UserRoleStore';
+import { setAuthToken, clearAllTokens } from '@/lib/auth/TokenManager';
+import { notifySessionChange } from '@/lib/auth/session';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserRole: vi.fn(),
+}));
+
+describe('useCan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    UserRoleStore.resetInstance();
+  });
+
+  it('should read the role of the current user', () => {
+    vi.mocked(getUserRole).mockReturnValue('admin');
+
+    const { result } = renderHook(() => useUserRole());
+
+    expect(result.current).toBe('admin');
+  });
+
+  it('should grant the permissions of the role', () => {
+    vi.mocked(getUserRole).mockReturnValue('admin');
+
+    const { result } = renderHook(() => useCan('source:delete'));
+
+    expect(result.current).toBe(true);
+  });
+
+  it('should deny permissions the role does not have', () => {
+    vi.mocked(getUserRole).mockReturnValue('user');
+
+    const { result } = renderHook(() => useCan('source:delete'));
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should deny permissions when signed out', () => {
+    vi.mocked(getUserRole).mockReturnValue(null);
+
+    const { result } = renderHook(() => useCan('source:update'));
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should follow token changes', () => {
+    vi.mocked(getUserRole).mockReturnValue('admin');
+    const { result } = renderHook(() => useCan('source:delete'));
+
+    vi.mocked(getUserRole).mockReturnValue(null);
+    act(() => clearAllTokens());
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should follow session changes', () => {
+    vi.mocked(getUserRole).mockReturnValue('user');
+    const { result } = renderHook(() => useUserRole());
+
+    vi.mocked(getUserRole).mockReturnValue('admin');
+    act(() => notifySessionChange());
+
+    expect(result.current).toBe('admin');
+  });
+
+  it('should share the role between components', () => {
+    vi.mocked(getUserRole).mockReturnValue('user');
+    const first = renderHook(() => useUserRole());
+    const second = renderHook(() => useUserRole());
+
+    vi.mocked(getUserRole).mockReturnValue('admin');
+    act(() => setAuthToken('new-token'));
+
+    expect(first.result.current).toBe('admin');
+    expect(second.result.current).toBe('admin');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * useCan Hook
+ *
+ * Custom React hooks for the current user's role and permissions.
+ * Admin-only UI checks a permission with `useCan()` (or `<Can>`) instead of
+ * comparing roles.
+ */
+
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { UserRole } from '@/lib/auth/role';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
+import { getUserRoleStore } from '@/lib/auth/UserRoleStore';
+
+/**
+ * Role during server rendering and hydration
+ */
+function getServerRole(): UserRole {
+  return null;
+}
+
+/**
+ * Custom hook for the current user's role
+ *
+ * Reads the shared `UserRoleStore`, so the role is null during server
+ * rendering and hydration, and follows logins, token or session refreshes and
+ * logouts (also in other tabs).
+ *
+ * @returns The user's role, or null if unknown or signed out
+ *
+ * @example
+ * ```typescript
+ * const userRole = useUserRole();
+ * <DashboardWidgets role={userRole} />
+ * ```
+ */
+export function useUserRole(): UserRole {
+  const store = getUserRoleStore();
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, getServerRole);
+}
+
+/**
+ * Custom hook checking a permission of the current user
+ *
+ * @param permission - Permission to check
+ * @returns True if the user's role grants the permission
+ *
+ * @example
+ * ```typescript
+ * const canDelete = useCan('source:delete');
+ * ```
+ */
+export function useCan(permission: Permission): boolean {
+  return hasPermission(useUserRole(), permission);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useCrossTabLogout } from './useCrossTabLogout';
+import { onLogoutFromOtherTab } from '@/lib/auth/TokenManager';
+import { clearLocalSession } from '@/lib/auth/logout';
+
+vi.mock('@/lib/auth/TokenManager', () => ({
+  onLogoutFromOtherTab: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/logout', () => ({
+  clearLocalSession: vi.fn(),
+}));
+
+describe('useCrossTabLogout', () => {
+  let queryClient: QueryClient;
+  let logoutListener: (() => void) | null;
+  const unsubscribe = vi.fn();
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient();
+    logoutListener = null;
+    vi.mocked(onLogoutFromOtherTab).mockImplementation((listener) => {
+      logoutListener = listener;
+      return unsubscribe;
+    });
+    vi.mocked(clearLocalSession).mockResolvedValue(undefined);
+
+    // Mock window.location
+    Object.defineProperty(window, 'location', {
+      value: { href: '' },
+      writable: true,
+    });
+  });
+
+  it('should clear the session and redirect when another tab logs out', async () => {
+    renderHook(() => useCrossTabLogout(), { wrapper: createWrapper() });
+
+    logoutListener?.();
+
+    expect(clearLocalSession).toHaveBeenCalledWith(queryClient);
+    await waitFor(() => {
+      expect(window.location.href).toBe('/login');
+    });
+  });
+
+  it('should stop listening on unmount', () => {
+    const { unmount } = renderHook(() => useCrossTabLogout(), { wrapper: createWrapper() });
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * useCrossTabLogout Hook
+ *
+ * Signs this tab out when the user logs out in another tab, so no tab keeps
+ * showing (or caching) the previous user's data.
+ */
+
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { onLogoutFromOtherTab } from '@/lib/auth/TokenManager';
+import { clearLocalSession } from '@/lib/auth/logout';
+
+/**
+ * Custom hook that follows logouts from other tabs
+ *
+ * Clears the session state of this tab and reloads the app on the login page.
+ * Mount once near the root of the protected area.
+ */
+export function useCrossTabLogout(): void {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      onLogoutFromOtherTab(() => {
+        void clearLocalSession(queryClient).finally(() => {
+          window.location.href = '/login';
+        });
+      }),
+    [queryClient]
+  );
+}
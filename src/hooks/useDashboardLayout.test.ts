@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useDashboardLayout } from './useDashboardLayout';
+import { getUserId } from '@/lib/auth/role';
+import { getLayoutStorageKey } from '@/lib/dashboard/widgetLayout';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+const KNOWN_IDS = ['a', 'b', 'c'];
+const DEFAULT_LAYOUT = ['a', 'b'];
+
+describe('useDashboardLayout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  it('should use the default layout until the user customizes it', async () => {
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+
+    await waitFor(() => {
+      expect(result.current.isLoaded).toBe(true);
+    });
+    expect(result.current.layout).toEqual(['a', 'b']);
+    expect(result.current.isCustomized).toBe(false);
+  });
+
+  it("should read the current user's layout", async () => {
+    localStorage.setItem(getLayoutStorageKey('user-1'), JSON.stringify(['c', 'a']));
+    localStorage.setItem(getLayoutStorageKey('user-2'), JSON.stringify(['b']));
+
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+
+    await waitFor(() => {
+      expect(result.current.layout).toEqual(['c', 'a']);
+    });
+    expect(result.current.isCustomized).toBe(true);
+  });
+
+  it('should persist layout changes for the current user', async () => {
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+    await waitFor(() => {
+      expect(result.current.isLoaded).toBe(true);
+    });
+
+    act(() => {
+      result.current.setLayout(['b', 'c']);
+    });
+
+    expect(result.current.layout).toEqual(['b', 'c']);
+    expect(localStorage.getItem(getLayoutStorageKey('user-1'))).toBe('["b","c"]');
+    expect(localStorage.getItem(getLayoutStorageKey('user-2'))).toBeNull();
+  });
+
+  it('should reset to the default layout', async () => {
+    localStorage.setItem(getLayoutStorageKey('user-1'), JSON.stringify(['c']));
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+    await waitFor(() => {
+      expect(result.current.isCustomized).toBe(true);
+    });
+
+    act(() => {
+      result.current.resetLayout();
+    });
+
+    expect(result.current.layout).toEqual(['a', 'b']);
+    expect(result.current.isCustomized).toBe(false);
+    expect(localStorage.getItem(getLayoutStorageKey('user-1'))).toBeNull();
+  });
+
+  it('should drop unknown widgets from the stored layout', async () => {
+    localStorage.setItem(getLayoutStorageKey('user-1'), JSON.stringify(['retired', 'b']));
+
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+
+    await waitFor(() => {
+      expect(result.current.layout).toEqual(['b']);
+    });
+  });
+
+  it('should follow layout changes from other tabs', async () => {
+    const { result } = renderHook(() => useDashboardLayout(KNOWN_IDS, DEFAULT_LAYOUT));
+    await waitFor(() => {
+      expect(result.current.isLoaded).toBe(true);
+    });
+
+    const key = getLayoutStorageKey('user-1');
+    act(() => {
+      localStorage.setItem(key, JSON.stringify(['c']));
+      window.dispatchEvent(new StorageEvent('storage', { key }));
+    });
+
+    expect(result.current.layout).toEqual(['c']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * useDashboardLayout Hook
+ *
+ * Custom React hook for the current user's dashboard widget layout.
+ * The layout is persisted per user in localStorage and shared across tabs
+ * via the storage event.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getUserId } from '@/lib/auth/role';
+import {
+  getLayoutStorageKey,
+  loadDashboardLayout,
+  saveDashboardLayout,
+  type DashboardLayout,
+} from '@/lib/dashboard/widgetLayout';
+
+/**
+ * Dashboard layout hook return type
+ */
+interface UseDashboardLayoutReturn {
+  /** Ordered IDs of the widgets to show (the default layout until customized) */
+  layout: DashboardLayout;
+  /** Whether the user's layout has been read from storage */
+  isLoaded: boolean;
+  /** Whether the user has customized the layout */
+  isCustomized: boolean;
+  /** Replace and persist the layout */
+  setLayout: (layout: DashboardLayout) => void;
+  /** Forget the customized layout and go back to the default */
+  resetLayout: () => void;
+}
+
+/**
+ * Custom hook for reading and changing the dashboard layout
+ *
+ * The layout is read after mount (the user ID comes from the token in
+ * localStorage), so widgets should not be rendered before isLoaded; this
+ * keeps removed widgets from mounting and fetching data.
+ *
+ * @param knownIds - IDs of the registered widgets; stored IDs not in the list are dropped
+ * @param defaultLayout - Layout used until the user customizes the dashboard
+ * @returns Current layout and functions to change it
+ *
+ * @example
+ * ```typescript
+ * const { layout, setLayout } = useDashboardLayout(DASHBOARD_WIDGET_IDS, defaultLayout);
+ * <button onClick={() => setLayout(removeWidget(layout, 'recent-articles'))}>Remove</button>
+ * ```
+ */
+export function useDashboardLayout(
+  knownIds: readonly string[],
+  defaultLayout: DashboardLayout
+): UseDashboardLayoutReturn {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [storedLayout, setStoredLayout] = useState<DashboardLayout | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const id = getUserId();
+    setUserId(id);
+    setStoredLayout(loadDashboardLayout(id, knownIds));
+    setIsLoaded(true);
+
+    const storageKey = getLayoutStorageKey(id);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) {
+        setStoredLayout(loadDashboardLayout(id, knownIds));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [knownIds]);
+
+  const setLayout = useCallback(
+    (layout: DashboardLayout) => {
+      setStoredLayout(layout);
+      saveDashboardLayout(userId, layout);
+    },
+    [userId]
+  );
+
+  const resetLayout = useCallback(() => {
+    setStoredLayout(null);
+    saveDashboardLayout(userId, null);
+  }, [userId]);
+
+  return {
+    layout: storedLayout ?? defaultLayout,
+    isLoaded,
+    isCustomized: storedLayout !== null,
+    setLayout,
+    resetLayout,
+  };
+}
@@ -8,6 +8,7 @@
  * - Success handling and cache invalidation
  * - State transitions (isPending, isSuccess)
  * - Reset functionality
+ * - Undo grace period
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
@@ -16,6 +17,7 @@ import { useDeleteSource } from './useDeleteSource';
 import * as sourcesApi from '@/lib/api/endpoints/sources';
 import React from 'react';
 import type { Source, SourcesResponse } from '@/types/api';
+import { ActionUndoneError, ToastManager } from '@/lib/toast/ToastManager';
 
 // Mock the sources API
 vi.mock('@/lib/api/endpoints/sources', () => ({
@@ -719,4 +721,86 @@ describe('useDeleteSource', () => {
       expect(caughtError!.message).toBe('Mutation failed');
     });
   });
+
+  describe('Undo Grace Period', () => {
+    const renderWithCache = (undoGracePeriodMs: number) => {
+      const queryClient = new QueryClient({
+        defaultOptions: {
+          queries: { retry: false },
+          mutations: { retry: false },
+        },
+      });
+      queryClient.setQueryData<SourcesResponse>(['sources'], mockSourcesResponse);
+      const TestWrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+      const { result } = renderHook(() => useDeleteSource({ undoGracePeriodMs }), {
+        wrapper: TestWrapper,
+      });
+      return { queryClient, result };
+    };
+
+    beforeEach(() => {
+      ToastManager.resetInstance();
+    });
+
+    it('sends the request once the grace period has passed', async () => {
+      vi.mocked(sourcesApi.deleteSource).mockResolvedValueOnce(undefined);
+      const { result } = renderWithCache(300);
+
+      act(() => {
+        result.current.deleteSource({ id: 1, name: 'Tech Blog' });
+      });
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()[0]?.title).toBe('Deleted "Tech Blog"');
+      });
+      expect(sourcesApi.deleteSource).not.toHaveBeenCalled();
+
+      await waitFor(() => {
+        expect(sourcesApi.deleteSource).toHaveBeenCalledWith(1);
+      });
+    });
+
+    it('sends the request right away when the page is hidden', async () => {
+      vi.mocked(sourcesApi.deleteSource).mockResolvedValueOnce(undefined);
+      const { result } = renderWithCache(60_000);
+
+      act(() => {
+        result.current.deleteSource({ id: 1, name: 'Tech Blog' });
+      });
+
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()).toHaveLength(1);
+      });
+      expect(sourcesApi.deleteSource).not.toHaveBeenCalled();
+
+      // Closing or reloading the tab must not drop the pending deletion
+      window.dispatchEvent(new Event('pagehide'));
+
+      await waitFor(() => {
+        expect(sourcesApi.deleteSource).toHaveBeenCalledWith(1);
+      });
+    });
+
+    it('restores the snapshot and skips the request when undone', async () => {
+      const { queryClient, result } = renderWithCache(5000);
+
+      let caughtError: unknown;
+      await act(async () => {
+        const pending = result.current.mutateAsync({ id: 1, name: 'Tech Blog' }).catch((err) => {
+          caughtError = err;
+        });
+        await waitFor(() => {
+          expect(queryClient.getQueryData<SourcesResponse>(['sources'])).toHaveLength(1);
+          expect(ToastManager.getInstance().getSnapshot()).toHaveLength(1);
+        });
+        ToastManager.getInstance().getSnapshot()[0]?.action?.onClick();
+        await pending;
+      });
+
+      expect(caughtError).toBeInstanceOf(ActionUndoneError);
+      expect(queryClient.getQueryData(['sources'])).toEqual(mockSourcesResponse);
+      expect(sourcesApi.deleteSource).not.toHaveBeenCalled();
+    });
+  });
 });
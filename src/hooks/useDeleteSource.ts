@@ -7,6 +7,7 @@
  * Features:
  * - Optimistic cache updates for instant UI feedback
  * - Automatic rollback on error
+ * - Optional undo grace period: the request is deferred behind an "Undo" toast
  * - Comprehensive observability (logging, metrics, tracing)
  * - Error tracking with Sentry integration
  */
@@ -21,15 +22,37 @@ import { metrics } from '@/lib/observability/metrics';
 import { startSpan, addBreadcrumb, addContext } from '@/lib/observability/tracing';
 import type { SourcesResponse } from '@/types/api';
 import { ApiError } from '@/lib/api/errors';
+import { ActionUndoneError, waitForUndo } from '@/lib/toast/ToastManager';
+
+/**
+ * Parameters for deleting a source
+ */
+interface DeleteSourceParams {
+  id: number;
+  /** Source name shown in the undo toast */
+  name?: string;
+}
+
+/**
+ * Delete source hook options
+ */
+interface UseDeleteSourceOptions {
+  /**
+   * Defer the request behind an "Undo" toast for this many milliseconds
+   * (0, the default, sends it immediately). Undoing restores the cache
+   * snapshot and rejects with ActionUndoneError without sending the request.
+   */
+  undoGracePeriodMs?: number;
+}
 
 /**
  * Delete source hook return type
  */
 interface UseDeleteSourceReturn {
   /** Function to delete a source (fire and forget) */
-  deleteSource: (params: { id: number }) => void;
+  deleteSource: (params: DeleteSourceParams) => void;
   /** Async function that can be awaited for completion */
-  mutateAsync: (params: { id: number }) => Promise<void>;
+  mutateAsync: (params: DeleteSourceParams) => Promise<void>;
   /** Whether a delete operation is in progress */
   isPending: boolean;
   /** Error from the last delete attempt, or null */
@@ -82,6 +105,9 @@ function getErrorStatus(error: unknown): number | undefined {
  * On mutation start, optimistically removes the source from the cache.
  * On error, rolls back to the previous state.
  * On success, invalidates the ['sources'] cache to refresh from the server.
+ * With an undo grace period, the request waits behind an "Undo" toast; undoing
+ * rolls back the cache and the request is never sent. Closing or reloading the
+ * tab ends the grace period, and the request is sent with `keepalive`.
  *
  * Includes comprehensive observability:
  * - Structured logging for all operations
@@ -89,6 +115,7 @@ function getErrorStatus(error: unknown): number | undefined {
  * - Distributed tracing with Sentry
  * - Error tracking with context
  *
+ * @param options - Optional undo grace period
  * @returns Mutation function, loading state, error, and reset function
  *
  * @example
@@ -113,11 +140,15 @@ function getErrorStatus(error: unknown): number | undefined {
  * }
  * ```
  */
-export function useDeleteSource(): UseDeleteSourceReturn {
+export function useDeleteSource(options: UseDeleteSourceOptions = {}): UseDeleteSourceReturn {
+  const { undoGracePeriodMs = 0 } = options;
   const queryClient = useQueryClient();
 
   const mutation = useMutation({
-    mutationFn: async ({ id }: { id: number }) => {
+    mutationFn: async ({ id, name }: DeleteSourceParams) => {
+      // Wait for the undo grace period (throws ActionUndoneError when undone)
+      await waitForUndo(name ? `Deleted "${name}"` : 'Source deleted', undoGracePeriodMs);
+
       const startTime = Date.now();
 
       // Log mutation start
@@ -202,7 +233,7 @@ export function useDeleteSource(): UseDeleteSourceReturn {
         throw error;
       }
     },
-    onMutate: async ({ id }: { id: number }) => {
+    onMutate: async ({ id }: DeleteSourceParams) => {
       // Cancel outgoing queries to avoid race conditions
       await queryClient.cancelQueries({ queryKey: ['sources'] });
 
@@ -226,7 +257,19 @@ export function useDeleteSource(): UseDeleteSourceReturn {
       // Return snapshot for rollback on error
       return { previousSources };
     },
-    onError: (_error, { id }, context) => {
+    onError: (error, { id }, context) => {
+      // Restore the snapshot when the user undid the deletion
+      if (error instanceof ActionUndoneError) {
+        if (context?.previousSources) {
+          queryClient.setQueryData(['sources'], context.previousSources);
+        }
+        logger.info('Source deletion undone', {
+          sourceId: id,
+          operation: 'delete_source',
+        });
+        return;
+      }
+
       // Roll back to the previous state on error
       if (context?.previousSources) {
         queryClient.setQueryData(['sources'], context.previousSources);
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useFeedDiscovery } from './useFeedDiscovery';
+import * as feedsApi from '@/lib/api/endpoints/feeds';
+import { ApiError } from '@/lib/api/errors';
+import type { FeedPreview } from '@/lib/feeds/feedParser';
+
+// Mock the feeds API
+vi.mock('@/lib/api/endpoints/feeds', () => ({
+  discoverFeed: vi.fn(),
+}));
+
+const preview: FeedPreview = {
+  feedURL: 'https://example.com/feed.xml',
+  format: 'rss',
+  title: 'Example Blog',
+  itemCount: 10,
+  latestItemDate: '2026-10-15T10:00:00.000Z',
+  discovered: false,
+};
+
+describe('useFeedDiscovery', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, gcTime: 0 } },
+    });
+  });
+
+  it('should check a valid URL after the debounce delay', async () => {
+    vi.mocked(feedsApi.discoverFeed).mockResolvedValue(preview);
+
+    const { result } = renderHook(
+      () => useFeedDiscovery(' https://example.com/feed.xml ', { debounceMs: 10 }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.isChecking).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.preview).toEqual(preview);
+    });
+    expect(result.current.isChecking).toBe(false);
+    expect(feedsApi.discoverFeed).toHaveBeenCalledWith(
+      'https://example.com/feed.xml',
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should not check invalid URLs or when disabled', async () => {
+    const { result, rerender } = renderHook(
+      ({ url, enabled }) => useFeedDiscovery(url, { enabled, debounceMs: 0 }),
+      {
+        wrapper: createWrapper(),
+        initialProps: { url: 'example.com/feed', enabled: true },
+      }
+    );
+
+    expect(result.current).toEqual({ preview: null, isChecking: false, error: null });
+
+    rerender({ url: 'https://example.com/feed.xml', enabled: false });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 20)));
+
+    expect(result.current.isChecking).toBe(false);
+    expect(feedsApi.discoverFeed).not.toHaveBeenCalled();
+  });
+
+  it('should return the error for a URL that is not a feed', async () => {
+    vi.mocked(feedsApi.discoverFeed).mockRejectedValue(
+      new ApiError('This URL is not an RSS, Atom or JSON feed', 422, { code: 'NOT_A_FEED' })
+    );
+
+    const { result } = renderHook(
+      () => useFeedDiscovery('https://example.com/', { debounceMs: 0 }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.error?.message).toBe('This URL is not an RSS, Atom or JSON feed');
+    });
+    expect(result.current.preview).toBeNull();
+  });
+
+  it('should hide the previous preview while a new URL is pending', async () => {
+    vi.mocked(feedsApi.discoverFeed).mockResolvedValue(preview);
+
+    const { result, rerender } = renderHook(
+      ({ url }) => useFeedDiscovery(url, { debounceMs: 10 }),
+      {
+        wrapper: createWrapper(),
+        initialProps: { url: 'https://example.com/feed.xml' },
+      }
+    );
+
+    await waitFor(() => {
+      expect(result.current.preview).toEqual(preview);
+    });
+
+    rerender({ url: 'https://example.com/other.xml' });
+
+    expect(result.current.preview).toBeNull();
+    expect(result.current.isChecking).toBe(true);
+  });
+});
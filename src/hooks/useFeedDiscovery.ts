@@ -0,0 +1,82 @@
+/**
+ * useFeedDiscovery Hook
+ *
+ * Custom React hook for checking a feed URL while it is being typed.
+ * The URL is debounced and only checked once it passes validateSourceFeedURL;
+ * results are cached per URL with React Query for 5 minutes.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { discoverFeed } from '@/lib/api/endpoints/feeds';
+import { useDebounce } from '@/hooks/useDebounce';
+import { validateSourceFeedURL } from '@/utils/validation/sourceValidation';
+import type { FeedPreview } from '@/lib/feeds/feedParser';
+
+/**
+ * Feed discovery hook return type
+ */
+interface UseFeedDiscoveryReturn {
+  /** Preview of the feed at the current URL, or null */
+  preview: FeedPreview | null;
+  /** Whether the current URL is waiting to be checked or being checked */
+  isChecking: boolean;
+  /** Error from checking the current URL, or null */
+  error: Error | null;
+}
+
+/**
+ * Hook options
+ */
+interface UseFeedDiscoveryOptions {
+  /** Whether the URL should be checked (default: true) */
+  enabled?: boolean;
+  /** Debounce delay in milliseconds (default: 500) */
+  debounceMs?: number;
+}
+
+/**
+ * Custom hook for previewing the feed behind a URL
+ *
+ * @param url - Feed or page URL as typed by the user
+ * @param options - Hook options (enabled, debounceMs)
+ * @returns Feed preview, checking state and error for the current URL
+ *
+ * @example
+ * ```typescript
+ * const { preview, isChecking, error } = useFeedDiscovery(formData.feedURL);
+ *
+ * if (preview) {
+ *   console.log(`${preview.title}: ${preview.itemCount} items`);
+ * }
+ * ```
+ */
+export function useFeedDiscovery(
+  url: string,
+  options?: UseFeedDiscoveryOptions
+): UseFeedDiscoveryReturn {
+  const trimmedUrl = url.trim();
+  const debouncedUrl = useDebounce(trimmedUrl, options?.debounceMs ?? 500);
+
+  const shouldCheck = (options?.enabled ?? true) && validateSourceFeedURL(trimmedUrl) === undefined;
+  const isSettled = debouncedUrl === trimmedUrl;
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ['feeds', 'discover', debouncedUrl],
+    queryFn: ({ signal }) => discoverFeed(debouncedUrl, signal),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+    refetchOnWindowFocus: false,
+    enabled: shouldCheck && isSettled,
+  });
+
+  // Results for a previous URL are not shown while the new one is pending
+  const isCurrent = shouldCheck && isSettled;
+
+  return {
+    preview: isCurrent ? (data ?? null) : null,
+    isChecking: shouldCheck && (!isSettled || isFetching),
+    error: isCurrent ? (error as Error | null) : null,
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useImportSources } from './useImportSources';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import { ApiError } from '@/lib/api/errors';
+import type { OpmlImportRow } from '@/utils/opml';
+
+// Mock the sources API
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  createSource: vi.fn(),
+  getSources: vi.fn(),
+  updateSourceActive: vi.fn(),
+}));
+
+const row = (index: number, overrides: Partial<OpmlImportRow> = {}): OpmlImportRow => ({
+  index,
+  name: `Feed ${index}`,
+  feedURL: `https://feed${index}.example.com/rss`,
+  active: true,
+  status: 'new',
+  errors: {},
+  ...overrides,
+});
+
+describe('useImportSources', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    vi.clearAllMocks();
+    vi.mocked(sourcesApi.createSource).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should create each row and report progress', async () => {
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(() => useImportSources(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.importSources([row(0), row(2)]);
+    });
+
+    expect(sourcesApi.createSource).toHaveBeenNthCalledWith(1, {
+      name: 'Feed 0',
+      feedURL: 'https://feed0.example.com/rss',
+    });
+    expect(sourcesApi.createSource).toHaveBeenCalledTimes(2);
+    expect(result.current.results.get(2)?.state).toBe('imported');
+    expect(result.current.completed).toBe(2);
+    expect(result.current.total).toBe(2);
+    expect(result.current.isImporting).toBe(false);
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['sources'] });
+  });
+
+  it('should keep going after a failed row and report its error', async () => {
+    vi.mocked(sourcesApi.createSource)
+      .mockRejectedValueOnce(new ApiError('Bad Request', 400, { message: 'feed already exists' }))
+      .mockResolvedValueOnce(undefined);
+    const { result } = renderHook(() => useImportSources(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.importSources([row(0), row(1)]);
+    });
+
+    expect(result.current.results.get(0)).toEqual({
+      state: 'failed',
+      error: 'Bad Request',
+    });
+    expect(result.current.results.get(1)?.state).toBe('imported');
+    expect(result.current.completed).toBe(2);
+  });
+
+  it('should deactivate rows exported as inactive', async () => {
+    vi.mocked(sourcesApi.getSources).mockResolvedValue([
+      { id: 7, name: 'Feed 1', feed_url: 'https://feed1.example.com/rss/', active: true },
+    ]);
+    const { result } = renderHook(() => useImportSources(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.importSources([row(0), row(1, { active: false })]);
+    });
+
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledTimes(1);
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(7, false);
+    expect(result.current.results.get(1)).toEqual({ state: 'imported' });
+  });
+
+  it('should warn when an inactive row cannot be deactivated', async () => {
+    vi.mocked(sourcesApi.getSources).mockResolvedValue([]);
+    const { result } = renderHook(() => useImportSources(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.importSources([row(0, { active: false })]);
+    });
+
+    expect(result.current.results.get(0)).toEqual({
+      state: 'imported',
+      warning: 'Imported as active: could not be deactivated',
+    });
+  });
+
+  it('should clear results on reset', async () => {
+    const { result } = renderHook(() => useImportSources(), { wrapper: createWrapper() });
+
+    await act(async () => {
+      await result.current.importSources([row(0)]);
+    });
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.results.size).toBe(0);
+    expect(result.current.total).toBe(0);
+  });
+});
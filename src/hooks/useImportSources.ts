@@ -0,0 +1,149 @@
+/**
+ * useImportSources Hook
+ *
+ * Custom React hook for creating sources from OPML import rows.
+ * Creates sources one at a time via createSource so each row reports its own
+ * progress and error, then invalidates the ['sources'] cache.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { createSource, getSources, updateSourceActive } from '@/lib/api/endpoints/sources';
+import { ApiError } from '@/lib/api/errors';
+import { logger } from '@/lib/logger';
+import { getApiErrorMessage } from '@/utils/errorMessages';
+import { normalizeFeedURL, type OpmlImportRow } from '@/utils/opml';
+
+/**
+ * Import state of a single row
+ */
+export type SourceImportState = 'pending' | 'importing' | 'imported' | 'failed';
+
+/**
+ * Import result of a single row
+ */
+export interface SourceImportResult {
+  state: SourceImportState;
+  /** Error message ('failed' rows) */
+  error?: string;
+  /** Non-fatal problem with an imported row */
+  warning?: string;
+}
+
+/**
+ * Import sources hook return type
+ */
+interface UseImportSourcesReturn {
+  /** Results by row index */
+  results: ReadonlyMap<number, SourceImportResult>;
+  /** Whether an import is in progress */
+  isImporting: boolean;
+  /** Number of rows processed so far */
+  completed: number;
+  /** Number of rows in the current import */
+  total: number;
+  /** Create a source for each row (resolves when every row is processed) */
+  importSources: (rows: OpmlImportRow[]) => Promise<void>;
+  /** Clear results */
+  reset: () => void;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    return getApiErrorMessage(error.status, error.message);
+  }
+  return error instanceof Error ? error.message : 'Failed to create source';
+}
+
+/**
+ * Custom hook for importing sources
+ *
+ * @returns Per-row results, progress counters and the import function
+ *
+ * @example
+ * ```typescript
+ * const { results, completed, total, importSources } = useImportSources();
+ *
+ * await importSources(rows.filter((row) => row.status === 'new'));
+ * console.log(`${completed} / ${total}`, results.get(rows[0].index)?.state);
+ * ```
+ */
+export function useImportSources(): UseImportSourcesReturn {
+  const queryClient = useQueryClient();
+  const [results, setResults] = useState<ReadonlyMap<number, SourceImportResult>>(new Map());
+  const [isImporting, setIsImporting] = useState(false);
+  const [total, setTotal] = useState(0);
+
+  const setResult = useCallback((index: number, result: SourceImportResult) => {
+    setResults((previous) => new Map(previous).set(index, result));
+  }, []);
+
+  const importSources = useCallback(
+    async (rows: OpmlImportRow[]) => {
+      setIsImporting(true);
+      setTotal(rows.length);
+      setResults(new Map(rows.map((row) => [row.index, { state: 'pending' as const }])));
+
+      const imported: OpmlImportRow[] = [];
+      for (const row of rows) {
+        setResult(row.index, { state: 'importing' });
+        try {
+          await createSource({ name: row.name, feedURL: row.feedURL });
+          imported.push(row);
+          setResult(row.index, { state: 'imported' });
+        } catch (error) {
+          setResult(row.index, { state: 'failed', error: getErrorMessage(error) });
+        }
+      }
+
+      // createSource does not return the new source, so inactive sources are
+      // looked up by feed URL and deactivated afterwards
+      const inactive = imported.filter((row) => !row.active);
+      if (inactive.length > 0) {
+        let sources: Awaited<ReturnType<typeof getSources>> = [];
+        try {
+          sources = await getSources();
+        } catch (error) {
+          logger.warn('Failed to load sources after OPML import', { error });
+        }
+
+        for (const row of inactive) {
+          const key = normalizeFeedURL(row.feedURL);
+          const source = sources.find((candidate) => normalizeFeedURL(candidate.feed_url) === key);
+          try {
+            if (!source) {
+              throw new Error('Source not found after import');
+            }
+            await updateSourceActive(source.id, false);
+          } catch (error) {
+            logger.warn('Failed to deactivate imported source', { feedURL: row.feedURL, error });
+            setResult(row.index, {
+              state: 'imported',
+              warning: 'Imported as active: could not be deactivated',
+            });
+          }
+        }
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['sources'] });
+      setIsImporting(false);
+    },
+    [queryClient, setResult]
+  );
+
+  const reset = useCallback(() => {
+    setResults(new Map());
+    setTotal(0);
+  }, []);
+
+  let completed = 0;
+  results.forEach((result) => {
+    if (result.state === 'imported' || result.state === 'failed') {
+      completed++;
+    }
+  });
+
+  return { results, isImporting, completed, total, importSources, reset };
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useInfiniteArticles } from './useInfiniteArticles';
+import * as articleApi from '@/lib/api/endpoints/articles';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import type { Article } from '@/types/api';
+
+// Mock the articles API
+vi.mock('@/lib/api/endpoints/articles', () => ({
+  getArticles: vi.fn(),
+  searchArticles: vi.fn(),
+}));
+
+const createPage = (articles: Article[], page: number, totalPages: number) => ({
+  data: articles,
+  pagination: {
+    page,
+    limit: 2,
+    total: totalPages * 2,
+    total_pages: totalPages,
+  },
+});
+
+describe('useInfiniteArticles', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    });
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should load the first page with getArticles', async () => {
+    const articles = [createMockArticle({ id: 1 }), createMockArticle({ id: 2 })];
+    vi.mocked(articleApi.getArticles).mockResolvedValue(createPage(articles, 1, 2));
+
+    const { result } = renderHook(() => useInfiniteArticles({ limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.articles).toEqual(articles);
+    expect(result.current.loadedPages).toBe(1);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(articleApi.getArticles).toHaveBeenCalledWith({
+      page: 1,
+      limit: 2,
+      source_id: undefined,
+    });
+  });
+
+  it('should append the next page and deduplicate shifted articles', async () => {
+    vi.mocked(articleApi.getArticles)
+      .mockResolvedValueOnce(
+        createPage([createMockArticle({ id: 1 }), createMockArticle({ id: 2 })], 1, 2)
+      )
+      .mockResolvedValueOnce(
+        createPage([createMockArticle({ id: 2 }), createMockArticle({ id: 3 })], 2, 2)
+      );
+
+    const { result } = renderHook(() => useInfiniteArticles({ limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.loadedPages).toBe(1);
+    });
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+
+    await waitFor(() => {
+      expect(result.current.loadedPages).toBe(2);
+    });
+
+    expect(result.current.articles.map((article) => article.id)).toEqual([1, 2, 3]);
+    expect(result.current.pagination.page).toBe(2);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('should use searchArticles in search mode', async () => {
+    vi.mocked(articleApi.searchArticles).mockResolvedValue(
+      createPage([createMockArticle({ id: 1 })], 1, 1)
+    );
+
+    const { result } = renderHook(
+      () => useInfiniteArticles({ keyword: 'React', limit: 2 }, { search: true }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(articleApi.searchArticles).toHaveBeenCalledWith({
+      keyword: 'React',
+      limit: 2,
+      page: 1,
+    });
+    expect(articleApi.getArticles).not.toHaveBeenCalled();
+  });
+
+  it('should not fetch when disabled', () => {
+    renderHook(() => useInfiniteArticles({ limit: 2 }, { enabled: false }), {
+      wrapper: createWrapper(),
+    });
+
+    expect(articleApi.getArticles).not.toHaveBeenCalled();
+  });
+
+  it('should expose errors', async () => {
+    vi.mocked(articleApi.getArticles).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useInfiniteArticles({ limit: 2 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(
+      () => {
+        expect(result.current.error).toBeInstanceOf(Error);
+      },
+      { timeout: 5000 }
+    );
+
+    expect(result.current.articles).toEqual([]);
+    expect(result.current.loadedPages).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * useInfiniteArticles Hook
+ *
+ * Custom React hook for loading articles page by page into one continuous list.
+ * Uses React Query's useInfiniteQuery over getArticles (browse) or
+ * searchArticles (when filters are active), with 60s stale time.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { getArticles, searchArticles } from '@/lib/api/endpoints/articles';
+import { extractPaginationMetadata } from '@/lib/api/utils/pagination';
+import type { Article, PaginatedArticlesResponse, PaginationInfo } from '@/types/api';
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+
+/**
+ * Infinite articles hook return type
+ */
+interface UseInfiniteArticlesReturn {
+  /** Articles from every loaded page, in order (deduplicated by ID) */
+  articles: Article[];
+  /** Pagination information of the deepest loaded page */
+  pagination: PaginationInfo;
+  /** Number of pages loaded so far */
+  loadedPages: number;
+  /** Whether the first page is being fetched */
+  isLoading: boolean;
+  /** Whether the next page is being fetched */
+  isFetchingNextPage: boolean;
+  /** Whether more pages are available */
+  hasNextPage: boolean;
+  /** Error from the last fetch attempt, or null */
+  error: Error | null;
+  /** Function to load the next page */
+  fetchNextPage: () => void;
+  /** Function to manually refetch all loaded pages */
+  refetch: () => void;
+}
+
+/**
+ * Hook options
+ */
+interface UseInfiniteArticlesOptions {
+  /** Whether the query should be enabled (default: true) */
+  enabled?: boolean;
+  /** Use searchArticles instead of getArticles (default: false) */
+  search?: boolean;
+}
+
+/**
+ * Custom hook for loading articles continuously
+ *
+ * @param params - Search filters and page size (page is managed by the hook)
+ * @param options - Hook options (enabled, search)
+ * @returns Accumulated articles, pagination, loading states and fetchNextPage
+ *
+ * @example
+ * ```typescript
+ * function ArticleFeed() {
+ *   const { articles, hasNextPage, isFetchingNextPage, fetchNextPage } =
+ *     useInfiniteArticles({ limit: 20 });
+ *
+ *   return (
+ *     <div>
+ *       {articles.map((article) => (
+ *         <ArticleCard key={article.id} article={article} />
+ *       ))}
+ *       {hasNextPage && (
+ *         <button onClick={fetchNextPage} disabled={isFetchingNextPage}>
+ *           Load more
+ *         </button>
+ *       )}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useInfiniteArticles(
+  params?: Omit<ArticleSearchParams, 'page'>,
+  options?: UseInfiniteArticlesOptions
+): UseInfiniteArticlesReturn {
+  const search = options?.search ?? false;
+
+  // Query key includes mode and filter params for cache isolation
+  const queryKey = ['articles', 'infinite', search ? 'search' : 'list', params ?? {}];
+
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    error,
+    fetchNextPage: fetchNextPageQuery,
+    refetch: refetchQuery,
+  } = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<PaginatedArticlesResponse> => {
+      if (search) {
+        return searchArticles({ ...params, page: pageParam });
+      }
+      return getArticles({ page: pageParam, limit: params?.limit, source_id: params?.source_id });
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.page < lastPage.pagination.total_pages
+        ? lastPage.pagination.page + 1
+        : undefined,
+    staleTime: 60000, // 60 seconds
+    retry: 1,
+    refetchOnWindowFocus: true,
+    enabled: options?.enabled ?? true,
+  });
+
+  const fetchNextPage = () => {
+    fetchNextPageQuery();
+  };
+
+  const refetch = () => {
+    refetchQuery();
+  };
+
+  // Flatten pages; new articles may shift items across page boundaries,
+  // so drop duplicates that reappear on a later page
+  const articles = useMemo(() => {
+    const seen = new Set<number>();
+    const result: Article[] = [];
+    for (const page of data?.pages ?? []) {
+      for (const article of page.data) {
+        if (!seen.has(article.id)) {
+          seen.add(article.id);
+          result.push(article);
+        }
+      }
+    }
+    return result;
+  }, [data]);
+
+  const lastPage = data?.pages[data.pages.length - 1];
+  const pagination = lastPage
+    ? extractPaginationMetadata(lastPage.pagination)
+    : {
+        page: 1,
+        limit: params?.limit ?? 10,
+        total: 0,
+        totalPages: 0,
+      };
+
+  return {
+    articles,
+    pagination,
+    loadedPages: data?.pages.length ?? 0,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    error: error as Error | null,
+    fetchNextPage,
+    refetch,
+  };
+}
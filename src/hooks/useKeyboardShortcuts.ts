@@ -0,0 +1,96 @@
+/**
+ * useKeyboardShortcuts Hook
+ *
+ * Custom React hook that listens for global keyboard shortcuts and runs the
+ * handler bound to the pressed key. Shortcuts are suppressed while typing in
+ * form fields (search, SourceForm, LoginForm) and inside open dialogs.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+  isEditableTarget,
+  matchShortcut,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/lib/keyboard/shortcuts';
+
+/**
+ * Handler for a shortcut action.
+ * Return false to let the browser handle the key as usual.
+ */
+export type ShortcutHandler = (event: KeyboardEvent) => boolean | void;
+
+/**
+ * Hook options
+ */
+interface UseKeyboardShortcutsOptions {
+  /** Active key bindings */
+  bindings: ShortcutBindings;
+  /** Whether shortcuts are active (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Custom hook for handling global keyboard shortcuts
+ *
+ * @param handlers - Handlers by action; unbound actions are ignored
+ * @param options - Bindings and enabled flag
+ *
+ * @example
+ * ```typescript
+ * useKeyboardShortcuts(
+ *   {
+ *     focusSearch: () => searchRef.current?.focus(),
+ *     showHelp: () => setHelpOpen(true),
+ *   },
+ *   { bindings: DEFAULT_SHORTCUT_BINDINGS }
+ * );
+ * ```
+ */
+export function useKeyboardShortcuts(
+  handlers: Partial<Record<ShortcutAction, ShortcutHandler>>,
+  options: UseKeyboardShortcutsOptions
+): void {
+  const { bindings, enabled = true } = options;
+
+  // Keep the latest handlers without re-attaching the listener
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) {
+        return;
+      }
+
+      const target = event.target;
+      if (
+        isEditableTarget(target) ||
+        (target instanceof Element && target.closest('[role="dialog"], [role="alertdialog"]'))
+      ) {
+        return;
+      }
+
+      const action = matchShortcut(event, bindings);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) {
+        return;
+      }
+
+      if (handler(event) !== false) {
+        event.preventDefault();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
@@ -0,0 +1,149 @@
+/**
+ * useOfflineArticles Hook
+ *
+ * Custom React hooks for offline reading.
+ * Backed by OfflineArticleStore (Cache Storage + localStorage index) and scoped
+ * to the user in the current auth token; the service worker serves pinned
+ * articles when the network is unavailable.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  getOfflineArticleStore,
+  type OfflineArticleEntry,
+  type OfflineArticleSnapshot,
+} from '@/lib/offline/OfflineArticleStore';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { getUserId } from '@/lib/auth/role';
+import type { Article } from '@/types/api';
+
+/**
+ * Empty snapshot used during server rendering
+ */
+const EMPTY_SNAPSHOT: OfflineArticleSnapshot = new Map();
+
+/**
+ * Subscribe to the offline article snapshot, loading the current user's index
+ */
+function useOfflineSnapshot(): OfflineArticleSnapshot {
+  const store = getOfflineArticleStore();
+
+  useEffect(() => {
+    store.setUser(getUserId());
+  }, [store]);
+
+  return useSyncExternalStore(
+    useCallback((listener) => store.subscribe(listener), [store]),
+    () => store.getSnapshot(),
+    () => EMPTY_SNAPSHOT
+  );
+}
+
+/**
+ * Custom hook listing articles available offline, most recently pinned first
+ *
+ * @returns Offline article entries
+ *
+ * @example
+ * ```typescript
+ * const articles = useOfflineArticles();
+ * ```
+ */
+export function useOfflineArticles(): OfflineArticleEntry[] {
+  const snapshot = useOfflineSnapshot();
+
+  return useMemo(
+    () => Array.from(snapshot.values()).sort((a, b) => b.pinnedAt - a.pinnedAt),
+    [snapshot]
+  );
+}
+
+/**
+ * Custom hook for checking whether a single article is available offline
+ *
+ * @param articleId - Article ID
+ * @returns True if the article can be read offline
+ *
+ * @example
+ * ```typescript
+ * const isAvailableOffline = useIsArticleAvailableOffline(article.id);
+ * ```
+ */
+export function useIsArticleAvailableOffline(articleId: number): boolean {
+  return useOfflineSnapshot().has(articleId);
+}
+
+/**
+ * Custom hook that pins a viewed article for offline reading
+ *
+ * @param article - Loaded article (from getArticle), or null while loading
+ *
+ * @example
+ * ```typescript
+ * const { article } = useArticle(id);
+ * usePinArticleOffline(article);
+ * ```
+ */
+export function usePinArticleOffline(article: Article | null): void {
+  useEffect(() => {
+    if (article) {
+      const store = getOfflineArticleStore();
+      store.setUser(getUserId());
+      void store.pin(article, 'recent');
+    }
+  }, [article]);
+}
+
+/**
+ * Custom hook that keeps bookmarked articles available offline
+ *
+ * Pins every bookmark and releases articles that are no longer bookmarked
+ * back to the recently viewed quota. Also drops index entries the browser has
+ * evicted. Mount once near the root of the protected area.
+ */
+export function useOfflineBookmarkSync(): void {
+  const { bookmarks, isLoading } = useBookmarks();
+  const snapshot = useOfflineSnapshot();
+  const hasReconciled = useRef(false);
+  // Bookmarks already pinned this session (avoids re-pinning after quota eviction)
+  const pinnedBookmarks = useRef<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!hasReconciled.current) {
+      hasReconciled.current = true;
+      void getOfflineArticleStore().reconcile();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+
+    const store = getOfflineArticleStore();
+    const bookmarkedIds = new Set(bookmarks.map((bookmark) => bookmark.article.id));
+
+    for (const { article } of bookmarks) {
+      if (!pinnedBookmarks.current.has(article.id)) {
+        pinnedBookmarks.current.add(article.id);
+        if (snapshot.get(article.id)?.reason !== 'bookmark') {
+          void store.pin(article, 'bookmark');
+        }
+      }
+    }
+
+    for (const articleId of pinnedBookmarks.current) {
+      if (!bookmarkedIds.has(articleId)) {
+        pinnedBookmarks.current.delete(articleId);
+      }
+    }
+
+    for (const entry of snapshot.values()) {
+      if (entry.reason === 'bookmark' && !bookmarkedIds.has(entry.articleId)) {
+        void store.release(entry.articleId);
+      }
+    }
+  }, [bookmarks, isLoading, snapshot]);
+}
@@ -0,0 +1,161 @@
+/**
+ * useReadState Hook Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import {
+  useReadState,
+  useIsArticleRead,
+  useMarkArticleRead,
+  useReadStateSync,
+} from './useReadState';
+import { ReadStateManager, getReadStateManager } from '@/lib/reading/ReadStateManager';
+import * as articlesApi from '@/lib/api/endpoints/articles';
+import { appConfig } from '@/config/app.config';
+import { getUserId } from '@/lib/auth/role';
+
+vi.mock('@/lib/api/endpoints/articles', () => ({
+  syncReadState: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(() => null),
+}));
+
+describe('useReadState', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    ReadStateManager.resetInstance();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    ReadStateManager.resetInstance();
+  });
+
+  it('should start with no read articles', () => {
+    const { result } = renderHook(() => useReadState());
+
+    expect(result.current.readArticles.size).toBe(0);
+    expect(result.current.isRead(1)).toBe(false);
+  });
+
+  it('should mark an article as read and re-render', () => {
+    const { result } = renderHook(() => useReadState());
+
+    act(() => {
+      result.current.markRead(1);
+    });
+
+    expect(result.current.isRead(1)).toBe(true);
+  });
+
+  it('should toggle read state', () => {
+    const { result } = renderHook(() => useReadState());
+
+    act(() => {
+      result.current.toggleRead(1);
+    });
+    expect(result.current.isRead(1)).toBe(true);
+
+    act(() => {
+      result.current.toggleRead(1);
+    });
+    expect(result.current.isRead(1)).toBe(false);
+  });
+
+  it('should load the read state of the signed-in user', () => {
+    const manager = getReadStateManager();
+    manager.setUser('user-1');
+    manager.markRead(1);
+    manager.setUser('user-2');
+    vi.mocked(getUserId).mockReturnValue('user-1');
+
+    const { result } = renderHook(() => useReadState());
+
+    expect(manager.getUserId()).toBe('user-1');
+    expect(result.current.isRead(1)).toBe(true);
+    vi.mocked(getUserId).mockReturnValue(null);
+  });
+
+  it("should render the signed-in user's read state on the first render", () => {
+    getReadStateManager().setUser('user-1');
+    getReadStateManager().markRead(1);
+    ReadStateManager.resetInstance();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+
+    const renders: boolean[] = [];
+    renderHook(() => {
+      const state = useReadState();
+      renders.push(state.isRead(1));
+      return state;
+    });
+
+    expect(renders).toEqual([true]);
+    vi.mocked(getUserId).mockReturnValue(null);
+  });
+
+  it('should reflect changes made outside the hook', () => {
+    const { result } = renderHook(() => useIsArticleRead(5));
+    expect(result.current).toBe(false);
+
+    act(() => {
+      getReadStateManager().markRead(5);
+    });
+
+    expect(result.current).toBe(true);
+  });
+});
+
+describe('useMarkArticleRead', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    ReadStateManager.resetInstance();
+  });
+
+  it('should mark the article as read once an ID is available', () => {
+    const { rerender } = renderHook(({ id }) => useMarkArticleRead(id), {
+      initialProps: { id: null as number | null },
+    });
+    expect(getReadStateManager().isRead(3)).toBe(false);
+
+    rerender({ id: 3 });
+
+    expect(getReadStateManager().isRead(3)).toBe(true);
+  });
+});
+
+describe('useReadStateSync', () => {
+  const originalFeatures = { ...appConfig.features };
+
+  beforeEach(() => {
+    localStorage.clear();
+    ReadStateManager.resetInstance();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    appConfig.features = { ...originalFeatures };
+  });
+
+  it('should not sync when the feature is disabled', () => {
+    appConfig.features = { ...originalFeatures, readStateSync: false };
+    getReadStateManager().markRead(1);
+
+    renderHook(() => useReadStateSync());
+
+    expect(articlesApi.syncReadState).not.toHaveBeenCalled();
+  });
+
+  it('should sync pending changes when the feature is enabled', () => {
+    appConfig.features = { ...originalFeatures, readStateSync: true };
+    vi.mocked(articlesApi.syncReadState).mockResolvedValue(undefined);
+    getReadStateManager().markRead(1);
+
+    renderHook(() => useReadStateSync());
+
+    expect(articlesApi.syncReadState).toHaveBeenCalledWith([
+      expect.objectContaining({ articleId: 1, read: true }),
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * useReadState Hook
+ *
+ * Custom React hooks for article read/unread state.
+ * Backed by ReadStateManager (localStorage + BroadcastChannel), so state is
+ * available offline and shared across tabs, and scoped to the user in the
+ * current auth token.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { getReadStateManager, type ReadStateSnapshot } from '@/lib/reading/ReadStateManager';
+import { syncReadState } from '@/lib/api/endpoints/articles';
+import { isFeatureEnabled } from '@/lib/features';
+import { getUserId } from '@/lib/auth/role';
+
+/**
+ * Empty snapshot used during server rendering
+ */
+const EMPTY_SNAPSHOT: ReadStateSnapshot = new Map();
+
+/**
+ * Read state hook return type
+ */
+interface UseReadStateReturn {
+  /** Read articles (article ID → read timestamp in ms) */
+  readArticles: ReadStateSnapshot;
+  /** Check whether an article has been read */
+  isRead: (articleId: number) => boolean;
+  /** Mark an article as read */
+  markRead: (articleId: number) => void;
+  /** Mark an article as unread */
+  markUnread: (articleId: number) => void;
+  /** Toggle an article between read and unread */
+  toggleRead: (articleId: number) => void;
+}
+
+/**
+ * Subscribe to the read state snapshot, loading the current user's read state
+ *
+ * The manager starts with the signed-in user; the effect follows later user
+ * changes (e.g. signing in as someone else without a reload).
+ */
+function useReadStateSnapshot(): ReadStateSnapshot {
+  const manager = getReadStateManager();
+
+  useEffect(() => {
+    manager.setUser(getUserId());
+  }, [manager]);
+
+  return useSyncExternalStore(
+    useCallback((listener) => manager.subscribe(listener), [manager]),
+    () => manager.getSnapshot(),
+    () => EMPTY_SNAPSHOT
+  );
+}
+
+/**
+ * Custom hook for reading and updating article read state
+ *
+ * @returns Read articles snapshot and functions to update read state
+ *
+ * @example
+ * ```typescript
+ * function ArticleList({ articles }: { articles: Article[] }) {
+ *   const { isRead, toggleRead } = useReadState();
+ *
+ *   return articles.map((article) => (
+ *     <div key={article.id}>
+ *       {article.title} {isRead(article.id) ? '(read)' : '(unread)'}
+ *       <button onClick={() => toggleRead(article.id)}>Toggle</button>
+ *     </div>
+ *   ));
+ * }
+ * ```
+ */
+export function useReadState(): UseReadStateReturn {
+  const readArticles = useReadStateSnapshot();
+  const manager = getReadStateManager();
+
+  const isRead = useCallback((articleId: number) => readArticles.has(articleId), [readArticles]);
+
+  const markRead = useCallback((articleId: number) => manager.markRead(articleId), [manager]);
+
+  const markUnread = useCallback((articleId: number) => manager.markUnread(articleId), [manager]);
+
+  const toggleRead = useCallback(
+    (articleId: number) => {
+      if (manager.isRead(articleId)) {
+        manager.markUnread(articleId);
+      } else {
+        manager.markRead(articleId);
+      }
+    },
+    [manager]
+  );
+
+  return {
+    readArticles,
+    isRead,
+    markRead,
+    markUnread,
+    toggleRead,
+  };
+}
+
+/**
+ * Custom hook for checking whether a single article has been read
+ *
+ * @param articleId - Article ID
+ * @returns True if the article has been read
+ *
+ * @example
+ * ```typescript
+ * const isRead = useIsArticleRead(article.id);
+ * ```
+ */
+export function useIsArticleRead(articleId: number): boolean {
+  return useReadStateSnapshot().has(articleId);
+}
+
+/**
+ * Custom hook that marks an article as read once it has loaded
+ *
+ * @param articleId - Article ID, or null while the article is not available
+ *
+ * @example
+ * ```typescript
+ * const { article } = useArticle(id);
+ * useMarkArticleRead(article?.id ?? null);
+ * ```
+ */
+export function useMarkArticleRead(articleId: number | null): void {
+  useEffect(() => {
+    if (articleId !== null && articleId > 0) {
+      const manager = getReadStateManager();
+      manager.setUser(getUserId());
+      manager.markRead(articleId);
+    }
+  }, [articleId]);
+}
+
+/**
+ * Custom hook that syncs pending read state changes to the backend
+ *
+ * Does nothing unless the `readStateSync` feature flag is enabled.
+ * Syncs on mount, after local changes, and when the browser comes back online.
+ * Mount once near the root of the protected area.
+ */
+export function useReadStateSync(): void {
+  const readArticles = useReadStateSnapshot();
+
+  useEffect(() => {
+    if (!isFeatureEnabled('readStateSync')) {
+      return;
+    }
+
+    const manager = getReadStateManager();
+    const flush = () => {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        return;
+      }
+      void manager.sync(syncReadState);
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    return () => {
+      window.removeEventListener('online', flush);
+    };
+  }, [readArticles]);
+}
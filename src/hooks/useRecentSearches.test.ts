@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRecentSearches } from './useRecentSearches';
+import { getUserId } from '@/lib/auth/role';
+import { getRecentSearchesStorageKey } from '@/lib/search/recentSearches';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+describe('useRecentSearches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  it('should start without recent searches', () => {
+    const { result } = renderHook(() => useRecentSearches('articles'));
+
+    expect(result.current.recentSearches).toEqual([]);
+  });
+
+  it('should record searches for the current user and update every consumer', () => {
+    const first = renderHook(() => useRecentSearches('articles'));
+    const second = renderHook(() => useRecentSearches('articles'));
+
+    act(() => {
+      first.result.current.addRecentSearch('react');
+      first.result.current.addRecentSearch(' vue ');
+    });
+
+    expect(second.result.current.recentSearches).toEqual(['vue', 'react']);
+    expect(localStorage.getItem(getRecentSearchesStorageKey('articles', 'user-2'))).toBeNull();
+  });
+
+  it('should keep separate histories per scope', () => {
+    const articles = renderHook(() => useRecentSearches('articles'));
+    const sources = renderHook(() => useRecentSearches('sources'));
+
+    act(() => {
+      articles.result.current.addRecentSearch('react');
+    });
+
+    expect(sources.result.current.recentSearches).toEqual([]);
+  });
+
+  it('should clear the history', () => {
+    const { result } = renderHook(() => useRecentSearches('articles'));
+
+    act(() => {
+      result.current.addRecentSearch('react');
+    });
+    act(() => {
+      result.current.clearRecentSearches();
+    });
+
+    expect(result.current.recentSearches).toEqual([]);
+    expect(localStorage.getItem(getRecentSearchesStorageKey('articles', 'user-1'))).toBeNull();
+  });
+
+  it('should pick up searches recorded in another tab', () => {
+    const { result } = renderHook(() => useRecentSearches('articles'));
+    const key = getRecentSearchesStorageKey('articles', 'user-1');
+
+    act(() => {
+      localStorage.setItem(key, JSON.stringify(['from another tab']));
+      window.dispatchEvent(new StorageEvent('storage', { key }));
+    });
+
+    expect(result.current.recentSearches).toEqual(['from another tab']);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * useRecentSearches Hook
+ *
+ * Custom React hook for the current user's recent searches in a search box.
+ * Recent searches are persisted per user in localStorage and shared between
+ * components and across tabs via the storage event.
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getUserId } from '@/lib/auth/role';
+import {
+  RECENT_SEARCHES_STORAGE_KEY_PREFIX,
+  addRecentSearch as addToHistory,
+  getRecentSearchesStorageKey,
+  parseRecentSearches,
+  saveRecentSearches,
+  type RecentSearchScope,
+} from '@/lib/search/recentSearches';
+
+/**
+ * Empty list used during server rendering
+ */
+const EMPTY_SEARCHES: string[] = [];
+
+/**
+ * In-tab listeners (the storage event only fires in other tabs)
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Last parsed list per storage key, reused while the stored value is
+ * unchanged so snapshots stay referentially stable
+ */
+const snapshotCache = new Map<string, { raw: string | null; searches: string[] }>();
+
+function readSearches(scope: RecentSearchScope): string[] {
+  const key = getRecentSearchesStorageKey(scope, getUserId());
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(key);
+  } catch {
+    // Storage blocked: behave as if there is no history
+  }
+
+  const cached = snapshotCache.get(key);
+  if (cached?.raw === raw) {
+    return cached.searches;
+  }
+  const searches = parseRecentSearches(raw);
+  snapshotCache.set(key, { raw, searches });
+  return searches;
+}
+
+function writeSearches(scope: RecentSearchScope, searches: string[]): void {
+  saveRecentSearches(scope, getUserId(), searches);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith(RECENT_SEARCHES_STORAGE_KEY_PREFIX)) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Recent searches hook return type
+ */
+interface UseRecentSearchesReturn {
+  /** Recent searches, most recent first */
+  recentSearches: string[];
+  /** Record a search (blank searches are ignored) */
+  addRecentSearch: (query: string) => void;
+  /** Clear the history */
+  clearRecentSearches: () => void;
+}
+
+/**
+ * Custom hook for reading and managing the current user's recent searches
+ *
+ * @param scope - Search box the history belongs to
+ * @returns Recent searches and functions to change them
+ *
+ * @example
+ * ```typescript
+ * const { recentSearches, addRecentSearch } = useRecentSearches('articles');
+ * ```
+ */
+export function useRecentSearches(scope: RecentSearchScope): UseRecentSearchesReturn {
+  const getSnapshot = useCallback(() => readSearches(scope), [scope]);
+  const recentSearches = useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_SEARCHES);
+
+  const addRecentSearch = useCallback(
+    (query: string) => {
+      const current = readSearches(scope);
+      const updated = addToHistory(current, query);
+      if (updated !== current) {
+        writeSearches(scope, updated);
+      }
+    },
+    [scope]
+  );
+
+  const clearRecentSearches = useCallback(() => {
+    writeSearches(scope, []);
+  }, [scope]);
+
+  return { recentSearches, addRecentSearch, clearRecentSearches };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSavedSearches } from './useSavedSearches';
+import { getUserId } from '@/lib/auth/role';
+import { getSavedSearchesStorageKey } from '@/lib/search/savedSearches';
+import type { ArticleSearchState } from '@/components/articles/ArticleSearch';
+
+vi.mock('@/lib/auth/role', () => ({
+  getUserId: vi.fn(),
+}));
+
+const state: ArticleSearchState = {
+  keyword: 'react',
+  sourceId: 2,
+  fromDate: null,
+  toDate: null,
+};
+
+const storedNames = (userId: string) =>
+  JSON.parse(localStorage.getItem(getSavedSearchesStorageKey(userId)) ?? '[]').map(
+    ({ name }: { name: string }) => name
+  );
+
+describe('useSavedSearches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getUserId).mockReturnValue('user-1');
+  });
+
+  it('should start without saved searches', () => {
+    const { result } = renderHook(() => useSavedSearches());
+
+    expect(result.current.savedSearches).toEqual([]);
+  });
+
+  it('should save searches for the current user and update every consumer', () => {
+    const first = renderHook(() => useSavedSearches());
+    const second = renderHook(() => useSavedSearches());
+
+    act(() => {
+      first.result.current.saveSearch(' React news ', state);
+    });
+
+    expect(first.result.current.savedSearches).toHaveLength(1);
+    expect(second.result.current.savedSearches[0]).toMatchObject({ name: 'React news', state });
+    expect(storedNames('user-1')).toEqual(['React news']);
+    expect(localStorage.getItem(getSavedSearchesStorageKey('user-2'))).toBeNull();
+  });
+
+  it('should reject invalid names', () => {
+    const { result } = renderHook(() => useSavedSearches());
+
+    let saved: unknown;
+    act(() => {
+      saved = result.current.saveSearch('   ', state);
+    });
+
+    expect(saved).toBeNull();
+    expect(result.current.savedSearches).toEqual([]);
+  });
+
+  it('should rename, reorder and delete searches', () => {
+    const { result } = renderHook(() => useSavedSearches());
+    act(() => {
+      result.current.saveSearch('First', state);
+      result.current.saveSearch('Second', { ...state, keyword: 'vue' });
+    });
+    const [first, second] = result.current.savedSearches;
+
+    act(() => {
+      expect(result.current.renameSearch(first!.id, 'Renamed')).toBe(true);
+      expect(result.current.renameSearch(first!.id, '')).toBe(false);
+    });
+    expect(storedNames('user-1')).toEqual(['Renamed', 'Second']);
+
+    act(() => {
+      result.current.moveSearch(second!.id, -1);
+    });
+    expect(storedNames('user-1')).toEqual(['Second', 'Renamed']);
+
+    act(() => {
+      result.current.deleteSearch(second!.id);
+    });
+    expect(result.current.savedSearches.map(({ name }) => name)).toEqual(['Renamed']);
+  });
+
+  it('should record when a search was viewed', () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    const { result } = renderHook(() => useSavedSearches());
+    act(() => {
+      result.current.saveSearch('React news', state);
+    });
+
+    vi.setSystemTime(new Date('2026-10-20T09:00:00Z'));
+    act(() => {
+      result.current.markViewed(result.current.savedSearches[0]!.id);
+    });
+
+    expect(result.current.savedSearches[0]?.lastViewedAt).toBe('2026-10-20T09:00:00.000Z');
+    expect(result.current.savedSearches[0]?.createdAt).toBe('2026-10-19T12:00:00.000Z');
+    vi.useRealTimers();
+  });
+
+  it("should read each user's own searches", () => {
+    const { result, rerender } = renderHook(() => useSavedSearches());
+    act(() => {
+      result.current.saveSearch('Mine', state);
+    });
+
+    vi.mocked(getUserId).mockReturnValue('user-2');
+    rerender();
+
+    expect(result.current.savedSearches).toEqual([]);
+  });
+
+  it('should follow changes from other tabs', () => {
+    const { result } = renderHook(() => useSavedSearches());
+    const key = getSavedSearchesStorageKey('user-1');
+
+    act(() => {
+      localStorage.setItem(
+        key,
+        JSON.stringify([
+          {
+            id: 'other-tab',
+            name: 'From another tab',
+            state,
+            createdAt: '2026-10-19T12:00:00.000Z',
+            lastViewedAt: '2026-10-19T12:00:00.000Z',
+          },
+        ])
+      );
+      window.dispatchEvent(new StorageEvent('storage', { key }));
+    });
+
+    expect(result.current.savedSearches.map(({ id }) => id)).toEqual(['other-tab']);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Custom React hook for the current user's saved article searches.
+ * Saved searches are persisted per user in localStorage and shared between
+ * components and across tabs via the storage event.
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getUserId } from '@/lib/auth/role';
+import {
+  SAVED_SEARCHES_STORAGE_KEY_PREFIX,
+  createSavedSearch,
+  getSavedSearchesStorageKey,
+  moveSavedSearch,
+  normalizeSavedSearchName,
+  parseSavedSearches,
+  saveSavedSearches,
+  type SavedSearch,
+} from '@/lib/search/savedSearches';
+import type { ArticleSearchState } from '@/components/articles/ArticleSearch';
+
+/**
+ * Empty list used during server rendering
+ */
+const EMPTY_SEARCHES: SavedSearch[] = [];
+
+/**
+ * In-tab listeners (the storage event only fires in other tabs)
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Last parsed list, reused while the stored value is unchanged so the
+ * snapshot stays referentially stable
+ */
+let snapshotCache: { key: string; raw: string | null; searches: SavedSearch[] } | null = null;
+
+function readSearches(): SavedSearch[] {
+  const key = getSavedSearchesStorageKey(getUserId());
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(key);
+  } catch {
+    // Storage blocked: behave as if nothing is saved
+  }
+
+  if (snapshotCache?.key !== key || snapshotCache.raw !== raw) {
+    snapshotCache = { key, raw, searches: parseSavedSearches(raw) };
+  }
+  return snapshotCache.searches;
+}
+
+function writeSearches(update: (searches: SavedSearch[]) => SavedSearch[]): void {
+  saveSavedSearches(getUserId(), update(readSearches()));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith(SAVED_SEARCHES_STORAGE_KEY_PREFIX)) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Saved searches hook return type
+ */
+interface UseSavedSearchesReturn {
+  /** Saved searches in display order */
+  savedSearches: SavedSearch[];
+  /** Save search filters under a name; returns null if the name is invalid */
+  saveSearch: (name: string, state: ArticleSearchState) => SavedSearch | null;
+  /** Rename a saved search; returns false if the name is invalid */
+  renameSearch: (id: string, name: string) => boolean;
+  /** Move a saved search by offset positions */
+  moveSearch: (id: string, offset: number) => void;
+  /** Delete a saved search */
+  deleteSearch: (id: string) => void;
+  /** Record that a saved search was viewed now (resets its new article count) */
+  markViewed: (id: string) => void;
+}
+
+/**
+ * Custom hook for reading and managing the current user's saved searches
+ *
+ * @returns Saved searches and functions to change them
+ *
+ * @example
+ * ```typescript
+ * const { savedSearches, saveSearch } = useSavedSearches();
+ * <button onClick={() => saveSearch('React news', searchState)}>Save search</button>
+ * ```
+ */
+export function useSavedSearches(): UseSavedSearchesReturn {
+  const savedSearches = useSyncExternalStore(subscribe, readSearches, () => EMPTY_SEARCHES);
+
+  const saveSearch = useCallback((name: string, state: ArticleSearchState) => {
+    const normalized = normalizeSavedSearchName(name);
+    if (!normalized) {
+      return null;
+    }
+    const search = createSavedSearch(normalized, state);
+    writeSearches((searches) => [...searches, search]);
+    return search;
+  }, []);
+
+  const renameSearch = useCallback((id: string, name: string) => {
+    const normalized = normalizeSavedSearchName(name);
+    if (!normalized) {
+      return false;
+    }
+    writeSearches((searches) =>
+      searches.map((search) => (search.id === id ? { ...search, name: normalized } : search))
+    );
+    return true;
+  }, []);
+
+  const moveSearch = useCallback((id: string, offset: number) => {
+    writeSearches((searches) => moveSavedSearch(searches, id, offset));
+  }, []);
+
+  const deleteSearch = useCallback((id: string) => {
+    writeSearches((searches) => searches.filter((search) => search.id !== id));
+  }, []);
+
+  const markViewed = useCallback((id: string) => {
+    const lastViewedAt = new Date().toISOString();
+    writeSearches((searches) =>
+      searches.map((search) => (search.id === id ? { ...search, lastViewedAt } : search))
+    );
+  }, []);
+
+  return { savedSearches, saveSearch, renameSearch, moveSearch, deleteSearch, markViewed };
+}
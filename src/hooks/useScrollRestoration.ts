@@ -0,0 +1,92 @@
+/**
+ * useScrollRestoration Hook
+ *
+ * Custom React hook that restores a list's scroll position when the user
+ * navigates back to it (e.g. from an article detail page). The position is
+ * saved to sessionStorage right before leaving and restored once the list
+ * content has been rendered again.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * sessionStorage key prefix for saved positions
+ */
+export const SCROLL_POSITION_STORAGE_PREFIX = 'catchup_feed_scroll:';
+
+/**
+ * Saved positions older than this are ignored
+ */
+const MAX_AGE_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Saved scroll position
+ */
+interface SavedScrollPosition {
+  y: number;
+  savedAt: number;
+}
+
+/**
+ * Scroll restoration hook return type
+ */
+interface UseScrollRestorationReturn {
+  /** Save the current scroll position (call right before navigating away) */
+  saveScrollPosition: () => void;
+}
+
+/**
+ * Custom hook for restoring scroll position on back-navigation
+ *
+ * @param key - Identifies the list state (e.g. pathname + query string)
+ * @param ready - Whether the content needed to reach the saved position is rendered
+ * @returns Function to save the current position
+ *
+ * @example
+ * ```typescript
+ * const { saveScrollPosition } = useScrollRestoration(`/articles?${query}`, !isLoading);
+ * <div onClick={saveScrollPosition}>{cards}</div>
+ * ```
+ */
+export function useScrollRestoration(key: string, ready: boolean): UseScrollRestorationReturn {
+  const storageKey = `${SCROLL_POSITION_STORAGE_PREFIX}${key}`;
+  const hasRestored = useRef(false);
+
+  useEffect(() => {
+    if (!ready || hasRestored.current) {
+      return;
+    }
+    hasRestored.current = true;
+
+    let saved: SavedScrollPosition | null = null;
+    try {
+      const raw = sessionStorage.getItem(storageKey);
+      sessionStorage.removeItem(storageKey);
+      saved = raw ? (JSON.parse(raw) as SavedScrollPosition) : null;
+    } catch {
+      return;
+    }
+
+    if (!saved || typeof saved.y !== 'number' || Date.now() - saved.savedAt > MAX_AGE_MS) {
+      return;
+    }
+
+    const y = saved.y;
+    // Wait for the restored content to be laid out
+    const frame = window.requestAnimationFrame(() => window.scrollTo(0, y));
+    return () => window.cancelAnimationFrame(frame);
+  }, [ready, storageKey]);
+
+  const saveScrollPosition = useCallback(() => {
+    try {
+      const position: SavedScrollPosition = { y: window.scrollY, savedAt: Date.now() };
+      sessionStorage.setItem(storageKey, JSON.stringify(position));
+    } catch {
+      // Scroll restoration is best-effort
+    }
+  }, [storageKey]);
+
+  return { saveScrollPosition };
+}
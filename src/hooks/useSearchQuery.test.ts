@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useSearchQuery } from './useSearchQuery';
+import { useSources } from '@/hooks/useSources';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+
+vi.mock('@/hooks/useSources', () => ({
+  useSources: vi.fn(),
+}));
+
+const sources = [
+  { id: 1, name: 'Tech News', feed_url: 'https://tech.example.com/feed', active: true },
+];
+
+function mockSources(overrides: Partial<ReturnType<typeof useSources>> = {}) {
+  vi.mocked(useSources).mockReturnValue({
+    sources,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides,
+  });
+}
+
+describe('useSearchQuery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSources();
+  });
+
+  it('should translate the query into backend parameters', () => {
+    const { result } = renderHook(() =>
+      useSearchQuery({
+        keyword: 'react "server components" -vue source:"Tech News" after:2025-01-01',
+        page: 1,
+        limit: 10,
+      })
+    );
+
+    expect(result.current.params).toEqual({
+      keyword: 'react server components',
+      source_id: 1,
+      from: '2025-01-01',
+      to: undefined,
+      page: 1,
+      limit: 10,
+    });
+    expect(result.current.errors).toEqual([]);
+  });
+
+  it('should only fetch sources when the query names one', () => {
+    const { rerender } = renderHook(({ keyword }) => useSearchQuery({ keyword }), {
+      initialProps: { keyword: 'react' },
+    });
+    expect(useSources).toHaveBeenLastCalledWith({ enabled: false });
+
+    rerender({ keyword: 'source:Go' });
+    expect(useSources).toHaveBeenLastCalledWith({ enabled: true });
+  });
+
+  it('should combine syntax errors and unknown sources in query order', () => {
+    const { result } = renderHook(() => useSearchQuery({ keyword: 'source:Unknown OR' }));
+
+    expect(result.current.errors.map(({ message }) => message)).toEqual([
+      'No source is named "Unknown"',
+      'OR needs a word or phrase on each side, e.g. react OR vue',
+    ]);
+  });
+
+  it('should not report sources as unknown while they load', () => {
+    mockSources({ sources: [], isLoading: true });
+
+    const { result } = renderHook(() =>
+      useSearchQuery({ keyword: 'source:Unknown', source_id: 3 })
+    );
+
+    expect(result.current.errors).toEqual([]);
+    expect(result.current.params.source_id).toBe(3);
+  });
+
+  it('should filter articles by the client-side parts of the query', () => {
+    const { result } = renderHook(() => useSearchQuery({ keyword: 'react OR vue -jquery' }));
+
+    expect(result.current.matches(createMockArticle({ title: 'Vue 4', summary: '' }))).toBe(true);
+    expect(result.current.matches(createMockArticle({ title: 'Vue and jQuery' }))).toBe(false);
+    expect(result.current.matches(createMockArticle({ title: 'Svelte', summary: '' }))).toBe(false);
+  });
+
+  it('should list the terms to highlight', () => {
+    const { result } = renderHook(() => useSearchQuery({ keyword: '"server components" -vue' }));
+
+    expect(result.current.highlightTerms).toEqual(['server components']);
+  });
+
+  it('should keep its results stable across renders', () => {
+    const { result, rerender } = renderHook(() => useSearchQuery({ keyword: 'react' }));
+    const first = result.current;
+
+    rerender();
+
+    expect(result.current.params).toBe(first.params);
+    expect(result.current.matches).toBe(first.matches);
+    expect(result.current.highlightTerms).toBe(first.highlightTerms);
+  });
+});
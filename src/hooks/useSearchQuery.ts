@@ -0,0 +1,83 @@
+/**
+ * useSearchQuery Hook
+ *
+ * Parses the advanced search syntax in a keyword and translates it into
+ * backend search parameters plus a client-side article filter.
+ * Sources are only fetched when the query uses `source:`.
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useSources } from '@/hooks/useSources';
+import {
+  applySearchQuery,
+  getHighlightTerms,
+  matchesSearchQuery,
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type SearchQueryError,
+} from '@/lib/search/queryParser';
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+import type { Article } from '@/types/api';
+
+/**
+ * Search query hook return type
+ */
+interface UseSearchQueryReturn {
+  /** Parsed query */
+  query: ParsedSearchQuery;
+  /** Search parameters for the backend */
+  params: ArticleSearchParams;
+  /** Malformed parts of the query and unknown source names */
+  errors: SearchQueryError[];
+  /** Client-side filter for the parts the backend cannot apply */
+  matches: (article: Article) => boolean;
+  /** Words and phrases to highlight in the results */
+  highlightTerms: string[];
+}
+
+/**
+ * Custom hook for advanced article search queries
+ *
+ * @param params - Search parameters whose keyword holds the query as typed
+ * @returns Parsed query, backend parameters, errors and client-side filter
+ *
+ * @example
+ * ```typescript
+ * const { params, matches } = useSearchQuery(toSearchParams(searchState));
+ * const { articles } = useArticleSearch(params);
+ * const visibleArticles = articles.filter(matches);
+ * ```
+ */
+export function useSearchQuery(params: ArticleSearchParams): UseSearchQueryReturn {
+  const { keyword, source_id, from, to, page, limit } = params;
+
+  const query = useMemo(() => parseSearchQuery(keyword ?? ''), [keyword]);
+
+  const needsSources = query.source !== null;
+  const { sources, isLoading, error } = useSources({ enabled: needsSources });
+  const resolvedSources = needsSources && !isLoading && !error ? sources : null;
+
+  const resolved = useMemo(
+    () => applySearchQuery({ keyword, source_id, from, to, page, limit }, query, resolvedSources),
+    [keyword, source_id, from, to, page, limit, query, resolvedSources]
+  );
+
+  const errors = useMemo(
+    () => [...query.errors, ...resolved.errors].sort((a, b) => a.start - b.start),
+    [query, resolved]
+  );
+
+  const matches = useCallback((article: Article) => matchesSearchQuery(article, query), [query]);
+
+  const highlightTerms = useMemo(() => getHighlightTerms(query), [query]);
+
+  return {
+    query,
+    params: resolved.params,
+    errors,
+    matches,
+    highlightTerms,
+  };
+}
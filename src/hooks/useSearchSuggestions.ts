@@ -0,0 +1,171 @@
+/**
+ * useSearchSuggestions Hook
+ *
+ * Builds the autocomplete suggestions of a search box from the text typed
+ * so far: recent searches, matching source names and, optionally, the top
+ * matching article titles from a small search request.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useArticleSearch } from '@/hooks/useArticleSearch';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useRecentSearches } from '@/hooks/useRecentSearches';
+import { useSearchQuery } from '@/hooks/useSearchQuery';
+import { useSources } from '@/hooks/useSources';
+import { filterRecentSearches, type RecentSearchScope } from '@/lib/search/recentSearches';
+import type { Article, Source } from '@/types/api';
+
+/**
+ * Maximum number of suggestions per group
+ */
+export const SEARCH_SUGGESTIONS_LIMIT = 5;
+
+/**
+ * Minimum number of typed characters before article titles are looked up
+ */
+export const ARTICLE_SUGGESTIONS_MIN_LENGTH = 2;
+
+/**
+ * Delay before article titles are looked up (milliseconds)
+ */
+const ARTICLE_SUGGESTIONS_DELAY = 200;
+
+/**
+ * A suggestion in a search box dropdown
+ */
+export type SearchSuggestion =
+  | { kind: 'recent'; id: string; label: string; query: string }
+  | { kind: 'clear-recent'; id: string; label: string }
+  | { kind: 'source'; id: string; label: string; source: Source }
+  | { kind: 'article'; id: string; label: string; description: string; article: Article };
+
+/**
+ * A labelled group of suggestions
+ */
+export interface SearchSuggestionGroup {
+  id: string;
+  label: string;
+  suggestions: SearchSuggestion[];
+}
+
+/**
+ * Hook options
+ */
+interface UseSearchSuggestionsOptions {
+  /** Search box the recent searches belong to */
+  scope: RecentSearchScope;
+  /** Whether to suggest matching article titles (default: false) */
+  includeArticles?: boolean;
+}
+
+/**
+ * Search suggestions hook return type
+ */
+interface UseSearchSuggestionsReturn {
+  /** Non-empty suggestion groups, in display order */
+  groups: SearchSuggestionGroup[];
+  /** Record a search in the recent searches */
+  addRecentSearch: (query: string) => void;
+  /** Clear the recent searches */
+  clearRecentSearches: () => void;
+}
+
+/**
+ * Custom hook for search box suggestions
+ *
+ * @param query - Text typed so far
+ * @param options - Hook options (scope, includeArticles)
+ * @returns Suggestion groups and functions to manage the recent searches
+ *
+ * @example
+ * ```typescript
+ * const [typed, setTyped] = useState('');
+ * const { groups, addRecentSearch } = useSearchSuggestions(typed, { scope: 'articles' });
+ * ```
+ */
+export function useSearchSuggestions(
+  query: string,
+  options: UseSearchSuggestionsOptions
+): UseSearchSuggestionsReturn {
+  const { scope, includeArticles = false } = options;
+  const trimmed = query.trim();
+
+  const { recentSearches, addRecentSearch, clearRecentSearches } = useRecentSearches(scope);
+  const { sources } = useSources();
+
+  // Article titles: a small search for the typed text, using the query syntax
+  const articleQuery = useDebounce(trimmed, ARTICLE_SUGGESTIONS_DELAY);
+  const { params } = useSearchQuery({
+    keyword: articleQuery,
+    page: 1,
+    limit: SEARCH_SUGGESTIONS_LIMIT,
+  });
+  const lookUpArticles =
+    includeArticles &&
+    articleQuery === trimmed &&
+    trimmed.length >= ARTICLE_SUGGESTIONS_MIN_LENGTH &&
+    !!params.keyword;
+  const { articles } = useArticleSearch(params, { enabled: lookUpArticles });
+
+  const groups = useMemo(() => {
+    const result: SearchSuggestionGroup[] = [];
+
+    const recent = filterRecentSearches(recentSearches, trimmed, SEARCH_SUGGESTIONS_LIMIT);
+    if (recent.length > 0) {
+      result.push({
+        id: 'recent',
+        label: 'Recent searches',
+        suggestions: [
+          ...recent.map(
+            (search): SearchSuggestion => ({
+              kind: 'recent',
+              id: `recent-${search}`,
+              label: search,
+              query: search,
+            })
+          ),
+          { kind: 'clear-recent', id: 'clear-recent', label: 'Clear recent searches' },
+        ],
+      });
+    }
+
+    if (trimmed) {
+      const lower = trimmed.toLowerCase();
+      const matchingSources = sources
+        .filter((source) => source.name.toLowerCase().includes(lower))
+        .slice(0, SEARCH_SUGGESTIONS_LIMIT);
+      if (matchingSources.length > 0) {
+        result.push({
+          id: 'sources',
+          label: 'Sources',
+          suggestions: matchingSources.map((source) => ({
+            kind: 'source',
+            id: `source-${source.id}`,
+            label: source.name,
+            source,
+          })),
+        });
+      }
+    }
+
+    if (lookUpArticles && articles.length > 0) {
+      result.push({
+        id: 'articles',
+        label: 'Articles',
+        suggestions: articles.slice(0, SEARCH_SUGGESTIONS_LIMIT).map((article) => ({
+          kind: 'article',
+          id: `article-${article.id}`,
+          label: article.title,
+          description: article.source_name,
+          article,
+        })),
+      });
+    }
+
+    return result;
+  }, [recentSearches, trimmed, sources, lookUpArticles, articles]);
+
+  return { groups, addRecentSearch, clearRecentSearches };
+}
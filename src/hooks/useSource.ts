@@ -0,0 +1,79 @@
+/**
+ * useSource Hook
+ *
+ * Custom React hook for fetching a single source by ID.
+ * Uses React Query for cache management with 60s stale time.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getSource } from '@/lib/api/endpoints/sources';
+import type { Source } from '@/types/api';
+
+/**
+ * Source hook return type
+ */
+interface UseSourceReturn {
+  /** The source data, or null if not loaded */
+  source: Source | null;
+  /** Whether the source is being fetched */
+  isLoading: boolean;
+  /** Error from the last fetch attempt, or null */
+  error: Error | null;
+  /** Function to manually refetch the source */
+  refetch: () => void;
+}
+
+/**
+ * Custom hook for fetching a single source by ID
+ *
+ * @param id - Source ID (number)
+ * @returns Source data, loading state, error, and refetch function
+ *
+ * @example
+ * ```typescript
+ * function SourceDetail({ id }: { id: number }) {
+ *   const { source, isLoading, error } = useSource(id);
+ *
+ *   if (isLoading) return <div>Loading...</div>;
+ *   if (error) return <div>Error: {error.message}</div>;
+ *   if (!source) return <div>Source not found</div>;
+ *
+ *   return <h1>{source.name}</h1>;
+ * }
+ * ```
+ */
+export function useSource(id: number): UseSourceReturn {
+  // Query key includes source ID for cache isolation
+  const queryKey = ['source', id];
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch: refetchQuery,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await getSource(id);
+      return response;
+    },
+    staleTime: 60000, // 60 seconds
+    retry: 1,
+    refetchOnWindowFocus: true,
+    // Don't fetch if ID is invalid
+    enabled: id > 0,
+  });
+
+  const refetch = () => {
+    refetchQuery();
+  };
+
+  return {
+    source: data ?? null,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
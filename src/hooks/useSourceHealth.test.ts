@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useSourceHealth } from './useSourceHealth';
+import * as sourceApi from '@/lib/api/endpoints/sources';
+import * as articleApi from '@/lib/api/endpoints/articles';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import type { PaginatedArticlesResponse, Source } from '@/types/api';
+
+// Mock the sources and articles API
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  getSources: vi.fn(),
+}));
+vi.mock('@/lib/api/endpoints/articles', () => ({
+  getArticles: vi.fn(),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR_MS).toISOString();
+
+const sources: Source[] = [
+  {
+    id: 1,
+    name: 'Healthy Blog',
+    feed_url: 'https://a.example.com/feed',
+    active: true,
+    last_crawled_at: hoursAgo(1),
+  },
+  {
+    id: 2,
+    name: 'Dead Feed',
+    feed_url: 'https://b.example.com/feed',
+    active: true,
+    last_crawled_at: hoursAgo(2),
+  },
+  {
+    id: 3,
+    name: 'New Source',
+    feed_url: 'https://c.example.com/feed',
+    active: false,
+    last_crawled_at: null,
+  },
+];
+
+function articlesResponse(total: number, publishedAt?: string): PaginatedArticlesResponse {
+  return {
+    data: publishedAt ? [createMockArticle({ published_at: publishedAt })] : [],
+    pagination: { page: 1, limit: 1, total, total_pages: total },
+  };
+}
+
+describe('useSourceHealth', () => {
+  let queryClient: QueryClient;
+
+  const createWrapper = () => {
+    const Wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    Wrapper.displayName = 'TestQueryClientProvider';
+    return Wrapper;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, gcTime: 0 } },
+    });
+    vi.mocked(sourceApi.getSources).mockResolvedValue(sources);
+    vi.mocked(articleApi.getArticles).mockImplementation(async (query) => {
+      switch (query?.source_id) {
+        case 1:
+          return articlesResponse(42, hoursAgo(3));
+        case 2:
+          return articlesResponse(7, hoursAgo(24 * 90));
+        default:
+          return articlesResponse(0);
+      }
+    });
+  });
+
+  it('should fetch the latest article of every source', async () => {
+    renderHook(() => useSourceHealth(), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(articleApi.getArticles).toHaveBeenCalledTimes(3);
+    });
+    expect(articleApi.getArticles).toHaveBeenCalledWith({ source_id: 1, limit: 1 });
+    expect(articleApi.getArticles).toHaveBeenCalledWith({ source_id: 3, limit: 1 });
+  });
+
+  it('should classify sources with their article activity, needing attention first', async () => {
+    const { result } = renderHook(() => useSourceHealth(), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(result.current.isLoadingActivity).toBe(false);
+      expect(result.current.entries).toHaveLength(3);
+    });
+
+    expect(
+      result.current.entries.map(({ source, health, activity }) => [
+        source.name,
+        health.status,
+        activity?.articleCount,
+      ])
+    ).toEqual([
+      ['New Source', 'never-crawled', 0],
+      ['Dead Feed', 'stale', 7],
+      ['Healthy Blog', 'healthy', 42],
+    ]);
+    expect(result.current.entries[1]?.health.staleReasons).toEqual(['articles']);
+    expect(result.current.counts).toEqual({ healthy: 1, stale: 1, 'never-crawled': 1 });
+  });
+
+  it('should fall back to crawl time when article activity fails to load', async () => {
+    vi.mocked(articleApi.getArticles).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useSourceHealth(), { wrapper: createWrapper() });
+
+    // The article queries retry once before failing
+    await waitFor(
+      () => {
+        expect(result.current.entries).toHaveLength(3);
+        expect(result.current.isLoadingActivity).toBe(false);
+      },
+      { timeout: 5000 }
+    );
+
+    const deadFeed = result.current.entries.find(({ source }) => source.id === 2);
+    expect(deadFeed?.activity).toBeNull();
+    expect(deadFeed?.health.status).toBe('healthy');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should return the sources error', async () => {
+    vi.mocked(sourceApi.getSources).mockRejectedValue(new Error('Failed to fetch sources'));
+
+    const { result } = renderHook(() => useSourceHealth(), { wrapper: createWrapper() });
+
+    // The sources query retries once before failing
+    await waitFor(
+      () => {
+        expect(result.current.error?.message).toBe('Failed to fetch sources');
+      },
+      { timeout: 5000 }
+    );
+    expect(result.current.entries).toEqual([]);
+    expect(articleApi.getArticles).not.toHaveBeenCalled();
+  });
+
+  it('should not fetch when disabled', () => {
+    renderHook(() => useSourceHealth({ enabled: false }), { wrapper: createWrapper() });
+
+    expect(sourceApi.getSources).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * useTokenRefreshScheduler Hook
+ *
+ * Runs the background token refresh scheduler while the protected area is
+ * mounted, so sessions are renewed before they expire even without API requests.
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { isFeatureEnabled } from '@/lib/features';
+import { getTokenRefreshScheduler } from '@/lib/auth/TokenRefreshScheduler';
+
+/**
+ * Custom hook that starts the token refresh scheduler
+ *
+ * Does nothing unless the `tokenRefresh` feature flag is enabled.
+ * Mount once near the root of the protected area; `SessionExpiryDialog`
+ * shows its failures.
+ */
+export function useTokenRefreshScheduler(): void {
+  useEffect(() => {
+    if (!isFeatureEnabled('tokenRefresh')) {
+      return;
+    }
+
+    const scheduler = getTokenRefreshScheduler();
+    scheduler.start();
+    return () => {
+      scheduler.stop();
+    };
+  }, []);
+}
@@ -467,6 +467,7 @@ describe('useUpdateSource', () => {
 
       await waitFor(() => {
         expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['sources'] });
+        expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['source', 1] });
       });
     });
 
@@ -35,7 +35,7 @@ interface UseUpdateSourceReturn {
  * Provides mutation function with optimistic updates and automatic cache invalidation.
  * On mutation start, optimistically updates the cache with the new values.
  * On error, rolls back to the previous state.
- * On success, invalidates the ['sources'] cache to refresh from the server.
+ * On success, invalidates the ['sources'] and ['source', id] caches to refresh from the server.
  *
  * @returns Mutation function, loading state, error, and reset function
  *
@@ -91,6 +91,7 @@ export function useUpdateSource(): UseUpdateSourceReturn {
               name: data.name,
               feed_url: data.feedURL,
               active: data.active,
+              source_type: data.sourceType ?? source.source_type,
             };
           }
           return source;
@@ -108,9 +109,10 @@ export function useUpdateSource(): UseUpdateSourceReturn {
         queryClient.setQueryData(['sources'], context.previousSources);
       }
     },
-    onSuccess: () => {
-      // Invalidate sources cache to refresh from server
+    onSuccess: (_data, { id }) => {
+      // Invalidate the sources list and source detail caches to refresh from server
       queryClient.invalidateQueries({ queryKey: ['sources'] });
+      queryClient.invalidateQueries({ queryKey: ['source', id] });
     },
   });
 
@@ -0,0 +1,149 @@
+/**
+ * useUpdateSourceActive Hook Tests
+ *
+ * Tests for the useUpdateSourceActive hook including:
+ * - Optimistic updates of the list and detail caches
+ * - Rollback on error
+ * - Cache invalidation
+ * - Undo grace period for deactivation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { useUpdateSourceActive } from './useUpdateSourceActive';
+import * as sourcesApi from '@/lib/api/endpoints/sources';
+import { ActionUndoneError, ToastManager } from '@/lib/toast/ToastManager';
+import type { Source, SourcesResponse } from '@/types/api';
+
+// Mock the sources API
+vi.mock('@/lib/api/endpoints/sources', () => ({
+  updateSourceActive: vi.fn(),
+}));
+
+const mockSource: Source = {
+  id: 1,
+  name: 'Tech Blog',
+  feed_url: 'https://example.com/feed.xml',
+  active: true,
+};
+
+const otherSource: Source = {
+  id: 2,
+  name: 'News Site',
+  feed_url: 'https://example.com/news.xml',
+  active: true,
+};
+
+const renderWithCache = (undoGracePeriodMs = 0) => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  queryClient.setQueryData<SourcesResponse>(['sources'], [mockSource, otherSource]);
+  queryClient.setQueryData<Source>(['source', 1], mockSource);
+  const TestWrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+  const { result } = renderHook(() => useUpdateSourceActive({ undoGracePeriodMs }), {
+    wrapper: TestWrapper,
+  });
+  return { queryClient, result };
+};
+
+describe('useUpdateSourceActive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ToastManager.resetInstance();
+  });
+
+  it('updates the list and detail caches optimistically', async () => {
+    let resolveUpdate: (value: Source) => void;
+    vi.mocked(sourcesApi.updateSourceActive).mockReturnValue(
+      new Promise<Source>((resolve) => {
+        resolveUpdate = resolve;
+      })
+    );
+    const { queryClient, result } = renderWithCache();
+
+    act(() => {
+      result.current.updateSourceActive({ id: 1, active: false, name: 'Tech Blog' });
+    });
+
+    await waitFor(() => {
+      expect(queryClient.getQueryData<Source>(['source', 1])?.active).toBe(false);
+    });
+    expect(queryClient.getQueryData<SourcesResponse>(['sources'])).toEqual([
+      { ...mockSource, active: false },
+      otherSource,
+    ]);
+
+    await act(async () => {
+      resolveUpdate!({ ...mockSource, active: false });
+    });
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(1, false);
+  });
+
+  it('rolls back both caches on error', async () => {
+    vi.mocked(sourcesApi.updateSourceActive).mockRejectedValue(new Error('Server error'));
+    const { queryClient, result } = renderWithCache();
+
+    await act(async () => {
+      await expect(result.current.mutateAsync({ id: 1, active: false })).rejects.toThrow(
+        'Server error'
+      );
+    });
+
+    expect(queryClient.getQueryData(['sources'])).toEqual([mockSource, otherSource]);
+    expect(queryClient.getQueryData(['source', 1])).toEqual(mockSource);
+    expect(result.current.error?.message).toBe('Server error');
+  });
+
+  it('invalidates the list and detail caches once settled', async () => {
+    vi.mocked(sourcesApi.updateSourceActive).mockResolvedValue({ ...mockSource, active: false });
+    const { queryClient, result } = renderWithCache();
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await act(async () => {
+      await result.current.mutateAsync({ id: 1, active: false });
+    });
+
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['sources'] });
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['source', 1] });
+  });
+
+  it('restores the caches and skips the request when deactivation is undone', async () => {
+    const { queryClient, result } = renderWithCache(5000);
+
+    let caughtError: unknown;
+    await act(async () => {
+      const pending = result.current
+        .mutateAsync({ id: 1, active: false, name: 'Tech Blog' })
+        .catch((err) => {
+          caughtError = err;
+        });
+      await waitFor(() => {
+        expect(ToastManager.getInstance().getSnapshot()[0]?.title).toBe('Deactivated "Tech Blog"');
+      });
+      ToastManager.getInstance().getSnapshot()[0]?.action?.onClick();
+      await pending;
+    });
+
+    expect(caughtError).toBeInstanceOf(ActionUndoneError);
+    expect(queryClient.getQueryData(['source', 1])).toEqual(mockSource);
+    expect(sourcesApi.updateSourceActive).not.toHaveBeenCalled();
+  });
+
+  it('never defers activation', async () => {
+    vi.mocked(sourcesApi.updateSourceActive).mockResolvedValue(mockSource);
+    const { result } = renderWithCache(5000);
+
+    await act(async () => {
+      await result.current.mutateAsync({ id: 1, active: true, name: 'Tech Blog' });
+    });
+
+    expect(ToastManager.getInstance().getSnapshot()).toHaveLength(0);
+    expect(sourcesApi.updateSourceActive).toHaveBeenCalledWith(1, true);
+  });
+});
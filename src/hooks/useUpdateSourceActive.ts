@@ -0,0 +1,139 @@
+/**
+ * useUpdateSourceActive Hook
+ *
+ * Custom React hook for activating or deactivating a source.
+ * Uses React Query mutation with optimistic updates and rollback on error.
+ */
+
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { updateSourceActive } from '@/lib/api/endpoints/sources';
+import { waitForUndo } from '@/lib/toast/ToastManager';
+import type { Source, SourcesResponse } from '@/types/api';
+
+/**
+ * Parameters for updating a source's active status
+ */
+interface UpdateSourceActiveParams {
+  id: number;
+  active: boolean;
+  /** Source name shown in the undo toast */
+  name?: string;
+}
+
+/**
+ * Update source active hook options
+ */
+interface UseUpdateSourceActiveOptions {
+  /**
+   * Defer deactivation behind an "Undo" toast for this many milliseconds
+   * (0, the default, sends it immediately). Activation is never deferred.
+   */
+  undoGracePeriodMs?: number;
+}
+
+/**
+ * Update source active hook return type
+ */
+interface UseUpdateSourceActiveReturn {
+  /** Function to update the active status (fire and forget) */
+  updateSourceActive: (params: UpdateSourceActiveParams) => void;
+  /** Async function that can be awaited for completion */
+  mutateAsync: (params: UpdateSourceActiveParams) => Promise<Source>;
+  /** Whether an update operation is in progress */
+  isPending: boolean;
+  /** Error from the last update attempt, or null */
+  error: Error | null;
+  /** Function to reset mutation state */
+  reset: () => void;
+  /** Whether the mutation was successful */
+  isSuccess: boolean;
+}
+
+/**
+ * Custom hook for updating a source's active status
+ *
+ * Optimistically updates both the ['sources'] list and the ['source', id]
+ * detail caches, rolls them back on error (or undo), and invalidates both
+ * once the mutation settles.
+ *
+ * @param options - Optional undo grace period for deactivation
+ * @returns Mutation function, loading state, error, and reset function
+ *
+ * @example
+ * ```typescript
+ * const { mutateAsync } = useUpdateSourceActive({ undoGracePeriodMs: 5000 });
+ *
+ * <ActiveToggle
+ *   sourceId={source.id}
+ *   sourceName={source.name}
+ *   initialActive={source.active}
+ *   onToggle={async (id, active) => {
+ *     await mutateAsync({ id, active, name: source.name });
+ *   }}
+ * />
+ * ```
+ */
+export function useUpdateSourceActive(
+  options: UseUpdateSourceActiveOptions = {}
+): UseUpdateSourceActiveReturn {
+  const { undoGracePeriodMs = 0 } = options;
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ id, active, name }: UpdateSourceActiveParams) => {
+      // Deactivation waits behind an "Undo" toast; undoing rejects with
+      // ActionUndoneError, which rolls the cache back without sending the request
+      if (!active) {
+        await waitForUndo(name ? `Deactivated "${name}"` : 'Source deactivated', undoGracePeriodMs);
+      }
+      return updateSourceActive(id, active);
+    },
+    onMutate: async ({ id, active }: UpdateSourceActiveParams) => {
+      // Cancel outgoing refetches to avoid overwriting optimistic update
+      await queryClient.cancelQueries({ queryKey: ['sources'] });
+      await queryClient.cancelQueries({ queryKey: ['source', id] });
+
+      // Snapshot previous values for rollback
+      const previousSources = queryClient.getQueryData<SourcesResponse>(['sources']);
+      const previousSource = queryClient.getQueryData<Source>(['source', id]);
+
+      // Optimistically update cache
+      queryClient.setQueryData<SourcesResponse>(['sources'], (old) => {
+        if (!old) return old;
+        return old.map((source) => (source.id === id ? { ...source, active } : source));
+      });
+      queryClient.setQueryData<Source>(['source', id], (old) => {
+        if (!old) return old;
+        return { ...old, active };
+      });
+
+      // Return context with previous values
+      return { previousSources, previousSource };
+    },
+    onError: (_error, { id }, context) => {
+      // Rollback to previous values on error
+      if (context?.previousSources) {
+        queryClient.setQueryData(['sources'], context.previousSources);
+      }
+      if (context?.previousSource) {
+        queryClient.setQueryData(['source', id], context.previousSource);
+      }
+    },
+    onSettled: (_data, _error, { id }) => {
+      // Always refetch to ensure consistency with backend
+      queryClient.invalidateQueries({ queryKey: ['sources'] });
+      queryClient.invalidateQueries({ queryKey: ['source', id] });
+    },
+  });
+
+  return {
+    updateSourceActive: mutation.mutate,
+    mutateAsync: mutation.mutateAsync,
+    isPending: mutation.isPending,
+    error: mutation.error as Error | null,
+    reset: mutation.reset,
+    isSuccess: mutation.isSuccess,
+  };
+}
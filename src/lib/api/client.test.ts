@@ -299,6 +299,25 @@ describe('ApiClient', () => {
       const fetchCall = (global.fetch as any).mock.calls[0];
       expect(fetchCall[1].body).toBeUndefined();
     });
+
+    it('should send keepalive requests only when requested', async () => {
+      // Arrange
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 204,
+        headers: new Headers({ 'content-length': '0' }),
+        text: async () => '',
+      });
+
+      // Act
+      await apiClient.request('/sources/1', { method: 'DELETE', keepalive: true });
+      await apiClient.request('/sources/2', { method: 'DELETE' });
+
+      // Assert
+      const [[, keptAlive], [, regular]] = (global.fetch as any).mock.calls;
+      expect(keptAlive.keepalive).toBe(true);
+      expect(regular.keepalive).toBeUndefined();
+    });
   });
 
   describe('convenience methods', () => {
@@ -1179,4 +1198,75 @@ describe('ApiClient', () => {
       expect(sessionStorage.getItem('csrf_error_occurred')).toBe('true');
     });
   });
+
+  describe('cookie session mode', () => {
+    function setSessionCookie(exp: number) {
+      document.cookie = `catchup_feed_session=${encodeURIComponent(JSON.stringify({ sub: 'user-1', exp }))}; path=/`;
+    }
+
+    beforeEach(() => {
+      appConfig.auth.sessionMode = 'cookie';
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-length': '20' }),
+        text: async () => JSON.stringify({ success: true }),
+      });
+    });
+
+    afterEach(() => {
+      appConfig.auth.sessionMode = 'token';
+      document.cookie = 'catchup_feed_session=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+      vi.doUnmock('@/lib/api/endpoints/auth');
+    });
+
+    it('should send requests through the BFF route without a bearer token', async () => {
+      // Act
+      await apiClient.request('/test-endpoint');
+
+      // Assert
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(url).toBe('/api/bff/test-endpoint');
+      expect((init?.headers as Record<string, string>).Authorization).toBeUndefined();
+    });
+
+    it('should use the base URL override for session routes', async () => {
+      // Act
+      await apiClient.post('/api/auth/login', {}, { requiresAuth: false, baseUrl: '' });
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith('/api/auth/login', expect.anything());
+    });
+
+    it('should refresh the session when the session claims are expiring', async () => {
+      // Arrange
+      setSessionCookie(Math.floor(Date.now() / 1000) + 60);
+      const mockRefreshSession = vi.fn().mockResolvedValue({});
+      const mockRefreshToken = vi.fn();
+      vi.doMock('@/lib/api/endpoints/auth', () => ({
+        refreshSession: mockRefreshSession,
+        refreshToken: mockRefreshToken,
+      }));
+
+      // Act
+      await apiClient.request('/test-endpoint');
+
+      // Assert
+      expect(mockRefreshSession).toHaveBeenCalledTimes(1);
+      expect(mockRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should not refresh a session far from expiry', async () => {
+      // Arrange
+      setSessionCookie(Math.floor(Date.now() / 1000) + 3600);
+      const mockRefreshSession = vi.fn().mockResolvedValue({});
+      vi.doMock('@/lib/api/endpoints/auth', () => ({ refreshSession: mockRefreshSession }));
+
+      // Act
+      await apiClient.request('/test-endpoint');
+
+      // Assert
+      expect(mockRefreshSession).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -4,6 +4,9 @@
  * Type-safe HTTP client for the Catchup Feed backend API.
  * Automatically injects JWT tokens and handles authentication errors.
  * Supports automatic token refresh before requests.
+ *
+ * In the cookie session mode, requests go through the same-origin BFF route,
+ * which attaches the token from the HttpOnly session cookie.
  */
 
 import {
@@ -12,6 +15,7 @@ import {
   isTokenExpiringSoon,
   getRefreshToken,
 } from '@/lib/auth/TokenManager';
+import { BFF_PATH, isCookieSession, isSessionExpiringSoon } from '@/lib/auth/session';
 import { ApiError, NetworkError, TimeoutError } from '@/lib/api/errors';
 import { addTracingHeaders, startSpan } from '@/lib/observability';
 import { metrics } from '@/lib/observability';
@@ -46,8 +50,12 @@ interface RequestOptions {
   headers?: Record<string, string>;
   requiresAuth?: boolean;
   timeout?: number;
+  /** Base URL override (e.g. '' for same-origin Next.js route handlers) */
+  baseUrl?: string;
   /** Retry configuration (set to false to disable retries) */
   retry?: RetryConfig | false;
+  /** Let the request outlive the page (e.g. actions flushed on pagehide) */
+  keepalive?: boolean;
 }
 
 /**
@@ -89,23 +97,30 @@ class ApiClient {
       return;
     }
 
-    // Check if token exists and is expiring soon
-    const token = getAuthToken();
-    if (!token) {
-      // No token, cannot refresh
-      return;
-    }
+    if (isCookieSession()) {
+      // Tokens are HttpOnly; the session claims cookie tells when they expire
+      if (!isSessionExpiringSoon()) {
+        return;
+      }
+    } else {
+      // Check if token exists and is expiring soon
+      const token = getAuthToken();
+      if (!token) {
+        // No token, cannot refresh
+        return;
+      }
 
-    if (!isTokenExpiringSoon()) {
-      // Token is still valid
-      return;
-    }
+      if (!isTokenExpiringSoon()) {
+        // Token is still valid
+        return;
+      }
 
-    // Check if refresh token exists
-    const refreshToken = getRefreshToken();
-    if (!refreshToken) {
-      logger.warn('Token is expiring but no refresh token available');
-      return;
+      // Check if refresh token exists
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) {
+        logger.warn('Token is expiring but no refresh token available');
+        return;
+      }
     }
 
     // Prevent concurrent refresh requests
@@ -134,8 +149,8 @@ class ApiClient {
   private async performTokenRefresh(): Promise<void> {
     try {
       // Dynamic import to avoid circular dependency
-      const { refreshToken } = await import('@/lib/api/endpoints/auth');
-      await refreshToken();
+      const { refreshToken, refreshSession } = await import('@/lib/api/endpoints/auth');
+      await (isCookieSession() ? refreshSession() : refreshToken());
       logger.info('Token refreshed successfully');
     } catch (error) {
       logger.error('Token refresh failed', error as Error);
@@ -294,7 +309,9 @@ class ApiClient {
       headers = {},
       requiresAuth = true,
       timeout = this.defaultTimeout,
+      baseUrl,
       retry = {},
+      keepalive,
     } = options;
 
     // Determine retry configuration
@@ -312,6 +329,8 @@ class ApiClient {
           headers,
           requiresAuth,
           timeout,
+          baseUrl,
+          keepalive,
         });
       } catch (error) {
         lastError = error;
@@ -349,13 +368,15 @@ class ApiClient {
       headers = {},
       requiresAuth = true,
       timeout = this.defaultTimeout,
+      baseUrl = isCookieSession() ? BFF_PATH : this.baseUrl,
+      keepalive,
     } = options;
 
     // Ensure token is valid before making request
     await this.ensureValidToken(requiresAuth);
 
     // Construct full URL
-    const url = `${this.baseUrl}${endpoint}`;
+    const url = `${baseUrl}${endpoint}`;
 
     // Prepare headers
     let requestHeaders: Record<string, string> = {
@@ -367,7 +388,8 @@ class ApiClient {
     requestHeaders = addTracingHeaders(requestHeaders);
 
     // Add Authorization header if authentication is required
-    if (requiresAuth) {
+    // (in the cookie session mode, the BFF route adds it)
+    if (requiresAuth && !isCookieSession()) {
       const token = getAuthToken();
       if (token) {
         requestHeaders['Authorization'] = `Bearer ${token}`;
@@ -385,6 +407,10 @@ class ApiClient {
       headers: requestHeaders,
     };
 
+    if (keepalive) {
+      init.keepalive = true;
+    }
+
     // Add body for non-GET requests
     if (body && method !== 'GET') {
       init.body = JSON.stringify(body);
@@ -41,6 +41,7 @@ describe('Articles API Endpoints', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.useRealTimers();
   });
 
   describe('searchArticles', () => {
@@ -182,6 +183,22 @@ describe('Articles API Endpoints', () => {
       expect(apiClient.get).toHaveBeenCalledWith('/articles/search?from=2025-01-01&to=2025-12-31');
     });
 
+    it('should resolve relative date range parameters', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-15T12:00:00.000Z'));
+      vi.mocked(apiClient.get).mockResolvedValue({
+        data: [],
+        pagination: { page: 1, limit: 10, total: 0, total_pages: 0 },
+      });
+
+      // Act
+      await searchArticles({ from: '-7d', to: 'today' });
+
+      // Assert
+      expect(apiClient.get).toHaveBeenCalledWith('/articles/search?from=2025-01-08&to=2025-01-15');
+    });
+
     it('should build correct query string with page parameter', async () => {
       // Arrange
       const mockResponse: PaginatedArticlesResponse = {
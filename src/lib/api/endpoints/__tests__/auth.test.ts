@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { logout, refreshToken, revokeToken } from '../auth';
+import { apiClient } from '@/lib/api/client';
+import { ApiError } from '@/lib/api/errors';
+import { appConfig } from '@/config/app.config';
+import { clearLocalSession } from '@/lib/auth/logout';
+import {
+  broadcastLogout,
+  getRefreshToken,
+  getTokenManager,
+  isTokenExpired,
+} from '@/lib/auth/TokenManager';
+
+// Mock the API client
+vi.mock('@/lib/api/client', () => ({
+  apiClient: {
+    post: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/auth/logout', () => ({
+  clearLocalSession: vi.fn(),
+}));
+
+const tokenManager = vi.hoisted(() => ({ getTokenExpiry: vi.fn() }));
+vi.mock('@/lib/auth/TokenManager', () => ({
+  broadcastLogout: vi.fn(),
+  getRefreshToken: vi.fn(),
+  getTokenManager: vi.fn(() => tokenManager),
+  setAuthToken: vi.fn(),
+  setRefreshToken: vi.fn(),
+  isTokenExpired: vi.fn(),
+}));
+
+describe('Auth API Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    appConfig.auth.revokeEndpoint = '/auth/revoke';
+    vi.mocked(getRefreshToken).mockReturnValue('refresh-token');
+    vi.mocked(apiClient.post).mockResolvedValue(undefined);
+    vi.mocked(clearLocalSession).mockResolvedValue(undefined);
+
+    // Mock window.location
+    Object.defineProperty(window, 'location', {
+      value: { href: '' },
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    appConfig.auth.revokeEndpoint = null;
+    appConfig.auth.sessionMode = 'token';
+    vi.restoreAllMocks();
+  });
+
+  describe('revokeToken', () => {
+    it('should post the refresh token to the revoke endpoint', async () => {
+      await revokeToken();
+
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/auth/revoke',
+        { refresh_token: 'refresh-token' },
+        { requiresAuth: false, retry: false }
+      );
+    });
+
+    it('should do nothing without a revoke endpoint', async () => {
+      appConfig.auth.revokeEndpoint = null;
+
+      await revokeToken();
+
+      expect(apiClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a refresh token', async () => {
+      vi.mocked(getRefreshToken).mockReturnValue(null);
+
+      await revokeToken();
+
+      expect(apiClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the backend rejects the revocation', async () => {
+      vi.mocked(apiClient.post).mockRejectedValue(new ApiError('Not Found', 404));
+
+      await expect(revokeToken()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('refreshToken', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    beforeEach(() => {
+      vi.mocked(apiClient.post).mockResolvedValue({ token: 'new-token', refresh_token: 'new' });
+    });
+
+    it('should refresh an expired token within the grace period', async () => {
+      tokenManager.getTokenExpiry.mockReturnValue(now - appConfig.auth.gracePeriod + 10);
+      vi.mocked(isTokenExpired).mockReturnValue(true);
+
+      await expect(refreshToken()).resolves.toEqual({ token: 'new-token', refresh_token: 'new' });
+      expect(getTokenManager().getTokenExpiry).toHaveBeenCalledWith(appConfig.auth.accessTokenKey);
+    });
+
+    it('should reject a token expired beyond the grace period', async () => {
+      tokenManager.getTokenExpiry.mockReturnValue(now - appConfig.auth.gracePeriod - 10);
+      vi.mocked(isTokenExpired).mockReturnValue(true);
+
+      await expect(refreshToken()).rejects.toThrow('Access token expired beyond grace period');
+      expect(apiClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should let the backend decide when the expiry is unknown', async () => {
+      tokenManager.getTokenExpiry.mockReturnValue(null);
+      vi.mocked(isTokenExpired).mockReturnValue(true);
+
+      await refreshToken();
+
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refresh_token: 'refresh-token' },
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the token, clear the session, notify other tabs and redirect', async () => {
+      const queryClient = new QueryClient();
+
+      await logout(queryClient);
+
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/auth/revoke',
+        { refresh_token: 'refresh-token' },
+        expect.any(Object)
+      );
+      expect(clearLocalSession).toHaveBeenCalledWith(queryClient);
+      expect(broadcastLogout).toHaveBeenCalled();
+      expect(window.location.href).toBe('/login');
+    });
+
+    it('should revoke the token before clearing it', async () => {
+      const calls: string[] = [];
+      vi.mocked(apiClient.post).mockImplementation(async () => {
+        calls.push('revoke');
+      });
+      vi.mocked(clearLocalSession).mockImplementation(async () => {
+        calls.push('clear');
+      });
+
+      await logout();
+
+      expect(calls).toEqual(['revoke', 'clear']);
+    });
+
+    it('should still sign out when revocation fails', async () => {
+      vi.mocked(apiClient.post).mockRejectedValue(new Error('Network error'));
+
+      await logout();
+
+      expect(clearLocalSession).toHaveBeenCalled();
+      expect(window.location.href).toBe('/login');
+    });
+
+    it('should log out through the session route in cookie session mode', async () => {
+      appConfig.auth.sessionMode = 'cookie';
+
+      await logout();
+
+      expect(apiClient.post).toHaveBeenCalledTimes(1);
+      expect(apiClient.post).toHaveBeenCalledWith('/api/auth/logout', undefined, {
+        requiresAuth: false,
+        baseUrl: '',
+        retry: false,
+      });
+      expect(clearLocalSession).toHaveBeenCalled();
+      expect(broadcastLogout).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getSources, getSource, updateSourceActive, deleteSource } from '../sources';
+import { getSources, getSource, searchSources, updateSourceActive, deleteSource } from '../sources';
 import { apiClient } from '@/lib/api/client';
 import { ApiError } from '@/lib/api/errors';
 import type { SourcesResponse, SourceResponse } from '@/types/api';
@@ -71,6 +71,59 @@ describe('Sources API Endpoints', () => {
     });
   });
 
+  describe('searchSources', () => {
+    const mockResponse: SourcesResponse = [
+      { id: 1, name: 'Feed', feed_url: 'https://a.example.com/feed', active: true },
+      {
+        id: 2,
+        name: 'Marketing Site',
+        feed_url: 'https://b.example.com',
+        source_type: 'Webflow',
+        active: true,
+      },
+      {
+        id: 3,
+        name: 'Docs',
+        feed_url: 'https://c.example.com',
+        source_type: 'NextJS',
+        active: true,
+      },
+    ];
+
+    it('should send the search filters', async () => {
+      vi.mocked(apiClient.get).mockResolvedValue([]);
+
+      await searchSources({ keyword: 'blog', source_type: 'Webflow', active: true });
+
+      expect(apiClient.get).toHaveBeenCalledWith(
+        '/sources/search?keyword=blog&source_type=Webflow&active=true'
+      );
+    });
+
+    it('should keep only sources of the requested type when the backend ignores it', async () => {
+      vi.mocked(apiClient.get).mockResolvedValue(mockResponse);
+
+      const result = await searchSources({ source_type: 'Webflow' });
+
+      expect(result.map((source) => source.id)).toEqual([2]);
+    });
+
+    it('should treat sources without a type as RSS', async () => {
+      vi.mocked(apiClient.get).mockResolvedValue(mockResponse);
+
+      const result = await searchSources({ source_type: 'RSS' });
+
+      expect(result.map((source) => source.id)).toEqual([1]);
+    });
+
+    it('should not filter results without a known source type', async () => {
+      vi.mocked(apiClient.get).mockResolvedValue(mockResponse);
+
+      expect(await searchSources({ keyword: 'site' })).toEqual(mockResponse);
+      expect(await searchSources({ source_type: 'Unknown' })).toEqual(mockResponse);
+    });
+  });
+
   describe('getSource', () => {
     it('should call GET /sources/:id endpoint with correct ID', async () => {
       // Arrange
@@ -156,7 +209,11 @@ describe('Sources API Endpoints', () => {
 
       // Assert
       expect(apiClient.put).toHaveBeenCalledTimes(1);
-      expect(apiClient.put).toHaveBeenCalledWith('/sources/1', { active: false });
+      expect(apiClient.put).toHaveBeenCalledWith(
+        '/sources/1',
+        { active: false },
+        { keepalive: true }
+      );
       expect(result).toEqual(mockResponse);
       expect(result.active).toBe(false);
     });
@@ -177,7 +234,11 @@ describe('Sources API Endpoints', () => {
       await updateSourceActive(2, true);
 
       // Assert
-      expect(apiClient.put).toHaveBeenCalledWith('/sources/2', { active: true });
+      expect(apiClient.put).toHaveBeenCalledWith(
+        '/sources/2',
+        { active: true },
+        { keepalive: true }
+      );
     });
 
     it('should send correct request body for deactivating source', async () => {
@@ -196,7 +257,11 @@ describe('Sources API Endpoints', () => {
       await updateSourceActive(3, false);
 
       // Assert
-      expect(apiClient.put).toHaveBeenCalledWith('/sources/3', { active: false });
+      expect(apiClient.put).toHaveBeenCalledWith(
+        '/sources/3',
+        { active: false },
+        { keepalive: true }
+      );
     });
 
     it('should return updated source response on success', async () => {
@@ -463,7 +528,7 @@ describe('Sources API Endpoints', () => {
 
       // Assert
       expect(apiClient.delete).toHaveBeenCalledTimes(1);
-      expect(apiClient.delete).toHaveBeenCalledWith('/sources/42');
+      expect(apiClient.delete).toHaveBeenCalledWith('/sources/42', { keepalive: true });
     });
 
     it('should throw ApiError on 403 Forbidden (permission denied)', async () => {
@@ -514,8 +579,8 @@ describe('Sources API Endpoints', () => {
 
       // Assert
       expect(apiClient.delete).toHaveBeenCalledTimes(2);
-      expect(apiClient.delete).toHaveBeenCalledWith('/sources/1');
-      expect(apiClient.delete).toHaveBeenCalledWith('/sources/2');
+      expect(apiClient.delete).toHaveBeenCalledWith('/sources/1', { keepalive: true });
+      expect(apiClient.delete).toHaveBeenCalledWith('/sources/2', { keepalive: true });
     });
 
     it('should include Authorization header via apiClient', async () => {
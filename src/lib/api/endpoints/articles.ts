@@ -27,6 +27,8 @@ export interface ArticleSearchParams {
 }
 import { validateArticle, normalizeSourceName } from '@/utils/article';
 import { ArticleMigrationLogger } from '@/utils/logger';
+import type { ReadStateChange } from '@/lib/reading/ReadStateManager';
+import { resolveDateRangeValue } from '@/lib/search/dateRange';
 
 /**
  * Build query string from query parameters
@@ -60,6 +62,9 @@ function buildQueryString(query?: ArticlesQuery): string {
 /**
  * Build query string for article search
  *
+ * Relative dates (e.g. `from=-7d`) are resolved to absolute dates here, so
+ * they always mean the range as of the request.
+ *
  * @param params - Search parameters object
  * @returns Query string (e.g., '?keyword=test&page=1&limit=10')
  */
@@ -79,11 +84,11 @@ function buildSearchQueryString(params?: ArticleSearchParams): string {
   }
 
   if (params.from !== undefined) {
-    queryParams.append('from', params.from);
+    queryParams.append('from', resolveDateRangeValue(params.from));
   }
 
   if (params.to !== undefined) {
-    queryParams.append('to', params.to);
+    queryParams.append('to', resolveDateRangeValue(params.to));
   }
 
   if (params.page !== undefined) {
@@ -383,6 +388,33 @@ export async function getArticle(id: number): Promise<ArticleResponse> {
   return normalizedArticle;
 }
 
+/**
+ * Sync article read state to the backend
+ *
+ * Sends a batch of read/unread changes recorded locally by ReadStateManager.
+ * Only called when the `readStateSync` feature flag is enabled.
+ *
+ * @param changes - Read state changes to persist
+ * @returns Promise resolving when the backend has accepted the changes
+ * @throws {ApiError} When the request fails
+ *
+ * @example
+ * ```typescript
+ * await syncReadState([{ articleId: 1, read: true, changedAt: Date.now() }]);
+ * ```
+ */
+export async function syncReadState(changes: ReadStateChange[]): Promise<void> {
+  const endpoint = '/articles/read-state';
+
+  await apiClient.post(endpoint, {
+    changes: changes.map((change) => ({
+      article_id: change.articleId,
+      read: change.read,
+      changed_at: new Date(change.changedAt).toISOString(),
+    })),
+  });
+}
+
 /**
  * Export types for convenience
  */
@@ -4,21 +4,32 @@
  * Functions for authentication-related API calls.
  */
 
+import type { QueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api/client';
 import { appConfig } from '@/config/app.config';
 import { logger } from '@/lib/logger';
 import { metrics } from '@/lib/observability';
 import {
+  broadcastLogout,
   getRefreshToken,
+  getTokenManager,
   setAuthToken,
   setRefreshToken,
   isTokenExpired,
 } from '@/lib/auth/TokenManager';
+import { clearLocalSession } from '@/lib/auth/logout';
+import {
+  SESSION_ROUTES,
+  isCookieSession,
+  notifySessionChange,
+  type SessionClaims,
+} from '@/lib/auth/session';
 import type {
   LoginRequest,
   LoginResponse,
   RefreshTokenRequest,
   RefreshTokenResponse,
+  RevokeTokenRequest,
 } from '@/types/api';
 
 /**
@@ -55,15 +66,133 @@ export async function login(email: string, password: string): Promise<LoginRespo
 }
 
 /**
- * Logout (client-side only - clears token)
+ * Login with email and password (cookie session mode)
+ *
+ * The session route keeps the tokens in HttpOnly cookies and returns only the
+ * non-secret session claims.
+ *
+ * @param email - User email address
+ * @param password - User password
+ * @returns Promise resolving to the session claims
+ * @throws {ApiError} When login fails (invalid credentials, server error)
+ */
+export async function loginSession(email: string, password: string): Promise<SessionClaims> {
+  const requestBody: LoginRequest = {
+    email,
+    password,
+  };
+
+  const claims = await apiClient.post<SessionClaims>(SESSION_ROUTES.login, requestBody, {
+    requiresAuth: false,
+    baseUrl: '', // Same-origin route handler
+  });
+  notifySessionChange();
+  return claims;
+}
+
+/**
+ * Refresh the session (cookie session mode)
+ *
+ * The session route exchanges the refresh token cookie for new tokens.
  *
- * @remarks
- * This function only clears the local token. The backend doesn't have a logout endpoint
- * because JWT tokens are stateless. The token will remain valid until it expires.
+ * @returns Promise resolving to the new session claims
+ * @throws {ApiError} When the session cannot be refreshed
  */
-export function logout(): void {
-  // Token clearing is handled by the apiClient when a 401 is received
-  // or can be manually cleared by importing clearAuthToken
+export async function refreshSession(): Promise<SessionClaims> {
+  try {
+    const claims = await apiClient.post<SessionClaims>(SESSION_ROUTES.refresh, undefined, {
+      requiresAuth: false,
+      baseUrl: '',
+      retry: {
+        maxRetries: appConfig.api.retryAttempts,
+        initialDelay: appConfig.api.retryDelay,
+      },
+    });
+    metrics.login.tokenRefresh('success');
+    notifySessionChange();
+    return claims;
+  } catch (error) {
+    logger.error('Session refresh failed', error as Error);
+    metrics.login.tokenRefresh('failure', 'session_refresh_failed');
+    throw error;
+  }
+}
+
+/**
+ * Logout (cookie session mode)
+ *
+ * Revokes the refresh token and clears the HttpOnly session cookies, which
+ * scripts cannot do. Part of `logout()`.
+ *
+ * @throws {ApiError} When the session route fails
+ */
+export async function logoutSession(): Promise<void> {
+  await apiClient.post<void>(SESSION_ROUTES.logout, undefined, {
+    requiresAuth: false,
+    baseUrl: '',
+    retry: false,
+  });
+}
+
+/**
+ * Revoke the refresh token on the backend
+ *
+ * No-op when `appConfig.auth.revokeEndpoint` is not set or there is no refresh
+ * token. Failures are logged, not thrown: logout clears the local session
+ * either way, and an unrevoked token still expires.
+ */
+export async function revokeToken(): Promise<void> {
+  const endpoint = appConfig.auth.revokeEndpoint;
+  const refreshTokenValue = getRefreshToken();
+  if (!endpoint || !refreshTokenValue) {
+    return;
+  }
+
+  const requestBody: RevokeTokenRequest = {
+    refresh_token: refreshTokenValue,
+  };
+
+  try {
+    await apiClient.post<void>(endpoint, requestBody, {
+      requiresAuth: false, // The refresh token identifies the session
+      retry: false,
+    });
+  } catch (error) {
+    logger.warn('Token revocation failed', { error });
+  }
+}
+
+/**
+ * Logout
+ *
+ * 1. Revokes the session on the backend (the session route does it in the
+ *    cookie session mode)
+ * 2. Clears the tokens, CSRF token, React Query cache, error tracking user
+ *    context and user-specific service worker caches of this tab
+ * 3. Tells the other tabs to do the same
+ * 4. Reloads the app on the login page
+ *
+ * @param queryClient - React Query client whose cache to clear
+ *
+ * @example
+ * ```typescript
+ * const queryClient = useQueryClient();
+ * await logout(queryClient);
+ * ```
+ */
+export async function logout(queryClient?: QueryClient): Promise<void> {
+  if (isCookieSession()) {
+    // HttpOnly cookies can only be cleared by the session route; wait for it,
+    // or the proxy would send the login page back to the dashboard
+    await logoutSession().catch((error) => logger.warn('Session logout failed', { error }));
+  } else {
+    await revokeToken();
+  }
+
+  await clearLocalSession(queryClient);
+  broadcastLogout();
+  metrics.login.logout();
+
   if (typeof window !== 'undefined') {
     window.location.href = '/login';
   }
@@ -101,19 +230,21 @@ export async function refreshToken(): Promise<RefreshTokenResponse> {
     throw new Error('No refresh token available');
   }
 
-  // Check if refresh token is expired (within grace period)
-  if (isTokenExpired()) {
+  // Check if access token is expired (within grace period)
+  // The expiry is unknown for opaque tokens and tokens already dropped from
+  // storage; the backend decides then
+  const tokenExpiry = getTokenManager().getTokenExpiry(appConfig.auth.accessTokenKey);
+  if (tokenExpiry !== null && isTokenExpired()) {
     const gracePeriodMs = appConfig.auth.gracePeriod * 1000;
-    const tokenExpiry = Date.now(); // Simplified, should get actual expiry
-    const timeSinceExpiry = Date.now() - tokenExpiry;
+    const timeSinceExpiry = Date.now() - tokenExpiry * 1000;
 
     if (timeSinceExpiry > gracePeriodMs) {
-      logger.warn('Refresh token expired beyond grace period', {
+      logger.warn('Access token expired beyond grace period', {
         gracePeriodMs,
         timeSinceExpiry,
       });
       metrics.login.tokenRefresh('failure', 'grace_period_exceeded');
-      throw new Error('Refresh token expired beyond grace period');
+      throw new Error('Access token expired beyond grace period');
     }
 
     logger.info('Attempting token refresh within grace period', {
@@ -0,0 +1,56 @@
+/**
+ * Feeds API Endpoints
+ *
+ * Functions for the feed discovery route handler. Unlike the other endpoint
+ * modules these call the Next.js app itself (same origin) rather than the
+ * backend API, so they use fetch directly instead of apiClient.
+ */
+
+import { ApiError } from '@/lib/api/errors';
+import type { FeedPreview } from '@/lib/feeds/feedParser';
+
+/**
+ * Feed discovery route path
+ */
+export const FEED_DISCOVERY_PATH = '/api/feeds/discover';
+
+/**
+ * Check a candidate feed URL and get a preview of the feed
+ *
+ * HTML pages are searched for `<link rel="alternate">` feeds; the returned
+ * feedURL is then the discovered feed.
+ *
+ * @param url - Feed or page URL entered by the user
+ * @param signal - Optional abort signal
+ * @returns Feed preview
+ * @throws {ApiError} With the route's error message and code (details.code)
+ *
+ * @example
+ * ```typescript
+ * const preview = await discoverFeed('https://example.com/blog');
+ * console.log(preview.title, preview.itemCount);
+ * ```
+ */
+export async function discoverFeed(url: string, signal?: AbortSignal): Promise<FeedPreview> {
+  const response = await fetch(`${FEED_DISCOVERY_PATH}?url=${encodeURIComponent(url)}`, {
+    headers: { Accept: 'application/json' },
+    credentials: 'same-origin',
+    signal,
+  });
+
+  const data = (await response.json().catch(() => null)) as
+    | FeedPreview
+    | { code?: string; message?: string }
+    | null;
+
+  if (!response.ok) {
+    const error = data as { code?: string; message?: string } | null;
+    throw new ApiError(
+      error?.message || `Feed check failed with status ${response.status}`,
+      response.status,
+      error?.code ? { code: error.code } : undefined
+    );
+  }
+
+  return data as FeedPreview;
+}
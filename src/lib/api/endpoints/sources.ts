@@ -5,6 +5,8 @@
  */
 
 import { apiClient } from '@/lib/api/client';
+import { filterSources, sourceFilters } from '@/utils/sourceFilters';
+import { isSourceType } from '@/utils/sourceType';
 import type {
   Source,
   SourcesResponse,
@@ -77,6 +79,10 @@ export async function getSources(): Promise<SourcesResponse> {
 /**
  * Search sources with various filters
  *
+ * The source_type filter is also applied to the results, so backends that
+ * ignore it (or sources without a type, which count as RSS) still yield
+ * only sources of the requested type.
+ *
  * @param params - Search parameters (keyword, source_type, active)
  * @returns Promise resolving to sources response
  * @throws {ApiError} When the request fails
@@ -99,6 +105,11 @@ export async function searchSources(params?: SourceSearchParams): Promise<Source
   const endpoint = `/sources/search${queryString}`;
 
   const response = await apiClient.get<SourcesResponse>(endpoint);
+
+  // Client-side fallback for the type filter
+  if (isSourceType(params?.source_type) && Array.isArray(response)) {
+    return filterSources(response, sourceFilters.ofType(params.source_type));
+  }
   return response;
 }
 
@@ -150,14 +161,15 @@ export async function getSource(id: number): Promise<SourceResponse> {
  */
 export async function updateSourceActive(id: number, active: boolean): Promise<SourceResponse> {
   const endpoint = `/sources/${id}`;
-  const response = await apiClient.put<SourceResponse>(endpoint, { active });
+  // Deactivation is deferred behind an undo toast and may be flushed as the page unloads
+  const response = await apiClient.put<SourceResponse>(endpoint, { active }, { keepalive: true });
   return response;
 }
 
 /**
  * Create a new source
  *
- * @param data - Source creation input (name and feedURL)
+ * @param data - Source creation input (name, feedURL and optional sourceType)
  * @returns Promise resolving when creation is complete
  * @throws {ApiError} When the request fails (400, 401, 403, 500)
  *
@@ -185,7 +197,7 @@ export async function createSource(data: CreateSourceInput): Promise<void> {
  * Update an existing source
  *
  * @param id - Source ID
- * @param data - Source update input (name, feedURL, and active status)
+ * @param data - Source update input (name, feedURL, active status and optional sourceType)
  * @returns Promise resolving to updated source
  * @throws {ApiError} When the request fails (400, 401, 403, 404, 500)
  *
@@ -236,7 +248,8 @@ export async function updateSource(id: number, data: UpdateSourceInput): Promise
  */
 export async function deleteSource(id: number): Promise<void> {
   const endpoint = `/sources/${id}`;
-  await apiClient.delete(endpoint);
+  // Deletion is deferred behind an undo toast and may be flushed as the page unloads
+  await apiClient.delete(endpoint, { keepalive: true });
 }
 
 /**
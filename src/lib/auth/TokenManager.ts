@@ -7,6 +7,8 @@
  * Features:
  * - In-memory fallback when localStorage is blocked
  * - Multi-tab synchronization via BroadcastChannel
+ * - Cross-tab logout notifications
+ * - Change notifications (local and from other tabs)
  * - Token expiry checking
  * - Graceful degradation
  *
@@ -30,7 +32,8 @@ interface TokenData {
 type TokenMessage =
   | { type: 'set'; key: string; value: string; expiresAt?: number }
   | { type: 'remove'; key: string }
-  | { type: 'clear' };
+  | { type: 'clear' }
+  | { type: 'logout' };
 
 /**
  * TokenManager class for centralized token storage
@@ -43,6 +46,8 @@ export class TokenManager {
   private storage: Map<string, TokenData> = new Map();
   private isLocalStorageAvailable: boolean = false;
   private broadcastChannel: BroadcastChannel | null = null;
+  private logoutListeners: Set<() => void> = new Set();
+  private changeListeners: Set<() => void> = new Set();
   private readonly CHANNEL_NAME = 'catchup_feed_token_sync';
 
   /**
@@ -153,7 +158,15 @@ export class TokenManager {
           this.storage.clear();
           logger.debug('All tokens cleared from other tab');
           break;
+
+        case 'logout':
+          this.storage.clear();
+          logger.debug('Logged out from other tab');
+          this.logoutListeners.forEach((listener) => listener());
+          break;
       }
+
+      this.notifyChange();
     } catch (error) {
       logger.error('Failed to handle broadcast message', error as Error, {
         message: event.data,
@@ -161,6 +174,13 @@ export class TokenManager {
     }
   }
 
+  /**
+   * Notify change listeners
+   */
+  private notifyChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
   /**
    * Broadcast token change to other tabs
    */
@@ -246,6 +266,7 @@ export class TokenManager {
 
       // Broadcast to other tabs
       this.broadcast({ type: 'set', key, value, expiresAt });
+      this.notifyChange();
 
       logger.debug('Token stored', { key, hasExpiry: !!expiresAt });
     } catch (error) {
@@ -270,6 +291,7 @@ export class TokenManager {
 
       // Broadcast to other tabs
       this.broadcast({ type: 'remove', key });
+      this.notifyChange();
 
       logger.debug('Token removed', { key });
     } catch (error) {
@@ -294,6 +316,7 @@ export class TokenManager {
 
       // Broadcast to other tabs
       this.broadcast({ type: 'clear' });
+      this.notifyChange();
 
       logger.debug('All tokens cleared');
     } catch (error) {
@@ -301,6 +324,39 @@ export class TokenManager {
     }
   }
 
+  /**
+   * Tell other tabs that the user logged out
+   *
+   * Listeners registered with `onLogout()` run in the other tabs, not in this one.
+   */
+  public broadcastLogout(): void {
+    this.broadcast({ type: 'logout' });
+  }
+
+  /**
+   * Listen for logouts in other tabs
+   * @param listener - Called when another tab logs out
+   * @returns Function that removes the listener
+   */
+  public onLogout(listener: () => void): () => void {
+    this.logoutListeners.add(listener);
+    return () => {
+      this.logoutListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for token changes in this tab and in other tabs
+   * @param listener - Called after a token is set, removed or cleared
+   * @returns Function that removes the listener
+   */
+  public onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
   /**
    * Get token expiry timestamp
    * @param key - Storage key
@@ -355,6 +411,8 @@ export class TokenManager {
       this.broadcastChannel.close();
       this.broadcastChannel = null;
     }
+    this.logoutListeners.clear();
+    this.changeListeners.clear();
   }
 }
 
@@ -377,12 +435,28 @@ export function getAuthToken(): string | null {
   return getTokenManager().get(appConfig.auth.accessTokenKey);
 }
 
+/**
+ * Mirror the access token in the cookie the proxy verifies
+ * @param token - Access token
+ */
+export function setAuthTokenCookie(token: string): void {
+  if (typeof document === 'undefined') {
+    return;
+  }
+  document.cookie = `${appConfig.auth.accessTokenKey}=${token}; path=/; max-age=86400; SameSite=Strict`;
+}
+
 /**
  * Set authentication token
+ *
+ * Also updates the proxy's cookie, so pages keep loading after a refresh
+ * replaced the token the cookie was set with.
+ *
  * @param token - Access token
  */
 export function setAuthToken(token: string): void {
   getTokenManager().set(appConfig.auth.accessTokenKey, token);
+  setAuthTokenCookie(token);
 }
 
 /**
@@ -422,6 +496,22 @@ export function clearAllTokens(): void {
   getTokenManager().clearAll();
 }
 
+/**
+ * Tell other tabs that the user logged out
+ */
+export function broadcastLogout(): void {
+  getTokenManager().broadcastLogout();
+}
+
+/**
+ * Listen for logouts in other tabs
+ * @param listener - Called when another tab logs out
+ * @returns Function that removes the listener
+ */
+export function onLogoutFromOtherTab(listener: () => void): () => void {
+  return getTokenManager().onLogout(listener);
+}
+
 /**
  * Check if access token is expiring soon
  * @param threshold - Optional threshold in seconds
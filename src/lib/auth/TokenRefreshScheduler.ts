@@ -0,0 +1,378 @@
+/**
+ * Token Refresh Scheduler
+ *
+ * Refreshes the session in the background shortly before the access token
+ * expires, instead of waiting for the next API request to refresh it lazily.
+ *
+ * Features:
+ * - Timer based on the access token expiry (`TokenManager.getTokenExpiry`, or
+ *   the session claims in the cookie session mode)
+ * - Single leader tab: only the tab holding the leader lock (Web Locks API)
+ *   refreshes; the other tabs receive the new tokens through TokenManager's
+ *   BroadcastChannel (or the shared cookies)
+ * - Paused while the tab is hidden (the lock is released, so a visible tab can
+ *   take over); catches up when the tab becomes visible or gains focus
+ * - Reports failed refreshes so the UI can warn that the session is about to expire
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ *
+ * @module lib/auth/TokenRefreshScheduler
+ */
+
+import { appConfig } from '@/config/app.config';
+import { logger } from '@/lib/logger';
+import { refreshSession, refreshToken } from '@/lib/api/endpoints/auth';
+import { getRefreshToken, getTokenManager } from '@/lib/auth/TokenManager';
+import { getSessionClaims, isCookieSession } from '@/lib/auth/session';
+
+/**
+ * Web Lock held by the leader tab
+ */
+const LEADER_LOCK_NAME = 'catchup_feed_token_refresh_leader';
+
+/**
+ * Seconds before the lazy refresh threshold at which the scheduler refreshes,
+ * so requests in other tabs find a fresh token instead of refreshing themselves
+ */
+const REFRESH_MARGIN_SECONDS = 30;
+
+/**
+ * Minimum time between two background refreshes (guards against tokens that
+ * are issued with less lifetime than the refresh threshold)
+ */
+const MIN_REFRESH_INTERVAL_MS = 30_000;
+
+/**
+ * Longest delay setTimeout supports without overflowing
+ */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/**
+ * Background refresh status
+ * - 'idle': nothing to report (refresh scheduled, or signed out)
+ * - 'refreshing': a background refresh is in progress
+ * - 'failed': the last background refresh failed; the session ends at `expiresAt`
+ */
+export type TokenRefreshStatus = 'idle' | 'refreshing' | 'failed';
+
+/**
+ * Scheduler state exposed to the UI
+ */
+export interface TokenRefreshState {
+  status: TokenRefreshStatus;
+  /** Access token expiry (Unix timestamp in seconds), or null when unknown */
+  expiresAt: number | null;
+}
+
+const IDLE_STATE: TokenRefreshState = { status: 'idle', expiresAt: null };
+
+/**
+ * TokenRefreshScheduler class for background token refresh
+ *
+ * Singleton pattern ensures a single timer and leader lock per tab.
+ */
+export class TokenRefreshScheduler {
+  private static instance: TokenRefreshScheduler | null = null;
+  private state: TokenRefreshState = IDLE_STATE;
+  private listeners: Set<() => void> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isRunning = false;
+  private isLeader = false;
+  private releaseLeadership: (() => void) | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private lastRefreshAt = 0;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TokenRefreshScheduler {
+    if (!TokenRefreshScheduler.instance) {
+      TokenRefreshScheduler.instance = new TokenRefreshScheduler();
+    }
+    return TokenRefreshScheduler.instance;
+  }
+
+  /**
+   * Reset singleton instance (for testing)
+   */
+  public static resetInstance(): void {
+    TokenRefreshScheduler.instance?.stop();
+    TokenRefreshScheduler.instance = null;
+  }
+
+  /**
+   * Subscribe to state changes
+   *
+   * @param listener - Called after every change
+   * @returns Unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current state
+   */
+  public getSnapshot = (): TokenRefreshState => {
+    return this.state;
+  };
+
+  /**
+   * Start scheduling refreshes in this tab
+   *
+   * Does nothing outside the browser or when already running.
+   */
+  public start(): void {
+    if (this.isRunning || typeof document === 'undefined') {
+      return;
+    }
+
+    this.isRunning = true;
+    document.addEventListener('visibilitychange', this.handleActivity);
+    window.addEventListener('focus', this.handleActivity);
+
+    if (document.visibilityState === 'visible') {
+      this.acquireLeadership();
+    }
+  }
+
+  /**
+   * Stop scheduling refreshes and give up leadership
+   */
+  public stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    document.removeEventListener('visibilitychange', this.handleActivity);
+    window.removeEventListener('focus', this.handleActivity);
+    this.resignLeadership();
+    this.setState(IDLE_STATE);
+  }
+
+  /**
+   * Refresh the session now and schedule the next refresh
+   *
+   * Concurrent calls share the same refresh.
+   *
+   * @returns True if the session was refreshed
+   */
+  public refresh = (): Promise<boolean> => {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().then((isRefreshed) => {
+        this.refreshPromise = null;
+        if (isRefreshed) {
+          this.catchUp();
+        }
+        return isRefreshed;
+      });
+    }
+    return this.refreshPromise;
+  };
+
+  /**
+   * Hide a reported failure (the next catch-up tries again)
+   */
+  public dismissFailure = (): void => {
+    if (this.state.status === 'failed') {
+      this.setState({ ...this.state, status: 'idle' });
+    }
+  };
+
+  /**
+   * Whether this tab is the one refreshing the session
+   */
+  public isLeaderTab(): boolean {
+    return this.isLeader;
+  }
+
+  /**
+   * Handle visibility and focus changes
+   */
+  private handleActivity = (): void => {
+    if (document.visibilityState !== 'visible') {
+      this.resignLeadership();
+      return;
+    }
+
+    if (this.isLeader) {
+      this.catchUp();
+    } else {
+      this.acquireLeadership();
+    }
+  };
+
+  /**
+   * Request the leader lock; the tab catches up once it is granted
+   *
+   * Without the Web Locks API, every visible tab refreshes its own session.
+   */
+  private acquireLeadership(): void {
+    if (this.releaseLeadership) {
+      // Lock held or requested
+      return;
+    }
+
+    if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+      this.releaseLeadership = () => {};
+      this.becomeLeader();
+      return;
+    }
+
+    let isRequested = true;
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const releaseLeadership = () => {
+      isRequested = false;
+      release();
+    };
+    this.releaseLeadership = releaseLeadership;
+
+    navigator.locks
+      .request(LEADER_LOCK_NAME, async () => {
+        if (!isRequested) {
+          return;
+        }
+        this.becomeLeader();
+        // Hold the lock until leadership is resigned
+        await released;
+      })
+      .catch((error) => {
+        logger.warn('Failed to acquire token refresh leadership', { error });
+        if (this.releaseLeadership === releaseLeadership) {
+          this.releaseLeadership = null;
+        }
+      });
+  }
+
+  /**
+   * Start refreshing as the leader tab
+   */
+  private becomeLeader(): void {
+    this.isLeader = true;
+    logger.debug('Tab elected as token refresh leader');
+    this.catchUp();
+  }
+
+  /**
+   * Give up leadership and cancel the timer
+   */
+  private resignLeadership(): void {
+    this.clearTimer();
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.isLeader = false;
+  }
+
+  /**
+   * Refresh now if the token is due, or schedule the next refresh
+   */
+  private catchUp(): void {
+    this.clearTimer();
+    if (!this.isLeader || this.refreshPromise) {
+      return;
+    }
+
+    const expiresAt = getAccessTokenExpiry();
+    if (expiresAt === null || !canRefresh()) {
+      // Signed out, opaque token or nothing to refresh with
+      this.setState(IDLE_STATE);
+      return;
+    }
+
+    const leadSeconds = appConfig.auth.tokenRefreshThreshold + REFRESH_MARGIN_SECONDS;
+    const delayMs = Math.max(
+      (expiresAt - leadSeconds) * 1000 - Date.now(),
+      this.lastRefreshAt + MIN_REFRESH_INTERVAL_MS - Date.now()
+    );
+
+    if (delayMs <= 0) {
+      void this.refresh();
+      return;
+    }
+
+    // The session was refreshed (possibly by another tab) since a failure
+    this.setState({ status: 'idle', expiresAt });
+    logger.debug('Token refresh scheduled', { delayMs });
+    this.timer = setTimeout(() => this.catchUp(), Math.min(delayMs, MAX_TIMER_DELAY_MS));
+  }
+
+  /**
+   * Refresh the session
+   *
+   * @returns True if the session was refreshed
+   */
+  private async performRefresh(): Promise<boolean> {
+    const expiresAt = getAccessTokenExpiry();
+    this.setState({ status: 'refreshing', expiresAt });
+    this.lastRefreshAt = Date.now();
+
+    try {
+      await (isCookieSession() ? refreshSession() : refreshToken());
+    } catch (error) {
+      logger.warn('Background token refresh failed', { error });
+      this.setState({ status: 'failed', expiresAt });
+      return false;
+    }
+
+    this.setState({ status: 'idle', expiresAt: getAccessTokenExpiry() });
+    return true;
+  }
+
+  /**
+   * Cancel the scheduled refresh
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Update the state and notify listeners
+   */
+  private setState(state: TokenRefreshState): void {
+    if (state.status === this.state.status && state.expiresAt === this.state.expiresAt) {
+      return;
+    }
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Get the access token expiry of the current session
+ *
+ * @returns Unix timestamp in seconds, or null when signed out or unknown
+ */
+function getAccessTokenExpiry(): number | null {
+  if (isCookieSession()) {
+    return getSessionClaims()?.exp ?? null;
+  }
+  return getTokenManager().getTokenExpiry(appConfig.auth.accessTokenKey);
+}
+
+/**
+ * Check whether the session can be refreshed
+ *
+ * In the cookie session mode the refresh token cookie is HttpOnly, so the
+ * session route finds out.
+ */
+function canRefresh(): boolean {
+  return isCookieSession() || getRefreshToken() !== null;
+}
+
+/**
+ * Get singleton TokenRefreshScheduler instance
+ */
+export function getTokenRefreshScheduler(): TokenRefreshScheduler {
+  return TokenRefreshScheduler.getInstance();
+}
@@ -0,0 +1,134 @@
+/**
+ * User Role Store
+ *
+ * Shared, observable copy of the current user's role, so every component
+ * checking permissions sees the same role and re-renders when it changes.
+ *
+ * Features:
+ * - Follows token changes (login, refresh, logout) in this tab and in other
+ *   tabs through TokenManager
+ * - Follows cookie session changes (login, refresh) in this tab, and re-reads
+ *   the session claims cookie when the tab becomes visible or gains focus
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ *
+ * @module lib/auth/UserRoleStore
+ */
+
+import { getUserRole, type UserRole } from '@/lib/auth/role';
+import { getTokenManager } from '@/lib/auth/TokenManager';
+import { onSessionChange } from '@/lib/auth/session';
+
+/**
+ * UserRoleStore class for the current user's role
+ *
+ * Singleton pattern ensures every component observes the same role. The store
+ * starts following session changes on the first subscription.
+ */
+export class UserRoleStore {
+  private static instance: UserRoleStore | null = null;
+  private role: UserRole = null;
+  private listeners: Set<() => void> = new Set();
+  private stopListening: (() => void) | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): UserRoleStore {
+    if (!UserRoleStore.instance) {
+      UserRoleStore.instance = new UserRoleStore();
+    }
+    return UserRoleStore.instance;
+  }
+
+  /**
+   * Reset singleton instance (for testing)
+   */
+  public static resetInstance(): void {
+    UserRoleStore.instance?.destroy();
+    UserRoleStore.instance = null;
+  }
+
+  /**
+   * Subscribe to role changes
+   *
+   * Re-reads the role, so newly mounted components never keep a stale one.
+   *
+   * @param listener - Called after every change
+   * @returns Unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.start();
+    this.listeners.add(listener);
+    this.refresh();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current role
+   *
+   * Null until the first subscription has read the session.
+   */
+  public getSnapshot = (): UserRole => {
+    return this.role;
+  };
+
+  /**
+   * Re-read the role from the session and notify listeners if it changed
+   */
+  public refresh = (): void => {
+    const role = getUserRole();
+    if (role === this.role) {
+      return;
+    }
+
+    this.role = role;
+    this.listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Follow session changes
+   *
+   * Does nothing when already started.
+   */
+  private start(): void {
+    if (this.stopListening) {
+      return;
+    }
+
+    const stopTokenChanges = getTokenManager().onChange(this.refresh);
+    const stopSessionChanges = onSessionChange(this.refresh);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.refresh);
+      window.addEventListener('focus', this.refresh);
+    }
+
+    this.stopListening = () => {
+      stopTokenChanges();
+      stopSessionChanges();
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', this.refresh);
+        window.removeEventListener('focus', this.refresh);
+      }
+    };
+  }
+
+  /**
+   * Stop following session changes and remove all listeners
+   */
+  private destroy(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Get singleton UserRoleStore instance
+ */
+export function getUserRoleStore(): UserRoleStore {
+  return UserRoleStore.getInstance();
+}
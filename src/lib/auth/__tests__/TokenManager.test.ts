@@ -22,6 +22,7 @@ import {
   clearAllTokens,
   isTokenExpiringSoon,
   isTokenExpired,
+  onLogoutFromOtherTab,
 } from '../TokenManager';
 import { appConfig } from '@/config/app.config';
 
@@ -62,7 +63,9 @@ describe('TokenManager', () => {
       onmessage: null,
     };
 
-    global.BroadcastChannel = vi.fn(() => broadcastChannelMock) as any;
+    global.BroadcastChannel = vi.fn(function () {
+      return broadcastChannelMock;
+    }) as any;
 
     // Create new instance for each test
     tokenManager = TokenManager.getInstance();
@@ -182,6 +185,46 @@ describe('TokenManager', () => {
       manager.set('test-key', 'test-token');
       expect(manager.get('test-key')).toBe('test-token');
     });
+
+    it('should broadcast logout to other tabs', () => {
+      const listener = vi.fn();
+      tokenManager.onLogout(listener);
+
+      tokenManager.broadcastLogout();
+
+      expect(broadcastChannelMock.postMessage).toHaveBeenCalledWith({ type: 'logout' });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should clear tokens and notify listeners on logout from other tab', () => {
+      tokenManager.set('test-key', 'test-token');
+      const listener = vi.fn();
+      const unsubscribe = onLogoutFromOtherTab(listener);
+
+      broadcastChannelMock.onmessage?.(new MessageEvent('message', { data: { type: 'logout' } }));
+
+      expect(tokenManager.get('test-key')).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      broadcastChannelMock.onmessage?.(new MessageEvent('message', { data: { type: 'logout' } }));
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify change listeners of local and other tab changes', () => {
+      const listener = vi.fn();
+      const unsubscribe = tokenManager.onChange(listener);
+
+      tokenManager.set('test-key', 'test-token');
+      tokenManager.remove('test-key');
+      tokenManager.clearAll();
+      broadcastChannelMock.onmessage?.(new MessageEvent('message', { data: { type: 'logout' } }));
+      expect(listener).toHaveBeenCalledTimes(4);
+
+      unsubscribe();
+      tokenManager.set('test-key', 'test-token');
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
   });
 
   describe('token expiry checking', () => {
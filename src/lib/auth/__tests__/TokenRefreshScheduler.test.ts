@@ -0,0 +1,292 @@
+/**
+ * Token Refresh Scheduler Tests
+ *
+ * Tests for TokenRefreshScheduler including:
+ * - scheduling the refresh before the access token expires
+ * - pausing while the tab is hidden and catching up when it is visible
+ * - leader election with the Web Locks API
+ * - failure reporting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TokenRefreshScheduler } from '../TokenRefreshScheduler';
+import { refreshSession, refreshToken } from '@/lib/api/endpoints/auth';
+import { getRefreshToken } from '@/lib/auth/TokenManager';
+import { getSessionClaims } from '@/lib/auth/session';
+import { appConfig } from '@/config/app.config';
+
+vi.mock('@/lib/api/endpoints/auth', () => ({
+  refreshToken: vi.fn(),
+  refreshSession: vi.fn(),
+}));
+
+const tokenManager = vi.hoisted(() => ({ getTokenExpiry: vi.fn() }));
+vi.mock('@/lib/auth/TokenManager', () => ({
+  getRefreshToken: vi.fn(),
+  getTokenManager: vi.fn(() => tokenManager),
+}));
+
+vi.mock('@/lib/auth/session', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/session')>()),
+  getSessionClaims: vi.fn(),
+}));
+
+/**
+ * Lock manager granting a lock to one holder at a time
+ */
+function createLockManager() {
+  let queue = Promise.resolve();
+  return {
+    request: vi.fn((_name: string, callback: () => Promise<void>) => {
+      const granted = queue.then(callback);
+      queue = granted.catch(() => {});
+      return granted;
+    }),
+  };
+}
+
+describe('TokenRefreshScheduler', () => {
+  const threshold = appConfig.auth.tokenRefreshThreshold;
+  let visibilityState: DocumentVisibilityState;
+  let nowSeconds: number;
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    visibilityState = state;
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    TokenRefreshScheduler.resetInstance();
+
+    nowSeconds = Math.floor(Date.now() / 1000);
+    visibilityState = 'visible';
+    vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibilityState);
+
+    // Token expires in 10 minutes; refreshing moves the expiry 15 minutes ahead
+    let expiresAt = nowSeconds + 600;
+    tokenManager.getTokenExpiry.mockImplementation(() => expiresAt);
+    vi.mocked(getRefreshToken).mockReturnValue('refresh-token');
+    vi.mocked(refreshToken).mockImplementation(async () => {
+      expiresAt = Math.floor(Date.now() / 1000) + 900;
+      return { token: 'new-token', refresh_token: 'new-refresh-token' };
+    });
+  });
+
+  afterEach(() => {
+    TokenRefreshScheduler.resetInstance();
+    appConfig.auth.sessionMode = 'token';
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('scheduling', () => {
+    it('should refresh before the access token expires', async () => {
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+
+      // Due at expiry - threshold - 30s margin
+      await vi.advanceTimersByTimeAsync((600 - threshold - 30) * 1000 - 1000);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(scheduler.getSnapshot()).toEqual({
+        status: 'idle',
+        expiresAt: nowSeconds + (600 - threshold - 30) + 900,
+      });
+    });
+
+    it('should reschedule after a refresh', async () => {
+      TokenRefreshScheduler.getInstance().start();
+
+      await vi.advanceTimersByTimeAsync((600 - threshold - 30) * 1000);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync((900 - threshold - 30) * 1000);
+      expect(refreshToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refresh right away when the token is already due', async () => {
+      tokenManager.getTokenExpiry.mockReturnValue(nowSeconds + 10);
+
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh more than twice a minute', async () => {
+      // Tokens issued with less lifetime than the threshold stay due
+      tokenManager.getTokenExpiry.mockImplementation(() => Math.floor(Date.now() / 1000) + 60);
+
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(59_000);
+
+      expect(refreshToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not schedule without a refresh token or token expiry', async () => {
+      vi.mocked(getRefreshToken).mockReturnValue(null);
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(3_600_000);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      TokenRefreshScheduler.resetInstance();
+      vi.mocked(getRefreshToken).mockReturnValue('refresh-token');
+      tokenManager.getTokenExpiry.mockReturnValue(null);
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(3_600_000);
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should use the session claims in cookie session mode', async () => {
+      appConfig.auth.sessionMode = 'cookie';
+      vi.mocked(getSessionClaims).mockReturnValue({ sub: '1', exp: nowSeconds + 10 });
+
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(refreshSession).toHaveBeenCalledTimes(1);
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should stop refreshing when stopped', async () => {
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+      scheduler.stop();
+
+      await vi.advanceTimersByTimeAsync(600_000);
+
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('visibility', () => {
+    it('should pause while the tab is hidden and catch up when visible', async () => {
+      TokenRefreshScheduler.getInstance().start();
+      setVisibility('hidden');
+
+      await vi.advanceTimersByTimeAsync(600_000);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      setVisibility('visible');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start as leader in a hidden tab', async () => {
+      visibilityState = 'hidden';
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+
+      expect(scheduler.isLeaderTab()).toBe(false);
+    });
+
+    it('should catch up on focus', async () => {
+      TokenRefreshScheduler.getInstance().start();
+      tokenManager.getTokenExpiry.mockReturnValue(nowSeconds + 10);
+
+      window.dispatchEvent(new Event('focus'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('leader election', () => {
+    it('should only refresh in the tab holding the leader lock', async () => {
+      const locks = createLockManager();
+      vi.stubGlobal('navigator', { ...navigator, locks });
+
+      // Another tab already holds the lock
+      let releaseOtherTab: () => void = () => {};
+      void locks.request(
+        'catchup_feed_token_refresh_leader',
+        () => new Promise<void>((resolve) => (releaseOtherTab = resolve))
+      );
+
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(600_000);
+
+      expect(scheduler.isLeaderTab()).toBe(false);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      // The other tab closes: this tab takes over and catches up
+      releaseOtherTab();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(scheduler.isLeaderTab()).toBe(true);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the leader lock while hidden', async () => {
+      const locks = createLockManager();
+      vi.stubGlobal('navigator', { ...navigator, locks });
+
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(scheduler.isLeaderTab()).toBe(true);
+
+      setVisibility('hidden');
+      expect(scheduler.isLeaderTab()).toBe(false);
+
+      // Another tab can take the lock now
+      const otherTab = vi.fn(async () => {});
+      await locks.request('catchup_feed_token_refresh_leader', otherTab);
+      expect(otherTab).toHaveBeenCalled();
+    });
+  });
+
+  describe('failures', () => {
+    beforeEach(() => {
+      tokenManager.getTokenExpiry.mockReturnValue(nowSeconds + 240);
+      vi.mocked(refreshToken).mockRejectedValue(new Error('Network error'));
+    });
+
+    it('should report a failed refresh with the expiry', async () => {
+      const scheduler = TokenRefreshScheduler.getInstance();
+      const listener = vi.fn();
+      scheduler.subscribe(listener);
+
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(scheduler.getSnapshot()).toEqual({ status: 'failed', expiresAt: nowSeconds + 240 });
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should not retry by itself after a failure', async () => {
+      TokenRefreshScheduler.getInstance().start();
+      await vi.advanceTimersByTimeAsync(600_000);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear the failure when a retry succeeds', async () => {
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      vi.mocked(refreshToken).mockResolvedValue({ token: 'new', refresh_token: 'new' });
+      tokenManager.getTokenExpiry.mockReturnValue(nowSeconds + 900);
+
+      await expect(scheduler.refresh()).resolves.toBe(true);
+      expect(scheduler.getSnapshot()).toEqual({ status: 'idle', expiresAt: nowSeconds + 900 });
+    });
+
+    it('should hide a dismissed failure', async () => {
+      const scheduler = TokenRefreshScheduler.getInstance();
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      scheduler.dismissFailure();
+
+      expect(scheduler.getSnapshot().status).toBe('idle');
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { SignJWT, exportJWK, generateKeyPair, type JWK, type KeyObject } from 'jose';
+import { getJwtAlgorithms, verifyAccessToken } from '../jwtVerifier';
+import type { JwtVerificationConfig } from '@/config/app.config';
+
+const SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const baseConfig: JwtVerificationConfig = {
+  secret: null,
+  jwks: null,
+  jwksUrl: null,
+  jwksCacheMaxAge: 600000,
+  jwksCooldown: 0,
+  algorithms: [],
+  issuer: null,
+  audience: [],
+  clockTolerance: 30,
+  allowUnverified: false,
+};
+
+type SigningKey = KeyObject | CryptoKey | Uint8Array;
+
+function sign(
+  key: SigningKey,
+  alg: string,
+  options: { kid?: string; claims?: Record<string, unknown>; expiresIn?: string | number } = {}
+): Promise<string> {
+  return new SignJWT({ sub: 'user-1', role: 'user', ...options.claims })
+    .setProtectedHeader({ alg, kid: options.kid })
+    .setIssuedAt()
+    .setExpirationTime(options.expiresIn ?? '1h')
+    .sign(key);
+}
+
+async function createKey(alg: 'RS256' | 'ES256', kid: string) {
+  const { privateKey, publicKey } = await generateKeyPair(alg);
+  const jwk: JWK = { ...(await exportJWK(publicKey)), kid, alg, use: 'sig' };
+  return { privateKey, jwk };
+}
+
+describe('verifyAccessToken', () => {
+  const secretKey = new TextEncoder().encode(SECRET);
+
+  describe('HS256 shared secret', () => {
+    const config = { ...baseConfig, secret: SECRET };
+
+    it('should accept tokens signed with the secret', async () => {
+      const token = await sign(secretKey, 'HS256');
+
+      await expect(verifyAccessToken(token, config)).resolves.toMatchObject({ sub: 'user-1' });
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const token = await sign(new TextEncoder().encode(`${SECRET}-forged`), 'HS256');
+
+      await expect(verifyAccessToken(token, config)).resolves.toBeNull();
+    });
+
+    it('should reject tokens with a tampered payload', async () => {
+      const [header, , signature] = (await sign(secretKey, 'HS256')).split('.');
+      const payload = Buffer.from(JSON.stringify({ sub: 'user-1', role: 'admin' })).toString(
+        'base64url'
+      );
+
+      await expect(
+        verifyAccessToken(`${header}.${payload}.${signature}`, config)
+      ).resolves.toBeNull();
+    });
+
+    it('should reject unsigned tokens', async () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+      const payload = Buffer.from(JSON.stringify({ sub: 'user-1' })).toString('base64url');
+
+      await expect(verifyAccessToken(`${header}.${payload}.`, config)).resolves.toBeNull();
+    });
+
+    it('should reject expired tokens beyond the clock tolerance', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(
+        verifyAccessToken(await sign(secretKey, 'HS256', { expiresIn: now - 10 }), config)
+      ).resolves.not.toBeNull();
+      await expect(
+        verifyAccessToken(await sign(secretKey, 'HS256', { expiresIn: now - 60 }), config)
+      ).resolves.toBeNull();
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(verifyAccessToken('not-a-jwt', config)).resolves.toBeNull();
+    });
+  });
+
+  describe('Issuer and audience', () => {
+    const config = {
+      ...baseConfig,
+      secret: SECRET,
+      issuer: 'https://auth.example.com',
+      audience: ['catchup-feed', 'catchup-feed-admin'],
+    };
+
+    it('should accept tokens with the expected issuer and an expected audience', async () => {
+      const token = await sign(secretKey, 'HS256', {
+        claims: { iss: 'https://auth.example.com', aud: 'catchup-feed' },
+      });
+
+      await expect(verifyAccessToken(token, config)).resolves.not.toBeNull();
+    });
+
+    it('should reject tokens from another issuer', async () => {
+      const token = await sign(secretKey, 'HS256', {
+        claims: { iss: 'https://evil.example.com', aud: 'catchup-feed' },
+      });
+
+      await expect(verifyAccessToken(token, config)).resolves.toBeNull();
+    });
+
+    it('should reject tokens for another audience', async () => {
+      const token = await sign(secretKey, 'HS256', {
+        claims: { iss: 'https://auth.example.com', aud: 'another-app' },
+      });
+
+      await expect(verifyAccessToken(token, config)).resolves.toBeNull();
+    });
+  });
+
+  describe('Configured JWKS', () => {
+    let rsaKey: Awaited<ReturnType<typeof createKey>>;
+    let ecKey: Awaited<ReturnType<typeof createKey>>;
+    let config: JwtVerificationConfig;
+
+    beforeAll(async () => {
+      rsaKey = await createKey('RS256', 'rsa-1');
+      ecKey = await createKey('ES256', 'ec-1');
+      config = { ...baseConfig, jwks: JSON.stringify({ keys: [rsaKey.jwk, ecKey.jwk] }) };
+    });
+
+    it('should accept RS256 and ES256 tokens signed with a listed key', async () => {
+      const rsaToken = await sign(rsaKey.privateKey, 'RS256', { kid: 'rsa-1' });
+      const ecToken = await sign(ecKey.privateKey, 'ES256', { kid: 'ec-1' });
+
+      await expect(verifyAccessToken(rsaToken, config)).resolves.toMatchObject({ sub: 'user-1' });
+      await expect(verifyAccessToken(ecToken, config)).resolves.toMatchObject({ sub: 'user-1' });
+    });
+
+    it('should reject tokens signed with an unlisted key', async () => {
+      const other = await createKey('RS256', 'rsa-1');
+      const token = await sign(other.privateKey, 'RS256', { kid: 'rsa-1' });
+
+      await expect(verifyAccessToken(token, config)).resolves.toBeNull();
+    });
+
+    it('should reject HMAC tokens when no secret is configured', async () => {
+      // Guards against signing with a public key as an HMAC secret
+      const token = await sign(new TextEncoder().encode(config.jwks!), 'HS256', {
+        kid: 'rsa-1',
+      });
+
+      await expect(verifyAccessToken(token, config)).resolves.toBeNull();
+    });
+  });
+
+  describe('Remote JWKS', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function stubJwksEndpoint(getKeys: () => JWK[]) {
+      const fetchMock = vi.fn(
+        async () =>
+          new Response(JSON.stringify({ keys: getKeys() }), {
+            headers: { 'Content-Type': 'application/json' },
+          })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('should cache the key set between verifications', async () => {
+      const key = await createKey('ES256', 'cached-1');
+      const fetchMock = stubJwksEndpoint(() => [key.jwk]);
+      const config = { ...baseConfig, jwksUrl: 'https://auth.example.com/cache/jwks.json' };
+
+      const token = await sign(key.privateKey, 'ES256', { kid: 'cached-1' });
+      await expect(verifyAccessToken(token, config)).resolves.not.toBeNull();
+      await expect(verifyAccessToken(token, config)).resolves.not.toBeNull();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch the key set again when keys are rotated', async () => {
+      const oldKey = await createKey('RS256', 'old');
+      const newKey = await createKey('RS256', 'new');
+      let keys = [oldKey.jwk];
+      const fetchMock = stubJwksEndpoint(() => keys);
+      const config = { ...baseConfig, jwksUrl: 'https://auth.example.com/rotation/jwks.json' };
+
+      await expect(
+        verifyAccessToken(await sign(oldKey.privateKey, 'RS256', { kid: 'old' }), config)
+      ).resolves.not.toBeNull();
+
+      keys = [newKey.jwk];
+      await expect(
+        verifyAccessToken(await sign(newKey.privateKey, 'RS256', { kid: 'new' }), config)
+      ).resolves.not.toBeNull();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject tokens when the key set cannot be fetched', async () => {
+      const key = await createKey('RS256', 'unreachable');
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => {
+          throw new TypeError('fetch failed');
+        })
+      );
+      const config = { ...baseConfig, jwksUrl: 'https://auth.example.com/down/jwks.json' };
+
+      await expect(
+        verifyAccessToken(await sign(key.privateKey, 'RS256', { kid: 'unreachable' }), config)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('Without a configured key', () => {
+    it('should reject tokens by default', async () => {
+      const token = await sign(secretKey, 'HS256');
+
+      await expect(verifyAccessToken(token, baseConfig)).resolves.toBeNull();
+    });
+
+    it('should check only the expiry when unverified tokens are allowed', async () => {
+      const config = { ...baseConfig, allowUnverified: true };
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(
+        verifyAccessToken(await sign(secretKey, 'HS256'), config)
+      ).resolves.not.toBeNull();
+      await expect(
+        verifyAccessToken(await sign(secretKey, 'HS256', { expiresIn: now - 60 }), config)
+      ).resolves.toBeNull();
+    });
+  });
+});
+
+describe('getJwtAlgorithms', () => {
+  it('should default to the algorithms of the configured keys', () => {
+    expect(getJwtAlgorithms({ ...baseConfig, secret: SECRET })).toEqual(['HS256']);
+    expect(getJwtAlgorithms({ ...baseConfig, jwksUrl: 'https://auth.example.com/jwks' })).toEqual([
+      'RS256',
+      'ES256',
+    ]);
+  });
+
+  it('should use the configured algorithms', () => {
+    expect(getJwtAlgorithms({ ...baseConfig, secret: SECRET, algorithms: ['HS512'] })).toEqual([
+      'HS512',
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { clearLocalSession, purgeUserCaches } from '../logout';
+import { clearAllTokens } from '@/lib/auth/TokenManager';
+import { clearCsrfToken } from '@/lib/security/CsrfTokenManager';
+import { clearUserContext } from '@/lib/observability';
+import { OfflineArticleStore, getOfflineIndexStorageKey } from '@/lib/offline/OfflineArticleStore';
+import { ReadStateManager, getReadStateManager } from '@/lib/reading/ReadStateManager';
+
+vi.mock('@/lib/auth/TokenManager', () => ({
+  clearAllTokens: vi.fn(),
+  getAuthToken: vi.fn(() => null),
+}));
+
+vi.mock('@/lib/security/CsrfTokenManager', () => ({
+  clearCsrfToken: vi.fn(),
+}));
+
+vi.mock('@/lib/observability', () => ({
+  clearUserContext: vi.fn(),
+}));
+
+describe('logout', () => {
+  const cacheStorage = { delete: vi.fn(), keys: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    OfflineArticleStore.resetInstance();
+    ReadStateManager.resetInstance();
+    cacheStorage.delete.mockResolvedValue(true);
+    cacheStorage.keys.mockResolvedValue([
+      'api-cache',
+      'image-cache',
+      'offline-articles',
+      'offline-articles:user-1',
+      'offline-articles:user-2',
+    ]);
+    vi.stubGlobal('caches', cacheStorage);
+  });
+
+  afterEach(() => {
+    OfflineArticleStore.resetInstance();
+    ReadStateManager.resetInstance();
+    vi.unstubAllGlobals();
+  });
+
+  describe('purgeUserCaches', () => {
+    it('should delete the API cache', async () => {
+      await purgeUserCaches();
+
+      expect(cacheStorage.delete).toHaveBeenCalledWith('api-cache');
+      expect(cacheStorage.delete).not.toHaveBeenCalledWith('image-cache');
+    });
+
+    it('should delete the offline articles caches and indexes', async () => {
+      localStorage.setItem(
+        getOfflineIndexStorageKey('user-1'),
+        JSON.stringify({ version: 1, entries: [] })
+      );
+
+      await purgeUserCaches();
+
+      expect(cacheStorage.delete).toHaveBeenCalledWith('offline-articles');
+      expect(cacheStorage.delete).toHaveBeenCalledWith('offline-articles:user-1');
+      expect(cacheStorage.delete).toHaveBeenCalledWith('offline-articles:user-2');
+      expect(localStorage.getItem(getOfflineIndexStorageKey('user-1'))).toBeNull();
+    });
+
+    it('should not throw when Cache Storage fails', async () => {
+      cacheStorage.delete.mockRejectedValue(new Error('SecurityError'));
+
+      await expect(purgeUserCaches()).resolves.toBeUndefined();
+    });
+
+    it('should do nothing without Cache Storage', async () => {
+      vi.stubGlobal('caches', undefined);
+
+      await expect(purgeUserCaches()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('clearLocalSession', () => {
+    it('should clear all session state of the tab', async () => {
+      const queryClient = new QueryClient();
+      queryClient.setQueryData(['articles'], [{ id: 1 }]);
+      document.cookie = 'catchup_feed_auth_token=token; path=/';
+
+      await clearLocalSession(queryClient);
+
+      expect(clearAllTokens).toHaveBeenCalled();
+      expect(clearCsrfToken).toHaveBeenCalled();
+      expect(clearUserContext).toHaveBeenCalled();
+      expect(queryClient.getQueryData(['articles'])).toBeUndefined();
+      expect(document.cookie).not.toContain('catchup_feed_auth_token=token');
+      expect(cacheStorage.delete).toHaveBeenCalledWith('api-cache');
+    });
+
+    it('should drop the read state of the user from the tab', async () => {
+      const readState = getReadStateManager();
+      readState.setUser('user-1');
+      readState.markRead(1);
+
+      await clearLocalSession();
+
+      expect(readState.getUserId()).toBeNull();
+      expect(readState.isRead(1)).toBe(false);
+    });
+  });
+});
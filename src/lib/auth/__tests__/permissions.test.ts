@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getRoleFromClaims, getRoutePermission, hasPermission } from '../permissions';
+
+describe('Permissions', () => {
+  describe('hasPermission', () => {
+    it('should grant every source permission to admins', () => {
+      expect(hasPermission('admin', 'source:create')).toBe(true);
+      expect(hasPermission('admin', 'source:import')).toBe(true);
+      expect(hasPermission('admin', 'source:update')).toBe(true);
+      expect(hasPermission('admin', 'source:delete')).toBe(true);
+      expect(hasPermission('admin', 'source:view-health')).toBe(true);
+    });
+
+    it('should not grant source permissions to users', () => {
+      expect(hasPermission('user', 'source:create')).toBe(false);
+      expect(hasPermission('user', 'source:delete')).toBe(false);
+      expect(hasPermission('user', 'source:view-health')).toBe(false);
+    });
+
+    it('should not grant anything without a role', () => {
+      expect(hasPermission(null, 'source:update')).toBe(false);
+    });
+  });
+
+  describe('getRoutePermission', () => {
+    it('should return the permission of admin-only pages and their subpages', () => {
+      expect(getRoutePermission('/sources/health')).toBe('source:view-health');
+      expect(getRoutePermission('/sources/health/details')).toBe('source:view-health');
+    });
+
+    it('should return null for pages open to every signed-in user', () => {
+      expect(getRoutePermission('/sources')).toBeNull();
+      expect(getRoutePermission('/sources/42')).toBeNull();
+      expect(getRoutePermission('/sources/healthy')).toBeNull();
+      expect(getRoutePermission('/dashboard')).toBeNull();
+    });
+  });
+
+  describe('getRoleFromClaims', () => {
+    it('should read the role claim', () => {
+      expect(getRoleFromClaims({ sub: 'user123', role: 'admin' })).toBe('admin');
+      expect(getRoleFromClaims({ sub: 'user123', role: 'user' })).toBe('user');
+    });
+
+    it('should default to "user" when the role claim is missing or unknown', () => {
+      expect(getRoleFromClaims({ sub: 'user123' })).toBe('user');
+      expect(getRoleFromClaims({ sub: 'user123', role: 'superadmin' })).toBe('user');
+      expect(getRoleFromClaims({ sub: 'user123', role: ['admin'] })).toBe('user');
+    });
+  });
+});
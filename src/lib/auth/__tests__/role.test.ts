@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getUserRole, isAdmin } from '../role';
+import { getUserRole, getUserId, isAdmin } from '../role';
 import * as tokenUtils from '../token';
+import { appConfig } from '@/config/app.config';
 
 describe('Role Utilities', () => {
   beforeEach(() => {
@@ -282,6 +283,37 @@ describe('Role Utilities', () => {
     });
   });
 
+  describe('getUserId', () => {
+    it('should return the sub claim as the user ID', () => {
+      vi.mocked(tokenUtils.getAuthToken).mockReturnValue('valid-token');
+      vi.mocked(tokenUtils.decodeJWTPayload).mockReturnValue({ sub: 'user123' });
+
+      expect(getUserId()).toBe('user123');
+    });
+
+    it('should fall back to user_id and id claims', () => {
+      vi.mocked(tokenUtils.getAuthToken).mockReturnValue('valid-token');
+      vi.mocked(tokenUtils.decodeJWTPayload).mockReturnValue({ user_id: 42 });
+      expect(getUserId()).toBe('42');
+
+      vi.mocked(tokenUtils.decodeJWTPayload).mockReturnValue({ id: 7 });
+      expect(getUserId()).toBe('7');
+    });
+
+    it('should return null when token is missing', () => {
+      vi.mocked(tokenUtils.getAuthToken).mockReturnValue(null);
+
+      expect(getUserId()).toBeNull();
+    });
+
+    it('should return null when token has no ID claim', () => {
+      vi.mocked(tokenUtils.getAuthToken).mockReturnValue('valid-token');
+      vi.mocked(tokenUtils.decodeJWTPayload).mockReturnValue({ role: 'user' });
+
+      expect(getUserId()).toBeNull();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle concurrent calls to getUserRole', () => {
       // Arrange
@@ -334,6 +366,34 @@ describe('Role Utilities', () => {
     });
   });
 
+  describe('Cookie session mode', () => {
+    beforeEach(() => {
+      appConfig.auth.sessionMode = 'cookie';
+    });
+
+    afterEach(() => {
+      appConfig.auth.sessionMode = 'token';
+      document.cookie = 'catchup_feed_session=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+    });
+
+    it('should read the role and user ID from the session claims cookie', () => {
+      // Arrange
+      const claims = { sub: 'user123', role: 'admin' };
+      document.cookie = `catchup_feed_session=${encodeURIComponent(JSON.stringify(claims))}; path=/`;
+
+      // Act & Assert
+      expect(getUserRole()).toBe('admin');
+      expect(getUserId()).toBe('user123');
+      expect(tokenUtils.getAuthToken).not.toHaveBeenCalled();
+    });
+
+    it('should return null without a session', () => {
+      // Act & Assert
+      expect(getUserRole()).toBeNull();
+      expect(getUserId()).toBeNull();
+    });
+  });
+
   describe('Security Considerations', () => {
     it('should not trust frontend role for actual authorization', () => {
       // This test documents that frontend role is for UI only
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getSessionClaims, isSessionExpiringSoon } from '../session';
+
+function setSessionCookie(value: string) {
+  document.cookie = `catchup_feed_session=${value}; path=/`;
+}
+
+describe('Cookie Session', () => {
+  afterEach(() => {
+    document.cookie = 'catchup_feed_session=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  });
+
+  describe('getSessionClaims', () => {
+    it('should read the claims from the session cookie', () => {
+      setSessionCookie(encodeURIComponent(JSON.stringify({ sub: 'user-1', role: 'admin' })));
+
+      expect(getSessionClaims()).toEqual({ sub: 'user-1', role: 'admin' });
+    });
+
+    it('should return null when signed out', () => {
+      expect(getSessionClaims()).toBeNull();
+    });
+
+    it('should return null for a malformed cookie', () => {
+      setSessionCookie('not-json');
+
+      expect(getSessionClaims()).toBeNull();
+    });
+  });
+
+  describe('isSessionExpiringSoon', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    it('should be true within the refresh threshold', () => {
+      setSessionCookie(encodeURIComponent(JSON.stringify({ exp: now() + 60 })));
+
+      expect(isSessionExpiringSoon(300)).toBe(true);
+    });
+
+    it('should be true once the access token has expired', () => {
+      setSessionCookie(encodeURIComponent(JSON.stringify({ exp: now() - 60 })));
+
+      expect(isSessionExpiringSoon(300)).toBe(true);
+    });
+
+    it('should be false far from expiry or without a session', () => {
+      expect(isSessionExpiringSoon(300)).toBe(false);
+
+      setSessionCookie(encodeURIComponent(JSON.stringify({ exp: now() + 3600 })));
+      expect(isSessionExpiringSoon(300)).toBe(false);
+    });
+  });
+});
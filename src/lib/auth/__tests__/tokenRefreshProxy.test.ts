@@ -0,0 +1,114 @@
+/**
+ * Token Refresh and Proxy Integration Tests
+ *
+ * The proxy verifies the access token cookie, so a background refresh has to
+ * update the cookie too: otherwise navigation redirects to /login once the
+ * token the cookie was set with expires.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { proxy } from '@/proxy';
+import { apiClient } from '@/lib/api/client';
+import { appConfig } from '@/config/app.config';
+import { verifyAccessToken } from '@/lib/auth/jwtVerifier';
+import { decodeJWTPayload } from '@/lib/auth/token';
+import { clearAllTokens, setAuthToken, setRefreshToken } from '@/lib/auth/TokenManager';
+import { TokenRefreshScheduler } from '@/lib/auth/TokenRefreshScheduler';
+
+vi.mock('@/lib/api/client', () => ({
+  apiClient: {
+    post: vi.fn(),
+  },
+}));
+
+// Signature checks are covered in jwtVerifier.test.ts; only the expiry matters here
+vi.mock('@/lib/auth/jwtVerifier', () => ({
+  verifyAccessToken: vi.fn(),
+}));
+
+/**
+ * Unsigned JWT expiring at `exp` (Unix timestamp in seconds)
+ */
+function createToken(exp: number): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: '1', role: 'user', exp })}.sig`;
+}
+
+/**
+ * Read the access token cookie the proxy verifies
+ */
+function getAuthTokenCookie(): string | undefined {
+  const prefix = `${appConfig.auth.accessTokenKey}=`;
+  return document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+/**
+ * Navigate to a protected page with the current cookie
+ */
+function navigate(): ReturnType<typeof proxy> {
+  const request = new NextRequest('http://localhost:3000/dashboard');
+  const token = getAuthTokenCookie();
+  if (token) {
+    request.cookies.set(appConfig.auth.accessTokenKey, token);
+  }
+  return proxy(request);
+}
+
+describe('Token refresh and proxy', () => {
+  let originalToken: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    TokenRefreshScheduler.resetInstance();
+
+    vi.mocked(verifyAccessToken).mockImplementation(async (token) => {
+      const payload = decodeJWTPayload(token);
+      const exp = Number(payload?.exp);
+      return payload && exp > Math.floor(Date.now() / 1000) ? payload : null;
+    });
+    vi.mocked(apiClient.post).mockImplementation(async () => ({
+      token: createToken(Math.floor(Date.now() / 1000) + 900),
+      refresh_token: 'new-refresh-token',
+    }));
+
+    originalToken = createToken(Math.floor(Date.now() / 1000) + 600);
+    setAuthToken(originalToken);
+    setRefreshToken('refresh-token');
+  });
+
+  afterEach(() => {
+    TokenRefreshScheduler.resetInstance();
+    clearAllTokens();
+    document.cookie = `${appConfig.auth.accessTokenKey}=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+    vi.useRealTimers();
+  });
+
+  it('should keep pages loading past the expiry of the original token', async () => {
+    expect(getAuthTokenCookie()).toBe(originalToken);
+
+    TokenRefreshScheduler.getInstance().start();
+    await vi.advanceTimersByTimeAsync(700_000);
+
+    expect(apiClient.post).toHaveBeenCalledWith('/auth/refresh', expect.anything(), {
+      requiresAuth: false,
+      retry: false,
+    });
+    expect(getAuthTokenCookie()).not.toBe(originalToken);
+
+    const response = await navigate();
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('should redirect to login once the cookie token has expired', async () => {
+    await vi.advanceTimersByTimeAsync(700_000);
+
+    const response = await navigate();
+    expect(response.headers.get('location')).toContain('/login');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Access Token Verification
+ *
+ * Verifies access token signatures and claims for route protection in the
+ * proxy (Edge runtime). Supports HS256 tokens signed with a shared secret and
+ * RS256/ES256 tokens signed with keys from a configured or remote JSON Web
+ * Key Set (JWKS).
+ *
+ * Remote key sets are cached for `jwksCacheMaxAge` and fetched again when a
+ * token names an unknown key ID, so rotated keys are picked up without a
+ * restart (at most once per `jwksCooldown`).
+ *
+ * @module lib/auth/jwtVerifier
+ */
+
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeJwt,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import { appConfig, type JwtVerificationConfig } from '@/config/app.config';
+import { logger } from '@/lib/logger';
+
+/**
+ * Default algorithms for shared secrets
+ */
+const SECRET_ALGORITHMS = ['HS256'];
+
+/**
+ * Default algorithms for key sets
+ */
+const KEY_SET_ALGORITHMS = ['RS256', 'ES256'];
+
+/**
+ * Key set resolvers, kept across requests so remote keys stay cached
+ */
+const keySetCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Get the key set resolver for the configured JWKS
+ *
+ * A configured key set takes precedence over a remote one.
+ */
+function getKeySet(config: JwtVerificationConfig): JWTVerifyGetKey | null {
+  const cacheKey = config.jwks
+    ? `local:${config.jwks}`
+    : config.jwksUrl
+      ? `remote:${config.jwksUrl}:${config.jwksCacheMaxAge}:${config.jwksCooldown}`
+      : null;
+  if (!cacheKey) {
+    return null;
+  }
+
+  let keySet = keySetCache.get(cacheKey);
+  if (!keySet) {
+    keySet = config.jwks
+      ? createLocalJWKSet(JSON.parse(config.jwks) as JSONWebKeySet)
+      : createRemoteJWKSet(new URL(config.jwksUrl!), {
+          cacheMaxAge: config.jwksCacheMaxAge,
+          cooldownDuration: config.jwksCooldown,
+        });
+    keySetCache.set(cacheKey, keySet);
+  }
+  return keySet;
+}
+
+/**
+ * Check whether a verification key is configured
+ *
+ * @param config - JWT verification configuration
+ * @returns True if a secret or key set is configured
+ */
+export function hasJwtVerificationKey(config: JwtVerificationConfig): boolean {
+  return !!(config.secret || config.jwks || config.jwksUrl);
+}
+
+/**
+ * Get the accepted signature algorithms
+ *
+ * @param config - JWT verification configuration
+ * @returns Configured algorithms, or the defaults for the configured keys
+ */
+export function getJwtAlgorithms(config: JwtVerificationConfig): string[] {
+  if (config.algorithms.length > 0) {
+    return config.algorithms;
+  }
+  return [
+    ...(config.secret ? SECRET_ALGORITHMS : []),
+    ...(config.jwks || config.jwksUrl ? KEY_SET_ALGORITHMS : []),
+  ];
+}
+
+/**
+ * Check a token by its expiry only (no key configured)
+ */
+function decodeUnverified(token: string, config: JwtVerificationConfig): JWTPayload | null {
+  const payload = decodeJwt(token);
+  if (payload.exp && Date.now() >= (payload.exp + config.clockTolerance) * 1000) {
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * Verify an access token
+ *
+ * Checks the signature, `exp`/`nbf` (with clock tolerance) and, when
+ * configured, `iss` and `aud`. HMAC tokens are verified with the shared
+ * secret, all others with the key set.
+ *
+ * Without a configured key, tokens are rejected unless `allowUnverified` is
+ * set, in which case only their expiry is checked.
+ *
+ * @param token - JWT access token
+ * @param config - JWT verification configuration (defaults to appConfig.auth.jwt)
+ * @returns Token payload, or null if the token is invalid
+ *
+ * @example
+ * ```typescript
+ * const token = request.cookies.get('catchup_feed_auth_token')?.value;
+ * const payload = token ? await verifyAccessToken(token) : null;
+ * if (!payload) {
+ *   return NextResponse.redirect(new URL('/login', request.url));
+ * }
+ * ```
+ */
+export async function verifyAccessToken(
+  token: string,
+  config: JwtVerificationConfig = appConfig.auth.jwt
+): Promise<JWTPayload | null> {
+  try {
+    if (!hasJwtVerificationKey(config)) {
+      if (config.allowUnverified) {
+        return decodeUnverified(token, config);
+      }
+      logger.error('No JWT verification key configured; rejecting access token', undefined, {
+        hint: 'Set AUTH_JWT_SECRET, AUTH_JWKS or AUTH_JWKS_URL',
+      });
+      return null;
+    }
+
+    const secret = config.secret ? new TextEncoder().encode(config.secret) : null;
+    const keySet = getKeySet(config);
+    const getKey: JWTVerifyGetKey = async (header, input) => {
+      if (header.alg?.startsWith('HS')) {
+        if (!secret) {
+          throw new Error('No shared secret configured for HMAC tokens');
+        }
+        return secret;
+      }
+      if (!keySet) {
+        throw new Error('No key set configured for asymmetric tokens');
+      }
+      return keySet(header, input);
+    };
+
+    const { payload } = await jwtVerify(token, getKey, {
+      algorithms: getJwtAlgorithms(config),
+      issuer: config.issuer ?? undefined,
+      audience: config.audience.length > 0 ? config.audience : undefined,
+      clockTolerance: config.clockTolerance,
+    });
+    return payload;
+  } catch (error) {
+    logger.debug('Access token verification failed', {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Local Session Cleanup
+ *
+ * Removes everything the signed-in user left behind in this tab: tokens, the
+ * CSRF token, the React Query cache, the error tracking user context, the
+ * loaded read state and the user-specific caches (API responses and offline
+ * articles). Run on logout and when another tab logs out.
+ *
+ * @module lib/auth/logout
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+import { appConfig } from '@/config/app.config';
+import { pwaConfig } from '@/config/pwa.config';
+import { logger } from '@/lib/logger';
+import { clearUserContext } from '@/lib/observability';
+import { clearAllTokens } from '@/lib/auth/TokenManager';
+import { isCookieSession } from '@/lib/auth/session';
+import { clearCsrfToken } from '@/lib/security/CsrfTokenManager';
+import { getOfflineArticleStore } from '@/lib/offline/OfflineArticleStore';
+import { getReadStateManager } from '@/lib/reading/ReadStateManager';
+
+/**
+ * Delete the caches holding the user's API responses and offline articles
+ *
+ * The API cache is shared by all tabs, so the next user must not be served
+ * the previous user's responses while offline. Offline articles (index and
+ * caches) are removed for every user of the device.
+ */
+export async function purgeUserCaches(): Promise<void> {
+  await getOfflineArticleStore().purgeAllUsers();
+
+  if (typeof caches === 'undefined') {
+    return;
+  }
+
+  try {
+    await caches.delete(pwaConfig.apiCacheName);
+  } catch (error) {
+    logger.warn('Failed to purge user caches', { error });
+  }
+}
+
+/**
+ * Clear the session state of this tab
+ *
+ * Does not revoke anything on the backend; see `logout()` in
+ * `@/lib/api/endpoints/auth` for the full flow.
+ *
+ * @param queryClient - React Query client whose cache to clear
+ */
+export async function clearLocalSession(queryClient?: QueryClient): Promise<void> {
+  clearAllTokens();
+  clearCsrfToken();
+
+  // The proxy reads the access token cookie; in the cookie session mode it is
+  // HttpOnly and cleared by the session route
+  if (!isCookieSession() && typeof document !== 'undefined') {
+    document.cookie = `${appConfig.auth.accessTokenKey}=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  }
+
+  queryClient?.clear();
+  clearUserContext();
+  // Read state stays stored per user; only drop it from this tab
+  getReadStateManager().setUser(null);
+  await purgeUserCaches();
+}
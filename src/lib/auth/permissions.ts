@@ -0,0 +1,91 @@
+/**
+ * Permissions
+ *
+ * Declarative authorization model: roles grant permissions, and admin-only
+ * pages and actions check a permission instead of the role itself.
+ *
+ * Used by the `useCan()` hook and `<Can>` component for UI affordances, and
+ * by the proxy for route-level enforcement. Edge-safe (no browser APIs).
+ *
+ * @remarks
+ * - Frontend checks are for UI convenience and page access ONLY
+ * - Backend MUST enforce authorization for every API call
+ *
+ * @module lib/auth/permissions
+ */
+
+import type { UserRole } from '@/lib/auth/role';
+
+/**
+ * Permissions, as `resource:action`
+ *
+ * - 'source:create': Add sources (form, feed discovery)
+ * - 'source:import': Import sources from OPML
+ * - 'source:update': Edit sources and activate/deactivate them
+ * - 'source:delete': Delete sources
+ * - 'source:view-health': View the source health page and stale sources card
+ */
+export type Permission =
+  | 'source:create'
+  | 'source:import'
+  | 'source:update'
+  | 'source:delete'
+  | 'source:view-health';
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<NonNullable<UserRole>, readonly Permission[]> = {
+  admin: ['source:create', 'source:import', 'source:update', 'source:delete', 'source:view-health'],
+  user: [],
+};
+
+/**
+ * Pages that require a permission (path prefixes)
+ */
+export const ROUTE_PERMISSIONS: readonly { path: string; permission: Permission }[] = [
+  { path: '/sources/health', permission: 'source:view-health' },
+];
+
+/**
+ * Check whether a role has a permission
+ *
+ * @param role - User role (null when signed out)
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ *
+ * @example
+ * ```typescript
+ * if (hasPermission(userRole, 'source:delete')) {
+ *   // Show the delete button
+ * }
+ * ```
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Get the permission a page requires
+ *
+ * @param pathname - Request path
+ * @returns Required permission, or null for pages open to every signed-in user
+ */
+export function getRoutePermission(pathname: string): Permission | null {
+  const route = ROUTE_PERMISSIONS.find(
+    ({ path }) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+  return route?.permission ?? null;
+}
+
+/**
+ * Get the role from access token claims
+ *
+ * Defaults to 'user' when the `role` claim is missing or unknown (fail-safe).
+ *
+ * @param claims - Decoded JWT payload
+ * @returns User role
+ */
+export function getRoleFromClaims(claims: Record<string, unknown>): NonNullable<UserRole> {
+  return claims.role === 'admin' ? 'admin' : 'user';
+}
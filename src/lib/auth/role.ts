@@ -1,11 +1,15 @@
 /**
  * User Role Utilities
  *
- * Provides functions for extracting and checking user roles from JWT tokens.
- * Roles are used for authorization and UI conditional rendering.
+ * Provides functions for extracting and checking user roles from JWT tokens
+ * (or, in the cookie session mode, from the session claims cookie).
+ * Roles grant permissions (see `@/lib/auth/permissions`), which are used for
+ * authorization and UI conditional rendering.
  */
 
 import { getAuthToken, decodeJWTPayload } from '@/lib/auth/token';
+import { getRoleFromClaims } from '@/lib/auth/permissions';
+import { getSessionClaims, isCookieSession } from '@/lib/auth/session';
 
 /**
  * User role type
@@ -16,6 +20,24 @@ import { getAuthToken, decodeJWTPayload } from '@/lib/auth/token';
  */
 export type UserRole = 'admin' | 'user' | null;
 
+/**
+ * Get the claims of the signed-in user
+ *
+ * @returns Access token payload, or the session claims in the cookie session mode
+ */
+function getCurrentClaims(): Record<string, unknown> | null {
+  if (isCookieSession()) {
+    return getSessionClaims() as Record<string, unknown> | null;
+  }
+
+  const token = getAuthToken();
+  if (!token) {
+    return null;
+  }
+
+  return decodeJWTPayload(token);
+}
+
 /**
  * Extract user role from JWT token
  *
@@ -36,30 +58,13 @@ export type UserRole = 'admin' | 'user' | null;
  * ```
  */
 export function getUserRole(): UserRole {
-  const token = getAuthToken();
-  if (!token) {
-    return null;
-  }
-
-  const payload = decodeJWTPayload(token);
+  const payload = getCurrentClaims();
   if (!payload) {
     return null;
   }
 
-  // Extract role from JWT payload
   // Default to 'user' if role field is missing (fail-safe)
-  const role = payload.role as string | undefined;
-
-  if (role === 'admin') {
-    return 'admin';
-  }
-
-  if (role === 'user') {
-    return 'user';
-  }
-
-  // Default to 'user' for any other value or missing role
-  return 'user';
+  return getRoleFromClaims(payload);
 }
 
 /**
@@ -82,3 +87,30 @@ export function getUserRole(): UserRole {
 export function isAdmin(): boolean {
   return getUserRole() === 'admin';
 }
+
+/**
+ * Extract the current user's ID from the JWT token
+ *
+ * @returns The user ID (`sub`, `user_id` or `id` claim), or null if unauthenticated
+ *
+ * @remarks
+ * - Used to scope client-side data (e.g. bookmarks) to the signed-in user
+ * - Returns null if the token is missing, invalid or has no ID claim
+ *
+ * @example
+ * ```typescript
+ * const userId = getUserId();
+ * if (userId) {
+ *   // Load data for this user
+ * }
+ * ```
+ */
+export function getUserId(): string | null {
+  const payload = getCurrentClaims();
+  if (!payload) {
+    return null;
+  }
+
+  const id = payload.sub ?? payload.user_id ?? payload.id;
+  return id === undefined || id === null || id === '' ? null : String(id);
+}
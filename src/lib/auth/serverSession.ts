@@ -0,0 +1,218 @@
+/**
+ * Server Session
+ *
+ * Server side of the cookie session mode, shared by the session route handlers
+ * and the BFF route. Sets and clears the session cookies and calls the backend.
+ *
+ * Cookies (all SameSite=Strict, Secure in production):
+ * - Access token (`accessTokenKey`): HttpOnly, read by the proxy and the BFF route
+ * - Refresh token (`refreshTokenKey`): HttpOnly, only sent to the session routes
+ * - Session claims (`sessionKey`): readable, see `@/lib/auth/session`
+ *
+ * @module lib/auth/serverSession
+ */
+
+import { decodeJwt } from 'jose';
+import { NextResponse, type NextRequest } from 'next/server';
+import { appConfig } from '@/config/app.config';
+import { logger } from '@/lib/logger';
+import type { SessionClaims } from '@/lib/auth/session';
+
+/**
+ * Path of the refresh token cookie, so it is only sent to the session routes
+ */
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Tokens issued by the backend
+ */
+interface SessionTokens {
+  token: string;
+  refresh_token?: string;
+}
+
+/**
+ * Get the seconds until a token expires
+ *
+ * Opaque tokens and tokens without `exp` last `sessionMaxAge`.
+ */
+function getTokenMaxAge(token: string): number {
+  try {
+    const { exp } = decodeJwt(token);
+    if (exp) {
+      return Math.max(0, exp - Math.floor(Date.now() / 1000));
+    }
+  } catch {
+    // Opaque token
+  }
+  return appConfig.auth.sessionMaxAge;
+}
+
+/**
+ * Get the cookie options for a session cookie
+ */
+function getCookieOptions(maxAge: number, httpOnly = true, path = '/') {
+  return {
+    httpOnly,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path,
+    maxAge,
+  };
+}
+
+/**
+ * Get the non-secret claims of an access token
+ *
+ * @param token - JWT access token
+ * @returns Session claims (empty when the token cannot be decoded)
+ */
+export function getSessionClaimsFromToken(token: string): SessionClaims {
+  try {
+    const payload = decodeJwt(token);
+    const id = payload.sub ?? payload.user_id ?? payload.id;
+    return {
+      sub: id === undefined || id === null ? undefined : String(id),
+      role: typeof payload.role === 'string' ? payload.role : undefined,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      exp: payload.exp,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Set the session cookies for tokens issued by the backend
+ *
+ * @param response - Response to set the cookies on
+ * @param tokens - Access token and, when issued, refresh token
+ * @returns The response
+ */
+export function setSessionCookies<T extends NextResponse>(response: T, tokens: SessionTokens): T {
+  const claims = getSessionClaimsFromToken(tokens.token);
+  const accessMaxAge = getTokenMaxAge(tokens.token);
+  const sessionMaxAge = tokens.refresh_token ? getTokenMaxAge(tokens.refresh_token) : accessMaxAge;
+
+  response.cookies.set(appConfig.auth.accessTokenKey, tokens.token, getCookieOptions(accessMaxAge));
+  if (tokens.refresh_token) {
+    response.cookies.set(
+      appConfig.auth.refreshTokenKey,
+      tokens.refresh_token,
+      getCookieOptions(sessionMaxAge, true, REFRESH_COOKIE_PATH)
+    );
+  }
+  response.cookies.set(
+    appConfig.auth.sessionKey,
+    JSON.stringify(claims),
+    getCookieOptions(sessionMaxAge, false)
+  );
+
+  return response;
+}
+
+/**
+ * Clear the session cookies
+ *
+ * @param response - Response to clear the cookies on
+ * @returns The response
+ */
+export function clearSessionCookies<T extends NextResponse>(response: T): T {
+  response.cookies.set(appConfig.auth.accessTokenKey, '', getCookieOptions(0));
+  response.cookies.set(
+    appConfig.auth.refreshTokenKey,
+    '',
+    getCookieOptions(0, true, REFRESH_COOKIE_PATH)
+  );
+  response.cookies.set(appConfig.auth.sessionKey, '', getCookieOptions(0, false));
+  return response;
+}
+
+/**
+ * Get the refresh token from the request cookies
+ */
+export function getRefreshTokenCookie(request: NextRequest): string | null {
+  return request.cookies.get(appConfig.auth.refreshTokenKey)?.value || null;
+}
+
+/**
+ * Get the access token from the request cookies
+ */
+export function getAccessTokenCookie(request: NextRequest): string | null {
+  return request.cookies.get(appConfig.auth.accessTokenKey)?.value || null;
+}
+
+/**
+ * Check that a request comes from this application
+ *
+ * The session routes are exempt from the proxy's CSRF check (there is no CSRF
+ * token before login), so they reject requests from other origins instead.
+ * Requests without an `Origin` header (non-browser clients) are allowed: they
+ * cannot carry a victim's cookies.
+ *
+ * @param request - Incoming request
+ * @returns True if the request has no origin or a same-origin one
+ */
+export function isSameOriginRequest(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    return true;
+  }
+  return origin === request.nextUrl.origin || origin === new URL(appConfig.app.baseUrl).origin;
+}
+
+/**
+ * Call the backend API
+ *
+ * @param path - Backend path (e.g. '/auth/token')
+ * @param init - Fetch options
+ * @returns Backend response
+ */
+export function fetchBackend(path: string, init: RequestInit): Promise<Response> {
+  return fetch(`${appConfig.api.baseUrl}${path}`, {
+    ...init,
+    cache: 'no-store',
+    signal: AbortSignal.timeout(appConfig.api.timeout),
+  });
+}
+
+/**
+ * Create an error response
+ *
+ * @param status - HTTP status
+ * @param error - Short error name
+ * @param message - User-facing message
+ */
+export function sessionErrorResponse(status: number, error: string, message: string) {
+  return NextResponse.json({ error, message }, { status });
+}
+
+/**
+ * Response for session routes when the cookie session mode is disabled
+ */
+export function sessionModeDisabledResponse() {
+  return sessionErrorResponse(404, 'Not found', 'Cookie sessions are not enabled');
+}
+
+/**
+ * Create a 502 response for a backend that could not be reached
+ *
+ * @param error - Fetch error
+ * @param path - Backend path
+ */
+export function backendUnavailableResponse(error: unknown, path: string) {
+  logger.error('Backend request failed', error as Error, { path });
+  return sessionErrorResponse(502, 'Bad gateway', 'The server could not be reached');
+}
+
+/**
+ * Pass a backend error response through
+ *
+ * @param upstream - Backend error response
+ */
+export async function forwardErrorResponse(upstream: Response) {
+  return new NextResponse(await upstream.text(), {
+    status: upstream.status,
+    headers: { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Cookie Session
+ *
+ * Client side of the cookie session mode (`appConfig.auth.sessionMode === 'cookie'`).
+ * The access and refresh tokens live in HttpOnly cookies set by the session
+ * routes, so scripts never see them. The routes also set a readable cookie with
+ * the non-secret session claims (user ID, role, expiry), which the UI uses for
+ * role checks and to refresh the session before it expires.
+ *
+ * @module lib/auth/session
+ */
+
+import { appConfig } from '@/config/app.config';
+
+/**
+ * Session route handlers (same origin)
+ */
+export const SESSION_ROUTES = {
+  login: '/api/auth/login',
+  refresh: '/api/auth/refresh',
+  logout: '/api/auth/logout',
+} as const;
+
+/**
+ * Base path of the BFF route that forwards API requests to the backend
+ */
+export const BFF_PATH = '/api/bff';
+
+/**
+ * Non-secret claims of the current session
+ *
+ * Same names as the access token claims, so role and user ID helpers work on both.
+ */
+export interface SessionClaims {
+  /** User ID */
+  sub?: string;
+  /** User role */
+  role?: string;
+  /** User email address */
+  email?: string;
+  /** Access token expiry (Unix timestamp in seconds) */
+  exp?: number;
+}
+
+/**
+ * Listeners notified when the session claims change
+ */
+const sessionListeners = new Set<() => void>();
+
+/**
+ * Check whether the cookie session mode is enabled
+ *
+ * @returns True if tokens are kept in HttpOnly cookies
+ */
+export function isCookieSession(): boolean {
+  return appConfig.auth.sessionMode === 'cookie';
+}
+
+/**
+ * Get the claims of the current session
+ *
+ * @returns Session claims, or null when signed out or outside the browser
+ */
+export function getSessionClaims(): SessionClaims | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const prefix = `${appConfig.auth.sessionKey}=`;
+  const cookie = document.cookie.split('; ').find((entry) => entry.startsWith(prefix));
+  if (!cookie) {
+    return null;
+  }
+
+  try {
+    const claims: unknown = JSON.parse(decodeURIComponent(cookie.slice(prefix.length)));
+    return claims && typeof claims === 'object' ? (claims as SessionClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Listen for session changes in this tab (login, refresh)
+ *
+ * @param listener - Called after the session claims cookie was updated
+ * @returns Function that removes the listener
+ */
+export function onSessionChange(listener: () => void): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+/**
+ * Tell listeners that the session route updated the session claims cookie
+ */
+export function notifySessionChange(): void {
+  sessionListeners.forEach((listener) => listener());
+}
+
+/**
+ * Check whether the session's access token expires within the refresh threshold
+ *
+ * Unlike `isTokenExpiringSoon()`, an expired access token counts as expiring:
+ * the refresh cookie outlives it, so the session can still be refreshed.
+ *
+ * @param threshold - Threshold in seconds (default from config)
+ * @returns True if the session should be refreshed
+ */
+export function isSessionExpiringSoon(threshold?: number): boolean {
+  const exp = getSessionClaims()?.exp;
+  if (!exp) {
+    return false;
+  }
+
+  const thresholdSeconds = threshold ?? appConfig.auth.tokenRefreshThreshold;
+  return exp - Math.floor(Date.now() / 1000) <= thresholdSeconds;
+}
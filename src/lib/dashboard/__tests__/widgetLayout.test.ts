@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addWidget,
+  getLayoutStorageKey,
+  loadDashboardLayout,
+  moveWidget,
+  removeWidget,
+  sanitizeLayout,
+  saveDashboardLayout,
+} from '../widgetLayout';
+
+const KNOWN_IDS = ['a', 'b', 'c', 'd'];
+
+describe('dashboard widget layout', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('addWidget', () => {
+    it('should append the widget', () => {
+      expect(addWidget(['a', 'b'], 'c')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should not add a widget twice', () => {
+      const layout = ['a', 'b'];
+      expect(addWidget(layout, 'a')).toBe(layout);
+    });
+  });
+
+  describe('removeWidget', () => {
+    it('should remove the widget', () => {
+      expect(removeWidget(['a', 'b', 'c'], 'b')).toEqual(['a', 'c']);
+    });
+
+    it('should ignore widgets that are not shown', () => {
+      expect(removeWidget(['a', 'b'], 'c')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('moveWidget', () => {
+    it('should move the widget by the offset', () => {
+      expect(moveWidget(['a', 'b', 'c'], 'c', -1)).toEqual(['a', 'c', 'b']);
+      expect(moveWidget(['a', 'b', 'c'], 'a', 1)).toEqual(['b', 'a', 'c']);
+      expect(moveWidget(['a', 'b', 'c', 'd'], 'a', 2)).toEqual(['b', 'c', 'a', 'd']);
+    });
+
+    it('should clamp moves to the ends of the layout', () => {
+      expect(moveWidget(['a', 'b', 'c'], 'b', -5)).toEqual(['b', 'a', 'c']);
+      expect(moveWidget(['a', 'b', 'c'], 'b', 5)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should count positions among the visible widgets only', () => {
+      expect(moveWidget(['a', 'b', 'c', 'd'], 'c', -1, ['a', 'c', 'd'])).toEqual([
+        'c',
+        'b',
+        'a',
+        'd',
+      ]);
+      expect(moveWidget(['a', 'b', 'c'], 'a', 1, ['a', 'c'])).toEqual(['c', 'b', 'a']);
+      expect(moveWidget(['a', 'b', 'c'], 'b', 1, ['a', 'c'])).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should return the same layout when nothing moves', () => {
+      const layout = ['a', 'b', 'c'];
+      expect(moveWidget(layout, 'a', -1)).toBe(layout);
+      expect(moveWidget(layout, 'c', 1)).toBe(layout);
+      expect(moveWidget(layout, 'x', 1)).toBe(layout);
+    });
+  });
+
+  describe('sanitizeLayout', () => {
+    it('should keep known, unique IDs in order', () => {
+      expect(sanitizeLayout(['c', 'retired', 'a', 'c', 42], KNOWN_IDS)).toEqual(['c', 'a']);
+    });
+
+    it('should reject values that are not layouts', () => {
+      expect(sanitizeLayout({ a: true }, KNOWN_IDS)).toBeNull();
+      expect(sanitizeLayout('a', KNOWN_IDS)).toBeNull();
+      expect(sanitizeLayout(null, KNOWN_IDS)).toBeNull();
+    });
+
+    it('should keep an empty layout', () => {
+      expect(sanitizeLayout([], KNOWN_IDS)).toEqual([]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should store layouts per user', () => {
+      saveDashboardLayout('user-1', ['b', 'a']);
+      saveDashboardLayout('user-2', ['c']);
+
+      expect(loadDashboardLayout('user-1', KNOWN_IDS)).toEqual(['b', 'a']);
+      expect(loadDashboardLayout('user-2', KNOWN_IDS)).toEqual(['c']);
+      expect(loadDashboardLayout(null, KNOWN_IDS)).toBeNull();
+    });
+
+    it('should store signed-out layouts under an anonymous key', () => {
+      saveDashboardLayout(null, ['d']);
+
+      expect(localStorage.getItem(getLayoutStorageKey(null))).toBe('["d"]');
+      expect(getLayoutStorageKey(null)).toBe('catchup_feed_dashboard_layout:anonymous');
+    });
+
+    it('should remove the stored layout when saving null', () => {
+      saveDashboardLayout('user-1', ['a']);
+      saveDashboardLayout('user-1', null);
+
+      expect(localStorage.getItem(getLayoutStorageKey('user-1'))).toBeNull();
+    });
+
+    it('should ignore corrupt stored layouts', () => {
+      localStorage.setItem(getLayoutStorageKey('user-1'), '{not json');
+
+      expect(loadDashboardLayout('user-1', KNOWN_IDS)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Dashboard Widget Layout
+ *
+ * Layout operations and persistence for the customizable dashboard.
+ *
+ * A layout is the ordered list of the widget IDs shown on the dashboard.
+ * Layouts are persisted per user in localStorage, so people sharing a browser
+ * keep their own dashboards. Stored layouts are sanitized against the widget
+ * registry on load: unknown (e.g. retired) and duplicate IDs are dropped.
+ *
+ * @module lib/dashboard/widgetLayout
+ */
+
+import { logger } from '@/lib/logger';
+
+/**
+ * Ordered IDs of the widgets shown on the dashboard
+ */
+export type DashboardLayout = readonly string[];
+
+/**
+ * Prefix of the localStorage keys holding the layouts (one key per user)
+ */
+export const DASHBOARD_LAYOUT_STORAGE_KEY_PREFIX = 'catchup_feed_dashboard_layout';
+
+// ============================================================================
+// Layout Operations
+// ============================================================================
+
+/**
+ * Add a widget at the end of a layout
+ *
+ * @param layout - Current layout
+ * @param id - Widget to add
+ * @returns New layout (the same layout if the widget is already shown)
+ */
+export function addWidget(layout: DashboardLayout, id: string): DashboardLayout {
+  return layout.includes(id) ? layout : [...layout, id];
+}
+
+/**
+ * Remove a widget from a layout
+ *
+ * @param layout - Current layout
+ * @param id - Widget to remove
+ * @returns New layout
+ */
+export function removeWidget(layout: DashboardLayout, id: string): DashboardLayout {
+  return layout.filter((widgetId) => widgetId !== id);
+}
+
+/**
+ * Move a widget within a layout
+ *
+ * Positions are counted among the visible widgets only; the others (e.g.
+ * widgets the current role cannot see) keep their place in the layout.
+ *
+ * @param layout - Current layout
+ * @param id - Widget to move
+ * @param offset - Number of positions to move (negative moves towards the start)
+ * @param visibleIds - Widgets shown on the dashboard (defaults to the whole layout)
+ * @returns New layout (the same layout if the widget is not shown or cannot move)
+ */
+export function moveWidget(
+  layout: DashboardLayout,
+  id: string,
+  offset: number,
+  visibleIds: readonly string[] = layout
+): DashboardLayout {
+  const visible = layout.filter((widgetId) => visibleIds.includes(widgetId));
+  const from = visible.indexOf(id);
+  const to = Math.min(Math.max(from + offset, 0), visible.length - 1);
+  if (from === -1 || from === to) {
+    return layout;
+  }
+
+  const reordered = visible.filter((widgetId) => widgetId !== id);
+  reordered.splice(to, 0, id);
+  let next = 0;
+  return layout.map((widgetId) =>
+    visibleIds.includes(widgetId) ? (reordered[next++] ?? widgetId) : widgetId
+  );
+}
+
+/**
+ * Sanitize a stored layout against the known widgets
+ *
+ * @param value - Parsed stored value
+ * @param knownIds - IDs of the registered widgets
+ * @returns Layout with known, unique IDs, or null if the value is not a layout
+ */
+export function sanitizeLayout(
+  value: unknown,
+  knownIds: readonly string[]
+): DashboardLayout | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const ids = value.filter((id): id is string => typeof id === 'string' && knownIds.includes(id));
+  return Array.from(new Set(ids));
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get the localStorage key of a user's layout
+ *
+ * @param userId - User ID, or null when signed out
+ * @returns Storage key
+ */
+export function getLayoutStorageKey(userId: string | null): string {
+  return `${DASHBOARD_LAYOUT_STORAGE_KEY_PREFIX}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Load a user's layout from localStorage
+ *
+ * @param userId - User ID, or null when signed out
+ * @param knownIds - IDs of the registered widgets
+ * @returns Stored layout, or null if none is stored or storage is unavailable
+ */
+export function loadDashboardLayout(
+  userId: string | null,
+  knownIds: readonly string[]
+): DashboardLayout | null {
+  try {
+    const stored = localStorage.getItem(getLayoutStorageKey(userId));
+    return stored ? sanitizeLayout(JSON.parse(stored), knownIds) : null;
+  } catch (error) {
+    logger.warn('Failed to load dashboard layout', { error });
+    return null;
+  }
+}
+
+/**
+ * Persist a user's layout to localStorage
+ *
+ * @param userId - User ID, or null when signed out
+ * @param layout - Layout to store, or null to restore the default layout
+ */
+export function saveDashboardLayout(userId: string | null, layout: DashboardLayout | null): void {
+  try {
+    const key = getLayoutStorageKey(userId);
+    if (layout) {
+      localStorage.setItem(key, JSON.stringify(layout));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    logger.warn('Failed to save dashboard layout', { error });
+  }
+}
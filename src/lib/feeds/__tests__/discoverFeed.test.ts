@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { discoverFeed, FeedDiscoveryError, isPrivateAddress } from '../discoverFeed';
+
+const RSS_FEED = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Fixture Blog</title>
+  <item><pubDate>Tue, 13 Oct 2026 10:00:00 GMT</pubDate></item>
+  <item><pubDate>Thu, 15 Oct 2026 10:00:00 GMT</pubDate></item>
+</channel></rss>`;
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'Fixture JSON',
+  items: [{ id: '1', date_published: '2026-10-01T00:00:00Z' }],
+});
+
+/**
+ * Local fixture server: path -> [status, headers, body]
+ */
+const routes: Record<string, [number, Record<string, string>, string]> = {
+  '/feed.xml': [200, { 'Content-Type': 'application/rss+xml' }, RSS_FEED],
+  '/feed.json': [200, { 'Content-Type': 'application/feed+json' }, JSON_FEED],
+  '/blog': [
+    200,
+    { 'Content-Type': 'text/html' },
+    '<html><head><link rel="alternate" type="application/rss+xml" href="/feed.xml"></head></html>',
+  ],
+  '/broken-links': [
+    200,
+    { 'Content-Type': 'text/html' },
+    `<html><head>
+      <link rel="alternate" type="application/atom+xml" href="/missing.xml">
+      <link rel="alternate" type="application/feed+json" href="/feed.json">
+    </head></html>`,
+  ],
+  '/no-feed': [200, { 'Content-Type': 'text/html' }, '<html><head></head></html>'],
+  '/plain': [200, { 'Content-Type': 'text/plain' }, 'hello'],
+  '/moved': [301, { Location: '/feed.xml' }, ''],
+  '/loop': [302, { Location: '/loop' }, ''],
+  '/large': [200, { 'Content-Type': 'application/rss+xml' }, RSS_FEED + ' '.repeat(2048)],
+};
+
+/**
+ * Responses whose body never ends: path -> [status, headers]
+ */
+const streamingRoutes: Record<string, [number, Record<string, string>]> = {
+  '/streaming-error': [500, { 'Content-Type': 'text/html' }],
+  '/streaming-redirect': [302, { Location: '/feed.xml' }],
+};
+
+/**
+ * Paths whose streaming response was closed by the client
+ */
+const closedStreams = new Set<string>();
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const streamingRoute = streamingRoutes[request.url ?? ''];
+    if (streamingRoute) {
+      response.on('close', () => closedStreams.add(request.url ?? ''));
+      response.writeHead(...streamingRoute).write('<html>');
+      return;
+    }
+
+    const route = routes[request.url ?? ''];
+    if (!route) {
+      response.writeHead(404).end('Not found');
+      return;
+    }
+    const [status, headers, body] = route;
+    response.writeHead(status, headers).end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const options = { allowPrivateHosts: true };
+
+async function expectDiscoveryError(promise: Promise<unknown>, code: string) {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(FeedDiscoveryError);
+  expect((error as FeedDiscoveryError).code).toBe(code);
+}
+
+describe('discoverFeed', () => {
+  it('should preview a feed URL', async () => {
+    await expect(discoverFeed(`${baseUrl}/feed.xml`, options)).resolves.toEqual({
+      feedURL: `${baseUrl}/feed.xml`,
+      format: 'rss',
+      title: 'Fixture Blog',
+      itemCount: 2,
+      latestItemDate: '2026-10-15T10:00:00.000Z',
+      discovered: false,
+    });
+  });
+
+  it('should discover the feed linked from an HTML page', async () => {
+    const preview = await discoverFeed(`${baseUrl}/blog`, options);
+    expect(preview.feedURL).toBe(`${baseUrl}/feed.xml`);
+    expect(preview.title).toBe('Fixture Blog');
+    expect(preview.discovered).toBe(true);
+  });
+
+  it('should try the next linked feed when one cannot be read', async () => {
+    const preview = await discoverFeed(`${baseUrl}/broken-links`, options);
+    expect(preview.feedURL).toBe(`${baseUrl}/feed.json`);
+    expect(preview.format).toBe('json');
+  });
+
+  it('should follow redirects and report the final URL', async () => {
+    const preview = await discoverFeed(`${baseUrl}/moved`, options);
+    expect(preview.feedURL).toBe(`${baseUrl}/feed.xml`);
+    expect(preview.discovered).toBe(false);
+  });
+
+  it('should reject pages and documents that are not feeds', async () => {
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/no-feed`, options), 'NOT_A_FEED');
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/plain`, options), 'NOT_A_FEED');
+  });
+
+  it('should fail on error statuses, redirect loops and oversized responses', async () => {
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/missing`, options), 'FETCH_FAILED');
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/loop`, options), 'FETCH_FAILED');
+    await expectDiscoveryError(
+      discoverFeed(`${baseUrl}/large`, { ...options, maxBytes: 1024 }),
+      'FETCH_FAILED'
+    );
+  });
+
+  it('should release the connection of responses whose body is not read', async () => {
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/streaming-error`, options), 'FETCH_FAILED');
+    await expect(discoverFeed(`${baseUrl}/streaming-redirect`, options)).resolves.toMatchObject({
+      feedURL: `${baseUrl}/feed.xml`,
+    });
+
+    await vi.waitFor(() => {
+      expect(closedStreams).toEqual(new Set(['/streaming-error', '/streaming-redirect']));
+    });
+  });
+
+  it('should reject URLs that are not http(s)', async () => {
+    await expectDiscoveryError(discoverFeed('not a url'), 'INVALID_URL');
+    await expectDiscoveryError(discoverFeed('ftp://example.com/feed.xml'), 'INVALID_URL');
+  });
+
+  it('should refuse private hosts unless allowed', async () => {
+    await expectDiscoveryError(discoverFeed(`${baseUrl}/feed.xml`), 'FORBIDDEN_HOST');
+    await expectDiscoveryError(discoverFeed('http://[::1]/feed.xml'), 'FORBIDDEN_HOST');
+    await expectDiscoveryError(discoverFeed('http://[::ffff:7f00:1]/feed.xml'), 'FORBIDDEN_HOST');
+  });
+
+  it('should refuse host names resolving to private addresses when connecting', async () => {
+    const { port } = new URL(baseUrl);
+    await expectDiscoveryError(discoverFeed(`http://localhost:${port}/feed.xml`), 'FORBIDDEN_HOST');
+  });
+
+  it('should not reveal why a fetch failed', async () => {
+    const errors = await Promise.all(
+      [`${baseUrl}/missing`, `${baseUrl}/loop`, 'http://127.0.0.1:1/feed.xml'].map((url) =>
+        discoverFeed(url, options).catch((caught: unknown) => caught)
+      )
+    );
+
+    expect(new Set(errors.map((error) => (error as FeedDiscoveryError).message))).toEqual(
+      new Set(['The URL could not be fetched'])
+    );
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0'])(
+    'should treat %s as private',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each([
+    '::',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    'ff02::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '::ffff:0a00:0001',
+    '::7f00:1',
+    '::127.0.0.1',
+    '[::ffff:c0a8:101]',
+    '64:ff9b::5db8:d822',
+    '64:ff9b::7f00:1',
+    '2002:5db8:d822::1',
+    '2002::',
+  ])('should treat IPv6 %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '93.184.216.34',
+    '172.32.0.1',
+    '2606:4700::1111',
+    '::ffff:5db8:d822',
+    '::ffff:93.184.216.34',
+    '64:ff9c::1',
+  ])('should treat %s as public', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
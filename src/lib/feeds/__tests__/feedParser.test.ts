@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { detectFeed, findAlternateFeedLinks, isHtmlDocument } from '../feedParser';
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title><![CDATA[Tech <Blog> & News]]></title>
+    <link>https://tech.example.com</link>
+    <item>
+      <title>First post</title>
+      <pubDate>Mon, 12 Oct 2026 09:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Second post</title>
+      <pubDate>Wed, 14 Oct 2026 18:30:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Undated post</title>
+    </item>
+  </channel>
+</rss>`;
+
+const RDF_FEED = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://rdf.example.com/">
+    <title>RDF Site</title>
+    <items><rdf:Seq><rdf:li rdf:resource="https://rdf.example.com/1"/></rdf:Seq></items>
+  </channel>
+  <item rdf:about="https://rdf.example.com/1">
+    <title>Only item</title>
+    <dc:date>2026-10-01T08:00:00Z</dc:date>
+  </item>
+</rdf:RDF>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<!-- <rss> in a comment is ignored -->
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text">Atom &amp; Eve</title>
+  <updated>2026-10-15T00:00:00Z</updated>
+  <entry>
+    <title>Entry one</title>
+    <published>2026-10-10T10:00:00Z</published>
+  </entry>
+  <entry>
+    <title>Entry two</title>
+    <updated>2026-10-13T10:00:00+02:00</updated>
+  </entry>
+</feed>`;
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'JSON Blog',
+  items: [
+    { id: '1', date_published: '2026-10-01T00:00:00Z' },
+    { id: '2', date_modified: '2026-10-05T12:00:00Z' },
+  ],
+});
+
+describe('feedParser', () => {
+  describe('detectFeed', () => {
+    it('should read an RSS 2.0 feed', () => {
+      expect(detectFeed(RSS_FEED, 'application/rss+xml')).toEqual({
+        format: 'rss',
+        title: 'Tech <Blog> & News',
+        itemCount: 3,
+        latestItemDate: '2026-10-14T18:30:00.000Z',
+      });
+    });
+
+    it('should read an RSS 1.0 (RDF) feed as RSS', () => {
+      expect(detectFeed(RDF_FEED)).toEqual({
+        format: 'rss',
+        title: 'RDF Site',
+        itemCount: 1,
+        latestItemDate: '2026-10-01T08:00:00.000Z',
+      });
+    });
+
+    it('should read an Atom feed', () => {
+      expect(detectFeed(ATOM_FEED, 'text/xml')).toEqual({
+        format: 'atom',
+        title: 'Atom & Eve',
+        itemCount: 2,
+        latestItemDate: '2026-10-13T08:00:00.000Z',
+      });
+    });
+
+    it('should read a JSON Feed', () => {
+      expect(detectFeed(JSON_FEED, 'application/feed+json')).toEqual({
+        format: 'json',
+        title: 'JSON Blog',
+        itemCount: 2,
+        latestItemDate: '2026-10-05T12:00:00.000Z',
+      });
+    });
+
+    it('should detect feeds regardless of the content type', () => {
+      expect(detectFeed(RSS_FEED, 'text/plain')?.format).toBe('rss');
+      expect(detectFeed(JSON_FEED, 'text/plain')?.format).toBe('json');
+    });
+
+    it('should report feeds without items or dates', () => {
+      expect(detectFeed('<rss version="2.0"><channel></channel></rss>')).toEqual({
+        format: 'rss',
+        title: null,
+        itemCount: 0,
+        latestItemDate: null,
+      });
+    });
+
+    it('should ignore unparseable item dates', () => {
+      const feed = '<feed><entry><updated>not a date</updated></entry></feed>';
+      expect(detectFeed(feed)?.latestItemDate).toBeNull();
+    });
+
+    it('should return null for documents that are not feeds', () => {
+      expect(detectFeed('<!DOCTYPE html><html><head></head></html>', 'text/html')).toBeNull();
+      expect(detectFeed('{"version": "1.0", "items": []}', 'application/json')).toBeNull();
+      expect(detectFeed('{ not json', 'application/json')).toBeNull();
+      expect(detectFeed('')).toBeNull();
+    });
+  });
+
+  describe('isHtmlDocument', () => {
+    it('should recognize HTML by content type or markup', () => {
+      expect(isHtmlDocument('', 'text/html; charset=utf-8')).toBe(true);
+      expect(isHtmlDocument('<!doctype html><html lang="en"></html>')).toBe(true);
+      expect(isHtmlDocument(RSS_FEED, 'application/xml')).toBe(false);
+    });
+  });
+
+  describe('findAlternateFeedLinks', () => {
+    it('should resolve feed links against the page URL', () => {
+      const html = `<html><head>
+        <link rel="stylesheet" href="/style.css">
+        <link rel="alternate" type="application/rss+xml" title="RSS" href="/feed.xml">
+        <LINK REL="Alternate" TYPE='application/atom+xml' HREF='atom.xml?a=1&amp;b=2'>
+        <link rel="alternate" type="application/feed+json" href="https://cdn.example.com/feed.json" />
+      </head></html>`;
+
+      expect(findAlternateFeedLinks(html, 'https://example.com/blog/')).toEqual([
+        'https://example.com/feed.xml',
+        'https://example.com/blog/atom.xml?a=1&b=2',
+        'https://cdn.example.com/feed.json',
+      ]);
+    });
+
+    it('should skip non-feed alternates, duplicates and commented-out links', () => {
+      const html = `
+        <link rel="alternate" hreflang="de" href="/de/">
+        <link rel="alternate" type="application/json" href="/wp-json/wp/v2/pages/1">
+        <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+        <link rel="alternate" type="application/rss+xml" href="https://example.com/feed.xml">
+        <!-- <link rel="alternate" type="application/atom+xml" href="/old.xml"> -->
+        <link rel="alternate" type="application/rss+xml" href="javascript:alert(1)">`;
+
+      expect(findAlternateFeedLinks(html, 'https://example.com/')).toEqual([
+        'https://example.com/feed.xml',
+      ]);
+    });
+  });
+});
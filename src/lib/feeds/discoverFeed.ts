@@ -0,0 +1,405 @@
+/**
+ * Feed Discovery
+ *
+ * Server-side fetching of a candidate feed URL for the feed discovery route.
+ * The URL is fetched and checked with the feed parser; HTML pages are searched
+ * for `<link rel="alternate">` feeds, which are then fetched in turn.
+ *
+ * Because the server fetches URLs on behalf of users, requests are limited:
+ * - http(s) only, at most MAX_REDIRECTS redirects (each hop is checked again)
+ * - hosts resolving to private, loopback or link-local addresses are refused
+ *   unless `allowPrivateHosts` is set (local development and fixture servers).
+ *   The check runs in the DNS lookup of the connection itself, so the address
+ *   that was checked is the one connected to (no DNS rebinding)
+ * - a timeout and a maximum body size
+ * - failures share one message, so responses do not reveal which internal
+ *   hosts and ports exist
+ *
+ * @module lib/feeds/discoverFeed
+ */
+
+import { lookup as dnsLookup } from 'node:dns';
+import { isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch, type Dispatcher, type Response } from 'undici';
+import {
+  detectFeed,
+  findAlternateFeedLinks,
+  isHtmlDocument,
+  type FeedPreview,
+} from '@/lib/feeds/feedParser';
+
+/**
+ * Reason a discovery failed
+ * - 'INVALID_URL': not an absolute http(s) URL
+ * - 'FORBIDDEN_HOST': the host resolves to a private address
+ * - 'FETCH_FAILED': network error, timeout, error status or oversized response
+ * - 'NOT_A_FEED': neither a feed nor an HTML page linking to one
+ */
+export type FeedDiscoveryErrorCode =
+  | 'INVALID_URL'
+  | 'FORBIDDEN_HOST'
+  | 'FETCH_FAILED'
+  | 'NOT_A_FEED';
+
+/**
+ * Error thrown when a feed cannot be discovered
+ */
+export class FeedDiscoveryError extends Error {
+  public readonly code: FeedDiscoveryErrorCode;
+
+  constructor(code: FeedDiscoveryErrorCode, message: string) {
+    super(message);
+    this.name = 'FeedDiscoveryError';
+    this.code = code;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, FeedDiscoveryError);
+    }
+  }
+}
+
+/**
+ * Feed discovery options
+ */
+export interface DiscoverFeedOptions {
+  /** Timeout per request in milliseconds */
+  timeoutMs?: number;
+  /** Maximum response body size in bytes */
+  maxBytes?: number;
+  /** Allow hosts that resolve to private/loopback addresses */
+  allowPrivateHosts?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+/** Maximum number of alternate links tried for an HTML page */
+const MAX_ALTERNATE_LINKS = 3;
+
+const FETCH_FAILED_MESSAGE = 'The URL could not be fetched';
+const FORBIDDEN_HOST_MESSAGE = 'This address cannot be checked';
+
+const ACCEPT_HEADER = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/feed+json',
+  'application/xml;q=0.9',
+  'text/xml;q=0.9',
+  'text/html;q=0.8',
+  '*/*;q=0.5',
+].join(', ');
+
+interface FetchedDocument {
+  /** Final URL after redirects */
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Whether dotted IPv4 octets are private, loopback, link-local, shared
+ * (CGNAT), multicast or reserved
+ */
+function isPrivateIPv4([a = 0, b = 0]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ *
+ * A trailing dotted IPv4 part (`::ffff:127.0.0.1`) is converted to two groups.
+ */
+function getIPv6Groups(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number) as [number, number, number, number];
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head = '', tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeroGroups =
+    tail === undefined ? [] : Array<string>(8 - headGroups.length - tailGroups.length).fill('0');
+
+  return [...headGroups, ...zeroGroups, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * publicly routable
+ *
+ * IPv6 addresses embedding an IPv4 address (IPv4-mapped `::ffff:x:y` and
+ * IPv4-compatible `::x:y`, in hex or dotted form) are checked as IPv4.
+ * NAT64 (`64:ff9b::/96`) and 6to4 (`2002::/16`) addresses, which can reach
+ * arbitrary IPv4 hosts through a gateway, are always refused.
+ *
+ * @param address - IPv4 or IPv6 address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = address
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/%.*$/, '');
+
+  if (isIP(normalized) === 4) {
+    return isPrivateIPv4(normalized.split('.').map(Number));
+  }
+
+  if (isIP(normalized) !== 6) {
+    return false;
+  }
+
+  const groups = getIPv6Groups(normalized);
+  const [first = 0, second = 0] = groups;
+  const embeddedIPv4 = [groups[6]! >> 8, groups[6]! & 0xff, groups[7]! >> 8, groups[7]! & 0xff];
+
+  // IPv4-compatible (::x:y, including :: and ::1) and IPv4-mapped (::ffff:x:y)
+  if (groups.slice(0, 5).every((group) => group === 0) && [0, 0xffff].includes(groups[5]!)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+
+  return (
+    (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) ||
+    first === 0x2002 ||
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xff00) === 0xff00
+  );
+}
+
+/**
+ * Parse a candidate URL, accepting only absolute http(s) URLs
+ */
+function parseCandidateUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new FeedDiscoveryError('INVALID_URL', 'Enter a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FeedDiscoveryError('INVALID_URL', 'Only http and https URLs are supported');
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for outgoing connections that refuses private addresses
+ *
+ * The connection uses the addresses checked here, so a host cannot resolve to
+ * a public address for the check and to a private one for the request.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new FeedDiscoveryError('FORBIDDEN_HOST', FORBIDDEN_HOST_MESSAGE), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+let publicHostAgent: Agent | null = null;
+
+/**
+ * Get the dispatcher that only connects to public addresses
+ */
+function getPublicHostDispatcher(): Dispatcher {
+  publicHostAgent ??= new Agent({ connect: { lookup: lookupPublicAddress } });
+  return publicHostAgent;
+}
+
+/**
+ * Refuse URLs whose host is a private IP address
+ *
+ * IP literals are connected to without a DNS lookup, so they are checked here;
+ * host names are checked by `lookupPublicAddress`.
+ */
+function assertPublicAddressLiteral(url: URL): void {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new FeedDiscoveryError('FORBIDDEN_HOST', FORBIDDEN_HOST_MESSAGE);
+  }
+}
+
+/**
+ * Read a response body as text, stopping at maxBytes
+ */
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    throw new FeedDiscoveryError('FETCH_FAILED', FETCH_FAILED_MESSAGE);
+  }
+
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new FeedDiscoveryError('FETCH_FAILED', FETCH_FAILED_MESSAGE);
+    }
+    chunks.push(value);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Fetch a document, following redirects manually so every hop is checked
+ */
+async function fetchDocument(
+  startUrl: URL,
+  options: Required<DiscoverFeedOptions>
+): Promise<FetchedDocument> {
+  const { timeoutMs, maxBytes, allowPrivateHosts } = options;
+  let url = startUrl;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!allowPrivateHosts) {
+      assertPublicAddressLiteral(url);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url.href, {
+        headers: { Accept: ACCEPT_HEADER },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+        dispatcher: allowPrivateHosts ? undefined : getPublicHostDispatcher(),
+      });
+    } catch (error) {
+      // Refused by lookupPublicAddress while connecting
+      if (error instanceof Error && error.cause instanceof FeedDiscoveryError) {
+        throw error.cause;
+      }
+      throw new FeedDiscoveryError('FETCH_FAILED', FETCH_FAILED_MESSAGE);
+    }
+
+    // Bodies that are not read are cancelled, so their connections are released
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new FeedDiscoveryError('FETCH_FAILED', FETCH_FAILED_MESSAGE);
+      }
+      url = parseCandidateUrl(new URL(location, url).href);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FeedDiscoveryError('FETCH_FAILED', FETCH_FAILED_MESSAGE);
+    }
+
+    return {
+      url: url.href,
+      contentType: response.headers.get('content-type') ?? '',
+      body: await readBody(response, maxBytes),
+    };
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch a candidate URL and describe the feed it points to
+ *
+ * When the URL is an HTML page, the first working feed among its
+ * `<link rel="alternate">` links is returned with `discovered: true`.
+ *
+ * @param candidateUrl - URL entered by the user
+ * @param options - Fetch, timeout, size and host options
+ * @returns Feed preview
+ * @throws {FeedDiscoveryError} When the URL is invalid, unreachable or not a feed
+ *
+ * @example
+ * ```typescript
+ * const preview = await discoverFeed('https://example.com/blog');
+ * // { feedURL: 'https://example.com/feed.xml', format: 'rss', title: 'Blog', ... }
+ * ```
+ */
+export async function discoverFeed(
+  candidateUrl: string,
+  options: DiscoverFeedOptions = {}
+): Promise<FeedPreview> {
+  const resolvedOptions: Required<DiscoverFeedOptions> = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+    allowPrivateHosts: options.allowPrivateHosts ?? false,
+  };
+
+  const document = await fetchDocument(parseCandidateUrl(candidateUrl), resolvedOptions);
+  const feed = detectFeed(document.body, document.contentType);
+  if (feed) {
+    return { ...feed, feedURL: document.url, discovered: false };
+  }
+
+  if (isHtmlDocument(document.body, document.contentType)) {
+    const links = findAlternateFeedLinks(document.body, document.url);
+
+    for (const link of links.slice(0, MAX_ALTERNATE_LINKS)) {
+      try {
+        const linked = await fetchDocument(new URL(link), resolvedOptions);
+        const linkedFeed = detectFeed(linked.body, linked.contentType);
+        if (linkedFeed) {
+          return { ...linkedFeed, feedURL: linked.url, discovered: true };
+        }
+      } catch (error) {
+        // Try the next advertised feed
+        if (!(error instanceof FeedDiscoveryError)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new FeedDiscoveryError(
+      'NOT_A_FEED',
+      links.length > 0
+        ? 'The feeds linked from this page could not be read'
+        : 'This page does not link to an RSS, Atom or JSON feed'
+    );
+  }
+
+  throw new FeedDiscoveryError('NOT_A_FEED', 'This URL is not an RSS, Atom or JSON feed');
+}
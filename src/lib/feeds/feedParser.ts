@@ -0,0 +1,322 @@
+/**
+ * Feed Parser
+ *
+ * Lightweight detection of RSS, Atom and JSON Feed documents, and discovery
+ * of `<link rel="alternate">` feeds in HTML pages.
+ *
+ * Only the metadata needed for a preview is extracted (title, item count and
+ * latest item date), so the parser works on raw markup with regular
+ * expressions instead of a DOM. This keeps it usable in route handlers,
+ * where no DOMParser is available.
+ *
+ * @module lib/feeds/feedParser
+ */
+
+/**
+ * Detected feed format
+ */
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Preview of a feed, as returned by the feed discovery route
+ */
+export interface FeedPreview {
+  /** URL of the feed document (after redirects and discovery) */
+  feedURL: string;
+  format: FeedFormat;
+  /** Feed title, or null when the feed has none */
+  title: string | null;
+  /** Number of items/entries in the document */
+  itemCount: number;
+  /** Most recent item date (ISO 8601), or null when no item is dated */
+  latestItemDate: string | null;
+  /** Whether the feed was found through a `<link rel="alternate">` in an HTML page */
+  discovered: boolean;
+}
+
+/**
+ * Feed metadata read from a document
+ */
+export type ParsedFeed = Pick<FeedPreview, 'format' | 'title' | 'itemCount' | 'latestItemDate'>;
+
+/**
+ * MIME types accepted for `<link rel="alternate">` feeds
+ *
+ * Plain application/json is left out: sites use it for REST API links
+ * rather than feeds.
+ */
+export const FEED_LINK_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+] as const;
+
+const JSON_FEED_VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Decode XML/HTML character references
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Turn element content into plain text (CDATA unwrapped, tags stripped,
+ * entities decoded, whitespace collapsed)
+ */
+function toText(content: string): string {
+  const text = content
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, cdata: string) =>
+      cdata.replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    )
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Contents of every element with the given qualified name
+ */
+function getElements(xml: string, tagName: string): string[] {
+  const tag = escapeRegExp(tagName);
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}\\s*>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1] ?? '');
+}
+
+/**
+ * Text of the first element with one of the given qualified names
+ */
+function getElementText(xml: string, tagNames: readonly string[]): string | null {
+  for (const tagName of tagNames) {
+    const [content] = getElements(xml, tagName);
+    if (content !== undefined) {
+      const text = toText(content);
+      if (text) {
+        return text;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Latest of the given date strings as ISO 8601, ignoring unparseable values
+ */
+function getLatestDate(values: ReadonlyArray<string | null | undefined>): string | null {
+  let latest: number | null = null;
+  for (const value of values) {
+    const time = value ? Date.parse(value) : NaN;
+    if (!Number.isNaN(time) && (latest === null || time > latest)) {
+      latest = time;
+    }
+  }
+  return latest === null ? null : new Date(latest).toISOString();
+}
+
+/**
+ * Parse the attributes of a start tag
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'<>/=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    const name = match[1]!.toLowerCase();
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// ============================================================================
+// Format Parsers
+// ============================================================================
+
+function parseJsonFeed(body: string): ParsedFeed | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof data !== 'object' ||
+    data === null ||
+    typeof (data as { version?: unknown }).version !== 'string' ||
+    !(data as { version: string }).version.startsWith(JSON_FEED_VERSION_PREFIX)
+  ) {
+    return null;
+  }
+
+  const feed = data as { title?: unknown; items?: unknown };
+  const items = Array.isArray(feed.items) ? (feed.items as unknown[]) : [];
+  const dates = items.map((item) => {
+    if (typeof item !== 'object' || item === null) {
+      return null;
+    }
+    const { date_published, date_modified } = item as Record<string, unknown>;
+    const date = date_published ?? date_modified;
+    return typeof date === 'string' ? date : null;
+  });
+
+  return {
+    format: 'json',
+    title: typeof feed.title === 'string' && feed.title.trim() ? feed.title.trim() : null,
+    itemCount: items.length,
+    latestItemDate: getLatestDate(dates),
+  };
+}
+
+function parseRss(xml: string): ParsedFeed {
+  // The channel title is the first <title> before any item
+  const head = xml.split(/<item[\s>]/)[0] ?? xml;
+  const items = getElements(xml, 'item');
+
+  return {
+    format: 'rss',
+    title: getElementText(head, ['title', 'dc:title']),
+    itemCount: items.length,
+    latestItemDate: getLatestDate(
+      items.map((item) => getElementText(item, ['pubDate', 'dc:date', 'atom:updated']))
+    ),
+  };
+}
+
+function parseAtom(xml: string): ParsedFeed {
+  // The feed title is the first <title> before any entry
+  const head = xml.split(/<entry[\s>]/)[0] ?? xml;
+  const entries = getElements(xml, 'entry');
+
+  return {
+    format: 'atom',
+    title: getElementText(head, ['title']),
+    itemCount: entries.length,
+    latestItemDate: getLatestDate(
+      entries.map((entry) => getElementText(entry, ['updated', 'published']))
+    ),
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Detect whether a document is an RSS, Atom or JSON Feed and read its metadata
+ *
+ * RSS 0.9x/2.0 and RSS 1.0 (RDF) are both reported as 'rss'. The content type
+ * is only a hint: servers often send feeds as text/xml or text/plain, so the
+ * document itself decides.
+ *
+ * @param body - Document body
+ * @param contentType - Content-Type header value, if known
+ * @returns Feed metadata, or null when the document is not a feed
+ *
+ * @example
+ * ```typescript
+ * detectFeed('<rss version="2.0"><channel><title>Blog</title></channel></rss>');
+ * // { format: 'rss', title: 'Blog', itemCount: 0, latestItemDate: null }
+ * ```
+ */
+export function detectFeed(body: string, contentType: string = ''): ParsedFeed | null {
+  const trimmed = body.replace(/^\uFEFF/, '').trim();
+
+  if (trimmed.startsWith('{') || /\bjson\b/i.test(contentType)) {
+    return parseJsonFeed(trimmed);
+  }
+
+  // Comments may contain markup that would confuse the element matching
+  const xml = trimmed.replace(/<!--[\s\S]*?-->/g, '');
+
+  if (/<rss[\s>]/.test(xml) || /<rdf:RDF[\s>]/.test(xml)) {
+    return parseRss(xml);
+  }
+
+  if (/<feed[\s>]/.test(xml)) {
+    return parseAtom(xml);
+  }
+
+  return null;
+}
+
+/**
+ * Whether a document looks like an HTML page
+ *
+ * @param body - Document body
+ * @param contentType - Content-Type header value, if known
+ */
+export function isHtmlDocument(body: string, contentType: string = ''): boolean {
+  return (
+    /\btext\/html\b|\bapplication\/xhtml\+xml\b/i.test(contentType) || /<html[\s>]/i.test(body)
+  );
+}
+
+/**
+ * Find feeds advertised with `<link rel="alternate">` in an HTML page
+ *
+ * @param html - HTML document
+ * @param baseUrl - URL of the page, used to resolve relative links
+ * @returns Absolute http(s) feed URLs in document order, without duplicates
+ *
+ * @example
+ * ```typescript
+ * findAlternateFeedLinks(
+ *   '<link rel="alternate" type="application/rss+xml" href="/feed.xml">',
+ *   'https://example.com/blog/'
+ * );
+ * // ['https://example.com/feed.xml']
+ * ```
+ */
+export function findAlternateFeedLinks(html: string, baseUrl: string): string[] {
+  const links: string[] = [];
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const [tag] of withoutComments.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+    const type = (attributes.type ?? '').toLowerCase().split(';')[0]!.trim();
+
+    if (!rel.includes('alternate') || !attributes.href) {
+      continue;
+    }
+    if (!(FEED_LINK_TYPES as readonly string[]).includes(type)) {
+      continue;
+    }
+
+    try {
+      const url = new URL(attributes.href.trim(), baseUrl);
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && !links.includes(url.href)) {
+        links.push(url.href);
+      }
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUT_BINDINGS_STORAGE_KEY,
+  getShortcutKey,
+  isEditableTarget,
+  loadShortcutBindings,
+  matchShortcut,
+  resolveShortcutBindings,
+  saveShortcutBindings,
+} from '../shortcuts';
+
+const key = (value: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key: value,
+  ctrlKey: false,
+  altKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+describe('keyboard shortcuts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    document.body.innerHTML = '';
+  });
+
+  describe('getShortcutKey', () => {
+    it('should return the plain key without modifiers', () => {
+      expect(getShortcutKey(key('j'))).toBe('j');
+      expect(getShortcutKey(key('?'))).toBe('?');
+    });
+
+    it('should prefix modifiers in a stable order', () => {
+      expect(getShortcutKey(key('k', { metaKey: true, ctrlKey: true }))).toBe('Ctrl+Meta+k');
+    });
+  });
+
+  describe('matchShortcut', () => {
+    it('should match default bindings', () => {
+      expect(matchShortcut(key('j'), DEFAULT_SHORTCUT_BINDINGS)).toBe('nextArticle');
+      expect(matchShortcut(key('k'), DEFAULT_SHORTCUT_BINDINGS)).toBe('previousArticle');
+      expect(matchShortcut(key('Enter'), DEFAULT_SHORTCUT_BINDINGS)).toBe('openArticle');
+      expect(matchShortcut(key('/'), DEFAULT_SHORTCUT_BINDINGS)).toBe('focusSearch');
+      expect(matchShortcut(key('?'), DEFAULT_SHORTCUT_BINDINGS)).toBe('showHelp');
+    });
+
+    it('should not match when a modifier is held', () => {
+      expect(matchShortcut(key('j', { ctrlKey: true }), DEFAULT_SHORTCUT_BINDINGS)).toBeNull();
+    });
+
+    it('should return null for unbound keys', () => {
+      expect(matchShortcut(key('x'), DEFAULT_SHORTCUT_BINDINGS)).toBeNull();
+    });
+  });
+
+  describe('isEditableTarget', () => {
+    it.each([
+      '<input id="target" />',
+      '<textarea id="target"></textarea>',
+      '<select id="target"></select>',
+      '<div role="combobox" id="target"></div>',
+    ])('should detect form fields: %s', (html) => {
+      document.body.innerHTML = html;
+      expect(isEditableTarget(document.getElementById('target'))).toBe(true);
+    });
+
+    it('should not treat links and buttons as editable', () => {
+      document.body.innerHTML = '<a href="/" id="link">Link</a><button id="button">Go</button>';
+      expect(isEditableTarget(document.getElementById('link'))).toBe(false);
+      expect(isEditableTarget(document.getElementById('button'))).toBe(false);
+      expect(isEditableTarget(null)).toBe(false);
+    });
+  });
+
+  describe('resolveShortcutBindings', () => {
+    it('should return the defaults without overrides', () => {
+      expect(resolveShortcutBindings()).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+    });
+
+    it('should apply overrides in order', () => {
+      const resolved = resolveShortcutBindings(
+        { nextArticle: ['n'], backToList: ['Escape'] },
+        { nextArticle: ['ArrowDown'] }
+      );
+
+      expect(resolved.nextArticle).toEqual(['ArrowDown']);
+      expect(resolved.backToList).toEqual(['Escape']);
+      expect(resolved.previousArticle).toEqual(DEFAULT_SHORTCUT_BINDINGS.previousArticle);
+    });
+
+    it('should ignore invalid overrides', () => {
+      const resolved = resolveShortcutBindings({
+        nextArticle: 'n' as unknown as string[],
+        previousArticle: [''],
+      });
+
+      expect(resolved).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip overrides through localStorage', () => {
+      saveShortcutBindings({ focusSearch: ['s'] });
+
+      expect(loadShortcutBindings()).toEqual({ focusSearch: ['s'] });
+    });
+
+    it('should clear overrides when saving null', () => {
+      saveShortcutBindings({ focusSearch: ['s'] });
+      saveShortcutBindings(null);
+
+      expect(localStorage.getItem(SHORTCUT_BINDINGS_STORAGE_KEY)).toBeNull();
+      expect(loadShortcutBindings()).toBeNull();
+    });
+
+    it('should ignore corrupted data', () => {
+      localStorage.setItem(SHORTCUT_BINDINGS_STORAGE_KEY, '{not json');
+
+      expect(loadShortcutBindings()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Keyboard Shortcuts
+ *
+ * Action definitions, default bindings and key matching for the global
+ * keyboard shortcut subsystem (Gmail/Feedly-style reading navigation).
+ *
+ * Bindings are plain `KeyboardEvent.key` values, optionally prefixed with
+ * modifiers (e.g. 'j', 'Enter', '?', 'Ctrl+k'). Defaults can be overridden
+ * per browser (persisted in localStorage) and per mount (component props).
+ *
+ * @module lib/keyboard/shortcuts
+ */
+
+import { logger } from '@/lib/logger';
+
+/**
+ * Actions that can be bound to keys
+ */
+export type ShortcutAction =
+  | 'nextArticle'
+  | 'previousArticle'
+  | 'openArticle'
+  | 'backToList'
+  | 'toggleBookmark'
+  | 'focusSearch'
+  | 'showHelp';
+
+/**
+ * Keys bound to each action
+ */
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+/**
+ * Default key bindings
+ */
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  nextArticle: ['j'],
+  previousArticle: ['k'],
+  openArticle: ['o', 'Enter'],
+  backToList: ['u'],
+  toggleBookmark: ['b'],
+  focusSearch: ['/'],
+  showHelp: ['?'],
+};
+
+/**
+ * Human-readable descriptions, in cheat-sheet order
+ */
+export const SHORTCUT_DESCRIPTIONS: Record<ShortcutAction, string> = {
+  nextArticle: 'Next article',
+  previousArticle: 'Previous article',
+  openArticle: 'Open article',
+  backToList: 'Back to list',
+  toggleBookmark: 'Save or remove from read later',
+  focusSearch: 'Focus search',
+  showHelp: 'Show keyboard shortcuts',
+};
+
+/**
+ * localStorage key for user-defined binding overrides
+ */
+export const SHORTCUT_BINDINGS_STORAGE_KEY = 'catchup_feed_shortcut_bindings';
+
+/**
+ * Data attributes used to locate shortcut targets in the DOM
+ */
+export const SHORTCUT_TARGETS = {
+  /** Wrapper of an article in a list (value: article ID) */
+  articleCard: 'data-article-card',
+  /** Bookmark toggle button */
+  bookmarkToggle: 'data-bookmark-toggle',
+  /** Search field focused by the focusSearch action */
+  searchInput: 'data-search-input',
+} as const;
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Meta'] as const;
+
+const SHORTCUT_ACTIONS = Object.keys(DEFAULT_SHORTCUT_BINDINGS) as ShortcutAction[];
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Convert a keyboard event to its binding string (e.g. 'j', 'Ctrl+k')
+ *
+ * Shift is not part of the binding: it is already reflected in the key
+ * ('J', '?').
+ *
+ * @param event - Keyboard event
+ * @returns Binding string
+ */
+export function getShortcutKey(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey'>
+): string {
+  const modifiers = MODIFIER_ORDER.filter((modifier) => {
+    if (modifier === 'Ctrl') return event.ctrlKey;
+    if (modifier === 'Alt') return event.altKey;
+    return event.metaKey;
+  });
+  return [...modifiers, event.key].join('+');
+}
+
+/**
+ * Find the action bound to a keyboard event
+ *
+ * @param event - Keyboard event
+ * @param bindings - Active bindings
+ * @returns Matching action, or null if the key is not bound
+ */
+export function matchShortcut(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey'>,
+  bindings: ShortcutBindings
+): ShortcutAction | null {
+  const key = getShortcutKey(event);
+  return SHORTCUT_ACTIONS.find((action) => bindings[action].includes(key)) ?? null;
+}
+
+/**
+ * Check whether keystrokes on the target belong to a form field
+ * (inputs, textareas, selects, contenteditable regions, ARIA textboxes)
+ *
+ * @param target - Event target
+ * @returns True if shortcuts should be suppressed
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof Element)) {
+    return false;
+  }
+
+  if (target instanceof HTMLElement && target.isContentEditable) {
+    return true;
+  }
+
+  return (
+    target.closest(
+      'input, textarea, select, [contenteditable=""], [contenteditable="true"], [role="textbox"], [role="combobox"], [role="searchbox"]'
+    ) !== null
+  );
+}
+
+/**
+ * Merge binding overrides into a complete set of bindings
+ *
+ * Overrides replace the keys of an action entirely; invalid entries are ignored.
+ *
+ * @param overrides - Partial bindings, applied in order
+ * @returns Complete bindings
+ */
+export function resolveShortcutBindings(
+  ...overrides: (Partial<ShortcutBindings> | null | undefined)[]
+): ShortcutBindings {
+  const resolved: ShortcutBindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const action of SHORTCUT_ACTIONS) {
+      const keys = override[action];
+      if (Array.isArray(keys) && keys.every((key) => typeof key === 'string' && key.length > 0)) {
+        resolved[action] = keys;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Load the user's binding overrides from localStorage
+ *
+ * @returns Stored overrides, or null if none are stored or storage is unavailable
+ */
+export function loadShortcutBindings(): Partial<ShortcutBindings> | null {
+  try {
+    const stored = localStorage.getItem(SHORTCUT_BINDINGS_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const parsed: unknown = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' ? (parsed as Partial<ShortcutBindings>) : null;
+  } catch (error) {
+    logger.warn('Failed to load keyboard shortcut bindings', { error });
+    return null;
+  }
+}
+
+/**
+ * Persist the user's binding overrides to localStorage
+ *
+ * @param bindings - Overrides to store, or null to restore the defaults
+ */
+export function saveShortcutBindings(bindings: Partial<ShortcutBindings> | null): void {
+  try {
+    if (bindings) {
+      localStorage.setItem(SHORTCUT_BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+    } else {
+      localStorage.removeItem(SHORTCUT_BINDINGS_STORAGE_KEY);
+    }
+  } catch (error) {
+    logger.warn('Failed to save keyboard shortcut bindings', { error });
+  }
+}
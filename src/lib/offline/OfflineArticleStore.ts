@@ -0,0 +1,600 @@
+/**
+ * Offline Article Store
+ *
+ * Pins article payloads (as returned by getArticle) and their detail routes
+ * into a dedicated Cache Storage cache, so they can be read without a network
+ * connection. The service worker serves pinned entries when the network fails.
+ *
+ * Offline articles are scoped per user (one index key and one cache per user
+ * ID, see `setUser`), like bookmarks, so one user's bookmarked and recently
+ * viewed articles never show up for the next user on the device.
+ *
+ * Features:
+ * - Own quota: recently viewed articles are evicted oldest-first, bookmarked
+ *   articles are only evicted once the overall cap is reached
+ * - Index persisted in localStorage for synchronous "available offline" checks
+ * - Reconciles the index with the cache (browsers may evict caches at will)
+ * - Multi-tab synchronization via BroadcastChannel
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ *
+ * @module lib/offline/OfflineArticleStore
+ */
+
+import { logger } from '@/lib/logger';
+import { appConfig } from '@/config/app.config';
+import { pwaConfig } from '@/config/pwa.config';
+import {
+  getArticleDetailPath,
+  getOfflineArticlesCacheName,
+  isOfflineArticlesCache,
+  setOfflineArticlesUser,
+} from '@/lib/offline/articleCache';
+import { BFF_PATH, isCookieSession } from '@/lib/auth/session';
+import type { Article } from '@/types/api';
+
+/**
+ * Why an article is kept offline
+ * - 'bookmark': saved to "Read later"
+ * - 'recent': recently viewed
+ */
+export type OfflineReason = 'bookmark' | 'recent';
+
+/**
+ * An article available offline
+ */
+export interface OfflineArticleEntry {
+  /** Article ID */
+  articleId: number;
+  /** Article title (for listing on the offline page) */
+  title: string;
+  /** Why the article is kept */
+  reason: OfflineReason;
+  /** When the article was last pinned (Unix timestamp in milliseconds) */
+  pinnedAt: number;
+}
+
+/**
+ * Immutable snapshot of offline articles (article ID → entry)
+ */
+export type OfflineArticleSnapshot = ReadonlyMap<number, OfflineArticleEntry>;
+
+/**
+ * Shape persisted in localStorage
+ */
+interface PersistedOfflineIndex {
+  version: 1;
+  entries: OfflineArticleEntry[];
+}
+
+/**
+ * Message types for BroadcastChannel communication
+ */
+type OfflineArticleMessage = { type: 'changed'; userId: string | null } | { type: 'cleared' };
+
+/**
+ * Prefix of the localStorage keys holding the offline article index (one key per user)
+ *
+ * Earlier versions stored the index of every user under this key itself.
+ */
+export const OFFLINE_INDEX_STORAGE_KEY_PREFIX = 'catchup_feed_offline_articles';
+
+/**
+ * Get the localStorage key of a user's offline article index
+ *
+ * @param userId - User ID, or null when signed out
+ * @returns Storage key
+ */
+export function getOfflineIndexStorageKey(userId: string | null): string {
+  return `${OFFLINE_INDEX_STORAGE_KEY_PREFIX}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * OfflineArticleStore class for offline reading
+ *
+ * Singleton pattern ensures every component observes the same state.
+ */
+export class OfflineArticleStore {
+  private static instance: OfflineArticleStore | null = null;
+  private userId: string | null = null;
+  private entries: Map<number, OfflineArticleEntry> = new Map();
+  private snapshot: OfflineArticleSnapshot = new Map();
+  private listeners: Set<() => void> = new Set();
+  private isLocalStorageAvailable: boolean = false;
+  private broadcastChannel: BroadcastChannel | null = null;
+  private readonly CHANNEL_NAME = 'catchup_feed_offline_sync';
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.isLocalStorageAvailable = this.checkLocalStorageAvailability();
+
+    if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
+      try {
+        this.broadcastChannel = new BroadcastChannel(this.CHANNEL_NAME);
+        this.broadcastChannel.onmessage = this.handleBroadcastMessage.bind(this);
+      } catch (error) {
+        logger.warn('Failed to initialize BroadcastChannel for offline articles', { error });
+        this.broadcastChannel = null;
+      }
+    }
+
+    if (this.isLocalStorageAvailable) {
+      this.removeLegacyIndex();
+    }
+    this.loadFromLocalStorage();
+    this.snapshot = new Map(this.entries);
+  }
+
+  /**
+   * Get singleton instance of OfflineArticleStore
+   */
+  public static getInstance(): OfflineArticleStore {
+    if (!OfflineArticleStore.instance) {
+      OfflineArticleStore.instance = new OfflineArticleStore();
+    }
+    return OfflineArticleStore.instance;
+  }
+
+  /**
+   * Reset the singleton (for tests)
+   */
+  public static resetInstance(): void {
+    OfflineArticleStore.instance?.destroy();
+    OfflineArticleStore.instance = null;
+  }
+
+  /**
+   * Check whether Cache Storage is available (secure contexts only)
+   */
+  public static isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  /**
+   * Check if localStorage is available and writable
+   */
+  private checkLocalStorageAvailability(): boolean {
+    if (typeof window === 'undefined') {
+      return false;
+    }
+
+    try {
+      const testKey = '__catchup_feed_offline_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (error) {
+      logger.warn('localStorage is not available, offline index will not persist', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Remove the unscoped index of earlier versions, which cannot be attributed
+   * to a user (its cache entries are dropped by `setOfflineArticlesUser`)
+   */
+  private removeLegacyIndex(): void {
+    try {
+      localStorage.removeItem(OFFLINE_INDEX_STORAGE_KEY_PREFIX);
+    } catch (error) {
+      logger.warn('Failed to remove legacy offline article index', { error });
+    }
+  }
+
+  /**
+   * Load the current user's persisted index from localStorage
+   */
+  private loadFromLocalStorage(): void {
+    this.entries.clear();
+
+    if (!this.isLocalStorageAvailable) {
+      return;
+    }
+
+    try {
+      const raw = localStorage.getItem(getOfflineIndexStorageKey(this.userId));
+      if (!raw) {
+        return;
+      }
+
+      const parsed = JSON.parse(raw) as Partial<PersistedOfflineIndex>;
+      if (parsed.version !== 1) {
+        return;
+      }
+
+      for (const entry of parsed.entries ?? []) {
+        if (typeof entry?.articleId === 'number' && typeof entry.pinnedAt === 'number') {
+          this.entries.set(entry.articleId, entry);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to load offline article index', error as Error);
+    }
+  }
+
+  /**
+   * Persist the index to localStorage and notify other tabs
+   */
+  private persist(): void {
+    if (this.isLocalStorageAvailable) {
+      try {
+        const data: PersistedOfflineIndex = {
+          version: 1,
+          entries: Array.from(this.entries.values()),
+        };
+        localStorage.setItem(getOfflineIndexStorageKey(this.userId), JSON.stringify(data));
+      } catch (error) {
+        logger.warn('Failed to persist offline article index', { error });
+      }
+    }
+
+    this.broadcast({ type: 'changed', userId: this.userId });
+  }
+
+  /**
+   * Notify other tabs of a change
+   */
+  private broadcast(message: OfflineArticleMessage): void {
+    if (this.broadcastChannel) {
+      try {
+        this.broadcastChannel.postMessage(message);
+      } catch (error) {
+        logger.warn('Failed to broadcast offline article change', { error });
+      }
+    }
+  }
+
+  /**
+   * Handle BroadcastChannel messages from other tabs
+   */
+  private handleBroadcastMessage(event: MessageEvent<OfflineArticleMessage>): void {
+    const message = event.data;
+    if (message.type === 'changed' && message.userId !== this.userId) {
+      return;
+    }
+
+    this.loadFromLocalStorage();
+    this.emitChange();
+  }
+
+  /**
+   * Open the current user's offline articles cache
+   */
+  private openCache(): Promise<Cache> {
+    return caches.open(getOfflineArticlesCacheName(this.userId));
+  }
+
+  /**
+   * Refresh the snapshot and notify subscribers
+   */
+  private emitChange(): void {
+    this.snapshot = new Map(this.entries);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Cache key for an article's API payload (matches the URL getArticle requests)
+   */
+  private getApiUrl(articleId: number): string {
+    return `${isCookieSession() ? BFF_PATH : appConfig.api.baseUrl}/articles/${articleId}`;
+  }
+
+  /**
+   * Remove an article's payload and detail page from the cache
+   */
+  private async deleteFromCache(cache: Cache, articleId: number): Promise<void> {
+    await Promise.all([
+      cache.delete(this.getApiUrl(articleId)),
+      cache.delete(getArticleDetailPath(articleId), { ignoreSearch: true }),
+    ]);
+  }
+
+  /**
+   * Pick entries to evict so the quota is respected
+   *
+   * Recently viewed articles beyond maxRecentArticles go first (oldest first).
+   * If the overall cap is still exceeded, the oldest remaining entries go,
+   * recently viewed before bookmarked.
+   */
+  private selectEvictions(): number[] {
+    const { maxArticles, maxRecentArticles } = pwaConfig.offline;
+    const byAge = Array.from(this.entries.values()).sort((a, b) => a.pinnedAt - b.pinnedAt);
+    const recent = byAge.filter((entry) => entry.reason === 'recent');
+    const evicted = new Set(
+      recent.slice(0, Math.max(0, recent.length - maxRecentArticles)).map((e) => e.articleId)
+    );
+
+    const remaining = byAge.filter((entry) => !evicted.has(entry.articleId));
+    const excess = remaining.length - maxArticles;
+    if (excess > 0) {
+      const evictionOrder = [
+        ...remaining.filter((entry) => entry.reason === 'recent'),
+        ...remaining.filter((entry) => entry.reason === 'bookmark'),
+      ];
+      evictionOrder.slice(0, excess).forEach((entry) => evicted.add(entry.articleId));
+    }
+
+    return Array.from(evicted);
+  }
+
+  /**
+   * Evict entries over quota from the index and the cache
+   */
+  private async enforceQuota(cache: Cache): Promise<void> {
+    const evictions = this.selectEvictions();
+    if (evictions.length === 0) {
+      return;
+    }
+
+    for (const articleId of evictions) {
+      this.entries.delete(articleId);
+    }
+    await Promise.all(evictions.map((articleId) => this.deleteFromCache(cache, articleId)));
+    logger.debug('Evicted offline articles over quota', { count: evictions.length });
+  }
+
+  /**
+   * Switch the store to a user and load their offline articles
+   *
+   * No-op if the user is already active. Also records the user for the
+   * service worker, so it only serves this user's pinned articles.
+   *
+   * @param userId - Current user ID, or null when nobody is signed in
+   */
+  public setUser(userId: string | null): void {
+    if (userId === this.userId) {
+      return;
+    }
+
+    this.userId = userId;
+    this.loadFromLocalStorage();
+    this.emitChange();
+
+    if (OfflineArticleStore.isSupported()) {
+      setOfflineArticlesUser(userId).catch((error: unknown) => {
+        logger.warn('Failed to record the offline articles user', { error });
+      });
+    }
+  }
+
+  /**
+   * Get the user whose offline articles are loaded
+   */
+  public getUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * Subscribe to offline article changes
+   * @param listener - Called whenever the offline index changes
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get an immutable snapshot of offline articles
+   * The same object is returned until the state changes.
+   */
+  public getSnapshot(): OfflineArticleSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Check whether an article is available offline
+   * @param articleId - Article ID
+   */
+  public isAvailableOffline(articleId: number): boolean {
+    return this.entries.has(articleId);
+  }
+
+  /**
+   * Pin an article for offline reading
+   *
+   * Stores the article payload under the getArticle URL and caches the
+   * detail route's HTML. Bookmarked articles are never downgraded to
+   * 'recent' by a later view.
+   *
+   * @param article - Article payload (as returned by getArticle)
+   * @param reason - Why the article is kept (default: 'recent')
+   * @returns True if the article payload was pinned
+   */
+  public async pin(article: Article, reason: OfflineReason = 'recent'): Promise<boolean> {
+    if (!OfflineArticleStore.isSupported()) {
+      return false;
+    }
+
+    try {
+      const cache = await this.openCache();
+      await cache.put(
+        this.getApiUrl(article.id),
+        new Response(JSON.stringify(article), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+      );
+
+      // The detail page shell is best-effort: the payload alone is still useful
+      try {
+        const detailPath = getArticleDetailPath(article.id);
+        const response = await fetch(detailPath, { credentials: 'same-origin' });
+        if (response.ok && !response.redirected) {
+          await cache.put(detailPath, response);
+        }
+      } catch (error) {
+        logger.debug('Failed to cache article detail page', { articleId: article.id, error });
+      }
+
+      const existing = this.entries.get(article.id);
+      this.entries.set(article.id, {
+        articleId: article.id,
+        title: article.title,
+        reason: existing?.reason === 'bookmark' ? 'bookmark' : reason,
+        pinnedAt: Date.now(),
+      });
+
+      await this.enforceQuota(cache);
+      this.persist();
+      this.emitChange();
+      return this.entries.has(article.id);
+    } catch (error) {
+      logger.warn('Failed to pin article for offline reading', { articleId: article.id, error });
+      return false;
+    }
+  }
+
+  /**
+   * Release a bookmarked article back to the recently viewed pool
+   *
+   * The article stays available offline until the recent quota evicts it.
+   *
+   * @param articleId - Article ID
+   */
+  public async release(articleId: number): Promise<void> {
+    const entry = this.entries.get(articleId);
+    if (!entry || entry.reason !== 'bookmark' || !OfflineArticleStore.isSupported()) {
+      return;
+    }
+
+    this.entries.set(articleId, { ...entry, reason: 'recent' });
+
+    try {
+      await this.enforceQuota(await this.openCache());
+    } catch (error) {
+      logger.warn('Failed to enforce offline article quota', { error });
+    }
+    this.persist();
+    this.emitChange();
+  }
+
+  /**
+   * Remove an article from offline storage
+   * @param articleId - Article ID
+   */
+  public async unpin(articleId: number): Promise<void> {
+    if (!this.entries.delete(articleId)) {
+      return;
+    }
+
+    this.persist();
+    this.emitChange();
+
+    if (OfflineArticleStore.isSupported()) {
+      try {
+        await this.deleteFromCache(await this.openCache(), articleId);
+      } catch (error) {
+        logger.warn('Failed to remove offline article', { articleId, error });
+      }
+    }
+  }
+
+  /**
+   * Drop index entries whose payload is no longer cached
+   * (browsers may evict Cache Storage under storage pressure)
+   */
+  public async reconcile(): Promise<void> {
+    if (!OfflineArticleStore.isSupported() || this.entries.size === 0) {
+      return;
+    }
+
+    try {
+      const cache = await this.openCache();
+      const missing: number[] = [];
+      for (const articleId of this.entries.keys()) {
+        if (!(await cache.match(this.getApiUrl(articleId)))) {
+          missing.push(articleId);
+        }
+      }
+
+      if (missing.length > 0) {
+        missing.forEach((articleId) => this.entries.delete(articleId));
+        this.persist();
+        this.emitChange();
+        logger.debug('Dropped offline articles missing from cache', { count: missing.length });
+      }
+    } catch (error) {
+      logger.warn('Failed to reconcile offline articles', { error });
+    }
+  }
+
+  /**
+   * Remove every offline article of the current user (index and cache)
+   */
+  public async clearAll(): Promise<void> {
+    this.entries.clear();
+    this.persist();
+    this.emitChange();
+
+    if (OfflineArticleStore.isSupported()) {
+      try {
+        await caches.delete(getOfflineArticlesCacheName(this.userId));
+      } catch (error) {
+        logger.warn('Failed to clear offline articles cache', { error });
+      }
+    }
+  }
+
+  /**
+   * Remove the offline articles of every user on this device (on logout)
+   *
+   * Deletes all index keys and offline article caches, including the record
+   * of the active user, so the service worker serves nothing until the next
+   * user is set.
+   */
+  public async purgeAllUsers(): Promise<void> {
+    this.entries.clear();
+
+    if (this.isLocalStorageAvailable) {
+      try {
+        const keys = Array.from({ length: localStorage.length }, (_, index) =>
+          localStorage.key(index)
+        );
+        keys
+          .filter(
+            (key): key is string => key?.startsWith(OFFLINE_INDEX_STORAGE_KEY_PREFIX) ?? false
+          )
+          .forEach((key) => localStorage.removeItem(key));
+      } catch (error) {
+        logger.warn('Failed to remove offline article indexes', { error });
+      }
+    }
+
+    this.broadcast({ type: 'cleared' });
+    this.emitChange();
+
+    if (OfflineArticleStore.isSupported()) {
+      try {
+        const cacheNames = (await caches.keys()).filter(isOfflineArticlesCache);
+        await Promise.all(cacheNames.map((cacheName) => caches.delete(cacheName)));
+      } catch (error) {
+        logger.warn('Failed to purge offline articles caches', { error });
+      }
+    }
+  }
+
+  /**
+   * Cleanup resources (call on unmount if needed)
+   */
+  public destroy(): void {
+    if (this.broadcastChannel) {
+      this.broadcastChannel.close();
+      this.broadcastChannel = null;
+    }
+    this.listeners.clear();
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Get singleton OfflineArticleStore instance
+ */
+export function getOfflineArticleStore(): OfflineArticleStore {
+  return OfflineArticleStore.getInstance();
+}
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OfflineArticleStore,
+  getOfflineArticleStore,
+  OFFLINE_INDEX_STORAGE_KEY_PREFIX,
+  getOfflineIndexStorageKey,
+} from '../OfflineArticleStore';
+import {
+  OFFLINE_ARTICLES_CACHE,
+  getOfflineArticlesCacheName,
+  matchOfflineArticle,
+} from '../articleCache';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import { appConfig } from '@/config/app.config';
+import { pwaConfig } from '@/config/pwa.config';
+
+/**
+ * Minimal in-memory Cache Storage (jsdom does not implement it)
+ */
+class MemoryCache {
+  entries = new Map<string, Response>();
+
+  private key(request: RequestInfo | URL): string {
+    const url = new URL(
+      typeof request === 'string' ? request : request.toString(),
+      'http://localhost'
+    );
+    return `${url.origin}${url.pathname}`;
+  }
+
+  async put(request: RequestInfo | URL, response: Response): Promise<void> {
+    this.entries.set(this.key(request), response);
+  }
+
+  async match(request: RequestInfo | URL): Promise<Response | undefined> {
+    return this.entries.get(this.key(request))?.clone();
+  }
+
+  async delete(request: RequestInfo | URL): Promise<boolean> {
+    return this.entries.delete(this.key(request));
+  }
+}
+
+function createCacheStorage() {
+  const caches = new Map<string, MemoryCache>();
+  return {
+    caches,
+    storage: {
+      open: vi.fn(async (name: string) => {
+        if (!caches.has(name)) {
+          caches.set(name, new MemoryCache());
+        }
+        return caches.get(name)!;
+      }),
+      delete: vi.fn(async (name: string) => caches.delete(name)),
+      keys: vi.fn(async () => Array.from(caches.keys())),
+    },
+  };
+}
+
+const apiUrl = (id: number) => `${appConfig.api.baseUrl}/articles/${id}`;
+
+const OFFLINE_INDEX_STORAGE_KEY = getOfflineIndexStorageKey(null);
+
+/**
+ * Wait for the fire-and-forget service worker user record
+ */
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('OfflineArticleStore', () => {
+  let cacheStorage: ReturnType<typeof createCacheStorage>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    cacheStorage = createCacheStorage();
+    vi.stubGlobal('caches', cacheStorage.storage);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('<html></html>')));
+    OfflineArticleStore.resetInstance();
+  });
+
+  afterEach(() => {
+    OfflineArticleStore.resetInstance();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const getCache = (userId: string | null = null) =>
+    cacheStorage.caches.get(getOfflineArticlesCacheName(userId));
+
+  describe('pin', () => {
+    it('should cache the article payload and detail page', async () => {
+      const article = createMockArticle({ id: 1, title: 'Offline Article' });
+
+      const pinned = await getOfflineArticleStore().pin(article);
+
+      expect(pinned).toBe(true);
+      const payload = await getCache()?.match(apiUrl(1));
+      expect(await payload?.json()).toEqual(article);
+      expect(await getCache()?.match('/articles/1')).toBeDefined();
+      expect(getOfflineArticleStore().isAvailableOffline(1)).toBe(true);
+    });
+
+    it('should still pin the payload when the detail page cannot be fetched', async () => {
+      vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const pinned = await getOfflineArticleStore().pin(createMockArticle({ id: 1 }));
+
+      expect(pinned).toBe(true);
+      expect(await getCache()?.match('/articles/1')).toBeUndefined();
+    });
+
+    it('should persist the index to localStorage', async () => {
+      await getOfflineArticleStore().pin(createMockArticle({ id: 1, title: 'Saved' }));
+
+      const stored = JSON.parse(localStorage.getItem(OFFLINE_INDEX_STORAGE_KEY) ?? '{}');
+      expect(stored.entries).toEqual([
+        expect.objectContaining({ articleId: 1, title: 'Saved', reason: 'recent' }),
+      ]);
+    });
+
+    it('should not downgrade a bookmarked article when it is viewed', async () => {
+      const store = getOfflineArticleStore();
+      const article = createMockArticle({ id: 1 });
+      await store.pin(article, 'bookmark');
+
+      await store.pin(article, 'recent');
+
+      expect(store.getSnapshot().get(1)?.reason).toBe('bookmark');
+    });
+
+    it('should return false when Cache Storage is unavailable', async () => {
+      vi.stubGlobal('caches', undefined);
+
+      const pinned = await getOfflineArticleStore().pin(createMockArticle({ id: 1 }));
+
+      expect(pinned).toBe(false);
+      expect(getOfflineArticleStore().isAvailableOffline(1)).toBe(false);
+    });
+  });
+
+  describe('Quota', () => {
+    it('should evict the oldest recently viewed articles beyond the recent quota', async () => {
+      const store = getOfflineArticleStore();
+      let now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now++);
+
+      for (let id = 1; id <= pwaConfig.offline.maxRecentArticles + 1; id++) {
+        await store.pin(createMockArticle({ id }));
+      }
+
+      expect(store.isAvailableOffline(1)).toBe(false);
+      expect(await getCache()?.match(apiUrl(1))).toBeUndefined();
+      expect(store.getSnapshot().size).toBe(pwaConfig.offline.maxRecentArticles);
+    });
+
+    it('should not count bookmarked articles against the recent quota', async () => {
+      const store = getOfflineArticleStore();
+      let now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now++);
+      await store.pin(createMockArticle({ id: 1 }), 'bookmark');
+
+      for (let id = 2; id <= pwaConfig.offline.maxRecentArticles + 1; id++) {
+        await store.pin(createMockArticle({ id }));
+      }
+
+      expect(store.isAvailableOffline(1)).toBe(true);
+      expect(store.getSnapshot().size).toBe(pwaConfig.offline.maxRecentArticles + 1);
+    });
+
+    it('should move a released bookmark into the recent pool', async () => {
+      const store = getOfflineArticleStore();
+      await store.pin(createMockArticle({ id: 1 }), 'bookmark');
+
+      await store.release(1);
+
+      expect(store.getSnapshot().get(1)?.reason).toBe('recent');
+    });
+  });
+
+  describe('unpin / clearAll', () => {
+    it('should remove an article from the index and the cache', async () => {
+      const store = getOfflineArticleStore();
+      await store.pin(createMockArticle({ id: 1 }));
+
+      await store.unpin(1);
+
+      expect(store.isAvailableOffline(1)).toBe(false);
+      expect(await getCache()?.match(apiUrl(1))).toBeUndefined();
+      expect(await getCache()?.match('/articles/1')).toBeUndefined();
+    });
+
+    it('should delete the whole cache on clearAll', async () => {
+      const store = getOfflineArticleStore();
+      await store.pin(createMockArticle({ id: 1 }));
+
+      await store.clearAll();
+
+      expect(store.getSnapshot().size).toBe(0);
+      expect(cacheStorage.storage.delete).toHaveBeenCalledWith(getOfflineArticlesCacheName(null));
+    });
+
+    it('should remove the offline articles of every user on purgeAllUsers', async () => {
+      const store = getOfflineArticleStore();
+      store.setUser('user-1');
+      await store.pin(createMockArticle({ id: 1 }));
+      store.setUser('user-2');
+      await store.pin(createMockArticle({ id: 2 }));
+      localStorage.setItem('unrelated', 'kept');
+
+      await store.purgeAllUsers();
+
+      expect(store.getSnapshot().size).toBe(0);
+      expect(localStorage.getItem(getOfflineIndexStorageKey('user-1'))).toBeNull();
+      expect(localStorage.getItem(getOfflineIndexStorageKey('user-2'))).toBeNull();
+      expect(localStorage.getItem('unrelated')).toBe('kept');
+      expect(Array.from(cacheStorage.caches.keys())).toEqual([]);
+    });
+  });
+
+  describe('Users', () => {
+    it('should keep offline articles separate per user', async () => {
+      const store = getOfflineArticleStore();
+      store.setUser('user-1');
+      await store.pin(createMockArticle({ id: 1 }), 'bookmark');
+
+      store.setUser('user-2');
+
+      expect(store.isAvailableOffline(1)).toBe(false);
+      expect(store.getSnapshot().size).toBe(0);
+      expect(await getCache('user-2')?.match(apiUrl(1))).toBeUndefined();
+
+      store.setUser('user-1');
+
+      expect(store.getSnapshot().get(1)?.reason).toBe('bookmark');
+      expect(await getCache('user-1')?.match(apiUrl(1))).toBeDefined();
+    });
+
+    it("should only serve the active user's articles to the service worker", async () => {
+      const store = getOfflineArticleStore();
+      store.setUser('user-1');
+      await flushPromises();
+      await store.pin(createMockArticle({ id: 1 }));
+
+      expect(await matchOfflineArticle(apiUrl(1))).toBeDefined();
+
+      store.setUser('user-2');
+      await flushPromises();
+
+      expect(await matchOfflineArticle(apiUrl(1))).toBeUndefined();
+    });
+
+    it('should remove the unscoped index and cache of earlier versions', async () => {
+      localStorage.setItem(
+        OFFLINE_INDEX_STORAGE_KEY_PREFIX,
+        JSON.stringify({
+          version: 1,
+          entries: [{ articleId: 1, title: 'Legacy', reason: 'bookmark', pinnedAt: 1 }],
+        })
+      );
+      await (await caches.open(OFFLINE_ARTICLES_CACHE)).put(apiUrl(1), new Response('{}'));
+      OfflineArticleStore.resetInstance();
+
+      const store = getOfflineArticleStore();
+      store.setUser('user-1');
+      await flushPromises();
+
+      expect(store.isAvailableOffline(1)).toBe(false);
+      expect(localStorage.getItem(OFFLINE_INDEX_STORAGE_KEY_PREFIX)).toBeNull();
+      expect(
+        await cacheStorage.caches.get(OFFLINE_ARTICLES_CACHE)?.match(apiUrl(1))
+      ).toBeUndefined();
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should drop entries whose payload was evicted by the browser', async () => {
+      const store = getOfflineArticleStore();
+      await store.pin(createMockArticle({ id: 1 }));
+      await store.pin(createMockArticle({ id: 2 }));
+      await getCache()?.delete(apiUrl(1));
+
+      await store.reconcile();
+
+      expect(store.isAvailableOffline(1)).toBe(false);
+      expect(store.isAvailableOffline(2)).toBe(true);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should notify subscribers when an article is pinned', async () => {
+      const store = getOfflineArticleStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.pin(createMockArticle({ id: 1 }));
+
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should restore the index from localStorage on init', async () => {
+      await getOfflineArticleStore().pin(createMockArticle({ id: 7 }));
+      OfflineArticleStore.resetInstance();
+
+      expect(getOfflineArticleStore().isAvailableOffline(7)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Offline Article Cache
+ *
+ * Cache name, URL matching and lookups shared by the service worker and the
+ * page-side OfflineArticleStore. Only uses APIs available in both contexts
+ * (Cache Storage, URL), so it can be bundled into the worker.
+ *
+ * Pinned articles live in one cache per user. The worker cannot tell who is
+ * signed in, so the page records the active user in the base cache
+ * (`OFFLINE_ARTICLES_CACHE`) and the worker only serves that user's cache.
+ *
+ * @module lib/offline/articleCache
+ */
+
+import { pwaConfig } from '@/config/pwa.config';
+
+/**
+ * Base cache name: prefix of the per-user caches holding pinned article
+ * payloads and detail pages, and the cache recording the active user
+ */
+export const OFFLINE_ARTICLES_CACHE = pwaConfig.offline.cacheName;
+
+/**
+ * Entry of the base cache holding the active user's ID
+ */
+const ACTIVE_USER_URL = '/__offline-articles-user';
+
+/**
+ * Precached page shown for navigations that fail while offline
+ */
+export const OFFLINE_FALLBACK_URL = pwaConfig.offline.fallbackUrl;
+
+/**
+ * Same-origin article detail route (/articles/123)
+ */
+const ARTICLE_DETAIL_PATH_PATTERN = /^\/articles\/\d+\/?$/;
+
+/**
+ * Article API endpoint (GET {apiBaseUrl}/articles/123)
+ */
+const ARTICLE_API_PATH_PATTERN = /\/articles\/\d+\/?$/;
+
+/**
+ * Get the detail route for an article
+ *
+ * @param articleId - Article ID
+ * @returns Detail route path (e.g., '/articles/123')
+ */
+export function getArticleDetailPath(articleId: number): string {
+  return `/articles/${articleId}`;
+}
+
+/**
+ * Check whether a path is an article detail route
+ *
+ * @param pathname - URL pathname
+ */
+export function isArticleDetailPath(pathname: string): boolean {
+  return ARTICLE_DETAIL_PATH_PATTERN.test(pathname);
+}
+
+/**
+ * Check whether a path is the article API endpoint used by getArticle
+ *
+ * @param pathname - URL pathname
+ */
+export function isArticleApiPath(pathname: string): boolean {
+  return ARTICLE_API_PATH_PATTERN.test(pathname);
+}
+
+/**
+ * Get the cache holding a user's pinned articles
+ *
+ * @param userId - User ID, or null when signed out
+ * @returns Cache name
+ */
+export function getOfflineArticlesCacheName(userId: string | null): string {
+  return `${OFFLINE_ARTICLES_CACHE}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Check whether a cache holds offline articles (any user's, or the base cache)
+ *
+ * @param cacheName - Cache name
+ */
+export function isOfflineArticlesCache(cacheName: string): boolean {
+  return cacheName === OFFLINE_ARTICLES_CACHE || cacheName.startsWith(`${OFFLINE_ARTICLES_CACHE}:`);
+}
+
+/**
+ * Record whose pinned articles the service worker serves
+ *
+ * Recreates the base cache, which also drops entries pinned by earlier
+ * versions before articles were stored per user.
+ *
+ * @param userId - User ID, or null when signed out
+ */
+export async function setOfflineArticlesUser(userId: string | null): Promise<void> {
+  await caches.delete(OFFLINE_ARTICLES_CACHE);
+  const cache = await caches.open(OFFLINE_ARTICLES_CACHE);
+  await cache.put(ACTIVE_USER_URL, new Response(getOfflineArticlesCacheName(userId)));
+}
+
+/**
+ * Look up a pinned response in the active user's offline articles cache
+ *
+ * Query strings and Vary headers are ignored, so requests carrying auth
+ * headers or cache-busting parameters still match the pinned entry.
+ *
+ * @param request - Request or URL to look up
+ * @returns Pinned response, or undefined if the article is not pinned
+ */
+export async function matchOfflineArticle(
+  request: Request | string
+): Promise<Response | undefined> {
+  const activeUser = await (await caches.open(OFFLINE_ARTICLES_CACHE)).match(ACTIVE_USER_URL);
+  if (!activeUser) {
+    return undefined;
+  }
+
+  const cacheName = await activeUser.text();
+  if (!isOfflineArticlesCache(cacheName)) {
+    return undefined;
+  }
+
+  const cache = await caches.open(cacheName);
+  return cache.match(request, { ignoreSearch: true, ignoreVary: true });
+}
@@ -0,0 +1,453 @@
+/**
+ * Bookmark Store
+ *
+ * Client-side "Read later" collection backed by IndexedDB.
+ * Bookmarks are scoped per user and live in their own database, so they are
+ * not touched by TokenManager.clearAll() and are still there after the user
+ * logs out and back in.
+ *
+ * Features:
+ * - Per-user records (keyed by user ID + article ID)
+ * - Article snapshots stored alongside each bookmark, so the list renders
+ *   without refetching every article
+ * - In-memory fallback when IndexedDB is unavailable (private mode, SSR, tests)
+ * - Multi-tab synchronization via BroadcastChannel
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ *
+ * @module lib/reading/BookmarkStore
+ */
+
+import { logger } from '@/lib/logger';
+import type { Article } from '@/types/api';
+
+/**
+ * A bookmarked article
+ */
+export interface Bookmark {
+  /** Article snapshot taken when the bookmark was created */
+  article: Article;
+  /** When the article was bookmarked (Unix timestamp in milliseconds) */
+  bookmarkedAt: number;
+}
+
+/**
+ * Immutable snapshot of the current user's bookmarks (article ID → bookmark)
+ */
+export type BookmarkSnapshot = ReadonlyMap<number, Bookmark>;
+
+/**
+ * Shape stored in IndexedDB
+ */
+interface BookmarkRecord extends Bookmark {
+  userId: string;
+  articleId: number;
+}
+
+/**
+ * Message types for BroadcastChannel communication
+ */
+type BookmarkMessage = { type: 'changed'; userId: string };
+
+/**
+ * IndexedDB database name
+ */
+export const BOOKMARK_DB_NAME = 'catchup_feed_bookmarks';
+
+/**
+ * IndexedDB schema version
+ */
+const BOOKMARK_DB_VERSION = 1;
+
+/**
+ * IndexedDB object store holding bookmark records
+ */
+const BOOKMARK_STORE_NAME = 'bookmarks';
+
+/**
+ * Index on the user ID, used to load one user's bookmarks
+ */
+const USER_INDEX_NAME = 'userId';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * BookmarkStore class for the "Read later" collection
+ *
+ * Singleton pattern ensures every component observes the same state.
+ */
+export class BookmarkStore {
+  private static instance: BookmarkStore | null = null;
+  private userId: string | null = null;
+  private bookmarks: Map<number, Bookmark> = new Map();
+  private snapshot: BookmarkSnapshot = new Map();
+  private loaded: boolean = false;
+  private listeners: Set<() => void> = new Set();
+  private isIndexedDBAvailable: boolean = false;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private memoryRecords: Map<string, Map<number, Bookmark>> = new Map();
+  private broadcastChannel: BroadcastChannel | null = null;
+  private readonly CHANNEL_NAME = 'catchup_feed_bookmark_sync';
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.isIndexedDBAvailable = typeof indexedDB !== 'undefined';
+
+    if (!this.isIndexedDBAvailable) {
+      logger.debug('IndexedDB is not available, bookmarks will not persist');
+    }
+
+    if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
+      try {
+        this.broadcastChannel = new BroadcastChannel(this.CHANNEL_NAME);
+        this.broadcastChannel.onmessage = this.handleBroadcastMessage.bind(this);
+      } catch (error) {
+        logger.warn('Failed to initialize BroadcastChannel for bookmarks', { error });
+        this.broadcastChannel = null;
+      }
+    }
+  }
+
+  /**
+   * Get singleton instance of BookmarkStore
+   */
+  public static getInstance(): BookmarkStore {
+    if (!BookmarkStore.instance) {
+      BookmarkStore.instance = new BookmarkStore();
+    }
+    return BookmarkStore.instance;
+  }
+
+  /**
+   * Reset the singleton (for tests)
+   */
+  public static resetInstance(): void {
+    BookmarkStore.instance?.destroy();
+    BookmarkStore.instance = null;
+  }
+
+  /**
+   * Open (and create if needed) the bookmarks database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(BOOKMARK_DB_NAME, BOOKMARK_DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(BOOKMARK_STORE_NAME)) {
+            const store = db.createObjectStore(BOOKMARK_STORE_NAME, {
+              keyPath: ['userId', 'articleId'],
+            });
+            store.createIndex(USER_INDEX_NAME, 'userId', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        logger.warn('Failed to open bookmarks database, falling back to memory', { error });
+        this.isIndexedDBAvailable = false;
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Get the in-memory fallback records for a user
+   */
+  private getMemoryRecords(userId: string): Map<number, Bookmark> {
+    let records = this.memoryRecords.get(userId);
+    if (!records) {
+      records = new Map();
+      this.memoryRecords.set(userId, records);
+    }
+    return records;
+  }
+
+  /**
+   * Read all bookmarks of a user from storage
+   */
+  private async readAll(userId: string): Promise<Map<number, Bookmark>> {
+    if (!this.isIndexedDBAvailable) {
+      return new Map(this.getMemoryRecords(userId));
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readonly');
+    const index = transaction.objectStore(BOOKMARK_STORE_NAME).index(USER_INDEX_NAME);
+    const records = await requestToPromise(
+      index.getAll(IDBKeyRange.only(userId)) as IDBRequest<BookmarkRecord[]>
+    );
+
+    return new Map(
+      records.map((record) => [
+        record.articleId,
+        { article: record.article, bookmarkedAt: record.bookmarkedAt },
+      ])
+    );
+  }
+
+  /**
+   * Write a bookmark to storage
+   */
+  private async writeRecord(userId: string, bookmark: Bookmark): Promise<void> {
+    if (!this.isIndexedDBAvailable) {
+      this.getMemoryRecords(userId).set(bookmark.article.id, bookmark);
+      return;
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readwrite');
+    const record: BookmarkRecord = { ...bookmark, userId, articleId: bookmark.article.id };
+    transaction.objectStore(BOOKMARK_STORE_NAME).put(record);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Delete a bookmark from storage
+   */
+  private async deleteRecord(userId: string, articleId: number): Promise<void> {
+    if (!this.isIndexedDBAvailable) {
+      this.getMemoryRecords(userId).delete(articleId);
+      return;
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readwrite');
+    transaction.objectStore(BOOKMARK_STORE_NAME).delete([userId, articleId]);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Load the current user's bookmarks into memory
+   */
+  private load(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) {
+      this.loaded = true;
+      this.emitChange();
+      return Promise.resolve();
+    }
+
+    this.loadPromise = (async () => {
+      try {
+        const bookmarks = await this.readAll(userId);
+        // Ignore results if the user changed while loading
+        if (this.userId !== userId) {
+          return;
+        }
+        this.bookmarks = bookmarks;
+      } catch (error) {
+        logger.error('Failed to load bookmarks', error as Error);
+        if (this.userId === userId && !this.isIndexedDBAvailable) {
+          this.bookmarks = new Map(this.getMemoryRecords(userId));
+        }
+      }
+      this.loaded = true;
+      this.emitChange();
+    })();
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Handle BroadcastChannel messages from other tabs
+   */
+  private handleBroadcastMessage(event: MessageEvent<BookmarkMessage>): void {
+    const message = event.data;
+
+    if (message.type === 'changed' && message.userId === this.userId) {
+      void this.load();
+    }
+  }
+
+  /**
+   * Notify other tabs that the current user's bookmarks changed
+   */
+  private broadcast(userId: string): void {
+    if (this.broadcastChannel) {
+      try {
+        this.broadcastChannel.postMessage({ type: 'changed', userId } satisfies BookmarkMessage);
+      } catch (error) {
+        logger.warn('Failed to broadcast bookmark change', { error });
+      }
+    }
+  }
+
+  /**
+   * Refresh the snapshot and notify subscribers
+   */
+  private emitChange(): void {
+    this.snapshot = new Map(this.bookmarks);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Switch the store to a user and load their bookmarks
+   *
+   * No-op if the user is already active. Pass null when nobody is signed in;
+   * the store then holds no bookmarks and ignores writes.
+   *
+   * @param userId - Current user ID, or null
+   */
+  public setUser(userId: string | null): Promise<void> {
+    if (userId === this.userId && (this.loaded || this.loadPromise)) {
+      return this.loadPromise ?? Promise.resolve();
+    }
+
+    this.userId = userId;
+    this.bookmarks = new Map();
+    this.loaded = false;
+    this.emitChange();
+
+    return this.load();
+  }
+
+  /**
+   * Get the user whose bookmarks are loaded
+   */
+  public getUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * Whether the current user's bookmarks have finished loading
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Subscribe to bookmark changes
+   * @param listener - Called whenever bookmarks change
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get an immutable snapshot of the current user's bookmarks
+   * The same object is returned until the state changes.
+   */
+  public getSnapshot(): BookmarkSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Check whether an article is bookmarked
+   * @param articleId - Article ID
+   */
+  public isBookmarked(articleId: number): boolean {
+    return this.bookmarks.has(articleId);
+  }
+
+  /**
+   * Bookmark an article
+   *
+   * The in-memory state updates immediately; the write to IndexedDB follows.
+   * No-op if nobody is signed in.
+   *
+   * @param article - Article to bookmark
+   */
+  public async add(article: Article): Promise<void> {
+    const userId = this.userId;
+    if (!userId) {
+      logger.warn('Cannot bookmark article without a signed-in user', { articleId: article.id });
+      return;
+    }
+
+    const bookmark: Bookmark = { article, bookmarkedAt: Date.now() };
+    this.bookmarks.set(article.id, bookmark);
+    this.emitChange();
+
+    try {
+      await this.writeRecord(userId, bookmark);
+      this.broadcast(userId);
+    } catch (error) {
+      logger.error('Failed to save bookmark', error as Error, { articleId: article.id });
+    }
+  }
+
+  /**
+   * Remove a bookmark
+   * @param articleId - Article ID
+   */
+  public async remove(articleId: number): Promise<void> {
+    const userId = this.userId;
+    if (!userId || !this.bookmarks.has(articleId)) {
+      return;
+    }
+
+    this.bookmarks.delete(articleId);
+    this.emitChange();
+
+    try {
+      await this.deleteRecord(userId, articleId);
+      this.broadcast(userId);
+    } catch (error) {
+      logger.error('Failed to remove bookmark', error as Error, { articleId });
+    }
+  }
+
+  /**
+   * Toggle the bookmark for an article
+   * @param article - Article to bookmark or un-bookmark
+   */
+  public toggle(article: Article): Promise<void> {
+    return this.isBookmarked(article.id) ? this.remove(article.id) : this.add(article);
+  }
+
+  /**
+   * Cleanup resources (call on unmount if needed)
+   */
+  public destroy(): void {
+    if (this.broadcastChannel) {
+      this.broadcastChannel.close();
+      this.broadcastChannel = null;
+    }
+    if (this.dbPromise) {
+      this.dbPromise.then((db) => db.close()).catch(() => undefined);
+      this.dbPromise = null;
+    }
+    this.listeners.clear();
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Get singleton BookmarkStore instance
+ */
+export function getBookmarkStore(): BookmarkStore {
+  return BookmarkStore.getInstance();
+}
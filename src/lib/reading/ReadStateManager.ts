@@ -0,0 +1,480 @@
+/**
+ * Read State Manager
+ *
+ * Client-side store for article read/unread state.
+ * Persists to localStorage so read state survives reloads and works offline,
+ * and keeps open tabs in sync via BroadcastChannel.
+ *
+ * Read state is scoped per user (one localStorage key per user ID, see
+ * `setUser`), so it does not leak to the next user signing in on the device.
+ *
+ * Features:
+ * - In-memory fallback when localStorage is blocked
+ * - Multi-tab synchronization via BroadcastChannel
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ * - Pending change queue that can be flushed to a backend endpoint
+ *
+ * @module lib/reading/ReadStateManager
+ */
+
+import { logger } from '@/lib/logger';
+import { getUserId } from '@/lib/auth/role';
+
+/**
+ * A single read state change waiting to be synced to the backend
+ */
+export interface ReadStateChange {
+  /** Article ID */
+  articleId: number;
+  /** Whether the article was marked read (true) or unread (false) */
+  read: boolean;
+  /** When the change happened (Unix timestamp in milliseconds) */
+  changedAt: number;
+}
+
+/**
+ * Function that pushes pending changes to a backend.
+ * Should throw if the changes could not be persisted.
+ */
+export type ReadStateSyncHandler = (changes: ReadStateChange[]) => Promise<void>;
+
+/**
+ * Immutable snapshot of read articles (article ID → read timestamp in ms)
+ */
+export type ReadStateSnapshot = ReadonlyMap<number, number>;
+
+/**
+ * Shape persisted in localStorage
+ */
+interface PersistedReadState {
+  version: 1;
+  read: Record<string, number>;
+  pending: ReadStateChange[];
+}
+
+/**
+ * Message types for BroadcastChannel communication
+ */
+type ReadStateMessage =
+  | { type: 'set'; userId: string | null; articleId: number; readAt: number | null }
+  | { type: 'clear'; userId: string | null };
+
+/**
+ * Prefix of the localStorage keys holding read state (one key per user)
+ */
+export const READ_STATE_STORAGE_KEY_PREFIX = 'catchup_feed_read_state';
+
+/**
+ * Maximum number of read entries kept locally (oldest entries are evicted first)
+ */
+export const READ_STATE_MAX_ENTRIES = 5000;
+
+/**
+ * Get the localStorage key of a user's read state
+ *
+ * @param userId - User ID, or null when signed out
+ * @returns Storage key
+ */
+export function getReadStateStorageKey(userId: string | null): string {
+  return `${READ_STATE_STORAGE_KEY_PREFIX}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * ReadStateManager class for article read state
+ *
+ * Singleton pattern ensures every component observes the same state.
+ */
+export class ReadStateManager {
+  private static instance: ReadStateManager | null = null;
+  private userId: string | null = null;
+  private read: Map<number, number> = new Map();
+  private pending: Map<number, ReadStateChange> = new Map();
+  private snapshot: ReadStateSnapshot = new Map();
+  private listeners: Set<() => void> = new Set();
+  private isLocalStorageAvailable: boolean = false;
+  private broadcastChannel: BroadcastChannel | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private readonly CHANNEL_NAME = 'catchup_feed_read_state_sync';
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.isLocalStorageAvailable = this.checkLocalStorageAvailability();
+
+    if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
+      try {
+        this.broadcastChannel = new BroadcastChannel(this.CHANNEL_NAME);
+        this.broadcastChannel.onmessage = this.handleBroadcastMessage.bind(this);
+      } catch (error) {
+        logger.warn('Failed to initialize BroadcastChannel for read state', { error });
+        this.broadcastChannel = null;
+      }
+    }
+
+    // Start with the signed-in user, so the first snapshot is already theirs
+    this.userId = getUserId();
+    if (this.isLocalStorageAvailable) {
+      this.loadFromLocalStorage();
+    }
+
+    this.snapshot = new Map(this.read);
+  }
+
+  /**
+   * Get singleton instance of ReadStateManager
+   */
+  public static getInstance(): ReadStateManager {
+    if (!ReadStateManager.instance) {
+      ReadStateManager.instance = new ReadStateManager();
+    }
+    return ReadStateManager.instance;
+  }
+
+  /**
+   * Reset the singleton (for tests)
+   */
+  public static resetInstance(): void {
+    ReadStateManager.instance?.destroy();
+    ReadStateManager.instance = null;
+  }
+
+  /**
+   * Check if localStorage is available and writable
+   */
+  private checkLocalStorageAvailability(): boolean {
+    if (typeof window === 'undefined') {
+      return false;
+    }
+
+    try {
+      const testKey = '__catchup_feed_read_state_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (error) {
+      logger.warn('localStorage is not available, read state will not persist', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Load the current user's persisted read state from localStorage
+   */
+  private loadFromLocalStorage(): void {
+    try {
+      const raw = localStorage.getItem(getReadStateStorageKey(this.userId));
+      if (!raw) {
+        return;
+      }
+
+      const parsed = JSON.parse(raw) as Partial<PersistedReadState>;
+      if (parsed.version !== 1) {
+        return;
+      }
+
+      for (const [id, readAt] of Object.entries(parsed.read ?? {})) {
+        const articleId = Number(id);
+        if (Number.isInteger(articleId) && typeof readAt === 'number') {
+          this.read.set(articleId, readAt);
+        }
+      }
+
+      for (const change of parsed.pending ?? []) {
+        if (typeof change?.articleId === 'number' && typeof change.read === 'boolean') {
+          this.pending.set(change.articleId, change);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to load read state from localStorage', error as Error);
+    }
+  }
+
+  /**
+   * Persist current state to localStorage
+   */
+  private persist(): void {
+    if (!this.isLocalStorageAvailable) {
+      return;
+    }
+
+    try {
+      const data: PersistedReadState = {
+        version: 1,
+        read: Object.fromEntries(this.read),
+        pending: Array.from(this.pending.values()),
+      };
+      localStorage.setItem(getReadStateStorageKey(this.userId), JSON.stringify(data));
+    } catch (error) {
+      logger.warn('Failed to persist read state', { error });
+    }
+  }
+
+  /**
+   * Handle BroadcastChannel messages from other tabs
+   */
+  private handleBroadcastMessage(event: MessageEvent<ReadStateMessage>): void {
+    const message = event.data;
+    if (message.userId !== this.userId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'set':
+        if (message.readAt === null) {
+          this.read.delete(message.articleId);
+        } else {
+          this.read.set(message.articleId, message.readAt);
+        }
+        break;
+
+      case 'clear':
+        this.read.clear();
+        this.pending.clear();
+        break;
+    }
+
+    this.emitChange();
+  }
+
+  /**
+   * Broadcast a change to other tabs
+   */
+  private broadcast(message: ReadStateMessage): void {
+    if (this.broadcastChannel) {
+      try {
+        this.broadcastChannel.postMessage(message);
+      } catch (error) {
+        logger.warn('Failed to broadcast read state change', { error });
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest entries once the local cap is exceeded
+   */
+  private evictOldest(): void {
+    if (this.read.size <= READ_STATE_MAX_ENTRIES) {
+      return;
+    }
+
+    const sorted = Array.from(this.read.entries()).sort((a, b) => a[1] - b[1]);
+    const excess = this.read.size - READ_STATE_MAX_ENTRIES;
+    for (const [articleId] of sorted.slice(0, excess)) {
+      this.read.delete(articleId);
+    }
+  }
+
+  /**
+   * Refresh the snapshot and notify subscribers
+   */
+  private emitChange(): void {
+    this.snapshot = new Map(this.read);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Apply a read/unread change locally, queue it for sync and notify listeners
+   */
+  private apply(articleId: number, read: boolean): void {
+    const now = Date.now();
+
+    if (read) {
+      this.read.set(articleId, now);
+      this.evictOldest();
+    } else {
+      this.read.delete(articleId);
+    }
+
+    this.pending.set(articleId, { articleId, read, changedAt: now });
+    this.persist();
+    this.broadcast({ type: 'set', userId: this.userId, articleId, readAt: read ? now : null });
+    this.emitChange();
+  }
+
+  /**
+   * Switch the manager to a user and load their read state
+   *
+   * No-op if the user is already active. Pass null when nobody is signed in.
+   *
+   * @param userId - Current user ID, or null
+   */
+  public setUser(userId: string | null): void {
+    if (userId === this.userId) {
+      return;
+    }
+
+    this.userId = userId;
+    this.read = new Map();
+    this.pending = new Map();
+    if (this.isLocalStorageAvailable) {
+      this.loadFromLocalStorage();
+    }
+    this.emitChange();
+  }
+
+  /**
+   * Get the user whose read state is loaded
+   */
+  public getUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * Subscribe to read state changes
+   * @param listener - Called whenever read state changes
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get an immutable snapshot of read articles
+   * The same object is returned until the state changes.
+   */
+  public getSnapshot(): ReadStateSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Check whether an article has been read
+   * @param articleId - Article ID
+   */
+  public isRead(articleId: number): boolean {
+    return this.read.has(articleId);
+  }
+
+  /**
+   * Get when an article was read
+   * @param articleId - Article ID
+   * @returns Unix timestamp in milliseconds, or null if unread
+   */
+  public getReadAt(articleId: number): number | null {
+    return this.read.get(articleId) ?? null;
+  }
+
+  /**
+   * Mark an article as read
+   * No-op if the article is already read.
+   * @param articleId - Article ID
+   */
+  public markRead(articleId: number): void {
+    if (this.read.has(articleId)) {
+      return;
+    }
+    this.apply(articleId, true);
+  }
+
+  /**
+   * Mark an article as unread
+   * No-op if the article is already unread.
+   * @param articleId - Article ID
+   */
+  public markUnread(articleId: number): void {
+    if (!this.read.has(articleId)) {
+      return;
+    }
+    this.apply(articleId, false);
+  }
+
+  /**
+   * Get changes that have not been synced to the backend yet
+   */
+  public getPendingChanges(): ReadStateChange[] {
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Push pending changes to the backend
+   *
+   * Changes made while a sync is in flight stay queued for the next sync.
+   * On failure all changes remain queued, so callers can simply retry later
+   * (e.g. when the browser comes back online).
+   *
+   * @param handler - Function that sends changes to the backend
+   */
+  public async sync(handler: ReadStateSyncHandler): Promise<void> {
+    if (this.syncPromise) {
+      return this.syncPromise;
+    }
+
+    const changes = this.getPendingChanges();
+    if (changes.length === 0) {
+      return;
+    }
+
+    const userId = this.userId;
+    this.syncPromise = (async () => {
+      try {
+        await handler(changes);
+        // The changes stay queued under the previous user's key
+        if (this.userId !== userId) {
+          return;
+        }
+
+        // Only drop changes that were not superseded while syncing
+        for (const change of changes) {
+          if (this.pending.get(change.articleId)?.changedAt === change.changedAt) {
+            this.pending.delete(change.articleId);
+          }
+        }
+        this.persist();
+        logger.debug('Read state synced', { count: changes.length });
+      } catch (error) {
+        logger.warn('Read state sync failed, changes kept for retry', {
+          error,
+          count: changes.length,
+        });
+      } finally {
+        this.syncPromise = null;
+      }
+    })();
+
+    return this.syncPromise;
+  }
+
+  /**
+   * Clear the current user's read state (local and pending)
+   */
+  public clearAll(): void {
+    this.read.clear();
+    this.pending.clear();
+
+    if (this.isLocalStorageAvailable) {
+      try {
+        localStorage.removeItem(getReadStateStorageKey(this.userId));
+      } catch (error) {
+        logger.warn('Failed to clear read state', { error });
+      }
+    }
+
+    this.broadcast({ type: 'clear', userId: this.userId });
+    this.emitChange();
+  }
+
+  /**
+   * Cleanup resources (call on unmount if needed)
+   */
+  public destroy(): void {
+    if (this.broadcastChannel) {
+      this.broadcastChannel.close();
+      this.broadcastChannel = null;
+    }
+    this.listeners.clear();
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Get singleton ReadStateManager instance
+ */
+export function getReadStateManager(): ReadStateManager {
+  return ReadStateManager.getInstance();
+}
@@ -0,0 +1,167 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BookmarkStore, getBookmarkStore } from '../BookmarkStore';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import { clearAllTokens } from '@/lib/auth/TokenManager';
+
+describe('BookmarkStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    BookmarkStore.resetInstance();
+  });
+
+  afterEach(() => {
+    BookmarkStore.resetInstance();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('Singleton', () => {
+    it('should return the same instance', () => {
+      expect(getBookmarkStore()).toBe(getBookmarkStore());
+    });
+  });
+
+  describe('add / remove / toggle', () => {
+    it('should bookmark an article', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+
+      await store.add(createMockArticle({ id: 1 }));
+
+      expect(store.isBookmarked(1)).toBe(true);
+      expect(store.getSnapshot().get(1)?.article.id).toBe(1);
+    });
+
+    it('should remove a bookmark', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      await store.add(createMockArticle({ id: 1 }));
+
+      await store.remove(1);
+
+      expect(store.isBookmarked(1)).toBe(false);
+    });
+
+    it('should toggle a bookmark', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      const article = createMockArticle({ id: 1 });
+
+      await store.toggle(article);
+      expect(store.isBookmarked(1)).toBe(true);
+
+      await store.toggle(article);
+      expect(store.isBookmarked(1)).toBe(false);
+    });
+
+    it('should update state before the write completes', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+
+      const pending = store.add(createMockArticle({ id: 1 }));
+
+      expect(store.isBookmarked(1)).toBe(true);
+      await pending;
+    });
+
+    it('should ignore writes when no user is signed in', async () => {
+      const store = getBookmarkStore();
+      await store.setUser(null);
+
+      await store.add(createMockArticle({ id: 1 }));
+
+      expect(store.isBookmarked(1)).toBe(false);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should restore bookmarks from IndexedDB', async () => {
+      const first = getBookmarkStore();
+      await first.setUser('user-1');
+      await first.add(createMockArticle({ id: 1, title: 'Saved' }));
+      BookmarkStore.resetInstance();
+
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+
+      expect(store.getSnapshot().get(1)?.article.title).toBe('Saved');
+    });
+
+    it('should keep bookmarks separate per user', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      await store.add(createMockArticle({ id: 1 }));
+
+      await store.setUser('user-2');
+      expect(store.isBookmarked(1)).toBe(false);
+
+      await store.setUser('user-1');
+      expect(store.isBookmarked(1)).toBe(true);
+    });
+
+    it('should survive clearing auth tokens on logout', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      await store.add(createMockArticle({ id: 1 }));
+
+      clearAllTokens();
+      BookmarkStore.resetInstance();
+      const restored = getBookmarkStore();
+      await restored.setUser('user-1');
+
+      expect(restored.isBookmarked(1)).toBe(true);
+    });
+  });
+
+  describe('Loading', () => {
+    it('should report loaded once bookmarks are read', async () => {
+      const store = getBookmarkStore();
+
+      const loading = store.setUser('user-1');
+      expect(store.isLoaded()).toBe(false);
+
+      await loading;
+      expect(store.isLoaded()).toBe(true);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should notify subscribers on change', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.add(createMockArticle({ id: 1 }));
+
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should return a stable snapshot until state changes', async () => {
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+      const first = store.getSnapshot();
+
+      expect(store.getSnapshot()).toBe(first);
+
+      await store.add(createMockArticle({ id: 1 }));
+
+      expect(store.getSnapshot()).not.toBe(first);
+    });
+  });
+
+  describe('In-memory fallback', () => {
+    it('should work without IndexedDB', async () => {
+      vi.stubGlobal('indexedDB', undefined);
+      BookmarkStore.resetInstance();
+      const store = getBookmarkStore();
+      await store.setUser('user-1');
+
+      await store.add(createMockArticle({ id: 1 }));
+
+      expect(store.isBookmarked(1)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ReadStateManager,
+  getReadStateManager,
+  READ_STATE_MAX_ENTRIES,
+  getReadStateStorageKey,
+} from '../ReadStateManager';
+
+const READ_STATE_STORAGE_KEY = getReadStateStorageKey(null);
+
+describe('ReadStateManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    ReadStateManager.resetInstance();
+  });
+
+  afterEach(() => {
+    ReadStateManager.resetInstance();
+    vi.restoreAllMocks();
+  });
+
+  describe('Singleton', () => {
+    it('should return the same instance', () => {
+      expect(getReadStateManager()).toBe(getReadStateManager());
+    });
+  });
+
+  describe('markRead / markUnread', () => {
+    it('should mark an article as read', () => {
+      const manager = getReadStateManager();
+
+      manager.markRead(1);
+
+      expect(manager.isRead(1)).toBe(true);
+      expect(manager.getReadAt(1)).toEqual(expect.any(Number));
+    });
+
+    it('should mark an article as unread', () => {
+      const manager = getReadStateManager();
+      manager.markRead(1);
+
+      manager.markUnread(1);
+
+      expect(manager.isRead(1)).toBe(false);
+      expect(manager.getReadAt(1)).toBeNull();
+    });
+
+    it('should keep the original read timestamp when marking read twice', () => {
+      const manager = getReadStateManager();
+      vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(2000);
+
+      manager.markRead(1);
+      manager.markRead(1);
+
+      expect(manager.getReadAt(1)).toBe(1000);
+    });
+
+    it('should evict the oldest entries once the cap is exceeded', () => {
+      const read: Record<string, number> = {};
+      for (let id = 1; id <= READ_STATE_MAX_ENTRIES; id++) {
+        read[id] = id;
+      }
+      localStorage.setItem(
+        READ_STATE_STORAGE_KEY,
+        JSON.stringify({ version: 1, read, pending: [] })
+      );
+      ReadStateManager.resetInstance();
+      const manager = getReadStateManager();
+
+      manager.markRead(READ_STATE_MAX_ENTRIES + 1);
+
+      expect(manager.isRead(1)).toBe(false);
+      expect(manager.isRead(READ_STATE_MAX_ENTRIES + 1)).toBe(true);
+      expect(manager.getSnapshot().size).toBe(READ_STATE_MAX_ENTRIES);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should persist read state to localStorage', () => {
+      getReadStateManager().markRead(42);
+
+      const stored = JSON.parse(localStorage.getItem(READ_STATE_STORAGE_KEY) ?? '{}');
+      expect(stored.version).toBe(1);
+      expect(stored.read).toHaveProperty('42');
+    });
+
+    it('should restore read state from localStorage on init', () => {
+      getReadStateManager().markRead(7);
+      ReadStateManager.resetInstance();
+
+      expect(getReadStateManager().isRead(7)).toBe(true);
+    });
+
+    it('should ignore malformed persisted data', () => {
+      localStorage.setItem(READ_STATE_STORAGE_KEY, 'not-json');
+      ReadStateManager.resetInstance();
+
+      expect(getReadStateManager().getSnapshot().size).toBe(0);
+    });
+
+    it('should remove persisted data on clearAll', () => {
+      const manager = getReadStateManager();
+      manager.markRead(1);
+
+      manager.clearAll();
+
+      expect(manager.isRead(1)).toBe(false);
+      expect(manager.getPendingChanges()).toEqual([]);
+      expect(localStorage.getItem(READ_STATE_STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe('Users', () => {
+    it('should keep read state separate per user', () => {
+      const manager = getReadStateManager();
+      manager.setUser('user-1');
+      manager.markRead(1);
+
+      manager.setUser('user-2');
+      expect(manager.isRead(1)).toBe(false);
+      manager.markRead(2);
+
+      manager.setUser('user-1');
+      expect(manager.isRead(1)).toBe(true);
+      expect(manager.isRead(2)).toBe(false);
+      expect(localStorage.getItem(getReadStateStorageKey('user-1'))).toContain('"1"');
+      expect(localStorage.getItem(getReadStateStorageKey('user-2'))).toContain('"2"');
+    });
+
+    it('should switch pending changes with the user', () => {
+      const manager = getReadStateManager();
+      manager.setUser('user-1');
+      manager.markRead(1);
+
+      manager.setUser('user-2');
+
+      expect(manager.getPendingChanges()).toEqual([]);
+    });
+
+    it('should notify subscribers when the user changes', () => {
+      const manager = getReadStateManager();
+      const listener = vi.fn();
+      manager.subscribe(listener);
+
+      manager.setUser('user-1');
+      manager.setUser('user-1');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should notify subscribers on change', () => {
+      const manager = getReadStateManager();
+      const listener = vi.fn();
+      manager.subscribe(listener);
+
+      manager.markRead(1);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      const manager = getReadStateManager();
+      const listener = vi.fn();
+      const unsubscribe = manager.subscribe(listener);
+
+      unsubscribe();
+      manager.markRead(1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should return a stable snapshot until state changes', () => {
+      const manager = getReadStateManager();
+      const first = manager.getSnapshot();
+
+      expect(manager.getSnapshot()).toBe(first);
+
+      manager.markRead(1);
+
+      expect(manager.getSnapshot()).not.toBe(first);
+      expect(manager.getSnapshot().has(1)).toBe(true);
+    });
+  });
+
+  describe('sync', () => {
+    it('should send pending changes and clear them on success', async () => {
+      const manager = getReadStateManager();
+      manager.markRead(1);
+      manager.markRead(2);
+      manager.markUnread(2);
+      const handler = vi.fn().mockResolvedValue(undefined);
+
+      await manager.sync(handler);
+
+      expect(handler).toHaveBeenCalledWith([
+        expect.objectContaining({ articleId: 1, read: true }),
+        expect.objectContaining({ articleId: 2, read: false }),
+      ]);
+      expect(manager.getPendingChanges()).toEqual([]);
+    });
+
+    it('should keep pending changes when the handler fails', async () => {
+      const manager = getReadStateManager();
+      manager.markRead(1);
+      const handler = vi.fn().mockRejectedValue(new Error('Network error'));
+
+      await manager.sync(handler);
+
+      expect(manager.getPendingChanges()).toHaveLength(1);
+    });
+
+    it('should not call the handler when nothing is pending', async () => {
+      const handler = vi.fn();
+
+      await getReadStateManager().sync(handler);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should keep changes made while a sync is in flight', async () => {
+      const manager = getReadStateManager();
+      let now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now++);
+      manager.markRead(1);
+
+      const handler = vi.fn().mockImplementation(async () => {
+        manager.markUnread(1);
+      });
+
+      await manager.sync(handler);
+
+      expect(manager.getPendingChanges()).toEqual([
+        expect.objectContaining({ articleId: 1, read: false }),
+      ]);
+    });
+  });
+});
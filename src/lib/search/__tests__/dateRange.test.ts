@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDateRangeBoundTime,
+  getDateRangePreset,
+  isValidDateRangeValue,
+  resolveDateRangeValue,
+  validateDateRange,
+} from '../dateRange';
+
+const NOW = new Date('2025-01-15T12:00:00.000Z');
+
+describe('dateRange', () => {
+  describe('resolveDateRangeValue', () => {
+    it('should resolve day-based tokens to dates', () => {
+      expect(resolveDateRangeValue('today', NOW)).toBe('2025-01-15');
+      expect(resolveDateRangeValue('-7d', NOW)).toBe('2025-01-08');
+      expect(resolveDateRangeValue('-1d', NOW)).toBe('2025-01-14');
+      expect(resolveDateRangeValue('-30d', NOW)).toBe('2024-12-16');
+      expect(resolveDateRangeValue('month-start', NOW)).toBe('2025-01-01');
+    });
+
+    it('should return absolute dates unchanged', () => {
+      expect(resolveDateRangeValue('2025-01-01', NOW)).toBe('2025-01-01');
+    });
+  });
+
+  describe('isValidDateRangeValue', () => {
+    it('should accept dates and relative tokens', () => {
+      expect(isValidDateRangeValue('2025-01-01')).toBe(true);
+      expect(isValidDateRangeValue('-7d')).toBe(true);
+      expect(isValidDateRangeValue('month-start')).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(isValidDateRangeValue('2025-02-30')).toBe(false);
+      expect(isValidDateRangeValue('+7d')).toBe(false);
+      // The search API takes dates only
+      expect(isValidDateRangeValue('now')).toBe(false);
+      expect(isValidDateRangeValue('-24h')).toBe(false);
+      expect(isValidDateRangeValue('last week')).toBe(false);
+    });
+  });
+
+  describe('getDateRangeBoundTime', () => {
+    it('should cover whole days for dates', () => {
+      expect(getDateRangeBoundTime('2025-01-15', 'from')).toBe(
+        Date.parse('2025-01-15T00:00:00.000Z')
+      );
+      expect(getDateRangeBoundTime('2025-01-15', 'to')).toBe(
+        Date.parse('2025-01-15T23:59:59.999Z')
+      );
+    });
+
+    it('should reject anything but dates', () => {
+      expect(getDateRangeBoundTime('2025-01-14T12:00:00.000Z', 'to')).toBeNaN();
+    });
+  });
+
+  describe('getDateRangePreset', () => {
+    it('should find the preset of a range', () => {
+      expect(getDateRangePreset('-7d', 'today')).toBe('last7d');
+      expect(getDateRangePreset('-1d', 'today')).toBe('sinceYesterday');
+    });
+
+    it('should return null for custom ranges', () => {
+      expect(getDateRangePreset('-7d', null)).toBeNull();
+      expect(getDateRangePreset('2025-01-01', '2025-01-15')).toBeNull();
+      expect(getDateRangePreset(null, null)).toBeNull();
+    });
+  });
+
+  describe('validateDateRange', () => {
+    it('should accept open, preset and past ranges', () => {
+      expect(validateDateRange(null, null, NOW)).toBeNull();
+      expect(validateDateRange('-1d', 'today', NOW)).toBeNull();
+      expect(validateDateRange('2025-01-15', '2025-01-15', NOW)).toBeNull();
+      expect(validateDateRange('2024-01-01', 'today', NOW)).toBeNull();
+    });
+
+    it('should reject ranges ending before they start', () => {
+      expect(validateDateRange('2025-01-10', '2025-01-01', NOW)).toBe(
+        'End date must be after start date'
+      );
+      expect(validateDateRange('today', '-7d', NOW)).toBe('End date must be after start date');
+    });
+
+    it('should reject future dates', () => {
+      expect(validateDateRange('2025-01-16', null, NOW)).toBe('Start date cannot be in the future');
+      expect(validateDateRange(null, '2026-01-01', NOW)).toBe('End date cannot be in the future');
+    });
+
+    it('should reject malformed values', () => {
+      expect(validateDateRange('yesterday', null, NOW)).toBe('Start date is not a valid date');
+      expect(validateDateRange(null, '2025-13-01', NOW)).toBe('End date is not a valid date');
+    });
+  });
+});
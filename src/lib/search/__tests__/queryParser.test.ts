@@ -0,0 +1,297 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySearchQuery,
+  getHighlightTerms,
+  hasClientOnlyFilters,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from '../queryParser';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
+import type { Source } from '@/types/api';
+
+const sources: Source[] = [
+  { id: 1, name: 'Tech News', feed_url: 'https://tech.example.com/feed', active: true },
+  { id: 2, name: 'Go Blog', feed_url: 'https://go.example.com/feed', active: true },
+];
+
+const messages = (query: string) => parseSearchQuery(query).errors.map(({ message }) => message);
+
+describe('queryParser', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse an empty query', () => {
+      expect(parseSearchQuery('   ')).toEqual({
+        clauses: [],
+        excluded: [],
+        source: null,
+        after: null,
+        before: null,
+        errors: [],
+      });
+    });
+
+    it('should require every word', () => {
+      expect(parseSearchQuery('react  hooks').clauses).toEqual([['react'], ['hooks']]);
+    });
+
+    it('should parse quoted phrases', () => {
+      const query = parseSearchQuery('"server components" react');
+
+      expect(query.clauses).toEqual([['server components'], ['react']]);
+      expect(query.errors).toEqual([]);
+    });
+
+    it('should split words from adjacent quotes', () => {
+      expect(parseSearchQuery('next"app router"').clauses).toEqual([['next'], ['app router']]);
+    });
+
+    it('should parse excluded words and phrases', () => {
+      const query = parseSearchQuery('react -jquery -"release notes"');
+
+      expect(query.clauses).toEqual([['react']]);
+      expect(query.excluded).toEqual(['jquery', 'release notes']);
+    });
+
+    it('should keep hyphens inside words', () => {
+      expect(parseSearchQuery('real-time').clauses).toEqual([['real-time']]);
+    });
+
+    it('should group OR alternatives into one clause', () => {
+      expect(parseSearchQuery('react OR vue OR "solid js" typescript').clauses).toEqual([
+        ['react', 'vue', 'solid js'],
+        ['typescript'],
+      ]);
+    });
+
+    it('should treat lowercase or as a word', () => {
+      expect(parseSearchQuery('this or that').clauses).toEqual([['this'], ['or'], ['that']]);
+    });
+
+    it('should parse filters with plain and quoted values', () => {
+      const query = parseSearchQuery('source:"Tech News" after:2025-01-01 BEFORE:2025-12-31 go');
+
+      expect(query.source).toEqual({ value: 'Tech News', start: 0, end: 18 });
+      expect(query.after?.value).toBe('2025-01-01');
+      expect(query.before?.value).toBe('2025-12-31');
+      expect(query.clauses).toEqual([['go']]);
+      expect(query.errors).toEqual([]);
+    });
+
+    it('should parse unquoted source names', () => {
+      expect(parseSearchQuery('source:Hacker').source?.value).toBe('Hacker');
+    });
+
+    it('should treat unknown prefixes as words', () => {
+      expect(parseSearchQuery('https://example.com tag:go').clauses).toEqual([
+        ['https://example.com'],
+        ['tag:go'],
+      ]);
+    });
+
+    describe('errors', () => {
+      it('should report an unclosed quote and still search the phrase', () => {
+        const query = parseSearchQuery('react "server comp');
+
+        expect(query.errors).toEqual([{ message: 'Missing closing quote', start: 6, end: 18 }]);
+        expect(query.clauses).toEqual([['react'], ['server comp']]);
+      });
+
+      it('should report empty quotes', () => {
+        expect(messages('"" react')).toEqual([
+          'Empty quotes match nothing; type a phrase between them',
+        ]);
+      });
+
+      it('should report a dangling exclusion', () => {
+        const query = parseSearchQuery('react - vue');
+
+        expect(query.errors).toEqual([
+          { message: 'Add a word or phrase right after "-" to exclude it', start: 6, end: 7 },
+        ]);
+        expect(query.clauses).toEqual([['react'], ['vue']]);
+      });
+
+      it('should report OR without a word on each side', () => {
+        const error = 'OR needs a word or phrase on each side, e.g. react OR vue';
+
+        expect(messages('OR react')).toEqual([error]);
+        expect(messages('react OR')).toEqual([error]);
+        expect(messages('react OR OR vue')).toEqual([error]);
+        expect(parseSearchQuery('react OR OR vue').clauses).toEqual([['react', 'vue']]);
+      });
+
+      it('should report OR joined with exclusions or filters', () => {
+        const query = parseSearchQuery('react OR -vue');
+
+        expect(query.errors).toEqual([
+          {
+            message: 'OR can only join words and phrases, not exclusions or filters',
+            start: 6,
+            end: 13,
+          },
+        ]);
+        expect(query.excluded).toEqual(['vue']);
+        expect(messages('react OR source:Go')).toHaveLength(1);
+      });
+
+      it('should report filters without a value', () => {
+        expect(messages('source: after:')).toEqual([
+          'source: needs a source name, e.g. source:"Tech News"',
+          'after: needs a date, e.g. after:2025-01-01',
+        ]);
+      });
+
+      it('should report malformed and impossible dates', () => {
+        const error = 'before: needs a date in YYYY-MM-DD form, e.g. before:2025-01-01';
+
+        expect(messages('before:yesterday')).toEqual([error]);
+        expect(messages('before:2025-1-1')).toEqual([error]);
+        expect(messages('before:2025-02-30')).toEqual([error]);
+        expect(parseSearchQuery('before:2025-02-30').before).toBeNull();
+      });
+
+      it('should report repeated filters and keep the first', () => {
+        const query = parseSearchQuery('source:Go source:"Tech News"');
+
+        expect(query.errors.map(({ message }) => message)).toEqual(['Use source: only once']);
+        expect(query.source?.value).toBe('Go');
+      });
+
+      it('should report excluded filters', () => {
+        expect(messages('-source:Go')).toEqual(['source: filters cannot be excluded with "-"']);
+      });
+
+      it('should report a reversed date range and drop both dates', () => {
+        const query = parseSearchQuery('after:2025-06-01 before:2025-01-01');
+
+        expect(query.errors).toEqual([
+          { message: 'after: must be on or before the before: date', start: 17, end: 34 },
+        ]);
+        expect(query.after).toBeNull();
+        expect(query.before).toBeNull();
+      });
+
+      it('should list errors in query order', () => {
+        const query = parseSearchQuery('OR "" before:x');
+
+        expect(query.errors.map(({ start }) => start)).toEqual([0, 3, 6]);
+      });
+    });
+  });
+
+  describe('hasClientOnlyFilters', () => {
+    it('should be false for plain words and filters', () => {
+      expect(hasClientOnlyFilters(parseSearchQuery('react hooks source:Go'))).toBe(false);
+    });
+
+    it('should be true for phrases, exclusions and OR groups', () => {
+      expect(hasClientOnlyFilters(parseSearchQuery('"react hooks"'))).toBe(true);
+      expect(hasClientOnlyFilters(parseSearchQuery('react -vue'))).toBe(true);
+      expect(hasClientOnlyFilters(parseSearchQuery('react OR vue'))).toBe(true);
+    });
+  });
+
+  describe('getHighlightTerms', () => {
+    it('should list every word, phrase and alternative once, but no exclusions', () => {
+      expect(
+        getHighlightTerms(
+          parseSearchQuery('react "server components" react OR vue -jquery source:Go')
+        )
+      ).toEqual(['react', 'server components', 'vue']);
+    });
+  });
+
+  describe('applySearchQuery', () => {
+    const base = { keyword: 'ignored', source_id: 9, from: '2024-01-01', to: '2024-12-31' };
+
+    it('should send required words and phrase words as the keyword', () => {
+      const { params } = applySearchQuery(
+        { page: 2, limit: 20 },
+        parseSearchQuery('"server components" react OR vue -jquery next'),
+        null
+      );
+
+      expect(params).toEqual({
+        keyword: 'server components next',
+        source_id: undefined,
+        from: undefined,
+        to: undefined,
+        page: 2,
+        limit: 20,
+      });
+    });
+
+    it('should omit the keyword when nothing can be sent', () => {
+      const { params } = applySearchQuery({}, parseSearchQuery('react OR vue -jquery'), null);
+
+      expect(params.keyword).toBeUndefined();
+    });
+
+    it('should keep the panel filters when the query has none', () => {
+      const { params } = applySearchQuery(base, parseSearchQuery('react'), sources);
+
+      expect(params).toMatchObject({ source_id: 9, from: '2024-01-01', to: '2024-12-31' });
+    });
+
+    it('should let query filters take precedence', () => {
+      const { params, errors } = applySearchQuery(
+        base,
+        parseSearchQuery('source:"tech news" after:2025-01-01 before:2025-02-01'),
+        sources
+      );
+
+      expect(params).toMatchObject({ source_id: 1, from: '2025-01-01', to: '2025-02-01' });
+      expect(errors).toEqual([]);
+    });
+
+    it('should report unknown source names', () => {
+      const { params, errors } = applySearchQuery(
+        base,
+        parseSearchQuery('react source:"Daily Bugle"'),
+        sources
+      );
+
+      expect(errors).toEqual([{ message: 'No source is named "Daily Bugle"', start: 6, end: 26 }]);
+      expect(params.source_id).toBe(9);
+    });
+
+    it('should not resolve source names while sources are loading', () => {
+      const { errors } = applySearchQuery(base, parseSearchQuery('source:Unknown'), null);
+
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('matchesSearchQuery', () => {
+    const article = createMockArticle({
+      title: 'React Server Components in practice',
+      summary: 'Migrating a Vue app, with release notes.',
+    });
+    const matches = (query: string) => matchesSearchQuery(article, parseSearchQuery(query));
+
+    it('should match everything for an empty query', () => {
+      expect(matches('')).toBe(true);
+    });
+
+    it('should match words and phrases case-insensitively in title and summary', () => {
+      expect(matches('react vue')).toBe(true);
+      expect(matches('"server components"')).toBe(true);
+      expect(matches('"components server"')).toBe(false);
+      expect(matches('react angular')).toBe(false);
+    });
+
+    it('should match any OR alternative', () => {
+      expect(matches('angular OR vue')).toBe(true);
+      expect(matches('angular OR svelte')).toBe(false);
+    });
+
+    it('should reject excluded words and phrases', () => {
+      expect(matches('react -angular')).toBe(true);
+      expect(matches('react -vue')).toBe(false);
+      expect(matches('react -"Release Notes"')).toBe(false);
+    });
+
+    it('should ignore filters, which the backend applies', () => {
+      expect(matches('react source:Other before:2000-01-01')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RECENT_SEARCHES_MAX,
+  addRecentSearch,
+  filterRecentSearches,
+  getRecentSearchesStorageKey,
+  parseRecentSearches,
+  saveRecentSearches,
+} from '../recentSearches';
+
+describe('recentSearches', () => {
+  describe('addRecentSearch', () => {
+    it('should add trimmed searches to the front', () => {
+      expect(addRecentSearch(['vue'], '  react ')).toEqual(['react', 'vue']);
+    });
+
+    it('should move repeated searches to the front, ignoring case', () => {
+      expect(addRecentSearch(['vue', 'React', 'go'], 'react')).toEqual(['react', 'vue', 'go']);
+    });
+
+    it('should return the same list for blank or unchanged searches', () => {
+      const searches = ['react', 'vue'];
+
+      expect(addRecentSearch(searches, '   ')).toBe(searches);
+      expect(addRecentSearch(searches, 'react')).toBe(searches);
+    });
+
+    it('should keep at most the maximum number of searches', () => {
+      const searches = Array.from({ length: RECENT_SEARCHES_MAX }, (_, i) => `search ${i}`);
+
+      const updated = addRecentSearch(searches, 'newest');
+
+      expect(updated).toHaveLength(RECENT_SEARCHES_MAX);
+      expect(updated[0]).toBe('newest');
+      expect(updated).not.toContain(`search ${RECENT_SEARCHES_MAX - 1}`);
+    });
+  });
+
+  describe('filterRecentSearches', () => {
+    const searches = ['react hooks', 'vue', 'React', 'go'];
+
+    it('should return the most recent searches when nothing is typed', () => {
+      expect(filterRecentSearches(searches, '  ', 2)).toEqual(['react hooks', 'vue']);
+    });
+
+    it('should match typed text case-insensitively', () => {
+      expect(filterRecentSearches(searches, 'REA', 5)).toEqual(['react hooks', 'React']);
+    });
+
+    it('should leave out the typed text itself', () => {
+      expect(filterRecentSearches(searches, 'react', 5)).toEqual(['react hooks']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should use separate keys per scope and user', () => {
+      expect(getRecentSearchesStorageKey('articles', 'user-1')).toBe(
+        'catchup_feed_recent_searches:articles:user-1'
+      );
+      expect(getRecentSearchesStorageKey('sources', null)).toBe(
+        'catchup_feed_recent_searches:sources:anonymous'
+      );
+    });
+
+    it('should round-trip saved searches', () => {
+      saveRecentSearches('articles', 'user-1', ['react', 'vue']);
+
+      const raw = localStorage.getItem(getRecentSearchesStorageKey('articles', 'user-1'));
+      expect(parseRecentSearches(raw)).toEqual(['react', 'vue']);
+    });
+
+    it('should remove the key when the history is cleared', () => {
+      saveRecentSearches('articles', 'user-1', ['react']);
+      saveRecentSearches('articles', 'user-1', []);
+
+      expect(localStorage.getItem(getRecentSearchesStorageKey('articles', 'user-1'))).toBeNull();
+    });
+
+    it('should drop invalid stored data', () => {
+      expect(parseRecentSearches(null)).toEqual([]);
+      expect(parseRecentSearches('not json')).toEqual([]);
+      expect(parseRecentSearches('{"react":true}')).toEqual([]);
+      expect(parseRecentSearches('["react", 42, "  ", "vue"]')).toEqual(['react', 'vue']);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  createSavedSearch,
+  getNewSinceLastViewParams,
+  getSavedSearchHref,
+  getSavedSearchesStorageKey,
+  matchesSavedSearch,
+  moveSavedSearch,
+  normalizeSavedSearchName,
+  parseSavedSearches,
+  type SavedSearch,
+} from '../savedSearches';
+import type { ArticleSearchState } from '@/components/articles/ArticleSearch';
+
+const NOW = new Date('2026-10-19T12:00:00Z').getTime();
+
+const state: ArticleSearchState = {
+  keyword: 'react',
+  sourceId: 2,
+  fromDate: '2026-01-01',
+  toDate: null,
+};
+
+const createSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 'search-1',
+  name: 'React news',
+  state,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  lastViewedAt: '2026-10-18T08:30:00.000Z',
+  ...overrides,
+});
+
+describe('savedSearches', () => {
+  describe('normalizeSavedSearchName', () => {
+    it('should trim names', () => {
+      expect(normalizeSavedSearchName('  React news ')).toBe('React news');
+    });
+
+    it('should reject empty and overlong names', () => {
+      expect(normalizeSavedSearchName('   ')).toBeNull();
+      expect(normalizeSavedSearchName('a'.repeat(SAVED_SEARCH_NAME_MAX_LENGTH + 1))).toBeNull();
+      expect(normalizeSavedSearchName('a'.repeat(SAVED_SEARCH_NAME_MAX_LENGTH))).not.toBeNull();
+    });
+  });
+
+  describe('createSavedSearch', () => {
+    it('should create a search viewed now', () => {
+      const search = createSavedSearch('React news', state, NOW);
+
+      expect(search).toMatchObject({
+        name: 'React news',
+        state,
+        createdAt: '2026-10-19T12:00:00.000Z',
+        lastViewedAt: '2026-10-19T12:00:00.000Z',
+      });
+      expect(search.state).not.toBe(state);
+    });
+
+    it('should give every search its own ID', () => {
+      expect(createSavedSearch('a', state, NOW).id).not.toBe(createSavedSearch('b', state, NOW).id);
+    });
+  });
+
+  describe('moveSavedSearch', () => {
+    const searches = ['a', 'b', 'c'].map((id) => createSearch({ id }));
+    const ids = (list: SavedSearch[]) => list.map(({ id }) => id);
+
+    it('should move the search by the offset', () => {
+      expect(ids(moveSavedSearch(searches, 'c', -1))).toEqual(['a', 'c', 'b']);
+      expect(ids(moveSavedSearch(searches, 'a', 1))).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should return the same list when nothing moves', () => {
+      expect(moveSavedSearch(searches, 'a', -1)).toBe(searches);
+      expect(moveSavedSearch(searches, 'c', 1)).toBe(searches);
+      expect(moveSavedSearch(searches, 'x', 1)).toBe(searches);
+    });
+  });
+
+  describe('getNewSinceLastViewParams', () => {
+    it('should search from the last view with a single result', () => {
+      expect(getNewSinceLastViewParams(createSearch())).toEqual({
+        keyword: 'react',
+        source_id: 2,
+        from: '2026-10-18T08:30:00.000Z',
+        to: undefined,
+        page: 1,
+        limit: 1,
+      });
+    });
+
+    it('should keep a saved from date later than the last view', () => {
+      const search = createSearch({
+        state: { ...state, fromDate: '2026-10-19', toDate: '2026-12-31' },
+      });
+
+      expect(getNewSinceLastViewParams(search)).toMatchObject({
+        from: '2026-10-19',
+        to: '2026-12-31',
+      });
+    });
+
+    it('should leave out empty filters', () => {
+      const search = createSearch({
+        state: { keyword: '', sourceId: null, fromDate: null, toDate: null },
+      });
+
+      expect(getNewSinceLastViewParams(search)).toMatchObject({
+        keyword: undefined,
+        source_id: undefined,
+      });
+    });
+  });
+
+  describe('getSavedSearchHref', () => {
+    it('should link to the articles page with the filters', () => {
+      expect(getSavedSearchHref({ ...state, toDate: '2026-02-01' })).toBe(
+        '/articles?keyword=react&source_id=2&from=2026-01-01&to=2026-02-01'
+      );
+    });
+
+    it('should link to the plain articles page without filters', () => {
+      expect(
+        getSavedSearchHref({ keyword: '', sourceId: null, fromDate: null, toDate: null })
+      ).toBe('/articles');
+    });
+  });
+
+  describe('matchesSavedSearch', () => {
+    it('should match identical filters only', () => {
+      expect(matchesSavedSearch(createSearch(), { ...state })).toBe(true);
+      expect(matchesSavedSearch(createSearch(), { ...state, keyword: 'vue' })).toBe(false);
+      expect(matchesSavedSearch(createSearch(), { ...state, sourceId: null })).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should store searches per user', () => {
+      expect(getSavedSearchesStorageKey('user-1')).toBe('catchup_feed_saved_searches:user-1');
+      expect(getSavedSearchesStorageKey(null)).toBe('catchup_feed_saved_searches:anonymous');
+    });
+
+    it('should parse stored searches and drop invalid entries', () => {
+      const valid = createSearch();
+      const raw = JSON.stringify([valid, { id: 'broken' }, { ...valid, state: { keyword: 1 } }]);
+
+      expect(parseSavedSearches(raw)).toEqual([valid]);
+    });
+
+    it('should ignore missing or corrupt values', () => {
+      expect(parseSavedSearches(null)).toEqual([]);
+      expect(parseSavedSearches('{not json')).toEqual([]);
+      expect(parseSavedSearches('{"id":"a"}')).toEqual([]);
+    });
+  });
+});
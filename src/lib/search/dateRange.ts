@@ -0,0 +1,193 @@
+/**
+ * Date Ranges
+ *
+ * Date range values of the article search: absolute dates (YYYY-MM-DD) or
+ * relative tokens that are resolved when a request is made, so shared links
+ * keep meaning "the last 7 days" instead of a fixed week.
+ *
+ * Relative tokens:
+ * - `today` - the current date
+ * - `month-start` - the first day of the current month
+ * - `-<n>d` - the date n days before today (e.g. `-7d`)
+ *
+ * Dates are calendar dates in UTC, like the `published_at` timestamps. The
+ * search API takes dates only (`from`/`to` as YYYY-MM-DD), so there are no
+ * hour-based tokens.
+ *
+ * @module lib/search/dateRange
+ */
+
+/**
+ * Date range presets offered by the date range picker
+ */
+export type DateRangePreset = 'today' | 'sinceYesterday' | 'last7d' | 'thisMonth';
+
+/**
+ * Preset definition (relative tokens stored in the URL)
+ */
+export interface DateRangePresetDefinition {
+  label: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Date range presets, in display order
+ */
+export const DATE_RANGE_PRESETS: Record<DateRangePreset, DateRangePresetDefinition> = {
+  today: { label: 'Today', from: 'today', to: 'today' },
+  sinceYesterday: { label: 'Since Yesterday', from: '-1d', to: 'today' },
+  last7d: { label: 'Last 7 Days', from: '-7d', to: 'today' },
+  thisMonth: { label: 'This Month', from: 'month-start', to: 'today' },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OFFSET_PATTERN = /^-(\d{1,4})d$/;
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ *
+ * @param date - Date to format
+ * @returns Calendar date
+ */
+export function formatDateToISO(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Check whether a value is a relative date token
+ *
+ * @param value - Date range value
+ * @returns True for tokens like `today` or `-7d`
+ */
+export function isRelativeDateValue(value: string): boolean {
+  return value === 'today' || value === 'month-start' || OFFSET_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is an existing calendar date (YYYY-MM-DD)
+ *
+ * @param value - Date range value
+ * @returns True for valid absolute dates
+ */
+function isAbsoluteDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && formatDateToISO(new Date(time)) === value;
+}
+
+/**
+ * Check whether a value is a valid date range value
+ *
+ * @param value - Date range value
+ * @returns True for absolute dates and relative tokens
+ */
+export function isValidDateRangeValue(value: string): boolean {
+  return isRelativeDateValue(value) || isAbsoluteDate(value);
+}
+
+/**
+ * Resolve a date range value for a request
+ *
+ * Tokens resolve to a date (YYYY-MM-DD). Other values are returned unchanged.
+ *
+ * @param value - Date range value
+ * @param now - Current time (defaults to now)
+ * @returns Absolute date
+ *
+ * @example
+ * ```typescript
+ * resolveDateRangeValue('-7d', new Date('2025-01-15T12:00:00Z')); // '2025-01-08'
+ * resolveDateRangeValue('month-start', new Date('2025-01-15T12:00:00Z')); // '2025-01-01'
+ * ```
+ */
+export function resolveDateRangeValue(value: string, now: Date = new Date()): string {
+  if (value === 'today') {
+    return formatDateToISO(now);
+  }
+  if (value === 'month-start') {
+    return `${formatDateToISO(now).slice(0, 7)}-01`;
+  }
+
+  const offset = OFFSET_PATTERN.exec(value);
+  if (!offset) {
+    return value;
+  }
+  const date = new Date(now);
+  date.setUTCDate(date.getUTCDate() - Number(offset[1]));
+  return formatDateToISO(date);
+}
+
+/**
+ * Get the time a resolved bound stands for
+ *
+ * @param resolved - Resolved date (YYYY-MM-DD)
+ * @param bound - Dates stand for their first (`from`) or last (`to`) moment
+ * @returns Milliseconds since the epoch, or NaN for anything but a date
+ */
+export function getDateRangeBoundTime(resolved: string, bound: 'from' | 'to'): number {
+  if (!DATE_PATTERN.test(resolved)) {
+    return NaN;
+  }
+  return Date.parse(`${resolved}T${bound === 'from' ? '00:00:00.000' : '23:59:59.999'}Z`);
+}
+
+// ============================================================================
+// Presets and validation
+// ============================================================================
+
+/**
+ * Find the preset a date range was chosen from
+ *
+ * @param from - Start value
+ * @param to - End value
+ * @returns Preset, or null for custom ranges
+ */
+export function getDateRangePreset(from: string | null, to: string | null): DateRangePreset | null {
+  const entry = Object.entries(DATE_RANGE_PRESETS).find(
+    ([, preset]) => preset.from === from && preset.to === to
+  );
+  return entry ? (entry[0] as DateRangePreset) : null;
+}
+
+/**
+ * Validate a date range
+ *
+ * @param from - Start value, or null when open
+ * @param to - End value, or null when open
+ * @param now - Current time (defaults to now)
+ * @returns Error message, or null when the range is valid
+ */
+export function validateDateRange(
+  from: string | null,
+  to: string | null,
+  now: Date = new Date()
+): string | null {
+  if (from && !isValidDateRangeValue(from)) {
+    return 'Start date is not a valid date';
+  }
+  if (to && !isValidDateRangeValue(to)) {
+    return 'End date is not a valid date';
+  }
+
+  const today = formatDateToISO(now);
+  const fromResolved = from ? resolveDateRangeValue(from, now) : null;
+  const toResolved = to ? resolveDateRangeValue(to, now) : null;
+
+  if (fromResolved && fromResolved > today) {
+    return 'Start date cannot be in the future';
+  }
+  if (toResolved && toResolved > today) {
+    return 'End date cannot be in the future';
+  }
+  if (fromResolved && toResolved && toResolved < fromResolved) {
+    return 'End date must be after start date';
+  }
+  return null;
+}
@@ -0,0 +1,409 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the advanced syntax typed in the article search box:
+ *
+ * - `react hooks` - every word must match (title or summary)
+ * - `"server components"` - exact phrase
+ * - `-jquery`, `-"release notes"` - exclude a word or phrase
+ * - `react OR vue` - either alternative may match
+ * - `source:"Tech News"` - articles from the named source
+ * - `after:2025-01-01`, `before:2025-12-31` - published on or after/before a date
+ *
+ * The backend search only understands plain keywords (all must match), a
+ * source ID and a date range, so a parsed query is split in two: the parts
+ * the backend supports become `ArticleSearchParams`, and phrases, exclusions
+ * and `OR` groups are checked on the client for the loaded articles.
+ *
+ * @module lib/search/queryParser
+ */
+
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+import type { Article, Source } from '@/types/api';
+
+/**
+ * Filter operators supported in a query (`name:value`)
+ */
+export const SEARCH_OPERATORS = ['source', 'after', 'before'] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+/**
+ * A malformed part of a query
+ */
+export interface SearchQueryError {
+  /** What is wrong and how to fix it */
+  message: string;
+  /** Start offset of the offending text in the query */
+  start: number;
+  /** End offset (exclusive) of the offending text in the query */
+  end: number;
+}
+
+/**
+ * The value of a filter operator and where it appears in the query
+ */
+export interface SearchQueryFilter {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A parsed search query
+ */
+export interface ParsedSearchQuery {
+  /**
+   * Required clauses. Each clause lists alternatives (words or phrases joined
+   * by `OR`), at least one of which must match.
+   */
+  clauses: string[][];
+  /** Words and phrases that must not match */
+  excluded: string[];
+  /** `source:` filter (source name as typed) */
+  source: SearchQueryFilter | null;
+  /** `after:` filter (YYYY-MM-DD, inclusive) */
+  after: SearchQueryFilter | null;
+  /** `before:` filter (YYYY-MM-DD, inclusive) */
+  before: SearchQueryFilter | null;
+  /** Malformed parts, which are left out of the search */
+  errors: SearchQueryError[];
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+interface QueryToken {
+  type: 'word' | 'phrase' | 'or' | 'operator';
+  value: string;
+  /** Whether the token was prefixed with `-` */
+  negated: boolean;
+  operator?: SearchOperator;
+  start: number;
+  end: number;
+}
+
+const OPERATOR_PATTERN = new RegExp(`^(${SEARCH_OPERATORS.join('|')}):`, 'i');
+
+function isWhitespace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char);
+}
+
+/**
+ * Read a quoted value starting at the opening quote
+ *
+ * @returns The unquoted value and the offset after the closing quote
+ */
+function readQuoted(
+  query: string,
+  quoteIndex: number,
+  errors: SearchQueryError[]
+): { value: string; end: number } {
+  const closeIndex = query.indexOf('"', quoteIndex + 1);
+  if (closeIndex === -1) {
+    errors.push({
+      message: 'Missing closing quote',
+      start: quoteIndex,
+      end: query.length,
+    });
+    return { value: query.slice(quoteIndex + 1), end: query.length };
+  }
+  return { value: query.slice(quoteIndex + 1, closeIndex), end: closeIndex + 1 };
+}
+
+function tokenize(query: string, errors: SearchQueryError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (isWhitespace(query[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = query[index] === '-';
+    if (negated) {
+      index++;
+      if (index === query.length || isWhitespace(query[index])) {
+        errors.push({
+          message: 'Add a word or phrase right after "-" to exclude it',
+          start,
+          end: index,
+        });
+        continue;
+      }
+    }
+
+    if (query[index] === '"') {
+      const { value, end } = readQuoted(query, index, errors);
+      tokens.push({ type: 'phrase', value: value.trim(), negated, start, end });
+      index = end;
+      continue;
+    }
+
+    // A word runs to the next whitespace or quote
+    let wordEnd = index;
+    while (wordEnd < query.length && !isWhitespace(query[wordEnd]) && query[wordEnd] !== '"') {
+      wordEnd++;
+    }
+    const word = query.slice(index, wordEnd);
+    const operatorMatch = OPERATOR_PATTERN.exec(word);
+
+    if (operatorMatch) {
+      const operator = operatorMatch[1]!.toLowerCase() as SearchOperator;
+      let value = word.slice(operatorMatch[0].length);
+      let end = wordEnd;
+      // Quoted value: source:"Tech News"
+      if (!value && query[wordEnd] === '"') {
+        ({ value, end } = readQuoted(query, wordEnd, errors));
+      }
+      tokens.push({ type: 'operator', operator, value: value.trim(), negated, start, end });
+      index = end;
+      continue;
+    }
+
+    const type = word === 'OR' && !negated ? 'or' : 'word';
+    tokens.push({ type, value: word, negated, start, end: wordEnd });
+    index = wordEnd;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a value is a real calendar date in YYYY-MM-DD form
+ */
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+const OR_ERROR = 'OR needs a word or phrase on each side, e.g. react OR vue';
+
+/**
+ * Parse a search query
+ *
+ * Parsing never fails: malformed parts are reported in `errors` and left out,
+ * so the rest of the query can still be searched.
+ *
+ * @param query - Query as typed in the search box
+ * @returns Parsed query
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('"server components" react OR vue -jquery after:2025-01-01');
+ * // clauses: [['server components'], ['react', 'vue']], excluded: ['jquery'],
+ * // after: { value: '2025-01-01', ... }
+ * ```
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const errors: SearchQueryError[] = [];
+  const parsed: ParsedSearchQuery = {
+    clauses: [],
+    excluded: [],
+    source: null,
+    after: null,
+    before: null,
+    errors,
+  };
+
+  // The clause the next OR alternative is added to
+  let lastClause: string[] | null = null;
+  let pendingOr: QueryToken | null = null;
+
+  for (const token of tokenize(query, errors)) {
+    if (token.type === 'or') {
+      if (!lastClause || pendingOr) {
+        errors.push({ message: OR_ERROR, start: token.start, end: token.end });
+      } else {
+        pendingOr = token;
+      }
+      continue;
+    }
+
+    const isAlternative = token.type !== 'operator' && !token.negated;
+    if (pendingOr && !isAlternative) {
+      errors.push({
+        message: 'OR can only join words and phrases, not exclusions or filters',
+        start: pendingOr.start,
+        end: token.end,
+      });
+      pendingOr = null;
+    }
+
+    if (token.type === 'operator') {
+      lastClause = null;
+      const operator = token.operator!;
+      if (token.negated) {
+        errors.push({
+          message: `${operator}: filters cannot be excluded with "-"`,
+          start: token.start,
+          end: token.end,
+        });
+      } else if (!token.value) {
+        errors.push({
+          message:
+            operator === 'source'
+              ? 'source: needs a source name, e.g. source:"Tech News"'
+              : `${operator}: needs a date, e.g. ${operator}:2025-01-01`,
+          start: token.start,
+          end: token.end,
+        });
+      } else if (operator !== 'source' && !isValidDate(token.value)) {
+        errors.push({
+          message: `${operator}: needs a date in YYYY-MM-DD form, e.g. ${operator}:2025-01-01`,
+          start: token.start,
+          end: token.end,
+        });
+      } else if (parsed[operator]) {
+        errors.push({
+          message: `Use ${operator}: only once`,
+          start: token.start,
+          end: token.end,
+        });
+      } else {
+        parsed[operator] = { value: token.value, start: token.start, end: token.end };
+      }
+      continue;
+    }
+
+    if (!token.value) {
+      errors.push({
+        message: 'Empty quotes match nothing; type a phrase between them',
+        start: token.start,
+        end: token.end,
+      });
+      continue;
+    }
+
+    if (token.negated) {
+      lastClause = null;
+      parsed.excluded.push(token.value);
+    } else if (pendingOr && lastClause) {
+      lastClause.push(token.value);
+      pendingOr = null;
+    } else {
+      lastClause = [token.value];
+      parsed.clauses.push(lastClause);
+    }
+  }
+
+  if (pendingOr) {
+    errors.push({ message: OR_ERROR, start: pendingOr.start, end: pendingOr.end });
+  }
+
+  if (parsed.after && parsed.before && parsed.after.value > parsed.before.value) {
+    const later = parsed.after.start > parsed.before.start ? parsed.after : parsed.before;
+    errors.push({
+      message: 'after: must be on or before the before: date',
+      start: later.start,
+      end: later.end,
+    });
+    parsed.after = null;
+    parsed.before = null;
+  }
+
+  errors.sort((a, b) => a.start - b.start);
+  return parsed;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Check whether a query has parts only the client can apply
+ * (phrases, exclusions and OR groups)
+ */
+export function hasClientOnlyFilters(query: ParsedSearchQuery): boolean {
+  return (
+    query.excluded.length > 0 ||
+    query.clauses.some((clause) => clause.length > 1 || /\s/.test(clause[0] ?? ''))
+  );
+}
+
+/**
+ * Get the words and phrases of a query to highlight in results
+ * (every alternative of every clause; exclusions never match)
+ */
+export function getHighlightTerms(query: ParsedSearchQuery): string[] {
+  return [...new Set(query.clauses.flat())];
+}
+
+/**
+ * Translate a parsed query into backend search parameters
+ *
+ * Only single words (and the words of single phrases) are sent as the
+ * keyword, which the backend matches all of. Filters in the query take
+ * precedence over the ones in `base` (the search panel).
+ *
+ * @param base - Search parameters from the search panel (keyword is replaced)
+ * @param query - Parsed query
+ * @param sources - Sources to resolve `source:` names against, or null while
+ *   they are loading (the base source filter is kept meanwhile)
+ * @returns Search parameters and any source names that did not resolve
+ */
+export function applySearchQuery(
+  base: ArticleSearchParams,
+  query: ParsedSearchQuery,
+  sources: Source[] | null
+): { params: ArticleSearchParams; errors: SearchQueryError[] } {
+  const errors: SearchQueryError[] = [];
+  const keywords = query.clauses
+    .filter((clause) => clause.length === 1)
+    .flatMap((clause) => clause[0]!.split(/\s+/))
+    .filter(Boolean);
+
+  let sourceId = base.source_id;
+  if (query.source && sources) {
+    const name = query.source.value.toLowerCase();
+    const source = sources.find((candidate) => candidate.name.trim().toLowerCase() === name);
+    if (source) {
+      sourceId = source.id;
+    } else {
+      errors.push({
+        message: `No source is named "${query.source.value}"`,
+        start: query.source.start,
+        end: query.source.end,
+      });
+    }
+  }
+
+  return {
+    params: {
+      ...base,
+      keyword: keywords.length > 0 ? keywords.join(' ') : undefined,
+      source_id: sourceId,
+      from: query.after?.value ?? base.from,
+      to: query.before?.value ?? base.to,
+    },
+    errors,
+  };
+}
+
+/**
+ * Check an article against the parts of a query the backend cannot apply
+ *
+ * Matches the title and summary case-insensitively, like the backend.
+ *
+ * @param article - Article to check
+ * @param query - Parsed query
+ * @returns True if every clause has a matching alternative and no exclusion matches
+ */
+export function matchesSearchQuery(article: Article, query: ParsedSearchQuery): boolean {
+  const haystack = `${article.title ?? ''} ${article.summary ?? ''}`.toLowerCase();
+  const contains = (text: string) => haystack.includes(text.toLowerCase());
+
+  return query.clauses.every((clause) => clause.some(contains)) && !query.excluded.some(contains);
+}
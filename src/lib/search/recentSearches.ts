@@ -0,0 +1,138 @@
+/**
+ * Recent Searches
+ *
+ * History of the searches a user ran, offered again as suggestions in the
+ * search boxes. Article and source searches keep separate histories.
+ *
+ * Recent searches are persisted per user in localStorage, most recent first.
+ *
+ * @module lib/search/recentSearches
+ */
+
+import { logger } from '@/lib/logger';
+
+/**
+ * Search boxes with their own history
+ */
+export type RecentSearchScope = 'articles' | 'sources';
+
+/**
+ * Maximum number of recent searches kept per scope
+ */
+export const RECENT_SEARCHES_MAX = 10;
+
+/**
+ * Prefix of the localStorage keys holding recent searches (one key per scope and user)
+ */
+export const RECENT_SEARCHES_STORAGE_KEY_PREFIX = 'catchup_feed_recent_searches';
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Add a search to the front of the history
+ *
+ * Earlier entries differing only in case are replaced, and the history is
+ * capped at `RECENT_SEARCHES_MAX` entries.
+ *
+ * @param searches - Recent searches, most recent first
+ * @param query - Search as typed
+ * @returns Updated history (the same list for blank or unchanged searches)
+ */
+export function addRecentSearch(searches: string[], query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed || searches[0] === trimmed) {
+    return searches;
+  }
+
+  const lower = trimmed.toLowerCase();
+  return [trimmed, ...searches.filter((search) => search.toLowerCase() !== lower)].slice(
+    0,
+    RECENT_SEARCHES_MAX
+  );
+}
+
+/**
+ * Find recent searches containing the typed text
+ *
+ * @param searches - Recent searches, most recent first
+ * @param query - Text typed so far (all searches match when blank)
+ * @param limit - Maximum number of matches
+ * @returns Matching searches, excluding the typed text itself
+ */
+export function filterRecentSearches(searches: string[], query: string, limit: number): string[] {
+  const lower = query.trim().toLowerCase();
+  return searches
+    .filter((search) => {
+      const searchLower = search.toLowerCase();
+      return searchLower !== lower && searchLower.includes(lower);
+    })
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get the localStorage key of a user's recent searches
+ *
+ * @param scope - Search box the history belongs to
+ * @param userId - User ID, or null when signed out
+ * @returns Storage key
+ */
+export function getRecentSearchesStorageKey(
+  scope: RecentSearchScope,
+  userId: string | null
+): string {
+  return `${RECENT_SEARCHES_STORAGE_KEY_PREFIX}:${scope}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Parse stored recent searches
+ *
+ * @param raw - Stored JSON, or null when nothing is stored
+ * @returns Recent searches (invalid entries are dropped)
+ */
+export function parseRecentSearches(raw: string | null): string[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((search): search is string => typeof search === 'string' && !!search.trim())
+          .slice(0, RECENT_SEARCHES_MAX)
+      : [];
+  } catch (error) {
+    logger.warn('Failed to parse recent searches', { error });
+    return [];
+  }
+}
+
+/**
+ * Persist a user's recent searches to localStorage
+ *
+ * @param scope - Search box the history belongs to
+ * @param userId - User ID, or null when signed out
+ * @param searches - Recent searches, most recent first (removed when empty)
+ */
+export function saveRecentSearches(
+  scope: RecentSearchScope,
+  userId: string | null,
+  searches: string[]
+): void {
+  const key = getRecentSearchesStorageKey(scope, userId);
+  try {
+    if (searches.length > 0) {
+      localStorage.setItem(key, JSON.stringify(searches));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    logger.warn('Failed to save recent searches', { error });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Saved Searches
+ *
+ * Operations and persistence for named article searches (keyword, source and
+ * date range), so daily searches do not have to be rebuilt by hand.
+ *
+ * Saved searches are persisted per user in localStorage, in display order.
+ * Each one remembers when it was last viewed, which is used to count the
+ * articles that are new since then.
+ *
+ * @module lib/search/savedSearches
+ */
+
+import { logger } from '@/lib/logger';
+import type { ArticleSearchState } from '@/components/articles/ArticleSearch';
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+import { resolveDateRangeValue } from '@/lib/search/dateRange';
+
+/**
+ * A named article search
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  /** Search filters */
+  state: ArticleSearchState;
+  /** When the search was saved (ISO 8601) */
+  createdAt: string;
+  /** When the search was last viewed (ISO 8601) */
+  lastViewedAt: string;
+}
+
+/**
+ * Maximum length of a saved search name (characters)
+ */
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 100;
+
+/**
+ * Prefix of the localStorage keys holding the saved searches (one key per user)
+ */
+export const SAVED_SEARCHES_STORAGE_KEY_PREFIX = 'catchup_feed_saved_searches';
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Normalize a saved search name
+ *
+ * @param name - Name as typed
+ * @returns Trimmed name, or null if it is empty or too long
+ */
+export function normalizeSavedSearchName(name: string): string | null {
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= SAVED_SEARCH_NAME_MAX_LENGTH ? trimmed : null;
+}
+
+/**
+ * Create a saved search
+ *
+ * @param name - Normalized name
+ * @param state - Search filters to save
+ * @param now - Current time in milliseconds (for tests)
+ * @returns New saved search, viewed now
+ */
+export function createSavedSearch(
+  name: string,
+  state: ArticleSearchState,
+  now: number = Date.now()
+): SavedSearch {
+  const timestamp = new Date(now).toISOString();
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    state: { ...state },
+    createdAt: timestamp,
+    lastViewedAt: timestamp,
+  };
+}
+
+/**
+ * Move a saved search within the list
+ *
+ * @param searches - Saved searches in display order
+ * @param id - Search to move
+ * @param offset - Number of positions to move (negative moves towards the start)
+ * @returns New list (the same list if the search is unknown or cannot move)
+ */
+export function moveSavedSearch(
+  searches: SavedSearch[],
+  id: string,
+  offset: number
+): SavedSearch[] {
+  const from = searches.findIndex((search) => search.id === id);
+  const to = Math.min(Math.max(from + offset, 0), searches.length - 1);
+  const search = searches[from];
+  if (!search || from === to) {
+    return searches;
+  }
+
+  const next = searches.filter((_, index) => index !== from);
+  next.splice(to, 0, search);
+  return next;
+}
+
+/**
+ * Get the search parameters counting the articles new since the last view
+ *
+ * The saved `from` date (resolved if relative) is kept when it is later than
+ * the last view.
+ *
+ * @param search - Saved search
+ * @returns Search parameters for a single-result search (only the total is needed)
+ */
+export function getNewSinceLastViewParams(search: SavedSearch): ArticleSearchParams {
+  const { keyword, sourceId, fromDate, toDate } = search.state;
+  const from = fromDate && resolveDateRangeValue(fromDate);
+  return {
+    keyword: keyword || undefined,
+    source_id: sourceId ?? undefined,
+    from: from && from > search.lastViewedAt ? from : search.lastViewedAt,
+    to: toDate ?? undefined,
+    page: 1,
+    limit: 1,
+  };
+}
+
+/**
+ * Get the articles page URL showing a saved search
+ *
+ * @param state - Search filters
+ * @returns Relative URL (e.g. '/articles?keyword=react&source_id=2')
+ */
+export function getSavedSearchHref(state: ArticleSearchState): string {
+  const params = new URLSearchParams();
+  if (state.keyword) {
+    params.set('keyword', state.keyword);
+  }
+  if (state.sourceId) {
+    params.set('source_id', state.sourceId.toString());
+  }
+  if (state.fromDate) {
+    params.set('from', state.fromDate);
+  }
+  if (state.toDate) {
+    params.set('to', state.toDate);
+  }
+  const query = params.toString();
+  return query ? `/articles?${query}` : '/articles';
+}
+
+/**
+ * Check whether a saved search has the given filters
+ *
+ * @param search - Saved search
+ * @param state - Search filters
+ * @returns True if every filter matches
+ */
+export function matchesSavedSearch(search: SavedSearch, state: ArticleSearchState): boolean {
+  return (
+    search.state.keyword === state.keyword &&
+    search.state.sourceId === state.sourceId &&
+    search.state.fromDate === state.fromDate &&
+    search.state.toDate === state.toDate
+  );
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Check whether a stored value is a saved search
+ */
+function isSavedSearch(value: unknown): value is SavedSearch {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const search = value as Partial<SavedSearch>;
+  const state = search.state as Partial<ArticleSearchState> | undefined;
+  return (
+    typeof search.id === 'string' &&
+    typeof search.name === 'string' &&
+    typeof search.createdAt === 'string' &&
+    typeof search.lastViewedAt === 'string' &&
+    !!state &&
+    typeof state.keyword === 'string' &&
+    (state.sourceId === null || typeof state.sourceId === 'number') &&
+    (state.fromDate === null || typeof state.fromDate === 'string') &&
+    (state.toDate === null || typeof state.toDate === 'string')
+  );
+}
+
+/**
+ * Get the localStorage key of a user's saved searches
+ *
+ * @param userId - User ID, or null when signed out
+ * @returns Storage key
+ */
+export function getSavedSearchesStorageKey(userId: string | null): string {
+  return `${SAVED_SEARCHES_STORAGE_KEY_PREFIX}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Parse stored saved searches
+ *
+ * @param raw - Stored JSON, or null when nothing is stored
+ * @returns Valid saved searches (invalid entries are dropped)
+ */
+export function parseSavedSearches(raw: string | null): SavedSearch[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSavedSearch) : [];
+  } catch (error) {
+    logger.warn('Failed to parse saved searches', { error });
+    return [];
+  }
+}
+
+/**
+ * Persist a user's saved searches to localStorage
+ *
+ * @param userId - User ID, or null when signed out
+ * @param searches - Saved searches in display order
+ */
+export function saveSavedSearches(userId: string | null, searches: SavedSearch[]): void {
+  try {
+    localStorage.setItem(getSavedSearchesStorageKey(userId), JSON.stringify(searches));
+  } catch (error) {
+    logger.warn('Failed to save saved searches', { error });
+  }
+}
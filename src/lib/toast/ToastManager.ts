@@ -0,0 +1,320 @@
+/**
+ * Toast Manager
+ *
+ * Client-side store for transient notifications (toasts) rendered by the
+ * `Toaster` component mounted in the root layout.
+ *
+ * Features:
+ * - Success/error/neutral variants with an optional action button
+ * - Auto-dismiss after a duration (0 keeps the toast until dismissed)
+ * - Stable IDs: showing a toast with an existing ID replaces it
+ * - Subscribe/snapshot API compatible with React's useSyncExternalStore
+ * - Undo toasts that defer a destructive action for a grace period
+ *
+ * @module lib/toast/ToastManager
+ */
+
+/**
+ * Toast appearance
+ */
+export type ToastVariant = 'default' | 'success' | 'error';
+
+/**
+ * Button rendered inside a toast
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * Options for showing a toast
+ */
+export interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  /** Auto-dismiss delay in milliseconds (0 keeps the toast until dismissed) */
+  durationMs?: number;
+  /** ID of the toast; reusing an ID replaces the existing toast */
+  id?: string;
+  /** Called once when the toast is removed (timeout, dismiss button, action or clear) */
+  onDismiss?: () => void;
+  /** Keep the toast when newer toasts exceed TOAST_MAX_VISIBLE (e.g. undo toasts) */
+  keepOnOverflow?: boolean;
+}
+
+/**
+ * A toast currently shown
+ */
+export interface Toast {
+  id: string;
+  title: string;
+  description?: string;
+  variant: ToastVariant;
+  action?: ToastAction;
+  durationMs: number;
+}
+
+/**
+ * Default auto-dismiss delay in milliseconds
+ */
+export const TOAST_DEFAULT_DURATION_MS = 5000;
+
+/**
+ * Maximum number of toasts shown at once (oldest are dismissed first, except
+ * toasts shown with `keepOnOverflow`, which can exceed the limit)
+ */
+export const TOAST_MAX_VISIBLE = 5;
+
+/**
+ * Error used to reject an undo toast when the user clicks "Undo"
+ */
+export class ActionUndoneError extends Error {
+  constructor(message: string = 'Action undone') {
+    super(message);
+    this.name = 'ActionUndoneError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ActionUndoneError);
+    }
+  }
+}
+
+/**
+ * ToastManager class for notifications
+ *
+ * Singleton pattern ensures every component observes the same toasts.
+ */
+export class ToastManager {
+  private static instance: ToastManager | null = null;
+  private toasts: readonly Toast[] = [];
+  private listeners: Set<() => void> = new Set();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private dismissHandlers: Map<string, () => void> = new Map();
+  private keptOnOverflow: Set<string> = new Set();
+  private nextId = 1;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ToastManager {
+    if (!ToastManager.instance) {
+      ToastManager.instance = new ToastManager();
+    }
+    return ToastManager.instance;
+  }
+
+  /**
+   * Reset singleton instance (for testing)
+   */
+  public static resetInstance(): void {
+    ToastManager.instance?.clear();
+    ToastManager.instance = null;
+  }
+
+  /**
+   * Subscribe to toast changes
+   *
+   * @param listener - Called after every change
+   * @returns Unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the toasts currently shown (oldest first)
+   */
+  public getSnapshot = (): readonly Toast[] => {
+    return this.toasts;
+  };
+
+  /**
+   * Show a toast
+   *
+   * @param options - Toast content and behaviour
+   * @returns Toast ID
+   */
+  public show(options: ToastOptions): string {
+    const id = options.id ?? `toast-${this.nextId++}`;
+    const toast: Toast = {
+      id,
+      title: options.title,
+      description: options.description,
+      variant: options.variant ?? 'default',
+      action: options.action,
+      durationMs: options.durationMs ?? TOAST_DEFAULT_DURATION_MS,
+    };
+
+    // Replacing a toast does not count as dismissing it
+    this.clearTimer(id);
+    this.dismissHandlers.delete(id);
+    if (options.onDismiss) {
+      this.dismissHandlers.set(id, options.onDismiss);
+    }
+    if (options.keepOnOverflow) {
+      this.keptOnOverflow.add(id);
+    } else {
+      this.keptOnOverflow.delete(id);
+    }
+
+    const others = this.toasts.filter((existing) => existing.id !== id);
+    this.toasts = [...others, toast];
+
+    if (toast.durationMs > 0) {
+      this.timers.set(
+        id,
+        setTimeout(() => this.dismiss(id), toast.durationMs)
+      );
+    }
+
+    this.notify();
+
+    const evictable = this.toasts.filter(
+      (existing) => existing.id !== id && !this.keptOnOverflow.has(existing.id)
+    );
+    const overflow = evictable.slice(0, Math.max(0, this.toasts.length - TOAST_MAX_VISIBLE));
+    overflow.forEach((oldest) => this.dismiss(oldest.id));
+
+    return id;
+  }
+
+  /**
+   * Remove a toast
+   *
+   * @param id - Toast ID (unknown IDs are ignored)
+   */
+  public dismiss(id: string): void {
+    if (!this.toasts.some((toast) => toast.id === id)) {
+      return;
+    }
+
+    this.clearTimer(id);
+    this.keptOnOverflow.delete(id);
+    this.toasts = this.toasts.filter((toast) => toast.id !== id);
+    const onDismiss = this.dismissHandlers.get(id);
+    this.dismissHandlers.delete(id);
+    this.notify();
+    onDismiss?.();
+  }
+
+  /**
+   * Remove every toast
+   *
+   * Dismiss handlers are called like for `dismiss`, so pending undo toasts
+   * (`waitForUndo`) settle and their actions go ahead.
+   */
+  public clear(): void {
+    const handlers = Array.from(this.dismissHandlers.values());
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.dismissHandlers.clear();
+    this.keptOnOverflow.clear();
+    this.toasts = [];
+    this.notify();
+    handlers.forEach((onDismiss) => onDismiss());
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Convenience API for showing toasts
+ *
+ * @example
+ * ```typescript
+ * toast.success('Source created');
+ * toast.error('Failed to delete source', { description: error.message });
+ * ```
+ */
+export const toast = {
+  show: (options: ToastOptions): string => ToastManager.getInstance().show(options),
+  success: (title: string, options: Omit<ToastOptions, 'title' | 'variant'> = {}): string =>
+    ToastManager.getInstance().show({ ...options, title, variant: 'success' }),
+  error: (title: string, options: Omit<ToastOptions, 'title' | 'variant'> = {}): string =>
+    ToastManager.getInstance().show({ ...options, title, variant: 'error' }),
+  dismiss: (id: string): void => ToastManager.getInstance().dismiss(id),
+};
+
+/**
+ * Show a toast with an "Undo" button and wait for the grace period to pass
+ *
+ * Resolves when the toast times out, is dismissed or cleared (the action should
+ * go ahead), and rejects with ActionUndoneError when the user clicks "Undo".
+ * Newer toasts never push the undo toast out before its grace period ends.
+ * A grace period of 0 or less resolves immediately without a toast.
+ *
+ * Closing or reloading the tab (`pagehide`) ends the grace period early, so the
+ * action still starts; its request should use `keepalive` to outlive the page.
+ *
+ * @param title - Toast title describing the pending action
+ * @param gracePeriodMs - How long the action can be undone
+ * @param description - Optional toast description
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await waitForUndo(`Deleted "${source.name}"`, SOURCE_CONFIG.UNDO_GRACE_PERIOD_MS);
+ *   await deleteSource(source.id);
+ * } catch (error) {
+ *   if (error instanceof ActionUndoneError) restoreSource();
+ * }
+ * ```
+ */
+export function waitForUndo(
+  title: string,
+  gracePeriodMs: number,
+  description?: string
+): Promise<void> {
+  if (gracePeriodMs <= 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    let undone = false;
+    const flush = () => toast.dismiss(id);
+    const id = toast.show({
+      title,
+      description,
+      durationMs: gracePeriodMs,
+      keepOnOverflow: true,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          undone = true;
+          reject(new ActionUndoneError());
+          toast.dismiss(id);
+        },
+      },
+      onDismiss: () => {
+        if (typeof window !== 'undefined') {
+          window.removeEventListener('pagehide', flush);
+        }
+        if (!undone) {
+          resolve();
+        }
+      },
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', flush);
+    }
+  });
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ActionUndoneError,
+  TOAST_DEFAULT_DURATION_MS,
+  TOAST_MAX_VISIBLE,
+  ToastManager,
+  toast,
+  waitForUndo,
+} from '../ToastManager';
+
+describe('ToastManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ToastManager.resetInstance();
+  });
+
+  afterEach(() => {
+    ToastManager.resetInstance();
+    vi.useRealTimers();
+  });
+
+  const getToasts = () => ToastManager.getInstance().getSnapshot();
+
+  describe('show', () => {
+    it('should add a toast with defaults', () => {
+      const id = toast.show({ title: 'Saved' });
+
+      expect(getToasts()).toEqual([
+        {
+          id,
+          title: 'Saved',
+          description: undefined,
+          variant: 'default',
+          action: undefined,
+          durationMs: TOAST_DEFAULT_DURATION_MS,
+        },
+      ]);
+    });
+
+    it('should set the variant for success and error toasts', () => {
+      toast.success('Created');
+      toast.error('Failed', { description: 'Server error' });
+
+      expect(getToasts().map((item) => item.variant)).toEqual(['success', 'error']);
+      expect(getToasts()[1]?.description).toBe('Server error');
+    });
+
+    it('should replace a toast shown with the same ID', () => {
+      const onDismiss = vi.fn();
+      toast.error('First', { id: 'error-1', onDismiss });
+      toast.error('Second', { id: 'error-1' });
+
+      expect(getToasts()).toHaveLength(1);
+      expect(getToasts()[0]?.title).toBe('Second');
+      expect(onDismiss).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss the oldest toasts beyond the visible limit', () => {
+      for (let i = 0; i <= TOAST_MAX_VISIBLE; i++) {
+        toast.show({ title: `Toast ${i}` });
+      }
+
+      expect(getToasts()).toHaveLength(TOAST_MAX_VISIBLE);
+      expect(getToasts()[0]?.title).toBe('Toast 1');
+    });
+
+    it('should not dismiss toasts kept on overflow', () => {
+      toast.show({ title: 'Kept', keepOnOverflow: true });
+      for (let i = 1; i <= TOAST_MAX_VISIBLE; i++) {
+        toast.show({ title: `Toast ${i}` });
+      }
+
+      expect(getToasts()[0]?.title).toBe('Kept');
+      expect(getToasts()[1]?.title).toBe('Toast 2');
+    });
+
+    it('should notify subscribers', () => {
+      const listener = vi.fn();
+      const unsubscribe = ToastManager.getInstance().subscribe(listener);
+
+      toast.show({ title: 'Saved' });
+      unsubscribe();
+      toast.show({ title: 'Again' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dismiss', () => {
+    it('should auto-dismiss after the duration and call onDismiss', () => {
+      const onDismiss = vi.fn();
+      toast.show({ title: 'Saved', durationMs: 1000, onDismiss });
+
+      vi.advanceTimersByTime(999);
+      expect(getToasts()).toHaveLength(1);
+
+      vi.advanceTimersByTime(1);
+      expect(getToasts()).toHaveLength(0);
+      expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep toasts with a duration of 0 until dismissed', () => {
+      const id = toast.error('Failed', { durationMs: 0 });
+
+      vi.advanceTimersByTime(60000);
+      expect(getToasts()).toHaveLength(1);
+
+      toast.dismiss(id);
+      expect(getToasts()).toHaveLength(0);
+    });
+
+    it('should ignore unknown IDs', () => {
+      toast.show({ title: 'Saved' });
+      toast.dismiss('missing');
+      expect(getToasts()).toHaveLength(1);
+    });
+  });
+
+  describe('waitForUndo', () => {
+    it('should resolve when the grace period passes', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+      expect(getToasts()[0]?.action?.label).toBe('Undo');
+
+      vi.advanceTimersByTime(5000);
+
+      await expect(pending).resolves.toBeUndefined();
+      expect(getToasts()).toHaveLength(0);
+    });
+
+    it('should resolve early when the toast is dismissed', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+
+      toast.dismiss(getToasts()[0]!.id);
+
+      await expect(pending).resolves.toBeUndefined();
+    });
+
+    it('should reject with ActionUndoneError when undone', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+
+      getToasts()[0]?.action?.onClick();
+
+      await expect(pending).rejects.toBeInstanceOf(ActionUndoneError);
+      expect(getToasts()).toHaveLength(0);
+    });
+
+    it('should keep the undo toast when newer toasts overflow', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+      for (let i = 0; i < TOAST_MAX_VISIBLE; i++) {
+        toast.show({ title: `Toast ${i}` });
+      }
+
+      expect(getToasts()[0]?.title).toBe('Deleted "Tech Blog"');
+
+      getToasts()[0]?.action?.onClick();
+      await expect(pending).rejects.toBeInstanceOf(ActionUndoneError);
+    });
+
+    it('should resolve when the toasts are cleared', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+
+      ToastManager.getInstance().clear();
+
+      await expect(pending).resolves.toBeUndefined();
+      expect(getToasts()).toHaveLength(0);
+    });
+
+    it('should resolve when the page is hidden', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      await expect(pending).resolves.toBeUndefined();
+      expect(getToasts()).toHaveLength(0);
+    });
+
+    it('should stop listening for pagehide once settled', async () => {
+      const pending = waitForUndo('Deleted "Tech Blog"', 5000);
+      getToasts()[0]?.action?.onClick();
+      await expect(pending).rejects.toBeInstanceOf(ActionUndoneError);
+
+      const dismiss = vi.spyOn(ToastManager.getInstance(), 'dismiss');
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(dismiss).not.toHaveBeenCalled();
+    });
+
+    it('should resolve immediately without a toast when the grace period is 0', async () => {
+      await expect(waitForUndo('Deleted "Tech Blog"', 0)).resolves.toBeUndefined();
+      expect(getToasts()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { extractSnippet, splitHighlights } from './highlight';
+
+const matched = (text: string, terms: string[]) =>
+  splitHighlights(text, terms)
+    .filter(({ match }) => match)
+    .map(({ text }) => text);
+
+describe('splitHighlights', () => {
+  it('should split text around case-insensitive matches', () => {
+    expect(splitHighlights('React and Vue', ['vue', 'REACT'])).toEqual([
+      { text: 'React', match: true },
+      { text: ' and ', match: false },
+      { text: 'Vue', match: true },
+    ]);
+  });
+
+  it('should highlight every occurrence', () => {
+    expect(matched('go, Go and GO', ['go'])).toEqual(['go', 'Go', 'GO']);
+  });
+
+  it('should prefer a phrase over a word it contains', () => {
+    expect(matched('Server Components on the server', ['server', 'server components'])).toEqual([
+      'Server Components',
+      'server',
+    ]);
+  });
+
+  it('should match phrases across any whitespace', () => {
+    expect(matched('server\n  components', ['server components'])).toEqual([
+      'server\n  components',
+    ]);
+  });
+
+  it('should treat regular expression characters literally', () => {
+    expect(matched('C++ and C#, not C', ['c++', 'c#'])).toEqual(['C++', 'C#']);
+    expect(matched('a.b axb', ['a.b'])).toEqual(['a.b']);
+  });
+
+  it('should keep markup in the text as plain text', () => {
+    const segments = splitHighlights('<img src=x onerror=alert(1)> img', ['img']);
+
+    expect(segments.map(({ text }) => text).join('')).toBe('<img src=x onerror=alert(1)> img');
+    expect(segments.filter(({ match }) => match)).toHaveLength(2);
+  });
+
+  it('should return the whole text when nothing is highlighted', () => {
+    expect(splitHighlights('React', [])).toEqual([{ text: 'React', match: false }]);
+    expect(splitHighlights('React', ['  '])).toEqual([{ text: 'React', match: false }]);
+    expect(splitHighlights('React', ['vue'])).toEqual([{ text: 'React', match: false }]);
+    expect(splitHighlights('', ['vue'])).toEqual([]);
+  });
+});
+
+describe('extractSnippet', () => {
+  const text =
+    'The first part of this summary talks about something else entirely, and only much later does the keyword appear in the middle of a sentence before the summary goes on for a while longer.';
+
+  it('should return short text unchanged', () => {
+    expect(extractSnippet('Short summary', ['summary'], 50)).toBe('Short summary');
+    expect(extractSnippet('', ['summary'], 50)).toBe('');
+  });
+
+  it('should cut a snippet around the first match at word boundaries', () => {
+    const snippet = extractSnippet(text, ['keyword'], 60);
+
+    expect(snippet).toBe('...later does the keyword appear in the middle of a sentence...');
+    expect(snippet.replace(/\.\.\./g, '').length).toBeLessThanOrEqual(60);
+  });
+
+  it('should use the earliest match of any term', () => {
+    expect(extractSnippet(text, ['sentence', 'keyword'], 40)).toContain('keyword');
+  });
+
+  it('should not add a leading ellipsis for a match near the start', () => {
+    expect(extractSnippet(text, ['first'], 40)).toBe('The first part of this summary talks...');
+  });
+
+  it('should end at the text end for a match near the end', () => {
+    expect(extractSnippet(text, ['longer'], 40)).toBe('...the summary goes on for a while longer.');
+  });
+
+  it('should truncate from the start when nothing matches', () => {
+    expect(extractSnippet(text, ['missing'], 40)).toBe('The first part of this summary talks...');
+  });
+
+  it('should keep a long match whole', () => {
+    const snippet = extractSnippet(text, ['does the keyword appear in the middle'], 40);
+
+    expect(snippet).toContain('does the keyword appear in the middle');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Search Highlighting Utilities
+ *
+ * Splits plain text into matched and unmatched segments so search terms can
+ * be highlighted, and extracts a snippet around the first match.
+ *
+ * Works on plain strings only: segments are rendered as React text nodes,
+ * never as HTML, so article content cannot inject markup.
+ */
+
+import { truncateText } from '@/lib/utils/truncate';
+
+/**
+ * A run of text that either matches a search term or not
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Build a case-insensitive pattern matching any of the terms
+ *
+ * Longer terms come first so a phrase wins over a word it contains.
+ */
+function buildPattern(terms: readonly string[]): RegExp | null {
+  const escaped = [...new Set(terms.map((term) => term.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+
+  return escaped.length > 0 ? new RegExp(escaped.join('|'), 'giu') : null;
+}
+
+/**
+ * Split text into segments matching and not matching the search terms
+ *
+ * @param text - Plain text to split
+ * @param terms - Words or phrases to highlight (case-insensitive)
+ * @returns Segments in order; their text joins back to the input
+ *
+ * @example
+ * splitHighlights('React and Vue', ['vue', 'react'])
+ * // [{ text: 'React', match: true }, { text: ' and ', match: false }, { text: 'Vue', match: true }]
+ */
+export function splitHighlights(text: string, terms: readonly string[]): HighlightSegment[] {
+  const pattern = buildPattern(terms);
+  if (!text || !pattern) {
+    return text ? [{ text, match: false }] : [];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    if (found.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, found.index), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    lastIndex = found.index + found[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Extract a snippet of text around the first match of the search terms
+ *
+ * The first match is placed near the start of the snippet (after some
+ * leading context), and the snippet is cut at word boundaries with `...`
+ * marking omitted text. Without a match, the text is truncated from the
+ * start like `truncateText`.
+ *
+ * @param text - Plain text to extract from
+ * @param terms - Words or phrases to look for (case-insensitive)
+ * @param maxLength - Maximum snippet length (excluding ellipses)
+ * @returns Snippet text
+ *
+ * @example
+ * extractSnippet('Long intro ... the keyword appears here ...', ['keyword'], 40)
+ * // '...intro ... the keyword appears here...'
+ */
+export function extractSnippet(text: string, terms: readonly string[], maxLength: number): string {
+  if (!text || text.length <= maxLength) {
+    return text ?? '';
+  }
+
+  const pattern = buildPattern(terms);
+  const found = pattern?.exec(text);
+  if (!found) {
+    return truncateText(text, maxLength);
+  }
+
+  // Keep about a third of the room before the match as context
+  const context = Math.max(0, Math.floor((maxLength - found[0].length) / 3));
+  let start = Math.max(0, Math.min(found.index - context, text.length - maxLength));
+  let end = Math.min(text.length, start + maxLength);
+
+  // Move inwards to word boundaries, unless that would cut into the match
+  if (start > 0) {
+    const space = text.indexOf(' ', start - 1);
+    if (space !== -1 && space < found.index) {
+      start = space + 1;
+    }
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space >= found.index + found[0].length) {
+      end = space;
+    }
+  }
+
+  const snippet = text.slice(start, end).trim();
+  return `${start > 0 ? '...' : ''}${snippet}${end < text.length ? '...' : ''}`;
+}
@@ -7,18 +7,22 @@
  * requests (POST, PUT, PATCH, DELETE).
  *
  * NOTE: Next.js proxy functions run on the Edge runtime, which doesn't have access to localStorage.
- * This proxy validates token expiration and handles route protection.
+ * This proxy verifies the token signature and claims (see `verifyAccessToken`) and handles
+ * route protection.
  *
  * Next.js 16 Changes:
  * - Renamed from `middleware` to `proxy` per Next.js 16 specification
  * - Added error handling wrapper for better resilience
  * - Maintains all CSRF and JWT validation logic
+ * - Verifies JWT signatures (HS256 secret, RS256/ES256 via JWKS), so the proxy is async
+ * - Serves the 403 page for pages the user's role has no permission for (see ROUTE_PERMISSIONS)
  */
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { decodeJwt } from 'jose';
 import { validateCsrfToken, setCsrfToken } from '@/lib/security/csrf';
+import { verifyAccessToken } from '@/lib/auth/jwtVerifier';
+import { getRoleFromClaims, getRoutePermission, hasPermission } from '@/lib/auth/permissions';
 
 /**
  * HTTP methods that change state and require CSRF protection
@@ -27,14 +31,23 @@ const STATE_CHANGING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
 
 /**
  * Routes exempt from CSRF validation (webhooks, health checks, etc.)
+ *
+ * The session routes (`/api/auth`) run before a CSRF token exists and check
+ * the request origin themselves.
  */
-const CSRF_EXEMPT_ROUTES = ['/api/health', '/api/webhooks', '/api/metrics', '/api/readiness'];
+const CSRF_EXEMPT_ROUTES = [
+  '/api/health',
+  '/api/webhooks',
+  '/api/metrics',
+  '/api/readiness',
+  '/api/auth',
+];
 
 /**
  * Protected route patterns
  * These routes require authentication
  */
-const PROTECTED_ROUTES = ['/dashboard', '/articles', '/sources'];
+const PROTECTED_ROUTES = ['/dashboard', '/articles', '/bookmarks', '/sources'];
 
 /**
  * Public route patterns
@@ -63,42 +76,6 @@ function isCsrfExempt(pathname: string): boolean {
   return CSRF_EXEMPT_ROUTES.some((route) => pathname.startsWith(route));
 }
 
-/**
- * Validate JWT token by checking its expiration
- * Returns true if token is valid (not expired), false otherwise
- *
- * NOTE: This only checks expiration, not signature verification.
- * Full signature verification requires the secret key, which is on the backend.
- * The backend will perform full validation when the token is used for API calls.
- *
- * @param token - JWT token string
- * @returns true if token is valid and not expired
- */
-function isTokenValid(token: string): boolean {
-  try {
-    const payload = decodeJwt(token);
-
-    // Check if token has an expiration claim
-    if (!payload.exp) {
-      // No expiration claim - consider valid (backend will verify)
-      return true;
-    }
-
-    // Check if token has expired
-    // exp is in seconds, Date.now() is in milliseconds
-    const expirationTime = payload.exp * 1000;
-    const currentTime = Date.now();
-
-    // Add a 30-second buffer to account for clock skew
-    const bufferMs = 30 * 1000;
-
-    return currentTime < expirationTime + bufferMs;
-  } catch {
-    // Invalid token format
-    return false;
-  }
-}
-
 /**
  * Next.js 16 Proxy Function
  *
@@ -108,7 +85,7 @@ function isTokenValid(token: string): boolean {
  * @param request - Next.js request object
  * @returns Next.js response (redirect or continue)
  */
-export function proxy(request: NextRequest) {
+export async function proxy(request: NextRequest) {
   try {
     const { pathname } = request.nextUrl;
     const method = request.method;
@@ -131,7 +108,8 @@ export function proxy(request: NextRequest) {
     // Phase 2: Authentication check
     // Check for auth token in cookies (set by client-side after login)
     const token = request.cookies.get('catchup_feed_auth_token')?.value;
-    const hasValidToken = token ? isTokenValid(token) : false;
+    const payload = token ? await verifyAccessToken(token) : null;
+    const hasValidToken = payload !== null;
 
     // Protected routes: redirect to /login if no valid token
     if (isProtectedRoute(pathname) && !hasValidToken) {
@@ -139,7 +117,7 @@ export function proxy(request: NextRequest) {
       // Add redirect parameter to return to original destination after login
       loginUrl.searchParams.set('redirect', pathname);
 
-      // Clear expired token from cookies
+      // Clear expired or forged token from cookies
       const response = NextResponse.redirect(loginUrl);
       if (token && !hasValidToken) {
         response.cookies.delete('catchup_feed_auth_token');
@@ -155,7 +133,20 @@ export function proxy(request: NextRequest) {
       return NextResponse.redirect(dashboardUrl);
     }
 
-    // Phase 3: Set CSRF token for authenticated users and login page
+    // Phase 3: Authorization check
+    // Pages that require a permission show the 403 page to roles without it
+    const requiredPermission = getRoutePermission(pathname);
+    if (
+      payload &&
+      requiredPermission &&
+      !hasPermission(getRoleFromClaims(payload), requiredPermission)
+    ) {
+      return setCsrfToken(
+        NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 })
+      );
+    }
+
+    // Phase 4: Set CSRF token for authenticated users and login page
     const response = NextResponse.next();
 
     // Set CSRF token for authenticated users or login page visitors
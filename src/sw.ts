@@ -1,13 +1,21 @@
 import { defaultCache } from '@serwist/next/worker';
-import type { PrecacheEntry, SerwistGlobalConfig } from 'serwist';
+import type { PrecacheEntry, SerwistGlobalConfig, SerwistPlugin } from 'serwist';
 import {
   Serwist,
   CacheFirst,
   NetworkFirst,
+  NetworkOnly,
   StaleWhileRevalidate,
   ExpirationPlugin,
   CacheableResponsePlugin,
 } from 'serwist';
+import {
+  OFFLINE_FALLBACK_URL,
+  isArticleApiPath,
+  isArticleDetailPath,
+  matchOfflineArticle,
+} from '@/lib/offline/articleCache';
+import { pwaConfig } from '@/config/pwa.config';
 
 declare global {
   interface WorkerGlobalScope extends SerwistGlobalConfig {
@@ -17,6 +25,88 @@ declare global {
 
 declare const self: ServiceWorkerGlobalScope;
 
+/**
+ * Article payload request made by getArticle (GET {apiBaseUrl}/articles/123)
+ * Same-origin detail routes are excluded so RSC fetches are never answered with JSON.
+ */
+function isArticleApiRequest(request: Request, url: URL): boolean {
+  return (
+    request.method === 'GET' &&
+    request.mode !== 'navigate' &&
+    isArticleApiPath(url.pathname) &&
+    !(url.origin === self.location.origin && isArticleDetailPath(url.pathname))
+  );
+}
+
+/**
+ * Navigation to an article detail route (/articles/123)
+ */
+function isArticleDetailNavigation(request: Request, url: URL): boolean {
+  return (
+    request.mode === 'navigate' &&
+    url.origin === self.location.origin &&
+    isArticleDetailPath(url.pathname)
+  );
+}
+
+/**
+ * Serves articles pinned for offline reading when the network fails
+ * (pinned by OfflineArticleStore on the page side)
+ */
+const offlineArticlePlugin: SerwistPlugin = {
+  handlerDidError: ({ request }) => matchOfflineArticle(request),
+};
+
+/**
+ * Minimal offline page used when even the precached fallback is unavailable
+ */
+const OFFLINE_HTML = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Offline - Catchup Feed</title>
+  </head>
+  <body style="font-family: system-ui, sans-serif; padding: 2rem; text-align: center;">
+    <h1>You are offline</h1>
+    <p>Check your connection and try again.</p>
+  </body>
+</html>`;
+
+/**
+ * Network request with offline reading and offline page fallbacks
+ * Used when Serwist fails to initialize.
+ */
+async function fetchWithOfflineFallback(request: Request): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const url = new URL(request.url);
+
+    if (isArticleApiRequest(request, url) || isArticleDetailNavigation(request, url)) {
+      const pinned = await matchOfflineArticle(request).catch(() => undefined);
+      if (pinned) {
+        return pinned;
+      }
+    }
+
+    if (request.mode === 'navigate') {
+      const fallback = await caches
+        .match(OFFLINE_FALLBACK_URL, { ignoreSearch: true })
+        .catch(() => undefined);
+      return (
+        fallback ??
+        new Response(OFFLINE_HTML, {
+          status: 503,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        })
+      );
+    }
+
+    throw error;
+  }
+}
+
 try {
   const serwist = new Serwist({
     precacheEntries: self.__SW_MANIFEST,
@@ -91,7 +181,24 @@ try {
           ],
         }),
       },
-      // Strategy 5: API Requests (excluding real-time monitoring endpoints)
+      // Strategy 5: Pinned Article Payloads (offline reading)
+      // Network only; OfflineArticleStore manages the dedicated cache and its quota
+      {
+        matcher: ({ request, url }) => isArticleApiRequest(request, url),
+        handler: new NetworkOnly({
+          networkTimeoutSeconds: 10,
+          plugins: [offlineArticlePlugin],
+        }),
+      },
+      // Strategy 6: Pinned Article Detail Pages (offline reading)
+      {
+        matcher: ({ request, url }) => isArticleDetailNavigation(request, url),
+        handler: new NetworkOnly({
+          networkTimeoutSeconds: 10,
+          plugins: [offlineArticlePlugin],
+        }),
+      },
+      // Strategy 7: API Requests (excluding real-time monitoring endpoints)
       {
         matcher: ({ url }) =>
           url.pathname.startsWith('/api/') &&
@@ -99,7 +206,7 @@ try {
           !url.pathname.startsWith('/api/metrics') &&
           !url.pathname.startsWith('/api/readiness'),
         handler: new NetworkFirst({
-          cacheName: 'api-cache',
+          cacheName: pwaConfig.apiCacheName,
           networkTimeoutSeconds: 10,
           plugins: [
             new ExpirationPlugin({
@@ -114,13 +221,22 @@ try {
       },
       ...defaultCache,
     ],
+    // Offline page for navigations that fail and have nothing pinned
+    fallbacks: {
+      entries: [
+        {
+          url: OFFLINE_FALLBACK_URL,
+          matcher: ({ request }) => request.destination === 'document',
+        },
+      ],
+    },
   });
 
   serwist.addEventListeners();
 } catch (error) {
   console.error('[ServiceWorker] Initialization failed', error);
-  // Fallback: basic fetch passthrough (app works without caching)
+  // Fallback: network only, still serving pinned articles and an offline page
   self.addEventListener('fetch', (event) => {
-    event.respondWith(fetch(event.request));
+    event.respondWith(fetchWithOfflineFallback(event.request));
   });
 }
@@ -45,6 +45,13 @@ export interface RefreshTokenResponse {
   refresh_token: string;
 }
 
+/**
+ * Token revocation request payload
+ */
+export interface RevokeTokenRequest {
+  refresh_token: string;
+}
+
 /**
  * Token validation response
  */
@@ -132,6 +139,12 @@ export type ArticleResponse = Article;
 // Source Types
 // ============================================================================
 
+/**
+ * Kind of site a source is crawled from
+ * RSS sources are read from their feed; the others are scraped from the site
+ */
+export type SourceType = 'RSS' | 'Webflow' | 'NextJS' | 'Remix';
+
 /**
  * Source entity
  * Matches backend DTO: internal/handler/http/source/dto.go
@@ -140,6 +153,8 @@ export interface Source {
   id: number;
   name: string;
   feed_url: string;
+  /** Source type (sources created before types existed have none and are RSS) */
+  source_type?: SourceType;
   last_crawled_at?: string | null;
   active: boolean;
 }
@@ -204,6 +219,8 @@ export interface CreateSourceInput {
   name: string;
   /** RSS/Atom feed URL (max 2048 characters) */
   feedURL: string;
+  /** Source type (Optional, defaults to RSS) */
+  sourceType?: SourceType;
 }
 
 /**
@@ -217,6 +234,8 @@ export interface UpdateSourceInput {
   feedURL: string;
   /** Active status (Required, current active status) */
   active: boolean;
+  /** Source type (Optional, unchanged when omitted) */
+  sourceType?: SourceType;
 }
 
 /**
@@ -228,6 +247,8 @@ export interface SourceFormData {
   name: string;
   /** RSS/Atom feed URL */
   feedURL: string;
+  /** Source type (defaults to RSS) */
+  sourceType?: SourceType;
 }
 
 /**
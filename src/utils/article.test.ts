@@ -2,9 +2,10 @@
  * Article Utilities Tests
  */
 
-import { describe, it, expect } from 'vitest';
-import { normalizeSourceName, validateArticle } from './article';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { normalizeSourceName, validateArticle, matchesArticleSearch } from './article';
 import type { Article } from '@/types/api';
+import { createMockArticle } from '@/__test__/factories/articleFactory';
 
 describe('normalizeSourceName', () => {
   it('should return "Unknown Source" for null', () => {
@@ -125,3 +126,51 @@ describe('validateArticle', () => {
     expect(validateArticle(invalidArticle)).toBe(false);
   });
 });
+
+describe('matchesArticleSearch', () => {
+  const article = createMockArticle({
+    source_id: 2,
+    title: 'Go Generics in Practice',
+    summary: 'A look at type parameters',
+    published_at: '2025-03-10T12:00:00Z',
+  });
+
+  it('should match when no filters are set', () => {
+    expect(matchesArticleSearch(article, {})).toBe(true);
+  });
+
+  it('should match keywords case-insensitively in title or summary', () => {
+    expect(matchesArticleSearch(article, { keyword: 'generics' })).toBe(true);
+    expect(matchesArticleSearch(article, { keyword: 'TYPE parameters' })).toBe(true);
+  });
+
+  it('should require every keyword to match', () => {
+    expect(matchesArticleSearch(article, { keyword: 'generics rust' })).toBe(false);
+  });
+
+  it('should filter by source', () => {
+    expect(matchesArticleSearch(article, { source_id: 2 })).toBe(true);
+    expect(matchesArticleSearch(article, { source_id: 3 })).toBe(false);
+  });
+
+  it('should treat the date range as inclusive', () => {
+    expect(matchesArticleSearch(article, { from: '2025-03-10', to: '2025-03-10' })).toBe(true);
+    expect(matchesArticleSearch(article, { from: '2025-03-11' })).toBe(false);
+    expect(matchesArticleSearch(article, { to: '2025-03-09' })).toBe(false);
+  });
+
+  describe('relative date ranges', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should resolve relative dates against the current time', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-03-11T06:00:00Z'));
+
+      expect(matchesArticleSearch(article, { from: '-1d', to: 'today' })).toBe(true);
+      expect(matchesArticleSearch(article, { from: 'today' })).toBe(false);
+      expect(matchesArticleSearch(article, { from: 'month-start', to: 'today' })).toBe(true);
+    });
+  });
+});
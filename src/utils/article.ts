@@ -5,6 +5,8 @@
  */
 
 import type { Article } from '@/types/api';
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+import { getDateRangeBoundTime, resolveDateRangeValue } from '@/lib/search/dateRange';
 
 /**
  * Normalizes source name with fallback for invalid values.
@@ -43,3 +45,41 @@ export function validateArticle(article: unknown): article is Article {
     typeof a.created_at === 'string'
   );
 }
+
+/**
+ * Checks whether an article matches search filters on the client.
+ *
+ * Mirrors the backend search for locally held articles (e.g. bookmarks):
+ * every whitespace-separated keyword must appear in the title or summary
+ * (case-insensitive), and `from`/`to` (dates or relative tokens) are inclusive.
+ *
+ * @param article - Article to check
+ * @param params - Search filters (pagination fields are ignored)
+ * @returns True if the article matches all active filters
+ */
+export function matchesArticleSearch(article: Article, params: ArticleSearchParams): boolean {
+  const terms = (params.keyword ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const haystack = `${article.title ?? ''} ${article.summary ?? ''}`.toLowerCase();
+    if (!terms.every((term) => haystack.includes(term))) {
+      return false;
+    }
+  }
+
+  if (params.source_id !== undefined && article.source_id !== params.source_id) {
+    return false;
+  }
+
+  const published = article.published_at ? Date.parse(article.published_at) : NaN;
+  if (
+    params.from &&
+    !(published >= getDateRangeBoundTime(resolveDateRangeValue(params.from), 'from'))
+  ) {
+    return false;
+  }
+  if (params.to && !(published <= getDateRangeBoundTime(resolveDateRangeValue(params.to), 'to'))) {
+    return false;
+  }
+
+  return true;
+}
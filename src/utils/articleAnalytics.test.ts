@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countArticlesBySource,
+  countArticlesPerDay,
+  findSourcesWithoutRecentArticles,
+  getRangeStartDate,
+} from './articleAnalytics';
+import { createMockArticle, createMockArticles } from '@/__test__/factories/articleFactory';
+import type { Source } from '@/types/api';
+
+const NOW = new Date('2026-10-19T12:00:00Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+const createSource = (overrides: Partial<Source> = {}): Source => ({
+  id: 1,
+  name: 'Tech Blog',
+  feed_url: 'https://example.com/feed.xml',
+  active: true,
+  ...overrides,
+});
+
+describe('articleAnalytics', () => {
+  describe('getRangeStartDate', () => {
+    it('should return the first UTC day of a range ending today', () => {
+      expect(getRangeStartDate(1, NOW)).toBe('2026-10-19');
+      expect(getRangeStartDate(7, NOW)).toBe('2026-10-13');
+      expect(getRangeStartDate(30, NOW)).toBe('2026-09-20');
+    });
+  });
+
+  describe('countArticlesPerDay', () => {
+    it('should return a zero-filled bucket for every day, oldest first', () => {
+      const counts = countArticlesPerDay([], 7, NOW);
+
+      expect(counts).toHaveLength(7);
+      expect(counts[0]).toEqual({ date: '2026-10-13', count: 0 });
+      expect(counts[6]).toEqual({ date: '2026-10-19', count: 0 });
+      expect(counts.every(({ count }) => count === 0)).toBe(true);
+    });
+
+    it('should count articles by the day they were ingested', () => {
+      const articles = createMockArticles(4, [
+        { created_at: '2026-10-19T08:00:00Z' },
+        { created_at: '2026-10-19T00:00:00Z' },
+        { created_at: '2026-10-17T23:59:59Z' },
+        // Published long ago, but ingested today
+        { created_at: '2026-10-19T01:00:00Z', published_at: '2025-01-01T00:00:00Z' },
+      ]);
+
+      const counts = countArticlesPerDay(articles, 3, NOW);
+
+      expect(counts).toEqual([
+        { date: '2026-10-17', count: 1 },
+        { date: '2026-10-18', count: 0 },
+        { date: '2026-10-19', count: 3 },
+      ]);
+    });
+
+    it('should ignore articles outside the range or with an invalid date', () => {
+      const articles = createMockArticles(3, [
+        { created_at: daysAgo(7) },
+        { created_at: 'not-a-date' },
+        { created_at: daysAgo(1) },
+      ]);
+
+      const counts = countArticlesPerDay(articles, 7, NOW);
+
+      expect(counts.reduce((total, { count }) => total + count, 0)).toBe(1);
+    });
+
+    it('should bucket the 90-day range', () => {
+      const articles = createMockArticles(2, [
+        { created_at: daysAgo(89) },
+        { created_at: daysAgo(90) },
+      ]);
+
+      const counts = countArticlesPerDay(articles, 90, NOW);
+
+      expect(counts).toHaveLength(90);
+      expect(counts[0]).toEqual({ date: '2026-07-22', count: 1 });
+    });
+  });
+
+  describe('countArticlesBySource', () => {
+    it('should count articles per source, highest volume first', () => {
+      const articles = createMockArticles(6, [
+        { source_id: 1, source_name: 'Tech Blog' },
+        { source_id: 2, source_name: 'Dev News' },
+        { source_id: 2, source_name: 'Dev News' },
+        { source_id: 3, source_name: 'AI Weekly' },
+        { source_id: 2, source_name: 'Dev News' },
+        { source_id: 3, source_name: 'AI Weekly' },
+      ]);
+
+      expect(countArticlesBySource(articles)).toEqual([
+        { sourceId: 2, sourceName: 'Dev News', count: 3 },
+        { sourceId: 3, sourceName: 'AI Weekly', count: 2 },
+        { sourceId: 1, sourceName: 'Tech Blog', count: 1 },
+      ]);
+    });
+
+    it('should order sources with the same volume by name', () => {
+      const articles = [
+        createMockArticle({ id: 1, source_id: 1, source_name: 'Zeta' }),
+        createMockArticle({ id: 2, source_id: 2, source_name: 'Alpha' }),
+      ];
+
+      expect(countArticlesBySource(articles).map(({ sourceName }) => sourceName)).toEqual([
+        'Alpha',
+        'Zeta',
+      ]);
+    });
+
+    it('should return an empty breakdown without articles', () => {
+      expect(countArticlesBySource([])).toEqual([]);
+    });
+  });
+
+  describe('findSourcesWithoutRecentArticles', () => {
+    const sources = [
+      createSource({ id: 1, name: 'Tech Blog' }),
+      createSource({ id: 2, name: 'Dev News' }),
+      createSource({ id: 3, name: 'AI Weekly' }),
+      createSource({ id: 4, name: 'Paused Feed', active: false }),
+    ];
+
+    it('should list active sources without articles in the range, sorted by name', () => {
+      const articles = createMockArticles(2, [
+        { source_id: 1, created_at: daysAgo(1) },
+        { source_id: 2, created_at: daysAgo(10) },
+      ]);
+
+      const quiet = findSourcesWithoutRecentArticles(sources, articles, 7, NOW);
+
+      expect(quiet.map(({ name }) => name)).toEqual(['AI Weekly', 'Dev News']);
+    });
+
+    it('should depend on the range', () => {
+      const articles = createMockArticles(2, [
+        { source_id: 1, created_at: daysAgo(1) },
+        { source_id: 2, created_at: daysAgo(10) },
+      ]);
+
+      const quiet = findSourcesWithoutRecentArticles(sources, articles, 30, NOW);
+
+      expect(quiet.map(({ name }) => name)).toEqual(['AI Weekly']);
+    });
+
+    it('should leave out inactive sources', () => {
+      const quiet = findSourcesWithoutRecentArticles(sources, [], 7, NOW);
+
+      expect(quiet.map(({ id }) => id)).not.toContain(4);
+      expect(quiet).toHaveLength(3);
+    });
+  });
+});
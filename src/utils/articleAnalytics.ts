@@ -0,0 +1,167 @@
+/**
+ * Article Analytics Utilities
+ *
+ * Aggregates articles for the dashboard analytics section: ingestion volume
+ * per day, a per-source breakdown and the sources that went quiet.
+ *
+ * Articles are bucketed by created_at (when the crawler ingested them, not
+ * when the feed published them) on UTC calendar days, so the buckets match
+ * the API's date filters.
+ */
+
+import type { Article, Source } from '@/types/api';
+
+/**
+ * Selectable analytics ranges (days)
+ */
+export const ANALYTICS_RANGE_DAYS = [7, 30, 90] as const;
+
+/**
+ * An analytics range (days)
+ */
+export type AnalyticsRangeDays = (typeof ANALYTICS_RANGE_DAYS)[number];
+
+/**
+ * Number of articles ingested on a single day
+ */
+export interface DailyArticleCount {
+  /** UTC calendar day (YYYY-MM-DD) */
+  date: string;
+  count: number;
+}
+
+/**
+ * Number of articles ingested from a single source
+ */
+export interface SourceArticleCount {
+  sourceId: number;
+  sourceName: string;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC calendar day (YYYY-MM-DD) of a timestamp
+ */
+function toDayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Get the first day of a range ending today
+ *
+ * @param days - Number of days in the range, today included
+ * @param now - Current time in milliseconds (for tests)
+ * @returns UTC calendar day (YYYY-MM-DD), usable as the `from` search parameter
+ *
+ * @example
+ * getRangeStartDate(7, Date.parse('2026-10-19T12:00:00Z')); // '2026-10-13'
+ */
+export function getRangeStartDate(days: number, now: number = Date.now()): string {
+  return toDayKey(now - (days - 1) * DAY_MS);
+}
+
+/**
+ * Whether an article was ingested within a range ending today
+ */
+function isWithinRange(article: Article, startDate: string, now: number): boolean {
+  const time = new Date(article.created_at).getTime();
+  if (Number.isNaN(time) || time > now) {
+    return false;
+  }
+  return toDayKey(time) >= startDate;
+}
+
+/**
+ * Count articles ingested per day
+ *
+ * Every day of the range gets a bucket, so days without articles count 0.
+ * Articles outside the range or without a valid created_at are ignored.
+ *
+ * @param articles - Articles to count
+ * @param days - Number of days in the range, today included
+ * @param now - Current time in milliseconds (for tests)
+ * @returns One entry per day, oldest first
+ */
+export function countArticlesPerDay(
+  articles: Article[],
+  days: number,
+  now: number = Date.now()
+): DailyArticleCount[] {
+  const counts = new Map<string, number>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    counts.set(toDayKey(now - offset * DAY_MS), 0);
+  }
+
+  for (const article of articles) {
+    const time = new Date(article.created_at).getTime();
+    if (Number.isNaN(time)) {
+      continue;
+    }
+    const key = toDayKey(time);
+    const count = counts.get(key);
+    if (count !== undefined) {
+      counts.set(key, count + 1);
+    }
+  }
+
+  return Array.from(counts, ([date, count]) => ({ date, count }));
+}
+
+/**
+ * Count articles per source
+ *
+ * @param articles - Articles to count
+ * @returns One entry per source, highest volume first (ties by name)
+ */
+export function countArticlesBySource(articles: Article[]): SourceArticleCount[] {
+  const counts = new Map<number, SourceArticleCount>();
+
+  for (const article of articles) {
+    const entry = counts.get(article.source_id);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(article.source_id, {
+        sourceId: article.source_id,
+        sourceName: article.source_name,
+        count: 1,
+      });
+    }
+  }
+
+  return Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.sourceName.localeCompare(b.sourceName)
+  );
+}
+
+/**
+ * Find active sources without articles in a range ending today
+ *
+ * Inactive sources are not crawled, so they are expected to be quiet and are
+ * left out.
+ *
+ * @param sources - Sources to check
+ * @param articles - Articles ingested in (at least) the range
+ * @param days - Number of days in the range, today included
+ * @param now - Current time in milliseconds (for tests)
+ * @returns The quiet sources, sorted by name
+ */
+export function findSourcesWithoutRecentArticles(
+  sources: Source[],
+  articles: Article[],
+  days: number,
+  now: number = Date.now()
+): Source[] {
+  const startDate = getRangeStartDate(days, now);
+  const activeSourceIds = new Set(
+    articles
+      .filter((article) => isWithinRange(article, startDate, now))
+      .map((article) => article.source_id)
+  );
+
+  return sources
+    .filter((source) => source.active && !activeSourceIds.has(source.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildArticleListContextQuery,
+  getArticleDetailHref,
+  getArticleListFilters,
+  getArticleListHref,
+  hasArticleListFilters,
+  parseArticleListContext,
+} from './articleListContext';
+
+describe('articleListContext', () => {
+  describe('parseArticleListContext', () => {
+    it('should read filters, page and limit from the URL', () => {
+      const context = parseArticleListContext(
+        new URLSearchParams(
+          'keyword=react&source_id=3&from=2026-01-01&to=2026-01-31&page=2&limit=20'
+        )
+      );
+
+      expect(context).toEqual({
+        keyword: 'react',
+        source_id: 3,
+        from: '2026-01-01',
+        to: '2026-01-31',
+        unread: undefined,
+        page: 2,
+        limit: 20,
+      });
+    });
+
+    it('should fall back to defaults for missing or invalid values', () => {
+      const context = parseArticleListContext(new URLSearchParams('source_id=abc&page=-1'));
+
+      expect(context.source_id).toBeUndefined();
+      expect(context.page).toBe(1);
+      expect(context.limit).toBe(10);
+      expect(hasArticleListFilters(context)).toBe(false);
+    });
+
+    it('should read the unread-only flag', () => {
+      expect(parseArticleListContext(new URLSearchParams('unread=true')).unread).toBe(true);
+    });
+  });
+
+  describe('buildArticleListContextQuery', () => {
+    it('should round-trip through parseArticleListContext', () => {
+      const context = {
+        keyword: 'next js',
+        source_id: 5,
+        from: '2026-02-01',
+        unread: true,
+        page: 3,
+        limit: 50,
+      };
+
+      const parsed = parseArticleListContext(
+        new URLSearchParams(buildArticleListContextQuery(context))
+      );
+
+      expect(parsed).toEqual({ ...context, to: undefined });
+    });
+
+    it('should omit unset filters', () => {
+      expect(buildArticleListContextQuery({ page: 1, limit: 10 })).toBe('page=1&limit=10');
+    });
+  });
+
+  describe('hrefs', () => {
+    it('should carry the context on the detail URL', () => {
+      expect(getArticleDetailHref(42, { keyword: 'ai', page: 2, limit: 10 })).toBe(
+        '/articles/42?keyword=ai&page=2&limit=10'
+      );
+      expect(getArticleDetailHref(42)).toBe('/articles/42');
+    });
+
+    it('should build the list URL', () => {
+      expect(getArticleListHref({ source_id: 1, page: 4, limit: 20 })).toBe(
+        '/articles?source_id=1&page=4&limit=20'
+      );
+      expect(getArticleListHref()).toBe('/articles');
+    });
+  });
+
+  describe('getArticleListFilters', () => {
+    it('should drop page, limit and the unread flag', () => {
+      expect(getArticleListFilters({ keyword: 'ai', unread: true, page: 2, limit: 10 })).toEqual({
+        keyword: 'ai',
+        source_id: undefined,
+        from: undefined,
+        to: undefined,
+      });
+    });
+  });
+});
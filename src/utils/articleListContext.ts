@@ -0,0 +1,123 @@
+/**
+ * Article List Context Utilities
+ *
+ * The list context is the search state and page of the articles list the user
+ * opened an article from. It travels in the detail page URL
+ * (/articles/42?keyword=react&page=3&limit=10) so the detail page can offer
+ * previous/next navigation and a way back to the same list.
+ */
+
+import { validatePaginationParams } from '@/lib/api/utils/pagination';
+import type { ArticleSearchParams } from '@/lib/api/endpoints/articles';
+
+/**
+ * Search filters and position of an articles list
+ */
+export interface ArticleListContext {
+  keyword?: string;
+  source_id?: number;
+  from?: string;
+  to?: string;
+  /** Unread-only filter of the list (client-side; not applied to neighbours) */
+  unread?: boolean;
+  /** Page the article appears on (1-indexed) */
+  page: number;
+  /** Items per page */
+  limit: number;
+}
+
+/**
+ * Query parameters that make up the list context, in URL order
+ */
+const CONTEXT_FILTER_KEYS = ['keyword', 'source_id', 'from', 'to'] as const;
+
+/**
+ * Read the list context from URL search parameters
+ *
+ * @param params - URL search parameters (list page or detail page)
+ * @returns List context with validated page and limit
+ */
+export function parseArticleListContext(params: URLSearchParams): ArticleListContext {
+  const { page, limit } = validatePaginationParams(params);
+  const sourceId = parseInt(params.get('source_id') ?? '', 10);
+
+  return {
+    keyword: params.get('keyword') || undefined,
+    source_id: Number.isNaN(sourceId) ? undefined : sourceId,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    unread: params.get('unread') === 'true' || undefined,
+    page,
+    limit,
+  };
+}
+
+/**
+ * Get the search filters of a list context
+ *
+ * @param context - List context
+ * @returns Search params without page and limit
+ */
+export function getArticleListFilters(
+  context: ArticleListContext
+): Omit<ArticleSearchParams, 'page' | 'limit'> {
+  return {
+    keyword: context.keyword,
+    source_id: context.source_id,
+    from: context.from,
+    to: context.to,
+  };
+}
+
+/**
+ * Check whether a list context has search filters (searchArticles vs getArticles)
+ *
+ * @param context - List context
+ * @returns True if any filter is set
+ */
+export function hasArticleListFilters(context: ArticleListContext): boolean {
+  return CONTEXT_FILTER_KEYS.some((key) => context[key] !== undefined);
+}
+
+/**
+ * Serialize a list context to a query string (without the leading '?')
+ *
+ * @param context - List context
+ * @returns Query string
+ */
+export function buildArticleListContextQuery(context: ArticleListContext): string {
+  const params = new URLSearchParams();
+  for (const key of CONTEXT_FILTER_KEYS) {
+    const value = context[key];
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  if (context.unread) {
+    params.set('unread', 'true');
+  }
+  params.set('page', String(context.page));
+  params.set('limit', String(context.limit));
+  return params.toString();
+}
+
+/**
+ * Build the detail page URL of an article, carrying the list context
+ *
+ * @param id - Article ID
+ * @param context - List context, if the article was opened from a list
+ * @returns Detail page URL
+ */
+export function getArticleDetailHref(id: number, context?: ArticleListContext): string {
+  return context ? `/articles/${id}?${buildArticleListContextQuery(context)}` : `/articles/${id}`;
+}
+
+/**
+ * Build the articles list URL for a list context
+ *
+ * @param context - List context, or undefined for the unfiltered first page
+ * @returns Articles list URL
+ */
+export function getArticleListHref(context?: ArticleListContext): string {
+  return context ? `/articles?${buildArticleListContextQuery(context)}` : '/articles';
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOpmlImportPreview,
+  normalizeFeedURL,
+  OpmlParseError,
+  parseOpml,
+  serializeOpml,
+} from './opml';
+import type { Source } from '@/types/api';
+
+const sources: Source[] = [
+  { id: 1, name: 'Tech & Code', feed_url: 'https://example.com/feed.xml', active: true },
+  { id: 2, name: 'Paused "Blog"', feed_url: 'https://blog.example.com/rss', active: false },
+];
+
+const opml = (outlines: string) => `<?xml version="1.0"?>
+<opml version="2.0">
+  <head><title>Subscriptions</title></head>
+  <body>${outlines}</body>
+</opml>`;
+
+describe('opml', () => {
+  describe('serializeOpml', () => {
+    it('should write an OPML 2.0 document with one outline per source', () => {
+      const xml = serializeOpml(sources, { dateCreated: new Date('2026-01-01T00:00:00Z') });
+
+      expect(xml).toContain('<opml version="2.0">');
+      expect(xml).toContain('<dateCreated>Thu, 01 Jan 2026 00:00:00 GMT</dateCreated>');
+      expect(xml).toContain('text="Tech &amp; Code"');
+      expect(xml).toContain('text="Paused &quot;Blog&quot;"');
+      expect(xml).toContain('active="false"');
+    });
+
+    it('should round-trip through parseOpml including active state', () => {
+      expect(parseOpml(serializeOpml(sources))).toEqual([
+        { name: 'Tech & Code', feedURL: 'https://example.com/feed.xml', active: true },
+        { name: 'Paused "Blog"', feedURL: 'https://blog.example.com/rss', active: false },
+      ]);
+    });
+  });
+
+  describe('parseOpml', () => {
+    it('should flatten category outlines and skip outlines without xmlUrl', () => {
+      const outlines = parseOpml(
+        opml(`
+          <outline text="Tech">
+            <outline text="A" xmlUrl="https://a.example.com/feed"/>
+            <outline text="B" title="Bee" xmlUrl="https://b.example.com/feed"/>
+          </outline>
+          <outline title="C only title" xmlUrl="https://c.example.com/feed"/>
+          <outline xmlUrl="https://d.example.com/feed"/>`)
+      );
+
+      expect(outlines.map((outline) => outline.name)).toEqual([
+        'A',
+        'B',
+        'C only title',
+        'https://d.example.com/feed',
+      ]);
+      expect(outlines.every((outline) => outline.active)).toBe(true);
+    });
+
+    it('should throw OpmlParseError for malformed XML', () => {
+      expect(() => parseOpml('<opml><body>')).toThrow(OpmlParseError);
+    });
+
+    it('should throw OpmlParseError for non-OPML documents', () => {
+      expect(() => parseOpml('<rss><channel></channel></rss>')).toThrow(OpmlParseError);
+    });
+  });
+
+  describe('normalizeFeedURL', () => {
+    it('should ignore host case, fragments and trailing slashes', () => {
+      expect(normalizeFeedURL(' https://Example.com/feed/#top ')).toBe(
+        normalizeFeedURL('https://example.com/feed')
+      );
+    });
+
+    it('should keep query strings significant', () => {
+      expect(normalizeFeedURL('https://example.com/feed?a=1')).not.toBe(
+        normalizeFeedURL('https://example.com/feed?a=2')
+      );
+    });
+  });
+
+  describe('buildOpmlImportPreview', () => {
+    it('should flag duplicates of existing sources and earlier outlines', () => {
+      const rows = buildOpmlImportPreview(
+        [
+          { name: 'Existing', feedURL: 'https://EXAMPLE.com/feed.xml', active: true },
+          { name: 'New', feedURL: 'https://new.example.com/feed', active: true },
+          { name: 'New again', feedURL: 'https://new.example.com/feed/', active: true },
+        ],
+        sources
+      );
+
+      expect(rows.map((row) => row.status)).toEqual(['duplicate', 'new', 'duplicate']);
+      expect(rows[0]?.duplicateOf).toBe('Tech & Code');
+      expect(rows[2]?.duplicateOf).toBe('New');
+    });
+
+    it('should flag entries failing source validation', () => {
+      const rows = buildOpmlImportPreview(
+        [
+          { name: 'FTP', feedURL: 'ftp://example.com/feed', active: true },
+          { name: 'x'.repeat(300), feedURL: 'https://long.example.com/feed', active: true },
+        ],
+        []
+      );
+
+      expect(rows.map((row) => row.status)).toEqual(['invalid', 'invalid']);
+      expect(rows[0]?.errors.feedURL).toBe('Please enter a valid URL');
+      expect(rows[1]?.errors.name).toBe('Maximum 255 characters allowed');
+    });
+
+    it('should keep the document position as row index', () => {
+      const rows = buildOpmlImportPreview(
+        [
+          { name: 'A', feedURL: 'https://a.example.com', active: true },
+          { name: 'B', feedURL: 'https://b.example.com', active: false },
+        ],
+        []
+      );
+
+      expect(rows.map((row) => [row.index, row.status, row.active])).toEqual([
+        [0, 'new', true],
+        [1, 'new', false],
+      ]);
+    });
+  });
+});
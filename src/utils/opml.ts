@@ -0,0 +1,212 @@
+/**
+ * OPML Utilities
+ *
+ * Serialization and parsing of OPML 2.0 subscription lists, used to move
+ * sources between feed readers.
+ *
+ * Export writes one `<outline type="rss">` per source with the source's
+ * active state in an `active` attribute (OPML allows custom attributes;
+ * other readers ignore it). Import accepts any OPML version, flattens nested
+ * category outlines and keeps every outline with an `xmlUrl`.
+ *
+ * @module utils/opml
+ */
+
+import { validateSourceFeedURL, validateSourceName } from '@/utils/validation/sourceValidation';
+import type { SourceFormErrors } from '@/utils/validation/sourceValidation';
+import type { Source } from '@/types/api';
+
+/**
+ * A feed outline read from an OPML document
+ */
+export interface OpmlOutline {
+  /** Feed name (outline text, falling back to title, then the feed URL) */
+  name: string;
+  /** Feed URL (outline xmlUrl) */
+  feedURL: string;
+  /** Active state (false only when exported as inactive) */
+  active: boolean;
+}
+
+/**
+ * Import preview status of an outline
+ * - 'new': valid and not yet tracked
+ * - 'duplicate': feed URL already tracked, or repeated earlier in the file
+ * - 'invalid': fails source validation
+ */
+export type OpmlImportStatus = 'new' | 'duplicate' | 'invalid';
+
+/**
+ * An outline annotated for the import preview
+ */
+export interface OpmlImportRow extends OpmlOutline {
+  /** Position in the OPML document (stable row key) */
+  index: number;
+  status: OpmlImportStatus;
+  /** Validation errors ('invalid' rows) */
+  errors: SourceFormErrors;
+  /** Name of the existing source or earlier outline with the same feed URL ('duplicate' rows) */
+  duplicateOf?: string;
+}
+
+/**
+ * Error thrown when a file is not a readable OPML document
+ */
+export class OpmlParseError extends Error {
+  constructor(message: string = 'The file is not a valid OPML document') {
+    super(message);
+    this.name = 'OpmlParseError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, OpmlParseError);
+    }
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Escape a string for use in XML attribute values and text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Normalize a feed URL for duplicate detection
+ * (case-insensitive scheme and host, no fragment, no trailing slash)
+ *
+ * @param feedURL - Feed URL
+ * @returns Comparable form of the URL
+ */
+export function normalizeFeedURL(feedURL: string): string {
+  const trimmed = feedURL.trim();
+  try {
+    const url = new URL(trimmed);
+    url.hash = '';
+    if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+      url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+    return url.href;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
+
+/**
+ * Serialize sources to an OPML 2.0 document
+ *
+ * @param sources - Sources to export (e.g. getSources() output)
+ * @param options - Document title and creation date
+ * @returns OPML document as a string
+ *
+ * @example
+ * ```typescript
+ * const opml = serializeOpml(await getSources());
+ * ```
+ */
+export function serializeOpml(
+  sources: Source[],
+  options: { title?: string; dateCreated?: Date } = {}
+): string {
+  const { title = 'Catchup Feed sources', dateCreated = new Date() } = options;
+
+  const outlines = sources.map((source) => {
+    const name = escapeXml(source.name);
+    return `    <outline type="rss" text="${name}" title="${name}" xmlUrl="${escapeXml(source.feed_url)}" active="${source.active}"/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${dateCreated.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...outlines,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Parse the feed outlines of an OPML document
+ *
+ * @param xml - OPML document
+ * @returns Feed outlines in document order
+ * @throws {OpmlParseError} When the document is not well-formed OPML
+ */
+export function parseOpml(xml: string): OpmlOutline[] {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new OpmlParseError();
+  }
+
+  const root = document.documentElement;
+  if (root?.nodeName.toLowerCase() !== 'opml' || !root.getElementsByTagName('body')[0]) {
+    throw new OpmlParseError('The file is missing the OPML <opml> or <body> element');
+  }
+
+  return Array.from(root.getElementsByTagName('outline'))
+    .filter((outline) => outline.hasAttribute('xmlUrl'))
+    .map((outline) => {
+      const feedURL = (outline.getAttribute('xmlUrl') ?? '').trim();
+      const name = (
+        outline.getAttribute('text') ||
+        outline.getAttribute('title') ||
+        feedURL
+      ).trim();
+      return {
+        name,
+        feedURL,
+        active: outline.getAttribute('active') !== 'false',
+      };
+    });
+}
+
+/**
+ * Validate outlines and flag duplicates for the import preview
+ *
+ * @param outlines - Parsed outlines
+ * @param existingSources - Sources already tracked
+ * @returns One row per outline, in document order
+ */
+export function buildOpmlImportPreview(
+  outlines: OpmlOutline[],
+  existingSources: Source[]
+): OpmlImportRow[] {
+  const known = new Map<string, string>(
+    existingSources.map((source) => [normalizeFeedURL(source.feed_url), source.name])
+  );
+
+  return outlines.map((outline, index) => {
+    const errors: SourceFormErrors = {};
+    const nameError = validateSourceName(outline.name);
+    const feedURLError = validateSourceFeedURL(outline.feedURL);
+    if (nameError) errors.name = nameError;
+    if (feedURLError) errors.feedURL = feedURLError;
+
+    if (nameError || feedURLError) {
+      return { ...outline, index, status: 'invalid', errors };
+    }
+
+    const key = normalizeFeedURL(outline.feedURL);
+    const duplicateOf = known.get(key);
+    if (duplicateOf !== undefined) {
+      return { ...outline, index, status: 'duplicate', errors, duplicateOf };
+    }
+
+    known.set(key, outline.name);
+    return { ...outline, index, status: 'new', errors };
+  });
+}
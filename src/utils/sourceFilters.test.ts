@@ -74,6 +74,22 @@ describe('sourceFilters.all', () => {
   });
 });
 
+describe('sourceFilters.ofType', () => {
+  it('should return true only for sources of the given type', () => {
+    const webflowOnly = sourceFilters.ofType('Webflow');
+
+    expect(webflowOnly(createMockSource({ source_type: 'Webflow' }))).toBe(true);
+    expect(webflowOnly(createMockSource({ source_type: 'Remix' }))).toBe(false);
+  });
+
+  it('should treat sources without a type as RSS', () => {
+    const source = createMockSource();
+
+    expect(sourceFilters.ofType('RSS')(source)).toBe(true);
+    expect(sourceFilters.ofType('NextJS')(source)).toBe(false);
+  });
+});
+
 describe('filterSources', () => {
   it('should filter to only active sources by default', () => {
     const sources: Source[] = [
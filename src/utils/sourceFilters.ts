@@ -5,7 +5,8 @@
  * Supports extensible filtering without component modification.
  */
 
-import type { Source } from '@/types/api';
+import { getSourceType } from '@/utils/sourceType';
+import type { Source, SourceType } from '@/types/api';
 
 /**
  * SourceFilterPredicate - Function type for filtering sources
@@ -54,6 +55,23 @@ export const sourceFilters = {
    * @returns always true
    */
   all: (_source: Source): boolean => true,
+
+  /**
+   * Create a filter including only sources of the given type
+   *
+   * Sources without a type count as RSS (see getSourceType).
+   * Also used to filter search results when the backend ignores source_type.
+   *
+   * @param type - Source type to keep
+   * @returns Predicate returning true for sources of that type
+   *
+   * @example
+   * const webflowSources = filterSources(sources, sourceFilters.ofType('Webflow'));
+   */
+  ofType:
+    (type: SourceType): SourceFilterPredicate =>
+    (source: Source): boolean =>
+      getSourceType(source) === type,
 } as const;
 
 /**
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { countByHealth, getSourceHealth, sortByHealthSeverity } from './sourceHealth';
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import type { Source } from '@/types/api';
+
+const NOW = new Date('2026-10-19T12:00:00Z').getTime();
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const hoursAgo = (hours: number) => new Date(NOW - hours * HOUR_MS).toISOString();
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+const createSource = (overrides: Partial<Source> = {}): Source => ({
+  id: 1,
+  name: 'Tech Blog',
+  feed_url: 'https://example.com/feed.xml',
+  active: true,
+  last_crawled_at: hoursAgo(1),
+  ...overrides,
+});
+
+describe('sourceHealth', () => {
+  describe('getSourceHealth', () => {
+    it('should classify sources without a crawl as never-crawled', () => {
+      expect(getSourceHealth(createSource({ last_crawled_at: null }), null, NOW)).toEqual({
+        status: 'never-crawled',
+        staleReasons: [],
+      });
+      expect(getSourceHealth(createSource({ last_crawled_at: undefined }), null, NOW).status).toBe(
+        'never-crawled'
+      );
+    });
+
+    it('should classify recently crawled sources as healthy', () => {
+      const activity = { articleCount: 5, lastArticleDate: daysAgo(1) };
+      expect(getSourceHealth(createSource(), activity, NOW)).toEqual({
+        status: 'healthy',
+        staleReasons: [],
+      });
+    });
+
+    it('should use the crawl threshold from SOURCE_CONFIG', () => {
+      const threshold = SOURCE_CONFIG.HEALTH_STALE_CRAWL_HOURS;
+
+      const atThreshold = createSource({ last_crawled_at: hoursAgo(threshold) });
+      expect(getSourceHealth(atThreshold, null, NOW).status).toBe('healthy');
+
+      const pastThreshold = createSource({ last_crawled_at: hoursAgo(threshold + 1) });
+      expect(getSourceHealth(pastThreshold, null, NOW)).toEqual({
+        status: 'stale',
+        staleReasons: ['crawl'],
+      });
+    });
+
+    it('should classify sources without recent articles as stale', () => {
+      const threshold = SOURCE_CONFIG.HEALTH_STALE_ARTICLE_DAYS;
+
+      expect(
+        getSourceHealth(
+          createSource(),
+          { articleCount: 3, lastArticleDate: daysAgo(threshold + 1) },
+          NOW
+        )
+      ).toEqual({ status: 'stale', staleReasons: ['articles'] });
+
+      expect(
+        getSourceHealth(createSource(), { articleCount: 0, lastArticleDate: null }, NOW)
+      ).toEqual({ status: 'stale', staleReasons: ['articles'] });
+    });
+
+    it('should report every stale reason', () => {
+      const source = createSource({ last_crawled_at: daysAgo(30) });
+      const activity = { articleCount: 1, lastArticleDate: daysAgo(60) };
+
+      expect(getSourceHealth(source, activity, NOW).staleReasons).toEqual(['crawl', 'articles']);
+    });
+
+    it('should ignore article activity that is not known yet', () => {
+      expect(getSourceHealth(createSource(), undefined, NOW).status).toBe('healthy');
+    });
+  });
+
+  describe('countByHealth', () => {
+    it('should count every status', () => {
+      const items = [
+        { health: getSourceHealth(createSource(), null, NOW) },
+        { health: getSourceHealth(createSource({ last_crawled_at: null }), null, NOW) },
+        { health: getSourceHealth(createSource({ last_crawled_at: null }), null, NOW) },
+      ];
+
+      expect(countByHealth(items)).toEqual({ healthy: 1, stale: 0, 'never-crawled': 2 });
+      expect(countByHealth([])).toEqual({ healthy: 0, stale: 0, 'never-crawled': 0 });
+    });
+  });
+
+  describe('sortByHealthSeverity', () => {
+    it('should list never-crawled, then stale, then healthy sources, oldest crawl first', () => {
+      const items = [
+        createSource({ id: 1, last_crawled_at: hoursAgo(1) }),
+        createSource({ id: 2, last_crawled_at: daysAgo(3) }),
+        createSource({ id: 3, last_crawled_at: null }),
+        createSource({ id: 4, last_crawled_at: daysAgo(10) }),
+        createSource({ id: 5, last_crawled_at: hoursAgo(5) }),
+      ].map((source) => ({ source, health: getSourceHealth(source, null, NOW) }));
+
+      expect(sortByHealthSeverity(items).map(({ source }) => source.id)).toEqual([3, 4, 2, 5, 1]);
+      // The input is not modified
+      expect(items.map(({ source }) => source.id)).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Source Health Utilities
+ *
+ * Classifies sources by crawl and publishing activity so dead feeds can be
+ * spotted. Thresholds come from SOURCE_CONFIG:
+ * - 'never-crawled': no last_crawled_at yet
+ * - 'stale': last crawl older than HEALTH_STALE_CRAWL_HOURS, or latest
+ *   article older than HEALTH_STALE_ARTICLE_DAYS (when known)
+ * - 'healthy': everything else
+ */
+
+import { SOURCE_CONFIG } from '@/config/sourceConfig';
+import type { Source } from '@/types/api';
+
+/**
+ * Health status of a source
+ */
+export type SourceHealthStatus = 'healthy' | 'stale' | 'never-crawled';
+
+/**
+ * Why a source is stale
+ * - 'crawl': not crawled within HEALTH_STALE_CRAWL_HOURS
+ * - 'articles': no article within HEALTH_STALE_ARTICLE_DAYS (or no articles at all)
+ */
+export type SourceStaleReason = 'crawl' | 'articles';
+
+/**
+ * Health classification of a source
+ */
+export interface SourceHealth {
+  status: SourceHealthStatus;
+  /** Reasons for a 'stale' status (empty otherwise) */
+  staleReasons: SourceStaleReason[];
+}
+
+/**
+ * Article activity of a source, when known
+ */
+export interface SourceArticleActivity {
+  /** Total number of articles from the source */
+  articleCount: number;
+  /** Publication date of the latest article, or null when there are none */
+  lastArticleDate: string | null;
+}
+
+/**
+ * Display labels for health statuses
+ */
+export const SOURCE_HEALTH_LABELS: Record<SourceHealthStatus, string> = {
+  healthy: 'Healthy',
+  stale: 'Stale',
+  'never-crawled': 'Never crawled',
+};
+
+/**
+ * Order used to list the sources that need attention first
+ */
+const HEALTH_SEVERITY: Record<SourceHealthStatus, number> = {
+  'never-crawled': 0,
+  stale: 1,
+  healthy: 2,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Whether a date is missing, invalid or older than maxAgeMs
+ */
+function isOlderThan(date: string | null | undefined, maxAgeMs: number, now: number): boolean {
+  const time = date ? new Date(date).getTime() : NaN;
+  return Number.isNaN(time) || now - time > maxAgeMs;
+}
+
+/**
+ * Classify the health of a source
+ *
+ * @param source - Source to classify
+ * @param activity - Article activity, or null/undefined when not (yet) known
+ * @param now - Current time in milliseconds (for tests)
+ * @returns Health status and stale reasons
+ *
+ * @example
+ * ```typescript
+ * getSourceHealth({ ...source, last_crawled_at: null });
+ * // { status: 'never-crawled', staleReasons: [] }
+ *
+ * getSourceHealth(source, { articleCount: 0, lastArticleDate: null });
+ * // { status: 'stale', staleReasons: ['articles'] }
+ * ```
+ */
+export function getSourceHealth(
+  source: Source,
+  activity?: SourceArticleActivity | null,
+  now: number = Date.now()
+): SourceHealth {
+  if (!source.last_crawled_at) {
+    return { status: 'never-crawled', staleReasons: [] };
+  }
+
+  const staleReasons: SourceStaleReason[] = [];
+
+  if (isOlderThan(source.last_crawled_at, SOURCE_CONFIG.HEALTH_STALE_CRAWL_HOURS * HOUR_MS, now)) {
+    staleReasons.push('crawl');
+  }
+
+  if (
+    activity &&
+    isOlderThan(activity.lastArticleDate, SOURCE_CONFIG.HEALTH_STALE_ARTICLE_DAYS * DAY_MS, now)
+  ) {
+    staleReasons.push('articles');
+  }
+
+  return {
+    status: staleReasons.length > 0 ? 'stale' : 'healthy',
+    staleReasons,
+  };
+}
+
+/**
+ * Count items per health status
+ *
+ * @param items - Items with a health status
+ * @returns Count for every status (0 when absent)
+ */
+export function countByHealth(
+  items: ReadonlyArray<{ health: SourceHealth }>
+): Record<SourceHealthStatus, number> {
+  const counts: Record<SourceHealthStatus, number> = {
+    healthy: 0,
+    stale: 0,
+    'never-crawled': 0,
+  };
+  for (const { health } of items) {
+    counts[health.status] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Sort items so never-crawled and stale sources come first
+ *
+ * Within a status, the least recently crawled come first; ties keep their order.
+ *
+ * @param items - Items with a source and health status
+ * @returns A new sorted array
+ */
+export function sortByHealthSeverity<T extends { source: Source; health: SourceHealth }>(
+  items: readonly T[]
+): T[] {
+  const crawlTime = (source: Source) =>
+    source.last_crawled_at ? new Date(source.last_crawled_at).getTime() || 0 : 0;
+
+  return [...items].sort(
+    (a, b) =>
+      HEALTH_SEVERITY[a.health.status] - HEALTH_SEVERITY[b.health.status] ||
+      crawlTime(a.source) - crawlTime(b.source)
+  );
+}
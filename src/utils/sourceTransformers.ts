@@ -5,6 +5,8 @@
  * (API response, form data, update input).
  */
 
+import { DEFAULT_SOURCE_TYPE } from '@/constants/source';
+import { getSourceType } from '@/utils/sourceType';
 import type { Source, SourceFormData, UpdateSourceInput } from '@/types/api';
 
 /**
@@ -26,13 +28,14 @@ import type { Source, SourceFormData, UpdateSourceInput } from '@/types/api';
  * };
  *
  * const formData = sourceToFormData(source);
- * // Result: { name: 'Tech News', feedURL: 'https://example.com/feed.xml' }
+ * // Result: { name: 'Tech News', feedURL: 'https://example.com/feed.xml', sourceType: 'RSS' }
  * ```
  */
 export function sourceToFormData(source: Source): SourceFormData {
   return {
     name: source.name,
     feedURL: source.feed_url,
+    sourceType: getSourceType(source),
   };
 }
 
@@ -40,7 +43,7 @@ export function sourceToFormData(source: Source): SourceFormData {
  * Converts SourceFormData to UpdateSourceInput for API updates.
  *
  * Transforms form data to the format expected by the PUT /sources/:id endpoint.
- * Trims whitespace from input values and adds the active status.
+ * Trims whitespace from input values and adds the active status and source type.
  *
  * @param data - Form data from source edit form
  * @param active - Current active status of the source
@@ -57,7 +60,8 @@ export function sourceToFormData(source: Source): SourceFormData {
  * // Result: {
  * //   name: 'Tech News',
  * //   feedURL: 'https://example.com/feed.xml',
- * //   active: true
+ * //   active: true,
+ * //   sourceType: 'RSS'
  * // }
  * ```
  */
@@ -66,5 +70,6 @@ export function formDataToUpdateInput(data: SourceFormData, active: boolean): Up
     name: data.name.trim(),
     feedURL: data.feedURL.trim(),
     active,
+    sourceType: data.sourceType ?? DEFAULT_SOURCE_TYPE,
   };
 }
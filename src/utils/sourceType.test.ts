@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { getSourceType, isSourceType } from './sourceType';
+
+describe('sourceType', () => {
+  describe('isSourceType', () => {
+    it('should accept every known source type', () => {
+      expect(['RSS', 'Webflow', 'NextJS', 'Remix'].every(isSourceType)).toBe(true);
+    });
+
+    it('should reject unknown values', () => {
+      expect(isSourceType('rss')).toBe(false);
+      expect(isSourceType('Atom')).toBe(false);
+      expect(isSourceType('')).toBe(false);
+      expect(isSourceType(null)).toBe(false);
+      expect(isSourceType(undefined)).toBe(false);
+    });
+  });
+
+  describe('getSourceType', () => {
+    it('should return the type of the source', () => {
+      expect(getSourceType({ source_type: 'Webflow' })).toBe('Webflow');
+    });
+
+    it('should treat sources without a type as RSS', () => {
+      expect(getSourceType({})).toBe('RSS');
+      expect(getSourceType({ source_type: undefined })).toBe('RSS');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Source Type Utilities
+ *
+ * Helpers for reading and validating the type of a source.
+ */
+
+import { DEFAULT_SOURCE_TYPE, SOURCE_TYPES } from '@/constants/source';
+import type { Source, SourceType } from '@/types/api';
+
+/**
+ * Check whether a value is a known source type
+ *
+ * @param value - Value to check (e.g. a URL parameter)
+ * @returns true if value is one of SOURCE_TYPES
+ *
+ * @example
+ * isSourceType('Webflow'); // true
+ * isSourceType('rss'); // false (types are case-sensitive)
+ */
+export function isSourceType(value: unknown): value is SourceType {
+  return typeof value === 'string' && (SOURCE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Get the type of a source
+ *
+ * Sources created before source types existed have no type and are RSS.
+ *
+ * @param source - Source entity
+ * @returns The source type, or DEFAULT_SOURCE_TYPE when the source has none
+ */
+export function getSourceType(source: Pick<Source, 'source_type'>): SourceType {
+  return source.source_type ?? DEFAULT_SOURCE_TYPE;
+}
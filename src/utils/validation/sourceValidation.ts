@@ -9,6 +9,7 @@
 
 import { SOURCE_CONFIG } from '@/config/sourceConfig';
 import { ERROR_MESSAGES } from '@/utils/errorMessages';
+import type { SourceType } from '@/types/api';
 
 /**
  * Source form data interface
@@ -19,6 +20,8 @@ export interface SourceFormData {
   name: string;
   /** RSS/Atom feed URL */
   feedURL: string;
+  /** Source type (defaults to RSS) */
+  sourceType?: SourceType;
 }
 
 /**